@@ -0,0 +1,12 @@
+import { SlashCommandBuilder, type ChatInputCommandInteraction } from 'discord.js';
+
+import { startSelfServiceFlow } from './sale-flow.js';
+
+export const buyCommand = {
+  data: new SlashCommandBuilder()
+    .setName('buy')
+    .setDescription('Browse the store and get a checkout link for yourself'),
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    await startSelfServiceFlow(interaction);
+  },
+};
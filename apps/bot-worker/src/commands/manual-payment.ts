@@ -0,0 +1,146 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  MessageFlags,
+  ModalBuilder,
+  PermissionFlagsBits,
+  TextInputBuilder,
+  TextInputStyle,
+  type ButtonInteraction,
+  type ModalSubmitInteraction,
+} from 'discord.js';
+import {
+  MAX_MANUAL_PAYMENT_REFERENCE_LENGTH,
+  TenantRepository,
+  WebhookService,
+  buildManualPaymentApproveCustomId,
+  parseManualPaymentApproveCustomId,
+} from '@voodoo/core';
+
+import { extractInteractionRoleIds, hasConfiguredStaffAccess } from '../permissions/sale-permissions.js';
+
+const tenantRepository = new TenantRepository();
+const webhookService = new WebhookService();
+const MANUAL_PAYMENT_REFERENCE_FIELD_ID = 'paymentReference';
+
+export function buildManualPaymentApproveRow(orderSessionId: string): ActionRowBuilder<ButtonBuilder> {
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(buildManualPaymentApproveCustomId(orderSessionId))
+      .setLabel('Mark as Paid')
+      .setStyle(ButtonStyle.Success),
+  );
+}
+
+function buildManualPaymentModal(orderSessionId: string): ModalBuilder {
+  const referenceInput = new TextInputBuilder()
+    .setCustomId(MANUAL_PAYMENT_REFERENCE_FIELD_ID)
+    .setLabel('Payment reference or proof')
+    .setRequired(true)
+    .setStyle(TextInputStyle.Short)
+    .setMaxLength(MAX_MANUAL_PAYMENT_REFERENCE_LENGTH)
+    .setPlaceholder('Bank reference, gift card code or a link to the receipt');
+
+  return new ModalBuilder()
+    .setCustomId(`manual-payment:approve-modal:${orderSessionId}`)
+    .setTitle('Confirm Manual Payment')
+    .addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(referenceInput));
+}
+
+async function handleManualPaymentModalSubmission(
+  interaction: ModalSubmitInteraction,
+  input: { tenantId: string; guildId: string; orderSessionId: string },
+): Promise<void> {
+  await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+  const approved = await webhookService.approveManualPayment({
+    tenantId: input.tenantId,
+    guildId: input.guildId,
+    orderSessionId: input.orderSessionId,
+    approvedByDiscordUserId: interaction.user.id,
+    reference: interaction.fields.getTextInputValue(MANUAL_PAYMENT_REFERENCE_FIELD_ID),
+  });
+  if (approved.isErr()) {
+    await interaction.editReply({ content: approved.error.message });
+    return;
+  }
+
+  // The checkout message keeps its links and instructions; only the approval button goes away.
+  const messageWithEdit = interaction as ModalSubmitInteraction & {
+    message?: { edit: (payload: { components: [] }) => Promise<unknown> };
+  };
+  if (messageWithEdit.message) {
+    await messageWithEdit.message.edit({ components: [] });
+  }
+
+  await interaction.editReply({
+    content: `Payment confirmed for order session \`${input.orderSessionId}\`. The paid log has been posted.`,
+  });
+}
+
+export async function handleManualPaymentApproval(interaction: ButtonInteraction): Promise<void> {
+  const orderSessionId = parseManualPaymentApproveCustomId(interaction.customId);
+  if (!orderSessionId) {
+    await interaction.reply({
+      content: 'This payment action is invalid.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  if (!interaction.inGuild() || !interaction.guildId) {
+    await interaction.reply({
+      content: 'This button can only be used inside a Discord server.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const tenant = await tenantRepository.getTenantByGuildId(interaction.guildId);
+  if (!tenant) {
+    await interaction.reply({
+      content: 'This guild is not connected to any tenant in the SaaS dashboard.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const guildConfig = await tenantRepository.getGuildConfig({
+    tenantId: tenant.tenantId,
+    guildId: interaction.guildId,
+  });
+  const hasStaffAccess = hasConfiguredStaffAccess({
+    configuredRoleIds: guildConfig?.staffRoleIds ?? [],
+    hasManageGuild: interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild) === true,
+    hasAdministrator: interaction.memberPermissions?.has(PermissionFlagsBits.Administrator) === true,
+    memberRoleIds: extractInteractionRoleIds(interaction),
+  });
+
+  if (!hasStaffAccess) {
+    await interaction.reply({
+      content: 'Only configured staff roles or server administrators can confirm manual payments.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  await interaction.showModal(buildManualPaymentModal(orderSessionId));
+
+  try {
+    const modalInteraction = await interaction.awaitModalSubmit({
+      filter: (submittedInteraction) =>
+        submittedInteraction.customId === `manual-payment:approve-modal:${orderSessionId}` &&
+        submittedInteraction.user.id === interaction.user.id,
+      time: 300_000,
+    });
+
+    await handleManualPaymentModalSubmission(modalInteraction, {
+      tenantId: tenant.tenantId,
+      guildId: interaction.guildId,
+      orderSessionId,
+    });
+  } catch {
+    // Closing the form leaves the order pending; staff can press the button again.
+  }
+}
@@ -13,35 +13,18 @@ import {
 import {
   PaidOrderService,
   TenantRepository,
+  type PaidOrderCustomerNotificationResult,
   buildPaidOrderFulfillmentCustomId,
   getPaidOrderFulfillmentButtonPresentation,
   parsePaidOrderFulfillmentCustomId,
 } from '@voodoo/core';
 
-import { hasConfiguredStaffAccess } from '../permissions/sale-permissions.js';
+import { extractInteractionRoleIds, hasConfiguredStaffAccess } from '../permissions/sale-permissions.js';
 
 const paidOrderService = new PaidOrderService();
 const tenantRepository = new TenantRepository();
 const FULFILLMENT_MESSAGE_MODAL_FIELD_ID = 'customerMessage';
 
-function extractInteractionRoleIds(interaction: ButtonInteraction): string[] {
-  const member = interaction.member;
-  if (!member || typeof member !== 'object' || !('roles' in member)) {
-    return [];
-  }
-
-  const roles = member.roles;
-  if (Array.isArray(roles)) {
-    return roles.filter((roleId): roleId is string => typeof roleId === 'string');
-  }
-
-  if (roles && typeof roles === 'object' && 'cache' in roles) {
-    return [...roles.cache.keys()];
-  }
-
-  return [];
-}
-
 function buildFulfillmentButtonRow(input: {
   paidOrderId: string;
   fulfillmentStatus: 'needs_action' | 'fulfilled';
@@ -75,12 +58,7 @@ function buildFulfillmentMessageModal(paidOrderId: string): ModalBuilder {
 
 function buildFulfillmentReplyContent(input: {
   alreadyFulfilled: boolean;
-  customerNotification: {
-    attempted: boolean;
-    delivered: boolean;
-    target: 'discord_channel' | 'telegram_dm' | null;
-    errorMessage: string | null;
-  };
+  customerNotification: PaidOrderCustomerNotificationResult;
 }): string {
   if (!input.customerNotification.attempted) {
     return input.alreadyFulfilled ? 'Order was already fulfilled.' : 'Order marked fulfilled.';
@@ -88,7 +66,11 @@ function buildFulfillmentReplyContent(input: {
 
   if (input.customerNotification.delivered) {
     const targetLabel =
-      input.customerNotification.target === 'telegram_dm' ? 'Telegram DM' : 'the Discord sale channel';
+      input.customerNotification.target === 'telegram_dm'
+        ? 'Telegram DM'
+        : input.customerNotification.target === 'discord_dm'
+          ? 'Discord DM'
+          : 'the Discord sale channel';
     return input.alreadyFulfilled
       ? `Order was already fulfilled. Your customer message was sent to ${targetLabel}.`
       : `Order marked fulfilled. Your customer message was sent to ${targetLabel}.`;
@@ -1,5 +1,7 @@
 import {
   ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
   EmbedBuilder,
   MessageFlags,
   PermissionFlagsBits,
@@ -9,14 +11,39 @@ import {
   type GuildMember,
   type GuildTextBasedChannel,
 } from 'discord.js';
-import { SaleService, TenantRepository, type SaleCheckoutOption } from '@voodoo/core';
+import {
+  SaleService,
+  TenantRepository,
+  type OrderSessionSource,
+  type SaleCheckoutOption,
+} from '@voodoo/core';
 
 import { canStartSale } from '../permissions/sale-permissions.js';
+import { buildManualPaymentApproveRow } from './manual-payment.js';
 import { createSaleDraft } from '../flows/sale-draft-store.js';
 
 const tenantRepository = new TenantRepository();
 const saleService = new SaleService();
 
+export const SELF_SERVICE_BUTTON_CUSTOM_ID = 'sale:buy';
+
+type SaleStepReply = (payload: {
+  content: string;
+  components?: Array<ActionRowBuilder<StringSelectMenuBuilder> | ActionRowBuilder<ButtonBuilder>>;
+}) => Promise<unknown>;
+
+export type SaleStartStepInput = {
+  tenantId: string;
+  guildId: string;
+  channelId: string;
+  staffUserId: string;
+  customerUserId: string;
+  source: OrderSessionSource;
+  tipEnabled: boolean;
+  defaultCurrency: string;
+  reply: SaleStepReply;
+};
+
 function normalizeCategoryLabel(category: string): string {
   const trimmed = category.trim();
   if (!trimmed) {
@@ -26,6 +53,22 @@ function normalizeCategoryLabel(category: string): string {
   return trimmed;
 }
 
+export function isSoldOutOption(option: { stockAvailable?: number | null }): boolean {
+  return option.stockAvailable === 0;
+}
+
+export function isSoldOutProduct(product: { variants: Array<{ stockAvailable?: number | null }> }): boolean {
+  return product.variants.length > 0 && product.variants.every(isSoldOutOption);
+}
+
+export function formatCategoryOptionDescription(input: { productCount: number; soldOutCount: number }): string {
+  const description =
+    input.soldOutCount >= input.productCount
+      ? `${input.productCount} product(s) - sold out`
+      : `${input.productCount} product(s)`;
+  return description.slice(0, 100);
+}
+
 async function resolveTenantFromGuild(guildId: string): Promise<{ tenantId: string; guildId: string } | null> {
   return tenantRepository.getTenantByGuildId(guildId);
 }
@@ -74,7 +117,7 @@ async function runSaleStart(input: {
   member: GuildMember;
   staffUserId: string;
   customerUserId: string;
-  editReply: (payload: { content: string; components?: ActionRowBuilder<StringSelectMenuBuilder>[] }) => Promise<unknown>;
+  editReply: SaleStepReply;
 }): Promise<void> {
   const preconditions = await enforceSalePreconditions({
     guildId: input.guildId,
@@ -99,19 +142,33 @@ async function runSaleStart(input: {
     return;
   }
 
-  const optionsResult = await saleService.getSaleOptions({
+  await showCategoryStep({
     tenantId: preconditions.tenantId,
     guildId: input.guildId,
+    channelId: input.channel.id,
+    staffUserId: input.staffUserId,
+    customerUserId: input.customerUserId,
+    source: 'staff',
+    tipEnabled: preconditions.tipEnabled,
+    defaultCurrency: preconditions.defaultCurrency,
+    reply: input.editReply,
+  });
+}
+
+async function showCategoryStep(input: SaleStartStepInput): Promise<void> {
+  const optionsResult = await saleService.getSaleOptions({
+    tenantId: input.tenantId,
+    guildId: input.guildId,
   });
 
   if (optionsResult.isErr()) {
-    await input.editReply({ content: optionsResult.error.message, components: [] });
+    await input.reply({ content: optionsResult.error.message, components: [] });
     return;
   }
 
   const products = optionsResult.value.filter((product) => product.variants.length > 0);
   if (products.length === 0) {
-    await input.editReply({
+    await input.reply({
       content: [
         'No active products/variants are configured for this server yet.',
         `Server ID: \`${input.guildId}\``,
@@ -122,19 +179,22 @@ async function runSaleStart(input: {
     return;
   }
 
-  const categoryCounts = new Map<string, { label: string; productCount: number }>();
+  const categoryCounts = new Map<string, { label: string; productCount: number; soldOutCount: number }>();
   for (const product of products) {
     const normalizedCategory = normalizeCategoryLabel(product.category);
     const key = normalizedCategory.toLowerCase();
+    const soldOut = isSoldOutProduct(product) ? 1 : 0;
     const existing = categoryCounts.get(key);
     if (existing) {
       existing.productCount += 1;
+      existing.soldOutCount += soldOut;
       continue;
     }
 
     categoryCounts.set(key, {
       label: normalizedCategory,
       productCount: 1,
+      soldOutCount: soldOut,
     });
   }
 
@@ -142,12 +202,12 @@ async function runSaleStart(input: {
     .sort((a, b) => a.label.localeCompare(b.label))
     .map((category) => ({
       label: category.label.slice(0, 100),
-      description: `${category.productCount} product(s)`.slice(0, 100),
+      description: formatCategoryOptionDescription(category),
       value: category.label,
     }));
 
   if (categoryOptions.length === 0) {
-    await input.editReply({
+    await input.reply({
       content: [
         'No active products/variants are configured for this server yet.',
         `Server ID: \`${input.guildId}\``,
@@ -158,14 +218,15 @@ async function runSaleStart(input: {
     return;
   }
 
-  const draft = createSaleDraft({
-    tenantId: preconditions.tenantId,
+  const draft = await createSaleDraft({
+    tenantId: input.tenantId,
     guildId: input.guildId,
-    ticketChannelId: input.channel.id,
+    ticketChannelId: input.channelId,
     staffDiscordUserId: input.staffUserId,
     customerDiscordUserId: input.customerUserId,
-    tipEnabled: preconditions.tipEnabled,
-    defaultCurrency: preconditions.defaultCurrency,
+    source: input.source,
+    tipEnabled: input.tipEnabled,
+    defaultCurrency: input.defaultCurrency,
   });
 
   const select = new StringSelectMenuBuilder()
@@ -175,7 +236,7 @@ async function runSaleStart(input: {
 
   const row = new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(select);
 
-  await input.editReply({
+  await input.reply({
     content: `Step 1/4: Select category for <@${input.customerUserId}>`,
     components: [row],
   });
@@ -230,15 +291,118 @@ export async function startSaleFlowFromButton(interaction: ButtonInteraction): P
   });
 }
 
+/**
+ * Starts a customer-initiated sale. It runs in place when used in a ticket channel; anywhere else in
+ * the server the flow moves to the customer's DMs so baskets and answers are never posted publicly.
+ * `startStep` replaces the category picker, e.g. to open a storefront product directly.
+ */
+export async function startSelfServiceFlow(
+  interaction: ChatInputCommandInteraction | ButtonInteraction,
+  options: { startStep?: (input: SaleStartStepInput) => Promise<void> } = {},
+): Promise<void> {
+  const startStep = options.startStep ?? showCategoryStep;
+
+  if (!interaction.inGuild() || !interaction.guildId || !interaction.channel || !interaction.guild) {
+    await interaction.reply({
+      content: 'Use `/buy` inside the server you want to buy from. If you are not in a ticket, the order continues in DMs.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+  const tenant = await resolveTenantFromGuild(interaction.guildId);
+  if (!tenant) {
+    await interaction.editReply({ content: 'This guild is not connected to any tenant in the SaaS dashboard.' });
+    return;
+  }
+
+  const allowance = await saleService.ensureSelfServiceAllowed({
+    tenantId: tenant.tenantId,
+    guildId: interaction.guildId,
+    customerDiscordUserId: interaction.user.id,
+  });
+  if (allowance.isErr()) {
+    await interaction.editReply({ content: allowance.error.message });
+    return;
+  }
+
+  const configResult = await saleService.getGuildRuntimeConfig({
+    tenantId: tenant.tenantId,
+    guildId: interaction.guildId,
+  });
+  if (configResult.isErr()) {
+    await interaction.editReply({ content: configResult.error.message });
+    return;
+  }
+
+  const stepInput = {
+    tenantId: tenant.tenantId,
+    guildId: interaction.guildId,
+    staffUserId: interaction.user.id,
+    customerUserId: interaction.user.id,
+    source: 'self_service' as const,
+    tipEnabled: configResult.value.tipEnabled,
+    defaultCurrency: configResult.value.defaultCurrency,
+  };
+
+  const inTicketChannel = await saleService.isTicketChannel({
+    tenantId: tenant.tenantId,
+    guildId: interaction.guildId,
+    channelId: interaction.channel.id,
+  });
+  if (inTicketChannel) {
+    const botMemberId = interaction.guild.members.me?.id;
+    const botPerms = botMemberId ? interaction.channel.permissionsFor(botMemberId) : null;
+    if (!botPerms?.has([PermissionFlagsBits.ViewChannel, PermissionFlagsBits.SendMessages])) {
+      await interaction.editReply({
+        content: 'I am missing channel permissions (View Channel / Send Messages) to run sale actions in this ticket.',
+      });
+      return;
+    }
+
+    await startStep({
+      ...stepInput,
+      channelId: interaction.channel.id,
+      reply: interaction.editReply.bind(interaction),
+    });
+    return;
+  }
+
+  try {
+    const dmChannel = await interaction.user.createDM();
+    await startStep({
+      ...stepInput,
+      channelId: dmChannel.id,
+      reply: (payload) => dmChannel.send(payload),
+    });
+  } catch {
+    await interaction.editReply({
+      content: 'I could not send you a DM. Allow DMs from server members, or open a ticket and use `/buy` there.',
+    });
+    return;
+  }
+
+  await interaction.editReply({ content: 'Check your DMs to continue your order.' });
+}
+
+export function buildSelfServiceButtonRow(): ActionRowBuilder<ButtonBuilder> {
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder().setCustomId(SELF_SERVICE_BUTTON_CUSTOM_ID).setLabel('Buy').setStyle(ButtonStyle.Primary),
+  );
+}
+
 export async function sendCheckoutMessage(
   channel: GuildTextBasedChannel,
   input: {
-    checkoutUrl: string;
+    checkoutUrl: string | null;
     checkoutOptions?: SaleCheckoutOption[];
+    paymentInstructions?: string | null;
     orderSessionId: string;
     customerDiscordUserId: string;
   },
-): Promise<void> {
+): Promise<{ channelId: string; messageId: string }> {
   const isSendable = (channel as { isSendable?: () => boolean }).isSendable;
   if (typeof isSendable === 'function' && !isSendable.call(channel)) {
     throw new Error(
@@ -246,7 +410,7 @@ export async function sendCheckoutMessage(
     );
   }
 
-  await channel.send({
+  const message = await channel.send({
     content: [
       `Sale created for <@${input.customerDiscordUserId}>.`,
       `Order Session: \`${input.orderSessionId}\``,
@@ -254,8 +418,12 @@ export async function sendCheckoutMessage(
       '',
       'Payment update will be posted here once paid. This may take up to 30 minutes. Do NOT pay again.',
     ].join('\n'),
-    embeds: [buildCheckoutLinksEmbed({ checkoutUrl: input.checkoutUrl, checkoutOptions: input.checkoutOptions })],
+    embeds: buildCheckoutEmbeds(input),
+    // Staff confirm bank transfers and other manual payments from here; the handler checks staff access.
+    components: input.paymentInstructions ? [buildManualPaymentApproveRow(input.orderSessionId)] : [],
   });
+
+  return { channelId: channel.id, messageId: message.id };
 }
 
 function toMaskedLink(label: string, url: string): string {
@@ -264,13 +432,18 @@ function toMaskedLink(label: string, url: string): string {
 }
 
 export function buildCheckoutLinkLines(input: {
-  checkoutUrl: string;
+  checkoutUrl: string | null;
   checkoutOptions?: SaleCheckoutOption[];
 }): string[] {
   const checkoutOptions =
     input.checkoutOptions && input.checkoutOptions.length > 0
       ? input.checkoutOptions
-      : [{ method: 'pay' as const, label: 'Pay', url: input.checkoutUrl }];
+      : input.checkoutUrl
+        ? [{ method: 'pay' as const, label: 'Pay', url: input.checkoutUrl }]
+        : [];
+  if (checkoutOptions.length === 0) {
+    return [];
+  }
 
   if (checkoutOptions.length === 1 && checkoutOptions[0]?.method === 'pay') {
     return [`${toMaskedLink('Click Here To Pay', checkoutOptions[0].url)}`];
@@ -280,9 +453,34 @@ export function buildCheckoutLinkLines(input: {
 }
 
 export function buildCheckoutLinksEmbed(input: {
-  checkoutUrl: string;
+  checkoutUrl: string | null;
   checkoutOptions?: SaleCheckoutOption[];
 }): EmbedBuilder {
   return new EmbedBuilder().setTitle('Payment Options').setDescription(buildCheckoutLinkLines(input).join('\n'));
 }
 
+/** Checkout links plus the guild's manual payment instructions; either may be missing, but not both. */
+export function buildCheckoutEmbeds(input: {
+  checkoutUrl: string | null;
+  checkoutOptions?: SaleCheckoutOption[];
+  paymentInstructions?: string | null;
+}): EmbedBuilder[] {
+  const embeds: EmbedBuilder[] = [];
+  if (buildCheckoutLinkLines(input).length > 0) {
+    embeds.push(buildCheckoutLinksEmbed(input));
+  }
+  if (input.paymentInstructions) {
+    embeds.push(
+      new EmbedBuilder()
+        .setTitle(embeds.length > 0 ? 'Or Pay Manually' : 'Payment Instructions')
+        .setDescription(
+          [input.paymentInstructions, '', 'Staff will confirm your order once the payment has been received.'].join(
+            '\n',
+          ),
+        ),
+    );
+  }
+
+  return embeds;
+}
+
@@ -1,8 +1,50 @@
-import { SaleService } from '@voodoo/core';
+import { ProductRepository, SaleDraftRepository, SaleService, type SaleDraftRecord } from '@voodoo/core';
 import { afterEach, describe, expect, it, vi } from 'vitest';
 
-import { createSaleDraft, removeSaleDraft } from '../flows/sale-draft-store.js';
-import { handleSaleAction } from './sale-interactions.js';
+import { createSaleDraft, getSaleDraft, removeSaleDraft, updateSaleDraft } from '../flows/sale-draft-store.js';
+import { handleSaleAction, handleSaleModal, handleSaleSelect } from './sale-interactions.js';
+
+function mockSaleDraftRepository(): void {
+  const rows = new Map<string, SaleDraftRecord>();
+
+  vi.spyOn(SaleDraftRepository.prototype, 'createDraft').mockImplementation(async (input) => {
+    const record: SaleDraftRecord = {
+      id: `row-${input.draftKey}`,
+      kind: input.kind,
+      draftKey: input.draftKey,
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+      ticketChannelId: input.ticketChannelId ?? null,
+      controlChatId: input.controlChatId ?? null,
+      state: structuredClone(input.state),
+      version: 1,
+      expiresAt: input.expiresAt,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    rows.set(input.draftKey, record);
+    return record;
+  });
+  vi.spyOn(SaleDraftRepository.prototype, 'getDraft').mockImplementation(async (input) => {
+    const record = rows.get(input.draftKey);
+    return record ? { ...record, state: structuredClone(record.state) } : null;
+  });
+  vi.spyOn(SaleDraftRepository.prototype, 'updateDraft').mockImplementation(async (input) => {
+    const record = rows.get(input.draftKey);
+    if (!record || record.version !== input.expectedVersion) {
+      return null;
+    }
+
+    record.ticketChannelId = input.ticketChannelId ?? null;
+    record.controlChatId = input.controlChatId ?? null;
+    record.state = structuredClone(input.state);
+    record.version += 1;
+    return record.version;
+  });
+  vi.spyOn(SaleDraftRepository.prototype, 'deleteDraft').mockImplementation(async (input) => {
+    rows.delete(input.draftKey);
+  });
+}
 
 describe('sale interactions', () => {
   afterEach(() => {
@@ -34,8 +76,9 @@ describe('sale interactions', () => {
     vi.spyOn(SaleService.prototype, 'getSaleOptions').mockResolvedValue(
       saleOptionsResult as any,
     );
+    mockSaleDraftRepository();
 
-    const draft = createSaleDraft({
+    const draft = await createSaleDraft({
       tenantId: 'tenant-1',
       guildId: 'guild-1',
       ticketChannelId: 'channel-1',
@@ -53,7 +96,9 @@ describe('sale interactions', () => {
       variantLabel: 'Standard',
       priceMinor: 2000,
       currency: 'GBP',
+      quantity: 1,
     });
+    await updateSaleDraft(draft);
 
     const update = vi.fn().mockResolvedValue(undefined);
 
@@ -80,7 +125,170 @@ describe('sale interactions', () => {
         custom_id: `sale:action:${draft.id}:continue_checkout`,
       });
     } finally {
-      removeSaleDraft(draft.id);
+      await removeSaleDraft(draft.id);
+    }
+  });
+
+  it('asks for a quantity after a price option is picked and adds one line for it', async () => {
+    mockSaleDraftRepository();
+    vi.spyOn(ProductRepository.prototype, 'getById').mockResolvedValue({ formFields: [] } as any);
+    vi.spyOn(SaleService.prototype, 'previewBasketPricing').mockResolvedValue({
+      isErr: () => false,
+      isOk: () => true,
+      value: { discounts: [], lineDiscountsMinor: [0], totalDiscountMinor: 0 },
+    } as any);
+
+    const draft = await createSaleDraft({
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      ticketChannelId: 'channel-1',
+      staffDiscordUserId: 'staff-1',
+      customerDiscordUserId: 'customer-1',
+      defaultCurrency: 'GBP',
+    });
+    draft.category = 'Alpha';
+    draft.productId = 'product-1';
+    draft.productName = 'Alpha Product';
+    draft.variantOptions = [
+      {
+        variantId: 'variant-1',
+        label: 'Standard',
+        priceMinor: 500,
+        currency: 'GBP',
+        stockAvailable: 10,
+        minQuantity: 2,
+        maxQuantity: null,
+      },
+    ];
+    await updateSaleDraft(draft);
+
+    const showModal = vi.fn().mockResolvedValue(undefined);
+    const editReply = vi.fn().mockResolvedValue(undefined);
+
+    try {
+      await handleSaleSelect({
+        customId: `sale:start:${draft.id}:variant`,
+        values: ['variant-1'],
+        user: { id: 'customer-1' },
+        showModal,
+        update: vi.fn().mockResolvedValue(undefined),
+        reply: vi.fn().mockResolvedValue(undefined),
+      } as any);
+
+      const modal = (showModal.mock.calls[0]?.[0] as { toJSON: () => any }).toJSON();
+      expect(modal.custom_id).toBe(`sale:modal:${draft.id}:quantity`);
+      expect(modal.components[0].components[0]).toMatchObject({ label: 'Quantity (2-10)', value: '2' });
+
+      await handleSaleModal({
+        customId: `sale:modal:${draft.id}:quantity`,
+        user: { id: 'customer-1' },
+        deferReply: vi.fn().mockResolvedValue(undefined),
+        editReply,
+        fields: { getTextInputValue: () => '3' },
+      } as any);
+
+      const payload = editReply.mock.calls[0]?.[0] as { content: string };
+      expect(payload.content).toContain('Added: Alpha / Alpha Product / Standard x3 - £15.00');
+      expect(payload.content).toContain('Total Due: £15.00');
+      expect((await getSaleDraft(draft.id))?.basketItems).toEqual([
+        expect.objectContaining({ variantId: 'variant-1', priceMinor: 500, quantity: 3 }),
+      ]);
+    } finally {
+      await removeSaleDraft(draft.id);
+    }
+  });
+
+  it('shows volume prices and automatic discounts as separate basket lines', async () => {
+    mockSaleDraftRepository();
+    vi.spyOn(ProductRepository.prototype, 'getById').mockResolvedValue({ formFields: [] } as any);
+    const previewBasketPricing = vi.spyOn(SaleService.prototype, 'previewBasketPricing').mockResolvedValue({
+      isErr: () => false,
+      isOk: () => true,
+      value: {
+        discounts: [
+          { label: 'Volume price: Alpha Product / Standard (10 at £4.00 each)', amountMinor: 1000 },
+          { label: 'Spend £40 get 10% off', amountMinor: 400 },
+        ],
+        lineDiscountsMinor: [1400],
+        totalDiscountMinor: 1400,
+      },
+    } as any);
+
+    const draft = await createSaleDraft({
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      ticketChannelId: 'channel-1',
+      staffDiscordUserId: 'staff-1',
+      customerDiscordUserId: 'customer-1',
+      defaultCurrency: 'GBP',
+    });
+    draft.category = 'Alpha';
+    draft.productId = 'product-1';
+    draft.productName = 'Alpha Product';
+    draft.variantOptions = [{ variantId: 'variant-1', label: 'Standard', priceMinor: 500, currency: 'GBP' }];
+    draft.variantId = 'variant-1';
+    await updateSaleDraft(draft);
+
+    const editReply = vi.fn().mockResolvedValue(undefined);
+
+    try {
+      await handleSaleModal({
+        customId: `sale:modal:${draft.id}:quantity`,
+        user: { id: 'customer-1' },
+        deferReply: vi.fn().mockResolvedValue(undefined),
+        editReply,
+        fields: { getTextInputValue: () => '10' },
+      } as any);
+
+      expect(previewBasketPricing).toHaveBeenCalledWith(
+        expect.objectContaining({ items: [{ productId: 'product-1', variantId: 'variant-1', quantity: 10 }] }),
+      );
+      const payload = editReply.mock.calls[0]?.[0] as { content: string };
+      expect(payload.content).toContain('Subtotal: £50.00');
+      expect(payload.content).toContain('Volume price: Alpha Product / Standard (10 at £4.00 each): -£10.00');
+      expect(payload.content).toContain('Spend £40 get 10% off: -£4.00');
+      expect(payload.content).toContain('Total Due: £36.00');
+      expect((await getSaleDraft(draft.id))?.basketItems).toEqual([
+        expect.objectContaining({ variantId: 'variant-1', priceMinor: 500, automaticDiscountMinor: 1400 }),
+      ]);
+    } finally {
+      await removeSaleDraft(draft.id);
+    }
+  });
+
+  it('rejects a quantity above what is left in stock', async () => {
+    mockSaleDraftRepository();
+
+    const draft = await createSaleDraft({
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      ticketChannelId: 'channel-1',
+      staffDiscordUserId: 'staff-1',
+      customerDiscordUserId: 'customer-1',
+      defaultCurrency: 'GBP',
+    });
+    draft.productId = 'product-1';
+    draft.variantId = 'variant-1';
+    draft.variantOptions = [
+      { variantId: 'variant-1', label: 'Standard', priceMinor: 500, currency: 'GBP', stockAvailable: 4 },
+    ];
+    await updateSaleDraft(draft);
+
+    const editReply = vi.fn().mockResolvedValue(undefined);
+
+    try {
+      await handleSaleModal({
+        customId: `sale:modal:${draft.id}:quantity`,
+        user: { id: 'customer-1' },
+        deferReply: vi.fn().mockResolvedValue(undefined),
+        editReply,
+        fields: { getTextInputValue: () => '5' },
+      } as any);
+
+      expect(editReply.mock.calls[0]?.[0]).toMatchObject({ content: 'Only 4 more of Standard can be added.' });
+      expect((await getSaleDraft(draft.id))?.basketItems).toEqual([]);
+    } finally {
+      await removeSaleDraft(draft.id);
     }
   });
 });
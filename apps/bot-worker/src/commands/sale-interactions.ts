@@ -13,28 +13,45 @@ import {
   type StringSelectMenuInteraction,
 } from 'discord.js';
 import {
-  computeCouponEligibleSubtotalMinor,
-  CouponRepository,
+  CouponService,
+  describeAmountExample,
+  describeCouponRules,
+  describeQuantityViolation,
+  formatCurrencyMinor,
+  formatMinorAsMajor,
+  getLineTotalMinor,
+  isFixedQuantity,
+  logger,
+  parseMajorToMinor,
+  parseQuantityInput,
   ProductRepository,
+  resolveQuantityRange,
   SaleService,
   TenantRepository,
+  type QuantityLimits,
 } from '@voodoo/core';
 
 import {
+  claimSaleDraft,
   getSaleDraft,
-  removeSaleDraft,
+  restoreSaleDraft,
   updateSaleDraft,
   type SaleDraft,
+  type SaleDraftBasketItem,
   type SaleDraftFormField,
+  type SaleDraftVariantOption,
 } from '../flows/sale-draft-store.js';
 import {
-  buildCheckoutLinksEmbed,
+  buildCheckoutEmbeds,
+  formatCategoryOptionDescription,
+  isSoldOutOption,
+  isSoldOutProduct,
   sendCheckoutMessage,
   startSaleFlowFromButton,
 } from './sale-flow.js';
 
 const productRepository = new ProductRepository();
-const couponRepository = new CouponRepository();
+const couponService = new CouponService();
 const saleService = new SaleService();
 const displayLabelCollator = new Intl.Collator(undefined, {
   numeric: true,
@@ -45,6 +62,10 @@ function canInteractWithDraft(draft: SaleDraft, userId: string): boolean {
   return draft.customerDiscordUserId === userId || draft.staffDiscordUserId === userId;
 }
 
+function getSaleCommandHint(draft: SaleDraft): string {
+  return draft.source === 'self_service' ? '`/buy`' : '`/sale`';
+}
+
 function normalizeCategoryLabel(category: string): string {
   const trimmed = category.trim();
   if (!trimmed) {
@@ -94,26 +115,90 @@ type DraftFinalizeInteraction = {
   inGuild: () => boolean;
 };
 
-function formatMinorCurrency(minor: number, currency: string): string {
-  const major = (minor / 100).toFixed(2);
-  return `${major} ${currency}`;
+function getBasketSubtotalMinor(draft: SaleDraft): number {
+  return draft.basketItems.reduce((sum, item) => sum + getLineTotalMinor(item), 0);
 }
 
-function getBasketSubtotalMinor(draft: SaleDraft): number {
-  return draft.basketItems.reduce((sum, item) => sum + item.priceMinor, 0);
+function getQuantityLimits(variant: SaleDraftVariantOption): QuantityLimits {
+  return { minQuantity: variant.minQuantity ?? 1, maxQuantity: variant.maxQuantity ?? null };
+}
+
+function getUnitsInBasket(draft: SaleDraft, variantId: string): number {
+  return draft.basketItems
+    .filter((item) => item.variantId === variantId)
+    .reduce((sum, item) => sum + item.quantity, 0);
+}
+
+/** Most units of a price option that can still be added, after its line limit, stock and the basket. */
+function getAddableQuantity(draft: SaleDraft, variant: SaleDraftVariantOption): number {
+  const { max } = resolveQuantityRange(getQuantityLimits(variant));
+  const stockCap = typeof variant.stockAvailable === 'number' ? variant.stockAvailable : max;
+  return Math.max(0, Math.min(max, stockCap) - getUnitsInBasket(draft, variant.variantId));
+}
+
+function describeNoRoomForVariant(draft: SaleDraft, variant: SaleDraftVariantOption, addableQuantity: number): string {
+  if (variant.stockAvailable === 0) {
+    return `${variant.label} is sold out. Pick another price option.`;
+  }
+
+  if (addableQuantity > 0) {
+    const { min } = resolveQuantityRange(getQuantityLimits(variant));
+    return `Only ${addableQuantity} more of ${variant.label} can be added, but the minimum is ${min}.`;
+  }
+
+  const stockAvailable = variant.stockAvailable;
+  if (typeof stockAvailable === 'number' && getUnitsInBasket(draft, variant.variantId) >= stockAvailable) {
+    return `Only ${stockAvailable} of ${variant.label} left in stock, and all of them are already in the basket.`;
+  }
+
+  return `The basket already has the most of ${variant.label} allowed in one order.`;
+}
+
+function formatBasketItemLine(item: SaleDraftBasketItem): string {
+  const label = `${item.category} / ${item.productName} / ${item.variantLabel}`;
+  const total = formatCurrencyMinor(getLineTotalMinor(item), item.currency);
+  return item.quantity > 1 ? `${label} x${item.quantity} - ${total}` : `${label} - ${total}`;
+}
+
+function getAutomaticDiscountMinor(draft: SaleDraft): number {
+  const total = (draft.automaticDiscounts ?? []).reduce((sum, discount) => sum + discount.amountMinor, 0);
+  return Math.min(getBasketSubtotalMinor(draft), total);
 }
 
 function getCouponDiscountMinor(draft: SaleDraft): number {
-  const subtotal = getBasketSubtotalMinor(draft);
+  const subtotal = getBasketSubtotalMinor(draft) - getAutomaticDiscountMinor(draft);
   return Math.min(subtotal, Math.max(0, draft.couponDiscountMinor));
 }
 
 function getBasketTotalMinor(draft: SaleDraft): number {
-  const subtotal = getBasketSubtotalMinor(draft);
+  const subtotal = getBasketSubtotalMinor(draft) - getAutomaticDiscountMinor(draft);
   const couponDiscountMinor = getCouponDiscountMinor(draft);
   return Math.max(0, subtotal - couponDiscountMinor + draft.tipMinor);
 }
 
+/**
+ * Re-prices the basket with volume prices and the guild's automatic discounts. The draft keeps the list
+ * prices; savings are stored per line so coupons and points work from what is left.
+ */
+async function refreshAutomaticDiscounts(draft: SaleDraft): Promise<void> {
+  const pricing = await saleService.previewBasketPricing({
+    tenantId: draft.tenantId,
+    guildId: draft.guildId,
+    currency: draft.basketItems[0]?.currency ?? draft.defaultCurrency,
+    items: draft.basketItems.map((item) => ({
+      productId: item.productId,
+      variantId: item.variantId,
+      quantity: item.quantity,
+    })),
+  });
+  const lineDiscountsMinor = pricing.isOk() ? pricing.value.lineDiscountsMinor : [];
+  draft.automaticDiscounts = pricing.isOk() ? pricing.value.discounts : [];
+  draft.basketItems = draft.basketItems.map((item, index) => ({
+    ...item,
+    automaticDiscountMinor: lineDiscountsMinor[index] ?? 0,
+  }));
+}
+
 function resetPointsSelection(draft: SaleDraft): void {
   draft.customerEmailNormalized = null;
   draft.pointsPromptShown = false;
@@ -130,31 +215,31 @@ function buildBasketSummaryLines(draft: SaleDraft): string[] {
     return ['Basket: (empty)'];
   }
 
-  const lines = draft.basketItems.map(
-    (item, index) =>
-      `${index + 1}. ${item.category} / ${item.productName} / ${item.variantLabel} - ${formatMinorCurrency(item.priceMinor, item.currency)}`,
-  );
+  const lines = draft.basketItems.map((item, index) => `${index + 1}. ${formatBasketItemLine(item)}`);
 
   const currency = draft.basketItems[0]?.currency ?? draft.defaultCurrency;
   const subtotalMinor = getBasketSubtotalMinor(draft);
   const couponDiscountMinor = getCouponDiscountMinor(draft);
   const totalMinor = getBasketTotalMinor(draft);
 
-  lines.push(`Subtotal: ${formatMinorCurrency(subtotalMinor, currency)}`);
+  lines.push(`Subtotal: ${formatCurrencyMinor(subtotalMinor, currency)}`);
+  for (const discount of draft.automaticDiscounts ?? []) {
+    lines.push(`${discount.label}: -${formatCurrencyMinor(discount.amountMinor, currency)}`);
+  }
 
   if (draft.couponCode) {
     if (couponDiscountMinor > 0) {
-      lines.push(`Coupon (${draft.couponCode}): -${formatMinorCurrency(couponDiscountMinor, currency)}`);
+      lines.push(`Coupon (${draft.couponCode}): -${formatCurrencyMinor(couponDiscountMinor, currency)}`);
     } else {
-      lines.push(`Coupon (${draft.couponCode}): 0.00 ${currency}`);
+      lines.push(`Coupon (${draft.couponCode}): ${formatCurrencyMinor(0, currency)}`);
     }
   }
 
   if (draft.tipMinor > 0) {
-    lines.push(`Tip: +${formatMinorCurrency(draft.tipMinor, currency)}`);
+    lines.push(`Tip: +${formatCurrencyMinor(draft.tipMinor, currency)}`);
   }
 
-  lines.push(`Total Due: ${formatMinorCurrency(totalMinor, currency)}`);
+  lines.push(`Total Due: ${formatCurrencyMinor(totalMinor, currency)}`);
 
   return lines;
 }
@@ -273,37 +358,54 @@ function buildCouponModal(draftId: string, existingCouponCode: string | null): M
   return modal;
 }
 
-function buildTipModal(draftId: string, existingTipMinor: number): ModalBuilder {
-  const modal = new ModalBuilder().setCustomId(`sale:modal:${draftId}:tip`).setTitle('Add Tip (GBP)');
+function buildTipModal(draftId: string, existingTipMinor: number, currency: string): ModalBuilder {
+  const modal = new ModalBuilder().setCustomId(`sale:modal:${draftId}:tip`).setTitle(`Add Tip (${currency})`);
 
   const tipInput = new TextInputBuilder()
     .setCustomId('tipAmount')
-    .setLabel('Tip amount in GBP')
+    .setLabel(`Tip amount in ${currency}`)
     .setRequired(true)
     .setStyle(TextInputStyle.Short)
     .setMaxLength(12)
-    .setPlaceholder('2.50');
+    .setPlaceholder(describeAmountExample(currency));
 
   if (existingTipMinor > 0) {
-    tipInput.setValue((existingTipMinor / 100).toFixed(2));
+    tipInput.setValue(formatMinorAsMajor(existingTipMinor, currency));
   }
 
   modal.addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(tipInput));
   return modal;
 }
 
-function parseTipToMinor(rawValue: string): number {
-  const value = rawValue.trim();
-  if (!/^\d+(\.\d{1,2})?$/.test(value)) {
-    throw new Error('Tip must be a valid GBP amount, for example 2.50');
+function buildQuantityModal(draftId: string, variant: SaleDraftVariantOption, addableQuantity: number): ModalBuilder {
+  const { min } = resolveQuantityRange(getQuantityLimits(variant));
+  const modal = new ModalBuilder()
+    .setCustomId(`sale:modal:${draftId}:quantity`)
+    .setTitle(`Quantity - ${variant.label}`.slice(0, 45));
+
+  const quantityInput = new TextInputBuilder()
+    .setCustomId('quantity')
+    .setLabel(min === addableQuantity ? `Quantity (${min})` : `Quantity (${min}-${addableQuantity})`)
+    .setRequired(true)
+    .setStyle(TextInputStyle.Short)
+    .setMaxLength(4)
+    .setValue(String(min));
+
+  modal.addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(quantityInput));
+  return modal;
+}
+
+function parseTipToMinor(rawValue: string, currency: string): number {
+  const tipMinor = parseMajorToMinor(rawValue, currency);
+  if (tipMinor === null) {
+    throw new Error(`Tip must be a valid ${currency} amount, for example ${describeAmountExample(currency)}`);
   }
 
-  const amount = Number(value);
-  if (!Number.isFinite(amount) || amount <= 0) {
+  if (tipMinor <= 0) {
     throw new Error('Tip must be greater than zero.');
   }
 
-  return Math.round(amount * 100);
+  return tipMinor;
 }
 
 function mergeFormFields(existing: SaleDraftFormField[], incoming: SaleDraftFormField[]): SaleDraftFormField[] {
@@ -359,9 +461,11 @@ async function finalizeDraft(input: {
   interaction: DraftFinalizeInteraction;
 }): Promise<void> {
   try {
-    if (!input.interaction.inGuild() || !input.interaction.channel || input.draft.basketItems.length === 0) {
+    // Self-service checkouts may continue in the customer's DMs, outside the guild.
+    const channelAllowed = input.interaction.inGuild() || input.draft.source === 'self_service';
+    if (!channelAllowed || !input.interaction.channel || input.draft.basketItems.length === 0) {
       await input.interaction.editReply({
-        content: 'Sale draft expired. Please start again with `/sale`.',
+        content: `Sale draft expired. Please start again with ${getSaleCommandHint(input.draft)}.`,
         components: [],
       });
       return;
@@ -370,12 +474,15 @@ async function finalizeDraft(input: {
     const primaryItem = input.draft.basketItems[0];
     if (!primaryItem) {
       await input.interaction.editReply({
-        content: 'Basket is empty. Please restart `/sale`.',
+        content: `Basket is empty. Please restart ${getSaleCommandHint(input.draft)}.`,
         components: [],
       });
       return;
     }
 
+    // Claim the draft first so a second confirm click cannot create a duplicate checkout.
+    await claimSaleDraft(input.draft);
+
     const created = await saleService.createSaleSessionFromBot({
       tenantId: input.draft.tenantId,
       guildId: input.draft.guildId,
@@ -383,11 +490,13 @@ async function finalizeDraft(input: {
       staffDiscordUserId: input.draft.staffDiscordUserId,
       customerDiscordUserId: input.draft.customerDiscordUserId,
       defaultCurrency: input.draft.defaultCurrency,
+      source: input.draft.source,
       productId: primaryItem.productId,
       variantId: primaryItem.variantId,
       items: input.draft.basketItems.map((item) => ({
         productId: item.productId,
         variantId: item.variantId,
+        quantity: item.quantity,
       })),
       couponCode: input.draft.couponCode,
       tipMinor: input.draft.tipMinor,
@@ -396,19 +505,32 @@ async function finalizeDraft(input: {
     });
 
     if (created.isErr()) {
+      await restoreSaleDraft(input.draft);
       await input.interaction.editReply({ content: created.error.message, components: [] });
       return;
     }
 
-    removeSaleDraft(input.draftId);
-
     try {
-      await sendCheckoutMessage(input.interaction.channel as any, {
+      const checkoutMessage = await sendCheckoutMessage(input.interaction.channel as any, {
         checkoutUrl: created.value.checkoutUrl,
         checkoutOptions: created.value.checkoutOptions,
+        paymentInstructions: created.value.paymentInstructions,
         orderSessionId: created.value.orderSessionId,
         customerDiscordUserId: input.draft.customerDiscordUserId,
       });
+      // Lets the expiry sweeper edit this message once the checkout links stop working.
+      const recorded = await saleService.recordCheckoutMessage({
+        tenantId: input.draft.tenantId,
+        orderSessionId: created.value.orderSessionId,
+        channelId: checkoutMessage.channelId,
+        messageId: checkoutMessage.messageId,
+      });
+      if (recorded.isErr()) {
+        logger.warn(
+          { orderSessionId: created.value.orderSessionId, err: recorded.error },
+          'failed to record checkout message',
+        );
+      }
     } catch (error) {
       const reason = error instanceof Error ? error.message : 'Unknown error while posting checkout message.';
       await input.interaction.editReply({
@@ -419,12 +541,11 @@ async function finalizeDraft(input: {
           `Order Session: \`${created.value.orderSessionId}\``,
         ].join('\n'),
         components: [],
-        embeds: [
-          buildCheckoutLinksEmbed({
-            checkoutUrl: created.value.checkoutUrl,
-            checkoutOptions: created.value.checkoutOptions,
-          }),
-        ],
+        embeds: buildCheckoutEmbeds({
+          checkoutUrl: created.value.checkoutUrl,
+          checkoutOptions: created.value.checkoutOptions,
+          paymentInstructions: created.value.paymentInstructions,
+        }),
       });
       return;
     }
@@ -459,8 +580,12 @@ async function maybePromptPointsBeforeFinalize(input: {
       variantId: item.variantId,
       category: item.category,
       priceMinor: item.priceMinor,
+      quantity: item.quantity,
+      automaticDiscountMinor: item.automaticDiscountMinor,
     })),
     couponCode: input.draft.couponCode,
+    currency: input.draft.basketItems[0]?.currency ?? input.draft.defaultCurrency,
+    customerDiscordUserId: input.draft.customerDiscordUserId,
     tipMinor: input.draft.tipMinor,
     answers: input.draft.answers,
   });
@@ -484,7 +609,7 @@ async function maybePromptPointsBeforeFinalize(input: {
     input.draft.customerEmailNormalized = points.emailNormalized;
     input.draft.pointValueMinor = points.pointValueMinor;
     input.draft.pointsAvailable = points.availablePoints;
-    updateSaleDraft(input.draft);
+    await updateSaleDraft(input.draft);
 
     await input.interaction.editReply({
       content: 'Creating checkout link...',
@@ -504,16 +629,16 @@ async function maybePromptPointsBeforeFinalize(input: {
   input.draft.pointsReservedIfUsed = points.pointsReservedIfUsed;
   input.draft.pointsDiscountMinorIfUsed = points.pointsDiscountMinorIfUsed;
   input.draft.pointValueMinor = points.pointValueMinor;
-  updateSaleDraft(input.draft);
+  await updateSaleDraft(input.draft);
 
   await input.interaction.editReply({
     content: [
       'Step 8/8: Use Points?',
       ...buildBasketSummaryLines(input.draft),
       `Available points: ${points.availablePoints}`,
-      `Point value: 1 point = ${formatMinorCurrency(points.pointValueMinor, currency)}`,
+      `Point value: 1 point = ${formatCurrencyMinor(points.pointValueMinor, currency)}`,
       `Redeemable now: ${points.pointsReservedIfUsed} point(s)`,
-      `Discount if used: -${formatMinorCurrency(points.pointsDiscountMinorIfUsed, currency)}`,
+      `Discount if used: -${formatCurrencyMinor(points.pointsDiscountMinorIfUsed, currency)}`,
       'Would the customer like to apply points to this checkout?',
     ].join('\n'),
     components: [
@@ -555,19 +680,22 @@ async function renderCategorySelectionStep(
     return;
   }
 
-  const categoryCounts = new Map<string, { label: string; productCount: number }>();
+  const categoryCounts = new Map<string, { label: string; productCount: number; soldOutCount: number }>();
   for (const product of products) {
     const normalizedCategory = normalizeCategoryLabel(product.category);
     const key = normalizedCategory.toLowerCase();
+    const soldOut = isSoldOutProduct(product) ? 1 : 0;
     const existing = categoryCounts.get(key);
     if (existing) {
       existing.productCount += 1;
+      existing.soldOutCount += soldOut;
       continue;
     }
 
     categoryCounts.set(key, {
       label: normalizedCategory,
       productCount: 1,
+      soldOutCount: soldOut,
     });
   }
 
@@ -575,7 +703,7 @@ async function renderCategorySelectionStep(
     .sort((left, right) => displayLabelCollator.compare(left.label, right.label))
     .map((category) => ({
       label: category.label.slice(0, 100),
-      description: `${category.productCount} product(s)`.slice(0, 100),
+      description: formatCategoryOptionDescription(category),
       value: category.label,
     }));
 
@@ -585,7 +713,7 @@ async function renderCategorySelectionStep(
   draft.variantId = null;
   draft.variantOptions = [];
   resetPointsSelection(draft);
-  updateSaleDraft(draft);
+  await updateSaleDraft(draft);
 
   const row = buildSelectRow({
     customId: `sale:start:${draft.id}:category`,
@@ -609,7 +737,7 @@ async function renderProductSelectionStep(
 ): Promise<void> {
   if (!draft.category) {
     await interaction.update({
-      content: 'Category not selected. Start `/sale` again.',
+      content: `Category not selected. Start ${getSaleCommandHint(draft)} again.`,
       components: [],
     });
     return;
@@ -634,7 +762,7 @@ async function renderProductSelectionStep(
 
   if (products.length === 0) {
     await interaction.update({
-      content: `No products found for category "${draft.category}". Start \`/sale\` again.`,
+      content: `No products found for category "${draft.category}". Start ${getSaleCommandHint(draft)} again.`,
       components: [],
     });
     return;
@@ -644,7 +772,7 @@ async function renderProductSelectionStep(
   draft.productId = null;
   draft.variantId = null;
   draft.variantOptions = [];
-  updateSaleDraft(draft);
+  await updateSaleDraft(draft);
 
   const row = buildSelectRow({
     customId: `sale:start:${draft.id}:product`,
@@ -653,10 +781,12 @@ async function renderProductSelectionStep(
       .sort(compareProductNameForDisplay)
       .map((product) => ({
         label: product.name.slice(0, 100),
-        description: toOptionDescription({
-          description: product.description,
-          variantCount: product.variants.length,
-        }),
+        description: isSoldOutProduct(product)
+          ? 'Sold out'
+          : toOptionDescription({
+              description: product.description,
+              variantCount: product.variants.length,
+            }),
         value: product.productId,
       })),
   });
@@ -679,36 +809,38 @@ async function handleCategorySelection(
   selectedCategory: string,
 ): Promise<void> {
   draft.category = normalizeCategoryLabel(selectedCategory);
-  updateSaleDraft(draft);
+  await updateSaleDraft(draft);
   await renderProductSelectionStep(interaction, draft);
 }
 
-async function renderVariantSelectionStep(
-  interaction: SaleStepInteraction,
-  draft: SaleDraft,
-): Promise<void> {
+type SaleStepPayload = {
+  content: string;
+  components: Array<ActionRowBuilder<StringSelectMenuBuilder> | ActionRowBuilder<ButtonBuilder>>;
+};
+
+async function buildVariantSelectionStep(draft: SaleDraft): Promise<SaleStepPayload> {
   if (!draft.productId || !draft.productName || !draft.category) {
-    await interaction.update({
-      content: 'Product not selected. Start `/sale` again.',
+    return {
+      content: `Product not selected. Start ${getSaleCommandHint(draft)} again.`,
       components: [],
-    });
-    return;
+    };
   }
 
   if (draft.variantOptions.length === 0) {
-    await interaction.update({
-      content: 'No variants available for this product. Start `/sale` again.',
+    return {
+      content: `No variants available for this product. Start ${getSaleCommandHint(draft)} again.`,
       components: [],
-    });
-    return;
+    };
   }
 
   const row = buildSelectRow({
     customId: `sale:start:${draft.id}:variant`,
     placeholder: 'Select price option',
     options: draft.variantOptions.map((variant) => ({
-      label: variant.label.slice(0, 100),
-      description: `${(variant.priceMinor / 100).toFixed(2)} ${variant.currency}`.slice(0, 100),
+      label: (isSoldOutOption(variant) ? `${variant.label} (Sold out)` : variant.label).slice(0, 100),
+      description: isSoldOutOption(variant)
+        ? 'Sold out'
+        : formatCurrencyMinor(variant.priceMinor, variant.currency).slice(0, 100),
       value: variant.variantId,
     })),
   });
@@ -728,7 +860,7 @@ async function renderVariantSelectionStep(
       : null;
   const doneAddingRow = buildDoneAddingRow(draft);
 
-  await interaction.update({
+  return {
     content: [
       `Step 3/7: Product **${draft.productName}** selected.`,
       `Category: **${draft.category}**`,
@@ -741,18 +873,87 @@ async function renderVariantSelectionStep(
     components: doneAddingRow
       ? [row, buildBackRow({ customId: `sale:back:${draft.id}:product` }), doneAddingRow]
       : [row, buildBackRow({ customId: `sale:back:${draft.id}:product` })],
-  });
+  };
 }
 
-async function renderBasketDecisionStep(
+async function renderVariantSelectionStep(
   interaction: SaleStepInteraction,
   draft: SaleDraft,
 ): Promise<void> {
+  await interaction.update(await buildVariantSelectionStep(draft));
+}
+
+function applyProductSelection(
+  draft: SaleDraft,
+  product: {
+    productId: string;
+    name: string;
+    variants: Array<{
+      variantId: string;
+      label: string;
+      priceMinor: number;
+      currency: string;
+      stockAvailable: number | null;
+      minQuantity: number;
+      maxQuantity: number | null;
+    }>;
+  },
+): void {
+  draft.productName = product.name;
+  draft.productId = product.productId;
+  draft.variantId = null;
+  draft.variantOptions = [...product.variants]
+    .sort(compareVariantForDisplay)
+    .map((variant) => ({
+      variantId: variant.variantId,
+      label: variant.label,
+      priceMinor: variant.priceMinor,
+      currency: variant.currency,
+      stockAvailable: variant.stockAvailable,
+      minQuantity: variant.minQuantity,
+      maxQuantity: variant.maxQuantity,
+    }));
+}
+
+/**
+ * Opens a new draft at the price-option step for one product, e.g. when a customer picks it from a
+ * storefront panel. Back still leads to the product list of that product's category.
+ */
+export async function showProductVariantStep(input: {
+  draft: SaleDraft;
+  productId: string;
+  reply: (payload: SaleStepPayload) => Promise<unknown>;
+}): Promise<void> {
+  const { draft } = input;
+  const optionsResult = await saleService.getSaleOptions({
+    tenantId: draft.tenantId,
+    guildId: draft.guildId,
+    currency: draft.defaultCurrency,
+  });
+  if (optionsResult.isErr()) {
+    await input.reply({ content: optionsResult.error.message, components: [] });
+    return;
+  }
+
+  const product = optionsResult.value.find((option) => option.productId === input.productId);
+  if (!product || product.variants.length === 0) {
+    await input.reply({
+      content: `This product is no longer available. Start ${getSaleCommandHint(draft)} again.`,
+      components: [],
+    });
+    return;
+  }
+
+  draft.category = normalizeCategoryLabel(product.category);
+  applyProductSelection(draft, product);
+  await updateSaleDraft(draft);
+
+  await input.reply(await buildVariantSelectionStep(draft));
+}
+
+function buildBasketDecisionStep(draft: SaleDraft): SaleStepPayload {
   const last = draft.basketItems[draft.basketItems.length - 1];
-  const lastLine =
-    last && last.currency
-      ? `Added: ${last.category} / ${last.productName} / ${last.variantLabel} - ${formatMinorCurrency(last.priceMinor, last.currency)}`
-      : null;
+  const lastLine = last && last.currency ? `Added: ${formatBasketItemLine(last)}` : null;
 
   const buttons: StepButton[] = [
     {
@@ -775,7 +976,7 @@ async function renderBasketDecisionStep(
     });
   }
 
-  await interaction.update({
+  return {
     content: [
       'Step 4/7: Basket updated.',
       lastLine,
@@ -785,7 +986,14 @@ async function renderBasketDecisionStep(
       .filter((line): line is string => Boolean(line))
       .join('\n'),
     components: [buildButtonRow(buttons)],
-  });
+  };
+}
+
+async function renderBasketDecisionStep(
+  interaction: SaleStepInteraction,
+  draft: SaleDraft,
+): Promise<void> {
+  await interaction.update(buildBasketDecisionStep(draft));
 }
 
 async function renderCouponSelectionStep(
@@ -888,7 +1096,7 @@ async function renderTipDecisionStep(
     content: [
       'Step 7/7: Tip (optional)',
       ...buildBasketSummaryLines(draft),
-      'Would the customer like to add a tip in GBP?',
+      `Would the customer like to add a tip in ${draft.defaultCurrency}?`,
     ].join('\n'),
     components: [
       buildButtonRow([
@@ -914,7 +1122,7 @@ async function handleProductSelection(
 ): Promise<void> {
   if (!draft.category) {
     await interaction.update({
-      content: 'Category not selected. Start `/sale` again.',
+      content: `Category not selected. Start ${getSaleCommandHint(draft)} again.`,
       components: [],
     });
     return;
@@ -923,6 +1131,7 @@ async function handleProductSelection(
   const optionsResult = await saleService.getSaleOptions({
     tenantId: draft.tenantId,
     guildId: draft.guildId,
+    currency: draft.defaultCurrency,
   });
   if (optionsResult.isErr()) {
     await interaction.update({ content: optionsResult.error.message, components: [] });
@@ -932,7 +1141,7 @@ async function handleProductSelection(
   const selectedProduct = optionsResult.value.find((product) => product.productId === selectedProductId);
   if (!selectedProduct) {
     await interaction.update({
-      content: 'Product not found. Start `/sale` again.',
+      content: `Product not found. Start ${getSaleCommandHint(draft)} again.`,
       components: [],
     });
     return;
@@ -940,7 +1149,7 @@ async function handleProductSelection(
 
   if (normalizeCategoryLabel(selectedProduct.category).toLowerCase() !== draft.category.toLowerCase()) {
     await interaction.update({
-      content: 'Selected product does not belong to the chosen category. Start `/sale` again.',
+      content: `Selected product does not belong to the chosen category. Start ${getSaleCommandHint(draft)} again.`,
       components: [],
     });
     return;
@@ -948,57 +1157,29 @@ async function handleProductSelection(
 
   if (selectedProduct.variants.length === 0) {
     await interaction.update({
-      content: 'No variants available for this product. Start `/sale` again.',
+      content: `No variants available for this product. Start ${getSaleCommandHint(draft)} again.`,
       components: [],
     });
     return;
   }
 
-  draft.productName = selectedProduct.name;
-  draft.productId = selectedProduct.productId;
-  draft.variantId = null;
-  draft.variantOptions = [...selectedProduct.variants]
-    .sort(compareVariantForDisplay)
-    .map((variant) => ({
-      variantId: variant.variantId,
-      label: variant.label,
-      priceMinor: variant.priceMinor,
-      currency: draft.defaultCurrency,
-    }));
-  updateSaleDraft(draft);
+  applyProductSelection(draft, selectedProduct);
+  await updateSaleDraft(draft);
 
   await renderVariantSelectionStep(interaction, draft);
 }
 
-async function handleVariantSelection(
-  interaction: StringSelectMenuInteraction,
+/**
+ * Adds `quantity` units of the draft's current product as one basket line and merges in the product's
+ * questions. Returns a message for the customer when the line cannot be added.
+ */
+async function addVariantToBasket(
   draft: SaleDraft,
-  selectedVariantId: string,
-): Promise<void> {
+  variant: SaleDraftVariantOption,
+  quantity: number,
+): Promise<string | null> {
   if (!draft.productId || !draft.productName || !draft.category) {
-    await interaction.update({
-      content: 'Product not selected. Start `/sale` again.',
-      components: [],
-    });
-    return;
-  }
-
-  const variant = draft.variantOptions.find((item) => item.variantId === selectedVariantId);
-  if (!variant) {
-    await interaction.update({
-      content: 'Variant not found. Please restart `/sale`.',
-      components: [],
-    });
-    return;
-  }
-
-  const existingCurrency = draft.basketItems[0]?.currency;
-  if (existingCurrency && existingCurrency !== variant.currency) {
-    await interaction.update({
-      content: `Basket currency mismatch. Existing basket uses ${existingCurrency}, but this option uses ${variant.currency}.`,
-      components: [],
-    });
-    return;
+    return `Product not selected. Start ${getSaleCommandHint(draft)} again.`;
   }
 
   const fullProduct = await productRepository.getById({
@@ -1007,11 +1188,7 @@ async function handleVariantSelection(
     productId: draft.productId,
   });
   if (!fullProduct) {
-    await interaction.update({
-      content: 'Product details could not be loaded. Start `/sale` again.',
-      components: [],
-    });
-    return;
+    return `Product details could not be loaded. Start ${getSaleCommandHint(draft)} again.`;
   }
 
   const mergedFields = mergeFormFields(
@@ -1026,15 +1203,10 @@ async function handleVariantSelection(
   );
 
   if (mergedFields.length > 5) {
-    await interaction.update({
-      content:
-        'This basket requires more than 5 questions. Current modal flow supports up to 5 questions total. Reduce category questions and try again.',
-      components: [],
-    });
-    return;
+    return 'This basket requires more than 5 questions. Current modal flow supports up to 5 questions total. Reduce category questions and try again.';
   }
 
-  draft.variantId = selectedVariantId;
+  draft.variantId = variant.variantId;
   draft.formFields = mergedFields;
   draft.basketItems.push({
     productId: draft.productId,
@@ -1043,10 +1215,61 @@ async function handleVariantSelection(
     variantId: variant.variantId,
     variantLabel: variant.label,
     priceMinor: variant.priceMinor,
-    currency: draft.defaultCurrency,
+    currency: variant.currency,
+    quantity,
   });
+  await refreshAutomaticDiscounts(draft);
   resetPointsSelection(draft);
-  updateSaleDraft(draft);
+  await updateSaleDraft(draft);
+
+  return null;
+}
+
+async function handleVariantSelection(
+  interaction: StringSelectMenuInteraction,
+  draft: SaleDraft,
+  selectedVariantId: string,
+): Promise<void> {
+  if (!draft.productId || !draft.productName || !draft.category) {
+    await interaction.update({
+      content: `Product not selected. Start ${getSaleCommandHint(draft)} again.`,
+      components: [],
+    });
+    return;
+  }
+
+  const variant = draft.variantOptions.find((item) => item.variantId === selectedVariantId);
+  if (!variant) {
+    await interaction.update({
+      content: `Variant not found. Please restart ${getSaleCommandHint(draft)}.`,
+      components: [],
+    });
+    return;
+  }
+
+  const limits = getQuantityLimits(variant);
+  const addableQuantity = getAddableQuantity(draft, variant);
+  const { min } = resolveQuantityRange(limits);
+  if (addableQuantity < min) {
+    await interaction.reply({
+      content: describeNoRoomForVariant(draft, variant, addableQuantity),
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  if (!isFixedQuantity(limits) && addableQuantity > min) {
+    draft.variantId = variant.variantId;
+    await updateSaleDraft(draft);
+    await interaction.showModal(buildQuantityModal(draft.id, variant, addableQuantity));
+    return;
+  }
+
+  const addError = await addVariantToBasket(draft, variant, min);
+  if (addError) {
+    await interaction.update({ content: addError, components: [] });
+    return;
+  }
 
   await renderBasketDecisionStep(interaction, draft);
 }
@@ -1058,7 +1281,7 @@ export async function handleSaleSelect(interaction: StringSelectMenuInteraction)
     return;
   }
 
-  const draft = getSaleDraft(draftId);
+  const draft = await getSaleDraft(draftId);
   if (!draft) {
     await interaction.update({
       content: 'Sale draft expired. Start `/sale` again.',
@@ -1078,7 +1301,7 @@ export async function handleSaleSelect(interaction: StringSelectMenuInteraction)
   const selectedValue = interaction.values[0]?.trim();
   if (!selectedValue) {
     await interaction.update({
-      content: 'Invalid selection. Start `/sale` again.',
+      content: `Invalid selection. Start ${getSaleCommandHint(draft)} again.`,
       components: [],
     });
     return;
@@ -1099,7 +1322,10 @@ export async function handleSaleSelect(interaction: StringSelectMenuInteraction)
     return;
   }
 
-  await interaction.update({ content: 'Unknown sale step. Start `/sale` again.', components: [] });
+  await interaction.update({
+    content: `Unknown sale step. Start ${getSaleCommandHint(draft)} again.`,
+    components: [],
+  });
 }
 
 export async function handleSaleBack(interaction: Interaction): Promise<void> {
@@ -1113,7 +1339,7 @@ export async function handleSaleBack(interaction: Interaction): Promise<void> {
     return;
   }
 
-  const draft = getSaleDraft(draftId);
+  const draft = await getSaleDraft(draftId);
   if (!draft) {
     await interaction.update({
       content: 'Sale draft expired. Start `/sale` again.',
@@ -1138,7 +1364,7 @@ export async function handleSaleBack(interaction: Interaction): Promise<void> {
   if (targetStep === 'product') {
     if (!draft.category) {
       await interaction.update({
-        content: 'Category not selected. Start `/sale` again.',
+        content: `Category not selected. Start ${getSaleCommandHint(draft)} again.`,
         components: [],
       });
       return;
@@ -1148,16 +1374,27 @@ export async function handleSaleBack(interaction: Interaction): Promise<void> {
     return;
   }
 
+  if (targetStep === 'variant') {
+    await renderVariantSelectionStep(interaction, draft);
+    return;
+  }
+
   if (targetStep === 'coupon') {
     await renderCouponSelectionStep(interaction, draft);
     return;
   }
 
-  await interaction.update({ content: 'Unknown sale step. Start `/sale` again.', components: [] });
+  await interaction.update({
+    content: `Unknown sale step. Start ${getSaleCommandHint(draft)} again.`,
+    components: [],
+  });
 }
 
-function getDraftFromInteraction(interaction: SaleStepInteraction, draftId: string): SaleDraft | null {
-  const draft = getSaleDraft(draftId);
+async function getDraftFromInteraction(
+  interaction: SaleStepInteraction,
+  draftId: string,
+): Promise<SaleDraft | null> {
+  const draft = await getSaleDraft(draftId);
   if (!draft) {
     return null;
   }
@@ -1180,9 +1417,9 @@ export async function handleSaleAction(interaction: Interaction): Promise<void>
     return;
   }
 
-  const draft = getDraftFromInteraction(interaction, draftId);
+  const draft = await getDraftFromInteraction(interaction, draftId);
   if (!draft) {
-    if (getSaleDraft(draftId)) {
+    if (await getSaleDraft(draftId)) {
       await interaction.reply({
         content: 'Only the selected customer (or the staff member who started this sale) can use this button.',
         flags: MessageFlags.Ephemeral,
@@ -1198,6 +1435,20 @@ export async function handleSaleAction(interaction: Interaction): Promise<void>
     return;
   }
 
+  if (action === 'quantity_open') {
+    const variant = draft.variantOptions.find((item) => item.variantId === draft.variantId);
+    if (!variant) {
+      await interaction.update({
+        content: `Price option not selected. Start ${getSaleCommandHint(draft)} again.`,
+        components: [],
+      });
+      return;
+    }
+
+    await interaction.showModal(buildQuantityModal(draft.id, variant, getAddableQuantity(draft, variant)));
+    return;
+  }
+
   if (action === 'change_last') {
     const popped = draft.basketItems.pop();
     if (!popped) {
@@ -1206,8 +1457,9 @@ export async function handleSaleAction(interaction: Interaction): Promise<void>
     }
 
     draft.formFields = await rebuildFormFieldsFromBasket(draft);
+    await refreshAutomaticDiscounts(draft);
     resetPointsSelection(draft);
-    updateSaleDraft(draft);
+    await updateSaleDraft(draft);
     await renderVariantSelectionStep(interaction, draft);
     return;
   }
@@ -1234,14 +1486,14 @@ export async function handleSaleAction(interaction: Interaction): Promise<void>
     draft.couponCode = null;
     draft.couponDiscountMinor = 0;
     resetPointsSelection(draft);
-    updateSaleDraft(draft);
+    await updateSaleDraft(draft);
     await renderAnswerCollectionStep(interaction, draft);
     return;
   }
 
   if (action === 'coupon_continue') {
     resetPointsSelection(draft);
-    updateSaleDraft(draft);
+    await updateSaleDraft(draft);
     await renderAnswerCollectionStep(interaction, draft);
     return;
   }
@@ -1266,14 +1518,14 @@ export async function handleSaleAction(interaction: Interaction): Promise<void>
   }
 
   if (action === 'tip_yes') {
-    await interaction.showModal(buildTipModal(draft.id, draft.tipMinor));
+    await interaction.showModal(buildTipModal(draft.id, draft.tipMinor, draft.defaultCurrency));
     return;
   }
 
   if (action === 'tip_skip') {
     draft.tipMinor = 0;
     resetPointsSelection(draft);
-    updateSaleDraft(draft);
+    await updateSaleDraft(draft);
 
     await interaction.update({
       content: 'Checking points...',
@@ -1294,7 +1546,7 @@ export async function handleSaleAction(interaction: Interaction): Promise<void>
 
   if (action === 'points_use') {
     draft.usePoints = true;
-    updateSaleDraft(draft);
+    await updateSaleDraft(draft);
 
     await interaction.update({
       content: 'Creating checkout link...',
@@ -1315,7 +1567,7 @@ export async function handleSaleAction(interaction: Interaction): Promise<void>
 
   if (action === 'points_skip') {
     draft.usePoints = false;
-    updateSaleDraft(draft);
+    await updateSaleDraft(draft);
 
     await interaction.update({
       content: 'Creating checkout link...',
@@ -1334,7 +1586,10 @@ export async function handleSaleAction(interaction: Interaction): Promise<void>
     return;
   }
 
-  await interaction.update({ content: 'Unknown sale action. Start `/sale` again.', components: [] });
+  await interaction.update({
+    content: `Unknown sale action. Start ${getSaleCommandHint(draft)} again.`,
+    components: [],
+  });
 }
 
 async function handleAnswersModal(interaction: ModalSubmitInteraction, draft: SaleDraft): Promise<void> {
@@ -1346,7 +1601,7 @@ async function handleAnswersModal(interaction: ModalSubmitInteraction, draft: Sa
     } catch {
       if (field.required) {
         await interaction.editReply({
-          content: 'Form questions changed during checkout. Please restart `/sale`.',
+          content: `Form questions changed during checkout. Please restart ${getSaleCommandHint(draft)}.`,
         });
         return;
       }
@@ -1357,7 +1612,7 @@ async function handleAnswersModal(interaction: ModalSubmitInteraction, draft: Sa
     const normalizedValue = value.trim();
     if (field.required && !normalizedValue) {
       await interaction.editReply({
-        content: `Required field is missing: \`${field.fieldKey}\`. Please restart \`/sale\`.`,
+        content: `Required field is missing: \`${field.fieldKey}\`. Please restart ${getSaleCommandHint(draft)}.`,
       });
       return;
     }
@@ -1366,14 +1621,14 @@ async function handleAnswersModal(interaction: ModalSubmitInteraction, draft: Sa
   }
 
   resetPointsSelection(draft);
-  updateSaleDraft(draft);
+  await updateSaleDraft(draft);
 
   if (draft.tipEnabled) {
     await interaction.editReply({
       content: [
         'Step 7/7: Tip (optional)',
         ...buildBasketSummaryLines(draft),
-        'Would the customer like to add a tip in GBP?',
+        `Would the customer like to add a tip in ${draft.defaultCurrency}?`,
       ].join('\n'),
       components: [
         buildButtonRow([
@@ -1433,49 +1688,26 @@ async function handleCouponModal(interaction: ModalSubmitInteraction, draft: Sal
     return;
   }
 
-  const coupon = await couponRepository.getByCode({
+  const currency = draft.basketItems[0]?.currency ?? draft.defaultCurrency;
+  const evaluated = await couponService.evaluateCouponForBasket({
     tenantId: draft.tenantId,
     guildId: draft.guildId,
-    code: rawCoupon,
-  });
-
-  if (!coupon || !coupon.active) {
-    await interaction.editReply({
-      content: `Coupon \`${rawCoupon}\` is invalid or inactive.`,
-      components: [
-        buildButtonRow([
-          {
-            customId: `sale:action:${draft.id}:coupon_apply`,
-            label: 'Try Another Code',
-            style: ButtonStyle.Secondary,
-          },
-          {
-            customId: `sale:action:${draft.id}:coupon_skip`,
-            label: 'No Coupon',
-            style: ButtonStyle.Primary,
-          },
-        ]),
-      ],
-    });
-    return;
-  }
-
-  const eligibleSubtotalMinor = computeCouponEligibleSubtotalMinor(
-    {
-      allowedCategories: coupon.allowedCategories,
-      allowedProductIds: coupon.allowedProductIds,
-      allowedVariantIds: coupon.allowedVariantIds,
-    },
-    draft.basketItems.map((item) => ({
+    couponCode: rawCoupon,
+    currency,
+    customerDiscordId: draft.customerDiscordUserId || null,
+    basketItems: draft.basketItems.map((item) => ({
       category: item.category,
       productId: item.productId,
       variantId: item.variantId,
       priceMinor: item.priceMinor,
+      quantity: item.quantity,
+      automaticDiscountMinor: item.automaticDiscountMinor,
     })),
-  );
-  if (eligibleSubtotalMinor <= 0) {
+  });
+
+  if (evaluated.isErr()) {
     await interaction.editReply({
-      content: `Coupon \`${rawCoupon}\` does not apply to the selected products/variations.`,
+      content: evaluated.error.message,
       components: [
         buildButtonRow([
           {
@@ -1494,16 +1726,17 @@ async function handleCouponModal(interaction: ModalSubmitInteraction, draft: Sal
     return;
   }
 
-  const effectiveCouponDiscountMinor = Math.min(eligibleSubtotalMinor, coupon.discountMinor);
+  const { coupon, discountMinor: effectiveCouponDiscountMinor } = evaluated.value;
 
   draft.couponCode = coupon.code;
   draft.couponDiscountMinor = effectiveCouponDiscountMinor;
   resetPointsSelection(draft);
-  updateSaleDraft(draft);
+  await updateSaleDraft(draft);
 
   await interaction.editReply({
     content: [
-      `Coupon \`${coupon.code}\` applied (-${formatMinorCurrency(effectiveCouponDiscountMinor, draft.basketItems[0]?.currency ?? draft.defaultCurrency)}).`,
+      `Coupon \`${coupon.code}\` applied (-${formatCurrencyMinor(effectiveCouponDiscountMinor, currency)}).`,
+      `Coupon rules: ${describeCouponRules(coupon, currency).join(' | ')}`,
       ...buildBasketSummaryLines(draft),
       'Continue to customer details.',
     ].join('\n'),
@@ -1519,12 +1752,59 @@ async function handleCouponModal(interaction: ModalSubmitInteraction, draft: Sal
   });
 }
 
+async function handleQuantityModal(interaction: ModalSubmitInteraction, draft: SaleDraft): Promise<void> {
+  const variant = draft.variantOptions.find((item) => item.variantId === draft.variantId);
+  if (!variant) {
+    await interaction.editReply({
+      content: `Price option not selected. Start ${getSaleCommandHint(draft)} again.`,
+    });
+    return;
+  }
+
+  const quantity = parseQuantityInput(interaction.fields.getTextInputValue('quantity'));
+  const addableQuantity = getAddableQuantity(draft, variant);
+  const limits = getQuantityLimits(variant);
+  const quantityError =
+    quantity === null
+      ? describeQuantityViolation(Number.NaN, limits)
+      : (describeQuantityViolation(quantity, limits) ??
+        (quantity > addableQuantity ? `Only ${addableQuantity} more of ${variant.label} can be added.` : null));
+  if (quantityError) {
+    await interaction.editReply({
+      content: quantityError,
+      components: [
+        buildButtonRow([
+          {
+            customId: `sale:action:${draft.id}:quantity_open`,
+            label: 'Try Again',
+            style: ButtonStyle.Secondary,
+          },
+          {
+            customId: `sale:back:${draft.id}:variant`,
+            label: 'Pick Another Option',
+            style: ButtonStyle.Secondary,
+          },
+        ]),
+      ],
+    });
+    return;
+  }
+
+  const addError = await addVariantToBasket(draft, variant, quantity ?? 1);
+  if (addError) {
+    await interaction.editReply({ content: addError, components: [] });
+    return;
+  }
+
+  await interaction.editReply(buildBasketDecisionStep(draft));
+}
+
 async function handleTipModal(interaction: ModalSubmitInteraction, draft: SaleDraft): Promise<void> {
   const rawTip = interaction.fields.getTextInputValue('tipAmount');
 
   let tipMinor = 0;
   try {
-    tipMinor = parseTipToMinor(rawTip);
+    tipMinor = parseTipToMinor(rawTip, draft.defaultCurrency);
   } catch (error) {
     await interaction.editReply({
       content: error instanceof Error ? error.message : 'Invalid tip amount.',
@@ -1548,7 +1828,7 @@ async function handleTipModal(interaction: ModalSubmitInteraction, draft: SaleDr
 
   draft.tipMinor = tipMinor;
   resetPointsSelection(draft);
-  updateSaleDraft(draft);
+  await updateSaleDraft(draft);
 
   await interaction.editReply({
     content: 'Checking points...',
@@ -1577,8 +1857,8 @@ export async function handleSaleModal(interaction: ModalSubmitInteraction): Prom
     return;
   }
 
-  const draft = getSaleDraft(draftId);
-  if (!draft || draft.basketItems.length === 0) {
+  const draft = await getSaleDraft(draftId);
+  if (!draft || (modalStep !== 'quantity' && draft.basketItems.length === 0)) {
     await interaction.editReply({
       content: 'Sale draft expired. Start `/sale` again.',
     });
@@ -1602,6 +1882,11 @@ export async function handleSaleModal(interaction: ModalSubmitInteraction): Prom
     return;
   }
 
+  if (modalStep === 'quantity') {
+    await handleQuantityModal(interaction, draft);
+    return;
+  }
+
   await handleAnswersModal(interaction, draft);
 }
 
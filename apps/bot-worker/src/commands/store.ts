@@ -0,0 +1,385 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ChannelType,
+  MessageFlags,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+  type APIActionRowComponent,
+  type APIComponentInMessageActionRow,
+  type APIEmbed,
+  type ButtonInteraction,
+  type ChatInputCommandInteraction,
+  type StringSelectMenuInteraction,
+} from 'discord.js';
+import { formatCurrencyMinor, SaleService, StorefrontService, TenantRepository } from '@voodoo/core';
+
+import { createSaleDraft } from '../flows/sale-draft-store.js';
+import { buildSelfServiceButtonRow, isSoldOutProduct, startSelfServiceFlow } from './sale-flow.js';
+import { showProductVariantStep } from './sale-interactions.js';
+
+const tenantRepository = new TenantRepository();
+const saleService = new SaleService();
+const storefrontService = new StorefrontService();
+
+const STORE_BUY_PREFIX = 'store:buy:';
+const STORE_TICKET_PREFIX = 'store:ticket:';
+
+export function sanitizeStoreTicketChannelName(baseName: string, suffix: string): string {
+  const normalizedBase = baseName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 32);
+  const safeBase = normalizedBase.length > 0 ? normalizedBase : 'customer';
+  const safeSuffix = suffix.toLowerCase().replace(/[^a-z0-9]+/g, '').slice(-6) || 'order';
+
+  return `order-${safeBase}-${safeSuffix}`.slice(0, 90);
+}
+
+export const storeCommand = {
+  data: new SlashCommandBuilder()
+    .setName('store')
+    .setDescription('Manage the storefront catalog')
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('panel')
+        .setDescription('Post a catalog panel that updates itself when products change')
+        .addChannelOption((option) =>
+          option
+            .setName('channel')
+            .setDescription('Channel to post the panel in (defaults to this channel)')
+            .addChannelTypes(ChannelType.GuildText, ChannelType.GuildAnnouncement)
+            .setRequired(false),
+        )
+        .addChannelOption((option) =>
+          option
+            .setName('ticket_category')
+            .setDescription('Category for tickets opened from the panel (leave empty to hide Open Ticket)')
+            .addChannelTypes(ChannelType.GuildCategory)
+            .setRequired(false),
+        ),
+    ),
+  async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    if (!interaction.inGuild() || !interaction.guildId || !interaction.guild || !interaction.channel) {
+      await interaction.reply({
+        content: 'This command can only be used inside a Discord server channel.',
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+    const member = await interaction.guild.members.fetch(interaction.user.id);
+    if (!member.permissions.has(PermissionFlagsBits.ManageGuild)) {
+      await interaction.editReply({ content: 'You need Manage Server to post store panels.' });
+      return;
+    }
+
+    const tenant = await tenantRepository.getTenantByGuildId(interaction.guildId);
+    if (!tenant) {
+      await interaction.editReply({ content: 'This guild is not connected to any tenant in the SaaS dashboard.' });
+      return;
+    }
+
+    const channelOption = interaction.options.getChannel('channel');
+    const channel = channelOption
+      ? await interaction.guild.channels.fetch(channelOption.id).catch(() => null)
+      : interaction.channel;
+    if (!channel || !channel.isTextBased() || channel.isDMBased()) {
+      await interaction.editReply({ content: 'Choose a text channel in this server for the store panel.' });
+      return;
+    }
+
+    const botMember = interaction.guild.members.me;
+    const botPerms = botMember ? channel.permissionsFor(botMember) : null;
+    const requiredPerms = [
+      PermissionFlagsBits.ViewChannel,
+      PermissionFlagsBits.SendMessages,
+      PermissionFlagsBits.EmbedLinks,
+    ];
+    if (!botPerms?.has(requiredPerms)) {
+      await interaction.editReply({
+        content: `I am missing View Channel / Send Messages / Embed Links in <#${channel.id}>.`,
+      });
+      return;
+    }
+
+    const ticketCategoryId = interaction.options.getChannel('ticket_category')?.id ?? null;
+    if (ticketCategoryId) {
+      const category = await interaction.guild.channels.fetch(ticketCategoryId).catch(() => null);
+      const categoryPerms = category && botMember ? category.permissionsFor(botMember) : null;
+      if (!categoryPerms?.has([PermissionFlagsBits.ViewChannel, PermissionFlagsBits.ManageChannels])) {
+        await interaction.editReply({
+          content: 'I need View Channel and Manage Channels in the ticket category to open tickets there.',
+        });
+        return;
+      }
+    }
+
+    const messageResult = await storefrontService.getPanelMessage({
+      tenantId: tenant.tenantId,
+      guildId: interaction.guildId,
+    });
+    if (messageResult.isErr()) {
+      await interaction.editReply({ content: messageResult.error.message });
+      return;
+    }
+
+    const posted = await channel.send({
+      content: messageResult.value.content || undefined,
+      embeds: messageResult.value.embeds as APIEmbed[],
+      components: messageResult.value.components as unknown as APIActionRowComponent<APIComponentInMessageActionRow>[],
+    });
+
+    const registered = await storefrontService.registerPanel({
+      tenantId: tenant.tenantId,
+      guildId: interaction.guildId,
+      channelId: channel.id,
+      messageId: posted.id,
+      ticketCategoryId,
+    });
+    if (registered.isErr()) {
+      await posted.delete().catch(() => undefined);
+      await interaction.editReply({ content: registered.error.message });
+      return;
+    }
+
+    if (registered.value.replacedMessageId) {
+      await channel.messages.delete(registered.value.replacedMessageId).catch(() => undefined);
+    }
+
+    await interaction.editReply({
+      content: [
+        `Store panel posted in <#${channel.id}>. It updates automatically when products or categories change.`,
+        ticketCategoryId
+          ? `Tickets open in <#${ticketCategoryId}>.`
+          : 'No ticket category set, so Open Ticket is hidden.',
+      ].join('\n'),
+    });
+  },
+};
+
+async function findSaleProduct(input: { tenantId: string; guildId: string; productId: string }) {
+  const optionsResult = await saleService.getSaleOptions({ tenantId: input.tenantId, guildId: input.guildId });
+  if (optionsResult.isErr()) {
+    return optionsResult;
+  }
+
+  const product = optionsResult.value.find((option) => option.productId === input.productId) ?? null;
+  return optionsResult.map(() => (product && product.variants.length > 0 ? product : null));
+}
+
+/** Shows the chosen product with Buy Now and Open Ticket buttons, only to the member who picked it. */
+export async function handleStorefrontSelect(interaction: StringSelectMenuInteraction): Promise<void> {
+  if (!interaction.inGuild() || !interaction.guildId) {
+    return;
+  }
+
+  await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+  const tenant = await tenantRepository.getTenantByGuildId(interaction.guildId);
+  if (!tenant) {
+    await interaction.editReply({ content: 'This guild is not connected to any tenant in the SaaS dashboard.' });
+    return;
+  }
+
+  const panel = await storefrontService.getPanelByMessageId({
+    tenantId: tenant.tenantId,
+    messageId: interaction.message.id,
+  });
+  if (panel.isErr()) {
+    await interaction.editReply({ content: panel.error.message });
+    return;
+  }
+
+  const productId = interaction.values[0]?.trim() ?? '';
+  const productResult = await findSaleProduct({ tenantId: tenant.tenantId, guildId: interaction.guildId, productId });
+  if (productResult.isErr()) {
+    await interaction.editReply({ content: productResult.error.message });
+    return;
+  }
+
+  const product = productResult.value;
+  if (!product) {
+    await interaction.editReply({ content: 'This product is no longer available.' });
+    return;
+  }
+
+  const configResult = await saleService.getGuildRuntimeConfig({
+    tenantId: tenant.tenantId,
+    guildId: interaction.guildId,
+  });
+  if (configResult.isErr()) {
+    await interaction.editReply({ content: configResult.error.message });
+    return;
+  }
+
+  const soldOut = isSoldOutProduct(product);
+  const buttons: ButtonBuilder[] = [];
+  if (configResult.value.selfServiceEnabled && !soldOut) {
+    buttons.push(
+      new ButtonBuilder()
+        .setCustomId(`${STORE_BUY_PREFIX}${product.productId}`)
+        .setLabel('Buy Now')
+        .setStyle(ButtonStyle.Primary),
+    );
+  }
+  if (panel.value.ticketCategoryId) {
+    buttons.push(
+      new ButtonBuilder()
+        .setCustomId(`${STORE_TICKET_PREFIX}${panel.value.id}:${product.productId}`)
+        .setLabel('Open Ticket')
+        .setStyle(ButtonStyle.Secondary),
+    );
+  }
+
+  const description = product.description.trim();
+  await interaction.editReply({
+    content: [
+      `**${product.name}** (${product.category.trim() || 'Uncategorized'})`,
+      description ? (description.length > 280 ? `${description.slice(0, 277)}...` : description) : null,
+      ...product.variants.map((variant) =>
+        variant.stockAvailable === 0
+          ? `- ${variant.label}: sold out`
+          : `- ${variant.label}: ${formatCurrencyMinor(variant.priceMinor, variant.currency)}`,
+      ),
+      buttons.length === 0 ? 'Ask a staff member to start this sale for you.' : null,
+    ]
+      .filter((line): line is string => Boolean(line))
+      .join('\n'),
+    components: buttons.length > 0 ? [new ActionRowBuilder<ButtonBuilder>().addComponents(buttons)] : [],
+  });
+}
+
+export async function handleStorefrontButton(interaction: ButtonInteraction): Promise<void> {
+  if (interaction.customId.startsWith(STORE_BUY_PREFIX)) {
+    const productId = interaction.customId.slice(STORE_BUY_PREFIX.length);
+    await startSelfServiceFlow(interaction, {
+      startStep: async (stepInput) => {
+        const draft = await createSaleDraft({
+          tenantId: stepInput.tenantId,
+          guildId: stepInput.guildId,
+          ticketChannelId: stepInput.channelId,
+          staffDiscordUserId: stepInput.staffUserId,
+          customerDiscordUserId: stepInput.customerUserId,
+          source: stepInput.source,
+          tipEnabled: stepInput.tipEnabled,
+          defaultCurrency: stepInput.defaultCurrency,
+        });
+        await showProductVariantStep({ draft, productId, reply: stepInput.reply });
+      },
+    });
+    return;
+  }
+
+  if (interaction.customId.startsWith(STORE_TICKET_PREFIX)) {
+    const [panelId = '', productId = ''] = interaction.customId.slice(STORE_TICKET_PREFIX.length).split(':');
+    await openStorefrontTicket(interaction, { panelId, productId });
+  }
+}
+
+async function openStorefrontTicket(
+  interaction: ButtonInteraction,
+  input: { panelId: string; productId: string },
+): Promise<void> {
+  if (!interaction.inGuild() || !interaction.guildId || !interaction.guild) {
+    return;
+  }
+
+  await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+  const tenant = await tenantRepository.getTenantByGuildId(interaction.guildId);
+  if (!tenant) {
+    await interaction.editReply({ content: 'This guild is not connected to any tenant in the SaaS dashboard.' });
+    return;
+  }
+
+  const panel = await storefrontService.getPanel({ tenantId: tenant.tenantId, panelId: input.panelId });
+  if (panel.isErr()) {
+    await interaction.editReply({ content: panel.error.message });
+    return;
+  }
+  if (!panel.value.ticketCategoryId) {
+    await interaction.editReply({ content: 'Tickets are not enabled for this store panel.' });
+    return;
+  }
+
+  const [productResult, configResult] = await Promise.all([
+    findSaleProduct({ tenantId: tenant.tenantId, guildId: interaction.guildId, productId: input.productId }),
+    saleService.getGuildRuntimeConfig({ tenantId: tenant.tenantId, guildId: interaction.guildId }),
+  ]);
+  if (productResult.isErr()) {
+    await interaction.editReply({ content: productResult.error.message });
+    return;
+  }
+  if (configResult.isErr()) {
+    await interaction.editReply({ content: configResult.error.message });
+    return;
+  }
+
+  const botMember = interaction.guild.members.me;
+  if (!botMember) {
+    await interaction.editReply({ content: 'I could not resolve my own server membership. Please try again.' });
+    return;
+  }
+
+  const memberAccess = [
+    PermissionFlagsBits.ViewChannel,
+    PermissionFlagsBits.SendMessages,
+    PermissionFlagsBits.ReadMessageHistory,
+  ];
+  const staffRoleOverwrites = Array.from(new Set(configResult.value.staffRoleIds))
+    .filter((roleId) => interaction.guild?.roles.cache.has(roleId))
+    .map((roleId) => ({ id: roleId, allow: memberAccess }));
+
+  let ticketChannelId: string;
+  try {
+    const ticketChannel = await interaction.guild.channels.create({
+      name: sanitizeStoreTicketChannelName(interaction.user.username, interaction.id),
+      type: ChannelType.GuildText,
+      parent: panel.value.ticketCategoryId,
+      permissionOverwrites: [
+        { id: interaction.guild.roles.everyone.id, deny: [PermissionFlagsBits.ViewChannel] },
+        { id: interaction.user.id, allow: memberAccess },
+        { id: botMember.id, allow: [...memberAccess, PermissionFlagsBits.ManageChannels] },
+        ...staffRoleOverwrites,
+      ],
+    });
+    ticketChannelId = ticketChannel.id;
+
+    const flagged = await saleService.setTicketChannelFlag({
+      tenantId: tenant.tenantId,
+      guildId: interaction.guildId,
+      channelId: ticketChannel.id,
+      isTicket: true,
+    });
+    if (flagged.isErr()) {
+      throw flagged.error;
+    }
+
+    const product = productResult.value;
+    const selfServiceEnabled = configResult.value.selfServiceEnabled;
+    await ticketChannel.send({
+      content: [
+        product
+          ? `<@${interaction.user.id}> opened a ticket for **${product.name}**.`
+          : `<@${interaction.user.id}> opened an order ticket.`,
+        selfServiceEnabled
+          ? 'Press Buy to check out yourself, or wait for staff to run `/sale` here.'
+          : 'Staff will run `/sale` here to create your checkout.',
+      ].join('\n'),
+      components: selfServiceEnabled ? [buildSelfServiceButtonRow()] : [],
+      allowedMentions: { users: [interaction.user.id] },
+    });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    await interaction.editReply({ content: `I could not open a ticket: ${reason}` });
+    return;
+  }
+
+  await interaction.editReply({ content: `Your ticket is ready: <#${ticketChannelId}>` });
+}
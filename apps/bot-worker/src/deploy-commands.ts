@@ -1,15 +1,23 @@
 ﻿import { REST, Routes } from 'discord.js';
 import { getEnv, logger } from '@voodoo/core';
 
+import { buyCommand } from './commands/buy.js';
 import { saleCommand } from './commands/sale.js';
 import { pointsCommand } from './commands/points.js';
 import { referCommand } from './commands/refer.js';
+import { storeCommand } from './commands/store.js';
 
 const env = getEnv();
 const rest = new REST({ version: '10' }).setToken(env.DISCORD_TOKEN);
 
 async function deploy(): Promise<void> {
-  const payload = [saleCommand.data.toJSON(), pointsCommand.data.toJSON(), referCommand.data.toJSON()];
+  const payload = [
+    saleCommand.data.toJSON(),
+    buyCommand.data.toJSON(),
+    pointsCommand.data.toJSON(),
+    referCommand.data.toJSON(),
+    storeCommand.data.toJSON(),
+  ];
   const guildId = process.env.DISCORD_TEST_GUILD_ID;
 
   if (guildId) {
@@ -1,25 +1,88 @@
+import { SaleDraftRepository, type SaleDraftRecord } from '@voodoo/core';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 import {
   SALE_DRAFT_TTL_MS,
+  claimSaleDraft,
   createSaleDraft,
   getSaleDraft,
   removeSaleDraft,
+  restoreSaleDraft,
   updateSaleDraft,
 } from './sale-draft-store.js';
 
+function mockSaleDraftRepository(): Map<string, SaleDraftRecord> {
+  const rows = new Map<string, SaleDraftRecord>();
+
+  vi.spyOn(SaleDraftRepository.prototype, 'createDraft').mockImplementation(async (input) => {
+    const record: SaleDraftRecord = {
+      id: `row-${input.draftKey}`,
+      kind: input.kind,
+      draftKey: input.draftKey,
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+      ticketChannelId: input.ticketChannelId ?? null,
+      controlChatId: input.controlChatId ?? null,
+      state: structuredClone(input.state),
+      version: 1,
+      expiresAt: input.expiresAt,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    rows.set(input.draftKey, record);
+    return record;
+  });
+  vi.spyOn(SaleDraftRepository.prototype, 'getDraft').mockImplementation(async (input) => {
+    const record = rows.get(input.draftKey);
+    if (!record || record.expiresAt.getTime() < Date.now()) {
+      rows.delete(input.draftKey);
+      return null;
+    }
+
+    record.expiresAt = input.refreshExpiresAt ?? record.expiresAt;
+    return { ...record, state: structuredClone(record.state) };
+  });
+  vi.spyOn(SaleDraftRepository.prototype, 'updateDraft').mockImplementation(async (input) => {
+    const record = rows.get(input.draftKey);
+    if (!record || record.version !== input.expectedVersion) {
+      return null;
+    }
+
+    record.state = structuredClone(input.state);
+    record.version += 1;
+    record.expiresAt = input.expiresAt;
+    return record.version;
+  });
+  vi.spyOn(SaleDraftRepository.prototype, 'deleteDraftAtVersion').mockImplementation(async (input) => {
+    const record = rows.get(input.draftKey);
+    if (!record || record.version !== input.expectedVersion) {
+      return false;
+    }
+
+    rows.delete(input.draftKey);
+    return true;
+  });
+  vi.spyOn(SaleDraftRepository.prototype, 'deleteDraft').mockImplementation(async (input) => {
+    rows.delete(input.draftKey);
+  });
+
+  return rows;
+}
+
 describe('sale draft store', () => {
   beforeEach(() => {
     vi.useFakeTimers();
     vi.setSystemTime(new Date('2026-03-07T18:00:00.000Z'));
+    mockSaleDraftRepository();
   });
 
   afterEach(() => {
     vi.useRealTimers();
+    vi.restoreAllMocks();
   });
 
-  it('uses a longer one-hour ttl for new drafts', () => {
-    const draft = createSaleDraft({
+  it('uses a longer one-hour ttl for new drafts', async () => {
+    const draft = await createSaleDraft({
       tenantId: 'tenant-1',
       guildId: 'guild-1',
       ticketChannelId: 'channel-1',
@@ -29,11 +92,11 @@ describe('sale draft store', () => {
 
     expect(draft.expiresAt).toBe(Date.now() + SALE_DRAFT_TTL_MS);
 
-    removeSaleDraft(draft.id);
+    await removeSaleDraft(draft.id);
   });
 
-  it('refreshes the expiry when the draft is read during active use', () => {
-    const draft = createSaleDraft({
+  it('refreshes the expiry when the draft is read during active use', async () => {
+    const draft = await createSaleDraft({
       tenantId: 'tenant-1',
       guildId: 'guild-1',
       ticketChannelId: 'channel-1',
@@ -42,16 +105,16 @@ describe('sale draft store', () => {
     });
 
     vi.advanceTimersByTime(20 * 60 * 1000);
-    const refreshed = getSaleDraft(draft.id);
+    const refreshed = await getSaleDraft(draft.id);
 
     expect(refreshed).not.toBeNull();
     expect(refreshed?.expiresAt).toBe(Date.now() + SALE_DRAFT_TTL_MS);
 
-    removeSaleDraft(draft.id);
+    await removeSaleDraft(draft.id);
   });
 
-  it('expires drafts only after the full ttl window', () => {
-    const draft = createSaleDraft({
+  it('expires drafts only after the full ttl window', async () => {
+    const draft = await createSaleDraft({
       tenantId: 'tenant-1',
       guildId: 'guild-1',
       ticketChannelId: 'channel-1',
@@ -61,11 +124,11 @@ describe('sale draft store', () => {
 
     vi.advanceTimersByTime(SALE_DRAFT_TTL_MS + 1);
 
-    expect(getSaleDraft(draft.id)).toBeNull();
+    expect(await getSaleDraft(draft.id)).toBeNull();
   });
 
-  it('refreshes expiry when the draft is updated', () => {
-    const draft = createSaleDraft({
+  it('refreshes expiry when the draft is updated', async () => {
+    const draft = await createSaleDraft({
       tenantId: 'tenant-1',
       guildId: 'guild-1',
       ticketChannelId: 'channel-1',
@@ -74,15 +137,103 @@ describe('sale draft store', () => {
     });
 
     vi.advanceTimersByTime(10 * 60 * 1000);
-    updateSaleDraft({
+    await updateSaleDraft({
       ...draft,
       category: 'Accounts',
     });
 
-    const refreshed = getSaleDraft(draft.id);
+    const refreshed = await getSaleDraft(draft.id);
     expect(refreshed?.category).toBe('Accounts');
     expect(refreshed?.expiresAt).toBe(Date.now() + SALE_DRAFT_TTL_MS);
 
-    removeSaleDraft(draft.id);
+    await removeSaleDraft(draft.id);
+  });
+
+  it('rejects a stale update once another interaction saved the draft', async () => {
+    const draft = await createSaleDraft({
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      ticketChannelId: 'channel-1',
+      staffDiscordUserId: 'staff-1',
+      customerDiscordUserId: 'customer-1',
+    });
+    const firstClick = await getSaleDraft(draft.id);
+    const secondClick = await getSaleDraft(draft.id);
+    if (!firstClick || !secondClick) {
+      throw new Error('Expected draft to exist');
+    }
+
+    firstClick.category = 'Accounts';
+    await updateSaleDraft(firstClick);
+    secondClick.category = 'Boosts';
+
+    await expect(updateSaleDraft(secondClick)).rejects.toMatchObject({ code: 'SALE_DRAFT_CONFLICT' });
+    expect((await getSaleDraft(draft.id))?.category).toBe('Accounts');
+
+    await removeSaleDraft(draft.id);
+  });
+
+  it('lets only one of two confirm clicks claim the draft for checkout', async () => {
+    const draft = await createSaleDraft({
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      ticketChannelId: 'channel-1',
+      staffDiscordUserId: 'staff-1',
+      customerDiscordUserId: 'customer-1',
+    });
+    const firstClick = await getSaleDraft(draft.id);
+    const secondClick = await getSaleDraft(draft.id);
+    if (!firstClick || !secondClick) {
+      throw new Error('Expected draft to exist');
+    }
+
+    await claimSaleDraft(firstClick);
+
+    await expect(claimSaleDraft(secondClick)).rejects.toMatchObject({ code: 'SALE_DRAFT_CONFLICT' });
+    expect(await getSaleDraft(draft.id)).toBeNull();
+  });
+
+  it('rejects a claim made against a draft another interaction has since saved', async () => {
+    const draft = await createSaleDraft({
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      ticketChannelId: 'channel-1',
+      staffDiscordUserId: 'staff-1',
+      customerDiscordUserId: 'customer-1',
+    });
+    const stale = await getSaleDraft(draft.id);
+    const latest = await getSaleDraft(draft.id);
+    if (!stale || !latest) {
+      throw new Error('Expected draft to exist');
+    }
+
+    latest.category = 'Accounts';
+    await updateSaleDraft(latest);
+
+    await expect(claimSaleDraft(stale)).rejects.toMatchObject({ code: 'SALE_DRAFT_CONFLICT' });
+    expect((await getSaleDraft(draft.id))?.category).toBe('Accounts');
+
+    await removeSaleDraft(draft.id);
+  });
+
+  it('restores a claimed draft so a failed checkout can be retried', async () => {
+    const draft = await createSaleDraft({
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      ticketChannelId: 'channel-1',
+      staffDiscordUserId: 'staff-1',
+      customerDiscordUserId: 'customer-1',
+    });
+    draft.couponCode = 'SAVE10';
+    await updateSaleDraft(draft);
+    await claimSaleDraft(draft);
+
+    await restoreSaleDraft(draft);
+
+    const restored = await getSaleDraft(draft.id);
+    expect(restored?.couponCode).toBe('SAVE10');
+    expect(restored?.version).toBe(draft.version);
+
+    await removeSaleDraft(draft.id);
   });
 });
@@ -1,10 +1,23 @@
 ﻿import crypto from 'node:crypto';
 
+import {
+  AppError,
+  DEFAULT_CURRENCY,
+  SaleDraftRepository,
+  type AutomaticDiscountLine,
+  type OrderSessionSource,
+} from '@voodoo/core';
+
 export type SaleDraftVariantOption = {
   variantId: string;
   label: string;
   priceMinor: number;
   currency: string;
+  /** Units left to sell; `null` or missing when the variant does not track stock. */
+  stockAvailable?: number | null;
+  /** Missing on drafts saved before quantity limits existed, which allows 1 up to the global line limit. */
+  minQuantity?: number;
+  maxQuantity?: number | null;
 };
 
 export type SaleDraftBasketItem = {
@@ -13,8 +26,12 @@ export type SaleDraftBasketItem = {
   category: string;
   variantId: string;
   variantLabel: string;
+  /** Unit price for one of `quantity`. */
   priceMinor: number;
   currency: string;
+  quantity: number;
+  /** Volume price and automatic discount savings on this line, set by `previewBasketPricing`. */
+  automaticDiscountMinor?: number;
 };
 
 export type SaleDraftFormField = {
@@ -32,12 +49,16 @@ export type SaleDraft = {
   ticketChannelId: string;
   staffDiscordUserId: string;
   customerDiscordUserId: string;
+  /** `self_service` drafts were started by the customer, who is also recorded as the staff user. */
+  source: OrderSessionSource;
   category: string | null;
   productName: string | null;
   productId: string | null;
   variantId: string | null;
   variantOptions: SaleDraftVariantOption[];
   basketItems: SaleDraftBasketItem[];
+  /** Missing on drafts saved before automatic discounts existed. */
+  automaticDiscounts?: AutomaticDiscountLine[];
   couponCode: string | null;
   couponDiscountMinor: number;
   tipMinor: number;
@@ -53,29 +74,30 @@ export type SaleDraft = {
   pointsReservedIfUsed: number;
   pointsDiscountMinorIfUsed: number;
   pointValueMinor: number;
+  version: number;
   expiresAt: number;
 };
 
-const draftStore = new Map<string, SaleDraft>();
+const SALE_DRAFT_KIND = 'discord_sale';
+const saleDraftRepository = new SaleDraftRepository();
 
 export const SALE_DRAFT_TTL_MS = 60 * 60 * 1000;
 
-function refreshDraftExpiry(draft: SaleDraft): SaleDraft {
-  return {
-    ...draft,
-    expiresAt: Date.now() + SALE_DRAFT_TTL_MS,
-  };
+function toDraftState(draft: SaleDraft): Record<string, unknown> {
+  const { id: _id, version: _version, expiresAt: _expiresAt, ...state } = draft;
+  return state;
 }
 
-export function createSaleDraft(input: {
+export async function createSaleDraft(input: {
   tenantId: string;
   guildId: string;
   ticketChannelId: string;
   staffDiscordUserId: string;
   customerDiscordUserId: string;
+  source?: OrderSessionSource;
   tipEnabled?: boolean;
   defaultCurrency?: string;
-}): SaleDraft {
+}): Promise<SaleDraft> {
   const draft: SaleDraft = {
     id: crypto.randomUUID(),
     tenantId: input.tenantId,
@@ -83,17 +105,19 @@ export function createSaleDraft(input: {
     ticketChannelId: input.ticketChannelId,
     staffDiscordUserId: input.staffDiscordUserId,
     customerDiscordUserId: input.customerDiscordUserId,
+    source: input.source ?? 'staff',
     category: null,
     productName: null,
     productId: null,
     variantId: null,
     variantOptions: [],
     basketItems: [],
+    automaticDiscounts: [],
     couponCode: null,
     couponDiscountMinor: 0,
     tipMinor: 0,
     tipEnabled: input.tipEnabled ?? false,
-    defaultCurrency: input.defaultCurrency ?? 'GBP',
+    defaultCurrency: input.defaultCurrency ?? DEFAULT_CURRENCY,
     formFields: [],
     answers: {},
     customerEmailNormalized: null,
@@ -104,33 +128,103 @@ export function createSaleDraft(input: {
     pointsReservedIfUsed: 0,
     pointsDiscountMinorIfUsed: 0,
     pointValueMinor: 1,
+    version: 1,
     expiresAt: Date.now() + SALE_DRAFT_TTL_MS,
   };
 
-  draftStore.set(draft.id, draft);
+  await saleDraftRepository.createDraft({
+    kind: SALE_DRAFT_KIND,
+    draftKey: draft.id,
+    tenantId: draft.tenantId,
+    guildId: draft.guildId,
+    ticketChannelId: draft.ticketChannelId,
+    state: toDraftState(draft),
+    expiresAt: new Date(draft.expiresAt),
+  });
   return draft;
 }
 
-export function getSaleDraft(draftId: string): SaleDraft | null {
-  const draft = draftStore.get(draftId);
-  if (!draft) {
+export async function getSaleDraft(draftId: string): Promise<SaleDraft | null> {
+  const record = await saleDraftRepository.getDraft({
+    kind: SALE_DRAFT_KIND,
+    draftKey: draftId,
+    refreshExpiresAt: new Date(Date.now() + SALE_DRAFT_TTL_MS),
+  });
+  if (!record) {
     return null;
   }
 
-  if (draft.expiresAt < Date.now()) {
-    draftStore.delete(draftId);
-    return null;
+  return {
+    ...(record.state as Omit<SaleDraft, 'id' | 'version' | 'expiresAt'>),
+    id: record.draftKey,
+    version: record.version,
+    expiresAt: record.expiresAt.getTime(),
+  };
+}
+
+/**
+ * Saves the draft against the version it was read at. Throws `SALE_DRAFT_CONFLICT` when another
+ * interaction (possibly on another replica) saved it first, so the stale click is rejected.
+ */
+export async function updateSaleDraft(draft: SaleDraft): Promise<void> {
+  const expiresAt = Date.now() + SALE_DRAFT_TTL_MS;
+  const version = await saleDraftRepository.updateDraft({
+    kind: SALE_DRAFT_KIND,
+    draftKey: draft.id,
+    expectedVersion: draft.version,
+    ticketChannelId: draft.ticketChannelId,
+    state: toDraftState(draft),
+    expiresAt: new Date(expiresAt),
+  });
+  if (version === null) {
+    throw new AppError(
+      'SALE_DRAFT_CONFLICT',
+      'This sale was changed by another action. Use the latest sale message to continue.',
+      409,
+    );
   }
 
-  const refreshedDraft = refreshDraftExpiry(draft);
-  draftStore.set(draftId, refreshedDraft);
-  return refreshedDraft;
+  draft.version = version;
+  draft.expiresAt = expiresAt;
+}
+
+/**
+ * Takes the draft out of the store for checkout, but only at the version it was read at. Throws
+ * `SALE_DRAFT_CONFLICT` when another click already claimed or changed it, so a double confirm
+ * cannot create two checkouts.
+ */
+export async function claimSaleDraft(draft: SaleDraft): Promise<void> {
+  const claimed = await saleDraftRepository.deleteDraftAtVersion({
+    kind: SALE_DRAFT_KIND,
+    draftKey: draft.id,
+    expectedVersion: draft.version,
+  });
+  if (!claimed) {
+    throw new AppError(
+      'SALE_DRAFT_CONFLICT',
+      'This sale was changed by another action. Use the latest sale message to continue.',
+      409,
+    );
+  }
 }
 
-export function updateSaleDraft(draft: SaleDraft): void {
-  draftStore.set(draft.id, refreshDraftExpiry(draft));
+/** Puts a claimed draft back when its checkout could not be created, so staff can fix it and retry. */
+export async function restoreSaleDraft(draft: SaleDraft): Promise<void> {
+  const expiresAt = Date.now() + SALE_DRAFT_TTL_MS;
+  const record = await saleDraftRepository.createDraft({
+    kind: SALE_DRAFT_KIND,
+    draftKey: draft.id,
+    tenantId: draft.tenantId,
+    guildId: draft.guildId,
+    ticketChannelId: draft.ticketChannelId,
+    state: toDraftState(draft),
+    expiresAt: new Date(expiresAt),
+  });
+
+  draft.version = record.version;
+  draft.expiresAt = expiresAt;
 }
 
-export function removeSaleDraft(draftId: string): void {
-  draftStore.delete(draftId);
+export async function removeSaleDraft(draftId: string): Promise<void> {
+  await saleDraftRepository.deleteDraft({ kind: SALE_DRAFT_KIND, draftKey: draftId });
 }
@@ -1,10 +1,24 @@
 ﻿import { Client, Collection, Events, GatewayIntentBits, MessageFlags, type Interaction } from 'discord.js';
-import { getEnv, logger, SalesHistoryService } from '@voodoo/core';
-
+import {
+  AppError,
+  getEnv,
+  logger,
+  MANUAL_PAYMENT_APPROVE_CUSTOM_ID_PREFIX,
+  OrderSessionExpiryService,
+  RoleGrantService,
+  SalesHistoryService,
+  STOREFRONT_PRODUCT_SELECT_CUSTOM_ID,
+  SubscriptionService,
+} from '@voodoo/core';
+
+import { buyCommand } from './commands/buy.js';
 import { saleCommand } from './commands/sale.js';
 import { pointsCommand } from './commands/points.js';
+import { handleManualPaymentApproval } from './commands/manual-payment.js';
 import { handlePaidOrderFulfillment } from './commands/paid-order-fulfillment.js';
 import { handleReferModal, referCommand } from './commands/refer.js';
+import { SELF_SERVICE_BUTTON_CUSTOM_ID, startSelfServiceFlow } from './commands/sale-flow.js';
+import { handleStorefrontButton, handleStorefrontSelect, storeCommand } from './commands/store.js';
 import {
   handleSaleAction,
   handleSaleBack,
@@ -21,6 +35,9 @@ type Command = {
 
 const env = getEnv();
 const salesHistoryService = new SalesHistoryService();
+const orderSessionExpiryService = new OrderSessionExpiryService();
+const roleGrantService = new RoleGrantService();
+const subscriptionService = new SubscriptionService();
 
 const client = new Client({
   intents: [GatewayIntentBits.Guilds, GatewayIntentBits.GuildMessages],
@@ -28,13 +45,27 @@ const client = new Client({
 
 const commands = new Collection<string, Command>();
 commands.set(saleCommand.data.name, saleCommand as unknown as Command);
+commands.set(buyCommand.data.name, buyCommand as unknown as Command);
 commands.set(pointsCommand.data.name, pointsCommand as unknown as Command);
 commands.set(referCommand.data.name, referCommand as unknown as Command);
+commands.set(storeCommand.data.name, storeCommand as unknown as Command);
 
 client.once(Events.ClientReady, () => {
   logger.info({ botUser: client.user?.tag }, 'bot-worker ready');
   salesHistoryService.startSchedulerLoop({ pollIntervalMs: env.SALES_HISTORY_POLL_INTERVAL_MS });
   logger.info({ pollIntervalMs: env.SALES_HISTORY_POLL_INTERVAL_MS }, 'sales-history scheduler loop started');
+  orderSessionExpiryService.startSweeperLoop({ pollIntervalMs: env.ORDER_SESSION_EXPIRY_POLL_INTERVAL_MS });
+  logger.info(
+    { pollIntervalMs: env.ORDER_SESSION_EXPIRY_POLL_INTERVAL_MS },
+    'order-session expiry sweeper loop started',
+  );
+  roleGrantService.startSweeperLoop({ pollIntervalMs: env.ROLE_GRANT_EXPIRY_POLL_INTERVAL_MS });
+  logger.info({ pollIntervalMs: env.ROLE_GRANT_EXPIRY_POLL_INTERVAL_MS }, 'role-grant expiry sweeper loop started');
+  subscriptionService.startSweeperLoop({ pollIntervalMs: env.SUBSCRIPTION_RENEWAL_POLL_INTERVAL_MS });
+  logger.info(
+    { pollIntervalMs: env.SUBSCRIPTION_RENEWAL_POLL_INTERVAL_MS },
+    'subscription renewal sweeper loop started',
+  );
 });
 
 async function handleInteraction(interaction: Interaction): Promise<void> {
@@ -58,6 +89,11 @@ async function handleInteraction(interaction: Interaction): Promise<void> {
       return;
     }
 
+    if (interaction.isStringSelectMenu() && interaction.customId === STOREFRONT_PRODUCT_SELECT_CUSTOM_ID) {
+      await handleStorefrontSelect(interaction);
+      return;
+    }
+
     if (interaction.isModalSubmit() && interaction.customId.startsWith('sale:modal:')) {
       await handleSaleModal(interaction);
       return;
@@ -73,6 +109,16 @@ async function handleInteraction(interaction: Interaction): Promise<void> {
       return;
     }
 
+    if (interaction.isButton() && interaction.customId === SELF_SERVICE_BUTTON_CUSTOM_ID) {
+      await startSelfServiceFlow(interaction);
+      return;
+    }
+
+    if (interaction.isButton() && interaction.customId.startsWith('store:')) {
+      await handleStorefrontButton(interaction);
+      return;
+    }
+
     if (interaction.isButton() && interaction.customId.startsWith('sale:back:')) {
       await handleSaleBack(interaction);
       return;
@@ -92,18 +138,31 @@ async function handleInteraction(interaction: Interaction): Promise<void> {
       await handlePaidOrderFulfillment(interaction);
       return;
     }
+
+    if (interaction.isButton() && interaction.customId.startsWith(MANUAL_PAYMENT_APPROVE_CUSTOM_ID_PREFIX)) {
+      await handleManualPaymentApproval(interaction);
+      return;
+    }
   } catch (error) {
-    logger.error({ err: error }, 'interaction handler failed');
+    const isDraftConflict = error instanceof AppError && error.code === 'SALE_DRAFT_CONFLICT';
+    if (isDraftConflict) {
+      logger.info({ interactionId: interaction.id }, 'stale sale draft interaction rejected');
+    } else {
+      logger.error({ err: error }, 'interaction handler failed');
+    }
 
+    const content = isDraftConflict
+      ? error.message
+      : 'An error occurred while handling this interaction.';
     if (interaction.isRepliable()) {
       if (interaction.deferred || interaction.replied) {
         await interaction.followUp({
-          content: 'An error occurred while handling this interaction.',
+          content,
           flags: MessageFlags.Ephemeral,
         });
       } else {
         await interaction.reply({
-          content: 'An error occurred while handling this interaction.',
+          content,
           flags: MessageFlags.Ephemeral,
         });
       }
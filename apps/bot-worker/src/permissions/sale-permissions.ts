@@ -1,4 +1,4 @@
-import { PermissionFlagsBits, type GuildMember } from 'discord.js';
+import { PermissionFlagsBits, type ButtonInteraction, type GuildMember } from 'discord.js';
 
 export function hasConfiguredStaffAccess(input: {
   configuredRoleIds: string[];
@@ -25,3 +25,22 @@ export function canStartSale(member: GuildMember, configuredRoleIds: string[]):
     memberRoleIds: [...member.roles.cache.keys()],
   });
 }
+
+/** Role ids of the member who pressed a button; handles both cached members and raw API members. */
+export function extractInteractionRoleIds(interaction: ButtonInteraction): string[] {
+  const member = interaction.member;
+  if (!member || typeof member !== 'object' || !('roles' in member)) {
+    return [];
+  }
+
+  const roles = member.roles;
+  if (Array.isArray(roles)) {
+    return roles.filter((roleId): roleId is string => typeof roleId === 'string');
+  }
+
+  if (roles && typeof roles === 'object' && 'cache' in roles) {
+    return [...roles.cache.keys()];
+  }
+
+  return [];
+}
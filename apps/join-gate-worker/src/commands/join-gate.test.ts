@@ -48,6 +48,7 @@ vi.mock('@voodoo/core', () => {
 
   return {
     AppError,
+    DEFAULT_CURRENCY: 'GBP',
     JoinGateAccessService,
     TenantRepository,
     getEnv: () => ({
@@ -107,6 +108,7 @@ function createGuildConfigRecordMock(overrides: Partial<MockGuildConfig> = {}):
     tenantId: 'tenant-1',
     guildId: 'guild-1',
     paidLogChannelId: null,
+    lowStockAlertChannelId: null,
     staffRoleIds: [],
     defaultCurrency: 'GBP',
     couponsEnabled: true,
@@ -114,6 +116,14 @@ function createGuildConfigRecordMock(overrides: Partial<MockGuildConfig> = {}):
     referralsEnabled: true,
     telegramEnabled: false,
     tipEnabled: false,
+    checkoutExpiryMinutes: 30,
+    subscriptionReminderDays: 3,
+    subscriptionGraceDays: 3,
+    invoiceStoreName: '',
+    invoiceStoreDetails: '',
+    invoiceTaxRateBps: 0,
+    manualPaymentInstructions: '',
+    selfServiceEnabled: false,
     pointsEarnCategoryKeys: [],
     pointsRedeemCategoryKeys: [],
     pointValueMinor: 1,
@@ -121,7 +131,7 @@ function createGuildConfigRecordMock(overrides: Partial<MockGuildConfig> = {}):
     referralRewardCategoryKeys: [],
     referralLogChannelId: null,
     referralThankYouTemplate:
-      'Thanks for your referral. You earned {points} point(s) ({amount_gbp} GBP) after {referred_email} paid.',
+      'Thanks for your referral. You earned {points} point(s) ({amount} {currency}) after {referred_email} paid.',
     referralSubmissionTemplate:
       'Referral submitted successfully. We will reward points automatically after the first paid order.',
     ticketMetadataKey: 'isTicket',
@@ -8,6 +8,7 @@ import {
 } from 'discord.js';
 import {
   AppError,
+  DEFAULT_CURRENCY,
   type GuildConfigRecord,
   type JoinGateAuthorizedUserSummary,
   JoinGateAccessService,
@@ -22,7 +23,7 @@ const tenantRepository = new TenantRepository();
 const joinGateAccessService = new JoinGateAccessService();
 
 const DEFAULT_REFERRAL_THANK_YOU_TEMPLATE =
-  'Thanks for your referral. You earned {points} point(s) ({amount_gbp} GBP) after {referred_email} paid.';
+  'Thanks for your referral. You earned {points} point(s) ({amount} {currency}) after {referred_email} paid.';
 const DEFAULT_REFERRAL_SUBMISSION_TEMPLATE =
   'Referral submitted successfully. We will reward points automatically after the first paid order.';
 
@@ -66,13 +67,22 @@ function buildBaseGuildConfigRecord(input: {
     tenantId: input.tenantId,
     guildId: input.guildId,
     paidLogChannelId: input.existingConfig?.paidLogChannelId ?? null,
+    lowStockAlertChannelId: input.existingConfig?.lowStockAlertChannelId ?? null,
     staffRoleIds: input.existingConfig?.staffRoleIds ?? [],
-    defaultCurrency: input.existingConfig?.defaultCurrency ?? 'GBP',
+    defaultCurrency: input.existingConfig?.defaultCurrency ?? DEFAULT_CURRENCY,
     couponsEnabled: input.existingConfig?.couponsEnabled ?? true,
     pointsEnabled: input.existingConfig?.pointsEnabled ?? true,
     referralsEnabled: input.existingConfig?.referralsEnabled ?? true,
     telegramEnabled: input.existingConfig?.telegramEnabled ?? false,
     tipEnabled: input.existingConfig?.tipEnabled ?? false,
+    checkoutExpiryMinutes: input.existingConfig?.checkoutExpiryMinutes ?? 30,
+    subscriptionReminderDays: input.existingConfig?.subscriptionReminderDays ?? 3,
+    subscriptionGraceDays: input.existingConfig?.subscriptionGraceDays ?? 3,
+    invoiceStoreName: input.existingConfig?.invoiceStoreName ?? '',
+    invoiceStoreDetails: input.existingConfig?.invoiceStoreDetails ?? '',
+    invoiceTaxRateBps: input.existingConfig?.invoiceTaxRateBps ?? 0,
+    manualPaymentInstructions: input.existingConfig?.manualPaymentInstructions ?? '',
+    selfServiceEnabled: input.existingConfig?.selfServiceEnabled ?? false,
     pointsEarnCategoryKeys: input.existingConfig?.pointsEarnCategoryKeys ?? [],
     pointsRedeemCategoryKeys: input.existingConfig?.pointsRedeemCategoryKeys ?? [],
     pointValueMinor: input.existingConfig?.pointValueMinor ?? 1,
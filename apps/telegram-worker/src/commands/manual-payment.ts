@@ -0,0 +1,105 @@
+import {
+  OrderRepository,
+  WebhookService,
+  parseManualPaymentApproveCustomId,
+  parsePlatformScopedId,
+  toTelegramScopedId,
+} from '@voodoo/core';
+import type { Context } from 'grammy';
+
+import {
+  clearTelegramPendingPrompt,
+  getTelegramPendingPrompt,
+  setTelegramPendingPrompt,
+} from '../flows/pending-prompt-store.js';
+import { isTelegramChatAdmin } from '../lib/telegram.js';
+
+type PendingManualPayment = {
+  tenantId: string;
+  guildId: string;
+  orderSessionId: string;
+};
+
+const orderRepository = new OrderRepository();
+const webhookService = new WebhookService();
+
+function getManualPaymentPromptKey(chatId: number | string, userId: number) {
+  return { kind: 'manual_payment' as const, chatId, userId };
+}
+
+/**
+ * The checkout message lives in the seller's DM, so staff access is checked against the linked group
+ * the sale was started in. Telegram has no forms, so the reference is asked for as the next message.
+ */
+export async function handleManualPaymentCallback(ctx: Context): Promise<boolean> {
+  if (!ctx.chat || !ctx.from || !ctx.callbackQuery || !('data' in ctx.callbackQuery)) {
+    return false;
+  }
+
+  const orderSessionId = parseManualPaymentApproveCustomId(ctx.callbackQuery.data ?? '');
+  if (!orderSessionId) {
+    return false;
+  }
+
+  const orderSession = await orderRepository.getOrderSessionById(orderSessionId);
+  const groupChat = orderSession ? parsePlatformScopedId(orderSession.ticketChannelId) : null;
+  if (!orderSession || groupChat?.platform !== 'telegram') {
+    await ctx.answerCallbackQuery({ text: 'Order session not found.', show_alert: true });
+    return true;
+  }
+
+  const isAdmin = await isTelegramChatAdmin(ctx.api, groupChat.rawId, ctx.from.id);
+  if (!isAdmin) {
+    await ctx.answerCallbackQuery({ text: 'Only Telegram chat admins can confirm manual payments.', show_alert: true });
+    return true;
+  }
+
+  await setTelegramPendingPrompt<PendingManualPayment>({
+    ...getManualPaymentPromptKey(ctx.chat.id, ctx.from.id),
+    state: {
+      tenantId: orderSession.tenantId,
+      guildId: orderSession.guildId,
+      orderSessionId,
+    },
+  });
+  await ctx.answerCallbackQuery();
+  await ctx.reply(
+    `Send the payment reference or proof for order session ${orderSessionId} as your next message.`,
+  );
+  return true;
+}
+
+export async function handlePendingManualPaymentMessage(ctx: Context): Promise<boolean> {
+  if (!ctx.chat || !ctx.from || !ctx.message || !('text' in ctx.message)) {
+    return false;
+  }
+
+  const pendingKey = getManualPaymentPromptKey(ctx.chat.id, ctx.from.id);
+  const pending = await getTelegramPendingPrompt<PendingManualPayment>(pendingKey);
+  if (!pending) {
+    return false;
+  }
+
+  const reference = ctx.message.text?.trim() ?? '';
+  if (!reference) {
+    await ctx.reply('The payment reference cannot be empty. Send it again.');
+    return true;
+  }
+
+  await clearTelegramPendingPrompt(pendingKey);
+
+  const approved = await webhookService.approveManualPayment({
+    tenantId: pending.tenantId,
+    guildId: pending.guildId,
+    orderSessionId: pending.orderSessionId,
+    approvedByDiscordUserId: toTelegramScopedId(String(ctx.from.id)),
+    reference,
+  });
+  if (approved.isErr()) {
+    await ctx.reply(approved.error.message);
+    return true;
+  }
+
+  await ctx.reply(`Payment confirmed for order session ${pending.orderSessionId}. The paid log has been posted.`);
+  return true;
+}
@@ -6,6 +6,11 @@ import {
   getTelegramPrivateHandoff,
   removeTelegramPrivateHandoff,
 } from '../flows/private-handoff-store.js';
+import {
+  clearTelegramPendingPrompt,
+  getTelegramPendingPrompt,
+  setTelegramPendingPrompt,
+} from '../flows/pending-prompt-store.js';
 import {
   buildTelegramBotDeepLink,
   parseTelegramPointsStartPayload,
@@ -18,10 +23,14 @@ import {
 
 const env = getEnv();
 const pointsService = new PointsService();
-const pendingPointsLookups = new Map<string, { tenantId: string; guildId: string }>();
 
-function getPendingPointsKey(chatId: number | string, userId: number): string {
-  return `${chatId}:${userId}`;
+type PendingPointsLookup = {
+  tenantId: string;
+  guildId: string;
+};
+
+function getPointsPromptKey(chatId: number | string, userId: number) {
+  return { kind: 'points_lookup' as const, chatId, userId };
 }
 
 function isTelegramPrivateChat(chatType: string | undefined): boolean {
@@ -69,7 +78,7 @@ export async function handlePointsStartCommand(ctx: Context): Promise<boolean> {
     return false;
   }
 
-  const handoff = getTelegramPrivateHandoff(handoffId);
+  const handoff = await getTelegramPrivateHandoff(handoffId);
   if (!handoff || handoff.kind !== 'points') {
     await ctx.reply('This points lookup link expired. Run /points again in the Telegram group.');
     return true;
@@ -80,10 +89,13 @@ export async function handlePointsStartCommand(ctx: Context): Promise<boolean> {
     return true;
   }
 
-  removeTelegramPrivateHandoff(handoff.id);
-  pendingPointsLookups.set(getPendingPointsKey(ctx.chat.id, ctx.from.id), {
-    tenantId: handoff.tenantId,
-    guildId: handoff.guildId,
+  await removeTelegramPrivateHandoff(handoff.id);
+  await setTelegramPendingPrompt<PendingPointsLookup>({
+    ...getPointsPromptKey(ctx.chat.id, ctx.from.id),
+    state: {
+      tenantId: handoff.tenantId,
+      guildId: handoff.guildId,
+    },
   });
 
   await ctx.reply('Private points lookup started. Send the customer email as your next message.');
@@ -95,13 +107,13 @@ export async function handlePointsCommand(ctx: Context): Promise<void> {
     return;
   }
 
-  const pendingKey = getPendingPointsKey(ctx.chat.id, ctx.from.id);
+  const pendingKey = getPointsPromptKey(ctx.chat.id, ctx.from.id);
   const commandText = ctx.message.text ?? '';
   const args = parseCommandArgs(commandText);
   const email = args[0]?.trim() ?? '';
 
   if (isTelegramPrivateChat(ctx.chat.type)) {
-    const pending = pendingPointsLookups.get(pendingKey);
+    const pending = await getTelegramPendingPrompt<PendingPointsLookup>(pendingKey);
     if (!pending) {
       await ctx.reply('Start /points in a linked Telegram group first. The bot will then continue privately here.');
       return;
@@ -112,7 +124,7 @@ export async function handlePointsCommand(ctx: Context): Promise<void> {
       return;
     }
 
-    pendingPointsLookups.delete(pendingKey);
+    await clearTelegramPendingPrompt(pendingKey);
     await replyWithPoints({
       ctx,
       tenantId: pending.tenantId,
@@ -133,7 +145,7 @@ export async function handlePointsCommand(ctx: Context): Promise<void> {
     return;
   }
 
-  const handoff = createTelegramPrivateHandoff({
+  const handoff = await createTelegramPrivateHandoff({
     kind: 'points',
     tenantId: linkedStore.tenantId,
     guildId: linkedStore.guildId,
@@ -144,7 +156,7 @@ export async function handlePointsCommand(ctx: Context): Promise<void> {
   try {
     continueUrl = buildTelegramBotDeepLink(env.TELEGRAM_BOT_USERNAME, `points_${handoff.id}`);
   } catch (error) {
-    removeTelegramPrivateHandoff(handoff.id);
+    await removeTelegramPrivateHandoff(handoff.id);
     await ctx.reply(error instanceof Error ? error.message : 'TELEGRAM_BOT_USERNAME is required for private points lookups.');
     return;
   }
@@ -162,8 +174,8 @@ export async function handlePendingPointsMessage(ctx: Context): Promise<boolean>
     return false;
   }
 
-  const pendingKey = getPendingPointsKey(ctx.chat.id, ctx.from.id);
-  const pending = pendingPointsLookups.get(pendingKey);
+  const pendingKey = getPointsPromptKey(ctx.chat.id, ctx.from.id);
+  const pending = await getTelegramPendingPrompt<PendingPointsLookup>(pendingKey);
   if (!pending) {
     return false;
   }
@@ -174,7 +186,7 @@ export async function handlePendingPointsMessage(ctx: Context): Promise<boolean>
     return true;
   }
 
-  pendingPointsLookups.delete(pendingKey);
+  await clearTelegramPendingPrompt(pendingKey);
   await replyWithPoints({
     ctx,
     tenantId: pending.tenantId,
@@ -12,6 +12,11 @@ import {
   getTelegramPrivateHandoff,
   removeTelegramPrivateHandoff,
 } from '../flows/private-handoff-store.js';
+import {
+  clearTelegramPendingPrompt,
+  getTelegramPendingPrompt,
+  setTelegramPendingPrompt,
+} from '../flows/pending-prompt-store.js';
 import {
   buildTelegramBotDeepLink,
   parseTelegramReferStartPayload,
@@ -42,10 +47,8 @@ type PendingReferral =
       referrerEmail: string;
     };
 
-const pendingReferrals = new Map<string, PendingReferral>();
-
-function getReferralKey(chatId: number | string, userId: number): string {
-  return `${chatId}:${userId}`;
+function getReferralPromptKey(chatId: number | string, userId: number) {
+  return { kind: 'referral' as const, chatId, userId };
 }
 
 function isTelegramPrivateChat(chatType: string | undefined): boolean {
@@ -136,7 +139,7 @@ export async function handleReferStartCommand(ctx: Context): Promise<boolean> {
     return false;
   }
 
-  const handoff = getTelegramPrivateHandoff(handoffId);
+  const handoff = await getTelegramPrivateHandoff(handoffId);
   if (!handoff || handoff.kind !== 'refer') {
     await ctx.reply('This referral link expired. Run /refer again in the Telegram group.');
     return true;
@@ -147,11 +150,14 @@ export async function handleReferStartCommand(ctx: Context): Promise<boolean> {
     return true;
   }
 
-  removeTelegramPrivateHandoff(handoff.id);
-  pendingReferrals.set(getReferralKey(ctx.chat.id, ctx.from.id), {
-    step: 'referrer_email',
-    tenantId: handoff.tenantId,
-    guildId: handoff.guildId,
+  await removeTelegramPrivateHandoff(handoff.id);
+  await setTelegramPendingPrompt<PendingReferral>({
+    ...getReferralPromptKey(ctx.chat.id, ctx.from.id),
+    state: {
+      step: 'referrer_email',
+      tenantId: handoff.tenantId,
+      guildId: handoff.guildId,
+    },
   });
 
   await ctx.reply('Private referral started. Send your email as your next message.');
@@ -164,7 +170,9 @@ export async function handleReferCommand(ctx: Context): Promise<void> {
   }
 
   if (isTelegramPrivateChat(ctx.chat.type)) {
-    const pending = pendingReferrals.get(getReferralKey(ctx.chat.id, ctx.from.id));
+    const pending = await getTelegramPendingPrompt<PendingReferral>(
+      getReferralPromptKey(ctx.chat.id, ctx.from.id),
+    );
     if (!pending) {
       await ctx.reply('Start /refer in a linked Telegram group first. The bot will then continue privately here.');
       return;
@@ -190,7 +198,7 @@ export async function handleReferCommand(ctx: Context): Promise<void> {
     return;
   }
 
-  const handoff = createTelegramPrivateHandoff({
+  const handoff = await createTelegramPrivateHandoff({
     kind: 'refer',
     tenantId: linkedStore.tenantId,
     guildId: linkedStore.guildId,
@@ -202,7 +210,7 @@ export async function handleReferCommand(ctx: Context): Promise<void> {
   try {
     continueUrl = buildTelegramBotDeepLink(env.TELEGRAM_BOT_USERNAME, `refer_${handoff.id}`);
   } catch (error) {
-    removeTelegramPrivateHandoff(handoff.id);
+    await removeTelegramPrivateHandoff(handoff.id);
     await ctx.reply(error instanceof Error ? error.message : 'TELEGRAM_BOT_USERNAME is required for private referrals.');
     return;
   }
@@ -220,8 +228,8 @@ export async function handlePendingReferMessage(ctx: Context): Promise<boolean>
     return false;
   }
 
-  const pendingKey = getReferralKey(ctx.chat.id, ctx.from.id);
-  const pending = pendingReferrals.get(pendingKey);
+  const pendingKey = getReferralPromptKey(ctx.chat.id, ctx.from.id);
+  const pending = await getTelegramPendingPrompt<PendingReferral>(pendingKey);
   if (!pending) {
     return false;
   }
@@ -233,16 +241,19 @@ export async function handlePendingReferMessage(ctx: Context): Promise<boolean>
   }
 
   if (pending.step === 'referrer_email') {
-    pendingReferrals.set(pendingKey, {
-      ...pending,
-      step: 'referred_email',
-      referrerEmail: text,
+    await setTelegramPendingPrompt<PendingReferral>({
+      ...pendingKey,
+      state: {
+        ...pending,
+        step: 'referred_email',
+        referrerEmail: text,
+      },
     });
     await ctx.reply('Now send the new customer email as your next message.');
     return true;
   }
 
-  pendingReferrals.delete(pendingKey);
+  await clearTelegramPendingPrompt(pendingKey);
 
   const created = await referralService.createClaimFromCommand({
     tenantId: pending.tenantId,
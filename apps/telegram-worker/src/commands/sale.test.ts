@@ -1,9 +1,51 @@
-import { SaleService } from '@voodoo/core';
+import { ProductRepository, SaleDraftRepository, SaleService, type SaleDraftRecord } from '@voodoo/core';
 import { afterEach, describe, expect, it, vi } from 'vitest';
 
-import { createSaleDraft, removeSaleDraft } from '../flows/sale-draft-store.js';
+import { createSaleDraft, getSaleDraft, removeSaleDraft, updateSaleDraft } from '../flows/sale-draft-store.js';
 import { handleSaleCallbackQuery } from './sale.js';
 
+function mockSaleDraftRepository(): void {
+  const rows = new Map<string, SaleDraftRecord>();
+
+  vi.spyOn(SaleDraftRepository.prototype, 'createDraft').mockImplementation(async (input) => {
+    const record: SaleDraftRecord = {
+      id: `row-${input.draftKey}`,
+      kind: input.kind,
+      draftKey: input.draftKey,
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+      ticketChannelId: input.ticketChannelId ?? null,
+      controlChatId: input.controlChatId ?? null,
+      state: structuredClone(input.state),
+      version: 1,
+      expiresAt: input.expiresAt,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    rows.set(input.draftKey, record);
+    return record;
+  });
+  vi.spyOn(SaleDraftRepository.prototype, 'getDraft').mockImplementation(async (input) => {
+    const record = rows.get(input.draftKey);
+    return record ? { ...record, state: structuredClone(record.state) } : null;
+  });
+  vi.spyOn(SaleDraftRepository.prototype, 'updateDraft').mockImplementation(async (input) => {
+    const record = rows.get(input.draftKey);
+    if (!record || record.version !== input.expectedVersion) {
+      return null;
+    }
+
+    record.ticketChannelId = input.ticketChannelId ?? null;
+    record.controlChatId = input.controlChatId ?? null;
+    record.state = structuredClone(input.state);
+    record.version += 1;
+    return record.version;
+  });
+  vi.spyOn(SaleDraftRepository.prototype, 'deleteDraft').mockImplementation(async (input) => {
+    rows.delete(input.draftKey);
+  });
+}
+
 describe('telegram sale command', () => {
   afterEach(() => {
     vi.restoreAllMocks();
@@ -34,8 +76,9 @@ describe('telegram sale command', () => {
     vi.spyOn(SaleService.prototype, 'getSaleOptions').mockResolvedValue(
       saleOptionsResult as any,
     );
+    mockSaleDraftRepository();
 
-    const draft = createSaleDraft({
+    const draft = await createSaleDraft({
       tenantId: 'tenant-1',
       guildId: 'guild-1',
       ticketChannelId: 'tg:-100123',
@@ -57,7 +100,9 @@ describe('telegram sale command', () => {
       variantLabel: 'Standard',
       priceMinor: 2000,
       currency: 'GBP',
+      quantity: 1,
     });
+    await updateSaleDraft(draft);
 
     const editMessageText = vi.fn().mockResolvedValue(undefined);
 
@@ -85,7 +130,120 @@ describe('telegram sale command', () => {
         }),
       );
     } finally {
-      removeSaleDraft(draft.id);
+      await removeSaleDraft(draft.id);
+    }
+  });
+
+  it('asks for a quantity and adds the chosen number of units as one basket line', async () => {
+    mockSaleDraftRepository();
+    vi.spyOn(ProductRepository.prototype, 'getById').mockResolvedValue({ formFields: [] } as any);
+    vi.spyOn(SaleService.prototype, 'previewBasketPricing').mockResolvedValue({
+      isErr: () => false,
+      isOk: () => true,
+      value: { discounts: [], lineDiscountsMinor: [0], totalDiscountMinor: 0 },
+    } as any);
+
+    const draft = await createSaleDraft({
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      ticketChannelId: 'tg:-100123',
+      customerLabel: '@buyer_one',
+      staffDiscordUserId: 'tg:111',
+      customerDiscordUserId: 'tg:222',
+      customerTelegramUsernameNormalized: 'buyer_one',
+      defaultCurrency: 'GBP',
+    });
+    draft.controlChatId = 'tg:222';
+    draft.controlMessageId = 55;
+    draft.category = 'Alpha';
+    draft.productId = 'product-1';
+    draft.productName = 'Alpha Product';
+    draft.variantOptions = [
+      { variantId: 'variant-1', label: 'Standard', priceMinor: 500, currency: 'GBP', minQuantity: 1, maxQuantity: 5 },
+    ];
+    await updateSaleDraft(draft);
+
+    const editMessageText = vi.fn().mockResolvedValue(undefined);
+    const callback = (data: string) =>
+      handleSaleCallbackQuery({
+        chat: { id: 222, type: 'private' },
+        from: { id: 222, username: 'buyer_one' },
+        callbackQuery: { data },
+        api: { editMessageText },
+        answerCallbackQuery: vi.fn().mockResolvedValue(undefined),
+      } as any);
+
+    try {
+      await callback(`sale:var:${draft.id}:variant-1`);
+      expect(editMessageText.mock.calls[0]?.[2]).toContain('Send how many to add (1-5) as your next message.');
+      expect((await getSaleDraft(draft.id))?.pendingInput).toEqual({ type: 'quantity' });
+
+      await callback(`sale:qty:${draft.id}:9`);
+      expect(editMessageText.mock.calls[1]?.[2]).toContain('Quantity must be a whole number from 1 to 5.');
+
+      await callback(`sale:qty:${draft.id}:3`);
+      expect(editMessageText.mock.calls[2]?.[2]).toContain('1. Alpha / Alpha Product / Standard x3 - £15.00');
+      const saved = await getSaleDraft(draft.id);
+      expect(saved?.pendingInput).toBeNull();
+      expect(saved?.basketItems).toEqual([expect.objectContaining({ variantId: 'variant-1', quantity: 3 })]);
+    } finally {
+      await removeSaleDraft(draft.id);
+    }
+  });
+
+  it('lists automatic discounts under the subtotal and takes them off the total', async () => {
+    mockSaleDraftRepository();
+    vi.spyOn(ProductRepository.prototype, 'getById').mockResolvedValue({ formFields: [] } as any);
+    vi.spyOn(SaleService.prototype, 'previewBasketPricing').mockResolvedValue({
+      isErr: () => false,
+      isOk: () => true,
+      value: {
+        discounts: [{ label: 'Buy 2 get 1 free', amountMinor: 500 }],
+        lineDiscountsMinor: [500],
+        totalDiscountMinor: 500,
+      },
+    } as any);
+
+    const draft = await createSaleDraft({
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      ticketChannelId: 'tg:-100123',
+      customerLabel: '@buyer_one',
+      staffDiscordUserId: 'tg:111',
+      customerDiscordUserId: 'tg:222',
+      customerTelegramUsernameNormalized: 'buyer_one',
+      defaultCurrency: 'GBP',
+    });
+    draft.controlChatId = 'tg:222';
+    draft.controlMessageId = 55;
+    draft.category = 'Alpha';
+    draft.productId = 'product-1';
+    draft.productName = 'Alpha Product';
+    draft.variantOptions = [{ variantId: 'variant-1', label: 'Standard', priceMinor: 500, currency: 'GBP' }];
+    draft.variantId = 'variant-1';
+    draft.pendingInput = { type: 'quantity' };
+    await updateSaleDraft(draft);
+
+    const editMessageText = vi.fn().mockResolvedValue(undefined);
+
+    try {
+      await handleSaleCallbackQuery({
+        chat: { id: 222, type: 'private' },
+        from: { id: 222, username: 'buyer_one' },
+        callbackQuery: { data: `sale:qty:${draft.id}:3` },
+        api: { editMessageText },
+        answerCallbackQuery: vi.fn().mockResolvedValue(undefined),
+      } as any);
+
+      const content = editMessageText.mock.calls[0]?.[2] as string;
+      expect(content).toContain('Subtotal: £15.00');
+      expect(content).toContain('Buy 2 get 1 free: -£5.00');
+      expect(content).toContain('Total Due: £10.00');
+      expect((await getSaleDraft(draft.id))?.basketItems).toEqual([
+        expect.objectContaining({ variantId: 'variant-1', automaticDiscountMinor: 500 }),
+      ]);
+    } finally {
+      await removeSaleDraft(draft.id);
     }
   });
 });
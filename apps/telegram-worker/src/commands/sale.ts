@@ -1,9 +1,20 @@
 import {
-  computeCouponEligibleSubtotalMinor,
-  CouponRepository,
+  buildManualPaymentApproveCustomId,
+  CouponService,
+  describeAmountExample,
+  describeCouponRules,
+  describeQuantityViolation,
+  formatCurrencyMinor,
+  getLineTotalMinor,
+  isFixedQuantity,
+  parseMajorToMinor,
+  parseQuantityInput,
   ProductRepository,
+  resolveQuantityRange,
   SaleService,
   getEnv,
+  logger,
+  type QuantityLimits,
   type SaleCheckoutOption,
   toTelegramScopedId,
 } from '@voodoo/core';
@@ -17,7 +28,9 @@ import {
   removeSaleDraft,
   updateSaleDraft,
   type SaleDraft,
+  type SaleDraftBasketItem,
   type SaleDraftFormField,
+  type SaleDraftVariantOption,
 } from '../flows/sale-draft-store.js';
 import {
   buildTelegramBotDeepLink,
@@ -35,7 +48,7 @@ import {
 
 const env = getEnv();
 const productRepository = new ProductRepository();
-const couponRepository = new CouponRepository();
+const couponService = new CouponService();
 const saleService = new SaleService();
 const displayLabelCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
 type TelegramKeyboardButton = { label: string; data?: string; url?: string };
@@ -57,6 +70,14 @@ function isTelegramPrivateChat(chatType: string | undefined): boolean {
   return chatType === 'private';
 }
 
+function isSoldOutOption(option: { stockAvailable?: number | null }): boolean {
+  return option.stockAvailable === 0;
+}
+
+function isSoldOutProduct(product: { variants: Array<{ stockAvailable?: number | null }> }): boolean {
+  return product.variants.length > 0 && product.variants.every(isSoldOutOption);
+}
+
 function compareVariantForDisplay(
   left: { label: string; priceMinor: number; variantId: string },
   right: { label: string; priceMinor: number; variantId: string },
@@ -122,20 +143,78 @@ function appendDoneAddingButton(buttons: TelegramKeyboardButton[], draft: SaleDr
   return [...buttons, { label: 'Done Adding', data: `sale:act:${draft.id}:co` }];
 }
 
-function formatMinorCurrency(minor: number, currency: string): string {
-  return `${(minor / 100).toFixed(2)} ${currency}`;
+function getBasketSubtotalMinor(draft: SaleDraft): number {
+  return draft.basketItems.reduce((sum, item) => sum + getLineTotalMinor(item), 0);
 }
 
-function getBasketSubtotalMinor(draft: SaleDraft): number {
-  return draft.basketItems.reduce((sum, item) => sum + item.priceMinor, 0);
+function getQuantityLimits(variant: SaleDraftVariantOption): QuantityLimits {
+  return { minQuantity: variant.minQuantity ?? 1, maxQuantity: variant.maxQuantity ?? null };
+}
+
+function getUnitsInBasket(draft: SaleDraft, variantId: string): number {
+  return draft.basketItems.filter((item) => item.variantId === variantId).reduce((sum, item) => sum + item.quantity, 0);
+}
+
+/** Most units of a price option that can still be added, after its line limit, stock and the basket. */
+function getAddableQuantity(draft: SaleDraft, variant: SaleDraftVariantOption): number {
+  const { max } = resolveQuantityRange(getQuantityLimits(variant));
+  const stockCap = typeof variant.stockAvailable === 'number' ? variant.stockAvailable : max;
+  return Math.max(0, Math.min(max, stockCap) - getUnitsInBasket(draft, variant.variantId));
+}
+
+function describeNoRoomForVariant(draft: SaleDraft, variant: SaleDraftVariantOption, addableQuantity: number): string {
+  if (variant.stockAvailable === 0) return `${variant.label} is sold out. Pick another price option.`;
+  if (addableQuantity > 0) {
+    const { min } = resolveQuantityRange(getQuantityLimits(variant));
+    return `Only ${addableQuantity} more of ${variant.label} can be added, but the minimum is ${min}.`;
+  }
+
+  const stockAvailable = variant.stockAvailable;
+  if (typeof stockAvailable === 'number' && getUnitsInBasket(draft, variant.variantId) >= stockAvailable) {
+    return `Only ${stockAvailable} of ${variant.label} left in stock, and all of them are already in the basket.`;
+  }
+  return `The basket already has the most of ${variant.label} allowed in one order.`;
+}
+
+function formatBasketItemLine(item: SaleDraftBasketItem): string {
+  const label = `${item.category} / ${item.productName} / ${item.variantLabel}`;
+  const total = formatCurrencyMinor(getLineTotalMinor(item), item.currency);
+  return item.quantity > 1 ? `${label} x${item.quantity} - ${total}` : `${label} - ${total}`;
+}
+
+function getAutomaticDiscountMinor(draft: SaleDraft): number {
+  const total = (draft.automaticDiscounts ?? []).reduce((sum, discount) => sum + discount.amountMinor, 0);
+  return Math.min(getBasketSubtotalMinor(draft), total);
 }
 
 function getCouponDiscountMinor(draft: SaleDraft): number {
-  return Math.min(getBasketSubtotalMinor(draft), Math.max(0, draft.couponDiscountMinor));
+  const afterAutomaticMinor = getBasketSubtotalMinor(draft) - getAutomaticDiscountMinor(draft);
+  return Math.min(afterAutomaticMinor, Math.max(0, draft.couponDiscountMinor));
 }
 
 function getBasketTotalMinor(draft: SaleDraft): number {
-  return Math.max(0, getBasketSubtotalMinor(draft) - getCouponDiscountMinor(draft) + draft.tipMinor);
+  const afterAutomaticMinor = getBasketSubtotalMinor(draft) - getAutomaticDiscountMinor(draft);
+  return Math.max(0, afterAutomaticMinor - getCouponDiscountMinor(draft) + draft.tipMinor);
+}
+
+/** Re-prices the basket with volume prices and automatic discounts; line prices stay at list price. */
+async function refreshAutomaticDiscounts(draft: SaleDraft): Promise<void> {
+  const pricing = await saleService.previewBasketPricing({
+    tenantId: draft.tenantId,
+    guildId: draft.guildId,
+    currency: draft.basketItems[0]?.currency ?? draft.defaultCurrency,
+    items: draft.basketItems.map((item) => ({
+      productId: item.productId,
+      variantId: item.variantId,
+      quantity: item.quantity,
+    })),
+  });
+  const lineDiscountsMinor = pricing.isOk() ? pricing.value.lineDiscountsMinor : [];
+  draft.automaticDiscounts = pricing.isOk() ? pricing.value.discounts : [];
+  draft.basketItems = draft.basketItems.map((item, index) => ({
+    ...item,
+    automaticDiscountMinor: lineDiscountsMinor[index] ?? 0,
+  }));
 }
 
 function resetPointsSelection(draft: SaleDraft): void {
@@ -151,31 +230,32 @@ function resetPointsSelection(draft: SaleDraft): void {
 
 function buildBasketSummaryLines(draft: SaleDraft): string[] {
   if (draft.basketItems.length === 0) return ['Basket: (empty)'];
-  const lines = draft.basketItems.map(
-    (item, index) =>
-      `${index + 1}. ${item.category} / ${item.productName} / ${item.variantLabel} - ${formatMinorCurrency(item.priceMinor, item.currency)}`,
-  );
+  const lines = draft.basketItems.map((item, index) => `${index + 1}. ${formatBasketItemLine(item)}`);
   const currency = draft.basketItems[0]?.currency ?? draft.defaultCurrency;
-  lines.push(`Subtotal: ${formatMinorCurrency(getBasketSubtotalMinor(draft), currency)}`);
+  lines.push(`Subtotal: ${formatCurrencyMinor(getBasketSubtotalMinor(draft), currency)}`);
+  for (const discount of draft.automaticDiscounts ?? []) {
+    lines.push(`${discount.label}: -${formatCurrencyMinor(discount.amountMinor, currency)}`);
+  }
   if (draft.couponCode) {
     const couponDiscountMinor = getCouponDiscountMinor(draft);
     lines.push(
       couponDiscountMinor > 0
-        ? `Coupon (${draft.couponCode}): -${formatMinorCurrency(couponDiscountMinor, currency)}`
-        : `Coupon (${draft.couponCode}): 0.00 ${currency}`,
+        ? `Coupon (${draft.couponCode}): -${formatCurrencyMinor(couponDiscountMinor, currency)}`
+        : `Coupon (${draft.couponCode}): ${formatCurrencyMinor(0, currency)}`,
     );
   }
-  if (draft.tipMinor > 0) lines.push(`Tip: +${formatMinorCurrency(draft.tipMinor, currency)}`);
-  lines.push(`Total Due: ${formatMinorCurrency(getBasketTotalMinor(draft), currency)}`);
+  if (draft.tipMinor > 0) lines.push(`Tip: +${formatCurrencyMinor(draft.tipMinor, currency)}`);
+  lines.push(`Total Due: ${formatCurrencyMinor(getBasketTotalMinor(draft), currency)}`);
   return lines;
 }
 
-function parseTipToMinor(rawValue: string): number {
-  const value = rawValue.trim();
-  if (!/^\d+(\.\d{1,2})?$/.test(value)) throw new Error('Tip must be a valid amount, for example 2.50');
-  const amount = Number(value);
-  if (!Number.isFinite(amount) || amount <= 0) throw new Error('Tip must be greater than zero.');
-  return Math.round(amount * 100);
+function parseTipToMinor(rawValue: string, currency: string): number {
+  const tipMinor = parseMajorToMinor(rawValue, currency);
+  if (tipMinor === null) {
+    throw new Error(`Tip must be a valid ${currency} amount, for example ${describeAmountExample(currency)}`);
+  }
+  if (tipMinor <= 0) throw new Error('Tip must be greater than zero.');
+  return tipMinor;
 }
 
 function mergeFormFields(existing: SaleDraftFormField[], incoming: SaleDraftFormField[]): SaleDraftFormField[] {
@@ -214,26 +294,32 @@ async function sendCheckoutMessage(input: {
   api: Api;
   draft: SaleDraft;
   checkoutOptions: SaleCheckoutOption[];
-  checkoutUrl: string;
+  checkoutUrl: string | null;
+  paymentInstructions: string | null;
   orderSessionId: string;
-}): Promise<void> {
+}): Promise<{ messageId: number }> {
   const options =
     input.checkoutOptions.length > 0
       ? input.checkoutOptions
-      : [{ method: 'pay' as const, label: 'Pay', url: input.checkoutUrl }];
-  await input.api.sendMessage(
+      : input.checkoutUrl
+        ? [{ method: 'pay' as const, label: 'Pay', url: input.checkoutUrl }]
+        : [];
+  const message = await input.api.sendMessage(
     getControlChatId(input.draft),
     [
       `Sale created for ${input.draft.customerLabel}.`,
       `Order Session: ${input.orderSessionId}`,
       'Choose payment method below.',
       'Telegram now uses the exact provider checkout URL here, with no web wrapper.',
+      ...(input.paymentInstructions
+        ? ['', options.length > 0 ? 'Or pay manually:' : 'Payment instructions:', input.paymentInstructions]
+        : []),
       '',
       'Paid and fulfilled status updates will be posted in the linked Telegram group. This may take up to 30 minutes. Do NOT pay again.',
     ].join('\n'),
     {
-      reply_markup: buildKeyboard(
-        options.map((option, index) => ({
+      reply_markup: buildKeyboard([
+        ...options.map((option, index) => ({
           label: buildTelegramCheckoutButtonLabel({
             label: option.label,
             index,
@@ -241,9 +327,14 @@ async function sendCheckoutMessage(input: {
           }),
           url: option.url,
         })),
-      ),
+        ...(input.paymentInstructions
+          ? [{ label: 'Mark as Paid', data: buildManualPaymentApproveCustomId(input.orderSessionId) }]
+          : []),
+      ]),
     },
   );
+
+  return { messageId: message.message_id };
 }
 
 async function finalizeDraft(input: { api: Api; draft: SaleDraft }): Promise<void> {
@@ -262,7 +353,11 @@ async function finalizeDraft(input: { api: Api; draft: SaleDraft }): Promise<voi
     defaultCurrency: input.draft.defaultCurrency,
     productId: primaryItem.productId,
     variantId: primaryItem.variantId,
-    items: input.draft.basketItems.map((item) => ({ productId: item.productId, variantId: item.variantId })),
+    items: input.draft.basketItems.map((item) => ({
+      productId: item.productId,
+      variantId: item.variantId,
+      quantity: item.quantity,
+    })),
     couponCode: input.draft.couponCode,
     tipMinor: input.draft.tipMinor,
     usePoints: input.draft.usePoints,
@@ -274,14 +369,28 @@ async function finalizeDraft(input: { api: Api; draft: SaleDraft }): Promise<voi
     return;
   }
 
-  removeSaleDraft(input.draft.id);
-  await sendCheckoutMessage({
+  await removeSaleDraft(input.draft.id);
+  const checkoutMessage = await sendCheckoutMessage({
     api: input.api,
     draft: input.draft,
     checkoutOptions: created.value.checkoutOptions,
     checkoutUrl: created.value.checkoutUrl,
+    paymentInstructions: created.value.paymentInstructions,
+    orderSessionId: created.value.orderSessionId,
+  });
+  // Lets the expiry sweeper edit this message once the checkout links stop working.
+  const recorded = await saleService.recordCheckoutMessage({
+    tenantId: input.draft.tenantId,
     orderSessionId: created.value.orderSessionId,
+    channelId: toTelegramScopedId(getControlChatId(input.draft)),
+    messageId: String(checkoutMessage.messageId),
   });
+  if (recorded.isErr()) {
+    logger.warn(
+      { orderSessionId: created.value.orderSessionId, err: recorded.error },
+      'failed to record checkout message',
+    );
+  }
   await editDraftMessage({
     api: input.api,
     draft: input.draft,
@@ -301,8 +410,12 @@ async function maybePromptPointsBeforeFinalize(input: { api: Api; draft: SaleDra
       variantId: item.variantId,
       category: item.category,
       priceMinor: item.priceMinor,
+      quantity: item.quantity,
+      automaticDiscountMinor: item.automaticDiscountMinor,
     })),
     couponCode: input.draft.couponCode,
+    currency: input.draft.basketItems[0]?.currency ?? input.draft.defaultCurrency,
+    customerDiscordUserId: input.draft.customerDiscordUserId,
     tipMinor: input.draft.tipMinor,
     answers: input.draft.answers,
   });
@@ -317,7 +430,7 @@ async function maybePromptPointsBeforeFinalize(input: { api: Api; draft: SaleDra
     input.draft.customerEmailNormalized = points.emailNormalized;
     input.draft.pointValueMinor = points.pointValueMinor;
     input.draft.pointsAvailable = points.availablePoints;
-    updateSaleDraft(input.draft);
+    await updateSaleDraft(input.draft);
     await editDraftMessage({ api: input.api, draft: input.draft, content: 'Creating checkout link...' });
     await finalizeDraft(input);
     return;
@@ -333,7 +446,7 @@ async function maybePromptPointsBeforeFinalize(input: { api: Api; draft: SaleDra
   input.draft.pointsDiscountMinorIfUsed = points.pointsDiscountMinorIfUsed;
   input.draft.pointValueMinor = points.pointValueMinor;
   input.draft.pendingInput = null;
-  updateSaleDraft(input.draft);
+  await updateSaleDraft(input.draft);
 
   await editDraftMessage({
     api: input.api,
@@ -342,9 +455,9 @@ async function maybePromptPointsBeforeFinalize(input: { api: Api; draft: SaleDra
       'Step 8/8: Use Points?',
       ...buildBasketSummaryLines(input.draft),
       `Available points: ${points.availablePoints}`,
-      `Point value: 1 point = ${formatMinorCurrency(points.pointValueMinor, currency)}`,
+      `Point value: 1 point = ${formatCurrencyMinor(points.pointValueMinor, currency)}`,
       `Redeemable now: ${points.pointsReservedIfUsed} point(s)`,
-      `Discount if used: -${formatMinorCurrency(points.pointsDiscountMinorIfUsed, currency)}`,
+      `Discount if used: -${formatCurrencyMinor(points.pointsDiscountMinorIfUsed, currency)}`,
       'Would the customer like to apply points to this checkout?',
     ].join('\n'),
     keyboard: buildKeyboard([
@@ -367,14 +480,24 @@ async function renderCategorySelectionStep(api: Api, draft: SaleDraft): Promise<
     return;
   }
 
-  const categoryCounts = new Map<string, { label: string; productCount: number }>();
+  const categoryCounts = new Map<string, { label: string; productCount: number; soldOutCount: number }>();
   for (const product of products) {
     const label = normalizeCategoryLabel(product.category);
     const key = label.toLowerCase();
+    const soldOut = isSoldOutProduct(product) ? 1 : 0;
     const existing = categoryCounts.get(key);
-    if (existing) existing.productCount += 1;
-    else categoryCounts.set(key, { label, productCount: 1 });
+    if (existing) {
+      existing.productCount += 1;
+      existing.soldOutCount += soldOut;
+    } else {
+      categoryCounts.set(key, { label, productCount: 1, soldOutCount: soldOut });
+    }
   }
+  const soldOutCategoryKeys = new Set(
+    Array.from(categoryCounts.entries())
+      .filter(([, item]) => item.soldOutCount >= item.productCount)
+      .map(([key]) => key),
+  );
 
   draft.category = null;
   draft.categoryOptions = Array.from(categoryCounts.values())
@@ -386,7 +509,7 @@ async function renderCategorySelectionStep(api: Api, draft: SaleDraft): Promise<
   draft.variantOptions = [];
   draft.pendingInput = null;
   resetPointsSelection(draft);
-  updateSaleDraft(draft);
+  await updateSaleDraft(draft);
 
   await editDraftMessage({
     api,
@@ -394,7 +517,10 @@ async function renderCategorySelectionStep(api: Api, draft: SaleDraft): Promise<
     content: [`Step 1/7: Select category for ${draft.customerLabel}`, ...buildBasketSummaryLines(draft)].join('\n'),
     keyboard: buildKeyboard(
       appendDoneAddingButton(
-        draft.categoryOptions.map((category, index) => ({ label: category, data: `sale:cat:${draft.id}:${index}` })),
+        draft.categoryOptions.map((category, index) => ({
+          label: soldOutCategoryKeys.has(category.toLowerCase()) ? `${category} (Sold out)` : category,
+          data: `sale:cat:${draft.id}:${index}`,
+        })),
         draft,
       ),
     ),
@@ -428,7 +554,7 @@ async function renderProductSelectionStep(api: Api, draft: SaleDraft): Promise<v
   draft.variantId = null;
   draft.variantOptions = [];
   draft.pendingInput = null;
-  updateSaleDraft(draft);
+  await updateSaleDraft(draft);
 
   await editDraftMessage({
     api,
@@ -437,7 +563,7 @@ async function renderProductSelectionStep(api: Api, draft: SaleDraft): Promise<v
     keyboard: buildKeyboard(
       appendDoneAddingButton(
         products.sort(compareProductNameForDisplay).map((product) => ({
-          label: product.name,
+          label: isSoldOutProduct(product) ? `${product.name} (Sold out)` : product.name,
           data: `sale:prd:${draft.id}:${product.productId}`,
         })),
         draft,
@@ -446,7 +572,7 @@ async function renderProductSelectionStep(api: Api, draft: SaleDraft): Promise<v
   });
 }
 
-async function renderVariantSelectionStep(api: Api, draft: SaleDraft): Promise<void> {
+async function renderVariantSelectionStep(api: Api, draft: SaleDraft, notice?: string): Promise<void> {
   if (!draft.productId || !draft.productName || !draft.category) {
     await editDraftMessage({ api, draft, content: 'Product not selected. Start /sale again.' });
     return;
@@ -455,11 +581,21 @@ async function renderVariantSelectionStep(api: Api, draft: SaleDraft): Promise<v
   await editDraftMessage({
     api,
     draft,
-    content: [`Step 3/7: Select price option`, `Category: ${draft.category}`, `Product: ${draft.productName}`, ...buildBasketSummaryLines(draft)].join('\n'),
+    content: [
+      notice,
+      `Step 3/7: Select price option`,
+      `Category: ${draft.category}`,
+      `Product: ${draft.productName}`,
+      ...buildBasketSummaryLines(draft),
+    ]
+      .filter((line): line is string => Boolean(line))
+      .join('\n'),
     keyboard: buildKeyboard(
       appendDoneAddingButton(
         draft.variantOptions.map((variant) => ({
-          label: `${variant.label} (${formatMinorCurrency(variant.priceMinor, variant.currency)})`,
+          label: isSoldOutOption(variant)
+            ? `${variant.label} (Sold out)`
+            : `${variant.label} (${formatCurrencyMinor(variant.priceMinor, variant.currency)})`,
           data: `sale:var:${draft.id}:${variant.variantId}`,
         })),
         draft,
@@ -470,7 +606,7 @@ async function renderVariantSelectionStep(api: Api, draft: SaleDraft): Promise<v
 
 async function renderBasketDecisionStep(api: Api, draft: SaleDraft): Promise<void> {
   draft.pendingInput = null;
-  updateSaleDraft(draft);
+  await updateSaleDraft(draft);
   await editDraftMessage({
     api,
     draft,
@@ -485,7 +621,7 @@ async function renderBasketDecisionStep(api: Api, draft: SaleDraft): Promise<voi
 
 async function renderCouponSelectionStep(api: Api, draft: SaleDraft): Promise<void> {
   draft.pendingInput = null;
-  updateSaleDraft(draft);
+  await updateSaleDraft(draft);
   const buttons = draft.couponCode
     ? [
         { label: 'Replace Coupon', data: `sale:act:${draft.id}:cap` },
@@ -505,7 +641,7 @@ async function renderCouponSelectionStep(api: Api, draft: SaleDraft): Promise<vo
 
 async function renderAnswerCollectionStep(api: Api, draft: SaleDraft): Promise<void> {
   draft.pendingInput = null;
-  updateSaleDraft(draft);
+  await updateSaleDraft(draft);
   if (draft.formFields.length === 0) {
     if (draft.tipEnabled) await renderTipDecisionStep(api, draft);
     else {
@@ -525,11 +661,11 @@ async function renderAnswerCollectionStep(api: Api, draft: SaleDraft): Promise<v
 
 async function renderTipDecisionStep(api: Api, draft: SaleDraft): Promise<void> {
   draft.pendingInput = null;
-  updateSaleDraft(draft);
+  await updateSaleDraft(draft);
   await editDraftMessage({
     api,
     draft,
-    content: ['Step 7/7: Tip (optional)', ...buildBasketSummaryLines(draft), 'Would the customer like to add a tip?'].join('\n'),
+    content: ['Step 7/7: Tip (optional)', ...buildBasketSummaryLines(draft), `Would the customer like to add a tip in ${draft.defaultCurrency}?`].join('\n'),
     keyboard: buildKeyboard([
       { label: 'Yes, Add Tip', data: `sale:act:${draft.id}:ty` },
       { label: 'No Tip, Continue', data: `sale:act:${draft.id}:ts` },
@@ -539,7 +675,7 @@ async function renderTipDecisionStep(api: Api, draft: SaleDraft): Promise<void>
 
 async function promptForCoupon(api: Api, draft: SaleDraft): Promise<void> {
   draft.pendingInput = { type: 'coupon' };
-  updateSaleDraft(draft);
+  await updateSaleDraft(draft);
   await editDraftMessage({
     api,
     draft,
@@ -559,7 +695,7 @@ async function promptForAnswer(api: Api, draft: SaleDraft, fieldIndex: number):
   }
 
   draft.pendingInput = { type: 'answer', fieldIndex };
-  updateSaleDraft(draft);
+  await updateSaleDraft(draft);
   await editDraftMessage({
     api,
     draft,
@@ -569,11 +705,11 @@ async function promptForAnswer(api: Api, draft: SaleDraft, fieldIndex: number):
 
 async function promptForTip(api: Api, draft: SaleDraft): Promise<void> {
   draft.pendingInput = { type: 'tip' };
-  updateSaleDraft(draft);
+  await updateSaleDraft(draft);
   await editDraftMessage({
     api,
     draft,
-    content: ['Step 7/7: Tip (optional)', ...buildBasketSummaryLines(draft), 'Send the tip amount as your next message, for example 2.50.'].join('\n'),
+    content: ['Step 7/7: Tip (optional)', ...buildBasketSummaryLines(draft), `Send the tip amount in ${draft.defaultCurrency} as your next message, for example ${describeAmountExample(draft.defaultCurrency)}.`].join('\n'),
   });
 }
 
@@ -592,12 +728,16 @@ async function handleCategorySelection(api: Api, draft: SaleDraft, categoryIndex
   draft.variantOptions = [];
   draft.pendingInput = null;
   resetPointsSelection(draft);
-  updateSaleDraft(draft);
+  await updateSaleDraft(draft);
   await renderProductSelectionStep(api, draft);
 }
 
 async function handleProductSelection(api: Api, draft: SaleDraft, selectedProductId: string): Promise<void> {
-  const optionsResult = await saleService.getSaleOptions({ tenantId: draft.tenantId, guildId: draft.guildId });
+  const optionsResult = await saleService.getSaleOptions({
+    tenantId: draft.tenantId,
+    guildId: draft.guildId,
+    currency: draft.defaultCurrency,
+  });
   if (optionsResult.isErr()) {
     await editDraftMessage({ api, draft, content: optionsResult.error.message });
     return;
@@ -616,24 +756,25 @@ async function handleProductSelection(api: Api, draft: SaleDraft, selectedProduc
     variantId: variant.variantId,
     label: variant.label,
     priceMinor: variant.priceMinor,
-    currency: draft.defaultCurrency,
+    currency: variant.currency,
+    stockAvailable: variant.stockAvailable,
+    minQuantity: variant.minQuantity,
+    maxQuantity: variant.maxQuantity,
   }));
-  updateSaleDraft(draft);
+  await updateSaleDraft(draft);
   await renderVariantSelectionStep(api, draft);
 }
 
-async function handleVariantSelection(api: Api, draft: SaleDraft, selectedVariantId: string): Promise<void> {
-  const variant = draft.variantOptions.find((item) => item.variantId === selectedVariantId);
-  if (!variant || !draft.productId || !draft.productName || !draft.category) {
-    await editDraftMessage({ api, draft, content: 'Price option not found. Start /sale again.' });
-    return;
-  }
+/** Adds `quantity` units of the draft's current product as one basket line. Returns a message when it cannot. */
+async function addVariantToBasket(
+  draft: SaleDraft,
+  variant: SaleDraftVariantOption,
+  quantity: number,
+): Promise<string | null> {
+  if (!draft.productId || !draft.productName || !draft.category) return 'Price option not found. Start /sale again.';
 
   const fullProduct = await productRepository.getById({ tenantId: draft.tenantId, guildId: draft.guildId, productId: draft.productId });
-  if (!fullProduct) {
-    await editDraftMessage({ api, draft, content: 'Product details could not be loaded. Start /sale again.' });
-    return;
-  }
+  if (!fullProduct) return 'Product details could not be loaded. Start /sale again.';
 
   const mergedFields = mergeFormFields(
     draft.formFields,
@@ -645,12 +786,9 @@ async function handleVariantSelection(api: Api, draft: SaleDraft, selectedVarian
       validation: field.validation,
     })),
   );
-  if (mergedFields.length > 5) {
-    await editDraftMessage({ api, draft, content: 'This basket requires more than 5 questions. Reduce the product questions and try again.' });
-    return;
-  }
+  if (mergedFields.length > 5) return 'This basket requires more than 5 questions. Reduce the product questions and try again.';
 
-  draft.variantId = selectedVariantId;
+  draft.variantId = variant.variantId;
   draft.formFields = mergedFields;
   draft.basketItems.push({
     productId: draft.productId,
@@ -659,11 +797,94 @@ async function handleVariantSelection(api: Api, draft: SaleDraft, selectedVarian
     variantId: variant.variantId,
     variantLabel: variant.label,
     priceMinor: variant.priceMinor,
-    currency: draft.defaultCurrency,
+    currency: variant.currency,
+    quantity,
   });
+  await refreshAutomaticDiscounts(draft);
   draft.pendingInput = null;
   resetPointsSelection(draft);
-  updateSaleDraft(draft);
+  await updateSaleDraft(draft);
+  return null;
+}
+
+async function promptForQuantity(api: Api, draft: SaleDraft, variant: SaleDraftVariantOption, notice?: string): Promise<void> {
+  const { min } = resolveQuantityRange(getQuantityLimits(variant));
+  const addableQuantity = getAddableQuantity(draft, variant);
+  draft.variantId = variant.variantId;
+  draft.pendingInput = { type: 'quantity' };
+  await updateSaleDraft(draft);
+  await editDraftMessage({
+    api,
+    draft,
+    content: [
+      notice,
+      `Step 3/7: Quantity for ${draft.productName ?? 'product'} / ${variant.label}`,
+      `Price: ${formatCurrencyMinor(variant.priceMinor, variant.currency)} each`,
+      ...buildBasketSummaryLines(draft),
+      `Send how many to add (${min}-${addableQuantity}) as your next message.`,
+    ]
+      .filter((line): line is string => Boolean(line))
+      .join('\n'),
+    keyboard: buildKeyboard([
+      { label: `Add ${min}`, data: `sale:qty:${draft.id}:${min}` },
+      { label: 'Back', data: `sale:act:${draft.id}:qb` },
+    ]),
+  });
+}
+
+async function handleVariantSelection(api: Api, draft: SaleDraft, selectedVariantId: string): Promise<void> {
+  const variant = draft.variantOptions.find((item) => item.variantId === selectedVariantId);
+  if (!variant || !draft.productId || !draft.productName || !draft.category) {
+    await editDraftMessage({ api, draft, content: 'Price option not found. Start /sale again.' });
+    return;
+  }
+
+  const limits = getQuantityLimits(variant);
+  const { min } = resolveQuantityRange(limits);
+  const addableQuantity = getAddableQuantity(draft, variant);
+  if (addableQuantity < min) {
+    await renderVariantSelectionStep(api, draft, describeNoRoomForVariant(draft, variant, addableQuantity));
+    return;
+  }
+
+  if (!isFixedQuantity(limits) && addableQuantity > min) {
+    await promptForQuantity(api, draft, variant);
+    return;
+  }
+
+  const addError = await addVariantToBasket(draft, variant, min);
+  if (addError) {
+    await editDraftMessage({ api, draft, content: addError });
+    return;
+  }
+  await renderBasketDecisionStep(api, draft);
+}
+
+async function handleQuantityInput(api: Api, draft: SaleDraft, value: string): Promise<void> {
+  const variant = draft.variantOptions.find((item) => item.variantId === draft.variantId);
+  if (!variant) {
+    await editDraftMessage({ api, draft, content: 'Price option not found. Start /sale again.' });
+    return;
+  }
+
+  const quantity = parseQuantityInput(value);
+  const addableQuantity = getAddableQuantity(draft, variant);
+  const limits = getQuantityLimits(variant);
+  const quantityError =
+    quantity === null
+      ? describeQuantityViolation(Number.NaN, limits)
+      : (describeQuantityViolation(quantity, limits) ??
+        (quantity > addableQuantity ? `Only ${addableQuantity} more of ${variant.label} can be added.` : null));
+  if (quantityError) {
+    await promptForQuantity(api, draft, variant, quantityError);
+    return;
+  }
+
+  const addError = await addVariantToBasket(draft, variant, quantity ?? 1);
+  if (addError) {
+    await editDraftMessage({ api, draft, content: addError });
+    return;
+  }
   await renderBasketDecisionStep(api, draft);
 }
 
@@ -678,40 +899,42 @@ async function handleCouponInput(api: Api, draft: SaleDraft, rawCoupon: string):
     return;
   }
 
-  const coupon = await couponRepository.getByCode({ tenantId: draft.tenantId, guildId: draft.guildId, code: couponCode });
-  if (!coupon || !coupon.active) {
-    await editDraftMessage({ api, draft, content: `Coupon ${couponCode} is invalid or inactive.`, keyboard: invalidButtons });
-    return;
-  }
-
-  const eligibleSubtotalMinor = computeCouponEligibleSubtotalMinor(
-    {
-      allowedCategories: coupon.allowedCategories,
-      allowedProductIds: coupon.allowedProductIds,
-      allowedVariantIds: coupon.allowedVariantIds,
-    },
-    draft.basketItems.map((item) => ({
+  const currency = draft.basketItems[0]?.currency ?? draft.defaultCurrency;
+  const evaluated = await couponService.evaluateCouponForBasket({
+    tenantId: draft.tenantId,
+    guildId: draft.guildId,
+    couponCode,
+    currency,
+    customerDiscordId: draft.customerDiscordUserId || null,
+    basketItems: draft.basketItems.map((item) => ({
       category: item.category,
       productId: item.productId,
       variantId: item.variantId,
       priceMinor: item.priceMinor,
+      quantity: item.quantity,
+      automaticDiscountMinor: item.automaticDiscountMinor,
     })),
-  );
-  if (eligibleSubtotalMinor <= 0) {
-    await editDraftMessage({ api, draft, content: `Coupon ${couponCode} does not apply to the selected products or variations.`, keyboard: invalidButtons });
+  });
+  if (evaluated.isErr()) {
+    await editDraftMessage({ api, draft, content: evaluated.error.message, keyboard: invalidButtons });
     return;
   }
 
-  const effectiveCouponDiscountMinor = Math.min(eligibleSubtotalMinor, coupon.discountMinor);
+  const { coupon, discountMinor: effectiveCouponDiscountMinor } = evaluated.value;
   draft.couponCode = coupon.code;
   draft.couponDiscountMinor = effectiveCouponDiscountMinor;
   draft.pendingInput = null;
   resetPointsSelection(draft);
-  updateSaleDraft(draft);
+  await updateSaleDraft(draft);
   await editDraftMessage({
     api,
     draft,
-    content: [`Coupon ${coupon.code} applied (-${formatMinorCurrency(effectiveCouponDiscountMinor, draft.basketItems[0]?.currency ?? draft.defaultCurrency)}).`, ...buildBasketSummaryLines(draft), 'Continue to customer details.'].join('\n'),
+    content: [
+      `Coupon ${coupon.code} applied (-${formatCurrencyMinor(effectiveCouponDiscountMinor, currency)}).`,
+      `Coupon rules: ${describeCouponRules(coupon, currency).join(' | ')}`,
+      ...buildBasketSummaryLines(draft),
+      'Continue to customer details.',
+    ].join('\n'),
     keyboard: buildKeyboard([{ label: 'Continue', data: `sale:act:${draft.id}:ccn` }]),
   });
 }
@@ -730,14 +953,14 @@ async function handleAnswerInput(api: Api, draft: SaleDraft, fieldIndex: number,
   draft.answers[field.fieldKey] = normalizedValue;
   draft.pendingInput = null;
   resetPointsSelection(draft);
-  updateSaleDraft(draft);
+  await updateSaleDraft(draft);
   await promptForAnswer(api, draft, fieldIndex + 1);
 }
 
 async function handleTipInput(api: Api, draft: SaleDraft, value: string): Promise<void> {
   let tipMinor = 0;
   try {
-    tipMinor = parseTipToMinor(value);
+    tipMinor = parseTipToMinor(value, draft.defaultCurrency);
   } catch (error) {
     await editDraftMessage({
       api,
@@ -753,7 +976,7 @@ async function handleTipInput(api: Api, draft: SaleDraft, value: string): Promis
   draft.tipMinor = tipMinor;
   draft.pendingInput = null;
   resetPointsSelection(draft);
-  updateSaleDraft(draft);
+  await updateSaleDraft(draft);
   await editDraftMessage({ api, draft, content: 'Checking points...' });
   await maybePromptPointsBeforeFinalize({ api, draft });
 }
@@ -772,7 +995,7 @@ export async function handleSaleStartCommand(ctx: Context): Promise<boolean> {
     return false;
   }
 
-  const draft = getSaleDraft(draftId);
+  const draft = await getSaleDraft(draftId);
   if (!draft) {
     await ctx.reply('This sale link expired. Ask an admin to start the sale again in the Telegram group.');
     return true;
@@ -796,7 +1019,7 @@ export async function handleSaleStartCommand(ctx: Context): Promise<boolean> {
   draft.customerTelegramUsernameNormalized =
     normalizeTelegramUsername(ctx.from.username) ?? draft.customerTelegramUsernameNormalized;
   draft.pendingInput = null;
-  updateSaleDraft(draft);
+  await updateSaleDraft(draft);
 
   await renderCategorySelectionStep(ctx.api, draft);
   return true;
@@ -831,8 +1054,8 @@ export async function handleSaleCommand(ctx: Context): Promise<void> {
     replyToUser: ctx.message.reply_to_message?.from ?? null,
     entities: ctx.message.entities ?? [],
   });
-  clearSaleDraftsForChat(toTelegramScopedId(String(ctx.chat.id)));
-  const draft = createSaleDraft({
+  await clearSaleDraftsForChat(toTelegramScopedId(String(ctx.chat.id)));
+  const draft = await createSaleDraft({
     tenantId: linkedStore.tenantId,
     guildId: linkedStore.guildId,
     ticketChannelId: toTelegramScopedId(String(ctx.chat.id)),
@@ -848,7 +1071,7 @@ export async function handleSaleCommand(ctx: Context): Promise<void> {
   try {
     continueUrl = buildTelegramBotDeepLink(env.TELEGRAM_BOT_USERNAME, `sale_${draft.id}`);
   } catch (error) {
-    removeSaleDraft(draft.id);
+    await removeSaleDraft(draft.id);
     await ctx.reply(error instanceof Error ? error.message : 'TELEGRAM_BOT_USERNAME is required for Telegram DM sales.');
     return;
   }
@@ -874,7 +1097,7 @@ export async function handleSaleCallbackQuery(ctx: Context): Promise<boolean> {
   if (!data.startsWith('sale:')) return false;
 
   const [, kind, draftId, value] = data.split(':');
-  const draft = draftId ? getSaleDraft(draftId) : null;
+  const draft = draftId ? await getSaleDraft(draftId) : null;
   if (!draft) {
     await ctx.answerCallbackQuery({ text: 'Sale draft expired. Start /sale again.', show_alert: true });
     return true;
@@ -892,12 +1115,19 @@ export async function handleSaleCallbackQuery(ctx: Context): Promise<boolean> {
   if (kind === 'cat' && value) await handleCategorySelection(ctx.api, draft, value);
   else if (kind === 'prd' && value) await handleProductSelection(ctx.api, draft, value);
   else if (kind === 'var' && value) await handleVariantSelection(ctx.api, draft, value);
+  else if (kind === 'qty' && value) await handleQuantityInput(ctx.api, draft, value);
+  else if (kind === 'act' && value === 'qb') {
+    draft.pendingInput = null;
+    await updateSaleDraft(draft);
+    await renderVariantSelectionStep(ctx.api, draft);
+  }
   else if (kind === 'act' && value === 'add') await renderCategorySelectionStep(ctx.api, draft);
   else if (kind === 'act' && value === 'chg') {
     draft.basketItems.pop();
     draft.formFields = await rebuildFormFieldsFromBasket(draft);
+    await refreshAutomaticDiscounts(draft);
     resetPointsSelection(draft);
-    updateSaleDraft(draft);
+    await updateSaleDraft(draft);
     await renderVariantSelectionStep(ctx.api, draft);
   } else if (kind === 'act' && value === 'co') await renderCouponSelectionStep(ctx.api, draft);
   else if (kind === 'act' && value === 'cap') await promptForCoupon(ctx.api, draft);
@@ -906,7 +1136,7 @@ export async function handleSaleCallbackQuery(ctx: Context): Promise<boolean> {
     draft.couponDiscountMinor = 0;
     draft.pendingInput = null;
     resetPointsSelection(draft);
-    updateSaleDraft(draft);
+    await updateSaleDraft(draft);
     await renderAnswerCollectionStep(ctx.api, draft);
   } else if (kind === 'act' && value === 'ccn') await renderAnswerCollectionStep(ctx.api, draft);
   else if (kind === 'act' && value === 'ans') await promptForAnswer(ctx.api, draft, 0);
@@ -915,13 +1145,13 @@ export async function handleSaleCallbackQuery(ctx: Context): Promise<boolean> {
     draft.tipMinor = 0;
     draft.pendingInput = null;
     resetPointsSelection(draft);
-    updateSaleDraft(draft);
+    await updateSaleDraft(draft);
     await editDraftMessage({ api: ctx.api, draft, content: 'Checking points...' });
     await maybePromptPointsBeforeFinalize({ api: ctx.api, draft });
   } else if (kind === 'act' && (value === 'pu' || value === 'ps')) {
     draft.usePoints = value === 'pu';
     draft.pendingInput = null;
-    updateSaleDraft(draft);
+    await updateSaleDraft(draft);
     await editDraftMessage({ api: ctx.api, draft, content: 'Creating checkout link...' });
     await finalizeDraft({ api: ctx.api, draft });
   } else await editDraftMessage({ api: ctx.api, draft, content: 'Unknown sale action. Start /sale again.' });
@@ -932,7 +1162,8 @@ export async function handleSaleTextMessage(ctx: Context): Promise<boolean> {
   if (!ctx.chat || !ctx.from || !ctx.message || !('text' in ctx.message)) return false;
   const actor = ctx.from;
   if (!actor) return false;
-  const draft = listSaleDraftsForControlChat(toTelegramScopedId(String(ctx.chat.id))).find(
+  const controlDrafts = await listSaleDraftsForControlChat(toTelegramScopedId(String(ctx.chat.id)));
+  const draft = controlDrafts.find(
     (candidate) =>
       candidate.pendingInput !== null &&
       canInteractWithDraft(candidate, toTelegramScopedId(String(actor.id)), actor.username),
@@ -942,6 +1173,7 @@ export async function handleSaleTextMessage(ctx: Context): Promise<boolean> {
   const messageText = ctx.message.text ?? '';
   if (draft.pendingInput.type === 'coupon') await handleCouponInput(ctx.api, draft, messageText);
   else if (draft.pendingInput.type === 'tip') await handleTipInput(ctx.api, draft, messageText);
+  else if (draft.pendingInput.type === 'quantity') await handleQuantityInput(ctx.api, draft, messageText);
   else await handleAnswerInput(ctx.api, draft, draft.pendingInput.fieldIndex, messageText);
   return true;
 }
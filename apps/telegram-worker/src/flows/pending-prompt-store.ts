@@ -0,0 +1,64 @@
+import { SaleDraftRepository } from '@voodoo/core';
+
+export type TelegramPendingPromptKind = 'points_lookup' | 'referral' | 'manual_payment';
+
+type TelegramPendingPromptState = {
+  tenantId: string;
+  guildId: string;
+};
+
+const saleDraftRepository = new SaleDraftRepository();
+
+export const TELEGRAM_PENDING_PROMPT_TTL_MS = 6 * 60 * 60 * 1000;
+
+function getDraftKind(kind: TelegramPendingPromptKind): string {
+  return `telegram_pending_${kind}`;
+}
+
+function getPromptKey(chatId: number | string, userId: number): string {
+  return `${chatId}:${userId}`;
+}
+
+/**
+ * Stores the "send your next message" state for DM prompts so a restart (or a second replica)
+ * still knows what the user's next message is answering.
+ */
+export async function setTelegramPendingPrompt<TState extends TelegramPendingPromptState>(input: {
+  kind: TelegramPendingPromptKind;
+  chatId: number | string;
+  userId: number;
+  state: TState;
+}): Promise<void> {
+  await saleDraftRepository.upsertDraft({
+    kind: getDraftKind(input.kind),
+    draftKey: getPromptKey(input.chatId, input.userId),
+    tenantId: input.state.tenantId,
+    guildId: input.state.guildId,
+    state: input.state,
+    expiresAt: new Date(Date.now() + TELEGRAM_PENDING_PROMPT_TTL_MS),
+  });
+}
+
+export async function getTelegramPendingPrompt<TState extends TelegramPendingPromptState>(input: {
+  kind: TelegramPendingPromptKind;
+  chatId: number | string;
+  userId: number;
+}): Promise<TState | null> {
+  const record = await saleDraftRepository.getDraft({
+    kind: getDraftKind(input.kind),
+    draftKey: getPromptKey(input.chatId, input.userId),
+  });
+
+  return record ? (record.state as TState) : null;
+}
+
+export async function clearTelegramPendingPrompt(input: {
+  kind: TelegramPendingPromptKind;
+  chatId: number | string;
+  userId: number;
+}): Promise<void> {
+  await saleDraftRepository.deleteDraft({
+    kind: getDraftKind(input.kind),
+    draftKey: getPromptKey(input.chatId, input.userId),
+  });
+}
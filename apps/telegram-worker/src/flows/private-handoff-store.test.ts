@@ -1,3 +1,4 @@
+import { SaleDraftRepository, type SaleDraftRecord } from '@voodoo/core';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 import {
@@ -7,18 +8,58 @@ import {
   removeTelegramPrivateHandoff,
 } from './private-handoff-store.js';
 
+function mockSaleDraftRepository(): Map<string, SaleDraftRecord> {
+  const rows = new Map<string, SaleDraftRecord>();
+
+  vi.spyOn(SaleDraftRepository.prototype, 'createDraft').mockImplementation(async (input) => {
+    const record: SaleDraftRecord = {
+      id: `row-${input.draftKey}`,
+      kind: input.kind,
+      draftKey: input.draftKey,
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+      ticketChannelId: input.ticketChannelId ?? null,
+      controlChatId: input.controlChatId ?? null,
+      state: structuredClone(input.state),
+      version: 1,
+      expiresAt: input.expiresAt,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    rows.set(input.draftKey, record);
+    return record;
+  });
+  vi.spyOn(SaleDraftRepository.prototype, 'getDraft').mockImplementation(async (input) => {
+    const record = rows.get(input.draftKey);
+    if (!record || record.expiresAt.getTime() < Date.now()) {
+      rows.delete(input.draftKey);
+      return null;
+    }
+
+    record.expiresAt = input.refreshExpiresAt ?? record.expiresAt;
+    return { ...record };
+  });
+  vi.spyOn(SaleDraftRepository.prototype, 'deleteDraft').mockImplementation(async (input) => {
+    rows.delete(input.draftKey);
+  });
+
+  return rows;
+}
+
 describe('telegram private handoff store', () => {
   beforeEach(() => {
     vi.useFakeTimers();
     vi.setSystemTime(new Date('2026-03-18T18:00:00.000Z'));
+    mockSaleDraftRepository();
   });
 
   afterEach(() => {
     vi.useRealTimers();
+    vi.restoreAllMocks();
   });
 
-  it('creates handoffs with a six-hour ttl and refreshes on read', () => {
-    const handoff = createTelegramPrivateHandoff({
+  it('creates handoffs with a six-hour ttl and refreshes on read', async () => {
+    const handoff = await createTelegramPrivateHandoff({
       kind: 'points',
       tenantId: 'tenant-1',
       guildId: 'guild-1',
@@ -28,16 +69,23 @@ describe('telegram private handoff store', () => {
     expect(handoff.expiresAt).toBe(Date.now() + TELEGRAM_PRIVATE_HANDOFF_TTL_MS);
 
     vi.advanceTimersByTime(90 * 60 * 1000);
-    const refreshed = getTelegramPrivateHandoff(handoff.id);
+    const refreshed = await getTelegramPrivateHandoff(handoff.id);
 
-    expect(refreshed).not.toBeNull();
+    expect(refreshed).toMatchObject({
+      id: handoff.id,
+      kind: 'points',
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      requesterTelegramUserId: 'tg:123',
+      chatTitle: null,
+    });
     expect(refreshed?.expiresAt).toBe(Date.now() + TELEGRAM_PRIVATE_HANDOFF_TTL_MS);
 
-    removeTelegramPrivateHandoff(handoff.id);
+    await removeTelegramPrivateHandoff(handoff.id);
   });
 
-  it('expires handoffs after the full ttl window', () => {
-    const handoff = createTelegramPrivateHandoff({
+  it('expires handoffs after the full ttl window', async () => {
+    const handoff = await createTelegramPrivateHandoff({
       kind: 'refer',
       tenantId: 'tenant-1',
       guildId: 'guild-1',
@@ -47,6 +95,6 @@ describe('telegram private handoff store', () => {
 
     vi.advanceTimersByTime(TELEGRAM_PRIVATE_HANDOFF_TTL_MS + 1);
 
-    expect(getTelegramPrivateHandoff(handoff.id)).toBeNull();
+    expect(await getTelegramPrivateHandoff(handoff.id)).toBeNull();
   });
 });
@@ -1,5 +1,7 @@
 import crypto from 'node:crypto';
 
+import { SaleDraftRepository } from '@voodoo/core';
+
 export type TelegramPrivateHandoffKind = 'points' | 'refer';
 
 export type TelegramPrivateHandoff = {
@@ -12,7 +14,8 @@ export type TelegramPrivateHandoff = {
   expiresAt: number;
 };
 
-const handoffStore = new Map<string, TelegramPrivateHandoff>();
+const HANDOFF_DRAFT_KIND = 'telegram_private_handoff';
+const saleDraftRepository = new SaleDraftRepository();
 
 export const TELEGRAM_PRIVATE_HANDOFF_TTL_MS = 6 * 60 * 60 * 1000;
 
@@ -20,20 +23,13 @@ function createHandoffId(): string {
   return crypto.randomBytes(8).toString('hex');
 }
 
-function refreshHandoffExpiry(handoff: TelegramPrivateHandoff): TelegramPrivateHandoff {
-  return {
-    ...handoff,
-    expiresAt: Date.now() + TELEGRAM_PRIVATE_HANDOFF_TTL_MS,
-  };
-}
-
-export function createTelegramPrivateHandoff(input: {
+export async function createTelegramPrivateHandoff(input: {
   kind: TelegramPrivateHandoffKind;
   tenantId: string;
   guildId: string;
   requesterTelegramUserId: string;
   chatTitle?: string | null;
-}): TelegramPrivateHandoff {
+}): Promise<TelegramPrivateHandoff> {
   const handoff: TelegramPrivateHandoff = {
     id: createHandoffId(),
     kind: input.kind,
@@ -44,26 +40,43 @@ export function createTelegramPrivateHandoff(input: {
     expiresAt: Date.now() + TELEGRAM_PRIVATE_HANDOFF_TTL_MS,
   };
 
-  handoffStore.set(handoff.id, handoff);
+  await saleDraftRepository.createDraft({
+    kind: HANDOFF_DRAFT_KIND,
+    draftKey: handoff.id,
+    tenantId: handoff.tenantId,
+    guildId: handoff.guildId,
+    state: {
+      kind: handoff.kind,
+      requesterTelegramUserId: handoff.requesterTelegramUserId,
+      chatTitle: handoff.chatTitle,
+    },
+    expiresAt: new Date(handoff.expiresAt),
+  });
   return handoff;
 }
 
-export function getTelegramPrivateHandoff(handoffId: string): TelegramPrivateHandoff | null {
-  const handoff = handoffStore.get(handoffId);
-  if (!handoff) {
+export async function getTelegramPrivateHandoff(handoffId: string): Promise<TelegramPrivateHandoff | null> {
+  const record = await saleDraftRepository.getDraft({
+    kind: HANDOFF_DRAFT_KIND,
+    draftKey: handoffId,
+    refreshExpiresAt: new Date(Date.now() + TELEGRAM_PRIVATE_HANDOFF_TTL_MS),
+  });
+  if (!record) {
     return null;
   }
 
-  if (handoff.expiresAt < Date.now()) {
-    handoffStore.delete(handoffId);
-    return null;
-  }
-
-  const refreshedHandoff = refreshHandoffExpiry(handoff);
-  handoffStore.set(handoffId, refreshedHandoff);
-  return refreshedHandoff;
+  const state = record.state as Pick<TelegramPrivateHandoff, 'kind' | 'requesterTelegramUserId' | 'chatTitle'>;
+  return {
+    id: record.draftKey,
+    kind: state.kind,
+    tenantId: record.tenantId,
+    guildId: record.guildId,
+    requesterTelegramUserId: state.requesterTelegramUserId,
+    chatTitle: state.chatTitle ?? null,
+    expiresAt: record.expiresAt.getTime(),
+  };
 }
 
-export function removeTelegramPrivateHandoff(handoffId: string): void {
-  handoffStore.delete(handoffId);
+export async function removeTelegramPrivateHandoff(handoffId: string): Promise<void> {
+  await saleDraftRepository.deleteDraft({ kind: HANDOFF_DRAFT_KIND, draftKey: handoffId });
 }
@@ -1,3 +1,4 @@
+import { SaleDraftRepository, type SaleDraftRecord } from '@voodoo/core';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 import {
@@ -10,18 +11,91 @@ import {
   updateSaleDraft,
 } from './sale-draft-store.js';
 
+function mockSaleDraftRepository(): Map<string, SaleDraftRecord> {
+  const rows = new Map<string, SaleDraftRecord>();
+  const isLive = (record: SaleDraftRecord) => record.expiresAt.getTime() >= Date.now();
+
+  vi.spyOn(SaleDraftRepository.prototype, 'createDraft').mockImplementation(async (input) => {
+    const record: SaleDraftRecord = {
+      id: `row-${input.draftKey}`,
+      kind: input.kind,
+      draftKey: input.draftKey,
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+      ticketChannelId: input.ticketChannelId ?? null,
+      controlChatId: input.controlChatId ?? null,
+      state: structuredClone(input.state),
+      version: 1,
+      expiresAt: input.expiresAt,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    rows.set(input.draftKey, record);
+    return record;
+  });
+  vi.spyOn(SaleDraftRepository.prototype, 'getDraft').mockImplementation(async (input) => {
+    const record = rows.get(input.draftKey);
+    if (!record || !isLive(record)) {
+      rows.delete(input.draftKey);
+      return null;
+    }
+
+    record.expiresAt = input.refreshExpiresAt ?? record.expiresAt;
+    return { ...record, state: structuredClone(record.state) };
+  });
+  vi.spyOn(SaleDraftRepository.prototype, 'listDrafts').mockImplementation(async (input) =>
+    [...rows.values()]
+      .filter(
+        (record) =>
+          isLive(record) &&
+          (input.ticketChannelId === undefined || record.ticketChannelId === input.ticketChannelId) &&
+          (input.controlChatId === undefined || record.controlChatId === input.controlChatId),
+      )
+      .map((record) => ({ ...record, state: structuredClone(record.state) })),
+  );
+  vi.spyOn(SaleDraftRepository.prototype, 'updateDraft').mockImplementation(async (input) => {
+    const record = rows.get(input.draftKey);
+    if (!record || record.version !== input.expectedVersion) {
+      return null;
+    }
+
+    record.ticketChannelId = input.ticketChannelId ?? null;
+    record.controlChatId = input.controlChatId ?? null;
+    record.state = structuredClone(input.state);
+    record.version += 1;
+    record.expiresAt = input.expiresAt;
+    return record.version;
+  });
+  vi.spyOn(SaleDraftRepository.prototype, 'deleteDraft').mockImplementation(async (input) => {
+    rows.delete(input.draftKey);
+  });
+  vi.spyOn(SaleDraftRepository.prototype, 'deleteDraftsForTicketChannel').mockImplementation(
+    async (input) => {
+      for (const [draftKey, record] of rows.entries()) {
+        if (record.ticketChannelId === input.ticketChannelId) {
+          rows.delete(draftKey);
+        }
+      }
+    },
+  );
+
+  return rows;
+}
+
 describe('telegram sale draft store', () => {
   beforeEach(() => {
     vi.useFakeTimers();
     vi.setSystemTime(new Date('2026-03-18T17:00:00.000Z'));
+    mockSaleDraftRepository();
   });
 
   afterEach(() => {
     vi.useRealTimers();
+    vi.restoreAllMocks();
   });
 
-  it('keeps Telegram DM drafts alive for six hours and refreshes them on read', () => {
-    const draft = createSaleDraft({
+  it('keeps Telegram DM drafts alive for six hours and refreshes them on read', async () => {
+    const draft = await createSaleDraft({
       tenantId: 'tenant-1',
       guildId: 'guild-1',
       ticketChannelId: 'tg:-100123',
@@ -35,16 +109,16 @@ describe('telegram sale draft store', () => {
     expect(draft.expiresAt).toBe(Date.now() + SALE_DRAFT_TTL_MS);
 
     vi.advanceTimersByTime(2 * 60 * 60 * 1000);
-    const refreshed = getSaleDraft(draft.id);
+    const refreshed = await getSaleDraft(draft.id);
 
     expect(refreshed).not.toBeNull();
     expect(refreshed?.expiresAt).toBe(Date.now() + SALE_DRAFT_TTL_MS);
 
-    removeSaleDraft(draft.id);
+    await removeSaleDraft(draft.id);
   });
 
-  it('tracks DM control chats separately from the group status chat', () => {
-    const draft = createSaleDraft({
+  it('tracks DM control chats separately from the group status chat', async () => {
+    const draft = await createSaleDraft({
       tenantId: 'tenant-1',
       guildId: 'guild-1',
       ticketChannelId: 'tg:-100123',
@@ -57,16 +131,16 @@ describe('telegram sale draft store', () => {
 
     draft.controlChatId = 'tg:222';
     draft.controlMessageId = 55;
-    updateSaleDraft(draft);
+    await updateSaleDraft(draft);
 
-    expect(listSaleDraftsForControlChat('tg:222')).toHaveLength(1);
+    expect(await listSaleDraftsForControlChat('tg:222')).toHaveLength(1);
 
-    clearSaleDraftsForChat('tg:-100123');
-    expect(listSaleDraftsForControlChat('tg:222')).toHaveLength(0);
+    await clearSaleDraftsForChat('tg:-100123');
+    expect(await listSaleDraftsForControlChat('tg:222')).toHaveLength(0);
   });
 
-  it('expires Telegram sale drafts only after the full ttl window', () => {
-    const draft = createSaleDraft({
+  it('expires Telegram sale drafts only after the full ttl window', async () => {
+    const draft = await createSaleDraft({
       tenantId: 'tenant-1',
       guildId: 'guild-1',
       ticketChannelId: 'tg:-100123',
@@ -79,6 +153,6 @@ describe('telegram sale draft store', () => {
 
     vi.advanceTimersByTime(SALE_DRAFT_TTL_MS + 1);
 
-    expect(getSaleDraft(draft.id)).toBeNull();
+    expect(await getSaleDraft(draft.id)).toBeNull();
   });
 });
@@ -1,10 +1,23 @@
 import crypto from 'node:crypto';
 
+import {
+  AppError,
+  DEFAULT_CURRENCY,
+  SaleDraftRepository,
+  type AutomaticDiscountLine,
+  type SaleDraftRecord,
+} from '@voodoo/core';
+
 export type SaleDraftVariantOption = {
   variantId: string;
   label: string;
   priceMinor: number;
   currency: string;
+  /** Units left to sell; `null` or missing when the variant does not track stock. */
+  stockAvailable?: number | null;
+  /** Missing on drafts saved before quantity limits existed, which allows 1 up to the global line limit. */
+  minQuantity?: number;
+  maxQuantity?: number | null;
 };
 
 export type SaleDraftBasketItem = {
@@ -13,8 +26,12 @@ export type SaleDraftBasketItem = {
   category: string;
   variantId: string;
   variantLabel: string;
+  /** Unit price for one of `quantity`. */
   priceMinor: number;
   currency: string;
+  quantity: number;
+  /** Volume price and automatic discount savings on this line, set by `previewBasketPricing`. */
+  automaticDiscountMinor?: number;
 };
 
 export type SaleDraftFormField = {
@@ -28,6 +45,7 @@ export type SaleDraftFormField = {
 export type SaleDraftPendingInput =
   | { type: 'coupon' }
   | { type: 'tip' }
+  | { type: 'quantity' }
   | { type: 'answer'; fieldIndex: number }
   | null;
 
@@ -49,6 +67,8 @@ export type SaleDraft = {
   variantId: string | null;
   variantOptions: SaleDraftVariantOption[];
   basketItems: SaleDraftBasketItem[];
+  /** Missing on drafts saved before automatic discounts existed. */
+  automaticDiscounts?: AutomaticDiscountLine[];
   couponCode: string | null;
   couponDiscountMinor: number;
   tipMinor: number;
@@ -65,10 +85,12 @@ export type SaleDraft = {
   pointsDiscountMinorIfUsed: number;
   pointValueMinor: number;
   pendingInput: SaleDraftPendingInput;
+  version: number;
   expiresAt: number;
 };
 
-const draftStore = new Map<string, SaleDraft>();
+const SALE_DRAFT_KIND = 'telegram_sale';
+const saleDraftRepository = new SaleDraftRepository();
 
 export const SALE_DRAFT_TTL_MS = 6 * 60 * 60 * 1000;
 
@@ -76,14 +98,25 @@ function createDraftId(): string {
   return crypto.randomBytes(8).toString('hex');
 }
 
-function refreshDraftExpiry(draft: SaleDraft): SaleDraft {
+function getRefreshedExpiry(): Date {
+  return new Date(Date.now() + SALE_DRAFT_TTL_MS);
+}
+
+function toDraftState(draft: SaleDraft): Record<string, unknown> {
+  const { id: _id, version: _version, expiresAt: _expiresAt, ...state } = draft;
+  return state;
+}
+
+function fromDraftRecord(record: SaleDraftRecord): SaleDraft {
   return {
-    ...draft,
-    expiresAt: Date.now() + SALE_DRAFT_TTL_MS,
+    ...(record.state as Omit<SaleDraft, 'id' | 'version' | 'expiresAt'>),
+    id: record.draftKey,
+    version: record.version,
+    expiresAt: record.expiresAt.getTime(),
   };
 }
 
-export function createSaleDraft(input: {
+export async function createSaleDraft(input: {
   tenantId: string;
   guildId: string;
   ticketChannelId: string;
@@ -93,7 +126,7 @@ export function createSaleDraft(input: {
   customerTelegramUsernameNormalized?: string | null;
   tipEnabled?: boolean;
   defaultCurrency?: string;
-}): SaleDraft {
+}): Promise<SaleDraft> {
   const draft: SaleDraft = {
     id: createDraftId(),
     tenantId: input.tenantId,
@@ -112,11 +145,12 @@ export function createSaleDraft(input: {
     variantId: null,
     variantOptions: [],
     basketItems: [],
+    automaticDiscounts: [],
     couponCode: null,
     couponDiscountMinor: 0,
     tipMinor: 0,
     tipEnabled: input.tipEnabled ?? false,
-    defaultCurrency: input.defaultCurrency ?? 'GBP',
+    defaultCurrency: input.defaultCurrency ?? DEFAULT_CURRENCY,
     formFields: [],
     answers: {},
     customerEmailNormalized: null,
@@ -128,83 +162,84 @@ export function createSaleDraft(input: {
     pointsDiscountMinorIfUsed: 0,
     pointValueMinor: 1,
     pendingInput: null,
+    version: 1,
     expiresAt: Date.now() + SALE_DRAFT_TTL_MS,
   };
 
-  draftStore.set(draft.id, draft);
+  await saleDraftRepository.createDraft({
+    kind: SALE_DRAFT_KIND,
+    draftKey: draft.id,
+    tenantId: draft.tenantId,
+    guildId: draft.guildId,
+    ticketChannelId: draft.ticketChannelId,
+    controlChatId: draft.controlChatId,
+    state: toDraftState(draft),
+    expiresAt: new Date(draft.expiresAt),
+  });
   return draft;
 }
 
-export function clearSaleDraftsForChat(ticketChannelId: string): void {
-  for (const [draftId, draft] of draftStore.entries()) {
-    if (draft.ticketChannelId === ticketChannelId) {
-      draftStore.delete(draftId);
-    }
-  }
+export async function clearSaleDraftsForChat(ticketChannelId: string): Promise<void> {
+  await saleDraftRepository.deleteDraftsForTicketChannel({ kind: SALE_DRAFT_KIND, ticketChannelId });
 }
 
-export function getSaleDraft(draftId: string): SaleDraft | null {
-  const draft = draftStore.get(draftId);
-  if (!draft) {
-    return null;
-  }
-
-  if (draft.expiresAt < Date.now()) {
-    draftStore.delete(draftId);
-    return null;
-  }
+export async function getSaleDraft(draftId: string): Promise<SaleDraft | null> {
+  const record = await saleDraftRepository.getDraft({
+    kind: SALE_DRAFT_KIND,
+    draftKey: draftId,
+    refreshExpiresAt: getRefreshedExpiry(),
+  });
 
-  const refreshedDraft = refreshDraftExpiry(draft);
-  draftStore.set(draftId, refreshedDraft);
-  return refreshedDraft;
+  return record ? fromDraftRecord(record) : null;
 }
 
-export function listSaleDraftsForChat(ticketChannelId: string): SaleDraft[] {
-  const drafts: SaleDraft[] = [];
+export async function listSaleDraftsForChat(ticketChannelId: string): Promise<SaleDraft[]> {
+  const records = await saleDraftRepository.listDrafts({
+    kind: SALE_DRAFT_KIND,
+    ticketChannelId,
+    refreshExpiresAt: getRefreshedExpiry(),
+  });
 
-  for (const [draftId, draft] of draftStore.entries()) {
-    if (draft.expiresAt < Date.now()) {
-      draftStore.delete(draftId);
-      continue;
-    }
-
-    if (draft.ticketChannelId === ticketChannelId) {
-      drafts.push(refreshDraftExpiry(draft));
-    }
-  }
-
-  for (const draft of drafts) {
-    draftStore.set(draft.id, draft);
-  }
-
-  return drafts;
+  return records.map(fromDraftRecord);
 }
 
-export function listSaleDraftsForControlChat(controlChatId: string): SaleDraft[] {
-  const drafts: SaleDraft[] = [];
+export async function listSaleDraftsForControlChat(controlChatId: string): Promise<SaleDraft[]> {
+  const records = await saleDraftRepository.listDrafts({
+    kind: SALE_DRAFT_KIND,
+    controlChatId,
+    refreshExpiresAt: getRefreshedExpiry(),
+  });
 
-  for (const [draftId, draft] of draftStore.entries()) {
-    if (draft.expiresAt < Date.now()) {
-      draftStore.delete(draftId);
-      continue;
-    }
-
-    if (draft.controlChatId === controlChatId) {
-      drafts.push(refreshDraftExpiry(draft));
-    }
-  }
+  return records.map(fromDraftRecord);
+}
 
-  for (const draft of drafts) {
-    draftStore.set(draft.id, draft);
+/**
+ * Saves the draft against the version it was read at. Throws `SALE_DRAFT_CONFLICT` when another
+ * update (possibly on another replica) saved it first, so the stale tap is rejected.
+ */
+export async function updateSaleDraft(draft: SaleDraft): Promise<void> {
+  const expiresAt = getRefreshedExpiry();
+  const version = await saleDraftRepository.updateDraft({
+    kind: SALE_DRAFT_KIND,
+    draftKey: draft.id,
+    expectedVersion: draft.version,
+    ticketChannelId: draft.ticketChannelId,
+    controlChatId: draft.controlChatId,
+    state: toDraftState(draft),
+    expiresAt,
+  });
+  if (version === null) {
+    throw new AppError(
+      'SALE_DRAFT_CONFLICT',
+      'This sale was changed by another action. Use the latest sale message to continue.',
+      409,
+    );
   }
 
-  return drafts;
-}
-
-export function updateSaleDraft(draft: SaleDraft): void {
-  draftStore.set(draft.id, refreshDraftExpiry(draft));
+  draft.version = version;
+  draft.expiresAt = expiresAt.getTime();
 }
 
-export function removeSaleDraft(draftId: string): void {
-  draftStore.delete(draftId);
+export async function removeSaleDraft(draftId: string): Promise<void> {
+  await saleDraftRepository.deleteDraft({ kind: SALE_DRAFT_KIND, draftKey: draftId });
 }
@@ -1,7 +1,8 @@
-import { getEnv, logger } from '@voodoo/core';
+import { AppError, getEnv, logger } from '@voodoo/core';
 import { Bot } from 'grammy';
 
 import { handleConnectCommand } from './commands/connect.js';
+import { handleManualPaymentCallback, handlePendingManualPaymentMessage } from './commands/manual-payment.js';
 import { handlePaidOrderFulfillmentCallback } from './commands/paid-order-fulfillment.js';
 import {
   handlePointsCommand,
@@ -28,7 +29,13 @@ if (!env.TELEGRAM_BOT_TOKEN.trim()) {
 
 const bot = new Bot(env.TELEGRAM_BOT_TOKEN.trim());
 
-bot.catch((error) => {
+bot.catch(async (error) => {
+  if (error.error instanceof AppError && error.error.code === 'SALE_DRAFT_CONFLICT') {
+    logger.info({ update: error.ctx.update }, 'stale sale draft update rejected');
+    await error.ctx.reply(error.error.message).catch(() => undefined);
+    return;
+  }
+
   logger.error({ err: error.error, update: error.ctx.update }, 'telegram-worker update failed');
 });
 
@@ -74,12 +81,14 @@ bot.command('refer', async (ctx) => {
 bot.on('callback_query:data', async (ctx) => {
   if (await handleSaleCallbackQuery(ctx)) return;
   if (await handlePaidOrderFulfillmentCallback(ctx)) return;
+  if (await handleManualPaymentCallback(ctx)) return;
   await ctx.answerCallbackQuery({ text: 'Unknown action.', show_alert: true });
 });
 
 bot.on('message:text', async (ctx) => {
   if (ctx.message.text.trim().startsWith('/')) return;
   if (await handleSaleTextMessage(ctx)) return;
+  if (await handlePendingManualPaymentMessage(ctx)) return;
   if (await handlePendingReferMessage(ctx)) return;
   await handlePendingPointsMessage(ctx);
 });
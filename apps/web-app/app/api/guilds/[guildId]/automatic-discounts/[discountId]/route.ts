@@ -0,0 +1,72 @@
+import { AutomaticDiscountService } from '@voodoo/core';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { jsonError, readJson, requireSession } from '@/lib/http';
+
+const automaticDiscountService = new AutomaticDiscountService();
+
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ guildId: string; discountId: string }> },
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(request);
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const { guildId, discountId } = await context.params;
+    const body = await readJson<{
+      tenantId: string;
+      discount: unknown;
+    }>(request);
+
+    const result = await automaticDiscountService.updateAutomaticDiscount(auth.session, {
+      tenantId: body.tenantId,
+      guildId,
+      discountId,
+      discount: body.discount,
+    });
+
+    if (result.isErr()) {
+      return NextResponse.json({ error: result.error.message, code: result.error.code }, { status: result.error.statusCode });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ guildId: string; discountId: string }> },
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(request);
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const { guildId, discountId } = await context.params;
+    const tenantId = request.nextUrl.searchParams.get('tenantId');
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Missing tenantId query parameter' }, { status: 400 });
+    }
+
+    const result = await automaticDiscountService.deleteAutomaticDiscount(auth.session, {
+      tenantId,
+      guildId,
+      discountId,
+    });
+
+    if (result.isErr()) {
+      return NextResponse.json({ error: result.error.message, code: result.error.code }, { status: result.error.statusCode });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -7,7 +7,7 @@ import type { SalesHistoryAutoClearFrequency } from '@/lib/dashboard-types';
 
 const tenantService = new TenantService();
 const DEFAULT_REFERRAL_THANK_YOU_TEMPLATE =
-  'Thanks for your referral. You earned {points} point(s) ({amount_gbp} GBP) after {referred_email} paid.';
+  'Thanks for your referral. You earned {points} point(s) ({amount} {currency}) after {referred_email} paid.';
 const DEFAULT_REFERRAL_SUBMISSION_TEMPLATE =
   'Referral submitted successfully. We will reward points automatically after the first paid order.';
 
@@ -56,6 +56,7 @@ export async function PATCH(
     const body = await readJson<{
       tenantId: string;
       paidLogChannelId: string | null;
+      lowStockAlertChannelId?: string | null;
       staffRoleIds: string[];
       defaultCurrency: string;
       couponsEnabled?: boolean;
@@ -63,6 +64,14 @@ export async function PATCH(
       referralsEnabled?: boolean;
       telegramEnabled?: boolean;
       tipEnabled?: boolean;
+      checkoutExpiryMinutes?: number;
+      subscriptionReminderDays?: number;
+      subscriptionGraceDays?: number;
+      invoiceStoreName?: string;
+      invoiceStoreDetails?: string;
+      invoiceTaxRateBps?: number;
+      manualPaymentInstructions?: string;
+      selfServiceEnabled?: boolean;
       pointsEarnCategoryKeys?: string[];
       pointsRedeemCategoryKeys?: string[];
       pointValueMinor?: number;
@@ -90,6 +99,7 @@ export async function PATCH(
       tenantId: body.tenantId,
       guildId,
       paidLogChannelId: body.paidLogChannelId,
+      lowStockAlertChannelId: body.lowStockAlertChannelId,
       staffRoleIds: body.staffRoleIds,
       defaultCurrency: body.defaultCurrency,
       couponsEnabled: body.couponsEnabled ?? true,
@@ -97,6 +107,14 @@ export async function PATCH(
       referralsEnabled: body.referralsEnabled ?? true,
       telegramEnabled: body.telegramEnabled ?? false,
       tipEnabled: body.tipEnabled ?? false,
+      checkoutExpiryMinutes: body.checkoutExpiryMinutes,
+      subscriptionReminderDays: body.subscriptionReminderDays,
+      subscriptionGraceDays: body.subscriptionGraceDays,
+      invoiceStoreName: body.invoiceStoreName?.trim(),
+      invoiceStoreDetails: body.invoiceStoreDetails?.trim(),
+      invoiceTaxRateBps: body.invoiceTaxRateBps,
+      manualPaymentInstructions: body.manualPaymentInstructions?.trim(),
+      selfServiceEnabled: body.selfServiceEnabled,
       pointsEarnCategoryKeys: body.pointsEarnCategoryKeys ?? [],
       pointsRedeemCategoryKeys: body.pointsRedeemCategoryKeys ?? [],
       pointValueMinor: Math.max(1, body.pointValueMinor ?? 1),
@@ -0,0 +1,39 @@
+import { ExchangeRateService } from '@voodoo/core';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { jsonError, requireSession } from '@/lib/http';
+
+const exchangeRateService = new ExchangeRateService();
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ guildId: string; rateId: string }> },
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(request);
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const { guildId, rateId } = await context.params;
+    const tenantId = request.nextUrl.searchParams.get('tenantId');
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Missing tenantId query parameter' }, { status: 400 });
+    }
+
+    const result = await exchangeRateService.deleteRate(auth.session, {
+      tenantId,
+      guildId,
+      rateId,
+    });
+
+    if (result.isErr()) {
+      return NextResponse.json({ error: result.error.message, code: result.error.code }, { status: result.error.statusCode });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
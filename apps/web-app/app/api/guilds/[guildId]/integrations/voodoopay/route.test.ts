@@ -74,6 +74,7 @@ describe('voodoo pay integration route', () => {
           checkoutDomain: 'merchant.example.com',
           cryptoGatewayEnabled: false,
           cryptoAddFees: false,
+          cryptoUnderpaymentTolerancePercent: 2,
           cryptoWallets: {},
         }),
       }),
@@ -90,6 +91,7 @@ describe('voodoo pay integration route', () => {
       expect.objectContaining({
         payload: expect.objectContaining({
           checkoutDomain: 'checkout.voodoo-pay.uk',
+          cryptoUnderpaymentTolerancePercent: 2,
         }),
       }),
     );
@@ -113,6 +113,7 @@ export async function GET(
         merchantWalletAddress: result.value.merchantWalletAddress,
         cryptoGatewayEnabled: result.value.cryptoGatewayEnabled,
         cryptoAddFees: result.value.cryptoAddFees,
+        cryptoUnderpaymentTolerancePercent: result.value.cryptoUnderpaymentTolerancePercent,
         cryptoWallets: {
           evm: result.value.cryptoWallets.evm ?? '',
           btc: result.value.cryptoWallets.btc ?? '',
@@ -150,6 +151,7 @@ export async function PUT(
       callbackSecret?: string;
       cryptoGatewayEnabled?: boolean;
       cryptoAddFees?: boolean;
+      cryptoUnderpaymentTolerancePercent?: number;
       cryptoWallets?: {
         evm?: string | null;
         btc?: string | null;
@@ -192,6 +194,9 @@ export async function PUT(
         callbackSecret: body.callbackSecret,
         cryptoGatewayEnabled: body.cryptoGatewayEnabled ?? (existing.isOk() ? existing.value.cryptoGatewayEnabled : false),
         cryptoAddFees: body.cryptoAddFees ?? (existing.isOk() ? existing.value.cryptoAddFees : false),
+        cryptoUnderpaymentTolerancePercent:
+          body.cryptoUnderpaymentTolerancePercent ??
+          (existing.isOk() ? existing.value.cryptoUnderpaymentTolerancePercent : undefined),
         cryptoWallets: body.cryptoWallets ? requestWallets : existingWallets,
       },
     });
@@ -0,0 +1,117 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { applySync, previewSync } = vi.hoisted(() => ({
+  applySync: vi.fn(),
+  previewSync: vi.fn(),
+}));
+
+const requireSession = vi.hoisted(() => vi.fn());
+const readJson = vi.hoisted(() => vi.fn(async (request: NextRequest) => request.json()));
+
+vi.mock('@voodoo/core', () => ({
+  WooCatalogService: class {
+    public applySync = applySync;
+    public previewSync = previewSync;
+  },
+}));
+
+vi.mock('@/lib/http', () => ({
+  requireSession,
+  readJson,
+  jsonError: vi.fn((error: unknown) => {
+    throw error;
+  }),
+}));
+
+import { GET, POST } from './route';
+
+const plan = {
+  currency: 'GBP',
+  products: [],
+  skipped: [],
+  summary: { create: 0, update: 0, unchanged: 0, skipped: 0 },
+  fingerprint: 'plan-hash',
+};
+
+describe('woocommerce catalog route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireSession.mockResolvedValue({
+      ok: true,
+      session: {
+        userId: 'user-1',
+        discordUserId: 'discord-user-1',
+        isSuperAdmin: false,
+        tenantIds: ['tenant-1'],
+        exp: Math.floor(Date.now() / 1000) + 3600,
+      },
+    });
+    readJson.mockImplementation(async (request: NextRequest) => request.json());
+  });
+
+  it('previews the sync for the requested tenant', async () => {
+    previewSync.mockResolvedValue({ isErr: () => false, isOk: () => true, value: plan });
+
+    const response = await GET(
+      new NextRequest('https://voodoopaybot.online/api/guilds/guild-1/integrations/woocommerce/catalog?tenantId=tenant-1'),
+      { params: Promise.resolve({ guildId: 'guild-1' }) },
+    );
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ plan });
+    expect(previewSync).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user-1' }), {
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+    });
+  });
+
+  it('requires a tenant id for the preview', async () => {
+    const response = await GET(
+      new NextRequest('https://voodoopaybot.online/api/guilds/guild-1/integrations/woocommerce/catalog'),
+      { params: Promise.resolve({ guildId: 'guild-1' }) },
+    );
+
+    expect(response.status).toBe(400);
+    expect(previewSync).not.toHaveBeenCalled();
+  });
+
+  it('applies the sync and passes service errors through', async () => {
+    applySync.mockResolvedValue({
+      isErr: () => true,
+      isOk: () => false,
+      error: { message: 'Woo integration is not configured', code: 'WOO_INTEGRATION_NOT_CONFIGURED', statusCode: 404 },
+    });
+
+    const response = await POST(
+      new NextRequest('https://voodoopaybot.online/api/guilds/guild-1/integrations/woocommerce/catalog', {
+        method: 'POST',
+        body: JSON.stringify({ tenantId: 'tenant-1', planFingerprint: 'plan-hash' }),
+        headers: { 'content-type': 'application/json' },
+      }),
+      { params: Promise.resolve({ guildId: 'guild-1' }) },
+    );
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toMatchObject({ code: 'WOO_INTEGRATION_NOT_CONFIGURED' });
+    expect(applySync).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user-1' }), {
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      planFingerprint: 'plan-hash',
+    });
+  });
+
+  it('requires the fingerprint of the previewed plan to apply the sync', async () => {
+    const response = await POST(
+      new NextRequest('https://voodoopaybot.online/api/guilds/guild-1/integrations/woocommerce/catalog', {
+        method: 'POST',
+        body: JSON.stringify({ tenantId: 'tenant-1' }),
+        headers: { 'content-type': 'application/json' },
+      }),
+      { params: Promise.resolve({ guildId: 'guild-1' }) },
+    );
+
+    expect(response.status).toBe(400);
+    expect(applySync).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,71 @@
+import { WooCatalogService } from '@voodoo/core';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { jsonError, readJson, requireSession } from '@/lib/http';
+
+const wooCatalogService = new WooCatalogService();
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ guildId: string }> },
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(request);
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const tenantId = request.nextUrl.searchParams.get('tenantId');
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Missing tenantId query parameter' }, { status: 400 });
+    }
+
+    const { guildId } = await context.params;
+    const result = await wooCatalogService.previewSync(auth.session, { tenantId, guildId });
+    if (result.isErr()) {
+      return NextResponse.json(
+        { error: result.error.message, code: result.error.code },
+        { status: result.error.statusCode },
+      );
+    }
+
+    return NextResponse.json({ plan: result.value });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ guildId: string }> },
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(request);
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const { guildId } = await context.params;
+    const body = await readJson<{ tenantId: string; planFingerprint?: string }>(request);
+    if (!body.planFingerprint) {
+      return NextResponse.json({ error: 'planFingerprint is required' }, { status: 400 });
+    }
+
+    const result = await wooCatalogService.applySync(auth.session, {
+      tenantId: body.tenantId,
+      guildId,
+      planFingerprint: body.planFingerprint,
+    });
+    if (result.isErr()) {
+      return NextResponse.json(
+        { error: result.error.message, code: result.error.code },
+        { status: result.error.statusCode },
+      );
+    }
+
+    return NextResponse.json({ plan: result.value });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,72 @@
+import { OutboundWebhookService } from '@voodoo/core';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { jsonError, readJson, requireSession } from '@/lib/http';
+
+const outboundWebhookService = new OutboundWebhookService();
+
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ guildId: string; endpointId: string }> },
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(request);
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const { guildId, endpointId } = await context.params;
+    const body = await readJson<{
+      tenantId: string;
+      endpoint: unknown;
+    }>(request);
+
+    const result = await outboundWebhookService.updateEndpoint(auth.session, {
+      tenantId: body.tenantId,
+      guildId,
+      endpointId,
+      endpoint: body.endpoint,
+    });
+
+    if (result.isErr()) {
+      return NextResponse.json({ error: result.error.message, code: result.error.code }, { status: result.error.statusCode });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ guildId: string; endpointId: string }> },
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(request);
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const { guildId, endpointId } = await context.params;
+    const tenantId = request.nextUrl.searchParams.get('tenantId');
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Missing tenantId query parameter' }, { status: 400 });
+    }
+
+    const result = await outboundWebhookService.deleteEndpoint(auth.session, {
+      tenantId,
+      guildId,
+      endpointId,
+    });
+
+    if (result.isErr()) {
+      return NextResponse.json({ error: result.error.message, code: result.error.code }, { status: result.error.statusCode });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { sendTestEvent } = vi.hoisted(() => ({
+  sendTestEvent: vi.fn(),
+}));
+
+const requireSession = vi.hoisted(() => vi.fn());
+
+vi.mock('@voodoo/core', () => ({
+  OutboundWebhookService: class {
+    public sendTestEvent = sendTestEvent;
+  },
+}));
+
+vi.mock('@/lib/http', () => ({
+  requireSession,
+  readJson: vi.fn(async (request: NextRequest) => request.json()),
+  jsonError: vi.fn((error: unknown) => {
+    throw error;
+  }),
+}));
+
+import { POST } from './route';
+
+function buildTestEventRequest(): NextRequest {
+  return new NextRequest('https://voodoopaybot.online/api/guilds/guild-1/outbound-webhooks/endpoint-1/test', {
+    method: 'POST',
+    body: JSON.stringify({ tenantId: 'tenant-1' }),
+    headers: {
+      'content-type': 'application/json',
+    },
+  });
+}
+
+describe('outbound webhook test event route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireSession.mockResolvedValue({
+      ok: true,
+      session: {
+        userId: 'user-1',
+        discordUserId: 'discord-user-1',
+        isSuperAdmin: false,
+        tenantIds: ['tenant-1'],
+        exp: Math.floor(Date.now() / 1000) + 3600,
+      },
+    });
+  });
+
+  it('sends a test event to the endpoint in the path and returns the delivery', async () => {
+    sendTestEvent.mockResolvedValue({
+      isErr: () => false,
+      isOk: () => true,
+      value: { id: 'delivery-1', eventType: 'webhook.test', status: 'delivered', responseStatus: 200 },
+    });
+
+    const response = await POST(buildTestEventRequest(), {
+      params: Promise.resolve({ guildId: 'guild-1', endpointId: 'endpoint-1' }),
+    });
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      delivery: { id: 'delivery-1', eventType: 'webhook.test', status: 'delivered', responseStatus: 200 },
+    });
+    expect(sendTestEvent).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user-1' }), {
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      endpointId: 'endpoint-1',
+    });
+  });
+
+  it('returns the service error status when the endpoint does not exist', async () => {
+    sendTestEvent.mockResolvedValue({
+      isErr: () => true,
+      isOk: () => false,
+      error: { message: 'Webhook endpoint not found', statusCode: 404 },
+    });
+
+    const response = await POST(buildTestEventRequest(), {
+      params: Promise.resolve({ guildId: 'guild-1', endpointId: 'endpoint-1' }),
+    });
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toEqual({ error: 'Webhook endpoint not found' });
+  });
+});
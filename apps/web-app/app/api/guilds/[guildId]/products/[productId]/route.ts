@@ -63,7 +63,7 @@ export async function DELETE(
       return NextResponse.json({ error: result.error.message }, { status: result.error.statusCode });
     }
 
-    return NextResponse.json({ ok: true });
+    return NextResponse.json({ ok: true, archived: result.value.archived });
   } catch (error) {
     return jsonError(error);
   }
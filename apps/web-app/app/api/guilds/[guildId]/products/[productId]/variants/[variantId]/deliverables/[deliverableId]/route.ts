@@ -0,0 +1,43 @@
+import { DeliverableService } from '@voodoo/core';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { jsonError, requireSession } from '@/lib/http';
+
+const deliverableService = new DeliverableService();
+
+export async function DELETE(
+  request: NextRequest,
+  context: {
+    params: Promise<{ guildId: string; productId: string; variantId: string; deliverableId: string }>;
+  },
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(request);
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const tenantId = request.nextUrl.searchParams.get('tenantId');
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Missing tenantId query parameter' }, { status: 400 });
+    }
+
+    const { guildId, productId, variantId, deliverableId } = await context.params;
+    const result = await deliverableService.deleteDeliverable(auth.session, {
+      tenantId,
+      guildId,
+      productId,
+      variantId,
+      deliverableId,
+    });
+
+    if (result.isErr()) {
+      return NextResponse.json({ error: result.error.message }, { status: result.error.statusCode });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,70 @@
+import { DeliverableService } from '@voodoo/core';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { jsonError, readJson, requireSession } from '@/lib/http';
+
+const deliverableService = new DeliverableService();
+
+type RouteContext = {
+  params: Promise<{ guildId: string; productId: string; variantId: string }>;
+};
+
+export async function GET(request: NextRequest, context: RouteContext): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(request);
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const tenantId = request.nextUrl.searchParams.get('tenantId');
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Missing tenantId query parameter' }, { status: 400 });
+    }
+
+    const { guildId, productId, variantId } = await context.params;
+    const result = await deliverableService.listDeliverables(auth.session, {
+      tenantId,
+      guildId,
+      productId,
+      variantId,
+    });
+
+    if (result.isErr()) {
+      return NextResponse.json({ error: result.error.message }, { status: result.error.statusCode });
+    }
+
+    return NextResponse.json(result.value);
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function POST(request: NextRequest, context: RouteContext): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(request);
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const { guildId, productId, variantId } = await context.params;
+    const body = await readJson<{ tenantId: string; entries?: unknown; csv?: unknown }>(request);
+
+    const result = await deliverableService.addDeliverables(auth.session, {
+      tenantId: body.tenantId,
+      guildId,
+      productId,
+      variantId,
+      entries: body.entries,
+      csv: body.csv,
+    });
+
+    if (result.isErr()) {
+      return NextResponse.json({ error: result.error.message }, { status: result.error.statusCode });
+    }
+
+    return NextResponse.json(result.value, { status: 201 });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { replayEvent } = vi.hoisted(() => ({
+  replayEvent: vi.fn(),
+}));
+
+const requireSession = vi.hoisted(() => vi.fn());
+
+vi.mock('@voodoo/core', () => ({
+  WebhookEventService: class {
+    public replayEvent = replayEvent;
+  },
+}));
+
+vi.mock('@/lib/http', () => ({
+  requireSession,
+  readJson: vi.fn(async (request: NextRequest) => request.json()),
+  jsonError: vi.fn((error: unknown) => {
+    throw error;
+  }),
+}));
+
+import { POST } from './route';
+
+function buildReplayRequest(): NextRequest {
+  return new NextRequest('https://voodoopaybot.online/api/guilds/guild-1/webhook-events/event-1/replay', {
+    method: 'POST',
+    body: JSON.stringify({ tenantId: 'tenant-1' }),
+    headers: {
+      'content-type': 'application/json',
+    },
+  });
+}
+
+describe('webhook event replay route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireSession.mockResolvedValue({
+      ok: true,
+      session: {
+        userId: 'user-1',
+        discordUserId: 'discord-user-1',
+        isSuperAdmin: false,
+        tenantIds: ['tenant-1'],
+        exp: Math.floor(Date.now() / 1000) + 3600,
+      },
+    });
+  });
+
+  it('replays the event for the tenant, guild and event in the path', async () => {
+    replayEvent.mockResolvedValue({
+      isErr: () => false,
+      isOk: () => true,
+      value: { status: 'processed' },
+    });
+
+    const response = await POST(buildReplayRequest(), {
+      params: Promise.resolve({ guildId: 'guild-1', webhookEventId: 'event-1' }),
+    });
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ status: 'processed' });
+    expect(replayEvent).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user-1' }), {
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      webhookEventId: 'event-1',
+    });
+  });
+
+  it('returns the service error status when the member is not an admin', async () => {
+    replayEvent.mockResolvedValue({
+      isErr: () => true,
+      isOk: () => false,
+      error: { message: 'Insufficient tenant role', statusCode: 403 },
+    });
+
+    const response = await POST(buildReplayRequest(), {
+      params: Promise.resolve({ guildId: 'guild-1', webhookEventId: 'event-1' }),
+    });
+
+    expect(response.status).toBe(403);
+    await expect(response.json()).resolves.toEqual({ error: 'Insufficient tenant role' });
+  });
+});
@@ -0,0 +1,36 @@
+import { WebhookEventService } from '@voodoo/core';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { jsonError, readJson, requireSession } from '@/lib/http';
+
+const webhookEventService = new WebhookEventService();
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ guildId: string; webhookEventId: string }> },
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(request);
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const { guildId, webhookEventId } = await context.params;
+    const body = await readJson<{ tenantId: string }>(request);
+
+    const result = await webhookEventService.replayEvent(auth.session, {
+      tenantId: body.tenantId,
+      guildId,
+      webhookEventId,
+    });
+
+    if (result.isErr()) {
+      return NextResponse.json({ error: result.error.message }, { status: result.error.statusCode });
+    }
+
+    return NextResponse.json(result.value);
+  } catch (error) {
+    return jsonError(error);
+  }
+}
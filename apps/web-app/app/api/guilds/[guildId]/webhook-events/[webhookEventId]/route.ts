@@ -0,0 +1,39 @@
+import { WebhookEventService } from '@voodoo/core';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { jsonError, requireSession } from '@/lib/http';
+
+const webhookEventService = new WebhookEventService();
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ guildId: string; webhookEventId: string }> },
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(request);
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const tenantId = request.nextUrl.searchParams.get('tenantId');
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Missing tenantId query parameter' }, { status: 400 });
+    }
+
+    const { guildId, webhookEventId } = await context.params;
+    const result = await webhookEventService.getEvent(auth.session, {
+      tenantId,
+      guildId,
+      webhookEventId,
+    });
+
+    if (result.isErr()) {
+      return NextResponse.json({ error: result.error.message }, { status: result.error.statusCode });
+    }
+
+    return NextResponse.json({ event: result.value });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
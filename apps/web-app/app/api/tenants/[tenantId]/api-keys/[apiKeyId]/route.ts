@@ -0,0 +1,29 @@
+import { ApiKeyService } from '@voodoo/core';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { jsonError, requireSession } from '@/lib/http';
+
+const apiKeyService = new ApiKeyService();
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ tenantId: string; apiKeyId: string }> },
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(request);
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const { tenantId, apiKeyId } = await context.params;
+    const result = await apiKeyService.revokeKey(auth.session, { tenantId, apiKeyId });
+    if (result.isErr()) {
+      return NextResponse.json({ error: result.error.message }, { status: result.error.statusCode });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
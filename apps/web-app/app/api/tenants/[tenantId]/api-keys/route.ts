@@ -0,0 +1,52 @@
+import { ApiKeyService } from '@voodoo/core';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { jsonError, readJson, requireSession } from '@/lib/http';
+
+const apiKeyService = new ApiKeyService();
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ tenantId: string }> },
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(request);
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const { tenantId } = await context.params;
+    const result = await apiKeyService.listKeys(auth.session, { tenantId });
+    if (result.isErr()) {
+      return NextResponse.json({ error: result.error.message }, { status: result.error.statusCode });
+    }
+
+    return NextResponse.json({ apiKeys: result.value });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ tenantId: string }> },
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(request);
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const { tenantId } = await context.params;
+    const body = await readJson<{ apiKey: unknown }>(request);
+    const result = await apiKeyService.createKey(auth.session, { tenantId, apiKey: body.apiKey });
+    if (result.isErr()) {
+      return NextResponse.json({ error: result.error.message }, { status: result.error.statusCode });
+    }
+
+    return NextResponse.json(result.value, { status: 201 });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
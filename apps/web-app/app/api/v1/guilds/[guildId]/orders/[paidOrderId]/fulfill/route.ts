@@ -0,0 +1,37 @@
+import { PaidOrderService } from '@voodoo/core';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { jsonError, requireApiKey } from '@/lib/http';
+
+const paidOrderService = new PaidOrderService();
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ guildId: string; paidOrderId: string }> },
+): Promise<NextResponse> {
+  try {
+    const auth = await requireApiKey(request, 'orders:write');
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const { guildId, paidOrderId } = await context.params;
+    const result = await paidOrderService.markPaidOrderFulfilledForActor(auth.principal.actor, {
+      tenantId: auth.principal.tenantId,
+      guildId,
+      paidOrderId,
+    });
+
+    if (result.isErr()) {
+      return NextResponse.json(
+        { error: result.error.message, code: result.error.code },
+        { status: result.error.statusCode },
+      );
+    }
+
+    return NextResponse.json({ order: result.value });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
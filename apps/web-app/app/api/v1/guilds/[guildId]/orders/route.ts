@@ -0,0 +1,50 @@
+import {
+  DashboardService,
+  type DashboardSaleFilterRange,
+} from '@voodoo/core';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { jsonError, requireApiKey } from '@/lib/http';
+
+const dashboardService = new DashboardService();
+const ORDER_RANGES: DashboardSaleFilterRange[] = ['all', 'day', 'week', 'month', 'custom'];
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ guildId: string }> },
+): Promise<NextResponse> {
+  try {
+    const auth = await requireApiKey(request, 'orders:read');
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const rawRange = request.nextUrl.searchParams.get('range');
+    const range =
+      rawRange && ORDER_RANGES.includes(rawRange as DashboardSaleFilterRange)
+        ? (rawRange as DashboardSaleFilterRange)
+        : 'all';
+    const { guildId } = await context.params;
+    const result = await dashboardService.listGuildSales(auth.principal.actor, {
+      tenantId: auth.principal.tenantId,
+      guildId,
+      timeZone: request.nextUrl.searchParams.get('timeZone'),
+      range,
+      fromDate: request.nextUrl.searchParams.get('fromDate'),
+      toDate: request.nextUrl.searchParams.get('toDate'),
+      search: request.nextUrl.searchParams.get('search'),
+    });
+
+    if (result.isErr()) {
+      return NextResponse.json(
+        { error: result.error.message, code: result.error.code },
+        { status: result.error.statusCode },
+      );
+    }
+
+    return NextResponse.json({ orders: result.value });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,42 @@
+import { PointsService } from '@voodoo/core';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { jsonError, requireApiKey } from '@/lib/http';
+
+const pointsService = new PointsService();
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ guildId: string }> },
+): Promise<NextResponse> {
+  try {
+    const auth = await requireApiKey(request, 'points:read');
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const email = request.nextUrl.searchParams.get('email');
+    if (!email) {
+      return NextResponse.json({ error: 'Missing email query parameter' }, { status: 400 });
+    }
+
+    const { guildId } = await context.params;
+    const result = await pointsService.getBalanceForActor(auth.principal.actor, {
+      tenantId: auth.principal.tenantId,
+      guildId,
+      email,
+    });
+
+    if (result.isErr()) {
+      return NextResponse.json(
+        { error: result.error.message, code: result.error.code },
+        { status: result.error.statusCode },
+      );
+    }
+
+    return NextResponse.json({ customer: result.value });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { createProduct, listProducts } = vi.hoisted(() => ({
+  createProduct: vi.fn(),
+  listProducts: vi.fn(),
+}));
+
+const requireApiKey = vi.hoisted(() => vi.fn());
+const readJson = vi.hoisted(() => vi.fn(async (request: NextRequest) => request.json()));
+
+vi.mock('@voodoo/core', () => ({
+  ProductService: class {
+    public createProduct = createProduct;
+    public listProducts = listProducts;
+  },
+}));
+
+vi.mock('@/lib/http', () => ({
+  requireApiKey,
+  readJson,
+  jsonError: vi.fn((error: unknown) => {
+    throw error;
+  }),
+}));
+
+import { GET, POST } from './route';
+
+const actor = {
+  userId: 'user-1',
+  discordUserId: 'discord-user-1',
+  isSuperAdmin: false,
+  tenantIds: ['tenant-1'],
+  exp: Math.floor(Date.now() / 1000) + 60,
+};
+
+describe('v1 products route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requireApiKey.mockResolvedValue({
+      ok: true,
+      principal: {
+        apiKeyId: 'api-key-1',
+        tenantId: 'tenant-1',
+        scopes: ['products:read', 'products:write'],
+        actor,
+      },
+    });
+    readJson.mockImplementation(async (request: NextRequest) => request.json());
+  });
+
+  it('lists products for the key tenant as the key creator', async () => {
+    listProducts.mockResolvedValue({
+      isErr: () => false,
+      isOk: () => true,
+      value: [{ id: 'product-1' }],
+    });
+
+    const request = new NextRequest('https://voodoopaybot.online/api/v1/guilds/guild-1/products?tenantId=tenant-2');
+    const response = await GET(request, { params: Promise.resolve({ guildId: 'guild-1' }) });
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ products: [{ id: 'product-1' }] });
+    expect(requireApiKey).toHaveBeenCalledWith(request, 'products:read');
+    expect(listProducts).toHaveBeenCalledWith(actor, { tenantId: 'tenant-1', guildId: 'guild-1' });
+  });
+
+  it('creates a product with the write scope and defaults form fields', async () => {
+    createProduct.mockResolvedValue({
+      isErr: () => false,
+      isOk: () => true,
+      value: { id: 'product-2' },
+    });
+
+    const request = new NextRequest('https://voodoopaybot.online/api/v1/guilds/guild-1/products', {
+      method: 'POST',
+      body: JSON.stringify({ product: { name: 'Boost' } }),
+      headers: { 'content-type': 'application/json' },
+    });
+    const response = await POST(request, { params: Promise.resolve({ guildId: 'guild-1' }) });
+
+    expect(response.status).toBe(201);
+    expect(requireApiKey).toHaveBeenCalledWith(request, 'products:write');
+    expect(createProduct).toHaveBeenCalledWith(actor, {
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      product: { name: 'Boost' },
+      formFields: [],
+    });
+  });
+
+  it('returns the API key failure without calling the service', async () => {
+    requireApiKey.mockResolvedValue({
+      ok: false,
+      response: NextResponse.json(
+        { error: 'This API key does not have the products:write scope', code: 'API_KEY_SCOPE_DENIED' },
+        { status: 403 },
+      ),
+    });
+
+    const response = await POST(
+      new NextRequest('https://voodoopaybot.online/api/v1/guilds/guild-1/products', {
+        method: 'POST',
+        body: JSON.stringify({ product: {} }),
+      }),
+      { params: Promise.resolve({ guildId: 'guild-1' }) },
+    );
+
+    expect(response.status).toBe(403);
+    await expect(response.json()).resolves.toMatchObject({ code: 'API_KEY_SCOPE_DENIED' });
+    expect(createProduct).not.toHaveBeenCalled();
+  });
+});
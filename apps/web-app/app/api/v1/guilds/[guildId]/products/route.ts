@@ -0,0 +1,72 @@
+import { ProductService } from '@voodoo/core';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { jsonError, readJson, requireApiKey } from '@/lib/http';
+
+const productService = new ProductService();
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ guildId: string }> },
+): Promise<NextResponse> {
+  try {
+    const auth = await requireApiKey(request, 'products:read');
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const { guildId } = await context.params;
+    const result = await productService.listProducts(auth.principal.actor, {
+      tenantId: auth.principal.tenantId,
+      guildId,
+    });
+
+    if (result.isErr()) {
+      return NextResponse.json(
+        { error: result.error.message, code: result.error.code },
+        { status: result.error.statusCode },
+      );
+    }
+
+    return NextResponse.json({ products: result.value });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ guildId: string }> },
+): Promise<NextResponse> {
+  try {
+    const auth = await requireApiKey(request, 'products:write');
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const { guildId } = await context.params;
+    const body = await readJson<{
+      product: unknown;
+      formFields?: unknown;
+    }>(request);
+
+    const result = await productService.createProduct(auth.principal.actor, {
+      tenantId: auth.principal.tenantId,
+      guildId,
+      product: body.product,
+      formFields: body.formFields ?? [],
+    });
+
+    if (result.isErr()) {
+      return NextResponse.json(
+        { error: result.error.message, code: result.error.code },
+        { status: result.error.statusCode },
+      );
+    }
+
+    return NextResponse.json({ product: result.value }, { status: 201 });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
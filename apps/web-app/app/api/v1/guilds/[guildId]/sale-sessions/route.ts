@@ -0,0 +1,59 @@
+import { SaleService } from '@voodoo/core';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { jsonError, readJson, requireApiKey } from '@/lib/http';
+
+const saleService = new SaleService();
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ guildId: string }> },
+): Promise<NextResponse> {
+  try {
+    const auth = await requireApiKey(request, 'sales:write');
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const { guildId } = await context.params;
+    const body = await readJson<{
+      ticketChannelId: string;
+      customerDiscordUserId: string;
+      productId: string;
+      variantId: string;
+      items?: Array<{ productId: string; variantId: string; quantity?: number }>;
+      couponCode?: string | null;
+      tipMinor?: number;
+      usePoints?: boolean;
+      answers?: Record<string, string>;
+    }>(request);
+
+    // The key's creator stands in for the staff member who would normally run `/sale` in the ticket.
+    const result = await saleService.createSaleSession(auth.principal.actor, {
+      tenantId: auth.principal.tenantId,
+      guildId,
+      ticketChannelId: body.ticketChannelId,
+      staffDiscordUserId: auth.principal.actor.discordUserId,
+      customerDiscordUserId: body.customerDiscordUserId,
+      productId: body.productId,
+      variantId: body.variantId,
+      items: body.items,
+      couponCode: body.couponCode,
+      tipMinor: body.tipMinor,
+      usePoints: body.usePoints,
+      answers: body.answers ?? {},
+    });
+
+    if (result.isErr()) {
+      return NextResponse.json(
+        { error: result.error.message, code: result.error.code },
+        { status: result.error.statusCode },
+      );
+    }
+
+    return NextResponse.json({ saleSession: result.value }, { status: 201 });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,32 @@
+import { WebhookService } from '@voodoo/core';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { jsonError } from '@/lib/http';
+
+const webhookService = new WebhookService();
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ tenantWebhookKey: string }> },
+): Promise<NextResponse> {
+  try {
+    const { tenantWebhookKey } = await context.params;
+    // The signature covers the exact bytes Stripe sent, so the body must not be re-serialized.
+    const rawBody = await request.text();
+
+    const result = await webhookService.handleStripeWebhook({
+      tenantWebhookKey,
+      rawBody,
+      signatureHeader: request.headers.get('Stripe-Signature'),
+    });
+
+    if (result.isErr()) {
+      return NextResponse.json({ error: result.error.message }, { status: result.error.statusCode });
+    }
+
+    return NextResponse.json(result.value, { status: 202 });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
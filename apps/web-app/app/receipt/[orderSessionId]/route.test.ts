@@ -0,0 +1,83 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { getReceipt } = vi.hoisted(() => ({
+  getReceipt: vi.fn(),
+}));
+
+vi.mock('@voodoo/core', () => {
+  class AppError extends Error {
+    public readonly code: string;
+    public readonly statusCode: number;
+
+    public constructor(code: string, message: string, statusCode: number) {
+      super(message);
+      this.code = code;
+      this.statusCode = statusCode;
+    }
+  }
+
+  return {
+    AppError,
+    ReceiptService: class {
+      public getReceipt = getReceipt;
+    },
+    renderReceiptHtml: (receipt: { invoiceNumber: string }, options: { pdfUrl?: string }) =>
+      `<h1>${receipt.invoiceNumber}</h1><a href="${options.pdfUrl}">PDF</a>`,
+    renderReceiptPdf: () => Buffer.from('%PDF-1.4'),
+  };
+});
+
+import { AppError } from '@voodoo/core';
+
+import { GET } from './route';
+
+const receipt = { invoiceNumber: 'INV-000042' };
+
+describe('receipt route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('renders the receipt page with a PDF link that keeps the token', async () => {
+    getReceipt.mockResolvedValue({ isErr: () => false, value: receipt });
+
+    const response = await GET(new NextRequest('https://voodoopaybot.online/receipt/01ABC?token=signed'), {
+      params: Promise.resolve({ orderSessionId: '01ABC' }),
+    });
+
+    expect(getReceipt).toHaveBeenCalledWith({ orderSessionId: '01ABC', token: 'signed' });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/html');
+    const html = await response.text();
+    expect(html).toContain('INV-000042');
+    expect(html).toContain('/receipt/01ABC?token=signed&format=pdf');
+  });
+
+  it('returns the PDF version when asked', async () => {
+    getReceipt.mockResolvedValue({ isErr: () => false, value: receipt });
+
+    const response = await GET(
+      new NextRequest('https://voodoopaybot.online/receipt/01ABC?token=signed&format=pdf'),
+      { params: Promise.resolve({ orderSessionId: '01ABC' }) },
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/pdf');
+    expect(response.headers.get('content-disposition')).toContain('INV-000042.pdf');
+  });
+
+  it('returns not found for a bad token', async () => {
+    getReceipt.mockResolvedValue({
+      isErr: () => true,
+      error: new AppError('RECEIPT_NOT_FOUND', 'Receipt not found', 404),
+    });
+
+    const response = await GET(new NextRequest('https://voodoopaybot.online/receipt/01ABC?token=forged'), {
+      params: Promise.resolve({ orderSessionId: '01ABC' }),
+    });
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toMatchObject({ code: 'RECEIPT_NOT_FOUND' });
+  });
+});
@@ -0,0 +1,57 @@
+import { AppError, ReceiptService, renderReceiptHtml, renderReceiptPdf } from '@voodoo/core';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+const receiptService = new ReceiptService();
+
+function handleRouteError(error: unknown): NextResponse {
+  if (error instanceof AppError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode });
+  }
+
+  if (error instanceof Error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ error: 'Unexpected error' }, { status: 500 });
+}
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ orderSessionId: string }> },
+): Promise<NextResponse> {
+  try {
+    const { orderSessionId } = await context.params;
+    const token = request.nextUrl.searchParams.get('token');
+    const result = await receiptService.getReceipt({ orderSessionId, token });
+    if (result.isErr()) {
+      return handleRouteError(result.error);
+    }
+
+    const receipt = result.value;
+    if (request.nextUrl.searchParams.get('format') === 'pdf') {
+      return new NextResponse(new Uint8Array(renderReceiptPdf(receipt)), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `inline; filename="${receipt.invoiceNumber}.pdf"`,
+          'Cache-Control': 'private, no-store',
+        },
+      });
+    }
+
+    const pdfUrl = new URL(request.nextUrl.pathname, request.nextUrl.origin);
+    pdfUrl.searchParams.set('token', token ?? '');
+    pdfUrl.searchParams.set('format', 'pdf');
+
+    return new NextResponse(renderReceiptHtml(receipt, { pdfUrl: `${pdfUrl.pathname}${pdfUrl.search}` }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
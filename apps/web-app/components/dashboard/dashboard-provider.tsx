@@ -48,6 +48,7 @@ type SaveIntegrationInput = {
   callbackSecret?: string;
   cryptoGatewayEnabled: boolean;
   cryptoAddFees: boolean;
+  cryptoUnderpaymentTolerancePercent: number;
   cryptoWallets: VoodooCryptoWallets;
 };
 
@@ -314,6 +315,10 @@ export function DashboardProvider({
       const payload = {
         tenantId,
         paidLogChannelId: updates.paidLogChannelId ?? config.paidLogChannelId,
+        lowStockAlertChannelId:
+          updates.lowStockAlertChannelId !== undefined
+            ? updates.lowStockAlertChannelId
+            : config.lowStockAlertChannelId,
         staffRoleIds: updates.staffRoleIds ?? config.staffRoleIds,
         defaultCurrency: updates.defaultCurrency ?? config.defaultCurrency,
         couponsEnabled: updates.couponsEnabled ?? config.couponsEnabled,
@@ -321,6 +326,14 @@ export function DashboardProvider({
         referralsEnabled: updates.referralsEnabled ?? config.referralsEnabled,
         telegramEnabled: updates.telegramEnabled ?? config.telegramEnabled,
         tipEnabled: updates.tipEnabled ?? config.tipEnabled,
+        checkoutExpiryMinutes: updates.checkoutExpiryMinutes ?? config.checkoutExpiryMinutes,
+        subscriptionReminderDays: updates.subscriptionReminderDays ?? config.subscriptionReminderDays,
+        subscriptionGraceDays: updates.subscriptionGraceDays ?? config.subscriptionGraceDays,
+        invoiceStoreName: updates.invoiceStoreName ?? config.invoiceStoreName,
+        invoiceStoreDetails: updates.invoiceStoreDetails ?? config.invoiceStoreDetails,
+        invoiceTaxRateBps: updates.invoiceTaxRateBps ?? config.invoiceTaxRateBps,
+        manualPaymentInstructions: updates.manualPaymentInstructions ?? config.manualPaymentInstructions,
+        selfServiceEnabled: updates.selfServiceEnabled ?? config.selfServiceEnabled,
         pointsEarnCategoryKeys: updates.pointsEarnCategoryKeys ?? config.pointsEarnCategoryKeys,
         pointsRedeemCategoryKeys: updates.pointsRedeemCategoryKeys ?? config.pointsRedeemCategoryKeys,
         pointValueMinor: updates.pointValueMinor ?? config.pointValueMinor,
@@ -398,6 +411,7 @@ export function DashboardProvider({
           callbackSecret: payload.callbackSecret,
           cryptoGatewayEnabled: payload.cryptoGatewayEnabled,
           cryptoAddFees: payload.cryptoAddFees,
+          cryptoUnderpaymentTolerancePercent: payload.cryptoUnderpaymentTolerancePercent,
           cryptoWallets: payload.cryptoWallets,
         },
       );
@@ -500,6 +514,7 @@ export function createEmptyIntegration(): SaveIntegrationInput {
     callbackSecret: '',
     cryptoGatewayEnabled: false,
     cryptoAddFees: false,
+    cryptoUnderpaymentTolerancePercent: 1,
     cryptoWallets: EMPTY_WALLETS,
   };
 }
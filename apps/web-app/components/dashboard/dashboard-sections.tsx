@@ -6,14 +6,19 @@ import {
   Copy,
   CreditCard,
   Gift,
+  KeyRound,
   Link2,
   Loader2,
   Package2,
   Plus,
   RefreshCcw,
+  RotateCcw,
   Save,
+  Send,
+  Undo2,
   Sparkles,
   Trash2,
+  X,
 } from 'lucide-react';
 import { useDeferredValue, useEffect, useEffectEvent, useRef, useState } from 'react';
 
@@ -39,7 +44,16 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { dashboardApi } from '@/lib/dashboard-api';
+import { API_KEY_SCOPE_OPTIONS, describeApiKeyScopes, toggleApiKeyScope } from '@/lib/dashboard-api-keys';
 import { getCouponMenuItems, type CouponPanelId } from '@/lib/dashboard-coupon-menu';
+import {
+  describeCouponRuleSummary,
+  formatCouponDiscountLabel,
+  fromDateTimeLocalInput,
+  parseCouponPercent,
+  parseOptionalCouponLimit,
+  toDateTimeLocalInput,
+} from '@/lib/dashboard-coupon-rules';
 import {
   DEFAULT_CURRENCY,
   DEFAULT_POINT_VALUE_MAJOR,
@@ -57,23 +71,75 @@ import {
   parsePriceToMinor,
   parseWholePoints,
   previewReferralRewardPoints,
+  SUPPORTED_CURRENCIES,
 } from '@/lib/dashboard-format';
+import {
+  describeOutboundWebhookDelivery,
+  OUTBOUND_WEBHOOK_EVENT_OPTIONS,
+  toggleOutboundWebhookEvent,
+} from '@/lib/dashboard-outbound-webhooks';
+import {
+  describeWooCatalogSummary,
+  describeWooCatalogVariantChange,
+  hasWooCatalogChanges,
+} from '@/lib/dashboard-woo-catalog';
+import { PAYMENTS_MENU_ITEMS, type PaymentsPanelId } from '@/lib/dashboard-payments-menu';
 import { SETTINGS_MENU_ITEMS, type SettingsPanelId } from '@/lib/dashboard-settings-menu';
+import { describeDeliverablePool, parseDeliverableLines } from '@/lib/dashboard-deliverables';
+import { describeAutomaticDiscount, formatPriceTiers, parsePriceTiers } from '@/lib/dashboard-discounts';
+import { describeRoleReward, parseRoleRewardDuration, upsertRoleReward } from '@/lib/dashboard-role-rewards';
+import { describeSaleRefund, describeSaleSource } from '@/lib/dashboard-sales';
+import {
+  describeVariantStock,
+  formatOptionalStockCount,
+  parseOptionalStockCount,
+} from '@/lib/dashboard-stock';
+import { formatTaxRateBps, parseTaxRatePercentToBps } from '@/lib/dashboard-receipts';
+import { describeQuantityLimits, parseQuantityLimits } from '@/lib/dashboard-quantity';
+import { describeBillingInterval, parseBillingIntervalDays } from '@/lib/dashboard-subscriptions';
+import {
+  buildWebhookEventQuery,
+  canReplayWebhookEvent,
+  describeWebhookAttempt,
+  describeWebhookEventStatus,
+  WEBHOOK_EVENT_PROVIDER_LABELS,
+  WEBHOOK_EVENT_STATUS_LABELS,
+  type WebhookEventFilterState,
+} from '@/lib/dashboard-webhook-events';
 import {
   shouldLoadCustomerPoints,
   shouldShowCustomerPointsLoading,
   type PointsPanelId,
 } from '@/lib/dashboard-points';
 import type {
+  ApiKeyRecord,
+  ApiKeyScope,
+  AutomaticDiscountRecord,
+  AutomaticDiscountRuleType,
+  CouponDiscountType,
+  CouponPerformance,
   CouponRecord,
+  CouponRedemptionRecord,
   DashboardSaleFilterRange,
   DashboardSalesResponse,
+  DeliverablePoolCounts,
+  DeliverableRecord,
+  ExchangeRateRecord,
+  OutboundWebhookDeliveryRecord,
+  OutboundWebhookEndpointRecord,
+  OutboundWebhookEventType,
   PointsCustomerRecord,
   PriceOptionDraft,
   ProductRecord,
+  RoleGrantRecord,
+  RoleRewardRecord,
   SalesHistoryAutoClearFrequency,
   QuestionDraft,
   TenantMemberRole,
+  WebhookEventDetailRecord,
+  WebhookEventRecord,
+  WebhookEventStatus,
+  WooCatalogSyncPlan,
   WorkspaceAccessState,
   WorkspaceMemberCandidateRecord,
   WorkspaceMemberRecord,
@@ -96,6 +162,8 @@ const cryptoWalletFields: Array<{
   { key: 'solana', label: 'Solana wallet' },
 ];
 
+const cryptoUnderpaymentToleranceOptions = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
 const pointsMenuItems = [
   {
     id: 'reward-settings',
@@ -170,6 +238,24 @@ const productsMenuItems = [
     description: 'Create or edit products with category selection, pricing, and rewards.',
     info: 'Products inherit category context and can include multiple price variations plus referral rewards.',
   },
+  {
+    id: 'key-pools',
+    label: 'Key Pools',
+    description: 'Upload licence keys or account credentials that are delivered automatically after payment.',
+    info: 'Each price option can have its own pool. Keys are stored encrypted and handed out one per basket line; an empty pool falls back to manual fulfillment.',
+  },
+  {
+    id: 'role-grants',
+    label: 'Role Grants',
+    description: 'See which Discord roles buyers were given, when timed roles expire, and any grants that failed.',
+    info: 'Roles set on a product or price option are given to the buyer when the order is paid. Timed roles are removed automatically once they expire.',
+  },
+  {
+    id: 'woo-import',
+    label: 'WooCommerce Import',
+    description: 'Pull products, variations and prices from the connected WooCommerce store.',
+    info: 'Preview the changes first. Re-running the import refreshes prices and adds new variations without touching names, stock or rewards edited here.',
+  },
 ] as const;
 
 function getMessage(error: unknown, fallback: string): string {
@@ -1005,6 +1091,9 @@ export function OverviewSection() {
                       {new Date(sale.paidAt).toLocaleString()}
                     </div>
                     <div className="flex items-center gap-3">
+                      {describeSaleSource(sale) ? (
+                        <Badge variant="outline">{describeSaleSource(sale)}</Badge>
+                      ) : null}
                       <Badge variant="outline">{sale.fulfillmentStatus}</Badge>
                       <span className="font-semibold">{formatCurrencyMinor(sale.priceMinor, sale.currency)}</span>
                     </div>
@@ -1461,7 +1550,7 @@ export function SalesSection() {
 
           {salesError ? <InfoTip>{salesError}</InfoTip> : null}
 
-          <div className="grid gap-4 md:grid-cols-2">
+          <div className="grid gap-4 md:grid-cols-3">
             <OverviewStat icon={Sparkles} title="Matched sales">
               <div className="space-y-2">
                 <p className="font-[family-name:var(--font-display)] text-3xl tracking-tight">
@@ -1482,6 +1571,22 @@ export function SalesSection() {
                 </p>
               </div>
             </OverviewStat>
+            <OverviewStat icon={Undo2} title="Net revenue">
+              <div className="space-y-2">
+                <p className="font-[family-name:var(--font-display)] text-3xl tracking-tight">
+                  {salesLoading
+                    ? '...'
+                    : formatCurrencyMinor(salesData?.netSalesMinor ?? 0, displayCurrency)}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {salesLoading
+                    ? 'Matched value after refunds and chargebacks.'
+                    : `${formatCurrencyMinor(salesData?.refundedSalesMinor ?? 0, displayCurrency)} refunded across ${
+                        salesData?.refundedSalesCount ?? 0
+                      } ${salesData?.refundedSalesCount === 1 ? 'order' : 'orders'}.`}
+                </p>
+              </div>
+            </OverviewStat>
           </div>
 
           <Panel title="All matched sales" description="Paid orders are listed newest first.">
@@ -1510,6 +1615,12 @@ export function SalesSection() {
                       <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
                         <Badge variant="outline">{sale.fulfillmentStatus}</Badge>
                         <Badge variant="outline">{sale.status}</Badge>
+                        {describeSaleRefund(sale) ? (
+                          <Badge variant="outline">{describeSaleRefund(sale)}</Badge>
+                        ) : null}
+                        {describeSaleSource(sale) ? (
+                          <Badge variant="outline">{describeSaleSource(sale)}</Badge>
+                        ) : null}
                         <Badge variant="outline">Date {sale.paidDateKey}</Badge>
                       </div>
                     </div>
@@ -1540,6 +1651,17 @@ export function SalesSection() {
                       <span className="text-lg font-semibold">
                         {formatCurrencyMinor(sale.priceMinor, sale.currency)}
                       </span>
+                      {sale.refundedMinor > 0 ? (
+                        <p className="text-xs text-muted-foreground">
+                          Refunded {formatCurrencyMinor(sale.refundedMinor, sale.currency)} / Net{' '}
+                          {formatCurrencyMinor(sale.netMinor, sale.currency)}
+                        </p>
+                      ) : null}
+                      {(sale.automaticDiscounts ?? []).map((discount) => (
+                        <p key={discount.label} className="text-xs text-muted-foreground">
+                          {discount.label}: -{formatCurrencyMinor(discount.amountMinor, sale.currency)}
+                        </p>
+                      ))}
                       <p className="text-xs text-muted-foreground">Session {sale.orderSessionId}</p>
                     </div>
                   </div>
@@ -1574,224 +1696,1223 @@ export function SalesSection() {
   );
 }
 
-export function SettingsSection() {
-  const {
-    actionPending,
-    config,
-    isLinkedToCurrentTenant,
-    resources,
-    saveConfig,
-    showFlash,
-    telegramState,
-    generateTelegramLink,
-  } = useDashboardContext();
-  const [defaultCurrency, setDefaultCurrency] = useState('GBP');
-  const [paidLogChannelId, setPaidLogChannelId] = useState('');
-  const [staffRoleIds, setStaffRoleIds] = useState<string[]>([]);
-  const [tipEnabled, setTipEnabled] = useState(false);
-  const [telegramEnabled, setTelegramEnabled] = useState(false);
-  const [activeSettingsPanel, setActiveSettingsPanel] = useState<SettingsPanelId>('default-currency');
-  const [generatedTelegram, setGeneratedTelegram] = useState<Awaited<
-    ReturnType<typeof generateTelegramLink>
-  > | null>(null);
+function ExchangeRatesPanel({ defaultCurrency }: { defaultCurrency: string }) {
+  const { guildId, showFlash, tenantId } = useDashboardContext();
+  const [rates, setRates] = useState<ExchangeRateRecord[]>([]);
+  const [loadingRates, setLoadingRates] = useState(false);
+  const [refreshingRates, setRefreshingRates] = useState(false);
+  const [fromCurrency, setFromCurrency] = useState('USD');
+  const [rateValue, setRateValue] = useState('');
+
+  const fromCurrencyOptions = SUPPORTED_CURRENCIES.filter((currency) => currency !== defaultCurrency);
+  const basePath = `/api/guilds/${encodeURIComponent(guildId)}/exchange-rates`;
+
+  const loadRates = useEffectEvent(async () => {
+    setLoadingRates(true);
+    try {
+      const response = await dashboardApi<{ rates: ExchangeRateRecord[] }>(
+        `${basePath}?tenantId=${encodeURIComponent(tenantId)}`,
+      );
+      setRates(response.rates);
+    } catch (loadError) {
+      showFlash('error', getMessage(loadError, 'Failed to load exchange rates.'));
+    } finally {
+      setLoadingRates(false);
+    }
+  });
 
   useEffect(() => {
-    if (!config) {
-      return;
+    void loadRates();
+  }, [guildId, tenantId]);
+
+  useEffect(() => {
+    if (fromCurrency === defaultCurrency) {
+      setFromCurrency(fromCurrencyOptions[0] ?? 'USD');
     }
+  }, [defaultCurrency, fromCurrency]);
 
-    setDefaultCurrency(config.defaultCurrency || 'GBP');
-    setPaidLogChannelId(config.paidLogChannelId ?? '');
-    setStaffRoleIds(config.staffRoleIds);
-    setTipEnabled(config.tipEnabled);
-    setTelegramEnabled(config.telegramEnabled);
-  }, [config]);
+  async function handleSaveRate() {
+    const rate = Number(rateValue.trim());
+    if (!Number.isFinite(rate) || rate <= 0) {
+      showFlash('error', 'Enter a rate greater than zero.');
+      return;
+    }
 
-  async function handleSave() {
     try {
-      await saveConfig({
-        defaultCurrency,
-        paidLogChannelId: paidLogChannelId || null,
-        staffRoleIds,
-        tipEnabled,
-        telegramEnabled,
+      await dashboardApi(basePath, 'POST', {
+        tenantId,
+        rate: { fromCurrency, toCurrency: defaultCurrency, rate },
       });
-    } catch {}
+      setRateValue('');
+      showFlash('success', `Saved the ${fromCurrency} to ${defaultCurrency} rate.`);
+      await loadRates();
+    } catch (saveError) {
+      showFlash('error', getMessage(saveError, 'Failed to save exchange rate.'));
+    }
   }
 
-  async function handleCopy(text: string, successMessage: string) {
+  async function deleteRate(rateId: string) {
     try {
-      await copyToClipboard(text);
-      showFlash('success', successMessage);
-    } catch (copyError) {
-      showFlash('error', getMessage(copyError, 'Copy failed.'));
+      await dashboardApi(`${basePath}/${encodeURIComponent(rateId)}?tenantId=${encodeURIComponent(tenantId)}`, 'DELETE');
+      showFlash('success', 'Exchange rate deleted.');
+      await loadRates();
+    } catch (deleteError) {
+      showFlash('error', getMessage(deleteError, 'Failed to delete exchange rate.'));
     }
   }
 
-  async function handleGenerateTelegram() {
+  async function refreshRates() {
+    setRefreshingRates(true);
     try {
-      const response = await generateTelegramLink();
-      setGeneratedTelegram(response);
-    } catch {}
+      const response = await dashboardApi<{ rates: ExchangeRateRecord[] }>(`${basePath}/refresh`, 'POST', { tenantId });
+      setRates(response.rates);
+      showFlash('success', 'Exchange rates refreshed.');
+    } catch (refreshError) {
+      showFlash('error', getMessage(refreshError, 'Failed to refresh exchange rates.'));
+    } finally {
+      setRefreshingRates(false);
+    }
   }
 
   return (
-    <SectionShell
-      eyebrow="Settings"
-      title="Server settings"
-      description="Keep the essentials focused: default currency, staff roles, paid-log destination, tipping, and Telegram integration."
+    <Panel
+      title={
+        <span className="flex items-center gap-2">
+          Exchange rates
+          <InfoButton label="Price options in another currency are converted into the checkout currency with these rates. Each order keeps a copy of the rates it used." />
+        </span>
+      }
+      description={`Set how much one unit of another currency is worth in ${defaultCurrency}.`}
       action={
-        <Button type="button" className="min-h-11" disabled={actionPending || !isLinkedToCurrentTenant} onClick={() => void handleSave()}>
-          {actionPending ? <Loader2 className="size-4 animate-spin" /> : <Save className="size-4" />}
-          Save Changes
+        <Button type="button" size="sm" variant="outline" disabled={refreshingRates} onClick={() => void refreshRates()}>
+          {refreshingRates ? <Loader2 className="size-4 animate-spin" /> : <RefreshCcw className="size-4" />}
+          Refresh
         </Button>
       }
     >
-      <FlashBanner />
-      <DashboardSetupState />
+      <div className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-[10rem_minmax(0,1fr)_auto] sm:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="exchange-rate-from">From</Label>
+            <select
+              id="exchange-rate-from"
+              className={nativeSelectClass}
+              value={fromCurrency}
+              onChange={(event) => setFromCurrency(event.target.value)}
+            >
+              {fromCurrencyOptions.map((currency) => (
+                <option key={currency} value={currency}>
+                  {currency}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="exchange-rate-value">1 {fromCurrency} in {defaultCurrency}</Label>
+            <Input
+              id="exchange-rate-value"
+              inputMode="decimal"
+              placeholder="0.79"
+              value={rateValue}
+              onChange={(event) => setRateValue(event.target.value)}
+            />
+          </div>
+          <Button type="button" className="min-h-10" onClick={() => void handleSaveRate()}>
+            <Plus className="size-4" />
+            Save rate
+          </Button>
+        </div>
 
-      {isLinkedToCurrentTenant ? (
-        <div className="grid gap-5 xl:grid-cols-[17rem_minmax(0,1fr)]">
-          <SectionMenu
-            title="Settings Menu"
-            items={SETTINGS_MENU_ITEMS}
-            activeId={activeSettingsPanel}
-            onChange={setActiveSettingsPanel}
-          />
+        {loadingRates ? (
+          <p className="text-sm text-muted-foreground">Loading exchange rates...</p>
+        ) : rates.length ? (
+          rates.map((rate) => (
+            <div
+              key={rate.id}
+              className="flex flex-col gap-3 rounded-[1.1rem] border border-border/70 bg-background/70 px-4 py-3 sm:flex-row sm:items-center sm:justify-between"
+            >
+              <div className="min-w-0">
+                <p className="font-medium">
+                  1 {rate.fromCurrency} = {rate.rate} {rate.toCurrency}
+                </p>
+                <p className="mt-1 text-sm text-muted-foreground">
+                  {rate.source} / updated {new Date(rate.updatedAt).toLocaleString()}
+                </p>
+              </div>
+              <Button type="button" size="sm" variant="outline" onClick={() => void deleteRate(rate.id)}>
+                <Trash2 className="size-4" />
+                Delete
+              </Button>
+            </div>
+          ))
+        ) : (
+          <p className="text-sm text-muted-foreground">No exchange rates yet. Baskets can only mix currencies that have a rate.</p>
+        )}
 
-          <div className="min-w-0 space-y-5">
-            {activeSettingsPanel === 'default-currency' ? (
-              <Panel
-                title={
-                  <span className="flex items-center gap-2">
-                    Default currency
-                    <InfoButton label="This is the default currency shown across the panel and checkout summaries for this server." />
-                  </span>
-                }
-                description="Choose the primary currency for this Discord server."
-              >
-                <div className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="default-currency">Currency</Label>
-                    <select
-                      id="default-currency"
-                      className={nativeSelectClass}
-                      value={defaultCurrency}
-                      onChange={(event) => setDefaultCurrency(event.target.value)}
-                    >
-                      {['GBP', 'USD', 'EUR'].map((currency) => (
-                        <option key={currency} value={currency}>
-                          {currency}
-                        </option>
-                      ))}
-                    </select>
-                  </div>
-                  <InfoTip>Save after changing the default currency so the dashboard and sales summaries stay in sync.</InfoTip>
-                </div>
-              </Panel>
-            ) : null}
+        <InfoTip>Refresh pulls the latest rates for the pairs above from the configured rate source, when one is set up.</InfoTip>
+      </div>
+    </Panel>
+  );
+}
 
-            {activeSettingsPanel === 'staff-roles' ? (
-              <Panel
-                title={
-                  <span className="flex items-center gap-2">
-                    Staff roles
-                    <InfoButton label="These roles should represent the team members allowed to work order, payment, and support tasks inside the server." />
-                  </span>
-                }
-                description="Select the Discord roles that should be treated as sales staff."
-              >
-                <div className="space-y-3">
-                  {resources?.roles.length ? (
-                    resources.roles.map((role) => {
-                      const checked = staffRoleIds.includes(role.id);
-                      return (
-                        <label
-                          key={role.id}
-                          className="flex items-center gap-3 rounded-[1.1rem] border border-border/70 bg-background/70 px-3 py-3 text-sm"
-                        >
-                          <Checkbox
-                            checked={checked}
-                            onCheckedChange={(value) =>
-                              setStaffRoleIds((current) =>
-                                value === true
-                                  ? [...new Set([...current, role.id])]
-                                  : current.filter((item) => item !== role.id),
-                              )
-                            }
-                          />
-                          <span className="truncate">{role.name}</span>
-                        </label>
-                      );
-                    })
-                  ) : (
-                    <p className="text-sm text-muted-foreground">No guild roles were returned by Discord.</p>
-                  )}
-                </div>
-              </Panel>
-            ) : null}
+function OutboundWebhooksPanel() {
+  const { guildId, showFlash, tenantId } = useDashboardContext();
+  const [endpoints, setEndpoints] = useState<OutboundWebhookEndpointRecord[]>([]);
+  const [deliveries, setDeliveries] = useState<OutboundWebhookDeliveryRecord[]>([]);
+  const [loadingEndpoints, setLoadingEndpoints] = useState(false);
+  const [editingEndpointId, setEditingEndpointId] = useState<string | null>(null);
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [eventTypes, setEventTypes] = useState<OutboundWebhookEventType[]>(['order.paid']);
+  const [active, setActive] = useState(true);
+  const [revealedSecret, setRevealedSecret] = useState<{ endpointId: string; secret: string } | null>(null);
+  const [testingEndpointId, setTestingEndpointId] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<OutboundWebhookEndpointRecord | null>(null);
+  const [pendingRotate, setPendingRotate] = useState<OutboundWebhookEndpointRecord | null>(null);
+  const [confirmPending, setConfirmPending] = useState(false);
+
+  const basePath = `/api/guilds/${encodeURIComponent(guildId)}/outbound-webhooks`;
+  const endpointLabels = new Map(endpoints.map((endpoint) => [endpoint.id, endpoint.description || endpoint.url]));
+
+  const loadEndpoints = useEffectEvent(async () => {
+    setLoadingEndpoints(true);
+    try {
+      const response = await dashboardApi<{
+        endpoints: OutboundWebhookEndpointRecord[];
+        deliveries: OutboundWebhookDeliveryRecord[];
+      }>(`${basePath}?tenantId=${encodeURIComponent(tenantId)}`);
+      setEndpoints(response.endpoints);
+      setDeliveries(response.deliveries);
+    } catch (loadError) {
+      showFlash('error', getMessage(loadError, 'Failed to load outbound webhooks.'));
+    } finally {
+      setLoadingEndpoints(false);
+    }
+  });
 
-            {activeSettingsPanel === 'paid-log-channel' ? (
-              <Panel
-                title={
-                  <span className="flex items-center gap-2">
-                    Paid log channel
-                    <InfoButton label="Successful payment notifications and paid-order events should go here so staff have one clean audit channel." />
-                  </span>
-                }
-                description="Choose the channel that receives the paid-order log feed."
-              >
-                <div className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="paid-log-channel">Paid log channel</Label>
-                    <select
-                      id="paid-log-channel"
-                      className={nativeSelectClass}
-                      value={paidLogChannelId}
-                      onChange={(event) => setPaidLogChannelId(event.target.value)}
-                    >
-                      <option value="">Select channel</option>
-                      {resources?.channels.map((channel) => (
-                        <option key={channel.id} value={channel.id}>
-                          #{channel.name}
-                        </option>
-                      ))}
-                    </select>
-                  </div>
-                </div>
-              </Panel>
-            ) : null}
+  useEffect(() => {
+    setRevealedSecret(null);
+    resetForm();
+    void loadEndpoints();
+  }, [guildId, tenantId]);
+
+  function resetForm() {
+    setEditingEndpointId(null);
+    setUrl('');
+    setDescription('');
+    setEventTypes(['order.paid']);
+    setActive(true);
+  }
 
-            {activeSettingsPanel === 'tipping' ? (
-              <Panel
-                title={
-                  <span className="flex items-center gap-2">
-                    Tipping
-                    <InfoButton label="Control whether the sales flow asks the customer if they want to add an optional GBP tip before checkout." />
-                  </span>
-                }
-                description="Turn the optional tip prompt on or off for this Discord server."
-              >
-                <div className="space-y-5">
-                  <div className="flex flex-col gap-4 rounded-[1.2rem] border border-border/70 bg-background/70 px-4 py-4 sm:flex-row sm:items-center sm:justify-between">
-                    <div>
-                      <p className="font-medium">Enable optional tipping</p>
-                      <p className="text-sm text-muted-foreground">
-                        When enabled, customers are asked if they want to add a GBP tip before
-                        their checkout link is generated.
-                      </p>
-                    </div>
-                    <div id="tip-enabled">
-                      <FeatureToggle
-                        checked={tipEnabled}
-                        label="Enable tipping"
-                        onChange={setTipEnabled}
-                      />
-                    </div>
+  function editEndpoint(endpoint: OutboundWebhookEndpointRecord) {
+    setEditingEndpointId(endpoint.id);
+    setUrl(endpoint.url);
+    setDescription(endpoint.description);
+    setEventTypes(endpoint.eventTypes);
+    setActive(endpoint.active);
+  }
+
+  async function handleSaveEndpoint() {
+    if (!url.trim()) {
+      showFlash('error', 'Enter the https:// URL that should receive events.');
+      return;
+    }
+    if (eventTypes.length === 0) {
+      showFlash('error', 'Pick at least one event.');
+      return;
+    }
+
+    const endpoint = { url: url.trim(), description: description.trim(), eventTypes, active };
+    try {
+      if (editingEndpointId) {
+        await dashboardApi(`${basePath}/${encodeURIComponent(editingEndpointId)}`, 'PATCH', { tenantId, endpoint });
+        showFlash('success', 'Webhook endpoint updated.');
+      } else {
+        const response = await dashboardApi<{ endpoint: OutboundWebhookEndpointRecord; secret: string }>(
+          basePath,
+          'POST',
+          { tenantId, endpoint },
+        );
+        setRevealedSecret({ endpointId: response.endpoint.id, secret: response.secret });
+        showFlash('success', 'Webhook endpoint added. Copy its signing secret now.');
+      }
+      resetForm();
+      await loadEndpoints();
+    } catch (saveError) {
+      showFlash('error', getMessage(saveError, 'Failed to save webhook endpoint.'));
+    }
+  }
+
+  async function sendTestEvent(endpointId: string) {
+    setTestingEndpointId(endpointId);
+    try {
+      const response = await dashboardApi<{ delivery: OutboundWebhookDeliveryRecord }>(
+        `${basePath}/${encodeURIComponent(endpointId)}/test`,
+        'POST',
+        { tenantId },
+      );
+      showFlash(
+        response.delivery.status === 'delivered' ? 'success' : 'error',
+        response.delivery.status === 'delivered'
+          ? `Test event delivered (HTTP ${response.delivery.responseStatus}).`
+          : `Test event failed: ${response.delivery.lastError ?? 'no response'}.`,
+      );
+      await loadEndpoints();
+    } catch (testError) {
+      showFlash('error', getMessage(testError, 'Failed to send test event.'));
+    } finally {
+      setTestingEndpointId(null);
+    }
+  }
+
+  async function confirmRotate() {
+    if (!pendingRotate) {
+      return;
+    }
+
+    setConfirmPending(true);
+    try {
+      const response = await dashboardApi<{ secret: string }>(
+        `${basePath}/${encodeURIComponent(pendingRotate.id)}/rotate-secret`,
+        'POST',
+        { tenantId },
+      );
+      setRevealedSecret({ endpointId: pendingRotate.id, secret: response.secret });
+      setPendingRotate(null);
+      showFlash('success', 'Signing secret rotated. Update your receiver before the next event.');
+    } catch (rotateError) {
+      showFlash('error', getMessage(rotateError, 'Failed to rotate signing secret.'));
+    } finally {
+      setConfirmPending(false);
+    }
+  }
+
+  async function confirmDelete() {
+    if (!pendingDelete) {
+      return;
+    }
+
+    setConfirmPending(true);
+    try {
+      await dashboardApi(
+        `${basePath}/${encodeURIComponent(pendingDelete.id)}?tenantId=${encodeURIComponent(tenantId)}`,
+        'DELETE',
+      );
+      if (editingEndpointId === pendingDelete.id) {
+        resetForm();
+      }
+      if (revealedSecret?.endpointId === pendingDelete.id) {
+        setRevealedSecret(null);
+      }
+      setPendingDelete(null);
+      showFlash('success', 'Webhook endpoint deleted.');
+      await loadEndpoints();
+    } catch (deleteError) {
+      showFlash('error', getMessage(deleteError, 'Failed to delete webhook endpoint.'));
+    } finally {
+      setConfirmPending(false);
+    }
+  }
+
+  async function copySecret(secret: string) {
+    try {
+      await copyToClipboard(secret);
+      showFlash('success', 'Signing secret copied.');
+    } catch (copyError) {
+      showFlash('error', getMessage(copyError, 'Copy failed.'));
+    }
+  }
+
+  return (
+    <>
+      <Panel
+        title={
+          <span className="flex items-center gap-2">
+            Outbound webhooks
+            <InfoButton label="Each event is POSTed as JSON with an X-Voodoo-Signature header: base64 HMAC-SHA256 of the X-Voodoo-Timestamp value, a dot, and the raw body, keyed with the endpoint's signing secret." />
+          </span>
+        }
+        description="Send store events to your CRM, Zapier, Make or your own server."
+        action={
+          <Button type="button" size="sm" variant="outline" disabled={loadingEndpoints} onClick={() => void loadEndpoints()}>
+            {loadingEndpoints ? <Loader2 className="size-4 animate-spin" /> : <RefreshCcw className="size-4" />}
+            Refresh
+          </Button>
+        }
+      >
+        <div className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="outbound-webhook-url">Endpoint URL</Label>
+              <Input
+                id="outbound-webhook-url"
+                inputMode="url"
+                placeholder="https://hooks.example.com/voodoo"
+                value={url}
+                onChange={(event) => setUrl(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="outbound-webhook-description">Description</Label>
+              <Input
+                id="outbound-webhook-description"
+                maxLength={120}
+                placeholder="CRM sync"
+                value={description}
+                onChange={(event) => setDescription(event.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-semibold">Events</p>
+            <div className="grid gap-2 sm:grid-cols-2 xl:grid-cols-3">
+              {OUTBOUND_WEBHOOK_EVENT_OPTIONS.map((option) => (
+                <label
+                  key={option.value}
+                  className="flex min-w-0 items-center gap-3 rounded-[1.05rem] border border-border/70 bg-background/70 px-3 py-3 text-sm"
+                >
+                  <Checkbox
+                    checked={eventTypes.includes(option.value)}
+                    onCheckedChange={() => setEventTypes((current) => toggleOutboundWebhookEvent(current, option.value))}
+                  />
+                  <span className="min-w-0 flex-1 truncate">{option.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center gap-3 rounded-[1.1rem] border border-border/70 bg-background/70 px-4 py-3 text-sm">
+            <Checkbox checked={active} onCheckedChange={(checked) => setActive(checked === true)} />
+            <span>Endpoint active</span>
+          </label>
+
+          <div className="flex flex-col gap-3 sm:flex-row">
+            <Button type="button" className="min-h-11 sm:flex-1" onClick={() => void handleSaveEndpoint()}>
+              <Plus className="size-4" />
+              {editingEndpointId ? 'Save Endpoint' : 'Add Endpoint'}
+            </Button>
+            {editingEndpointId ? (
+              <Button type="button" variant="outline" className="min-h-11 sm:flex-1" onClick={resetForm}>
+                Cancel Edit
+              </Button>
+            ) : null}
+          </div>
+
+          {revealedSecret ? (
+            <div className="space-y-2 rounded-[1.1rem] border border-primary/40 bg-primary/5 px-4 py-3 text-sm">
+              <p className="font-medium">Signing secret for {endpointLabels.get(revealedSecret.endpointId) ?? 'this endpoint'}</p>
+              <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+                <code className="min-w-0 flex-1 truncate rounded-lg border border-border/70 bg-background/70 px-3 py-2 text-xs">
+                  {revealedSecret.secret}
+                </code>
+                <Button type="button" size="sm" variant="outline" onClick={() => void copySecret(revealedSecret.secret)}>
+                  <Copy className="size-4" />
+                  Copy
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">This is the only time the secret is shown. Rotate it if it is lost.</p>
+            </div>
+          ) : null}
+
+          {loadingEndpoints && endpoints.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Loading outbound webhooks...</p>
+          ) : endpoints.length ? (
+            endpoints.map((endpoint) => (
+              <div
+                key={endpoint.id}
+                className="flex flex-col gap-3 rounded-[1.1rem] border border-border/70 bg-background/70 px-4 py-3 lg:flex-row lg:items-center lg:justify-between"
+              >
+                <div className="min-w-0 space-y-1">
+                  <p className="flex items-center gap-2 font-medium">
+                    <span className="truncate">{endpoint.description || endpoint.url}</span>
+                    {endpoint.active ? null : <Badge variant="outline">Paused</Badge>}
+                  </p>
+                  <p className="truncate text-xs text-muted-foreground">{endpoint.url}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {endpoint.eventTypes
+                      .map(
+                        (eventType) =>
+                          OUTBOUND_WEBHOOK_EVENT_OPTIONS.find((option) => option.value === eventType)?.label ?? eventType,
+                      )
+                      .join(', ')}
+                  </p>
+                </div>
+                <div className="flex shrink-0 flex-wrap gap-2">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    disabled={testingEndpointId !== null}
+                    onClick={() => void sendTestEvent(endpoint.id)}
+                  >
+                    {testingEndpointId === endpoint.id ? <Loader2 className="size-4 animate-spin" /> : <Send className="size-4" />}
+                    Send test
+                  </Button>
+                  <Button type="button" size="sm" variant="outline" onClick={() => editEndpoint(endpoint)}>
+                    Edit
+                  </Button>
+                  <Button type="button" size="sm" variant="outline" onClick={() => setPendingRotate(endpoint)}>
+                    <RotateCcw className="size-4" />
+                    Rotate secret
+                  </Button>
+                  <Button type="button" size="sm" variant="outline" onClick={() => setPendingDelete(endpoint)}>
+                    <Trash2 className="size-4" />
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            ))
+          ) : (
+            <p className="text-sm text-muted-foreground">No endpoints yet. Add one to start receiving store events.</p>
+          )}
+        </div>
+      </Panel>
+
+      <Panel
+        title="Recent deliveries"
+        description="The latest 50 deliveries to this server's endpoints. Failed deliveries are retried with backoff and move to dead letter after 10 attempts."
+      >
+        {deliveries.length === 0 ? (
+          <InfoTip>{loadingEndpoints ? 'Loading deliveries...' : 'No deliveries yet. Send a test event to try an endpoint.'}</InfoTip>
+        ) : (
+          <div className="space-y-2">
+            {deliveries.map((delivery) => (
+              <div
+                key={delivery.id}
+                className="flex flex-col gap-2 rounded-[1.1rem] border border-border/70 bg-background/70 px-4 py-3 text-sm sm:flex-row sm:items-center sm:justify-between"
+              >
+                <div className="min-w-0 space-y-1">
+                  <p className="font-medium">
+                    {delivery.eventType} · {endpointLabels.get(delivery.endpointId) ?? 'Deleted endpoint'}
+                  </p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {formatDashboardDateTime(delivery.createdAt)}
+                    {delivery.status === 'failed' && delivery.nextRetryAt
+                      ? ` · next retry ${formatDashboardDateTime(delivery.nextRetryAt)}`
+                      : ''}
+                    {delivery.lastError ? ` · ${delivery.lastError}` : ''}
+                  </p>
+                </div>
+                <Badge variant={delivery.status === 'delivered' ? 'default' : 'outline'} className="shrink-0">
+                  {describeOutboundWebhookDelivery(delivery)}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </Panel>
+
+      <ConfirmationModal
+        open={pendingRotate !== null}
+        title="Rotate signing secret"
+        description="A new secret is generated and the current one stops working straight away. Deliveries sent after this are signed with the new secret."
+        confirmLabel={confirmPending ? 'Rotating...' : 'Rotate secret'}
+        pending={confirmPending}
+        onClose={() => setPendingRotate(null)}
+        onConfirm={() => void confirmRotate()}
+      />
+
+      <ConfirmationModal
+        open={pendingDelete !== null}
+        title="Delete webhook endpoint"
+        description="The endpoint stops receiving events and its delivery log is removed."
+        confirmLabel={confirmPending ? 'Deleting...' : 'Delete endpoint'}
+        pending={confirmPending}
+        onClose={() => setPendingDelete(null)}
+        onConfirm={() => void confirmDelete()}
+      />
+    </>
+  );
+}
+
+function ApiKeysPanel() {
+  const { showFlash, tenantId } = useDashboardContext();
+  const [apiKeys, setApiKeys] = useState<ApiKeyRecord[]>([]);
+  const [loadingKeys, setLoadingKeys] = useState(false);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['products:read', 'orders:read']);
+  const [creating, setCreating] = useState(false);
+  const [revealedKey, setRevealedKey] = useState<{ name: string; key: string } | null>(null);
+  const [pendingRevoke, setPendingRevoke] = useState<ApiKeyRecord | null>(null);
+  const [confirmPending, setConfirmPending] = useState(false);
+
+  const basePath = `/api/tenants/${encodeURIComponent(tenantId)}/api-keys`;
+
+  const loadKeys = useEffectEvent(async () => {
+    setLoadingKeys(true);
+    try {
+      const response = await dashboardApi<{ apiKeys: ApiKeyRecord[] }>(basePath);
+      setApiKeys(response.apiKeys);
+    } catch (loadError) {
+      showFlash('error', getMessage(loadError, 'Failed to load API keys.'));
+    } finally {
+      setLoadingKeys(false);
+    }
+  });
+
+  useEffect(() => {
+    setRevealedKey(null);
+    void loadKeys();
+  }, [tenantId]);
+
+  async function handleCreateKey() {
+    if (!name.trim()) {
+      showFlash('error', 'Name the key so you can recognise it later.');
+      return;
+    }
+    if (scopes.length === 0) {
+      showFlash('error', 'Pick at least one scope.');
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const response = await dashboardApi<{ apiKey: ApiKeyRecord; key: string }>(basePath, 'POST', {
+        apiKey: { name: name.trim(), scopes },
+      });
+      setRevealedKey({ name: response.apiKey.name, key: response.key });
+      setName('');
+      showFlash('success', 'API key created. Copy it now.');
+      await loadKeys();
+    } catch (createError) {
+      showFlash('error', getMessage(createError, 'Failed to create API key.'));
+    } finally {
+      setCreating(false);
+    }
+  }
+
+  async function confirmRevoke() {
+    if (!pendingRevoke) {
+      return;
+    }
+
+    setConfirmPending(true);
+    try {
+      await dashboardApi(`${basePath}/${encodeURIComponent(pendingRevoke.id)}`, 'DELETE');
+      setPendingRevoke(null);
+      showFlash('success', 'API key revoked.');
+      await loadKeys();
+    } catch (revokeError) {
+      showFlash('error', getMessage(revokeError, 'Failed to revoke API key.'));
+    } finally {
+      setConfirmPending(false);
+    }
+  }
+
+  async function copyKey(key: string) {
+    try {
+      await copyToClipboard(key);
+      showFlash('success', 'API key copied.');
+    } catch (copyError) {
+      showFlash('error', getMessage(copyError, 'Copy failed.'));
+    }
+  }
+
+  return (
+    <>
+      <Panel
+        title={
+          <span className="flex items-center gap-2">
+            API keys
+            <InfoButton label="Send the key as 'Authorization: Bearer <key>' to the /api/v1 endpoints. A key acts as the member who created it and stops working if they lose access to this workspace." />
+          </span>
+        }
+        description="Let your own tooling manage products, orders, points and sales without the dashboard."
+        action={
+          <Button type="button" size="sm" variant="outline" disabled={loadingKeys} onClick={() => void loadKeys()}>
+            {loadingKeys ? <Loader2 className="size-4 animate-spin" /> : <RefreshCcw className="size-4" />}
+            Refresh
+          </Button>
+        }
+      >
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="api-key-name">Key name</Label>
+            <Input
+              id="api-key-name"
+              maxLength={80}
+              placeholder="Inventory sync"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-semibold">Scopes</p>
+            <div className="grid gap-2 sm:grid-cols-2 xl:grid-cols-3">
+              {API_KEY_SCOPE_OPTIONS.map((option) => (
+                <label
+                  key={option.value}
+                  className="flex min-w-0 items-center gap-3 rounded-[1.05rem] border border-border/70 bg-background/70 px-3 py-3 text-sm"
+                >
+                  <Checkbox
+                    checked={scopes.includes(option.value)}
+                    onCheckedChange={() => setScopes((current) => toggleApiKeyScope(current, option.value))}
+                  />
+                  <span className="min-w-0 flex-1 truncate">{option.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <Button type="button" className="min-h-11 w-full" disabled={creating} onClick={() => void handleCreateKey()}>
+            {creating ? <Loader2 className="size-4 animate-spin" /> : <KeyRound className="size-4" />}
+            Create API Key
+          </Button>
+
+          {revealedKey ? (
+            <div className="space-y-2 rounded-[1.1rem] border border-primary/40 bg-primary/5 px-4 py-3 text-sm">
+              <p className="font-medium">Key for {revealedKey.name}</p>
+              <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+                <code className="min-w-0 flex-1 truncate rounded-lg border border-border/70 bg-background/70 px-3 py-2 text-xs">
+                  {revealedKey.key}
+                </code>
+                <Button type="button" size="sm" variant="outline" onClick={() => void copyKey(revealedKey.key)}>
+                  <Copy className="size-4" />
+                  Copy
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">This is the only time the key is shown. Create a new one if it is lost.</p>
+            </div>
+          ) : null}
+
+          {loadingKeys && apiKeys.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Loading API keys...</p>
+          ) : apiKeys.length ? (
+            apiKeys.map((apiKey) => (
+              <div
+                key={apiKey.id}
+                className="flex flex-col gap-3 rounded-[1.1rem] border border-border/70 bg-background/70 px-4 py-3 lg:flex-row lg:items-center lg:justify-between"
+              >
+                <div className="min-w-0 space-y-1">
+                  <p className="flex items-center gap-2 font-medium">
+                    <span className="truncate">{apiKey.name}</span>
+                    {apiKey.revokedAt ? <Badge variant="outline">Revoked</Badge> : null}
+                  </p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {apiKey.keyPrefix}... · {describeApiKeyScopes(apiKey.scopes)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Created {formatDashboardDateTime(apiKey.createdAt)} by {apiKey.createdByDiscordUserId} ·{' '}
+                    {apiKey.revokedAt
+                      ? `revoked ${formatDashboardDateTime(apiKey.revokedAt)}`
+                      : apiKey.lastUsedAt
+                        ? `last used ${formatDashboardDateTime(apiKey.lastUsedAt)}`
+                        : 'never used'}
+                  </p>
+                </div>
+                {apiKey.revokedAt ? null : (
+                  <Button type="button" size="sm" variant="outline" className="shrink-0" onClick={() => setPendingRevoke(apiKey)}>
+                    <Trash2 className="size-4" />
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            ))
+          ) : (
+            <p className="text-sm text-muted-foreground">No API keys yet.</p>
+          )}
+        </div>
+      </Panel>
+
+      <ConfirmationModal
+        open={pendingRevoke !== null}
+        title="Revoke API key"
+        description="Requests using this key are rejected straight away. This cannot be undone."
+        confirmLabel={confirmPending ? 'Revoking...' : 'Revoke key'}
+        pending={confirmPending}
+        onClose={() => setPendingRevoke(null)}
+        onConfirm={() => void confirmRevoke()}
+      />
+    </>
+  );
+}
+
+export function SettingsSection() {
+  const {
+    actionPending,
+    config,
+    isLinkedToCurrentTenant,
+    resources,
+    saveConfig,
+    showFlash,
+    telegramState,
+    generateTelegramLink,
+  } = useDashboardContext();
+  const [defaultCurrency, setDefaultCurrency] = useState<string>(DEFAULT_CURRENCY);
+  const [paidLogChannelId, setPaidLogChannelId] = useState('');
+  const [lowStockAlertChannelId, setLowStockAlertChannelId] = useState('');
+  const [staffRoleIds, setStaffRoleIds] = useState<string[]>([]);
+  const [tipEnabled, setTipEnabled] = useState(false);
+  const [selfServiceEnabled, setSelfServiceEnabled] = useState(false);
+  const [checkoutExpiryMinutes, setCheckoutExpiryMinutes] = useState('30');
+  const [subscriptionReminderDays, setSubscriptionReminderDays] = useState('3');
+  const [subscriptionGraceDays, setSubscriptionGraceDays] = useState('3');
+  const [invoiceStoreName, setInvoiceStoreName] = useState('');
+  const [invoiceStoreDetails, setInvoiceStoreDetails] = useState('');
+  const [invoiceTaxRatePercent, setInvoiceTaxRatePercent] = useState('');
+  const [manualPaymentInstructions, setManualPaymentInstructions] = useState('');
+  const [telegramEnabled, setTelegramEnabled] = useState(false);
+  const [activeSettingsPanel, setActiveSettingsPanel] = useState<SettingsPanelId>('default-currency');
+  const [generatedTelegram, setGeneratedTelegram] = useState<Awaited<
+    ReturnType<typeof generateTelegramLink>
+  > | null>(null);
+
+  useEffect(() => {
+    if (!config) {
+      return;
+    }
+
+    setDefaultCurrency(config.defaultCurrency || DEFAULT_CURRENCY);
+    setPaidLogChannelId(config.paidLogChannelId ?? '');
+    setLowStockAlertChannelId(config.lowStockAlertChannelId ?? '');
+    setStaffRoleIds(config.staffRoleIds);
+    setTipEnabled(config.tipEnabled);
+    setSelfServiceEnabled(config.selfServiceEnabled);
+    setCheckoutExpiryMinutes(String(config.checkoutExpiryMinutes));
+    setSubscriptionReminderDays(String(config.subscriptionReminderDays));
+    setSubscriptionGraceDays(String(config.subscriptionGraceDays));
+    setInvoiceStoreName(config.invoiceStoreName);
+    setInvoiceStoreDetails(config.invoiceStoreDetails);
+    setInvoiceTaxRatePercent(formatTaxRateBps(config.invoiceTaxRateBps));
+    setManualPaymentInstructions(config.manualPaymentInstructions);
+    setTelegramEnabled(config.telegramEnabled);
+  }, [config]);
+
+  async function handleSave() {
+    let invoiceTaxRateBps: number;
+    try {
+      invoiceTaxRateBps = parseTaxRatePercentToBps(invoiceTaxRatePercent);
+    } catch (error) {
+      showFlash('error', getMessage(error, 'Invalid tax rate.'));
+      return;
+    }
+
+    try {
+      await saveConfig({
+        defaultCurrency,
+        paidLogChannelId: paidLogChannelId || null,
+        lowStockAlertChannelId: lowStockAlertChannelId || null,
+        staffRoleIds,
+        tipEnabled,
+        selfServiceEnabled,
+        checkoutExpiryMinutes: Number.parseInt(checkoutExpiryMinutes, 10) || config?.checkoutExpiryMinutes,
+        subscriptionReminderDays:
+          Number.parseInt(subscriptionReminderDays, 10) || config?.subscriptionReminderDays,
+        subscriptionGraceDays: Number.isNaN(Number.parseInt(subscriptionGraceDays, 10))
+          ? config?.subscriptionGraceDays
+          : Number.parseInt(subscriptionGraceDays, 10),
+        invoiceStoreName,
+        invoiceStoreDetails,
+        invoiceTaxRateBps,
+        manualPaymentInstructions,
+        telegramEnabled,
+      });
+    } catch {}
+  }
+
+  async function handleCopy(text: string, successMessage: string) {
+    try {
+      await copyToClipboard(text);
+      showFlash('success', successMessage);
+    } catch (copyError) {
+      showFlash('error', getMessage(copyError, 'Copy failed.'));
+    }
+  }
+
+  async function handleGenerateTelegram() {
+    try {
+      const response = await generateTelegramLink();
+      setGeneratedTelegram(response);
+    } catch {}
+  }
+
+  return (
+    <SectionShell
+      eyebrow="Settings"
+      title="Server settings"
+      description="Keep the essentials focused: default currency, staff roles, paid-log destination, tipping, checkout expiry, and Telegram integration."
+      action={
+        <Button type="button" className="min-h-11" disabled={actionPending || !isLinkedToCurrentTenant} onClick={() => void handleSave()}>
+          {actionPending ? <Loader2 className="size-4 animate-spin" /> : <Save className="size-4" />}
+          Save Changes
+        </Button>
+      }
+    >
+      <FlashBanner />
+      <DashboardSetupState />
+
+      {isLinkedToCurrentTenant ? (
+        <div className="grid gap-5 xl:grid-cols-[17rem_minmax(0,1fr)]">
+          <SectionMenu
+            title="Settings Menu"
+            items={SETTINGS_MENU_ITEMS}
+            activeId={activeSettingsPanel}
+            onChange={setActiveSettingsPanel}
+          />
+
+          <div className="min-w-0 space-y-5">
+            {activeSettingsPanel === 'default-currency' ? (
+              <Panel
+                title={
+                  <span className="flex items-center gap-2">
+                    Default currency
+                    <InfoButton label="This is the default currency shown across the panel and checkout summaries for this server." />
+                  </span>
+                }
+                description="Choose the primary currency for this Discord server."
+              >
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="default-currency">Currency</Label>
+                    <select
+                      id="default-currency"
+                      className={nativeSelectClass}
+                      value={defaultCurrency}
+                      onChange={(event) => setDefaultCurrency(event.target.value)}
+                    >
+                      {SUPPORTED_CURRENCIES.map((currency) => (
+                        <option key={currency} value={currency}>
+                          {currency}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <InfoTip>Save after changing the default currency so the dashboard and sales summaries stay in sync.</InfoTip>
+                </div>
+              </Panel>
+            ) : null}
+
+            {activeSettingsPanel === 'exchange-rates' ? <ExchangeRatesPanel defaultCurrency={defaultCurrency} /> : null}
+
+            {activeSettingsPanel === 'staff-roles' ? (
+              <Panel
+                title={
+                  <span className="flex items-center gap-2">
+                    Staff roles
+                    <InfoButton label="These roles should represent the team members allowed to work order, payment, and support tasks inside the server." />
+                  </span>
+                }
+                description="Select the Discord roles that should be treated as sales staff."
+              >
+                <div className="space-y-3">
+                  {resources?.roles.length ? (
+                    resources.roles.map((role) => {
+                      const checked = staffRoleIds.includes(role.id);
+                      return (
+                        <label
+                          key={role.id}
+                          className="flex items-center gap-3 rounded-[1.1rem] border border-border/70 bg-background/70 px-3 py-3 text-sm"
+                        >
+                          <Checkbox
+                            checked={checked}
+                            onCheckedChange={(value) =>
+                              setStaffRoleIds((current) =>
+                                value === true
+                                  ? [...new Set([...current, role.id])]
+                                  : current.filter((item) => item !== role.id),
+                              )
+                            }
+                          />
+                          <span className="truncate">{role.name}</span>
+                        </label>
+                      );
+                    })
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No guild roles were returned by Discord.</p>
+                  )}
+                </div>
+              </Panel>
+            ) : null}
+
+            {activeSettingsPanel === 'paid-log-channel' ? (
+              <Panel
+                title={
+                  <span className="flex items-center gap-2">
+                    Paid log channel
+                    <InfoButton label="Successful payment notifications and paid-order events should go here so staff have one clean audit channel." />
+                  </span>
+                }
+                description="Choose the channel that receives the paid-order log feed."
+              >
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="paid-log-channel">Paid log channel</Label>
+                    <select
+                      id="paid-log-channel"
+                      className={nativeSelectClass}
+                      value={paidLogChannelId}
+                      onChange={(event) => setPaidLogChannelId(event.target.value)}
+                    >
+                      <option value="">Select channel</option>
+                      {resources?.channels.map((channel) => (
+                        <option key={channel.id} value={channel.id}>
+                          #{channel.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              </Panel>
+            ) : null}
+
+            {activeSettingsPanel === 'low-stock-alerts' ? (
+              <Panel
+                title={
+                  <span className="flex items-center gap-2">
+                    Low stock alerts
+                    <InfoButton label="Price options with a stock count and a low-stock threshold post a warning here when a paid order takes them to or below the threshold." />
+                  </span>
+                }
+                description="Choose the channel that receives low-stock and sold-out warnings."
+              >
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="low-stock-alert-channel">Low stock alert channel</Label>
+                    <select
+                      id="low-stock-alert-channel"
+                      className={nativeSelectClass}
+                      value={lowStockAlertChannelId}
+                      onChange={(event) => setLowStockAlertChannelId(event.target.value)}
+                    >
+                      <option value="">No alerts</option>
+                      {resources?.channels.map((channel) => (
+                        <option key={channel.id} value={channel.id}>
+                          #{channel.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <InfoTip>
+                    Set stock counts and thresholds per price option in the product editor. Options
+                    without a stock count are never limited or alerted.
+                  </InfoTip>
+                </div>
+              </Panel>
+            ) : null}
+
+            {activeSettingsPanel === 'tipping' ? (
+              <Panel
+                title={
+                  <span className="flex items-center gap-2">
+                    Tipping
+                    <InfoButton label="Control whether the sales flow asks the customer if they want to add an optional tip, in the server's default currency, before checkout." />
+                  </span>
+                }
+                description="Turn the optional tip prompt on or off for this Discord server."
+              >
+                <div className="space-y-5">
+                  <div className="flex flex-col gap-4 rounded-[1.2rem] border border-border/70 bg-background/70 px-4 py-4 sm:flex-row sm:items-center sm:justify-between">
+                    <div>
+                      <p className="font-medium">Enable optional tipping</p>
+                      <p className="text-sm text-muted-foreground">
+                        When enabled, customers are asked if they want to add a {defaultCurrency} tip before
+                        their checkout link is generated.
+                      </p>
+                    </div>
+                    <div id="tip-enabled">
+                      <FeatureToggle
+                        checked={tipEnabled}
+                        label="Enable tipping"
+                        onChange={setTipEnabled}
+                      />
+                    </div>
+                  </div>
+                  <InfoTip>
+                    Save after changing this toggle so the live Discord and Telegram sale flows
+                    pick up the updated tipping behavior.
+                  </InfoTip>
+                </div>
+              </Panel>
+            ) : null}
+
+            {activeSettingsPanel === 'self-service' ? (
+              <Panel
+                title={
+                  <span className="flex items-center gap-2">
+                    Self-service orders
+                    <InfoButton label="Customers run the same basket, coupon, questions and points steps as a staff sale, without waiting for staff to start it." />
+                  </span>
+                }
+                description="Let customers start their own checkout in this Discord server."
+              >
+                <div className="space-y-5">
+                  <div className="flex flex-col gap-4 rounded-[1.2rem] border border-border/70 bg-background/70 px-4 py-4 sm:flex-row sm:items-center sm:justify-between">
+                    <div>
+                      <p className="font-medium">Enable /buy</p>
+                      <p className="text-sm text-muted-foreground">
+                        Customers can use /buy or the Buy button in a ticket channel. Anywhere else the order
+                        continues in their DMs.
+                      </p>
+                    </div>
+                    <div id="self-service-enabled">
+                      <FeatureToggle
+                        checked={selfServiceEnabled}
+                        label="Enable self-service orders"
+                        onChange={setSelfServiceEnabled}
+                      />
+                    </div>
+                  </div>
+                  <InfoTip>
+                    Each customer can start up to 3 self-service checkouts per hour. These orders are
+                    labelled as self-service in the paid log and on the Sales page.
+                  </InfoTip>
+                </div>
+              </Panel>
+            ) : null}
+
+            {activeSettingsPanel === 'checkout-expiry' ? (
+              <Panel
+                title={
+                  <span className="flex items-center gap-2">
+                    Checkout expiry
+                    <InfoButton label="Unpaid checkouts are cancelled once this window passes, and any points reserved for them are returned to the customer." />
+                  </span>
+                }
+                description="Choose how many minutes a checkout link stays valid for this Discord server."
+              >
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="checkout-expiry-minutes">Checkout expiry (minutes)</Label>
+                    <Input
+                      id="checkout-expiry-minutes"
+                      type="number"
+                      min={5}
+                      max={1440}
+                      step={1}
+                      value={checkoutExpiryMinutes}
+                      onChange={(event) => setCheckoutExpiryMinutes(event.target.value)}
+                    />
+                  </div>
+                  <InfoTip>
+                    Between 5 and 1440 minutes. New sales use the saved value; the checkout message in the
+                    ticket is edited to say the links expired once the window passes.
+                  </InfoTip>
+                </div>
+              </Panel>
+            ) : null}
+
+            {activeSettingsPanel === 'subscriptions' ? (
+              <Panel
+                title={
+                  <span className="flex items-center gap-2">
+                    Subscriptions
+                    <InfoButton label="Price options with a renewal period start a subscription when paid. Unpaid renewals lose their purchase roles, or are removed from the linked Telegram chat, once the grace period ends." />
+                  </span>
+                }
+                description="Choose when renewal reminders are sent and how long access survives an unpaid renewal."
+              >
+                <div className="space-y-4">
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="subscription-reminder-days">Reminder (days before renewal)</Label>
+                      <Input
+                        id="subscription-reminder-days"
+                        type="number"
+                        min={1}
+                        max={30}
+                        step={1}
+                        value={subscriptionReminderDays}
+                        onChange={(event) => setSubscriptionReminderDays(event.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="subscription-grace-days">Grace period (days)</Label>
+                      <Input
+                        id="subscription-grace-days"
+                        type="number"
+                        min={0}
+                        max={30}
+                        step={1}
+                        value={subscriptionGraceDays}
+                        onChange={(event) => setSubscriptionGraceDays(event.target.value)}
+                      />
+                    </div>
                   </div>
                   <InfoTip>
-                    Save after changing this toggle so the live Discord and Telegram sale flows
-                    pick up the updated tipping behavior.
+                    The reminder DM carries a fresh checkout link that stays valid until the grace period
+                    ends. New timings apply from each subscription&apos;s next paid period.
+                  </InfoTip>
+                </div>
+              </Panel>
+            ) : null}
+
+            {activeSettingsPanel === 'receipts' ? (
+              <Panel
+                title={
+                  <span className="flex items-center gap-2">
+                    Receipts
+                    <InfoButton label="Receipts are numbered in sequence for this Discord server. The store name falls back to the server name when left empty." />
+                  </span>
+                }
+                description="Choose what your customers see at the top of their receipts and how tax is shown."
+              >
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="invoice-store-name">Store name</Label>
+                    <Input
+                      id="invoice-store-name"
+                      maxLength={120}
+                      value={invoiceStoreName}
+                      onChange={(event) => setInvoiceStoreName(event.target.value)}
+                      placeholder="Server name"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="invoice-store-details">Store details</Label>
+                    <Textarea
+                      id="invoice-store-details"
+                      maxLength={500}
+                      rows={4}
+                      value={invoiceStoreDetails}
+                      onChange={(event) => setInvoiceStoreDetails(event.target.value)}
+                      placeholder={'Business address\nVAT number'}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="invoice-tax-rate">Tax included in prices (%)</Label>
+                    <Input
+                      id="invoice-tax-rate"
+                      inputMode="decimal"
+                      value={invoiceTaxRatePercent}
+                      onChange={(event) => setInvoiceTaxRatePercent(event.target.value)}
+                      placeholder="No tax line"
+                    />
+                  </div>
+                  <InfoTip>
+                    Prices are treated as tax-inclusive, so the receipt shows the tax share of the total
+                    rather than adding tax on top.
+                  </InfoTip>
+                </div>
+              </Panel>
+            ) : null}
+
+            {activeSettingsPanel === 'manual-payments' ? (
+              <Panel
+                title={
+                  <span className="flex items-center gap-2">
+                    Manual payments
+                    <InfoButton label="Customers see these instructions with their checkout. Staff confirm the payment with the Mark as Paid button, which runs the same paid-order steps as a payment provider." />
+                  </span>
+                }
+                description="Accept bank transfers, gift cards or other payments made outside your payment providers."
+              >
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="manual-payment-instructions">Payment instructions</Label>
+                    <Textarea
+                      id="manual-payment-instructions"
+                      maxLength={1000}
+                      rows={5}
+                      value={manualPaymentInstructions}
+                      onChange={(event) => setManualPaymentInstructions(event.target.value)}
+                      placeholder={'Bank transfer to: Example Ltd\nSort code 00-00-00, account 12345678\nUse your order session as the reference.'}
+                    />
+                  </div>
+                  <InfoTip>
+                    Leave empty to turn manual payments off. Each approval is recorded in the audit log with
+                    the staff member and the payment reference they entered.
                   </InfoTip>
                 </div>
               </Panel>
@@ -1919,6 +3040,10 @@ export function SettingsSection() {
                 </div>
               </Panel>
             ) : null}
+
+            {activeSettingsPanel === 'outbound-webhooks' ? <OutboundWebhooksPanel /> : null}
+
+            {activeSettingsPanel === 'api-keys' ? <ApiKeysPanel /> : null}
           </div>
         </div>
       ) : null}
@@ -1933,7 +3058,11 @@ export function PaymentsSection() {
   const [callbackSecret, setCallbackSecret] = useState('');
   const [cryptoEnabled, setCryptoEnabled] = useState(false);
   const [cryptoAddFees, setCryptoAddFees] = useState(false);
+  const [underpaymentTolerance, setUnderpaymentTolerance] = useState(
+    createEmptyIntegration().cryptoUnderpaymentTolerancePercent,
+  );
   const [wallets, setWallets] = useState(createEmptyIntegration().cryptoWallets);
+  const [activePaymentsPanel, setActivePaymentsPanel] = useState<PaymentsPanelId>('gateway');
 
   useEffect(() => {
     const defaults = createEmptyIntegration();
@@ -1941,6 +3070,9 @@ export function PaymentsSection() {
     setCallbackSecret('');
     setCryptoEnabled(integration?.cryptoGatewayEnabled ?? defaults.cryptoGatewayEnabled);
     setCryptoAddFees(integration?.cryptoAddFees ?? defaults.cryptoAddFees);
+    setUnderpaymentTolerance(
+      integration?.cryptoUnderpaymentTolerancePercent ?? defaults.cryptoUnderpaymentTolerancePercent,
+    );
     setWallets(integration?.cryptoWallets ?? defaults.cryptoWallets);
   }, [integration]);
 
@@ -1952,6 +3084,7 @@ export function PaymentsSection() {
         callbackSecret: callbackSecret.trim() || undefined,
         cryptoGatewayEnabled: cryptoEnabled,
         cryptoAddFees,
+        cryptoUnderpaymentTolerancePercent: underpaymentTolerance,
         cryptoWallets: wallets,
       });
       setCallbackSecret('');
@@ -1964,146 +3097,723 @@ export function PaymentsSection() {
       title="Payment controls"
       description="Configure the Voodoo Pay wallet, fixed hosted checkout domain, webhook secret rotation, and optional crypto wallet set."
       action={
-        <Button type="button" className="min-h-11" disabled={actionPending || !isLinkedToCurrentTenant} onClick={() => void handleSave()}>
-          {actionPending ? <Loader2 className="size-4 animate-spin" /> : <Save className="size-4" />}
-          Save Payments
-        </Button>
+        activePaymentsPanel === 'gateway' ? (
+          <Button type="button" className="min-h-11" disabled={actionPending || !isLinkedToCurrentTenant} onClick={() => void handleSave()}>
+            {actionPending ? <Loader2 className="size-4 animate-spin" /> : <Save className="size-4" />}
+            Save Payments
+          </Button>
+        ) : null
       }
     >
       <FlashBanner />
       <DashboardSetupState />
 
       {isLinkedToCurrentTenant ? (
-        <div className="space-y-5">
-          <div className="grid gap-4 xl:grid-cols-3">
-            <OverviewStat icon={CreditCard} title="Payments">
-              <StatusPill
-                active={Boolean(overview?.paymentsConfigured)}
-                activeLabel="Enabled"
-                inactiveLabel="Disabled"
-              />
-            </OverviewStat>
-            <OverviewStat icon={Sparkles} title="Crypto">
-              <StatusPill
-                active={cryptoEnabled}
-                activeLabel="Enabled"
-                inactiveLabel="Disabled"
+        <div className="grid gap-5 xl:grid-cols-[17rem_minmax(0,1fr)]">
+          <SectionMenu
+            title="Payments Menu"
+            items={PAYMENTS_MENU_ITEMS}
+            activeId={activePaymentsPanel}
+            onChange={setActivePaymentsPanel}
+          />
+
+          <div className="min-w-0 space-y-5">
+            {activePaymentsPanel === 'gateway' ? (
+              <>
+                <div className="grid gap-4 xl:grid-cols-3">
+                  <OverviewStat icon={CreditCard} title="Payments">
+                    <StatusPill
+                      active={Boolean(overview?.paymentsConfigured)}
+                      activeLabel="Enabled"
+                      inactiveLabel="Disabled"
+                    />
+                  </OverviewStat>
+                  <OverviewStat icon={Sparkles} title="Crypto">
+                    <StatusPill
+                      active={cryptoEnabled}
+                      activeLabel="Enabled"
+                      inactiveLabel="Disabled"
+                    />
+                  </OverviewStat>
+                  <OverviewStat icon={Bot} title="Webhook">
+                    <p className="text-sm text-muted-foreground">
+                      Save a callback secret whenever you need to rotate provider callback validation.
+                    </p>
+                  </OverviewStat>
+                </div>
+
+                <Panel
+                  title="Wallet and checkout"
+                  description="These fields control the core Voodoo Pay destination, while hosted checkout always stays on the fixed Voodoo Pay domain."
+                >
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="merchant-wallet">USDC Polygon wallet address</Label>
+                      <Input
+                        id="merchant-wallet"
+                        value={walletAddress}
+                        onChange={(event) => setWalletAddress(event.target.value)}
+                        placeholder="0x..."
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="checkout-domain">Checkout domain</Label>
+                      <Input
+                        id="checkout-domain"
+                        value={FIXED_VOODOO_PAY_CHECKOUT_DOMAIN}
+                        readOnly
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Hosted checkout links always use the fixed Voodoo Pay domain.
+                      </p>
+                    </div>
+                    <div className="space-y-2 md:col-span-2">
+                      <Label htmlFor="callback-secret">Optional callback secret rotation</Label>
+                      <Input
+                        id="callback-secret"
+                        type="password"
+                        value={callbackSecret}
+                        onChange={(event) => setCallbackSecret(event.target.value)}
+                        placeholder="Leave blank to keep the current secret"
+                      />
+                    </div>
+                  </div>
+                </Panel>
+
+                <Panel title="Crypto payments" description="Only show wallet-specific controls when the crypto gateway is enabled.">
+                  <div className="space-y-5">
+                    <div className="flex flex-col gap-4 rounded-[1.2rem] border border-border/70 bg-background/70 px-4 py-4 sm:flex-row sm:items-center sm:justify-between">
+                      <div>
+                        <p className="font-medium">Enable crypto payments</p>
+                        <p className="text-sm text-muted-foreground">
+                          Toggle extra wallet routing for BTC, ETH, LTC, DOGE, and other supported chains.
+                        </p>
+                      </div>
+                      <FeatureToggle
+                        checked={cryptoEnabled}
+                        label="Enable crypto payments"
+                        onChange={setCryptoEnabled}
+                      />
+                    </div>
+
+                    {cryptoEnabled ? (
+                      <>
+                        <label className="flex items-center gap-3 rounded-[1.1rem] border border-border/70 bg-background/70 px-4 py-3 text-sm">
+                          <Checkbox
+                            checked={cryptoAddFees}
+                            onCheckedChange={(checked) => setCryptoAddFees(checked === true)}
+                          />
+                          <span>Add gateway fees to crypto checkout totals</span>
+                        </label>
+
+                        <div className="space-y-2">
+                          <Label htmlFor="crypto-underpayment-tolerance">Underpayment tolerance</Label>
+                          <select
+                            id="crypto-underpayment-tolerance"
+                            className={nativeSelectClass}
+                            value={underpaymentTolerance}
+                            onChange={(event) => setUnderpaymentTolerance(Number(event.target.value))}
+                          >
+                            {cryptoUnderpaymentToleranceOptions.map((percent) => (
+                              <option key={percent} value={percent}>
+                                {percent}%
+                              </option>
+                            ))}
+                          </select>
+                          <p className="text-sm text-muted-foreground">
+                            Crypto payments short by more than this are held and staff are alerted in the ticket.
+                          </p>
+                        </div>
+
+                        <div className="grid gap-4 md:grid-cols-2">
+                          {cryptoWalletFields.map(({ key, label }) => (
+                            <div key={key} className="space-y-2">
+                              <Label htmlFor={`wallet-${key}`}>{label}</Label>
+                              <Input
+                                id={`wallet-${key}`}
+                                value={wallets[key] ?? ''}
+                                onChange={(event) =>
+                                  setWallets((current) => ({
+                                    ...current,
+                                    [key]: event.target.value,
+                                  }))
+                                }
+                                placeholder="Optional wallet address"
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      </>
+                    ) : (
+                      <InfoTip>Crypto wallet inputs stay hidden until crypto payments are enabled.</InfoTip>
+                    )}
+                  </div>
+                </Panel>
+              </>
+            ) : null}
+
+            {activePaymentsPanel === 'webhook-events' ? <WebhookEventsPanel /> : null}
+          </div>
+        </div>
+      ) : null}
+    </SectionShell>
+  );
+}
+
+function WebhookEventsPanel() {
+  const { guildId, showFlash, tenantId } = useDashboardContext();
+  const [events, setEvents] = useState<WebhookEventRecord[]>([]);
+  const [canReplay, setCanReplay] = useState(false);
+  const [loadingEvents, setLoadingEvents] = useState(false);
+  const [filters, setFilters] = useState<WebhookEventFilterState>({ provider: '', status: '', orderSessionId: '' });
+  const [selectedEvent, setSelectedEvent] = useState<WebhookEventDetailRecord | null>(null);
+  const [loadingEventId, setLoadingEventId] = useState<string | null>(null);
+  const [replayOpen, setReplayOpen] = useState(false);
+  const [replayPending, setReplayPending] = useState(false);
+
+  const basePath = `/api/guilds/${encodeURIComponent(guildId)}/webhook-events`;
+
+  const loadEvents = useEffectEvent(async () => {
+    setLoadingEvents(true);
+    try {
+      const response = await dashboardApi<{ events: WebhookEventRecord[]; canReplay: boolean }>(
+        `${basePath}?${buildWebhookEventQuery(tenantId, filters)}`,
+      );
+      setEvents(response.events);
+      setCanReplay(response.canReplay);
+    } catch (loadError) {
+      showFlash('error', getMessage(loadError, 'Failed to load webhook deliveries.'));
+    } finally {
+      setLoadingEvents(false);
+    }
+  });
+
+  useEffect(() => {
+    setSelectedEvent(null);
+    void loadEvents();
+  }, [guildId, tenantId, filters.provider, filters.status]);
+
+  async function openEvent(webhookEventId: string) {
+    setLoadingEventId(webhookEventId);
+    try {
+      const response = await dashboardApi<{ event: WebhookEventDetailRecord }>(
+        `${basePath}/${encodeURIComponent(webhookEventId)}?tenantId=${encodeURIComponent(tenantId)}`,
+      );
+      setSelectedEvent(response.event);
+    } catch (loadError) {
+      showFlash('error', getMessage(loadError, 'Failed to load webhook delivery.'));
+    } finally {
+      setLoadingEventId(null);
+    }
+  }
+
+  async function replaySelectedEvent() {
+    if (!selectedEvent) {
+      return;
+    }
+
+    setReplayPending(true);
+    try {
+      const response = await dashboardApi<{ status: WebhookEventStatus }>(
+        `${basePath}/${encodeURIComponent(selectedEvent.id)}/replay`,
+        'POST',
+        { tenantId },
+      );
+      showFlash(
+        response.status === 'processed' ? 'success' : 'error',
+        response.status === 'processed'
+          ? 'Webhook replayed and processed.'
+          : `Webhook replayed but ended as ${WEBHOOK_EVENT_STATUS_LABELS[response.status].toLowerCase()}.`,
+      );
+      setReplayOpen(false);
+      await openEvent(selectedEvent.id);
+      await loadEvents();
+    } catch (replayError) {
+      showFlash('error', getMessage(replayError, 'Failed to replay webhook.'));
+    } finally {
+      setReplayPending(false);
+    }
+  }
+
+  return (
+    <>
+      <Panel
+        title={
+          <span className="flex items-center gap-2">
+            Webhook deliveries
+            <InfoButton label="The latest 100 payment webhooks for this server. Failed deliveries are retried automatically with backoff and move to dead letter after 10 attempts." />
+          </span>
+        }
+        description="Open a delivery to see its payload and every processing attempt. Secret fields are redacted."
+        action={
+          <Button type="button" size="sm" variant="outline" disabled={loadingEvents} onClick={() => void loadEvents()}>
+            {loadingEvents ? <Loader2 className="size-4 animate-spin" /> : <RefreshCcw className="size-4" />}
+            Refresh
+          </Button>
+        }
+      >
+        <div className="space-y-4">
+          <div className="grid gap-3 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="webhook-event-provider">Provider</Label>
+              <select
+                id="webhook-event-provider"
+                className={nativeSelectClass}
+                value={filters.provider}
+                onChange={(event) =>
+                  setFilters((current) => ({ ...current, provider: event.target.value as WebhookEventFilterState['provider'] }))
+                }
+              >
+                <option value="">All providers</option>
+                {Object.entries(WEBHOOK_EVENT_PROVIDER_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook-event-status">Status</Label>
+              <select
+                id="webhook-event-status"
+                className={nativeSelectClass}
+                value={filters.status}
+                onChange={(event) =>
+                  setFilters((current) => ({ ...current, status: event.target.value as WebhookEventFilterState['status'] }))
+                }
+              >
+                <option value="">All statuses</option>
+                {Object.entries(WEBHOOK_EVENT_STATUS_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook-event-order">Order session</Label>
+              <Input
+                id="webhook-event-order"
+                value={filters.orderSessionId}
+                onChange={(event) => setFilters((current) => ({ ...current, orderSessionId: event.target.value }))}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter') {
+                    void loadEvents();
+                  }
+                }}
+                placeholder="Order session ID, then Enter"
               />
-            </OverviewStat>
-            <OverviewStat icon={Bot} title="Webhook">
-              <p className="text-sm text-muted-foreground">
-                Save a callback secret whenever you need to rotate provider callback validation.
-              </p>
-            </OverviewStat>
+            </div>
+          </div>
+
+          {events.length === 0 ? (
+            <InfoTip>{loadingEvents ? 'Loading webhook deliveries...' : 'No webhook deliveries match these filters.'}</InfoTip>
+          ) : (
+            <div className="space-y-2">
+              {events.map((event) => (
+                <button
+                  key={event.id}
+                  type="button"
+                  className="flex w-full flex-col gap-2 rounded-[1.1rem] border border-border/70 bg-background/70 px-4 py-3 text-left text-sm transition hover:border-primary/50 sm:flex-row sm:items-center sm:justify-between"
+                  onClick={() => void openEvent(event.id)}
+                >
+                  <div className="min-w-0 space-y-1">
+                    <p className="font-medium">
+                      {WEBHOOK_EVENT_PROVIDER_LABELS[event.provider]} · {event.topic}
+                    </p>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {formatDashboardDateTime(event.createdAt)}
+                      {event.orderSessionId ? ` · Order ${event.orderSessionId}` : ''}
+                      {event.failureReason ? ` · ${event.failureReason}` : ''}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    {loadingEventId === event.id ? <Loader2 className="size-4 animate-spin" /> : null}
+                    <Badge variant="outline">
+                      {event.attemptCount} {event.attemptCount === 1 ? 'attempt' : 'attempts'}
+                    </Badge>
+                    <Badge variant={event.status === 'processed' ? 'default' : 'outline'}>{describeWebhookEventStatus(event)}</Badge>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </Panel>
+
+      {selectedEvent ? (
+        <div className="fixed inset-0 z-[3000] flex justify-end bg-black/60 backdrop-blur-sm" onClick={() => setSelectedEvent(null)}>
+          <div
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="webhook-event-detail-title"
+            className="flex h-full w-full max-w-2xl flex-col gap-5 overflow-y-auto border-l border-border/70 bg-card px-6 py-6 shadow-2xl shadow-black/45"
+            onClick={(event) => event.stopPropagation()}
+          >
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <h3 id="webhook-event-detail-title" className="text-xl font-semibold tracking-tight">
+                  {WEBHOOK_EVENT_PROVIDER_LABELS[selectedEvent.provider]} · {selectedEvent.topic}
+                </h3>
+                <p className="text-sm text-muted-foreground">
+                  Delivery {selectedEvent.providerDeliveryId} · received {formatDashboardDateTime(selectedEvent.createdAt)}
+                </p>
+              </div>
+              <Button type="button" size="sm" variant="outline" onClick={() => setSelectedEvent(null)}>
+                <X className="size-4" />
+                Close
+              </Button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline">{describeWebhookEventStatus(selectedEvent)}</Badge>
+              {selectedEvent.orderSessionId ? <Badge variant="outline">Order {selectedEvent.orderSessionId}</Badge> : null}
+              {selectedEvent.status === 'failed' && selectedEvent.nextRetryAt ? (
+                <Badge variant="outline">Next retry {formatDashboardDateTime(selectedEvent.nextRetryAt)}</Badge>
+              ) : null}
+              {canReplay ? (
+                <Button
+                  type="button"
+                  size="sm"
+                  className="ml-auto"
+                  disabled={!canReplayWebhookEvent(selectedEvent) || replayPending}
+                  onClick={() => setReplayOpen(true)}
+                >
+                  <RotateCcw className="size-4" />
+                  Replay
+                </Button>
+              ) : null}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-xs font-semibold uppercase tracking-[0.16em] text-muted-foreground">Attempt history</p>
+              {selectedEvent.attemptHistory.length === 0 ? (
+                <InfoTip>No processing attempts have been recorded for this delivery yet.</InfoTip>
+              ) : (
+                <ol className="space-y-2">
+                  {selectedEvent.attemptHistory.map((attempt) => (
+                    <li
+                      key={`${attempt.attempt}-${attempt.at}`}
+                      className="rounded-[1.1rem] border border-border/70 bg-background/70 px-4 py-3 text-sm"
+                    >
+                      <p className="font-medium">{describeWebhookAttempt(attempt)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDashboardDateTime(attempt.at)}
+                        {attempt.failureReason ? ` · ${attempt.failureReason}` : ''}
+                      </p>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-xs font-semibold uppercase tracking-[0.16em] text-muted-foreground">Payload</p>
+              <pre className="max-h-[28rem] overflow-auto rounded-[1.1rem] border border-border/70 bg-background/70 px-4 py-3 text-xs leading-5">
+                {JSON.stringify(selectedEvent.payload, null, 2)}
+              </pre>
+            </div>
+          </div>
+        </div>
+      ) : null}
+
+      <ConfirmationModal
+        open={replayOpen}
+        title="Replay webhook"
+        description="Run this delivery through payment processing again. Steps that already completed for the order are not repeated. The replay is recorded in the audit log."
+        confirmLabel={replayPending ? 'Replaying...' : 'Replay webhook'}
+        pending={replayPending}
+        onClose={() => setReplayOpen(false)}
+        onConfirm={() => void replaySelectedEvent()}
+      />
+    </>
+  );
+}
+
+function AutomaticDiscountsPanel({ defaultCurrency }: { defaultCurrency: string }) {
+  const { categories, guildId, showFlash, tenantId } = useDashboardContext();
+  const [discounts, setDiscounts] = useState<AutomaticDiscountRecord[]>([]);
+  const [loadingDiscounts, setLoadingDiscounts] = useState(false);
+  const [editingDiscountId, setEditingDiscountId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [ruleType, setRuleType] = useState<AutomaticDiscountRuleType>('spend_threshold');
+  const [minSubtotalMajor, setMinSubtotalMajor] = useState('');
+  const [discountPercent, setDiscountPercent] = useState('');
+  const [category, setCategory] = useState('');
+  const [buyQuantity, setBuyQuantity] = useState('');
+  const [freeQuantity, setFreeQuantity] = useState('1');
+  const [active, setActive] = useState(true);
+
+  const basePath = `/api/guilds/${encodeURIComponent(guildId)}/automatic-discounts`;
+
+  const loadDiscounts = useEffectEvent(async () => {
+    setLoadingDiscounts(true);
+    try {
+      const response = await dashboardApi<{ discounts: AutomaticDiscountRecord[] }>(
+        `${basePath}?tenantId=${encodeURIComponent(tenantId)}`,
+      );
+      setDiscounts(response.discounts);
+    } catch (loadError) {
+      showFlash('error', getMessage(loadError, 'Failed to load automatic discounts.'));
+    } finally {
+      setLoadingDiscounts(false);
+    }
+  });
+
+  useEffect(() => {
+    void loadDiscounts();
+  }, [guildId, tenantId]);
+
+  function resetForm() {
+    setEditingDiscountId(null);
+    setName('');
+    setRuleType('spend_threshold');
+    setMinSubtotalMajor('');
+    setDiscountPercent('');
+    setCategory('');
+    setBuyQuantity('');
+    setFreeQuantity('1');
+    setActive(true);
+  }
+
+  function editDiscount(discount: AutomaticDiscountRecord) {
+    setEditingDiscountId(discount.id);
+    setName(discount.name);
+    setRuleType(discount.ruleType);
+    setMinSubtotalMajor(discount.minSubtotalMinor > 0 ? formatMinorToMajor(discount.minSubtotalMinor, defaultCurrency) : '');
+    setDiscountPercent(discount.discountPercent > 0 ? String(discount.discountPercent) : '');
+    setCategory(discount.category ?? '');
+    setBuyQuantity(discount.buyQuantity > 0 ? String(discount.buyQuantity) : '');
+    setFreeQuantity(discount.freeQuantity > 0 ? String(discount.freeQuantity) : '1');
+    setActive(discount.active);
+  }
+
+  async function handleSaveDiscount() {
+    try {
+      const discount = {
+        name: name.trim(),
+        ruleType,
+        minSubtotalMinor: minSubtotalMajor.trim() ? parsePriceToMinor(minSubtotalMajor, defaultCurrency) : 0,
+        discountPercent: ruleType === 'spend_threshold' ? parseCouponPercent(discountPercent) : 0,
+        category: category || null,
+        buyQuantity: Number(buyQuantity.trim() || 0),
+        freeQuantity: Number(freeQuantity.trim() || 0),
+        active,
+      };
+
+      if (editingDiscountId) {
+        await dashboardApi(`${basePath}/${encodeURIComponent(editingDiscountId)}`, 'PATCH', { tenantId, discount });
+        showFlash('success', 'Automatic discount updated.');
+      } else {
+        await dashboardApi(basePath, 'POST', { tenantId, discount });
+        showFlash('success', 'Automatic discount created.');
+      }
+
+      resetForm();
+      await loadDiscounts();
+    } catch (saveError) {
+      showFlash('error', getMessage(saveError, 'Failed to save automatic discount.'));
+    }
+  }
+
+  async function deleteDiscount(discountId: string) {
+    try {
+      await dashboardApi(`${basePath}/${encodeURIComponent(discountId)}?tenantId=${encodeURIComponent(tenantId)}`, 'DELETE');
+      showFlash('success', 'Automatic discount deleted.');
+      if (editingDiscountId === discountId) {
+        resetForm();
+      }
+      await loadDiscounts();
+    } catch (deleteError) {
+      showFlash('error', getMessage(deleteError, 'Failed to delete automatic discount.'));
+    }
+  }
+
+  return (
+    <Panel
+      title={
+        <span className="flex items-center gap-2">
+          Automatic discounts
+          <InfoButton label="These apply to every matching basket without a code. Each one shows as its own line in the basket, the paid log, and receipts." />
+        </span>
+      }
+      description={`Thresholds are in ${defaultCurrency}. Volume prices are set on each price option in Products.`}
+      action={
+        <Button type="button" size="sm" variant="outline" disabled={loadingDiscounts} onClick={() => void loadDiscounts()}>
+          {loadingDiscounts ? <Loader2 className="size-4 animate-spin" /> : <RefreshCcw className="size-4" />}
+          Refresh
+        </Button>
+      }
+    >
+      <div className="space-y-4">
+        <div className="grid gap-3 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="automatic-discount-name">Name shown to customers</Label>
+            <Input
+              id="automatic-discount-name"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="Spend £50, save 10%"
+            />
           </div>
-
-          <Panel
-            title="Wallet and checkout"
-            description="These fields control the core Voodoo Pay destination, while hosted checkout always stays on the fixed Voodoo Pay domain."
-          >
-            <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="automatic-discount-type">Rule</Label>
+            <select
+              id="automatic-discount-type"
+              className={nativeSelectClass}
+              value={ruleType}
+              onChange={(event) => setRuleType(event.target.value as AutomaticDiscountRuleType)}
+            >
+              <option value="spend_threshold">Spend over an amount, get a percentage off</option>
+              <option value="buy_x_get_y">Buy some items, get more free</option>
+            </select>
+          </div>
+          {ruleType === 'spend_threshold' ? (
+            <>
               <div className="space-y-2">
-                <Label htmlFor="merchant-wallet">USDC Polygon wallet address</Label>
+                <Label htmlFor="automatic-discount-min-subtotal">Basket over ({defaultCurrency})</Label>
                 <Input
-                  id="merchant-wallet"
-                  value={walletAddress}
-                  onChange={(event) => setWalletAddress(event.target.value)}
-                  placeholder="0x..."
+                  id="automatic-discount-min-subtotal"
+                  inputMode="decimal"
+                  value={minSubtotalMajor}
+                  onChange={(event) => setMinSubtotalMajor(event.target.value)}
+                  placeholder="Any amount"
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="checkout-domain">Checkout domain</Label>
+                <Label htmlFor="automatic-discount-percent">Percent off</Label>
                 <Input
-                  id="checkout-domain"
-                  value={FIXED_VOODOO_PAY_CHECKOUT_DOMAIN}
-                  readOnly
+                  id="automatic-discount-percent"
+                  inputMode="decimal"
+                  value={discountPercent}
+                  onChange={(event) => setDiscountPercent(event.target.value)}
+                  placeholder="10"
                 />
-                <p className="text-xs text-muted-foreground">
-                  Hosted checkout links always use the fixed Voodoo Pay domain.
-                </p>
               </div>
+            </>
+          ) : (
+            <>
               <div className="space-y-2 md:col-span-2">
-                <Label htmlFor="callback-secret">Optional callback secret rotation</Label>
+                <Label htmlFor="automatic-discount-category">Category</Label>
+                <select
+                  id="automatic-discount-category"
+                  className={nativeSelectClass}
+                  value={category}
+                  onChange={(event) => setCategory(event.target.value)}
+                >
+                  <option value="">Any category</option>
+                  {categories.map((item) => (
+                    <option key={item.name} value={item.name}>
+                      {item.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="automatic-discount-buy">Paid items</Label>
                 <Input
-                  id="callback-secret"
-                  type="password"
-                  value={callbackSecret}
-                  onChange={(event) => setCallbackSecret(event.target.value)}
-                  placeholder="Leave blank to keep the current secret"
+                  id="automatic-discount-buy"
+                  inputMode="numeric"
+                  value={buyQuantity}
+                  onChange={(event) => setBuyQuantity(event.target.value)}
+                  placeholder="3"
                 />
               </div>
-            </div>
-          </Panel>
-
-          <Panel title="Crypto payments" description="Only show wallet-specific controls when the crypto gateway is enabled.">
-            <div className="space-y-5">
-              <div className="flex flex-col gap-4 rounded-[1.2rem] border border-border/70 bg-background/70 px-4 py-4 sm:flex-row sm:items-center sm:justify-between">
-                <div>
-                  <p className="font-medium">Enable crypto payments</p>
-                  <p className="text-sm text-muted-foreground">
-                    Toggle extra wallet routing for BTC, ETH, LTC, DOGE, and other supported chains.
-                  </p>
-                </div>
-                <FeatureToggle
-                  checked={cryptoEnabled}
-                  label="Enable crypto payments"
-                  onChange={setCryptoEnabled}
+              <div className="space-y-2">
+                <Label htmlFor="automatic-discount-free">Free items</Label>
+                <Input
+                  id="automatic-discount-free"
+                  inputMode="numeric"
+                  value={freeQuantity}
+                  onChange={(event) => setFreeQuantity(event.target.value)}
+                  placeholder="1"
                 />
               </div>
+            </>
+          )}
+        </div>
 
-              {cryptoEnabled ? (
-                <>
-                  <label className="flex items-center gap-3 rounded-[1.1rem] border border-border/70 bg-background/70 px-4 py-3 text-sm">
-                    <Checkbox
-                      checked={cryptoAddFees}
-                      onCheckedChange={(checked) => setCryptoAddFees(checked === true)}
-                    />
-                    <span>Add gateway fees to crypto checkout totals</span>
-                  </label>
+        <label className="flex items-center gap-3 rounded-[1.1rem] border border-border/70 bg-background/70 px-4 py-3 text-sm">
+          <Checkbox checked={active} onCheckedChange={(checked) => setActive(checked === true)} />
+          <span>Discount active</span>
+        </label>
 
-                  <div className="grid gap-4 md:grid-cols-2">
-                    {cryptoWalletFields.map(({ key, label }) => (
-                      <div key={key} className="space-y-2">
-                        <Label htmlFor={`wallet-${key}`}>{label}</Label>
-                        <Input
-                          id={`wallet-${key}`}
-                          value={wallets[key] ?? ''}
-                          onChange={(event) =>
-                            setWallets((current) => ({
-                              ...current,
-                              [key]: event.target.value,
-                            }))
-                          }
-                          placeholder="Optional wallet address"
-                        />
-                      </div>
-                    ))}
-                  </div>
-                </>
-              ) : (
-                <InfoTip>Crypto wallet inputs stay hidden until crypto payments are enabled.</InfoTip>
-              )}
-            </div>
-          </Panel>
+        <div className="flex flex-col gap-3 sm:flex-row">
+          <Button type="button" className="min-h-11 sm:flex-1" onClick={() => void handleSaveDiscount()}>
+            <Plus className="size-4" />
+            {editingDiscountId ? 'Save Discount' : 'Add Discount'}
+          </Button>
+          {editingDiscountId ? (
+            <Button type="button" variant="outline" className="min-h-11 sm:flex-1" onClick={resetForm}>
+              Cancel Edit
+            </Button>
+          ) : null}
         </div>
-      ) : null}
-    </SectionShell>
+
+        {loadingDiscounts ? (
+          <p className="text-sm text-muted-foreground">Loading automatic discounts...</p>
+        ) : discounts.length ? (
+          discounts.map((discount) => (
+            <div
+              key={discount.id}
+              className="flex flex-col gap-3 rounded-[1.1rem] border border-border/70 bg-background/70 px-4 py-3 sm:flex-row sm:items-center sm:justify-between"
+            >
+              <div className="min-w-0">
+                <p className="font-medium">
+                  {discount.name}
+                  {discount.active ? '' : ' (inactive)'}
+                </p>
+                <p className="mt-1 text-sm text-muted-foreground">{describeAutomaticDiscount(discount, defaultCurrency)}</p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button type="button" size="sm" variant="outline" onClick={() => editDiscount(discount)}>
+                  Edit
+                </Button>
+                <Button type="button" size="sm" variant="outline" onClick={() => void deleteDiscount(discount.id)}>
+                  <Trash2 className="size-4" />
+                  Delete
+                </Button>
+              </div>
+            </div>
+          ))
+        ) : (
+          <p className="text-sm text-muted-foreground">No automatic discounts yet.</p>
+        )}
+
+        <InfoTip>
+          Buy-X-get-Y deals make the cheapest matching items free. Spend thresholds are checked after volume prices and
+          other deals.
+        </InfoTip>
+      </div>
+    </Panel>
   );
 }
 
 export function CouponsSection() {
   const { actionPending, categories, config, guildId, isLinkedToCurrentTenant, products, saveConfig, showFlash, tenantId } =
     useDashboardContext();
+  const couponCurrency = config?.defaultCurrency || DEFAULT_CURRENCY;
   const [activeCouponsPanel, setActiveCouponsPanel] = useState<CouponPanelId>('settings');
   const [loadingCoupons, setLoadingCoupons] = useState(false);
   const [coupons, setCoupons] = useState<CouponRecord[]>([]);
   const [editingCouponId, setEditingCouponId] = useState<string | null>(null);
   const [couponCode, setCouponCode] = useState('');
+  const [discountType, setDiscountType] = useState<CouponDiscountType>('fixed');
   const [discountMajor, setDiscountMajor] = useState('');
+  const [discountPercent, setDiscountPercent] = useState('');
+  const [maxDiscountMajor, setMaxDiscountMajor] = useState('');
+  const [minSubtotalMajor, setMinSubtotalMajor] = useState('');
+  const [couponStartsAt, setCouponStartsAt] = useState('');
+  const [couponEndsAt, setCouponEndsAt] = useState('');
+  const [maxRedemptions, setMaxRedemptions] = useState('');
+  const [maxRedemptionsPerCustomer, setMaxRedemptionsPerCustomer] = useState('');
   const [couponActive, setCouponActive] = useState(true);
   const [allowedCategories, setAllowedCategories] = useState<string[]>([]);
   const [allowedProductIds, setAllowedProductIds] = useState<string[]>([]);
   const [allowedVariantIds, setAllowedVariantIds] = useState<string[]>([]);
+  const [redemptionsCouponId, setRedemptionsCouponId] = useState<string | null>(null);
+  const [couponRedemptions, setCouponRedemptions] = useState<CouponRedemptionRecord[]>([]);
+  const [loadingRedemptions, setLoadingRedemptions] = useState(false);
 
   const loadCoupons = useEffectEvent(async () => {
     if (!config?.couponsEnabled) {
@@ -2133,7 +3843,7 @@ export function CouponsSection() {
   }, [config?.couponsEnabled]);
 
   useEffect(() => {
-    if (!config?.couponsEnabled && activeCouponsPanel !== 'settings') {
+    if (!config?.couponsEnabled && activeCouponsPanel !== 'settings' && activeCouponsPanel !== 'automatic-discounts') {
       setActiveCouponsPanel('settings');
     }
   }, [activeCouponsPanel, config?.couponsEnabled]);
@@ -2141,7 +3851,15 @@ export function CouponsSection() {
   function resetCouponForm() {
     setEditingCouponId(null);
     setCouponCode('');
+    setDiscountType('fixed');
     setDiscountMajor('');
+    setDiscountPercent('');
+    setMaxDiscountMajor('');
+    setMinSubtotalMajor('');
+    setCouponStartsAt('');
+    setCouponEndsAt('');
+    setMaxRedemptions('');
+    setMaxRedemptionsPerCustomer('');
     setCouponActive(true);
     setAllowedCategories([]);
     setAllowedProductIds([]);
@@ -2152,7 +3870,16 @@ export function CouponsSection() {
     try {
       const coupon = {
         code: couponCode.trim(),
-        discountMinor: parsePriceToMinor(discountMajor),
+        discountType,
+        discountMinor: discountType === 'fixed' ? parsePriceToMinor(discountMajor, couponCurrency) : 0,
+        discountPercent: discountType === 'percent' ? parseCouponPercent(discountPercent) : 0,
+        maxDiscountMinor:
+          discountType === 'percent' && maxDiscountMajor.trim() ? parsePriceToMinor(maxDiscountMajor, couponCurrency) : null,
+        minSubtotalMinor: minSubtotalMajor.trim() ? parsePriceToMinor(minSubtotalMajor, couponCurrency) : 0,
+        startsAt: fromDateTimeLocalInput(couponStartsAt),
+        endsAt: fromDateTimeLocalInput(couponEndsAt),
+        maxRedemptions: parseOptionalCouponLimit(maxRedemptions, 'Total uses'),
+        maxRedemptionsPerCustomer: parseOptionalCouponLimit(maxRedemptionsPerCustomer, 'Uses per customer'),
         active: couponActive,
         allowedCategories,
         allowedProductIds,
@@ -2195,11 +3922,40 @@ export function CouponsSection() {
     }
   }
 
+  async function loadCouponRedemptions(couponId: string) {
+    setRedemptionsCouponId(couponId);
+    setLoadingRedemptions(true);
+    try {
+      const response = await dashboardApi<{
+        performance: CouponPerformance;
+        redemptions: CouponRedemptionRecord[];
+      }>(
+        `/api/guilds/${encodeURIComponent(guildId)}/coupons/${encodeURIComponent(couponId)}/redemptions?tenantId=${encodeURIComponent(tenantId)}`,
+      );
+      setCouponRedemptions(response.redemptions);
+    } catch (loadError) {
+      setCouponRedemptions([]);
+      showFlash('error', getMessage(loadError, 'Failed to load coupon redemptions.'));
+    } finally {
+      setLoadingRedemptions(false);
+    }
+  }
+
   function editCoupon(coupon: CouponRecord) {
     setActiveCouponsPanel('create-coupon');
     setEditingCouponId(coupon.id);
     setCouponCode(coupon.code);
-    setDiscountMajor(formatMinorToMajor(coupon.discountMinor));
+    setDiscountType(coupon.discountType);
+    setDiscountMajor(coupon.discountType === 'fixed' ? formatMinorToMajor(coupon.discountMinor, couponCurrency) : '');
+    setDiscountPercent(coupon.discountType === 'percent' ? String(coupon.discountPercent) : '');
+    setMaxDiscountMajor(coupon.maxDiscountMinor !== null ? formatMinorToMajor(coupon.maxDiscountMinor, couponCurrency) : '');
+    setMinSubtotalMajor(coupon.minSubtotalMinor > 0 ? formatMinorToMajor(coupon.minSubtotalMinor, couponCurrency) : '');
+    setCouponStartsAt(toDateTimeLocalInput(coupon.startsAt));
+    setCouponEndsAt(toDateTimeLocalInput(coupon.endsAt));
+    setMaxRedemptions(coupon.maxRedemptions !== null ? String(coupon.maxRedemptions) : '');
+    setMaxRedemptionsPerCustomer(
+      coupon.maxRedemptionsPerCustomer !== null ? String(coupon.maxRedemptionsPerCustomer) : '',
+    );
     setCouponActive(coupon.active);
     setAllowedCategories(coupon.allowedCategories);
     setAllowedProductIds(coupon.allowedProductIds);
@@ -2278,10 +4034,10 @@ export function CouponsSection() {
                     <InfoButton label="Coupons can apply server-wide or be narrowed to categories, specific products, and even individual variations." />
                   </span>
                 }
-                description="Choose a code, discount value, and optional category, product, or variation scope."
+                description="Choose a code, a fixed or percentage discount, optional limits, and an optional category, product, or variation scope."
               >
                 <div className="space-y-4">
-                  <div className="grid gap-4 md:grid-cols-2">
+                  <div className="grid gap-4 md:grid-cols-3">
                     <div className="space-y-2">
                       <Label htmlFor="coupon-code">Coupon code</Label>
                       <Input
@@ -2292,16 +4048,111 @@ export function CouponsSection() {
                       />
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor="coupon-discount">Discount amount</Label>
+                      <Label htmlFor="coupon-discount-type">Discount type</Label>
+                      <select
+                        id="coupon-discount-type"
+                        className={nativeSelectClass}
+                        value={discountType}
+                        onChange={(event) => setDiscountType(event.target.value as CouponDiscountType)}
+                      >
+                        <option value="fixed">Fixed amount</option>
+                        <option value="percent">Percentage</option>
+                      </select>
+                    </div>
+                    {discountType === 'fixed' ? (
+                      <div className="space-y-2">
+                        <Label htmlFor="coupon-discount">Discount amount</Label>
+                        <Input
+                          id="coupon-discount"
+                          value={discountMajor}
+                          onChange={(event) => setDiscountMajor(event.target.value)}
+                          placeholder="5.00"
+                        />
+                      </div>
+                    ) : (
+                      <div className="space-y-2">
+                        <Label htmlFor="coupon-discount-percent">Discount percentage</Label>
+                        <Input
+                          id="coupon-discount-percent"
+                          type="number"
+                          min={1}
+                          max={100}
+                          value={discountPercent}
+                          onChange={(event) => setDiscountPercent(event.target.value)}
+                          placeholder="15"
+                        />
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+                    {discountType === 'percent' ? (
+                      <div className="space-y-2">
+                        <Label htmlFor="coupon-max-discount">Maximum discount (optional)</Label>
+                        <Input
+                          id="coupon-max-discount"
+                          value={maxDiscountMajor}
+                          onChange={(event) => setMaxDiscountMajor(event.target.value)}
+                          placeholder="10.00"
+                        />
+                      </div>
+                    ) : null}
+                    <div className="space-y-2">
+                      <Label htmlFor="coupon-min-subtotal">Minimum basket subtotal (optional)</Label>
+                      <Input
+                        id="coupon-min-subtotal"
+                        value={minSubtotalMajor}
+                        onChange={(event) => setMinSubtotalMajor(event.target.value)}
+                        placeholder="25.00"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="coupon-starts-at">Starts (optional)</Label>
+                      <Input
+                        id="coupon-starts-at"
+                        type="datetime-local"
+                        value={couponStartsAt}
+                        onChange={(event) => setCouponStartsAt(event.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="coupon-ends-at">Ends (optional)</Label>
+                      <Input
+                        id="coupon-ends-at"
+                        type="datetime-local"
+                        value={couponEndsAt}
+                        onChange={(event) => setCouponEndsAt(event.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="coupon-max-redemptions">Total uses (optional)</Label>
+                      <Input
+                        id="coupon-max-redemptions"
+                        type="number"
+                        min={1}
+                        value={maxRedemptions}
+                        onChange={(event) => setMaxRedemptions(event.target.value)}
+                        placeholder="100"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="coupon-max-redemptions-per-customer">Uses per customer (optional)</Label>
                       <Input
-                        id="coupon-discount"
-                        value={discountMajor}
-                        onChange={(event) => setDiscountMajor(event.target.value)}
-                        placeholder="5.00"
+                        id="coupon-max-redemptions-per-customer"
+                        type="number"
+                        min={1}
+                        value={maxRedemptionsPerCustomer}
+                        onChange={(event) => setMaxRedemptionsPerCustomer(event.target.value)}
+                        placeholder="1"
                       />
                     </div>
                   </div>
 
+                  <InfoTip>
+                    Uses count paid orders plus open checkouts. A customer is matched by email or by their Discord
+                    or Telegram account.
+                  </InfoTip>
+
                   <label className="flex items-center gap-3 rounded-[1.1rem] border border-border/70 bg-background/70 px-4 py-3 text-sm">
                     <Checkbox checked={couponActive} onCheckedChange={(checked) => setCouponActive(checked === true)} />
                     <span>Coupon active</span>
@@ -2430,6 +4281,10 @@ export function CouponsSection() {
                             ? `${coupon.allowedVariantIds.length} variation${coupon.allowedVariantIds.length === 1 ? '' : 's'}`
                             : null,
                         ].filter((value): value is string => Boolean(value));
+                        const ruleParts = describeCouponRuleSummary(
+                          coupon,
+                          config?.defaultCurrency || DEFAULT_CURRENCY,
+                        );
 
                         return (
                           <div
@@ -2440,10 +4295,7 @@ export function CouponsSection() {
                               <div className="flex flex-wrap items-center gap-2">
                                 <p className="font-semibold">{coupon.code}</p>
                                 <Badge variant="outline">
-                                  {formatCurrencyMinor(
-                                    coupon.discountMinor,
-                                    config?.defaultCurrency || DEFAULT_CURRENCY,
-                                  )}
+                                  {formatCouponDiscountLabel(coupon, config?.defaultCurrency || DEFAULT_CURRENCY)}
                                 </Badge>
                                 <Badge variant="outline">{coupon.active ? 'Active' : 'Inactive'}</Badge>
                               </div>
@@ -2452,6 +4304,9 @@ export function CouponsSection() {
                                   ? `Scoped to ${scopeParts.join(', ')}.`
                                   : 'Applies to all categories and products.'}
                               </p>
+                              {ruleParts.length ? (
+                                <p className="mt-1 text-sm text-muted-foreground">{ruleParts.join(' · ')}</p>
+                              ) : null}
                             </div>
                             <div className="flex flex-wrap gap-2">
                               <Button type="button" size="sm" variant="outline" onClick={() => editCoupon(coupon)}>
@@ -2472,6 +4327,106 @@ export function CouponsSection() {
                 )}
               </Panel>
             ) : null}
+
+            {config?.couponsEnabled && activeCouponsPanel === 'coupon-performance' ? (
+              <Panel
+                title="Coupon performance"
+                description="Redemptions, discount given, and revenue from paid orders that used each coupon."
+              >
+                {coupons.length ? (
+                  <div className="space-y-3">
+                    {coupons.map((coupon) => {
+                      const currency = config?.defaultCurrency || DEFAULT_CURRENCY;
+                      const isSelected = redemptionsCouponId === coupon.id;
+
+                      return (
+                        <div
+                          key={coupon.id}
+                          className="space-y-3 rounded-[1.2rem] border border-border/70 bg-background/70 px-4 py-4"
+                        >
+                          <div className="flex flex-col gap-3 xl:flex-row xl:items-center xl:justify-between">
+                            <div className="min-w-0">
+                              <p className="font-semibold">{coupon.code}</p>
+                              <p className="mt-1 text-sm text-muted-foreground">
+                                {coupon.performance.redemptionCount} redemption
+                                {coupon.performance.redemptionCount === 1 ? '' : 's'} ·{' '}
+                                {coupon.performance.uniqueCustomers} unique customer
+                                {coupon.performance.uniqueCustomers === 1 ? '' : 's'}
+                                {coupon.performance.reversedCount
+                                  ? ` · ${coupon.performance.reversedCount} reversed`
+                                  : ''}
+                              </p>
+                            </div>
+                            <div className="flex flex-wrap items-center gap-2">
+                              <Badge variant="outline">
+                                Discount given {formatCurrencyMinor(coupon.performance.discountMinor, currency)}
+                              </Badge>
+                              <Badge variant="outline">
+                                Revenue {formatCurrencyMinor(coupon.performance.revenueMinor, currency)}
+                              </Badge>
+                              <Button
+                                type="button"
+                                size="sm"
+                                variant="outline"
+                                disabled={loadingRedemptions && isSelected}
+                                onClick={() => void loadCouponRedemptions(coupon.id)}
+                              >
+                                {loadingRedemptions && isSelected ? <Loader2 className="size-4 animate-spin" /> : null}
+                                View Redemptions
+                              </Button>
+                            </div>
+                          </div>
+
+                          {isSelected && !loadingRedemptions ? (
+                            couponRedemptions.length ? (
+                              <div className="space-y-2">
+                                {couponRedemptions.map((redemption) => (
+                                  <div
+                                    key={redemption.id}
+                                    className="grid gap-2 rounded-[1.05rem] border border-border/70 px-3 py-3 text-sm lg:grid-cols-[minmax(0,1fr)_auto_auto]"
+                                  >
+                                    <div className="min-w-0">
+                                      <p className="truncate font-medium">
+                                        {redemption.customerEmailNormalized ?? redemption.customerDiscordId}
+                                      </p>
+                                      <p className="truncate text-muted-foreground">
+                                        Order session {redemption.orderSessionId}
+                                      </p>
+                                    </div>
+                                    <div className="text-muted-foreground">
+                                      {new Date(redemption.createdAt).toLocaleString()}
+                                    </div>
+                                    <div className="flex items-center gap-3">
+                                      <Badge variant="outline">
+                                        {redemption.status === 'reversed'
+                                          ? `Reversed (${redemption.reversalReason ?? 'unknown'})`
+                                          : 'Active'}
+                                      </Badge>
+                                      <span>
+                                        -{formatCurrencyMinor(redemption.discountMinor, redemption.currency)} /{' '}
+                                        <span className="font-semibold">
+                                          {formatCurrencyMinor(redemption.totalMinor, redemption.currency)}
+                                        </span>
+                                      </span>
+                                    </div>
+                                  </div>
+                                ))}
+                              </div>
+                            ) : (
+                              <p className="text-sm text-muted-foreground">No paid orders have used this coupon yet.</p>
+                            )
+                          ) : null}
+                        </div>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No coupons have been created yet.</p>
+                )}
+              </Panel>
+            ) : null}
+
+            {activeCouponsPanel === 'automatic-discounts' ? <AutomaticDiscountsPanel defaultCurrency={couponCurrency} /> : null}
           </div>
         </div>
       ) : null}
@@ -2482,6 +4437,7 @@ export function CouponsSection() {
 export function PointsSection() {
   const { actionPending, categories, config, guildId, isLinkedToCurrentTenant, refreshOverview, saveConfig, showFlash, tenantId } =
     useDashboardContext();
+  const pointsCurrency = config?.defaultCurrency || DEFAULT_CURRENCY;
   const [pointValueMajor, setPointValueMajor] = useState(DEFAULT_POINT_VALUE_MAJOR);
   const [earnCategories, setEarnCategories] = useState<string[]>([]);
   const [redeemCategories, setRedeemCategories] = useState<string[]>([]);
@@ -2500,7 +4456,7 @@ export function PointsSection() {
       return;
     }
 
-    setPointValueMajor(formatPointValueMinorToMajor(config.pointValueMinor));
+    setPointValueMajor(formatPointValueMinorToMajor(config.pointValueMinor, config.defaultCurrency || DEFAULT_CURRENCY));
     setEarnCategories(config.pointsEarnCategoryKeys);
     setRedeemCategories(config.pointsRedeemCategoryKeys);
   }, [config]);
@@ -2550,7 +4506,7 @@ export function PointsSection() {
   async function handleSaveRules() {
     try {
       await saveConfig({
-        pointValueMinor: parsePointValueMajorToMinor(pointValueMajor),
+        pointValueMinor: parsePointValueMajorToMinor(pointValueMajor, pointsCurrency),
         pointsEarnCategoryKeys: earnCategories,
         pointsRedeemCategoryKeys: redeemCategories,
       });
@@ -2667,12 +4623,12 @@ export function PointsSection() {
                   >
                     <div className="space-y-4">
                       <div className="space-y-2">
-                        <Label htmlFor="point-value">Value per point</Label>
+                        <Label htmlFor="point-value">Value per point ({pointsCurrency})</Label>
                         <Input
                           id="point-value"
                           value={pointValueMajor}
                           onChange={(event) => setPointValueMajor(event.target.value)}
-                          placeholder={DEFAULT_POINT_VALUE_MAJOR}
+                          placeholder={formatPointValueMinorToMajor(1, pointsCurrency)}
                         />
                       </div>
                       <InfoTip>
@@ -2925,6 +4881,7 @@ export function PointsSection() {
 export function ReferralsSection() {
   const { actionPending, categories, config, isLinkedToCurrentTenant, resources, saveConfig } =
     useDashboardContext();
+  const referralCurrency = config?.defaultCurrency || DEFAULT_CURRENCY;
   const [referralsEnabled, setReferralsEnabled] = useState(false);
   const [referralLogChannelId, setReferralLogChannelId] = useState('');
   const [submissionTemplate, setSubmissionTemplate] = useState(DEFAULT_REFERRAL_SUBMISSION_TEMPLATE);
@@ -2941,7 +4898,7 @@ export function ReferralsSection() {
     setReferralLogChannelId(config.referralLogChannelId ?? '');
     setSubmissionTemplate(config.referralSubmissionTemplate || DEFAULT_REFERRAL_SUBMISSION_TEMPLATE);
     setThankYouTemplate(config.referralThankYouTemplate || DEFAULT_REFERRAL_THANK_YOU_TEMPLATE);
-    setReferralRewardMajor(formatMinorToMajor(config.referralRewardMinor));
+    setReferralRewardMajor(formatMinorToMajor(config.referralRewardMinor, config.defaultCurrency || DEFAULT_CURRENCY));
     setRewardCategories(config.referralRewardCategoryKeys);
   }, [config]);
 
@@ -2952,7 +4909,7 @@ export function ReferralsSection() {
         referralLogChannelId: referralLogChannelId || null,
         referralSubmissionTemplate: submissionTemplate,
         referralThankYouTemplate: thankYouTemplate,
-        referralRewardMinor: parsePriceToMinor(referralRewardMajor),
+        referralRewardMinor: parsePriceToMinor(referralRewardMajor, referralCurrency),
         referralRewardCategoryKeys: rewardCategories,
       });
     } catch {}
@@ -2992,15 +4949,20 @@ export function ReferralsSection() {
               <Panel title="Reward settings" description="Choose the reward amount and where referral logs should be posted.">
                 <div className="grid gap-4 md:grid-cols-2">
                   <div className="space-y-2">
-                    <Label htmlFor="referral-reward">Referral reward</Label>
+                    <Label htmlFor="referral-reward">Referral reward ({referralCurrency})</Label>
                     <Input
                       id="referral-reward"
                       value={referralRewardMajor}
                       onChange={(event) => setReferralRewardMajor(event.target.value)}
-                      placeholder={DEFAULT_REFERRAL_REWARD_MAJOR}
+                      placeholder={formatMinorToMajor(0, referralCurrency)}
                     />
                     <p className="text-xs text-muted-foreground">
-                      Rough points preview: {previewReferralRewardPoints(referralRewardMajor, formatPointValueMinorToMajor(config?.pointValueMinor ?? 1))}
+                      Rough points preview:{' '}
+                      {previewReferralRewardPoints(
+                        referralRewardMajor,
+                        formatPointValueMinorToMajor(config?.pointValueMinor ?? 1, referralCurrency),
+                        referralCurrency,
+                      )}
                     </p>
                   </div>
                   <div className="space-y-2">
@@ -3137,30 +5099,336 @@ function questionDraftsFromProduct(product: ProductRecord | null): QuestionDraft
     return ensureRequiredEmailQuestion([]);
   }
 
-  return ensureRequiredEmailQuestion(
-    product.formFields.map((field, index) => ({
-      key: field.fieldKey,
-      label: field.label,
-      fieldType: field.fieldType,
-      required: field.required,
-      sensitive: field.sensitive,
-      sortOrder: field.sortOrder ?? index,
-    })),
-  );
-}
+  return ensureRequiredEmailQuestion(
+    product.formFields.map((field, index) => ({
+      key: field.fieldKey,
+      label: field.label,
+      fieldType: field.fieldType,
+      required: field.required,
+      sensitive: field.sensitive,
+      sortOrder: field.sortOrder ?? index,
+    })),
+  );
+}
+
+function blankVariant(currency = DEFAULT_CURRENCY): PriceOptionDraft {
+  return {
+    label: '',
+    priceMajor: '',
+    referralRewardMajor: formatMinorToMajor(0, currency),
+    currency,
+    stockQuantity: '',
+    lowStockThreshold: '',
+    billingIntervalDays: '',
+    minQuantity: '',
+    maxQuantity: '',
+    priceTiers: '',
+    roleRewards: [],
+  };
+}
+
+function RoleRewardsEditor({
+  idPrefix,
+  value,
+  onChange,
+}: {
+  idPrefix: string;
+  value: RoleRewardRecord[];
+  onChange: (next: RoleRewardRecord[]) => void;
+}) {
+  const { resources, showFlash } = useDashboardContext();
+  const [roleId, setRoleId] = useState('');
+  const [durationDays, setDurationDays] = useState('');
+  const roles = resources?.roles ?? [];
+
+  function addReward() {
+    if (!roleId) {
+      showFlash('error', 'Choose a role first.');
+      return;
+    }
+
+    try {
+      onChange(upsertRoleReward(value, { roleId, durationDays: parseRoleRewardDuration(durationDays) }));
+    } catch (error) {
+      showFlash('error', getMessage(error, 'Invalid role duration.'));
+      return;
+    }
+
+    setRoleId('');
+    setDurationDays('');
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-3 sm:grid-cols-[minmax(0,1fr)_10rem_auto] sm:items-end">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-role`}>Role</Label>
+          <select
+            id={`${idPrefix}-role`}
+            className={nativeSelectClass}
+            value={roleId}
+            onChange={(event) => setRoleId(event.target.value)}
+            disabled={roles.length === 0}
+          >
+            <option value="">{roles.length ? 'Select role' : 'No guild roles were returned by Discord'}</option>
+            {roles.map((role) => (
+              <option key={role.id} value={role.id}>
+                {role.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-duration`}>Keep for (days)</Label>
+          <Input
+            id={`${idPrefix}-duration`}
+            inputMode="numeric"
+            value={durationDays}
+            onChange={(event) => setDurationDays(event.target.value)}
+            placeholder="Permanent"
+          />
+        </div>
+        <Button type="button" variant="outline" className="min-h-10" onClick={addReward}>
+          <Plus className="size-4" />
+          Add role
+        </Button>
+      </div>
+      {value.length ? (
+        <div className="flex flex-wrap gap-2">
+          {value.map((reward) => (
+            <Badge key={reward.roleId} variant="outline" className="gap-1">
+              {describeRoleReward(reward, roles)}
+              <button
+                type="button"
+                aria-label="Remove role"
+                onClick={() => onChange(value.filter((entry) => entry.roleId !== reward.roleId))}
+              >
+                <Trash2 className="size-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function RoleGrantsPanel() {
+  const { guildId, resources, showFlash, tenantId } = useDashboardContext();
+  const [grants, setGrants] = useState<RoleGrantRecord[]>([]);
+  const [loadingGrants, setLoadingGrants] = useState(false);
+
+  const loadGrants = useEffectEvent(async () => {
+    setLoadingGrants(true);
+    try {
+      const response = await dashboardApi<{ grants: RoleGrantRecord[] }>(
+        `/api/guilds/${encodeURIComponent(guildId)}/role-grants?tenantId=${encodeURIComponent(tenantId)}`,
+      );
+      setGrants(response.grants);
+    } catch (loadError) {
+      showFlash('error', getMessage(loadError, 'Failed to load role grants.'));
+    } finally {
+      setLoadingGrants(false);
+    }
+  });
+
+  useEffect(() => {
+    void loadGrants();
+  }, [guildId, tenantId]);
+
+  return (
+    <Panel
+      title={
+        <span className="flex items-center gap-2">
+          Role grants
+          <InfoButton label="The bot needs the Manage Roles permission, and its own role must sit above every role it hands out." />
+        </span>
+      }
+      description="The latest 200 roles given to buyers in this server."
+      action={
+        <Button type="button" size="sm" variant="outline" disabled={loadingGrants} onClick={() => void loadGrants()}>
+          {loadingGrants ? <Loader2 className="size-4 animate-spin" /> : <RefreshCcw className="size-4" />}
+          Refresh
+        </Button>
+      }
+    >
+      <div className="space-y-3">
+        {loadingGrants && grants.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Loading role grants...</p>
+        ) : grants.length ? (
+          grants.map((grant) => (
+            <div
+              key={grant.id}
+              className="rounded-[1.1rem] border border-border/70 bg-background/70 px-4 py-3"
+            >
+              <div className="flex flex-wrap items-center gap-2">
+                <p className="font-medium">
+                  @{resources?.roles.find((role) => role.id === grant.roleId)?.name ?? grant.roleId}
+                </p>
+                <Badge variant="outline">{grant.status}</Badge>
+              </div>
+              <p className="mt-1 text-sm text-muted-foreground">
+                User {grant.discordUserId} / order {grant.orderSessionId}
+              </p>
+              <p className="mt-1 text-sm text-muted-foreground">
+                {grant.grantedAt ? `Granted ${formatDashboardDateTime(grant.grantedAt)}` : 'Not granted'}
+                {grant.revokedAt
+                  ? ` / removed ${formatDashboardDateTime(grant.revokedAt)}`
+                  : grant.expiresAt
+                    ? ` / expires ${formatDashboardDateTime(grant.expiresAt)}`
+                    : ''}
+              </p>
+              {grant.lastError ? <p className="mt-1 text-sm text-destructive">{grant.lastError}</p> : null}
+            </div>
+          ))
+        ) : (
+          <p className="text-sm text-muted-foreground">No roles have been given to buyers yet.</p>
+        )}
+      </div>
+    </Panel>
+  );
+}
+
+function WooCatalogImportPanel() {
+  const { guildId, refreshProducts, showFlash, tenantId } = useDashboardContext();
+  const [plan, setPlan] = useState<WooCatalogSyncPlan | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  const basePath = `/api/guilds/${encodeURIComponent(guildId)}/integrations/woocommerce/catalog`;
+
+  useEffect(() => {
+    setPlan(null);
+  }, [guildId, tenantId]);
+
+  async function previewImport() {
+    setPreviewing(true);
+    try {
+      const response = await dashboardApi<{ plan: WooCatalogSyncPlan }>(
+        `${basePath}?tenantId=${encodeURIComponent(tenantId)}`,
+      );
+      setPlan(response.plan);
+    } catch (previewError) {
+      showFlash('error', getMessage(previewError, 'Failed to read the WooCommerce catalog.'));
+    } finally {
+      setPreviewing(false);
+    }
+  }
+
+  async function applyImport(previewed: WooCatalogSyncPlan) {
+    setApplying(true);
+    try {
+      const response = await dashboardApi<{ plan: WooCatalogSyncPlan }>(basePath, 'POST', {
+        tenantId,
+        planFingerprint: previewed.fingerprint,
+      });
+      setPlan(null);
+      await refreshProducts();
+      showFlash('success', `WooCommerce import finished: ${describeWooCatalogSummary(response.plan.summary)}.`);
+    } catch (applyError) {
+      showFlash('error', getMessage(applyError, 'Failed to import the WooCommerce catalog.'));
+    } finally {
+      setApplying(false);
+    }
+  }
+
+  const changes = plan?.products.filter((product) => product.action !== 'unchanged') ?? [];
 
-function blankVariant(currency = DEFAULT_CURRENCY): PriceOptionDraft {
-  return {
-    label: '',
-    priceMajor: '',
-    referralRewardMajor: DEFAULT_REFERRAL_REWARD_MAJOR,
-    currency,
-  };
+  return (
+    <Panel
+      title={
+        <span className="flex items-center gap-2">
+          WooCommerce import
+          <InfoButton label="Uses the REST consumer key and secret saved with this server's WooCommerce integration. Products are matched on their Woo product or variation id, and imported price options send buyers to /checkout/?add-to-cart=<id> on your store." />
+        </span>
+      }
+      description="Preview what would change, then apply it. Run it again whenever prices change in WooCommerce."
+      action={
+        <Button type="button" size="sm" variant="outline" disabled={previewing || applying} onClick={() => void previewImport()}>
+          {previewing ? <Loader2 className="size-4 animate-spin" /> : <RefreshCcw className="size-4" />}
+          Preview
+        </Button>
+      }
+    >
+      {plan ? (
+        <div className="space-y-4">
+          <InfoTip>
+            {describeWooCatalogSummary(plan.summary)}. Prices are read in {plan.currency}.
+          </InfoTip>
+
+          {changes.length ? (
+            <div className="space-y-2">
+              {changes.map((product) => (
+                <div
+                  key={product.wooProductId}
+                  className="rounded-[1.1rem] border border-border/70 bg-background/70 px-4 py-3 text-sm"
+                >
+                  <div className="flex flex-wrap items-center gap-2">
+                    <p className="font-medium">{product.name}</p>
+                    <Badge variant={product.action === 'create' ? 'default' : 'outline'}>
+                      {product.action === 'create' ? 'New' : 'Update'}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">{product.category}</span>
+                  </div>
+                  <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                    {product.variants
+                      .filter((variant) => variant.action !== 'unchanged')
+                      .map((variant) => (
+                        <li key={variant.wooProductId}>{describeWooCatalogVariantChange(variant)}</li>
+                      ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Everything is already in sync.</p>
+          )}
+
+          {plan.skipped.length ? (
+            <div className="space-y-1 text-xs text-muted-foreground">
+              <p className="font-semibold">Skipped</p>
+              {plan.skipped.map((item) => (
+                <p key={item.wooProductId}>
+                  {item.name}: {item.reason}
+                </p>
+              ))}
+            </div>
+          ) : null}
+
+          <div className="flex flex-col gap-3 sm:flex-row">
+            <Button
+              type="button"
+              className="min-h-11 sm:flex-1"
+              disabled={applying || !hasWooCatalogChanges(plan)}
+              onClick={() => void applyImport(plan)}
+            >
+              {applying ? <Loader2 className="size-4 animate-spin" /> : <Save className="size-4" />}
+              Apply Changes
+            </Button>
+            <Button type="button" variant="outline" className="min-h-11 sm:flex-1" disabled={applying} onClick={() => setPlan(null)}>
+              Discard Preview
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <InfoTip>Nothing is changed until you apply a preview.</InfoTip>
+      )}
+    </Panel>
+  );
 }
 
 export function ProductsSection() {
-  const { categories, config, guildId, isLinkedToCurrentTenant, products, refreshProducts, showFlash, tenantId } =
-    useDashboardContext();
+  const {
+    categories,
+    config,
+    guildId,
+    isLinkedToCurrentTenant,
+    products,
+    refreshProducts,
+    resources,
+    showFlash,
+    tenantId,
+  } = useDashboardContext();
   const productCurrency = config?.defaultCurrency || DEFAULT_CURRENCY;
   const [activeProductsPanel, setActiveProductsPanel] =
     useState<(typeof productsMenuItems)[number]['id']>('categories');
@@ -3174,9 +5442,18 @@ export function ProductsSection() {
   const [productName, setProductName] = useState('');
   const [productDescription, setProductDescription] = useState('');
   const [productActive, setProductActive] = useState(true);
+  const [productRoleRewards, setProductRoleRewards] = useState<RoleRewardRecord[]>([]);
   const [variants, setVariants] = useState<PriceOptionDraft[]>([]);
   const [variantDraft, setVariantDraft] = useState(blankVariant(productCurrency));
   const [editingVariantIndex, setEditingVariantIndex] = useState<number | null>(null);
+  const [poolProductId, setPoolProductId] = useState('');
+  const [poolVariantId, setPoolVariantId] = useState('');
+  const [poolEntries, setPoolEntries] = useState('');
+  const [poolCounts, setPoolCounts] = useState<DeliverablePoolCounts | null>(null);
+  const [poolItems, setPoolItems] = useState<DeliverableRecord[]>([]);
+  const [loadingPool, setLoadingPool] = useState(false);
+  const poolFileInputRef = useRef<HTMLInputElement>(null);
+  const poolProduct = products.find((product) => product.id === poolProductId) ?? null;
   const draftCategoryOption = categoryName.trim();
   const productCategoryOptions = [
     ...categories.map((category) => category.name),
@@ -3201,6 +5478,7 @@ export function ProductsSection() {
     setProductName('');
     setProductDescription('');
     setProductActive(true);
+    setProductRoleRewards([]);
     setVariants([]);
     setVariantDraft(blankVariant(productCurrency));
     setEditingVariantIndex(null);
@@ -3225,12 +5503,22 @@ export function ProductsSection() {
     setProductName(product.name);
     setProductDescription(product.description);
     setProductActive(product.active);
+    setProductRoleRewards(product.roleRewards ?? []);
     setVariants(
       product.variants.map((variant) => ({
+        id: variant.id,
         label: variant.label,
-        priceMajor: formatMinorToMajor(variant.priceMinor),
-        referralRewardMajor: formatMinorToMajor(variant.referralRewardMinor),
+        priceMajor: formatMinorToMajor(variant.priceMinor, variant.currency),
+        referralRewardMajor: formatMinorToMajor(variant.referralRewardMinor, variant.currency),
         currency: variant.currency,
+        stockQuantity: formatOptionalStockCount(variant.stockQuantity),
+        lowStockThreshold: formatOptionalStockCount(variant.lowStockThreshold),
+        billingIntervalDays: String(variant.billingIntervalDays ?? ''),
+        minQuantity: variant.minQuantity > 1 ? String(variant.minQuantity) : '',
+        maxQuantity: String(variant.maxQuantity ?? ''),
+        priceTiers: formatPriceTiers(variant.priceTiers, variant.currency),
+        stockReserved: variant.stockReserved,
+        roleRewards: variant.roleRewards ?? [],
       })),
     );
     setVariantDraft(blankVariant(productCurrency));
@@ -3238,11 +5526,20 @@ export function ProductsSection() {
   }
 
   function saveVariantDraft() {
-    const preparedVariant = {
+    const preparedVariant: PriceOptionDraft = {
+      id: variantDraft.id,
       label: variantDraft.label.trim(),
       priceMajor: variantDraft.priceMajor.trim(),
-      referralRewardMajor: variantDraft.referralRewardMajor.trim() || DEFAULT_REFERRAL_REWARD_MAJOR,
+      referralRewardMajor: variantDraft.referralRewardMajor.trim() || formatMinorToMajor(0, productCurrency),
       currency: productCurrency,
+      stockQuantity: variantDraft.stockQuantity.trim(),
+      lowStockThreshold: variantDraft.lowStockThreshold.trim(),
+      billingIntervalDays: variantDraft.billingIntervalDays.trim(),
+      minQuantity: variantDraft.minQuantity.trim(),
+      maxQuantity: variantDraft.maxQuantity.trim(),
+      priceTiers: variantDraft.priceTiers.trim(),
+      stockReserved: variantDraft.stockReserved,
+      roleRewards: variantDraft.roleRewards,
     };
 
     if (!preparedVariant.label || !preparedVariant.priceMajor) {
@@ -3250,6 +5547,35 @@ export function ProductsSection() {
       return;
     }
 
+    try {
+      parseOptionalStockCount(preparedVariant.stockQuantity, 'Stock');
+      parseOptionalStockCount(preparedVariant.lowStockThreshold, 'Low stock alert');
+    } catch (error) {
+      showFlash('error', error instanceof Error ? error.message : 'Invalid stock settings.');
+      return;
+    }
+
+    try {
+      parseBillingIntervalDays(preparedVariant.billingIntervalDays);
+    } catch (error) {
+      showFlash('error', error instanceof Error ? error.message : 'Invalid renewal period.');
+      return;
+    }
+
+    try {
+      parseQuantityLimits(preparedVariant);
+    } catch (error) {
+      showFlash('error', error instanceof Error ? error.message : 'Invalid quantity limits.');
+      return;
+    }
+
+    try {
+      parsePriceTiers(preparedVariant.priceTiers, productCurrency);
+    } catch (error) {
+      showFlash('error', error instanceof Error ? error.message : 'Invalid volume prices.');
+      return;
+    }
+
     setVariants((current) => {
       if (editingVariantIndex === null) {
         return [...current, preparedVariant];
@@ -3322,12 +5648,21 @@ export function ProductsSection() {
 
   async function deleteCategory(categoryNameValue: string) {
     try {
-      await dashboardApi(`/api/guilds/${encodeURIComponent(guildId)}/categories`, 'DELETE', {
-        tenantId,
-        category: categoryNameValue,
-      });
+      const result = await dashboardApi<{ deletedProducts: number; archivedProducts: number }>(
+        `/api/guilds/${encodeURIComponent(guildId)}/categories`,
+        'DELETE',
+        {
+          tenantId,
+          category: categoryNameValue,
+        },
+      );
       await refreshProducts();
-      showFlash('success', 'Category deleted.');
+      showFlash(
+        'success',
+        result.archivedProducts > 0
+          ? `Category deleted: ${result.deletedProducts} product(s) removed, ${result.archivedProducts} archived and kept for orders that already include them.`
+          : `Category deleted: ${result.deletedProducts} product(s) removed.`,
+      );
       resetCategoryEditor();
       if (normalizeCategoryKey(productCategory) === normalizeCategoryKey(categoryNameValue)) {
         resetProductEditor('');
@@ -3348,18 +5683,29 @@ export function ProductsSection() {
       return;
     }
 
-    const preparedVariants = variants.map((variant) => ({
-      label: variant.label.trim(),
-      priceMinor: parsePriceToMinor(variant.priceMajor),
-      referralRewardMinor: config?.referralsEnabled ? parsePriceToMinor(variant.referralRewardMajor) : 0,
-      currency: variant.currency || productCurrency,
-    }));
+    const preparedVariants = variants.map((variant) => {
+      const currency = variant.currency || productCurrency;
+      return {
+        ...(variant.id ? { id: variant.id } : {}),
+        label: variant.label.trim(),
+        priceMinor: parsePriceToMinor(variant.priceMajor, currency),
+        referralRewardMinor: config?.referralsEnabled ? parsePriceToMinor(variant.referralRewardMajor, currency) : 0,
+        currency,
+        stockQuantity: parseOptionalStockCount(variant.stockQuantity, 'Stock'),
+        lowStockThreshold: parseOptionalStockCount(variant.lowStockThreshold, 'Low stock alert'),
+        billingIntervalDays: parseBillingIntervalDays(variant.billingIntervalDays),
+        ...parseQuantityLimits(variant),
+        priceTiers: parsePriceTiers(variant.priceTiers, currency),
+        roleRewards: variant.roleRewards,
+      };
+    });
 
     const payload = {
       category: normalizedCategory,
       name: productName.trim(),
       description: productDescription.trim(),
       active: productActive,
+      roleRewards: productRoleRewards,
       variants: preparedVariants,
     };
 
@@ -3403,14 +5749,91 @@ export function ProductsSection() {
     }
   }
 
-  async function deleteProduct(productId: string) {
+  function getPoolPath(productId: string, variantId: string): string {
+    return `/api/guilds/${encodeURIComponent(guildId)}/products/${encodeURIComponent(productId)}/variants/${encodeURIComponent(variantId)}/deliverables`;
+  }
+
+  async function loadPool(productId: string, variantId: string) {
+    setPoolProductId(productId);
+    setPoolVariantId(variantId);
+    setPoolCounts(null);
+    setPoolItems([]);
+    if (!productId || !variantId) {
+      return;
+    }
+
+    setLoadingPool(true);
+    try {
+      const response = await dashboardApi<{ pool: DeliverablePoolCounts; items: DeliverableRecord[] }>(
+        `${getPoolPath(productId, variantId)}?tenantId=${encodeURIComponent(tenantId)}`,
+      );
+      setPoolCounts(response.pool);
+      setPoolItems(response.items);
+    } catch (loadError) {
+      showFlash('error', getMessage(loadError, 'Failed to load the key pool.'));
+    } finally {
+      setLoadingPool(false);
+    }
+  }
+
+  async function addPoolEntries(body: { entries?: string[]; csv?: string }) {
+    if (!poolProductId || !poolVariantId) {
+      showFlash('error', 'Choose a product and price option first.');
+      return;
+    }
+
+    try {
+      const response = await dashboardApi<{ added: number; pool: DeliverablePoolCounts }>(
+        getPoolPath(poolProductId, poolVariantId),
+        'POST',
+        { tenantId, ...body },
+      );
+      setPoolEntries('');
+      showFlash('success', `Added ${response.added} key${response.added === 1 ? '' : 's'} to the pool.`);
+      await loadPool(poolProductId, poolVariantId);
+    } catch (addError) {
+      showFlash('error', getMessage(addError, 'Failed to add keys.'));
+    }
+  }
+
+  async function uploadPoolCsv(file: File | undefined) {
+    if (!file) {
+      return;
+    }
+
+    try {
+      await addPoolEntries({ csv: await file.text() });
+    } finally {
+      if (poolFileInputRef.current) {
+        poolFileInputRef.current.value = '';
+      }
+    }
+  }
+
+  async function deletePoolItem(deliverableId: string) {
     try {
       await dashboardApi(
+        `${getPoolPath(poolProductId, poolVariantId)}/${encodeURIComponent(deliverableId)}?tenantId=${encodeURIComponent(tenantId)}`,
+        'DELETE',
+      );
+      showFlash('success', 'Key removed from the pool.');
+      await loadPool(poolProductId, poolVariantId);
+    } catch (deleteError) {
+      showFlash('error', getMessage(deleteError, 'Failed to remove key.'));
+    }
+  }
+
+  async function deleteProduct(productId: string) {
+    try {
+      const result = await dashboardApi<{ archived: boolean }>(
         `/api/guilds/${encodeURIComponent(guildId)}/products/${encodeURIComponent(productId)}?tenantId=${encodeURIComponent(tenantId)}`,
         'DELETE',
       );
       await refreshProducts();
-      showFlash('success', 'Product deleted.');
+      showFlash(
+        'success',
+        result.archived ? 'Product archived. It is kept for orders that already include it.' : 'Product deleted.',
+      );
       if (editingProductId === productId) {
         resetProductEditor('');
       }
@@ -3717,6 +6140,14 @@ export function ProductsSection() {
                     <span>Product active</span>
                   </label>
 
+                  <div className="space-y-3 rounded-[1.15rem] border border-border/70 bg-background/70 p-4">
+                    <p className="flex items-center gap-2 text-sm font-medium">
+                      Roles for every price option
+                      <InfoButton label="Buyers get these roles when the order is paid. Leave the days empty to keep the role permanently." />
+                    </p>
+                    <RoleRewardsEditor idPrefix="product-role" value={productRoleRewards} onChange={setProductRoleRewards} />
+                  </div>
+
                   <div className="rounded-[1.15rem] border border-border/70 bg-background/70 p-4">
                     <div className="grid gap-4 md:grid-cols-3">
                       <div className="space-y-2">
@@ -3731,14 +6162,14 @@ export function ProductsSection() {
                         />
                       </div>
                       <div className="space-y-2">
-                        <Label htmlFor="variant-price">Price</Label>
+                        <Label htmlFor="variant-price">Price ({productCurrency})</Label>
                         <Input
                           id="variant-price"
                           value={variantDraft.priceMajor}
                           onChange={(event) =>
                             setVariantDraft((current) => ({ ...current, priceMajor: event.target.value }))
                           }
-                          placeholder="9.99"
+                          placeholder={formatMinorToMajor(999, productCurrency)}
                         />
                       </div>
                       <div className="space-y-2">
@@ -3753,11 +6184,94 @@ export function ProductsSection() {
                             }))
                           }
                           disabled={!config?.referralsEnabled}
-                          placeholder={DEFAULT_REFERRAL_REWARD_MAJOR}
+                          placeholder={formatMinorToMajor(0, productCurrency)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="variant-stock">Stock</Label>
+                        <Input
+                          id="variant-stock"
+                          inputMode="numeric"
+                          value={variantDraft.stockQuantity}
+                          onChange={(event) =>
+                            setVariantDraft((current) => ({ ...current, stockQuantity: event.target.value }))
+                          }
+                          placeholder="Unlimited"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="variant-low-stock">Low stock alert at</Label>
+                        <Input
+                          id="variant-low-stock"
+                          inputMode="numeric"
+                          value={variantDraft.lowStockThreshold}
+                          onChange={(event) =>
+                            setVariantDraft((current) => ({ ...current, lowStockThreshold: event.target.value }))
+                          }
+                          placeholder="No alert"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="variant-billing-interval">Renews every (days)</Label>
+                        <Input
+                          id="variant-billing-interval"
+                          inputMode="numeric"
+                          value={variantDraft.billingIntervalDays}
+                          onChange={(event) =>
+                            setVariantDraft((current) => ({ ...current, billingIntervalDays: event.target.value }))
+                          }
+                          placeholder="One-off purchase"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="variant-min-quantity">Minimum quantity</Label>
+                        <Input
+                          id="variant-min-quantity"
+                          inputMode="numeric"
+                          value={variantDraft.minQuantity}
+                          onChange={(event) =>
+                            setVariantDraft((current) => ({ ...current, minQuantity: event.target.value }))
+                          }
+                          placeholder="1"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="variant-max-quantity">Maximum quantity</Label>
+                        <Input
+                          id="variant-max-quantity"
+                          inputMode="numeric"
+                          value={variantDraft.maxQuantity}
+                          onChange={(event) =>
+                            setVariantDraft((current) => ({ ...current, maxQuantity: event.target.value }))
+                          }
+                          placeholder="No limit"
+                        />
+                      </div>
+                      <div className="space-y-2 md:col-span-3">
+                        <Label htmlFor="variant-price-tiers" className="flex items-center gap-2">
+                          Volume prices
+                          <InfoButton label="Quantity=unit price pairs. Once the basket holds that many of this price option, every unit costs the lower price. Checkout shows the saving as its own line." />
+                        </Label>
+                        <Input
+                          id="variant-price-tiers"
+                          value={variantDraft.priceTiers}
+                          onChange={(event) =>
+                            setVariantDraft((current) => ({ ...current, priceTiers: event.target.value }))
+                          }
+                          placeholder="10=4.50, 50=4.00"
                         />
                       </div>
                     </div>
 
+                    <div className="mt-4 space-y-2">
+                      <p className="text-sm font-medium">Extra roles for this price option</p>
+                      <RoleRewardsEditor
+                        idPrefix="variant-role"
+                        value={variantDraft.roleRewards}
+                        onChange={(roleRewards) => setVariantDraft((current) => ({ ...current, roleRewards }))}
+                      />
+                    </div>
+
                     <div className="mt-4 flex flex-col gap-3 sm:flex-row">
                       <Button type="button" variant="outline" className="min-h-11 sm:flex-1" onClick={saveVariantDraft}>
                         <Plus className="size-4" />
@@ -3794,6 +6308,36 @@ export function ProductsSection() {
                                 ? ` / Referral reward ${variant.referralRewardMajor} ${variant.currency || productCurrency}`
                                 : ''}
                             </p>
+                            {variant.stockQuantity ? (
+                              <p className="mt-1 text-sm text-muted-foreground">
+                                {describeVariantStock({
+                                  stockQuantity: Number(variant.stockQuantity),
+                                  stockReserved: variant.stockReserved ?? 0,
+                                  lowStockThreshold: variant.lowStockThreshold ? Number(variant.lowStockThreshold) : null,
+                                })}
+                              </p>
+                            ) : null}
+                            {variant.billingIntervalDays ? (
+                              <p className="mt-1 text-sm text-muted-foreground">
+                                {describeBillingInterval(Number(variant.billingIntervalDays))}
+                              </p>
+                            ) : null}
+                            {variant.minQuantity || variant.maxQuantity ? (
+                              <p className="mt-1 text-sm text-muted-foreground">
+                                {describeQuantityLimits({
+                                  minQuantity: Number(variant.minQuantity || 1),
+                                  maxQuantity: variant.maxQuantity ? Number(variant.maxQuantity) : null,
+                                })}
+                              </p>
+                            ) : null}
+                            {variant.priceTiers ? (
+                              <p className="mt-1 text-sm text-muted-foreground">Volume prices: {variant.priceTiers}</p>
+                            ) : null}
+                            {variant.roleRewards.length ? (
+                              <p className="mt-1 text-sm text-muted-foreground">
+                                Roles: {variant.roleRewards.map((reward) => describeRoleReward(reward, resources?.roles)).join(', ')}
+                              </p>
+                            ) : null}
                           </div>
                           <div className="flex flex-wrap gap-2">
                             <Button
@@ -3874,6 +6418,156 @@ export function ProductsSection() {
               </Panel>
             </>
             ) : null}
+
+            {activeProductsPanel === 'key-pools' ? (
+              <Panel
+                title={
+                  <span className="flex items-center gap-2">
+                    Key pools
+                    <InfoButton label="When a paid order contains a price option with a pool, keys are claimed automatically, sent to the customer by DM (or in the ticket if DMs are closed) and the order is marked fulfilled." />
+                  </span>
+                }
+                description="Paste one key or credential per line, or upload a CSV file with one item per row."
+              >
+                <div className="space-y-4">
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="pool-product">Product</Label>
+                      <select
+                        id="pool-product"
+                        className={nativeSelectClass}
+                        value={poolProductId}
+                        onChange={(event) => void loadPool(event.target.value, '')}
+                        disabled={products.length === 0}
+                      >
+                        <option value="">{products.length ? 'Select product' : 'Create a product first'}</option>
+                        {products.map((product) => (
+                          <option key={product.id} value={product.id}>
+                            {product.category} / {product.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="pool-variant">Price option</Label>
+                      <select
+                        id="pool-variant"
+                        className={nativeSelectClass}
+                        value={poolVariantId}
+                        onChange={(event) => void loadPool(poolProductId, event.target.value)}
+                        disabled={!poolProduct}
+                      >
+                        <option value="">Select price option</option>
+                        {poolProduct?.variants.map((variant) => (
+                          <option key={variant.id} value={variant.id}>
+                            {variant.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  {poolVariantId ? (
+                    <>
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        {loadingPool ? <Loader2 className="size-4 animate-spin" /> : null}
+                        <span>{describeDeliverablePool(poolCounts)}</span>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="pool-entries">Keys or credentials</Label>
+                        <Textarea
+                          id="pool-entries"
+                          value={poolEntries}
+                          onChange={(event) => setPoolEntries(event.target.value)}
+                          className="min-h-32 font-mono"
+                          placeholder={'XXXX-XXXX-XXXX\nuser@example.com | password'}
+                        />
+                      </div>
+
+                      <div className="flex flex-col gap-3 sm:flex-row">
+                        <Button
+                          type="button"
+                          className="min-h-11 sm:flex-1"
+                          onClick={() => {
+                            const entries = parseDeliverableLines(poolEntries);
+                            if (entries.length === 0) {
+                              showFlash('error', 'Paste at least one key or credential.');
+                              return;
+                            }
+                            void addPoolEntries({ entries });
+                          }}
+                        >
+                          <Plus className="size-4" />
+                          Add Keys
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          className="min-h-11 sm:flex-1"
+                          onClick={() => poolFileInputRef.current?.click()}
+                        >
+                          Upload CSV
+                        </Button>
+                        <input
+                          ref={poolFileInputRef}
+                          type="file"
+                          accept=".csv,.txt,text/csv,text/plain"
+                          className="hidden"
+                          onChange={(event) => void uploadPoolCsv(event.target.files?.[0])}
+                        />
+                      </div>
+
+                      {poolItems.length ? (
+                        <div className="space-y-2">
+                          {poolItems.map((item) => (
+                            <div
+                              key={item.id}
+                              className="flex flex-col gap-3 rounded-[1.05rem] border border-border/70 bg-background/70 px-3 py-3 text-sm sm:flex-row sm:items-center sm:justify-between"
+                            >
+                              <div className="min-w-0">
+                                <p className="truncate font-mono">{item.preview}</p>
+                                <p className="mt-1 text-muted-foreground">
+                                  {item.status === 'delivered'
+                                    ? `Delivered ${formatDashboardDateTime(item.deliveredAt)}`
+                                    : `Added ${formatDashboardDateTime(item.createdAt)}`}
+                                </p>
+                              </div>
+                              <div className="flex flex-wrap items-center gap-2">
+                                <Badge variant="outline">
+                                  {item.status === 'delivered'
+                                    ? 'Delivered'
+                                    : item.status === 'claimed'
+                                      ? 'Claimed'
+                                      : 'Available'}
+                                </Badge>
+                                {item.status === 'available' ? (
+                                  <Button
+                                    type="button"
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => void deletePoolItem(item.id)}
+                                  >
+                                    <Trash2 className="size-4" />
+                                    Remove
+                                  </Button>
+                                ) : null}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      ) : null}
+                    </>
+                  ) : (
+                    <InfoTip>Choose a product and price option to manage its key pool.</InfoTip>
+                  )}
+                </div>
+              </Panel>
+            ) : null}
+
+            {activeProductsPanel === 'role-grants' ? <RoleGrantsPanel /> : null}
+
+            {activeProductsPanel === 'woo-import' ? <WooCatalogImportPanel /> : null}
             </div>
           </div>
         </div>
@@ -0,0 +1,17 @@
+export async function register(): Promise<void> {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  // Imported lazily so the edge runtime never loads the database client.
+  const { getEnv, logger, OutboundWebhookService, WebhookRetryService } = await import('@voodoo/core');
+  const env = getEnv();
+  const webhookRetryService = new WebhookRetryService();
+  const outboundWebhookService = new OutboundWebhookService();
+
+  webhookRetryService.startSweeperLoop({ pollIntervalMs: env.WEBHOOK_RETRY_POLL_INTERVAL_MS });
+  logger.info({ pollIntervalMs: env.WEBHOOK_RETRY_POLL_INTERVAL_MS }, 'webhook retry worker loop started');
+
+  outboundWebhookService.startSweeperLoop({ pollIntervalMs: env.WEBHOOK_RETRY_POLL_INTERVAL_MS });
+  logger.info({ pollIntervalMs: env.WEBHOOK_RETRY_POLL_INTERVAL_MS }, 'outbound webhook delivery loop started');
+}
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+
+import { describeApiKeyScopes, toggleApiKeyScope } from './dashboard-api-keys';
+
+describe('dashboard api keys', () => {
+  it('toggles scopes and keeps them in menu order', () => {
+    expect(toggleApiKeyScope(['orders:read'], 'products:read')).toEqual(['products:read', 'orders:read']);
+    expect(toggleApiKeyScope(['products:read', 'orders:read'], 'products:read')).toEqual(['orders:read']);
+  });
+
+  it('describes scopes with their labels', () => {
+    expect(describeApiKeyScopes(['orders:read', 'sales:write'])).toBe('Read paid orders, Create sale sessions');
+  });
+});
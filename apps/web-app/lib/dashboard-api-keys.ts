@@ -0,0 +1,27 @@
+import type { ApiKeyScope } from './dashboard-types';
+
+export const API_KEY_SCOPE_OPTIONS: Array<{ value: ApiKeyScope; label: string }> = [
+  { value: 'products:read', label: 'Read products' },
+  { value: 'products:write', label: 'Create products' },
+  { value: 'orders:read', label: 'Read paid orders' },
+  { value: 'orders:write', label: 'Fulfill orders' },
+  { value: 'points:read', label: 'Read points' },
+  { value: 'points:write', label: 'Adjust points' },
+  { value: 'sales:write', label: 'Create sale sessions' },
+];
+
+export function toggleApiKeyScope(scopes: ApiKeyScope[], scope: ApiKeyScope): ApiKeyScope[] {
+  if (scopes.includes(scope)) {
+    return scopes.filter((value) => value !== scope);
+  }
+
+  return API_KEY_SCOPE_OPTIONS.map((option) => option.value).filter(
+    (value) => value === scope || scopes.includes(value),
+  );
+}
+
+export function describeApiKeyScopes(scopes: ApiKeyScope[]): string {
+  return scopes
+    .map((scope) => API_KEY_SCOPE_OPTIONS.find((option) => option.value === scope)?.label ?? scope)
+    .join(', ');
+}
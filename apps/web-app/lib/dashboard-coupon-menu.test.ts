@@ -3,15 +3,17 @@ import { describe, expect, it } from 'vitest';
 import { getCouponMenuItems } from './dashboard-coupon-menu';
 
 describe('getCouponMenuItems', () => {
-  it('shows only settings when coupons are disabled', () => {
-    expect(getCouponMenuItems(false).map((item) => item.id)).toEqual(['settings']);
+  it('shows only settings and automatic discounts when coupons are disabled', () => {
+    expect(getCouponMenuItems(false).map((item) => item.id)).toEqual(['settings', 'automatic-discounts']);
   });
 
-  it('shows settings, create, and saved views when coupons are enabled', () => {
+  it('shows settings, create, saved, performance, and automatic discount views when coupons are enabled', () => {
     expect(getCouponMenuItems(true).map((item) => item.id)).toEqual([
       'settings',
       'create-coupon',
       'saved-coupons',
+      'coupon-performance',
+      'automatic-discounts',
     ]);
   });
 });
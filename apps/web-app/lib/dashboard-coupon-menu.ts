@@ -1,4 +1,9 @@
-export type CouponPanelId = 'settings' | 'create-coupon' | 'saved-coupons';
+export type CouponPanelId =
+  | 'settings'
+  | 'create-coupon'
+  | 'saved-coupons'
+  | 'coupon-performance'
+  | 'automatic-discounts';
 
 type CouponMenuItem = {
   id: CouponPanelId;
@@ -14,6 +19,14 @@ const couponSettingsItem: CouponMenuItem = {
   info: 'When coupons are disabled, checkout and admin flows reject coupon usage and the create/manage views stay hidden.',
 };
 
+// Automatic discounts apply without a code, so they stay available while coupons are turned off.
+const automaticDiscountsItem: CouponMenuItem = {
+  id: 'automatic-discounts',
+  label: 'Automatic Discounts',
+  description: 'Spend thresholds and buy-X-get-Y deals applied to every matching basket.',
+  info: 'Volume prices apply first, then buy-X-get-Y deals, then spend thresholds. Coupons and points work from what is left.',
+};
+
 const couponEnabledMenuItems = [
   couponSettingsItem,
   {
@@ -28,9 +41,16 @@ const couponEnabledMenuItems = [
     description: 'Review existing coupons and open one for editing or deletion.',
     info: 'Delete actions stay in the saved list so management remains obvious and separate from the create screen.',
   },
+  {
+    id: 'coupon-performance',
+    label: 'Coupon Performance',
+    description: 'See how often each coupon was redeemed and what it earned.',
+    info: 'Figures come from paid orders only. Cancelled or refunded orders are reversed and no longer count.',
+  },
+  automaticDiscountsItem,
 ] as const satisfies readonly CouponMenuItem[];
 
-const couponDisabledMenuItems = [couponSettingsItem] as const satisfies readonly CouponMenuItem[];
+const couponDisabledMenuItems = [couponSettingsItem, automaticDiscountsItem] as const satisfies readonly CouponMenuItem[];
 
 export function getCouponMenuItems(enabled: boolean): readonly CouponMenuItem[] {
   return enabled ? couponEnabledMenuItems : couponDisabledMenuItems;
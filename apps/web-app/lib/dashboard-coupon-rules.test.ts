@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  describeCouponRuleSummary,
+  formatCouponDiscountLabel,
+  fromDateTimeLocalInput,
+  parseCouponPercent,
+  parseOptionalCouponLimit,
+  toDateTimeLocalInput,
+} from './dashboard-coupon-rules';
+import type { CouponRecord } from './dashboard-types';
+
+function makeCoupon(overrides: Partial<CouponRecord> = {}): CouponRecord {
+  return {
+    id: 'coupon-1',
+    code: 'SPRING',
+    discountType: 'fixed',
+    discountMinor: 500,
+    discountPercent: 0,
+    maxDiscountMinor: null,
+    minSubtotalMinor: 0,
+    startsAt: null,
+    endsAt: null,
+    maxRedemptions: null,
+    maxRedemptionsPerCustomer: null,
+    active: true,
+    allowedCategories: [],
+    allowedProductIds: [],
+    allowedVariantIds: [],
+    performance: {
+      redemptionCount: 0,
+      reversedCount: 0,
+      discountMinor: 0,
+      revenueMinor: 0,
+      uniqueCustomers: 0,
+    },
+    ...overrides,
+  };
+}
+
+describe('dashboard coupon rule helpers', () => {
+  it('parses percentages and optional usage limits', () => {
+    expect(parseCouponPercent('15')).toBe(15);
+    expect(() => parseCouponPercent('0')).toThrow('between 1 and 100');
+    expect(() => parseCouponPercent('12.5')).toThrow('between 1 and 100');
+
+    expect(parseOptionalCouponLimit('', 'Total uses')).toBeNull();
+    expect(parseOptionalCouponLimit(' 3 ', 'Total uses')).toBe(3);
+    expect(() => parseOptionalCouponLimit('0', 'Total uses')).toThrow('Total uses must be');
+  });
+
+  it('round-trips datetime-local values through ISO timestamps', () => {
+    const iso = '2026-05-01T09:30:00.000Z';
+
+    expect(fromDateTimeLocalInput(toDateTimeLocalInput(iso))).toBe(iso);
+    expect(toDateTimeLocalInput(null)).toBe('');
+    expect(fromDateTimeLocalInput('')).toBeNull();
+  });
+
+  it('labels fixed and capped percentage discounts', () => {
+    expect(formatCouponDiscountLabel(makeCoupon(), 'GBP')).toBe('£5.00');
+    expect(
+      formatCouponDiscountLabel(
+        makeCoupon({ discountType: 'percent', discountPercent: 20, maxDiscountMinor: 1000 }),
+        'GBP',
+      ),
+    ).toBe('20% off (max £10.00)');
+  });
+
+  it('summarises minimum basket and usage limits', () => {
+    expect(describeCouponRuleSummary(makeCoupon(), 'GBP')).toEqual([]);
+    expect(
+      describeCouponRuleSummary(
+        makeCoupon({ minSubtotalMinor: 2500, maxRedemptions: 100, maxRedemptionsPerCustomer: 1 }),
+        'GBP',
+      ),
+    ).toEqual(['Min basket £25.00', '100 uses total', '1 use per customer']);
+  });
+});
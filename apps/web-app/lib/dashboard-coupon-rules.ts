@@ -0,0 +1,94 @@
+import { formatCurrencyMinor } from './dashboard-format';
+import type { CouponRecord } from './dashboard-types';
+
+function padDatePart(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+export function parseCouponPercent(value: string): number {
+  const trimmed = value.trim();
+  const parsed = Number(trimmed);
+  if (!/^\d+$/.test(trimmed) || parsed < 1 || parsed > 100) {
+    throw new Error('Percentage must be a whole number between 1 and 100.');
+  }
+
+  return parsed;
+}
+
+export function parseOptionalCouponLimit(value: string, label: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  const parsed = Number(trimmed);
+  if (!/^\d+$/.test(trimmed) || parsed < 1) {
+    throw new Error(`${label} must be a whole number of at least 1, or left empty.`);
+  }
+
+  return parsed;
+}
+
+/** Formats an ISO timestamp for a `datetime-local` input in the browser's timezone. */
+export function toDateTimeLocalInput(value: string | null): string {
+  if (!value) {
+    return '';
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return '';
+  }
+
+  return [
+    `${date.getFullYear()}-${padDatePart(date.getMonth() + 1)}-${padDatePart(date.getDate())}`,
+    `${padDatePart(date.getHours())}:${padDatePart(date.getMinutes())}`,
+  ].join('T');
+}
+
+export function fromDateTimeLocalInput(value: string): string | null {
+  if (!value.trim()) {
+    return null;
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error('Coupon dates must be valid dates.');
+  }
+
+  return date.toISOString();
+}
+
+export function describeCouponRuleSummary(coupon: CouponRecord, currency: string): string[] {
+  const parts: string[] = [];
+
+  if (coupon.minSubtotalMinor > 0) {
+    parts.push(`Min basket ${formatCurrencyMinor(coupon.minSubtotalMinor, currency)}`);
+  }
+  if (coupon.startsAt) {
+    parts.push(`Starts ${new Date(coupon.startsAt).toLocaleString('en-GB')}`);
+  }
+  if (coupon.endsAt) {
+    parts.push(`Ends ${new Date(coupon.endsAt).toLocaleString('en-GB')}`);
+  }
+  if (coupon.maxRedemptions !== null) {
+    parts.push(`${coupon.maxRedemptions} use${coupon.maxRedemptions === 1 ? '' : 's'} total`);
+  }
+  if (coupon.maxRedemptionsPerCustomer !== null) {
+    parts.push(
+      `${coupon.maxRedemptionsPerCustomer} use${coupon.maxRedemptionsPerCustomer === 1 ? '' : 's'} per customer`,
+    );
+  }
+
+  return parts;
+}
+
+export function formatCouponDiscountLabel(coupon: CouponRecord, currency: string): string {
+  if (coupon.discountType === 'percent') {
+    return coupon.maxDiscountMinor !== null
+      ? `${coupon.discountPercent}% off (max ${formatCurrencyMinor(coupon.maxDiscountMinor, currency)})`
+      : `${coupon.discountPercent}% off`;
+  }
+
+  return formatCurrencyMinor(coupon.discountMinor, currency);
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+
+import { describeDeliverablePool, parseDeliverableLines } from './dashboard-deliverables';
+
+describe('dashboard deliverable helpers', () => {
+  it('reads one key per line, skipping blanks and repeats', () => {
+    expect(parseDeliverableLines(' AAAA-1111 \r\n\nBBBB-2222\nAAAA-1111\n')).toEqual(['AAAA-1111', 'BBBB-2222']);
+    expect(parseDeliverableLines('   ')).toEqual([]);
+  });
+
+  it('describes the pool state for a price option', () => {
+    expect(describeDeliverablePool(null)).toBe('No key pool yet. Orders for this option are delivered manually.');
+    expect(describeDeliverablePool({ variantId: 'v1', available: 0, delivered: 4 })).toBe(
+      'Pool empty / 4 delivered. New orders fall back to manual delivery.',
+    );
+    expect(describeDeliverablePool({ variantId: 'v1', available: 12, delivered: 3 })).toBe(
+      '12 available / 3 delivered',
+    );
+  });
+});
@@ -0,0 +1,26 @@
+import type { DeliverablePoolCounts } from './dashboard-types';
+
+/** One key or credential per pasted line. Blank lines and repeats are dropped. */
+export function parseDeliverableLines(value: string): string[] {
+  const entries: string[] = [];
+  for (const line of value.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (trimmed && !entries.includes(trimmed)) {
+      entries.push(trimmed);
+    }
+  }
+
+  return entries;
+}
+
+export function describeDeliverablePool(pool: DeliverablePoolCounts | null): string {
+  if (!pool || pool.available + pool.delivered === 0) {
+    return 'No key pool yet. Orders for this option are delivered manually.';
+  }
+
+  if (pool.available === 0) {
+    return `Pool empty / ${pool.delivered} delivered. New orders fall back to manual delivery.`;
+  }
+
+  return `${pool.available} available / ${pool.delivered} delivered`;
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+
+import { describeAutomaticDiscount, formatPriceTiers, parsePriceTiers } from './dashboard-discounts';
+
+describe('dashboard discount helpers', () => {
+  it('parses volume prices into sorted tiers and formats them back', () => {
+    expect(parsePriceTiers('', 'GBP')).toEqual([]);
+
+    const tiers = parsePriceTiers('50=4.00, 10 = 4.50', 'GBP');
+    expect(tiers).toEqual([
+      { minQuantity: 10, priceMinor: 450 },
+      { minQuantity: 50, priceMinor: 400 },
+    ]);
+    expect(formatPriceTiers(tiers, 'GBP')).toBe('10=4.50, 50=4.00');
+
+    expect(() => parsePriceTiers('1=4.00', 'GBP')).toThrow('with a quantity from 2 to 999');
+    expect(() => parsePriceTiers('ten=4.00', 'GBP')).toThrow('must look like 10=4.50');
+  });
+
+  it('describes each automatic discount rule type', () => {
+    const base = {
+      id: 'rule-1',
+      name: 'Rule',
+      minSubtotalMinor: 0,
+      discountPercent: 0,
+      category: null,
+      buyQuantity: 0,
+      freeQuantity: 0,
+      active: true,
+    };
+
+    expect(
+      describeAutomaticDiscount({ ...base, ruleType: 'spend_threshold', minSubtotalMinor: 5000, discountPercent: 10 }, 'GBP'),
+    ).toBe('10% off baskets over £50.00');
+    expect(
+      describeAutomaticDiscount(
+        { ...base, ruleType: 'buy_x_get_y', category: 'Keys', buyQuantity: 3, freeQuantity: 1 },
+        'GBP',
+      ),
+    ).toBe('Buy 3 from Keys, get 1 free (cheapest items)');
+  });
+});
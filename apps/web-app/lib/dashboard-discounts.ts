@@ -0,0 +1,44 @@
+import { formatCurrencyMinor, formatMinorToMajor, parsePriceToMinor } from './dashboard-format';
+import type { AutomaticDiscountRecord, PriceTierRecord } from './dashboard-types';
+
+// Mirrors MAX_PRICE_TIERS in core; the dashboard bundle cannot import the server package.
+const MAX_PRICE_TIERS = 10;
+
+/** Parses `10=4.50, 50=4.00` into tiers sorted by quantity. Blank input means no volume prices. */
+export function parsePriceTiers(value: string, currency: string): PriceTierRecord[] {
+  const entries = value
+    .split(/[,\n]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (entries.length > MAX_PRICE_TIERS) {
+    throw new Error(`Volume prices allow up to ${MAX_PRICE_TIERS} breakpoints.`);
+  }
+
+  const tiers = entries.map((entry) => {
+    const match = /^(\d+)\s*=\s*(.+)$/.exec(entry);
+    const minQuantity = match ? Number(match[1]) : Number.NaN;
+    if (!match || !Number.isInteger(minQuantity) || minQuantity < 2 || minQuantity > 999) {
+      throw new Error(`Volume price "${entry}" must look like 10=4.50, with a quantity from 2 to 999.`);
+    }
+
+    return { minQuantity, priceMinor: parsePriceToMinor(match[2] ?? '', currency) };
+  });
+
+  return tiers.sort((a, b) => a.minQuantity - b.minQuantity);
+}
+
+export function formatPriceTiers(tiers: PriceTierRecord[] | undefined, currency: string): string {
+  return (tiers ?? []).map((tier) => `${tier.minQuantity}=${formatMinorToMajor(tier.priceMinor, currency)}`).join(', ');
+}
+
+/** One-line summary of an automatic discount rule for the saved list. */
+export function describeAutomaticDiscount(discount: AutomaticDiscountRecord, currency: string): string {
+  if (discount.ruleType === 'buy_x_get_y') {
+    const scope = discount.category ? ` from ${discount.category}` : '';
+    return `Buy ${discount.buyQuantity}${scope}, get ${discount.freeQuantity} free (cheapest items)`;
+  }
+
+  return discount.minSubtotalMinor > 0
+    ? `${discount.discountPercent}% off baskets over ${formatCurrencyMinor(discount.minSubtotalMinor, currency)}`
+    : `${discount.discountPercent}% off every basket`;
+}
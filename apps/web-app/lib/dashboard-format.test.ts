@@ -20,7 +20,8 @@ describe('dashboard referral placeholder lists', () => {
       '{referrer_email}',
       '{referred_email}',
       '{points}',
-      '{amount_gbp}',
+      '{amount}',
+      '{currency}',
       '{order_session_id}',
     ]);
   });
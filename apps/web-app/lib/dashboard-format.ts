@@ -1,10 +1,18 @@
+import {
+  DEFAULT_CURRENCY,
+  describeAmountExample,
+  formatCurrencyMinor as formatCurrencyAmount,
+  formatMinorAsMajor,
+  parseMajorToMinor,
+} from '@voodoo/core/currency';
+
 import type { QuestionDraft } from './dashboard-types';
 
-export const DEFAULT_CURRENCY = 'GBP';
+export { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from '@voodoo/core/currency';
 export const DEFAULT_POINT_VALUE_MAJOR = '0.01';
 export const DEFAULT_REFERRAL_REWARD_MAJOR = '0.00';
 export const DEFAULT_REFERRAL_THANK_YOU_TEMPLATE =
-  'Thanks for your referral. You earned {points} point(s) ({amount_gbp} GBP) after {referred_email} paid.';
+  'Thanks for your referral. You earned {points} point(s) ({amount} {currency}) after {referred_email} paid.';
 export const DEFAULT_REFERRAL_SUBMISSION_TEMPLATE =
   'Referral submitted successfully. We will reward points automatically after the first paid order.';
 export const REFERRAL_SUBMISSION_TEMPLATE_PLACEHOLDERS = [
@@ -17,61 +25,55 @@ export const REFERRAL_THANK_YOU_TEMPLATE_PLACEHOLDERS = [
   '{referrer_email}',
   '{referred_email}',
   '{points}',
-  '{amount_gbp}',
+  '{amount}',
+  '{currency}',
   '{order_session_id}',
 ] as const;
 export const REQUIRED_EMAIL_QUESTION_KEY = 'email';
 export const REQUIRED_EMAIL_QUESTION_LABEL = 'What is your email?';
 
-export function formatMinorToMajor(minor: number): string {
+export function formatMinorToMajor(minor: number, currency = DEFAULT_CURRENCY): string {
   if (!Number.isFinite(minor) || minor < 0) {
-    return '0.00';
+    return formatMinorAsMajor(0, currency);
   }
 
-  return (minor / 100).toFixed(2);
+  return formatMinorAsMajor(minor, currency);
 }
 
 export function formatCurrencyMinor(minor: number, currency = DEFAULT_CURRENCY): string {
-  return new Intl.NumberFormat('en-GB', {
-    style: 'currency',
-    currency,
-    minimumFractionDigits: 2,
-  }).format((minor || 0) / 100);
+  return formatCurrencyAmount(minor || 0, currency);
 }
 
-export function parsePriceToMinor(value: string): number {
-  const parsed = Number(value);
-  if (!Number.isFinite(parsed) || parsed < 0) {
-    throw new Error('Value must be a valid positive number like 9.99');
+export function parsePriceToMinor(value: string, currency = DEFAULT_CURRENCY): number {
+  const minor = parseMajorToMinor(value, currency);
+  if (minor === null) {
+    throw new Error(`Value must be a valid ${currency} amount like ${describeAmountExample(currency)}`);
   }
 
-  return Math.round(parsed * 100);
+  return minor;
 }
 
-export function parsePointValueMajorToMinor(value: string): number {
+export function parsePointValueMajorToMinor(value: string, currency = DEFAULT_CURRENCY): number {
   if (!value.trim()) {
     return 1;
   }
 
-  const parsed = Number(value);
-  if (!Number.isFinite(parsed) || parsed <= 0) {
-    throw new Error('Point value must be greater than 0, for example 0.01');
-  }
-
-  const minor = Math.round(parsed * 100);
-  if (minor < 1) {
-    throw new Error('Point value is too small. Minimum is 0.01.');
+  const minor = parseMajorToMinor(value, currency);
+  if (minor === null || minor <= 0) {
+    throw new Error(
+      `Point value must be greater than 0 and use at most the ${currency} decimal places, for example ${formatMinorAsMajor(1, currency)}`,
+    );
   }
 
   return minor;
 }
 
-export function formatPointValueMinorToMajor(pointValueMinor: number): string {
+export function formatPointValueMinorToMajor(pointValueMinor: number, currency = DEFAULT_CURRENCY): string {
   if (!Number.isFinite(pointValueMinor) || pointValueMinor <= 0) {
-    return DEFAULT_POINT_VALUE_MAJOR;
+    return formatMinorAsMajor(1, currency);
   }
 
-  return (pointValueMinor / 100).toFixed(2);
+  return formatMinorAsMajor(pointValueMinor, currency);
 }
 
 export function parseWholePoints(value: string): number {
@@ -149,10 +151,14 @@ export function ensureRequiredEmailQuestion(questions: QuestionDraft[]): Questio
   }));
 }
 
-export function previewReferralRewardPoints(referralRewardMajor: string, pointValueMajor: string): number {
+export function previewReferralRewardPoints(
+  referralRewardMajor: string,
+  pointValueMajor: string,
+  currency = DEFAULT_CURRENCY,
+): number {
   try {
-    const rewardMinor = parsePriceToMinor(referralRewardMajor);
-    const pointValueMinor = parsePointValueMajorToMinor(pointValueMajor);
+    const rewardMinor = parsePriceToMinor(referralRewardMajor, currency);
+    const pointValueMinor = parsePointValueMajorToMinor(pointValueMajor, currency);
     return Math.max(0, Math.floor(rewardMinor / Math.max(1, pointValueMinor)));
   } catch {
     return 0;
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+
+import { describeOutboundWebhookDelivery, toggleOutboundWebhookEvent } from './dashboard-outbound-webhooks';
+
+describe('dashboard outbound webhooks', () => {
+  it('toggles events and keeps them in menu order', () => {
+    expect(toggleOutboundWebhookEvent(['order.refunded'], 'order.paid')).toEqual(['order.paid', 'order.refunded']);
+    expect(toggleOutboundWebhookEvent(['order.paid', 'order.refunded'], 'order.paid')).toEqual(['order.refunded']);
+  });
+
+  it('describes deliveries with their response and attempt count', () => {
+    expect(
+      describeOutboundWebhookDelivery({
+        status: 'pending',
+        nextRetryAt: '2026-05-01T12:00:00.000Z',
+        responseStatus: null,
+        attemptCount: 0,
+      }),
+    ).toBe('Pending');
+    expect(
+      describeOutboundWebhookDelivery({ status: 'delivered', nextRetryAt: null, responseStatus: 204, attemptCount: 1 }),
+    ).toBe('Delivered · HTTP 204 · 1 attempt');
+    expect(
+      describeOutboundWebhookDelivery({
+        status: 'failed',
+        nextRetryAt: '2026-05-01T12:00:00.000Z',
+        responseStatus: 500,
+        attemptCount: 3,
+      }),
+    ).toBe('Retrying · HTTP 500 · 3 attempts');
+    expect(
+      describeOutboundWebhookDelivery({ status: 'failed', nextRetryAt: null, responseStatus: null, attemptCount: 1 }),
+    ).toBe('Failed · no response · 1 attempt');
+  });
+});
@@ -0,0 +1,49 @@
+import type {
+  OutboundWebhookDeliveryRecord,
+  OutboundWebhookDeliveryStatus,
+  OutboundWebhookEventType,
+} from './dashboard-types';
+
+export const OUTBOUND_WEBHOOK_EVENT_OPTIONS: Array<{ value: OutboundWebhookEventType; label: string }> = [
+  { value: 'order.paid', label: 'Order paid' },
+  { value: 'order.fulfilled', label: 'Order fulfilled' },
+  { value: 'order.refunded', label: 'Order refunded' },
+  { value: 'points.adjusted', label: 'Points adjusted' },
+  { value: 'referral.rewarded', label: 'Referral rewarded' },
+  { value: 'join_gate.verified', label: 'Join gate verified' },
+];
+
+export const OUTBOUND_WEBHOOK_DELIVERY_STATUS_LABELS: Record<OutboundWebhookDeliveryStatus, string> = {
+  pending: 'Pending',
+  delivered: 'Delivered',
+  failed: 'Retrying',
+  dead_letter: 'Dead letter',
+};
+
+export function toggleOutboundWebhookEvent(
+  eventTypes: OutboundWebhookEventType[],
+  eventType: OutboundWebhookEventType,
+): OutboundWebhookEventType[] {
+  if (eventTypes.includes(eventType)) {
+    return eventTypes.filter((value) => value !== eventType);
+  }
+
+  // Keep the menu order so saved endpoints list their events consistently.
+  return OUTBOUND_WEBHOOK_EVENT_OPTIONS.map((option) => option.value).filter(
+    (value) => value === eventType || eventTypes.includes(value),
+  );
+}
+
+/** A failed delivery with no retry time is a test event, which is never retried. */
+export function describeOutboundWebhookDelivery(
+  delivery: Pick<OutboundWebhookDeliveryRecord, 'status' | 'nextRetryAt' | 'responseStatus' | 'attemptCount'>,
+): string {
+  const status =
+    delivery.status === 'failed' && !delivery.nextRetryAt
+      ? 'Failed'
+      : OUTBOUND_WEBHOOK_DELIVERY_STATUS_LABELS[delivery.status];
+  const response = delivery.responseStatus === null ? 'no response' : `HTTP ${delivery.responseStatus}`;
+  const attempts = delivery.attemptCount === 1 ? '1 attempt' : `${delivery.attemptCount} attempts`;
+
+  return delivery.attemptCount === 0 ? status : `${status} · ${response} · ${attempts}`;
+}
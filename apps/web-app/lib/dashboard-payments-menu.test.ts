@@ -0,0 +1,9 @@
+import { describe, expect, it } from 'vitest';
+
+import { PAYMENTS_MENU_ITEMS } from './dashboard-payments-menu';
+
+describe('PAYMENTS_MENU_ITEMS', () => {
+  it('lists the payments panels in menu order', () => {
+    expect(PAYMENTS_MENU_ITEMS.map((item) => item.id)).toEqual(['gateway', 'webhook-events']);
+  });
+});
@@ -0,0 +1,16 @@
+export const PAYMENTS_MENU_ITEMS = [
+  {
+    id: 'gateway',
+    label: 'Voodoo Pay & Crypto',
+    description: 'Wallet, hosted checkout domain, callback secret and crypto wallets.',
+    info: 'Saving here updates the Voodoo Pay integration for the selected Discord server.',
+  },
+  {
+    id: 'webhook-events',
+    label: 'Webhook Deliveries',
+    description: 'Every payment webhook received for this server, with its processing status.',
+    info: 'Open a delivery to see its payload and attempt history. Admins can replay a delivery that did not complete the order.',
+  },
+] as const;
+
+export type PaymentsPanelId = (typeof PAYMENTS_MENU_ITEMS)[number]['id'];
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+
+import { describeQuantityLimits, parseQuantityLimits } from './dashboard-quantity';
+
+describe('dashboard quantity helpers', () => {
+  it('parses quantity limits, defaulting to one with no maximum', () => {
+    expect(parseQuantityLimits({ minQuantity: '', maxQuantity: '' })).toEqual({ minQuantity: 1, maxQuantity: null });
+    expect(parseQuantityLimits({ minQuantity: ' 2 ', maxQuantity: '10' })).toEqual({
+      minQuantity: 2,
+      maxQuantity: 10,
+    });
+    expect(() => parseQuantityLimits({ minQuantity: '0', maxQuantity: '' })).toThrow(
+      'Minimum quantity must be a whole number',
+    );
+    expect(() => parseQuantityLimits({ minQuantity: '', maxQuantity: '1000' })).toThrow(
+      'Maximum quantity must be a whole number',
+    );
+    expect(() => parseQuantityLimits({ minQuantity: '5', maxQuantity: '3' })).toThrow(
+      'Maximum quantity cannot be lower than the minimum quantity.',
+    );
+  });
+
+  it('describes only limits that differ from single units', () => {
+    expect(describeQuantityLimits({ minQuantity: 1, maxQuantity: null })).toBeNull();
+    expect(describeQuantityLimits({ minQuantity: 3, maxQuantity: null })).toBe('At least 3 per order');
+    expect(describeQuantityLimits({ minQuantity: 1, maxQuantity: 5 })).toBe('Quantity 1-5 per order');
+    expect(describeQuantityLimits({ minQuantity: 10, maxQuantity: 10 })).toBe('Sold in packs of exactly 10');
+  });
+});
@@ -0,0 +1,45 @@
+// Mirrors MAX_BASKET_LINE_QUANTITY in core; the dashboard bundle cannot import the server package.
+const MAX_LINE_QUANTITY = 999;
+
+/** Blank minimum means one; blank maximum means no limit. Throws when the pair cannot be saved. */
+export function parseQuantityLimits(input: { minQuantity: string; maxQuantity: string }): {
+  minQuantity: number;
+  maxQuantity: number | null;
+} {
+  const parseLimit = (value: string, label: string): number | null => {
+    const trimmed = value.trim();
+    if (!trimmed) {
+      return null;
+    }
+
+    const parsed = Number(trimmed);
+    if (!/^\d+$/.test(trimmed) || parsed < 1 || parsed > MAX_LINE_QUANTITY) {
+      throw new Error(`${label} must be a whole number between 1 and ${MAX_LINE_QUANTITY}, or left empty.`);
+    }
+
+    return parsed;
+  };
+
+  const minQuantity = parseLimit(input.minQuantity, 'Minimum quantity') ?? 1;
+  const maxQuantity = parseLimit(input.maxQuantity, 'Maximum quantity');
+  if (maxQuantity !== null && maxQuantity < minQuantity) {
+    throw new Error('Maximum quantity cannot be lower than the minimum quantity.');
+  }
+
+  return { minQuantity, maxQuantity };
+}
+
+/** Short quantity line for a saved price option, or `null` when any single unit can be bought. */
+export function describeQuantityLimits(input: { minQuantity: number; maxQuantity: number | null }): string | null {
+  if (input.maxQuantity !== null && input.maxQuantity === input.minQuantity) {
+    return `Sold in packs of exactly ${input.minQuantity}`;
+  }
+  if (input.maxQuantity !== null) {
+    return `Quantity ${input.minQuantity}-${input.maxQuantity} per order`;
+  }
+  if (input.minQuantity > 1) {
+    return `At least ${input.minQuantity} per order`;
+  }
+
+  return null;
+}
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+
+import { formatTaxRateBps, parseTaxRatePercentToBps } from './dashboard-receipts';
+
+describe('dashboard receipt helpers', () => {
+  it('parses the receipt tax rate into basis points', () => {
+    expect(parseTaxRatePercentToBps('')).toBe(0);
+    expect(parseTaxRatePercentToBps(' 20 ')).toBe(2000);
+    expect(parseTaxRatePercentToBps('7.25')).toBe(725);
+    expect(() => parseTaxRatePercentToBps('100.5')).toThrow('Tax rate must be a percentage');
+    expect(() => parseTaxRatePercentToBps('7.125')).toThrow('Tax rate must be a percentage');
+  });
+
+  it('formats stored basis points for the settings form', () => {
+    expect(formatTaxRateBps(0)).toBe('');
+    expect(formatTaxRateBps(2000)).toBe('20');
+    expect(formatTaxRateBps(725)).toBe('7.25');
+  });
+});
@@ -0,0 +1,17 @@
+/** Blank means no tax line on receipts. Accepts up to two decimal places, e.g. `20` or `7.25`. */
+export function parseTaxRatePercentToBps(value: string): number {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return 0;
+  }
+
+  if (!/^\d+(\.\d{1,2})?$/.test(trimmed) || Number(trimmed) > 100) {
+    throw new Error('Tax rate must be a percentage between 0 and 100 with at most two decimals.');
+  }
+
+  return Math.round(Number(trimmed) * 100);
+}
+
+export function formatTaxRateBps(taxRateBps: number): string {
+  return taxRateBps > 0 ? String(taxRateBps / 100) : '';
+}
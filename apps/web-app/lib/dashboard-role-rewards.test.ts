@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+
+import { describeRoleReward, parseRoleRewardDuration, upsertRoleReward } from './dashboard-role-rewards';
+
+describe('dashboard role reward helpers', () => {
+  it('parses optional durations in days', () => {
+    expect(parseRoleRewardDuration('')).toBeNull();
+    expect(parseRoleRewardDuration(' 30 ')).toBe(30);
+    expect(() => parseRoleRewardDuration('0')).toThrow('Role duration must be');
+    expect(() => parseRoleRewardDuration('1.5')).toThrow('Role duration must be');
+  });
+
+  it('keeps one reward per role', () => {
+    const rewards = upsertRoleReward([{ roleId: '111111', durationDays: 7 }], { roleId: '111111', durationDays: null });
+    expect(rewards).toEqual([{ roleId: '111111', durationDays: null }]);
+  });
+
+  it('describes rewards with the role name when known', () => {
+    const roles = [{ id: '111111', name: 'VIP' }];
+    expect(describeRoleReward({ roleId: '111111', durationDays: 30 }, roles)).toBe('@VIP (30 days)');
+    expect(describeRoleReward({ roleId: '222222', durationDays: null }, roles)).toBe('@222222 (permanent)');
+  });
+});
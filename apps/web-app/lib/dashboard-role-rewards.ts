@@ -0,0 +1,33 @@
+import type { RoleRewardRecord } from './dashboard-types';
+
+/** Blank means the role is kept permanently. */
+export function parseRoleRewardDuration(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  const parsed = Number(trimmed);
+  if (!/^\d+$/.test(trimmed) || parsed < 1 || parsed > 3650) {
+    throw new Error('Role duration must be a whole number of days between 1 and 3650, or left empty.');
+  }
+
+  return parsed;
+}
+
+/** Adds or replaces the reward for a role, keeping one entry per role. */
+export function upsertRoleReward(current: RoleRewardRecord[], reward: RoleRewardRecord): RoleRewardRecord[] {
+  return [...current.filter((entry) => entry.roleId !== reward.roleId), reward];
+}
+
+export function describeRoleReward(
+  reward: RoleRewardRecord,
+  roles: Array<{ id: string; name: string }> | undefined,
+): string {
+  const roleName = roles?.find((role) => role.id === reward.roleId)?.name ?? reward.roleId;
+  if (reward.durationDays === null) {
+    return `@${roleName} (permanent)`;
+  }
+
+  return `@${roleName} (${reward.durationDays === 1 ? '1 day' : `${reward.durationDays} days`})`;
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+
+import { describeSaleRefund, describeSaleSource } from './dashboard-sales';
+
+describe('dashboard sales helpers', () => {
+  it('labels refunded and charged-back sales', () => {
+    expect(describeSaleRefund({ refundStatus: 'none', refundReason: null })).toBeNull();
+    expect(describeSaleRefund({ refundStatus: 'partially_refunded', refundReason: 'refund' })).toBe(
+      'Partially refunded',
+    );
+    expect(describeSaleRefund({ refundStatus: 'refunded', refundReason: 'refund' })).toBe('Refunded');
+    expect(describeSaleRefund({ refundStatus: 'refunded', refundReason: 'chargeback' })).toBe('Chargeback');
+  });
+
+  it('labels customer-started sales as self-service', () => {
+    expect(describeSaleSource({ source: 'self_service' })).toBe('Self-service');
+    expect(describeSaleSource({ source: 'staff' })).toBeNull();
+    expect(describeSaleSource({ source: null })).toBeNull();
+  });
+});
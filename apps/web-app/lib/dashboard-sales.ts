@@ -0,0 +1,21 @@
+import type { DashboardSaleRecord } from './dashboard-types';
+
+/** Badge text for a refunded sale, or `null` when the sale has not been refunded. */
+export function describeSaleRefund(
+  sale: Pick<DashboardSaleRecord, 'refundStatus' | 'refundReason'>,
+): string | null {
+  if (sale.refundStatus === 'none') {
+    return null;
+  }
+
+  if (sale.refundReason === 'chargeback') {
+    return 'Chargeback';
+  }
+
+  return sale.refundStatus === 'refunded' ? 'Refunded' : 'Partially refunded';
+}
+
+/** Badge text for a checkout the customer started with `/buy`, or `null` for staff-started sales. */
+export function describeSaleSource(sale: Pick<DashboardSaleRecord, 'source'>): string | null {
+  return sale.source === 'self_service' ? 'Self-service' : null;
+}
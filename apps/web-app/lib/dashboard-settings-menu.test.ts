@@ -3,13 +3,22 @@ import { describe, expect, it } from 'vitest';
 import { SETTINGS_MENU_ITEMS } from './dashboard-settings-menu';
 
 describe('SETTINGS_MENU_ITEMS', () => {
-  it('includes the tipping panel between paid logs and Telegram', () => {
+  it('lists the settings panels in menu order', () => {
     expect(SETTINGS_MENU_ITEMS.map((item) => item.id)).toEqual([
       'default-currency',
+      'exchange-rates',
       'staff-roles',
       'paid-log-channel',
+      'low-stock-alerts',
       'tipping',
+      'self-service',
+      'checkout-expiry',
+      'subscriptions',
+      'receipts',
+      'manual-payments',
       'telegram',
+      'outbound-webhooks',
+      'api-keys',
     ]);
   });
 });
@@ -5,6 +5,12 @@ export const SETTINGS_MENU_ITEMS = [
     description: 'Choose the money format used across checkout and summary cards.',
     info: 'This becomes the primary dashboard currency display for the selected Discord server.',
   },
+  {
+    id: 'exchange-rates',
+    label: 'Exchange Rates',
+    description: 'Maintain the rates used to convert other currencies into the default currency.',
+    info: 'Price options in another currency are converted with these rates at checkout, and the rates used are stored on each order.',
+  },
   {
     id: 'staff-roles',
     label: 'Staff Roles',
@@ -17,11 +23,47 @@ export const SETTINGS_MENU_ITEMS = [
     description: 'Pick where successful payment notifications should land.',
     info: 'Use a private channel that your moderators or staff can monitor without cluttering public chat.',
   },
+  {
+    id: 'low-stock-alerts',
+    label: 'Low Stock Alerts',
+    description: 'Pick where low-stock and sold-out warnings should be posted.',
+    info: 'A price option alerts once when its stock falls to its low-stock threshold, and again only after it is restocked.',
+  },
   {
     id: 'tipping',
     label: 'Tipping',
     description: 'Turn the optional checkout tip prompt on or off.',
-    info: 'When enabled, the sales flow asks whether the customer wants to add an optional GBP tip before checkout.',
+    info: 'When enabled, the sales flow asks whether the customer wants to add an optional tip in the default currency before checkout.',
+  },
+  {
+    id: 'self-service',
+    label: 'Self-Service Orders',
+    description: 'Let customers start their own checkout with /buy.',
+    info: 'Customers can only start orders in ticket channels or their DMs, are limited to a few checkouts per hour, and their orders are marked as self-service in the paid log and sales list.',
+  },
+  {
+    id: 'checkout-expiry',
+    label: 'Checkout Expiry',
+    description: 'Set how long checkout links stay valid before the sale is cancelled.',
+    info: 'Expired checkouts are cancelled automatically, reserved points are released, and the checkout message is marked as expired.',
+  },
+  {
+    id: 'subscriptions',
+    label: 'Subscriptions',
+    description: 'Set when renewal reminders go out and how long unpaid renewals keep access.',
+    info: 'Price options with a renewal period start a subscription when paid. Customers get a renewal checkout by DM before it ends and lose the purchase roles once the grace period passes.',
+  },
+  {
+    id: 'receipts',
+    label: 'Receipts',
+    description: 'Set the store details and tax rate printed on customer receipts.',
+    info: 'Every paid order gets a numbered receipt. The payment confirmation links to it, and customers can print it or download a PDF.',
+  },
+  {
+    id: 'manual-payments',
+    label: 'Manual Payments',
+    description: 'Post bank transfer or gift card instructions with each checkout.',
+    info: 'Staff confirm manual payments from the checkout message. Approval runs the normal paid-order steps and records who approved it.',
   },
   {
     id: 'telegram',
@@ -29,6 +71,18 @@ export const SETTINGS_MENU_ITEMS = [
     description: 'Enable the bridge, generate an invite, and connect a Telegram chat.',
     info: 'When disabled, Telegram connect controls stay hidden and the backend rejects new connection attempts.',
   },
+  {
+    id: 'outbound-webhooks',
+    label: 'Outbound Webhooks',
+    description: 'Send signed store events to your own systems, Zapier or Make.',
+    info: 'Each endpoint gets its own signing secret. Failed deliveries are retried with backoff, and every attempt shows up in the delivery log.',
+  },
+  {
+    id: 'api-keys',
+    label: 'API Keys',
+    description: 'Create scoped keys for the /api/v1 REST API.',
+    info: 'A key acts as the member who created it, so it can never do more than their workspace role allows. Keys are stored hashed and can be revoked at any time.',
+  },
 ] as const;
 
 export type SettingsPanelId = (typeof SETTINGS_MENU_ITEMS)[number]['id'];
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+
+import { describeVariantStock, formatOptionalStockCount, parseOptionalStockCount } from './dashboard-stock';
+
+describe('dashboard stock helpers', () => {
+  it('parses optional stock counts, allowing zero', () => {
+    expect(parseOptionalStockCount('', 'Stock')).toBeNull();
+    expect(parseOptionalStockCount(' 0 ', 'Stock')).toBe(0);
+    expect(parseOptionalStockCount('12', 'Stock')).toBe(12);
+    expect(() => parseOptionalStockCount('-1', 'Stock')).toThrow('Stock must be a whole number');
+    expect(() => parseOptionalStockCount('2.5', 'Stock')).toThrow('Stock must be a whole number');
+
+    expect(formatOptionalStockCount(null)).toBe('');
+    expect(formatOptionalStockCount(0)).toBe('0');
+  });
+
+  it('describes tracked stock with reservations and thresholds', () => {
+    expect(describeVariantStock({ stockQuantity: null, stockReserved: 0, lowStockThreshold: 3 })).toBeNull();
+    expect(describeVariantStock({ stockQuantity: 8, stockReserved: 0, lowStockThreshold: null })).toBe(
+      '8 in stock',
+    );
+    expect(describeVariantStock({ stockQuantity: 8, stockReserved: 2, lowStockThreshold: 3 })).toBe(
+      '8 in stock (2 reserved) / alert at 3',
+    );
+  });
+});
@@ -0,0 +1,39 @@
+export function parseOptionalStockCount(value: string, label: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  const parsed = Number(trimmed);
+  if (!/^\d+$/.test(trimmed)) {
+    throw new Error(`${label} must be a whole number of 0 or more, or left empty.`);
+  }
+
+  return parsed;
+}
+
+export function formatOptionalStockCount(value: number | null | undefined): string {
+  return value === null || value === undefined ? '' : String(value);
+}
+
+/** Short stock line for a saved price option, or `null` when it does not track stock. */
+export function describeVariantStock(input: {
+  stockQuantity: number | null;
+  stockReserved: number;
+  lowStockThreshold: number | null;
+}): string | null {
+  if (input.stockQuantity === null) {
+    return null;
+  }
+
+  const parts = [
+    input.stockReserved > 0
+      ? `${input.stockQuantity} in stock (${input.stockReserved} reserved)`
+      : `${input.stockQuantity} in stock`,
+  ];
+  if (input.lowStockThreshold !== null) {
+    parts.push(`alert at ${input.lowStockThreshold}`);
+  }
+
+  return parts.join(' / ');
+}
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+
+import { describeBillingInterval, parseBillingIntervalDays } from './dashboard-subscriptions';
+
+describe('dashboard subscription helpers', () => {
+  it('parses the renewal period, leaving one-off purchases blank', () => {
+    expect(parseBillingIntervalDays('')).toBeNull();
+    expect(parseBillingIntervalDays(' 30 ')).toBe(30);
+    expect(() => parseBillingIntervalDays('0')).toThrow('Renewal period must be a whole number');
+    expect(() => parseBillingIntervalDays('366')).toThrow('Renewal period must be a whole number');
+    expect(() => parseBillingIntervalDays('7.5')).toThrow('Renewal period must be a whole number');
+  });
+
+  it('describes the renewal period', () => {
+    expect(describeBillingInterval(null)).toBeNull();
+    expect(describeBillingInterval(1)).toBe('Renews every day');
+    expect(describeBillingInterval(30)).toBe('Renews every 30 days');
+  });
+});
@@ -0,0 +1,22 @@
+/** Blank means the price option is a one-off purchase. */
+export function parseBillingIntervalDays(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  const parsed = Number(trimmed);
+  if (!/^\d+$/.test(trimmed) || parsed < 1 || parsed > 365) {
+    throw new Error('Renewal period must be a whole number of days between 1 and 365, or left empty.');
+  }
+
+  return parsed;
+}
+
+export function describeBillingInterval(billingIntervalDays: number | null): string | null {
+  if (billingIntervalDays === null) {
+    return null;
+  }
+
+  return billingIntervalDays === 1 ? 'Renews every day' : `Renews every ${billingIntervalDays} days`;
+}
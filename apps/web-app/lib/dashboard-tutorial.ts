@@ -164,7 +164,7 @@ export const DASHBOARD_TUTORIAL_STEP_DEFS: DashboardTutorialStepDef[] = [
     selector: '#referral-thank-you-template',
     title: 'Referral Thank-You Template',
     description:
-      'Customize the referrer DM sent after payout. Supported placeholders here are {referrer_mention}, {referrer_email}, {referred_email}, {points}, {amount_gbp}, and {order_session_id}.',
+      'Customize the referrer DM sent after payout. Supported placeholders here are {referrer_mention}, {referrer_email}, {referred_email}, {points}, {amount}, {currency}, and {order_session_id}.',
     role: 'all',
   },
   {
@@ -54,6 +54,7 @@ export type GuildResources = {
 
 export type GuildConfigRecord = {
   paidLogChannelId: string | null;
+  lowStockAlertChannelId: string | null;
   staffRoleIds: string[];
   defaultCurrency: string;
   couponsEnabled: boolean;
@@ -61,6 +62,14 @@ export type GuildConfigRecord = {
   referralsEnabled: boolean;
   telegramEnabled: boolean;
   tipEnabled: boolean;
+  checkoutExpiryMinutes: number;
+  subscriptionReminderDays: number;
+  subscriptionGraceDays: number;
+  invoiceStoreName: string;
+  invoiceStoreDetails: string;
+  invoiceTaxRateBps: number;
+  manualPaymentInstructions: string;
+  selfServiceEnabled: boolean;
   pointsEarnCategoryKeys: string[];
   pointsRedeemCategoryKeys: string[];
   pointValueMinor: number;
@@ -90,12 +99,30 @@ export type GuildConfigRecord = {
 
 export type SalesHistoryAutoClearFrequency = 'daily' | 'weekly' | 'monthly';
 
+export type RoleRewardRecord = {
+  roleId: string;
+  durationDays: number | null;
+};
+
 export type ProductVariantRecord = {
   id: string;
   label: string;
   priceMinor: number;
   referralRewardMinor: number;
   currency: string;
+  stockQuantity: number | null;
+  stockReserved: number;
+  lowStockThreshold: number | null;
+  billingIntervalDays: number | null;
+  minQuantity: number;
+  maxQuantity: number | null;
+  priceTiers: PriceTierRecord[];
+  roleRewards: RoleRewardRecord[];
+};
+
+export type PriceTierRecord = {
+  minQuantity: number;
+  priceMinor: number;
 };
 
 export type ProductFormFieldRecord = {
@@ -114,18 +141,229 @@ export type ProductRecord = {
   name: string;
   description: string;
   active: boolean;
+  roleRewards: RoleRewardRecord[];
   variants: ProductVariantRecord[];
   formFields: ProductFormFieldRecord[];
 };
 
+export type RoleGrantRecord = {
+  id: string;
+  orderSessionId: string;
+  discordUserId: string;
+  roleId: string;
+  status: 'active' | 'expired' | 'failed';
+  grantedAt: string | null;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  lastError: string | null;
+  createdAt: string;
+};
+
+export type WebhookEventProvider = 'woocommerce' | 'voodoopay' | 'stripe';
+
+export type WebhookEventStatus = 'received' | 'processed' | 'failed' | 'dead_letter' | 'duplicate';
+
+export type WebhookEventRecord = {
+  id: string;
+  provider: WebhookEventProvider;
+  topic: string;
+  providerDeliveryId: string;
+  status: WebhookEventStatus;
+  signatureValid: boolean;
+  orderSessionId: string | null;
+  attemptCount: number;
+  failureReason: string | null;
+  nextRetryAt: string | null;
+  processedAt: string | null;
+  createdAt: string;
+};
+
+export type WebhookAttemptRecord = {
+  attempt: number;
+  trigger: 'delivery' | 'retry' | 'replay';
+  outcome: 'processed' | 'failed' | 'dead_letter';
+  failureReason: string | null;
+  at: string;
+};
+
+export type WebhookEventDetailRecord = WebhookEventRecord & {
+  payload: Record<string, unknown>;
+  attemptHistory: WebhookAttemptRecord[];
+  leaseExpiresAt: string | null;
+};
+
+export type OutboundWebhookEventType =
+  | 'order.paid'
+  | 'order.fulfilled'
+  | 'order.refunded'
+  | 'points.adjusted'
+  | 'referral.rewarded'
+  | 'join_gate.verified';
+
+export type OutboundWebhookEndpointRecord = {
+  id: string;
+  url: string;
+  description: string;
+  eventTypes: OutboundWebhookEventType[];
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type OutboundWebhookDeliveryStatus = 'pending' | 'delivered' | 'failed' | 'dead_letter';
+
+export type OutboundWebhookDeliveryRecord = {
+  id: string;
+  endpointId: string;
+  eventId: string;
+  eventType: string;
+  status: OutboundWebhookDeliveryStatus;
+  attemptCount: number;
+  responseStatus: number | null;
+  lastError: string | null;
+  nextRetryAt: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+};
+
+export type ApiKeyScope =
+  | 'products:read'
+  | 'products:write'
+  | 'orders:read'
+  | 'orders:write'
+  | 'points:read'
+  | 'points:write'
+  | 'sales:write';
+
+export type ApiKeyRecord = {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  createdByDiscordUserId: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+};
+
+export type WooCatalogChangeAction = 'create' | 'update' | 'unchanged';
+
+export type WooCatalogVariantChange = {
+  action: WooCatalogChangeAction;
+  wooProductId: string;
+  variantId: string | null;
+  label: string;
+  priceMinor: number;
+  previousPriceMinor: number | null;
+  currency: string;
+  previousCurrency: string | null;
+};
+
+export type WooCatalogProductChange = {
+  action: WooCatalogChangeAction;
+  wooProductId: string;
+  productId: string | null;
+  name: string;
+  category: string;
+  description: string;
+  variants: WooCatalogVariantChange[];
+};
+
+export type WooCatalogSyncPlan = {
+  currency: string;
+  products: WooCatalogProductChange[];
+  skipped: Array<{ wooProductId: string; name: string; reason: string }>;
+  summary: {
+    create: number;
+    update: number;
+    unchanged: number;
+    skipped: number;
+  };
+  fingerprint: string;
+};
+
+export type DeliverablePoolCounts = {
+  variantId: string;
+  available: number;
+  delivered: number;
+};
+
+export type DeliverableRecord = {
+  id: string;
+  /** Masked on the server; the full key is only ever sent to the customer. */
+  preview: string;
+  status: 'available' | 'claimed' | 'delivered';
+  paidOrderId: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+};
+
+export type CouponDiscountType = 'fixed' | 'percent';
+
+export type CouponPerformance = {
+  redemptionCount: number;
+  reversedCount: number;
+  discountMinor: number;
+  revenueMinor: number;
+  uniqueCustomers: number;
+};
+
+export type CouponRedemptionRecord = {
+  id: string;
+  orderSessionId: string;
+  paidOrderId: string | null;
+  customerDiscordId: string;
+  customerEmailNormalized: string | null;
+  discountMinor: number;
+  subtotalMinor: number;
+  totalMinor: number;
+  currency: string;
+  status: 'active' | 'reversed';
+  reversalReason: string | null;
+  reversedAt: string | null;
+  createdAt: string;
+};
+
 export type CouponRecord = {
   id: string;
   code: string;
+  discountType: CouponDiscountType;
   discountMinor: number;
+  discountPercent: number;
+  maxDiscountMinor: number | null;
+  minSubtotalMinor: number;
+  startsAt: string | null;
+  endsAt: string | null;
+  maxRedemptions: number | null;
+  maxRedemptionsPerCustomer: number | null;
   active: boolean;
   allowedCategories: string[];
   allowedProductIds: string[];
   allowedVariantIds: string[];
+  performance: CouponPerformance;
+};
+
+export type AutomaticDiscountRuleType = 'spend_threshold' | 'buy_x_get_y';
+
+export type AutomaticDiscountRecord = {
+  id: string;
+  name: string;
+  ruleType: AutomaticDiscountRuleType;
+  minSubtotalMinor: number;
+  discountPercent: number;
+  category: string | null;
+  buyQuantity: number;
+  freeQuantity: number;
+  active: boolean;
+};
+
+export type ExchangeRateRecord = {
+  id: string;
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  source: string;
+  updatedAt: string;
 };
 
 export type PointsCustomerRecord = {
@@ -137,10 +375,21 @@ export type PointsCustomerRecord = {
 };
 
 export type PriceOptionDraft = {
+  /** Set for price options that already exist, so saving keeps their stock and reservations. */
+  id?: string;
   label: string;
   priceMajor: string;
   referralRewardMajor: string;
   currency: string;
+  stockQuantity: string;
+  lowStockThreshold: string;
+  billingIntervalDays: string;
+  minQuantity: string;
+  maxQuantity: string;
+  /** Volume prices as typed, e.g. `10=4.50, 50=4.00`. */
+  priceTiers: string;
+  stockReserved?: number;
+  roleRewards: RoleRewardRecord[];
 };
 
 export type QuestionDraft = {
@@ -166,6 +415,7 @@ export type VoodooIntegrationRecord = {
   merchantWalletAddress: string;
   cryptoGatewayEnabled: boolean;
   cryptoAddFees: boolean;
+  cryptoUnderpaymentTolerancePercent: number;
   cryptoWallets: VoodooCryptoWallets;
   checkoutDomain: string;
   tenantWebhookKey: string;
@@ -208,6 +458,7 @@ export type DashboardOverview = {
     paidAt: string;
     customerEmail: string | null;
     ticketChannelId: string | null;
+    source: 'staff' | 'self_service' | null;
     productId: string | null;
     variantId: string | null;
   }>;
@@ -222,15 +473,21 @@ export type DashboardSaleRecord = {
   currency: string;
   status: string;
   fulfillmentStatus: 'needs_action' | 'fulfilled';
+  refundStatus: 'none' | 'partially_refunded' | 'refunded';
+  refundReason: 'refund' | 'chargeback' | null;
+  refundedMinor: number;
+  netMinor: number;
   paymentReference: string | null;
   paidAt: string;
   paidDateKey: string;
   customerEmail: string | null;
   ticketChannelId: string | null;
+  source: 'staff' | 'self_service' | null;
   productId: string | null;
   productName: string | null;
   variantId: string | null;
   variantLabel: string | null;
+  automaticDiscounts: Array<{ label: string; amountMinor: number }>;
 };
 
 export type DashboardSalesResponse = {
@@ -240,7 +497,10 @@ export type DashboardSalesResponse = {
   toDate: string | null;
   search: string;
   totalSalesMinor: number;
+  refundedSalesMinor: number;
+  netSalesMinor: number;
   totalSalesCount: number;
+  refundedSalesCount: number;
   sales: DashboardSaleRecord[];
 };
 
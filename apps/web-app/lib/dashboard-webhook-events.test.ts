@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildWebhookEventQuery,
+  canReplayWebhookEvent,
+  describeWebhookAttempt,
+  describeWebhookEventStatus,
+} from './dashboard-webhook-events';
+
+describe('dashboard webhook events', () => {
+  it('only adds the filters that are set', () => {
+    expect(buildWebhookEventQuery('tenant-1', { provider: '', status: '', orderSessionId: '  ' })).toBe(
+      'tenantId=tenant-1',
+    );
+    expect(
+      buildWebhookEventQuery('tenant-1', { provider: 'stripe', status: 'dead_letter', orderSessionId: ' 01HKORDER ' }),
+    ).toBe('tenantId=tenant-1&provider=stripe&status=dead_letter&orderSessionId=01HKORDER');
+  });
+
+  it('tells retrying, rejected and permanently failed deliveries apart', () => {
+    expect(
+      describeWebhookEventStatus({ status: 'failed', nextRetryAt: '2026-05-01T12:00:00.000Z', signatureValid: true }),
+    ).toBe('Retrying');
+    expect(describeWebhookEventStatus({ status: 'failed', nextRetryAt: null, signatureValid: false })).toBe('Rejected');
+    expect(describeWebhookEventStatus({ status: 'failed', nextRetryAt: null, signatureValid: true })).toBe('Failed');
+    expect(describeWebhookEventStatus({ status: 'dead_letter', nextRetryAt: null, signatureValid: true })).toBe(
+      'Dead letter',
+    );
+  });
+
+  it('describes each attempt with its trigger and outcome', () => {
+    expect(
+      describeWebhookAttempt({
+        attempt: 3,
+        trigger: 'replay',
+        outcome: 'processed',
+        failureReason: null,
+        at: '2026-05-01T12:00:00.000Z',
+      }),
+    ).toBe('Attempt 3 · Manual replay · processed');
+  });
+
+  it('blocks replays of unsigned, duplicate or in-progress deliveries', () => {
+    const now = new Date('2026-05-01T12:00:00.000Z');
+
+    expect(canReplayWebhookEvent({ status: 'dead_letter', signatureValid: true, leaseExpiresAt: null }, now)).toBe(true);
+    expect(canReplayWebhookEvent({ status: 'failed', signatureValid: false, leaseExpiresAt: null }, now)).toBe(false);
+    expect(canReplayWebhookEvent({ status: 'duplicate', signatureValid: true, leaseExpiresAt: null }, now)).toBe(false);
+    expect(
+      canReplayWebhookEvent(
+        { status: 'received', signatureValid: true, leaseExpiresAt: '2026-05-01T12:03:00.000Z' },
+        now,
+      ),
+    ).toBe(false);
+  });
+});
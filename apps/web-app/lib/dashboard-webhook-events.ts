@@ -0,0 +1,77 @@
+import type {
+  WebhookAttemptRecord,
+  WebhookEventProvider,
+  WebhookEventRecord,
+  WebhookEventStatus,
+} from './dashboard-types';
+
+export const WEBHOOK_EVENT_PROVIDER_LABELS: Record<WebhookEventProvider, string> = {
+  woocommerce: 'WooCommerce',
+  voodoopay: 'Voodoo Pay',
+  stripe: 'Stripe',
+};
+
+export const WEBHOOK_EVENT_STATUS_LABELS: Record<WebhookEventStatus, string> = {
+  received: 'Received',
+  processed: 'Processed',
+  failed: 'Retrying',
+  dead_letter: 'Dead letter',
+  duplicate: 'Duplicate',
+};
+
+export type WebhookEventFilterState = {
+  provider: WebhookEventProvider | '';
+  status: WebhookEventStatus | '';
+  orderSessionId: string;
+};
+
+/** Query string for the webhook event list; empty filters are left out. */
+export function buildWebhookEventQuery(tenantId: string, filters: WebhookEventFilterState): string {
+  const params = new URLSearchParams({ tenantId });
+  if (filters.provider) {
+    params.set('provider', filters.provider);
+  }
+  if (filters.status) {
+    params.set('status', filters.status);
+  }
+  if (filters.orderSessionId.trim()) {
+    params.set('orderSessionId', filters.orderSessionId.trim());
+  }
+
+  return params.toString();
+}
+
+/** A failed event with no retry time was rejected outright (bad signature) and is never retried. */
+export function describeWebhookEventStatus(
+  event: Pick<WebhookEventRecord, 'status' | 'nextRetryAt' | 'signatureValid'>,
+): string {
+  if (event.status === 'failed' && !event.signatureValid) {
+    return 'Rejected';
+  }
+  if (event.status === 'failed' && !event.nextRetryAt) {
+    return 'Failed';
+  }
+
+  return WEBHOOK_EVENT_STATUS_LABELS[event.status];
+}
+
+export function describeWebhookAttempt(attempt: WebhookAttemptRecord): string {
+  const trigger =
+    attempt.trigger === 'replay' ? 'Manual replay' : attempt.trigger === 'retry' ? 'Automatic retry' : 'First delivery';
+  const outcome =
+    attempt.outcome === 'processed' ? 'processed' : attempt.outcome === 'dead_letter' ? 'moved to dead letter' : 'failed';
+
+  return `Attempt ${attempt.attempt} · ${trigger} · ${outcome}`;
+}
+
+/** Replays only make sense for signed, original deliveries that nobody is processing right now. */
+export function canReplayWebhookEvent(
+  event: Pick<WebhookEventRecord, 'status' | 'signatureValid'> & { leaseExpiresAt: string | null },
+  now = new Date(),
+): boolean {
+  if (!event.signatureValid || event.status === 'duplicate') {
+    return false;
+  }
+
+  return !event.leaseExpiresAt || new Date(event.leaseExpiresAt).getTime() <= now.getTime();
+}
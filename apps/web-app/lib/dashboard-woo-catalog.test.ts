@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  describeWooCatalogSummary,
+  describeWooCatalogVariantChange,
+  hasWooCatalogChanges,
+} from './dashboard-woo-catalog';
+
+describe('dashboard woo catalog', () => {
+  it('describes new, changed and unchanged price options', () => {
+    const base = {
+      wooProductId: '11',
+      variantId: null,
+      label: 'Monthly',
+      priceMinor: 1250,
+      previousPriceMinor: null,
+      currency: 'GBP',
+      previousCurrency: null,
+    };
+
+    expect(describeWooCatalogVariantChange({ ...base, action: 'create' })).toBe('Monthly: new at £12.50');
+    expect(
+      describeWooCatalogVariantChange({
+        ...base,
+        action: 'update',
+        variantId: 'variant-1',
+        previousPriceMinor: 1000,
+        previousCurrency: 'GBP',
+      }),
+    ).toBe('Monthly: £10.00 -> £12.50');
+    expect(
+      describeWooCatalogVariantChange({ ...base, action: 'unchanged', variantId: 'variant-1', previousPriceMinor: 1250 }),
+    ).toBe('Monthly: £12.50');
+  });
+
+  it('summarises the plan and only offers to apply real changes', () => {
+    const summary = { create: 1, update: 2, unchanged: 3, skipped: 0 };
+
+    expect(describeWooCatalogSummary(summary)).toBe('1 new · 2 updated · 3 unchanged · 0 skipped');
+    expect(hasWooCatalogChanges({ summary })).toBe(true);
+    expect(hasWooCatalogChanges({ summary: { create: 0, update: 0, unchanged: 3, skipped: 1 } })).toBe(false);
+  });
+});
@@ -0,0 +1,28 @@
+import { formatCurrencyMinor } from './dashboard-format';
+import type { WooCatalogSyncPlan, WooCatalogVariantChange } from './dashboard-types';
+
+export function describeWooCatalogVariantChange(change: WooCatalogVariantChange): string {
+  const price = formatCurrencyMinor(change.priceMinor, change.currency);
+  if (change.action === 'create') {
+    return `${change.label}: new at ${price}`;
+  }
+  if (change.action === 'unchanged' || change.previousPriceMinor === null) {
+    return `${change.label}: ${price}`;
+  }
+
+  const previous = formatCurrencyMinor(change.previousPriceMinor, change.previousCurrency ?? change.currency);
+  return `${change.label}: ${previous} -> ${price}`;
+}
+
+export function describeWooCatalogSummary(summary: WooCatalogSyncPlan['summary']): string {
+  return [
+    `${summary.create} new`,
+    `${summary.update} updated`,
+    `${summary.unchanged} unchanged`,
+    `${summary.skipped} skipped`,
+  ].join(' · ');
+}
+
+export function hasWooCatalogChanges(plan: Pick<WooCatalogSyncPlan, 'summary'>): boolean {
+  return plan.summary.create + plan.summary.update > 0;
+}
@@ -1,8 +1,17 @@
-﻿import { AppError, AuthService, type SessionPayload } from '@voodoo/core';
+﻿import {
+  ApiKeyService,
+  AppError,
+  AuthService,
+  readBearerApiKey,
+  type ApiKeyPrincipal,
+  type ApiKeyScope,
+  type SessionPayload,
+} from '@voodoo/core';
 import type { NextRequest} from 'next/server';
 import { NextResponse } from 'next/server';
 
 const authService = new AuthService();
+const apiKeyService = new ApiKeyService();
 
 export async function requireSession(
   request: NextRequest,
@@ -29,6 +38,31 @@ export async function requireSession(
   };
 }
 
+/** `/api/v1` counterpart of `requireSession`: authenticates the bearer API key and checks its scope. */
+export async function requireApiKey(
+  request: NextRequest,
+  scope: ApiKeyScope,
+): Promise<{ ok: true; principal: ApiKeyPrincipal } | { ok: false; response: NextResponse }> {
+  const principal = await apiKeyService.authenticate({
+    key: readBearerApiKey(request.headers.get('authorization')),
+    scope,
+  });
+  if (principal.isErr()) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: principal.error.message, code: principal.error.code },
+        { status: principal.error.statusCode },
+      ),
+    };
+  }
+
+  return {
+    ok: true,
+    principal: principal.value,
+  };
+}
+
 export function jsonError(error: unknown): NextResponse {
   if (error instanceof AppError) {
     return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode });
@@ -0,0 +1,22 @@
+CREATE TABLE `sale_drafts` (
+  `id` varchar(26) NOT NULL,
+  `kind` varchar(32) NOT NULL,
+  `draft_key` varchar(96) NOT NULL,
+  `tenant_id` varchar(26) NOT NULL,
+  `guild_id` varchar(32) NOT NULL,
+  `ticket_channel_id` varchar(32),
+  `control_chat_id` varchar(32),
+  `state` json NOT NULL,
+  `version` int NOT NULL DEFAULT 1,
+  `expires_at` timestamp NOT NULL,
+  `created_at` timestamp NOT NULL DEFAULT (now()),
+  `updated_at` timestamp NOT NULL DEFAULT (now()),
+  CONSTRAINT `sale_drafts_id` PRIMARY KEY(`id`),
+  CONSTRAINT `sale_drafts_kind_key_uq` UNIQUE(`kind`,`draft_key`)
+);
+--> statement-breakpoint
+CREATE INDEX `sale_drafts_kind_ticket_channel_idx` ON `sale_drafts` (`kind`,`ticket_channel_id`);
+--> statement-breakpoint
+CREATE INDEX `sale_drafts_kind_control_chat_idx` ON `sale_drafts` (`kind`,`control_chat_id`);
+--> statement-breakpoint
+CREATE INDEX `sale_drafts_expires_at_idx` ON `sale_drafts` (`expires_at`);
@@ -0,0 +1,4 @@
+ALTER TABLE `guild_configs` ADD `checkout_expiry_minutes` int DEFAULT 30 NOT NULL;--> statement-breakpoint
+ALTER TABLE `order_sessions` ADD `checkout_message_channel_id` varchar(32);--> statement-breakpoint
+ALTER TABLE `order_sessions` ADD `checkout_message_id` varchar(32);--> statement-breakpoint
+CREATE INDEX `order_sessions_status_expires_idx` ON `order_sessions` (`status`,`checkout_token_expires_at`);
@@ -0,0 +1,9 @@
+ALTER TABLE `discount_coupons` ADD `discount_type` enum('fixed','percent') DEFAULT 'fixed' NOT NULL;--> statement-breakpoint
+ALTER TABLE `discount_coupons` ADD `discount_percent` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `discount_coupons` ADD `max_discount_minor` int;--> statement-breakpoint
+ALTER TABLE `discount_coupons` ADD `min_subtotal_minor` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `discount_coupons` ADD `starts_at` timestamp;--> statement-breakpoint
+ALTER TABLE `discount_coupons` ADD `ends_at` timestamp;--> statement-breakpoint
+ALTER TABLE `discount_coupons` ADD `max_redemptions` int;--> statement-breakpoint
+ALTER TABLE `discount_coupons` ADD `max_redemptions_per_customer` int;--> statement-breakpoint
+CREATE INDEX `order_sessions_coupon_code_idx` ON `order_sessions` (`tenant_id`,`guild_id`,`coupon_code`);
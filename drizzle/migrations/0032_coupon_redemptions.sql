@@ -0,0 +1,43 @@
+CREATE TABLE `coupon_redemptions` (
+  `id` varchar(26) NOT NULL,
+  `tenant_id` varchar(26) NOT NULL,
+  `guild_id` varchar(32) NOT NULL,
+  `coupon_id` varchar(26),
+  `coupon_code` varchar(40) NOT NULL,
+  `order_session_id` varchar(26) NOT NULL,
+  `paid_order_id` varchar(26),
+  `customer_discord_id` varchar(32) NOT NULL,
+  `customer_email_normalized` varchar(320),
+  `discount_minor` int NOT NULL,
+  `subtotal_minor` int NOT NULL,
+  `total_minor` int NOT NULL,
+  `currency` varchar(3) NOT NULL,
+  `status` enum('active','reversed') NOT NULL DEFAULT 'active',
+  `reversal_reason` varchar(32),
+  `reversed_at` timestamp,
+  `created_at` timestamp NOT NULL DEFAULT (now()),
+  `updated_at` timestamp NOT NULL DEFAULT (now()),
+  CONSTRAINT `coupon_redemptions_id` PRIMARY KEY(`id`),
+  CONSTRAINT `coupon_redemptions_order_session_uq` UNIQUE(`order_session_id`)
+);
+--> statement-breakpoint
+CREATE INDEX `coupon_redemptions_tenant_guild_coupon_idx` ON `coupon_redemptions` (`tenant_id`,`guild_id`,`coupon_id`);
+--> statement-breakpoint
+CREATE INDEX `coupon_redemptions_tenant_created_idx` ON `coupon_redemptions` (`tenant_id`,`created_at`);
+--> statement-breakpoint
+INSERT INTO `coupon_redemptions` (
+  `id`, `tenant_id`, `guild_id`, `coupon_id`, `coupon_code`, `order_session_id`, `paid_order_id`,
+  `customer_discord_id`, `customer_email_normalized`, `discount_minor`, `subtotal_minor`, `total_minor`,
+  `currency`, `status`, `created_at`, `updated_at`
+)
+SELECT
+  `os`.`id`, `os`.`tenant_id`, `os`.`guild_id`, `dc`.`id`, `os`.`coupon_code`, `os`.`id`, `op`.`id`,
+  `os`.`customer_discord_id`, `os`.`customer_email_normalized`, `os`.`coupon_discount_minor`,
+  `os`.`subtotal_minor`, `op`.`price_minor`, `op`.`currency`, 'active', `op`.`paid_at`, `op`.`paid_at`
+FROM `order_sessions` `os`
+INNER JOIN `orders_paid` `op` ON `op`.`order_session_id` = `os`.`id`
+LEFT JOIN `discount_coupons` `dc`
+  ON `dc`.`tenant_id` = `os`.`tenant_id`
+  AND `dc`.`guild_id` = `os`.`guild_id`
+  AND `dc`.`code` = `os`.`coupon_code`
+WHERE `os`.`status` = 'paid' AND `os`.`coupon_code` IS NOT NULL AND `os`.`coupon_discount_minor` > 0;
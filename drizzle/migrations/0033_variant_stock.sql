@@ -0,0 +1,7 @@
+ALTER TABLE `product_variants` ADD `stock_quantity` int;--> statement-breakpoint
+ALTER TABLE `product_variants` ADD `stock_reserved` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `product_variants` ADD `low_stock_threshold` int;--> statement-breakpoint
+ALTER TABLE `product_variants` ADD `low_stock_alerted_at` timestamp;--> statement-breakpoint
+ALTER TABLE `guild_configs` ADD `low_stock_alert_channel_id` varchar(32);--> statement-breakpoint
+ALTER TABLE `order_sessions` ADD `stock_reservations` json DEFAULT ('[]') NOT NULL;--> statement-breakpoint
+ALTER TABLE `order_sessions` ADD `stock_reservation_state` enum('none','reserved','released_expired','released_cancelled','consumed') DEFAULT 'none' NOT NULL;
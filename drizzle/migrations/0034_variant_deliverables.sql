@@ -0,0 +1,19 @@
+CREATE TABLE `variant_deliverables` (
+  `id` varchar(26) NOT NULL,
+  `tenant_id` varchar(26) NOT NULL,
+  `guild_id` varchar(32) NOT NULL,
+  `product_id` varchar(26) NOT NULL,
+  `variant_id` varchar(26) NOT NULL,
+  `secret_encrypted` text NOT NULL,
+  `status` enum('available','delivered') NOT NULL DEFAULT 'available',
+  `order_session_id` varchar(26),
+  `paid_order_id` varchar(26),
+  `delivered_at` timestamp,
+  `created_at` timestamp NOT NULL DEFAULT (now()),
+  `updated_at` timestamp NOT NULL DEFAULT (now()),
+  CONSTRAINT `variant_deliverables_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `variant_deliverables_tenant_variant_status_idx` ON `variant_deliverables` (`tenant_id`,`variant_id`,`status`);
+--> statement-breakpoint
+CREATE INDEX `variant_deliverables_paid_order_idx` ON `variant_deliverables` (`paid_order_id`);
@@ -0,0 +1,4 @@
+ALTER TABLE `orders_paid` ADD `refund_status` enum('none','partially_refunded','refunded') DEFAULT 'none' NOT NULL;--> statement-breakpoint
+ALTER TABLE `orders_paid` ADD `refund_reason` enum('refund','chargeback');--> statement-breakpoint
+ALTER TABLE `orders_paid` ADD `refunded_minor` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `orders_paid` ADD `refunded_at` timestamp;
@@ -0,0 +1,6 @@
+ALTER TABLE `tenant_integrations_voodoo_pay` ADD `crypto_underpayment_tolerance_percent` int DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE `orders_paid` ADD `amount_check` enum('not_checked','matched','underpaid','overpaid') DEFAULT 'not_checked' NOT NULL;--> statement-breakpoint
+ALTER TABLE `orders_paid` ADD `payment_coin` varchar(32);--> statement-breakpoint
+ALTER TABLE `orders_paid` ADD `payment_coin_amount` varchar(64);--> statement-breakpoint
+ALTER TABLE `orders_paid` ADD `expected_coin_amount` varchar(64);--> statement-breakpoint
+ALTER TABLE `orders_paid` ADD `received_minor` int;
@@ -0,0 +1,15 @@
+CREATE TABLE `guild_exchange_rates` (
+  `id` varchar(26) NOT NULL,
+  `tenant_id` varchar(26) NOT NULL,
+  `guild_id` varchar(32) NOT NULL,
+  `from_currency` varchar(3) NOT NULL,
+  `to_currency` varchar(3) NOT NULL,
+  `rate` varchar(32) NOT NULL,
+  `source` varchar(80) NOT NULL DEFAULT 'manual',
+  `created_at` timestamp NOT NULL DEFAULT (now()),
+  `updated_at` timestamp NOT NULL DEFAULT (now()),
+  CONSTRAINT `guild_exchange_rates_id` PRIMARY KEY(`id`),
+  CONSTRAINT `guild_exchange_rates_tenant_guild_pair_uq` UNIQUE(`tenant_id`,`guild_id`,`from_currency`,`to_currency`)
+);
+--> statement-breakpoint
+ALTER TABLE `order_sessions` ADD `fx_rates_snapshot` json DEFAULT ('[]') NOT NULL;
@@ -0,0 +1,6 @@
+UPDATE `guild_configs`
+SET `referral_thank_you_template` = 'Thanks for your referral. You earned {points} point(s) ({amount} {currency}) after {referred_email} paid.'
+WHERE `referral_thank_you_template` = 'Thanks for your referral. You earned {points} point(s) ({amount_gbp} GBP) after {referred_email} paid.';
+--> statement-breakpoint
+ALTER TABLE `guild_configs`
+  MODIFY COLUMN `referral_thank_you_template` text DEFAULT ('Thanks for your referral. You earned {points} point(s) ({amount} {currency}) after {referred_email} paid.') NOT NULL;
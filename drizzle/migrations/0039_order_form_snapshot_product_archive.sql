@@ -0,0 +1,2 @@
+ALTER TABLE `order_sessions` ADD `form_snapshot` json;--> statement-breakpoint
+ALTER TABLE `products` ADD `archived_at` timestamp;
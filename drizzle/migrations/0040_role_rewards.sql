@@ -0,0 +1,24 @@
+ALTER TABLE `products` ADD `role_rewards` json DEFAULT ('[]') NOT NULL;--> statement-breakpoint
+ALTER TABLE `product_variants` ADD `role_rewards` json DEFAULT ('[]') NOT NULL;--> statement-breakpoint
+CREATE TABLE `role_grants` (
+  `id` varchar(26) NOT NULL,
+  `tenant_id` varchar(26) NOT NULL,
+  `guild_id` varchar(32) NOT NULL,
+  `order_session_id` varchar(26) NOT NULL,
+  `paid_order_id` varchar(26) NOT NULL,
+  `discord_user_id` varchar(32) NOT NULL,
+  `role_id` varchar(32) NOT NULL,
+  `status` enum('active','expired','failed') NOT NULL DEFAULT 'active',
+  `granted_at` timestamp,
+  `expires_at` timestamp,
+  `revoked_at` timestamp,
+  `last_error` text,
+  `created_at` timestamp NOT NULL DEFAULT (now()),
+  `updated_at` timestamp NOT NULL DEFAULT (now()),
+  CONSTRAINT `role_grants_id` PRIMARY KEY(`id`),
+  CONSTRAINT `role_grants_order_session_role_uq` UNIQUE(`order_session_id`,`role_id`)
+);
+--> statement-breakpoint
+CREATE INDEX `role_grants_status_expires_idx` ON `role_grants` (`status`,`expires_at`);
+--> statement-breakpoint
+CREATE INDEX `role_grants_tenant_guild_created_idx` ON `role_grants` (`tenant_id`,`guild_id`,`created_at`);
@@ -0,0 +1,36 @@
+ALTER TABLE `guild_configs` ADD `subscription_reminder_days` int DEFAULT 3 NOT NULL;--> statement-breakpoint
+ALTER TABLE `guild_configs` ADD `subscription_grace_days` int DEFAULT 3 NOT NULL;--> statement-breakpoint
+ALTER TABLE `product_variants` ADD `billing_interval_days` int;--> statement-breakpoint
+ALTER TABLE `order_sessions` ADD `subscription_id` varchar(26);--> statement-breakpoint
+CREATE TABLE `subscriptions` (
+  `id` varchar(26) NOT NULL,
+  `tenant_id` varchar(26) NOT NULL,
+  `guild_id` varchar(32) NOT NULL,
+  `customer_discord_id` varchar(32) NOT NULL,
+  `product_id` varchar(26) NOT NULL,
+  `variant_id` varchar(26) NOT NULL,
+  `product_name` varchar(120) NOT NULL,
+  `variant_label` varchar(80) NOT NULL,
+  `billing_interval_days` int NOT NULL,
+  `role_ids` json DEFAULT ('[]') NOT NULL,
+  `status` enum('active','grace','lapsed') NOT NULL DEFAULT 'active',
+  `source_order_session_id` varchar(26) NOT NULL,
+  `last_paid_order_session_id` varchar(26) NOT NULL,
+  `current_period_end` timestamp NOT NULL,
+  `reminder_due_at` timestamp NOT NULL,
+  `grace_ends_at` timestamp NOT NULL,
+  `reminder_sent_at` timestamp,
+  `renewal_order_session_id` varchar(26),
+  `lapsed_at` timestamp,
+  `last_error` text,
+  `created_at` timestamp NOT NULL DEFAULT (now()),
+  `updated_at` timestamp NOT NULL DEFAULT (now()),
+  CONSTRAINT `subscriptions_id` PRIMARY KEY(`id`),
+  CONSTRAINT `subscriptions_source_order_variant_uq` UNIQUE(`source_order_session_id`,`variant_id`)
+);
+--> statement-breakpoint
+CREATE INDEX `subscriptions_status_reminder_idx` ON `subscriptions` (`status`,`reminder_due_at`);
+--> statement-breakpoint
+CREATE INDEX `subscriptions_status_period_end_idx` ON `subscriptions` (`status`,`current_period_end`);
+--> statement-breakpoint
+CREATE INDEX `subscriptions_tenant_guild_created_idx` ON `subscriptions` (`tenant_id`,`guild_id`,`created_at`);
@@ -0,0 +1,13 @@
+ALTER TABLE `guild_configs` ADD `invoice_store_name` varchar(120) DEFAULT '' NOT NULL;--> statement-breakpoint
+ALTER TABLE `guild_configs` ADD `invoice_store_details` varchar(500) DEFAULT '' NOT NULL;--> statement-breakpoint
+ALTER TABLE `guild_configs` ADD `invoice_tax_rate_bps` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `orders_paid` ADD `invoice_number` int;--> statement-breakpoint
+UPDATE `orders_paid` AS `paid`
+JOIN (
+  SELECT `id`, ROW_NUMBER() OVER (PARTITION BY `tenant_id`, `guild_id` ORDER BY `paid_at`, `id`) AS `invoice_number`
+  FROM `orders_paid`
+) AS `numbered` ON `numbered`.`id` = `paid`.`id`
+SET `paid`.`invoice_number` = `numbered`.`invoice_number`;
+--> statement-breakpoint
+ALTER TABLE `orders_paid` MODIFY COLUMN `invoice_number` int NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX `orders_paid_invoice_number_uq` ON `orders_paid` (`tenant_id`,`guild_id`,`invoice_number`);
@@ -0,0 +1,3 @@
+ALTER TABLE `guild_configs` ADD `self_service_enabled` boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `order_sessions` ADD `source` enum('staff','self_service') DEFAULT 'staff' NOT NULL;--> statement-breakpoint
+CREATE INDEX `order_sessions_source_customer_created_idx` ON `order_sessions` (`tenant_id`,`guild_id`,`source`,`customer_discord_id`,`created_at`);
@@ -0,0 +1,14 @@
+CREATE TABLE `storefront_panels` (
+  `id` varchar(26) NOT NULL,
+  `tenant_id` varchar(26) NOT NULL,
+  `guild_id` varchar(32) NOT NULL,
+  `channel_id` varchar(32) NOT NULL,
+  `message_id` varchar(32) NOT NULL,
+  `ticket_category_id` varchar(32),
+  `created_at` timestamp NOT NULL DEFAULT (now()),
+  `updated_at` timestamp NOT NULL DEFAULT (now()),
+  CONSTRAINT `storefront_panels_id` PRIMARY KEY(`id`),
+  CONSTRAINT `storefront_panels_tenant_channel_uq` UNIQUE(`tenant_id`,`guild_id`,`channel_id`)
+);
+--> statement-breakpoint
+CREATE INDEX `storefront_panels_message_idx` ON `storefront_panels` (`message_id`);
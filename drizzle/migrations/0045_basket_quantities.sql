@@ -0,0 +1,2 @@
+ALTER TABLE `product_variants` ADD `min_quantity` int DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE `product_variants` ADD `max_quantity` int;
@@ -0,0 +1,21 @@
+CREATE TABLE `automatic_discounts` (
+  `id` varchar(26) NOT NULL,
+  `tenant_id` varchar(26) NOT NULL,
+  `guild_id` varchar(32) NOT NULL,
+  `name` varchar(80) NOT NULL,
+  `rule_type` enum('spend_threshold','buy_x_get_y') NOT NULL,
+  `min_subtotal_minor` int NOT NULL DEFAULT 0,
+  `discount_percent` int NOT NULL DEFAULT 0,
+  `category` varchar(80),
+  `buy_quantity` int NOT NULL DEFAULT 0,
+  `free_quantity` int NOT NULL DEFAULT 0,
+  `active` boolean NOT NULL DEFAULT true,
+  `created_at` timestamp NOT NULL DEFAULT (now()),
+  `updated_at` timestamp NOT NULL DEFAULT (now()),
+  CONSTRAINT `automatic_discounts_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `automatic_discounts_tenant_guild_idx` ON `automatic_discounts` (`tenant_id`,`guild_id`);--> statement-breakpoint
+ALTER TABLE `product_variants` ADD `price_tiers` json DEFAULT ('[]') NOT NULL;--> statement-breakpoint
+ALTER TABLE `order_sessions` ADD `automatic_discount_minor` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `order_sessions` ADD `automatic_discounts` json DEFAULT ('[]') NOT NULL;
@@ -0,0 +1,17 @@
+CREATE TABLE `tenant_integrations_stripe` (
+  `id` varchar(26) NOT NULL,
+  `tenant_id` varchar(26) NOT NULL,
+  `guild_id` varchar(32) NOT NULL,
+  `tenant_webhook_key` varchar(64) NOT NULL,
+  `secret_key_encrypted` text NOT NULL,
+  `webhook_secret_encrypted` text NOT NULL,
+  `created_at` timestamp NOT NULL DEFAULT (now()),
+  `updated_at` timestamp NOT NULL DEFAULT (now()),
+  CONSTRAINT `tenant_integrations_stripe_id` PRIMARY KEY(`id`),
+  CONSTRAINT `tenant_integrations_stripe_tenant_guild_uq` UNIQUE(`tenant_id`,`guild_id`),
+  CONSTRAINT `tenant_integrations_stripe_webhook_key_uq` UNIQUE(`tenant_webhook_key`)
+);
+--> statement-breakpoint
+CREATE INDEX `tenant_integrations_stripe_tenant_guild_idx` ON `tenant_integrations_stripe` (`tenant_id`,`guild_id`);--> statement-breakpoint
+CREATE INDEX `tenant_integrations_stripe_tenant_created_idx` ON `tenant_integrations_stripe` (`tenant_id`,`created_at`);--> statement-breakpoint
+ALTER TABLE `webhook_events` MODIFY COLUMN `provider` enum('woocommerce','voodoopay','stripe') NOT NULL DEFAULT 'woocommerce';
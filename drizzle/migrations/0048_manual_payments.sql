@@ -0,0 +1 @@
+ALTER TABLE `guild_configs` ADD `manual_payment_instructions` varchar(1000) DEFAULT '' NOT NULL;
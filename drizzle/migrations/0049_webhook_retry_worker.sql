@@ -0,0 +1,4 @@
+ALTER TABLE `webhook_events` MODIFY COLUMN `status` enum('received','processed','failed','duplicate','dead_letter') NOT NULL DEFAULT 'received';--> statement-breakpoint
+ALTER TABLE `webhook_events` ADD `lease_owner` varchar(96);--> statement-breakpoint
+ALTER TABLE `webhook_events` ADD `lease_expires_at` timestamp;--> statement-breakpoint
+CREATE INDEX `webhook_events_status_retry_idx` ON `webhook_events` (`status`,`next_retry_at`);
@@ -0,0 +1,6 @@
+ALTER TABLE `webhook_events` ADD `order_session_id` varchar(26);--> statement-breakpoint
+ALTER TABLE `webhook_events` ADD `attempt_history` json DEFAULT ('[]') NOT NULL;--> statement-breakpoint
+UPDATE `webhook_events`
+  SET `order_session_id` = LEFT(JSON_UNQUOTE(JSON_EXTRACT(`payload`, '$.order_session_id')), 26)
+  WHERE `provider` = 'voodoopay' AND JSON_EXTRACT(`payload`, '$.order_session_id') IS NOT NULL;--> statement-breakpoint
+CREATE INDEX `webhook_events_tenant_order_session_idx` ON `webhook_events` (`tenant_id`,`order_session_id`);
@@ -0,0 +1,41 @@
+CREATE TABLE `outbound_webhook_endpoints` (
+  `id` varchar(26) NOT NULL,
+  `tenant_id` varchar(26) NOT NULL,
+  `guild_id` varchar(32) NOT NULL,
+  `url` varchar(500) NOT NULL,
+  `description` varchar(120) NOT NULL DEFAULT '',
+  `secret_encrypted` text NOT NULL,
+  `event_types` json NOT NULL DEFAULT ('[]'),
+  `active` boolean NOT NULL DEFAULT true,
+  `created_at` timestamp NOT NULL DEFAULT (now()),
+  `updated_at` timestamp NOT NULL DEFAULT (now()),
+  CONSTRAINT `outbound_webhook_endpoints_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `outbound_webhook_deliveries` (
+  `id` varchar(26) NOT NULL,
+  `tenant_id` varchar(26) NOT NULL,
+  `guild_id` varchar(32) NOT NULL,
+  `endpoint_id` varchar(26) NOT NULL,
+  `event_id` varchar(26) NOT NULL,
+  `event_type` varchar(64) NOT NULL,
+  `event_key` varchar(160) NOT NULL,
+  `payload` json NOT NULL,
+  `status` enum('pending','delivered','failed','dead_letter') NOT NULL DEFAULT 'pending',
+  `attempt_count` int NOT NULL DEFAULT 0,
+  `response_status` int,
+  `last_error` text,
+  `next_retry_at` timestamp,
+  `lease_owner` varchar(96),
+  `lease_expires_at` timestamp,
+  `delivered_at` timestamp,
+  `created_at` timestamp NOT NULL DEFAULT (now()),
+  `updated_at` timestamp NOT NULL DEFAULT (now()),
+  CONSTRAINT `outbound_webhook_deliveries_id` PRIMARY KEY(`id`),
+  CONSTRAINT `outbound_webhook_deliveries_endpoint_event_key_uq` UNIQUE(`endpoint_id`,`event_key`)
+);
+--> statement-breakpoint
+CREATE INDEX `outbound_webhook_endpoints_tenant_guild_idx` ON `outbound_webhook_endpoints` (`tenant_id`,`guild_id`);--> statement-breakpoint
+CREATE INDEX `outbound_webhook_deliveries_tenant_guild_created_idx` ON `outbound_webhook_deliveries` (`tenant_id`,`guild_id`,`created_at`);--> statement-breakpoint
+CREATE INDEX `outbound_webhook_deliveries_status_retry_idx` ON `outbound_webhook_deliveries` (`status`,`next_retry_at`);--> statement-breakpoint
+CREATE INDEX `outbound_webhook_deliveries_event_idx` ON `outbound_webhook_deliveries` (`event_id`);
@@ -0,0 +1,17 @@
+CREATE TABLE `tenant_api_keys` (
+  `id` varchar(26) NOT NULL,
+  `tenant_id` varchar(26) NOT NULL,
+  `name` varchar(80) NOT NULL,
+  `key_prefix` varchar(16) NOT NULL,
+  `key_hash` varchar(64) NOT NULL,
+  `scopes` json NOT NULL DEFAULT ('[]'),
+  `created_by_user_id` varchar(26) NOT NULL,
+  `created_by_discord_user_id` varchar(32) NOT NULL,
+  `last_used_at` timestamp,
+  `revoked_at` timestamp,
+  `created_at` timestamp NOT NULL DEFAULT (now()),
+  CONSTRAINT `tenant_api_keys_id` PRIMARY KEY(`id`),
+  CONSTRAINT `tenant_api_keys_key_hash_uq` UNIQUE(`key_hash`)
+);
+--> statement-breakpoint
+CREATE INDEX `tenant_api_keys_tenant_idx` ON `tenant_api_keys` (`tenant_id`);
@@ -0,0 +1,3 @@
+UPDATE `guild_configs`
+SET `referral_thank_you_template` = REPLACE(`referral_thank_you_template`, '{amount_gbp} GBP', '{amount} {currency}')
+WHERE INSTR(`referral_thank_you_template`, '{amount_gbp} GBP') > 0;
@@ -0,0 +1 @@
+ALTER TABLE `variant_deliverables` MODIFY COLUMN `status` enum('available','claimed','delivered') NOT NULL DEFAULT 'available';
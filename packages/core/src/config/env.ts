@@ -13,6 +13,10 @@ const envSchema = z.object({
   CHANNEL_COPY_DISCORD_CLIENT_ID: z.string().default(''),
   SPORTS_POLL_INTERVAL_MS: z.coerce.number().int().min(5_000).default(30_000),
   SALES_HISTORY_POLL_INTERVAL_MS: z.coerce.number().int().min(5_000).default(30_000),
+  ORDER_SESSION_EXPIRY_POLL_INTERVAL_MS: z.coerce.number().int().min(5_000).default(60_000),
+  ROLE_GRANT_EXPIRY_POLL_INTERVAL_MS: z.coerce.number().int().min(5_000).default(300_000),
+  SUBSCRIPTION_RENEWAL_POLL_INTERVAL_MS: z.coerce.number().int().min(5_000).default(900_000),
+  WEBHOOK_RETRY_POLL_INTERVAL_MS: z.coerce.number().int().min(5_000).default(30_000),
   SPORTS_API_KEY: z.string().default(''),
   SPORTS_API_V1_BASE_URL: z.string().url().default('https://www.thesportsdb.com/api/v1/json'),
   SPORTS_API_BASE_URL: z.string().url().default('https://www.thesportsdb.com/api/v2/json'),
@@ -50,6 +54,8 @@ const envSchema = z.object({
   DISCORD_API_BASE_URL: z.string().url().default('https://discord.com/api/v10'),
   VOODOO_PAY_API_BASE_URL: z.string().url().default('https://api.voodoo-pay.uk'),
   VOODOO_PAY_CHECKOUT_BASE_URL: z.string().url().default('https://checkout.voodoo-pay.uk'),
+  STRIPE_API_BASE_URL: z.string().url().default('https://api.stripe.com'),
+  FX_RATES_API_BASE_URL: z.string().default(''),
 });
 
 export type AppEnv = z.infer<typeof envSchema> & {
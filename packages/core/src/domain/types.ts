@@ -6,7 +6,39 @@ export type FormFieldType = 'short_text' | 'long_text' | 'email' | 'number';
 
 export type OrderSessionStatus = 'pending_payment' | 'cancelled' | 'paid';
 
-export type WebhookEventStatus = 'received' | 'processed' | 'failed' | 'duplicate';
+export type WebhookEventStatus = 'received' | 'processed' | 'failed' | 'duplicate' | 'dead_letter';
+
+export type WebhookAttemptTrigger = 'delivery' | 'retry' | 'replay';
+
+/** One processing attempt of a stored provider webhook, kept so the dashboard can show its failure history. */
+export type WebhookAttemptHistoryEntry = {
+  attempt: number;
+  trigger: WebhookAttemptTrigger;
+  outcome: 'processed' | 'failed' | 'dead_letter';
+  failureReason: string | null;
+  at: string;
+};
+
+/** Store events a tenant can subscribe an outbound webhook endpoint to. */
+export type OutboundWebhookEventType =
+  | 'order.paid'
+  | 'order.fulfilled'
+  | 'order.refunded'
+  | 'points.adjusted'
+  | 'referral.rewarded'
+  | 'join_gate.verified';
+
+export type OutboundWebhookDeliveryStatus = 'pending' | 'delivered' | 'failed' | 'dead_letter';
+
+/** What a tenant API key may do through the `/api/v1` routes, on top of its creator's role. */
+export type ApiKeyScope =
+  | 'products:read'
+  | 'products:write'
+  | 'orders:read'
+  | 'orders:write'
+  | 'points:read'
+  | 'points:write'
+  | 'sales:write';
 
 export type TenantMemberRole = 'owner' | 'admin' | 'member';
 
@@ -28,13 +60,37 @@ export type ProductFormFieldInput = {
   validation?: FormFieldValidation;
 };
 
+/** Discord role given to the buyer once an order is paid; a null duration keeps the role permanently. */
+export type RoleRewardInput = {
+  roleId: string;
+  durationDays: number | null;
+};
+
+/** Unit price once a basket holds at least `minQuantity` units of the price option. */
+export type PriceTierInput = {
+  minQuantity: number;
+  priceMinor: number;
+};
+
 export type ProductVariantInput = {
+  id?: string;
   label: string;
   priceMinor: number;
   currency: string;
   referralRewardMinor?: number;
   wooProductId?: string;
   wooCheckoutPath?: string;
+  stockQuantity?: number | null;
+  lowStockThreshold?: number | null;
+  roleRewards?: RoleRewardInput[];
+  /** Renewal period in days; `null` sells the price option as a one-off purchase. */
+  billingIntervalDays?: number | null;
+  /** Fewest units a customer can buy in one basket line. */
+  minQuantity?: number;
+  /** Most units a customer can buy in one basket line; `null` only caps at the global line limit. */
+  maxQuantity?: number | null;
+  /** Volume prices; the deepest breakpoint the basket reaches sets the unit price. */
+  priceTiers?: PriceTierInput[];
 };
 
 export type ProductInput = {
@@ -42,6 +98,7 @@ export type ProductInput = {
   name: string;
   description: string;
   active: boolean;
+  roleRewards?: RoleRewardInput[];
   variants: ProductVariantInput[];
 };
 
@@ -75,6 +132,12 @@ export type WooOrderPayload = {
     key: string;
     value: string | number | boolean | null;
   }>;
+  /** Refunds issued so far. Woo reports each `total` as a negative decimal string. */
+  refunds?: Array<{
+    id?: number;
+    reason?: string;
+    total: string;
+  }>;
 };
 
 export type WooOrderNote = {
@@ -83,6 +146,25 @@ export type WooOrderNote = {
   customer_note: boolean;
 };
 
+/** The fields of a Woo REST `products` entry that the catalog sync reads. Prices are decimal strings. */
+export type WooCatalogProduct = {
+  id: number;
+  name: string;
+  type: string;
+  status: string;
+  price: string;
+  short_description?: string;
+  description?: string;
+  categories?: Array<{ id: number; name: string }>;
+};
+
+export type WooCatalogVariation = {
+  id: number;
+  status: string;
+  price: string;
+  attributes?: Array<{ name: string; option: string }>;
+};
+
 export type PaidLogNoteSummary = {
   latestInternal: string | null;
   latestCustomer: string | null;
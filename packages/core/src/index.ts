@@ -5,51 +5,86 @@ export * from './infra/db/client.js';
 export * from './infra/db/schema/index.js';
 export * from './infra/logger.js';
 export * from './integrations/discord-rest.js';
+export * from './integrations/stripe-rest.js';
 export * from './integrations/telegram-rest.js';
 export * from './repositories/admin-repository.js';
+export * from './repositories/api-key-repository.js';
+export * from './repositories/automatic-discount-repository.js';
 export * from './repositories/channel-copy-repository.js';
+export * from './repositories/coupon-redemption-repository.js';
 export * from './repositories/coupon-repository.js';
+export * from './repositories/deliverable-repository.js';
+export * from './repositories/exchange-rate-repository.js';
 export * from './repositories/integration-repository.js';
 export * from './repositories/join-gate-access-repository.js';
 export * from './repositories/join-gate-repository.js';
 export * from './repositories/nuke-repository.js';
 export * from './repositories/order-repository.js';
+export * from './repositories/outbound-webhook-repository.js';
 export * from './repositories/points-repository.js';
 export * from './repositories/product-repository.js';
 export * from './repositories/referral-repository.js';
+export * from './repositories/role-grant-repository.js';
+export * from './repositories/sale-draft-repository.js';
 export * from './repositories/sales-history-repository.js';
 export * from './repositories/sports-access-repository.js';
 export * from './repositories/sports-live-event-repository.js';
 export * from './repositories/sports-repository.js';
+export * from './repositories/storefront-panel-repository.js';
+export * from './repositories/subscription-repository.js';
 export * from './repositories/tenant-repository.js';
 export * from './repositories/ticket-metadata-repository.js';
 export * from './repositories/telegram-link-repository.js';
 export * from './repositories/user-repository.js';
+export * from './repositories/variant-stock-repository.js';
+export * from './security/api-key.js';
 export * from './security/checkout-token.js';
 export * from './security/encryption.js';
+export * from './security/receipt-token.js';
 export * from './security/session-token.js';
+export * from './security/stripe-webhook-signature.js';
 export * from './security/telegram-link-token.js';
 export * from './security/voodoo-callback-token.js';
 export * from './security/webhook-signature.js';
 export * from './services/admin-service.js';
+export * from './services/api-key-service.js';
 export * from './services/auth-service.js';
 export * from './services/authorization-service.js';
+export * from './services/automatic-discount-service.js';
+export * from './services/automatic-discounts.js';
+export * from './services/basket-quantity.js';
 export * from './services/channel-copy-service.js';
+export * from './services/coupon-rules.js';
 export * from './services/coupon-service.js';
 export * from './services/coupon-scope.js';
+export * from './services/crypto-amount-check.js';
 export * from './services/dashboard-service.js';
+export * from './services/deliverable-service.js';
+export * from './services/deliverables.js';
+export * from './services/exchange-rate-service.js';
+export * from './services/exchange-rates.js';
 export * from './services/guild-feature-service.js';
 export * from './services/integration-service.js';
+export * from './services/inventory-service.js';
 export * from './services/join-gate-access-service.js';
 export * from './services/join-gate-service.js';
+export * from './services/manual-payment-provider.js';
 export * from './services/nuke-schedule.js';
 export * from './services/nuke-service.js';
+export * from './services/order-session-expiry-service.js';
 export * from './services/order-source.js';
+export * from './services/outbound-webhook-service.js';
 export * from './services/paid-order-service.js';
+export * from './services/payment-provider.js';
 export * from './services/points-calculator.js';
 export * from './services/points-service.js';
 export * from './services/product-service.js';
+export * from './services/receipt-service.js';
+export * from './services/receipts.js';
 export * from './services/referral-service.js';
+export * from './services/refund-service.js';
+export * from './services/role-grant-service.js';
+export * from './services/role-rewards.js';
 export * from './services/sale-service.js';
 export * from './services/sales-history-service.js';
 export * from './services/sports-access-service.js';
@@ -57,6 +92,11 @@ export * from './services/sports-broadcast-countries.js';
 export * from './services/sports-live-event-service.js';
 export * from './services/sports-data-service.js';
 export * from './services/sports-service.js';
+export * from './services/storefront.js';
+export * from './services/storefront-service.js';
+export * from './services/stripe-payment-provider.js';
+export * from './services/subscription-service.js';
+export * from './services/subscriptions.js';
 export {
   assertValidTimezone as assertSalesHistoryValidTimezone,
   computeNextRunAtUtc as computeSalesHistoryNextRunAtUtc,
@@ -70,7 +110,14 @@ export {
   resolveLocalDate as resolveSportsLocalDate,
 } from './services/sports-schedule.js';
 export * from './services/tenant-service.js';
+export * from './services/voodoopay-payment-provider.js';
+export * from './services/webhook-event-service.js';
+export * from './services/webhook-retry-policy.js';
+export * from './services/webhook-retry-service.js';
 export * from './services/webhook-service.js';
+export * from './services/woo-catalog-service.js';
+export * from './services/woocommerce-payment-provider.js';
+export * from './utils/currency.js';
 export * from './utils/json.js';
 export * from './utils/mask.js';
 export * from './utils/platform-ids.js';
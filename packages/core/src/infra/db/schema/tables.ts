@@ -11,7 +11,15 @@
   varchar,
 } from 'drizzle-orm/mysql-core';
 
-import type { FormFieldValidation, TenantMemberRole } from '../../../domain/types.js';
+import type {
+  ApiKeyScope,
+  FormFieldValidation,
+  OutboundWebhookEventType,
+  PriceTierInput,
+  RoleRewardInput,
+  TenantMemberRole,
+  WebhookAttemptHistoryEntry,
+} from '../../../domain/types.js';
 
 export const users = mysqlTable(
   'users',
@@ -117,6 +125,7 @@ export const guildConfigs = mysqlTable(
     tenantId: varchar('tenant_id', { length: 26 }).notNull(),
     guildId: varchar('guild_id', { length: 32 }).notNull(),
     paidLogChannelId: varchar('paid_log_channel_id', { length: 32 }),
+    lowStockAlertChannelId: varchar('low_stock_alert_channel_id', { length: 32 }),
     staffRoleIds: json('staff_role_ids').$type<string[]>().notNull().default([]),
     defaultCurrency: varchar('default_currency', { length: 3 }).notNull().default('USD'),
     couponsEnabled: boolean('coupons_enabled').notNull().default(true),
@@ -124,6 +133,14 @@ export const guildConfigs = mysqlTable(
     referralsEnabled: boolean('referrals_enabled').notNull().default(true),
     telegramEnabled: boolean('telegram_enabled').notNull().default(false),
     tipEnabled: boolean('tip_enabled').notNull().default(false),
+    checkoutExpiryMinutes: int('checkout_expiry_minutes').notNull().default(30),
+    subscriptionReminderDays: int('subscription_reminder_days').notNull().default(3),
+    subscriptionGraceDays: int('subscription_grace_days').notNull().default(3),
+    invoiceStoreName: varchar('invoice_store_name', { length: 120 }).notNull().default(''),
+    invoiceStoreDetails: varchar('invoice_store_details', { length: 500 }).notNull().default(''),
+    invoiceTaxRateBps: int('invoice_tax_rate_bps').notNull().default(0),
+    manualPaymentInstructions: varchar('manual_payment_instructions', { length: 1000 }).notNull().default(''),
+    selfServiceEnabled: boolean('self_service_enabled').notNull().default(false),
     pointsEarnCategoryKeys: json('points_earn_category_keys').$type<string[]>().notNull().default([]),
     pointsRedeemCategoryKeys: json('points_redeem_category_keys').$type<string[]>().notNull().default([]),
     pointValueMinor: int('point_value_minor').notNull().default(1),
@@ -133,7 +150,7 @@ export const guildConfigs = mysqlTable(
     referralThankYouTemplate: text('referral_thank_you_template')
       .notNull()
       .default(
-        'Thanks for your referral. You earned {points} point(s) ({amount_gbp} GBP) after {referred_email} paid.',
+        'Thanks for your referral. You earned {points} point(s) ({amount} {currency}) after {referred_email} paid.',
       ),
     referralSubmissionTemplate: text('referral_submission_template')
       .notNull()
@@ -296,7 +313,15 @@ export const discountCoupons = mysqlTable(
     tenantId: varchar('tenant_id', { length: 26 }).notNull(),
     guildId: varchar('guild_id', { length: 32 }).notNull(),
     code: varchar('code', { length: 40 }).notNull(),
+    discountType: mysqlEnum('discount_type', ['fixed', 'percent']).notNull().default('fixed'),
     discountMinor: int('discount_minor').notNull(),
+    discountPercent: int('discount_percent').notNull().default(0),
+    maxDiscountMinor: int('max_discount_minor'),
+    minSubtotalMinor: int('min_subtotal_minor').notNull().default(0),
+    startsAt: timestamp('starts_at', { mode: 'date' }),
+    endsAt: timestamp('ends_at', { mode: 'date' }),
+    maxRedemptions: int('max_redemptions'),
+    maxRedemptionsPerCustomer: int('max_redemptions_per_customer'),
     active: boolean('active').notNull().default(true),
     allowedCategories: json('allowed_categories').$type<string[]>().notNull().default([]),
     allowedProductIds: json('allowed_product_ids').$type<string[]>().notNull().default([]),
@@ -315,6 +340,84 @@ export const discountCoupons = mysqlTable(
   }),
 );
 
+export const couponRedemptions = mysqlTable(
+  'coupon_redemptions',
+  {
+    id: varchar('id', { length: 26 }).primaryKey(),
+    tenantId: varchar('tenant_id', { length: 26 }).notNull(),
+    guildId: varchar('guild_id', { length: 32 }).notNull(),
+    couponId: varchar('coupon_id', { length: 26 }),
+    couponCode: varchar('coupon_code', { length: 40 }).notNull(),
+    orderSessionId: varchar('order_session_id', { length: 26 }).notNull(),
+    paidOrderId: varchar('paid_order_id', { length: 26 }),
+    customerDiscordId: varchar('customer_discord_id', { length: 32 }).notNull(),
+    customerEmailNormalized: varchar('customer_email_normalized', { length: 320 }),
+    discountMinor: int('discount_minor').notNull(),
+    subtotalMinor: int('subtotal_minor').notNull(),
+    totalMinor: int('total_minor').notNull(),
+    currency: varchar('currency', { length: 3 }).notNull(),
+    status: mysqlEnum('status', ['active', 'reversed']).notNull().default('active'),
+    reversalReason: varchar('reversal_reason', { length: 32 }),
+    reversedAt: timestamp('reversed_at', { mode: 'date' }),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => ({
+    orderSessionUnique: uniqueIndex('coupon_redemptions_order_session_uq').on(table.orderSessionId),
+    tenantGuildCouponIdx: index('coupon_redemptions_tenant_guild_coupon_idx').on(
+      table.tenantId,
+      table.guildId,
+      table.couponId,
+    ),
+    tenantCreatedIdx: index('coupon_redemptions_tenant_created_idx').on(table.tenantId, table.createdAt),
+  }),
+);
+
+export const automaticDiscounts = mysqlTable(
+  'automatic_discounts',
+  {
+    id: varchar('id', { length: 26 }).primaryKey(),
+    tenantId: varchar('tenant_id', { length: 26 }).notNull(),
+    guildId: varchar('guild_id', { length: 32 }).notNull(),
+    name: varchar('name', { length: 80 }).notNull(),
+    ruleType: mysqlEnum('rule_type', ['spend_threshold', 'buy_x_get_y']).notNull(),
+    minSubtotalMinor: int('min_subtotal_minor').notNull().default(0),
+    discountPercent: int('discount_percent').notNull().default(0),
+    category: varchar('category', { length: 80 }),
+    buyQuantity: int('buy_quantity').notNull().default(0),
+    freeQuantity: int('free_quantity').notNull().default(0),
+    active: boolean('active').notNull().default(true),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => ({
+    tenantGuildIdx: index('automatic_discounts_tenant_guild_idx').on(table.tenantId, table.guildId),
+  }),
+);
+
+export const guildExchangeRates = mysqlTable(
+  'guild_exchange_rates',
+  {
+    id: varchar('id', { length: 26 }).primaryKey(),
+    tenantId: varchar('tenant_id', { length: 26 }).notNull(),
+    guildId: varchar('guild_id', { length: 32 }).notNull(),
+    fromCurrency: varchar('from_currency', { length: 3 }).notNull(),
+    toCurrency: varchar('to_currency', { length: 3 }).notNull(),
+    rate: varchar('rate', { length: 32 }).notNull(),
+    source: varchar('source', { length: 80 }).notNull().default('manual'),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => ({
+    tenantGuildPairUnique: uniqueIndex('guild_exchange_rates_tenant_guild_pair_uq').on(
+      table.tenantId,
+      table.guildId,
+      table.fromCurrency,
+      table.toCurrency,
+    ),
+  }),
+);
+
 export const products = mysqlTable(
   'products',
   {
@@ -325,6 +428,8 @@ export const products = mysqlTable(
     name: varchar('name', { length: 120 }).notNull(),
     description: text('description').notNull(),
     active: boolean('active').notNull().default(true),
+    roleRewards: json('role_rewards').$type<RoleRewardInput[]>().notNull().default([]),
+    archivedAt: timestamp('archived_at', { mode: 'date' }),
     createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
     updatedAt: timestamp('updated_at', { mode: 'date' }).defaultNow().notNull(),
   },
@@ -347,6 +452,15 @@ export const productVariants = mysqlTable(
     currency: varchar('currency', { length: 3 }).notNull(),
     wooProductId: varchar('woo_product_id', { length: 64 }),
     wooCheckoutPath: varchar('woo_checkout_path', { length: 255 }),
+    stockQuantity: int('stock_quantity'),
+    stockReserved: int('stock_reserved').notNull().default(0),
+    lowStockThreshold: int('low_stock_threshold'),
+    lowStockAlertedAt: timestamp('low_stock_alerted_at', { mode: 'date' }),
+    roleRewards: json('role_rewards').$type<RoleRewardInput[]>().notNull().default([]),
+    billingIntervalDays: int('billing_interval_days'),
+    minQuantity: int('min_quantity').notNull().default(1),
+    maxQuantity: int('max_quantity'),
+    priceTiers: json('price_tiers').$type<PriceTierInput[]>().notNull().default([]),
     createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
     updatedAt: timestamp('updated_at', { mode: 'date' }).defaultNow().notNull(),
   },
@@ -357,6 +471,105 @@ export const productVariants = mysqlTable(
   }),
 );
 
+export const variantDeliverables = mysqlTable(
+  'variant_deliverables',
+  {
+    id: varchar('id', { length: 26 }).primaryKey(),
+    tenantId: varchar('tenant_id', { length: 26 }).notNull(),
+    guildId: varchar('guild_id', { length: 32 }).notNull(),
+    productId: varchar('product_id', { length: 26 }).notNull(),
+    variantId: varchar('variant_id', { length: 26 }).notNull(),
+    secretEncrypted: text('secret_encrypted').notNull(),
+    status: mysqlEnum('status', ['available', 'claimed', 'delivered']).notNull().default('available'),
+    orderSessionId: varchar('order_session_id', { length: 26 }),
+    paidOrderId: varchar('paid_order_id', { length: 26 }),
+    deliveredAt: timestamp('delivered_at', { mode: 'date' }),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => ({
+    tenantVariantStatusIdx: index('variant_deliverables_tenant_variant_status_idx').on(
+      table.tenantId,
+      table.variantId,
+      table.status,
+    ),
+    paidOrderIdx: index('variant_deliverables_paid_order_idx').on(table.paidOrderId),
+  }),
+);
+
+export const roleGrants = mysqlTable(
+  'role_grants',
+  {
+    id: varchar('id', { length: 26 }).primaryKey(),
+    tenantId: varchar('tenant_id', { length: 26 }).notNull(),
+    guildId: varchar('guild_id', { length: 32 }).notNull(),
+    orderSessionId: varchar('order_session_id', { length: 26 }).notNull(),
+    paidOrderId: varchar('paid_order_id', { length: 26 }).notNull(),
+    discordUserId: varchar('discord_user_id', { length: 32 }).notNull(),
+    roleId: varchar('role_id', { length: 32 }).notNull(),
+    status: mysqlEnum('status', ['active', 'expired', 'failed']).notNull().default('active'),
+    grantedAt: timestamp('granted_at', { mode: 'date' }),
+    expiresAt: timestamp('expires_at', { mode: 'date' }),
+    revokedAt: timestamp('revoked_at', { mode: 'date' }),
+    lastError: text('last_error'),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => ({
+    orderSessionRoleUnique: uniqueIndex('role_grants_order_session_role_uq').on(
+      table.orderSessionId,
+      table.roleId,
+    ),
+    statusExpiresIdx: index('role_grants_status_expires_idx').on(table.status, table.expiresAt),
+    tenantGuildCreatedIdx: index('role_grants_tenant_guild_created_idx').on(
+      table.tenantId,
+      table.guildId,
+      table.createdAt,
+    ),
+  }),
+);
+
+export const subscriptions = mysqlTable(
+  'subscriptions',
+  {
+    id: varchar('id', { length: 26 }).primaryKey(),
+    tenantId: varchar('tenant_id', { length: 26 }).notNull(),
+    guildId: varchar('guild_id', { length: 32 }).notNull(),
+    customerDiscordId: varchar('customer_discord_id', { length: 32 }).notNull(),
+    productId: varchar('product_id', { length: 26 }).notNull(),
+    variantId: varchar('variant_id', { length: 26 }).notNull(),
+    productName: varchar('product_name', { length: 120 }).notNull(),
+    variantLabel: varchar('variant_label', { length: 80 }).notNull(),
+    billingIntervalDays: int('billing_interval_days').notNull(),
+    roleIds: json('role_ids').$type<string[]>().notNull().default([]),
+    status: mysqlEnum('status', ['active', 'grace', 'lapsed']).notNull().default('active'),
+    sourceOrderSessionId: varchar('source_order_session_id', { length: 26 }).notNull(),
+    lastPaidOrderSessionId: varchar('last_paid_order_session_id', { length: 26 }).notNull(),
+    currentPeriodEnd: timestamp('current_period_end', { mode: 'date' }).notNull(),
+    reminderDueAt: timestamp('reminder_due_at', { mode: 'date' }).notNull(),
+    graceEndsAt: timestamp('grace_ends_at', { mode: 'date' }).notNull(),
+    reminderSentAt: timestamp('reminder_sent_at', { mode: 'date' }),
+    renewalOrderSessionId: varchar('renewal_order_session_id', { length: 26 }),
+    lapsedAt: timestamp('lapsed_at', { mode: 'date' }),
+    lastError: text('last_error'),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => ({
+    sourceOrderVariantUnique: uniqueIndex('subscriptions_source_order_variant_uq').on(
+      table.sourceOrderSessionId,
+      table.variantId,
+    ),
+    statusReminderIdx: index('subscriptions_status_reminder_idx').on(table.status, table.reminderDueAt),
+    statusPeriodEndIdx: index('subscriptions_status_period_end_idx').on(table.status, table.currentPeriodEnd),
+    tenantGuildCreatedIdx: index('subscriptions_tenant_guild_created_idx').on(
+      table.tenantId,
+      table.guildId,
+      table.createdAt,
+    ),
+  }),
+);
+
 export const productFormFields = mysqlTable(
   'product_form_fields',
   {
@@ -410,6 +623,29 @@ export const tenantIntegrationsWoo = mysqlTable(
   }),
 );
 
+export const tenantIntegrationsStripe = mysqlTable(
+  'tenant_integrations_stripe',
+  {
+    id: varchar('id', { length: 26 }).primaryKey(),
+    tenantId: varchar('tenant_id', { length: 26 }).notNull(),
+    guildId: varchar('guild_id', { length: 32 }).notNull(),
+    tenantWebhookKey: varchar('tenant_webhook_key', { length: 64 }).notNull(),
+    secretKeyEncrypted: text('secret_key_encrypted').notNull(),
+    webhookSecretEncrypted: text('webhook_secret_encrypted').notNull(),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => ({
+    tenantGuildUnique: uniqueIndex('tenant_integrations_stripe_tenant_guild_uq').on(
+      table.tenantId,
+      table.guildId,
+    ),
+    webhookKeyUnique: uniqueIndex('tenant_integrations_stripe_webhook_key_uq').on(table.tenantWebhookKey),
+    tenantGuildIdx: index('tenant_integrations_stripe_tenant_guild_idx').on(table.tenantId, table.guildId),
+    tenantCreatedIdx: index('tenant_integrations_stripe_tenant_created_idx').on(table.tenantId, table.createdAt),
+  }),
+);
+
 export const tenantIntegrationsVoodooPay = mysqlTable(
   'tenant_integrations_voodoo_pay',
   {
@@ -419,6 +655,7 @@ export const tenantIntegrationsVoodooPay = mysqlTable(
     merchantWalletAddress: varchar('merchant_wallet_address', { length: 128 }).notNull(),
     cryptoGatewayEnabled: boolean('crypto_gateway_enabled').notNull().default(false),
     cryptoAddFees: boolean('crypto_add_fees').notNull().default(false),
+    cryptoUnderpaymentTolerancePercent: int('crypto_underpayment_tolerance_percent').notNull().default(1),
     cryptoWalletEvm: varchar('crypto_wallet_evm', { length: 191 }),
     cryptoWalletBtc: varchar('crypto_wallet_btc', { length: 191 }),
     cryptoWalletBitcoincash: varchar('crypto_wallet_bitcoincash', { length: 191 }),
@@ -451,6 +688,36 @@ export const tenantIntegrationsVoodooPay = mysqlTable(
   }),
 );
 
+export const saleDrafts = mysqlTable(
+  'sale_drafts',
+  {
+    id: varchar('id', { length: 26 }).primaryKey(),
+    kind: varchar('kind', { length: 32 }).notNull(),
+    draftKey: varchar('draft_key', { length: 96 }).notNull(),
+    tenantId: varchar('tenant_id', { length: 26 }).notNull(),
+    guildId: varchar('guild_id', { length: 32 }).notNull(),
+    ticketChannelId: varchar('ticket_channel_id', { length: 32 }),
+    controlChatId: varchar('control_chat_id', { length: 32 }),
+    state: json('state').$type<Record<string, unknown>>().notNull(),
+    version: int('version').notNull().default(1),
+    expiresAt: timestamp('expires_at', { mode: 'date' }).notNull(),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => ({
+    kindKeyUnique: uniqueIndex('sale_drafts_kind_key_uq').on(table.kind, table.draftKey),
+    kindTicketChannelIdx: index('sale_drafts_kind_ticket_channel_idx').on(
+      table.kind,
+      table.ticketChannelId,
+    ),
+    kindControlChatIdx: index('sale_drafts_kind_control_chat_idx').on(
+      table.kind,
+      table.controlChatId,
+    ),
+    expiresAtIdx: index('sale_drafts_expires_at_idx').on(table.expiresAt),
+  }),
+);
+
 export const orderSessions = mysqlTable(
   'order_sessions',
   {
@@ -462,6 +729,7 @@ export const orderSessions = mysqlTable(
     customerDiscordId: varchar('customer_discord_id', { length: 32 }).notNull(),
     productId: varchar('product_id', { length: 26 }).notNull(),
     variantId: varchar('variant_id', { length: 26 }).notNull(),
+    source: mysqlEnum('source', ['staff', 'self_service']).notNull().default('staff'),
     status: mysqlEnum('status', ['pending_payment', 'cancelled', 'paid'])
       .notNull()
       .default('pending_payment'),
@@ -475,10 +743,19 @@ export const orderSessions = mysqlTable(
           variantLabel: string;
           priceMinor: number;
           currency: string;
+          quantity?: number;
+          automaticDiscountMinor?: number;
+          roleRewards?: RoleRewardInput[];
+          billingIntervalDays?: number | null;
         }>
       >()
       .notNull()
       .default([]),
+    automaticDiscountMinor: int('automatic_discount_minor').notNull().default(0),
+    automaticDiscounts: json('automatic_discounts')
+      .$type<Array<{ label: string; amountMinor: number }>>()
+      .notNull()
+      .default([]),
     couponCode: varchar('coupon_code', { length: 40 }),
     couponDiscountMinor: int('coupon_discount_minor').notNull().default(0),
     customerEmailNormalized: varchar('customer_email_normalized', { length: 320 }),
@@ -505,6 +782,36 @@ export const orderSessions = mysqlTable(
         earnCategoryKeys: [],
         redeemCategoryKeys: [],
       }),
+    stockReservations: json('stock_reservations')
+      .$type<Array<{ variantId: string; quantity: number }>>()
+      .notNull()
+      .default([]),
+    stockReservationState: mysqlEnum('stock_reservation_state', [
+      'none',
+      'reserved',
+      'released_expired',
+      'released_cancelled',
+      'consumed',
+    ])
+      .notNull()
+      .default('none'),
+    fxRatesSnapshot: json('fx_rates_snapshot')
+      .$type<
+        Array<{
+          fromCurrency: string;
+          toCurrency: string;
+          rate: number;
+          source: string;
+          updatedAt: string;
+        }>
+      >()
+      .notNull()
+      .default([]),
+    formSnapshot: json('form_snapshot').$type<{
+      sensitiveFieldKeys: string[];
+      fieldLabels: Record<string, string>;
+    }>(),
+    subscriptionId: varchar('subscription_id', { length: 26 }),
     referralRewardMinorSnapshot: int('referral_reward_minor_snapshot').notNull().default(0),
     tipMinor: int('tip_minor').notNull().default(0),
     subtotalMinor: int('subtotal_minor').notNull().default(0),
@@ -513,13 +820,31 @@ export const orderSessions = mysqlTable(
     checkoutUrl: text('checkout_url'),
     checkoutUrlCrypto: text('checkout_url_crypto'),
     checkoutTokenExpiresAt: timestamp('checkout_token_expires_at', { mode: 'date' }).notNull(),
+    checkoutMessageChannelId: varchar('checkout_message_channel_id', { length: 32 }),
+    checkoutMessageId: varchar('checkout_message_id', { length: 32 }),
     createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
     updatedAt: timestamp('updated_at', { mode: 'date' }).defaultNow().notNull(),
   },
   (table) => ({
     tenantGuildIdx: index('order_sessions_tenant_guild_idx').on(table.tenantId, table.guildId),
     ticketChannelIdx: index('order_sessions_ticket_channel_idx').on(table.ticketChannelId),
+    sourceCustomerCreatedIdx: index('order_sessions_source_customer_created_idx').on(
+      table.tenantId,
+      table.guildId,
+      table.source,
+      table.customerDiscordId,
+      table.createdAt,
+    ),
     tenantCreatedIdx: index('order_sessions_tenant_created_idx').on(table.tenantId, table.createdAt),
+    statusExpiresIdx: index('order_sessions_status_expires_idx').on(
+      table.status,
+      table.checkoutTokenExpiresAt,
+    ),
+    couponCodeIdx: index('order_sessions_coupon_code_idx').on(
+      table.tenantId,
+      table.guildId,
+      table.couponCode,
+    ),
   }),
 );
 
@@ -641,12 +966,31 @@ export const ordersPaid = mysqlTable(
       .default('needs_action'),
     fulfilledAt: timestamp('fulfilled_at', { mode: 'date' }),
     fulfilledByDiscordUserId: varchar('fulfilled_by_discord_user_id', { length: 32 }),
+    refundStatus: mysqlEnum('refund_status', ['none', 'partially_refunded', 'refunded'])
+      .notNull()
+      .default('none'),
+    refundReason: mysqlEnum('refund_reason', ['refund', 'chargeback']),
+    refundedMinor: int('refunded_minor').notNull().default(0),
+    refundedAt: timestamp('refunded_at', { mode: 'date' }),
+    amountCheck: mysqlEnum('amount_check', ['not_checked', 'matched', 'underpaid', 'overpaid'])
+      .notNull()
+      .default('not_checked'),
+    paymentCoin: varchar('payment_coin', { length: 32 }),
+    paymentCoinAmount: varchar('payment_coin_amount', { length: 64 }),
+    expectedCoinAmount: varchar('expected_coin_amount', { length: 64 }),
+    receivedMinor: int('received_minor'),
+    invoiceNumber: int('invoice_number').notNull(),
     paidAt: timestamp('paid_at', { mode: 'date' }).defaultNow().notNull(),
     createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
     updatedAt: timestamp('updated_at', { mode: 'date' }).defaultNow().notNull(),
   },
   (table) => ({
     orderSessionUnique: uniqueIndex('orders_paid_order_session_uq').on(table.orderSessionId),
+    invoiceNumberUnique: uniqueIndex('orders_paid_invoice_number_uq').on(
+      table.tenantId,
+      table.guildId,
+      table.invoiceNumber,
+    ),
     tenantGuildIdx: index('orders_paid_tenant_guild_idx').on(table.tenantId, table.guildId),
     tenantCreatedIdx: index('orders_paid_tenant_created_idx').on(table.tenantId, table.createdAt),
   }),
@@ -677,17 +1021,21 @@ export const webhookEvents = mysqlTable(
     id: varchar('id', { length: 26 }).primaryKey(),
     tenantId: varchar('tenant_id', { length: 26 }).notNull(),
     guildId: varchar('guild_id', { length: 32 }),
-    provider: mysqlEnum('provider', ['woocommerce', 'voodoopay']).notNull().default('woocommerce'),
+    provider: mysqlEnum('provider', ['woocommerce', 'voodoopay', 'stripe']).notNull().default('woocommerce'),
     providerDeliveryId: varchar('provider_delivery_id', { length: 80 }).notNull(),
     topic: varchar('topic', { length: 120 }).notNull(),
     signatureValid: boolean('signature_valid').notNull(),
     payload: json('payload').$type<Record<string, unknown>>().notNull(),
-    status: mysqlEnum('status', ['received', 'processed', 'failed', 'duplicate'])
+    status: mysqlEnum('status', ['received', 'processed', 'failed', 'duplicate', 'dead_letter'])
       .notNull()
       .default('received'),
     attemptCount: int('attempt_count').notNull().default(0),
     failureReason: text('failure_reason'),
     nextRetryAt: timestamp('next_retry_at', { mode: 'date' }),
+    leaseOwner: varchar('lease_owner', { length: 96 }),
+    leaseExpiresAt: timestamp('lease_expires_at', { mode: 'date' }),
+    orderSessionId: varchar('order_session_id', { length: 26 }),
+    attemptHistory: json('attempt_history').$type<WebhookAttemptHistoryEntry[]>().notNull().default([]),
     processedAt: timestamp('processed_at', { mode: 'date' }),
     createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
   },
@@ -699,6 +1047,85 @@ export const webhookEvents = mysqlTable(
     ),
     tenantGuildIdx: index('webhook_events_tenant_guild_idx').on(table.tenantId, table.guildId),
     tenantCreatedIdx: index('webhook_events_tenant_created_idx').on(table.tenantId, table.createdAt),
+    statusRetryIdx: index('webhook_events_status_retry_idx').on(table.status, table.nextRetryAt),
+    tenantOrderSessionIdx: index('webhook_events_tenant_order_session_idx').on(table.tenantId, table.orderSessionId),
+  }),
+);
+
+export const outboundWebhookEndpoints = mysqlTable(
+  'outbound_webhook_endpoints',
+  {
+    id: varchar('id', { length: 26 }).primaryKey(),
+    tenantId: varchar('tenant_id', { length: 26 }).notNull(),
+    guildId: varchar('guild_id', { length: 32 }).notNull(),
+    url: varchar('url', { length: 500 }).notNull(),
+    description: varchar('description', { length: 120 }).notNull().default(''),
+    secretEncrypted: text('secret_encrypted').notNull(),
+    eventTypes: json('event_types').$type<OutboundWebhookEventType[]>().notNull().default([]),
+    active: boolean('active').notNull().default(true),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => ({
+    tenantGuildIdx: index('outbound_webhook_endpoints_tenant_guild_idx').on(table.tenantId, table.guildId),
+  }),
+);
+
+export const outboundWebhookDeliveries = mysqlTable(
+  'outbound_webhook_deliveries',
+  {
+    id: varchar('id', { length: 26 }).primaryKey(),
+    tenantId: varchar('tenant_id', { length: 26 }).notNull(),
+    guildId: varchar('guild_id', { length: 32 }).notNull(),
+    endpointId: varchar('endpoint_id', { length: 26 }).notNull(),
+    eventId: varchar('event_id', { length: 26 }).notNull(),
+    eventType: varchar('event_type', { length: 64 }).notNull(),
+    eventKey: varchar('event_key', { length: 160 }).notNull(),
+    payload: json('payload').$type<Record<string, unknown>>().notNull(),
+    status: mysqlEnum('status', ['pending', 'delivered', 'failed', 'dead_letter']).notNull().default('pending'),
+    attemptCount: int('attempt_count').notNull().default(0),
+    responseStatus: int('response_status'),
+    lastError: text('last_error'),
+    nextRetryAt: timestamp('next_retry_at', { mode: 'date' }),
+    leaseOwner: varchar('lease_owner', { length: 96 }),
+    leaseExpiresAt: timestamp('lease_expires_at', { mode: 'date' }),
+    deliveredAt: timestamp('delivered_at', { mode: 'date' }),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => ({
+    endpointEventKeyUnique: uniqueIndex('outbound_webhook_deliveries_endpoint_event_key_uq').on(
+      table.endpointId,
+      table.eventKey,
+    ),
+    tenantGuildCreatedIdx: index('outbound_webhook_deliveries_tenant_guild_created_idx').on(
+      table.tenantId,
+      table.guildId,
+      table.createdAt,
+    ),
+    statusRetryIdx: index('outbound_webhook_deliveries_status_retry_idx').on(table.status, table.nextRetryAt),
+    eventIdx: index('outbound_webhook_deliveries_event_idx').on(table.eventId),
+  }),
+);
+
+export const tenantApiKeys = mysqlTable(
+  'tenant_api_keys',
+  {
+    id: varchar('id', { length: 26 }).primaryKey(),
+    tenantId: varchar('tenant_id', { length: 26 }).notNull(),
+    name: varchar('name', { length: 80 }).notNull(),
+    keyPrefix: varchar('key_prefix', { length: 16 }).notNull(),
+    keyHash: varchar('key_hash', { length: 64 }).notNull(),
+    scopes: json('scopes').$type<ApiKeyScope[]>().notNull().default([]),
+    createdByUserId: varchar('created_by_user_id', { length: 26 }).notNull(),
+    createdByDiscordUserId: varchar('created_by_discord_user_id', { length: 32 }).notNull(),
+    lastUsedAt: timestamp('last_used_at', { mode: 'date' }),
+    revokedAt: timestamp('revoked_at', { mode: 'date' }),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => ({
+    keyHashUnique: uniqueIndex('tenant_api_keys_key_hash_uq').on(table.keyHash),
+    tenantIdx: index('tenant_api_keys_tenant_idx').on(table.tenantId),
   }),
 );
 
@@ -1038,4 +1465,26 @@ export const ticketChannelMetadata = mysqlTable(
   }),
 );
 
+export const storefrontPanels = mysqlTable(
+  'storefront_panels',
+  {
+    id: varchar('id', { length: 26 }).primaryKey(),
+    tenantId: varchar('tenant_id', { length: 26 }).notNull(),
+    guildId: varchar('guild_id', { length: 32 }).notNull(),
+    channelId: varchar('channel_id', { length: 32 }).notNull(),
+    messageId: varchar('message_id', { length: 32 }).notNull(),
+    ticketCategoryId: varchar('ticket_category_id', { length: 32 }),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => ({
+    tenantChannelUnique: uniqueIndex('storefront_panels_tenant_channel_uq').on(
+      table.tenantId,
+      table.guildId,
+      table.channelId,
+    ),
+    messageIdx: index('storefront_panels_message_idx').on(table.messageId),
+  }),
+);
+
 export type TenantMemberRoleValue = TenantMemberRole;
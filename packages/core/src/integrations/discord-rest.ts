@@ -95,3 +95,88 @@ export async function sendDirectMessageToDiscordUser(input: {
     },
   });
 }
+
+export async function editDiscordChannelMessage(input: {
+  botToken: string;
+  channelId: string;
+  messageId: string;
+  content: string;
+  components?: Array<Record<string, unknown>>;
+  embeds?: Array<Record<string, unknown>>;
+}): Promise<void> {
+  const response = await fetch(
+    `https://discord.com/api/v10/channels/${input.channelId}/messages/${input.messageId}`,
+    {
+      method: 'PATCH',
+      headers: {
+        Authorization: `Bot ${input.botToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        content: input.content,
+        components: input.components ?? [],
+        embeds: input.embeds ?? [],
+      }),
+    },
+  );
+
+  if (!response.ok) {
+    const body = await response.text();
+    throw new AppError(
+      'DISCORD_MESSAGE_EDIT_FAILED',
+      `Failed to edit Discord message (${response.status})`,
+      502,
+      { body, discordStatus: response.status },
+    );
+  }
+}
+
+async function setDiscordGuildMemberRole(input: {
+  botToken: string;
+  guildId: string;
+  userId: string;
+  roleId: string;
+  method: 'PUT' | 'DELETE';
+  reason: string;
+}): Promise<void> {
+  const response = await fetch(
+    `https://discord.com/api/v10/guilds/${input.guildId}/members/${input.userId}/roles/${input.roleId}`,
+    {
+      method: input.method,
+      headers: {
+        Authorization: `Bot ${input.botToken}`,
+        'X-Audit-Log-Reason': encodeURIComponent(input.reason),
+      },
+    },
+  );
+
+  if (!response.ok) {
+    const body = await response.text();
+    throw new AppError(
+      input.method === 'PUT' ? 'DISCORD_ROLE_ADD_FAILED' : 'DISCORD_ROLE_REMOVE_FAILED',
+      `Failed to ${input.method === 'PUT' ? 'add' : 'remove'} Discord role (${response.status})`,
+      502,
+      { body, discordStatus: response.status },
+    );
+  }
+}
+
+export async function addDiscordGuildMemberRole(input: {
+  botToken: string;
+  guildId: string;
+  userId: string;
+  roleId: string;
+  reason: string;
+}): Promise<void> {
+  await setDiscordGuildMemberRole({ ...input, method: 'PUT' });
+}
+
+export async function removeDiscordGuildMemberRole(input: {
+  botToken: string;
+  guildId: string;
+  userId: string;
+  roleId: string;
+  reason: string;
+}): Promise<void> {
+  await setDiscordGuildMemberRole({ ...input, method: 'DELETE' });
+}
@@ -0,0 +1,120 @@
+import { AppError } from '../domain/errors.js';
+
+type StripeErrorBody = {
+  error?: {
+    message?: string;
+    type?: string;
+    code?: string;
+  };
+};
+
+async function callStripeApi<T>(input: {
+  apiBaseUrl: string;
+  secretKey: string;
+  path: string;
+  form: Record<string, string>;
+  idempotencyKey?: string;
+}): Promise<T> {
+  const response = await fetch(new URL(input.path, input.apiBaseUrl).toString(), {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${input.secretKey}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+      ...(input.idempotencyKey ? { 'Idempotency-Key': input.idempotencyKey } : {}),
+    },
+    body: new URLSearchParams(input.form).toString(),
+  });
+
+  const body = await response.text();
+  let parsed: unknown = null;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    parsed = null;
+  }
+
+  if (!response.ok || !parsed || typeof parsed !== 'object') {
+    throw new AppError(
+      'STRIPE_API_ERROR',
+      (parsed as StripeErrorBody | null)?.error?.message ?? `Stripe API request failed (${response.status})`,
+      502,
+      {
+        path: input.path,
+        stripeStatus: response.status,
+        stripeErrorCode: (parsed as StripeErrorBody | null)?.error?.code ?? null,
+      },
+    );
+  }
+
+  return parsed as T;
+}
+
+export async function createStripeCheckoutSession(input: {
+  apiBaseUrl: string;
+  secretKey: string;
+  orderSessionId: string;
+  amountMinor: number;
+  /** ISO currency code; Stripe amounts use the same minor units as the rest of the app. */
+  currency: string;
+  productName: string;
+  customerEmail: string | null;
+  successUrl: string;
+  cancelUrl: string;
+  expiresAt: Date;
+  metadata: Record<string, string>;
+}): Promise<{ id: string; url: string }> {
+  const form: Record<string, string> = {
+    mode: 'payment',
+    client_reference_id: input.orderSessionId,
+    success_url: input.successUrl,
+    cancel_url: input.cancelUrl,
+    expires_at: String(Math.floor(input.expiresAt.getTime() / 1000)),
+    'line_items[0][quantity]': '1',
+    'line_items[0][price_data][currency]': input.currency.toLowerCase(),
+    'line_items[0][price_data][unit_amount]': String(input.amountMinor),
+    'line_items[0][price_data][product_data][name]': input.productName,
+  };
+  if (input.customerEmail) {
+    form.customer_email = input.customerEmail;
+  }
+  // Metadata goes on the payment intent too so later charge and refund events can be matched to the order.
+  for (const [key, value] of Object.entries(input.metadata)) {
+    form[`metadata[${key}]`] = value;
+    form[`payment_intent_data[metadata][${key}]`] = value;
+  }
+
+  const session = await callStripeApi<{ id?: unknown; url?: unknown }>({
+    apiBaseUrl: input.apiBaseUrl,
+    secretKey: input.secretKey,
+    path: '/v1/checkout/sessions',
+    form,
+    idempotencyKey: `checkout-${input.orderSessionId}`,
+  });
+  if (typeof session.id !== 'string' || typeof session.url !== 'string') {
+    throw new AppError('STRIPE_INVALID_CHECKOUT_RESPONSE', 'Stripe did not return a checkout URL', 502);
+  }
+
+  return { id: session.id, url: session.url };
+}
+
+export async function createStripeRefund(input: {
+  apiBaseUrl: string;
+  secretKey: string;
+  paymentIntentId: string;
+  amountMinor: number;
+}): Promise<{ id: string; status: string }> {
+  const refund = await callStripeApi<{ id?: unknown; status?: unknown }>({
+    apiBaseUrl: input.apiBaseUrl,
+    secretKey: input.secretKey,
+    path: '/v1/refunds',
+    form: {
+      payment_intent: input.paymentIntentId,
+      amount: String(input.amountMinor),
+    },
+  });
+  if (typeof refund.id !== 'string') {
+    throw new AppError('STRIPE_INVALID_REFUND_RESPONSE', 'Stripe did not return a refund id', 502);
+  }
+
+  return { id: refund.id, status: typeof refund.status === 'string' ? refund.status : 'pending' };
+}
@@ -80,3 +80,47 @@ export async function sendDirectMessageToTelegramUser(input: {
     content: input.content,
   });
 }
+
+export async function editTelegramMessageText(input: {
+  botToken: string;
+  chatId: string;
+  messageId: number;
+  content: string;
+}): Promise<void> {
+  await callTelegramApi<unknown>({
+    botToken: input.botToken,
+    method: 'editMessageText',
+    body: {
+      chat_id: input.chatId,
+      message_id: input.messageId,
+      text: input.content,
+      disable_web_page_preview: true,
+      reply_markup: { inline_keyboard: [] },
+    },
+  });
+}
+
+/** Removes a member from a group without a lasting ban, so they can rejoin after paying again. */
+export async function removeTelegramChatMember(input: {
+  botToken: string;
+  chatId: string;
+  userId: string;
+}): Promise<void> {
+  await callTelegramApi<boolean>({
+    botToken: input.botToken,
+    method: 'banChatMember',
+    body: {
+      chat_id: input.chatId,
+      user_id: Number(input.userId),
+    },
+  });
+  await callTelegramApi<boolean>({
+    botToken: input.botToken,
+    method: 'unbanChatMember',
+    body: {
+      chat_id: input.chatId,
+      user_id: Number(input.userId),
+      only_if_banned: true,
+    },
+  });
+}
@@ -1,4 +1,4 @@
-﻿import { desc, eq } from 'drizzle-orm';
+﻿import { desc, eq, inArray } from 'drizzle-orm';
 import { ulid } from 'ulid';
 
 import { getDb } from '../infra/db/client.js';
@@ -96,6 +96,7 @@ export class AdminRepository {
       tenantId: string;
       providerDeliveryId: string;
       topic: string;
+      status: 'failed' | 'dead_letter';
       failureReason: string | null;
       attemptCount: number;
       nextRetryAt: Date | null;
@@ -103,7 +104,7 @@ export class AdminRepository {
     }>
   > {
     const rows = await this.db.query.webhookEvents.findMany({
-      where: eq(webhookEvents.status, 'failed'),
+      where: inArray(webhookEvents.status, ['failed', 'dead_letter']),
       orderBy: [desc(webhookEvents.createdAt)],
       limit,
     });
@@ -113,6 +114,7 @@ export class AdminRepository {
       tenantId: row.tenantId,
       providerDeliveryId: row.providerDeliveryId,
       topic: row.topic,
+      status: row.status === 'dead_letter' ? 'dead_letter' : 'failed',
       failureReason: row.failureReason,
       attemptCount: row.attemptCount,
       nextRetryAt: row.nextRetryAt,
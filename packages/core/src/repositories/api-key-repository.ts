@@ -0,0 +1,123 @@
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import { ulid } from 'ulid';
+
+import type { ApiKeyScope } from '../domain/types.js';
+import { getDb } from '../infra/db/client.js';
+import { tenantApiKeys } from '../infra/db/schema/index.js';
+
+export type ApiKeyRecord = {
+  id: string;
+  tenantId: string;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  createdByUserId: string;
+  createdByDiscordUserId: string;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+};
+
+function mapRow(row: typeof tenantApiKeys.$inferSelect): ApiKeyRecord {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    name: row.name,
+    keyPrefix: row.keyPrefix,
+    scopes: row.scopes ?? [],
+    createdByUserId: row.createdByUserId,
+    createdByDiscordUserId: row.createdByDiscordUserId,
+    lastUsedAt: row.lastUsedAt ?? null,
+    revokedAt: row.revokedAt ?? null,
+    createdAt: row.createdAt,
+  };
+}
+
+export class ApiKeyRepository {
+  private readonly db = getDb();
+
+  public async listByTenant(tenantId: string): Promise<ApiKeyRecord[]> {
+    const rows = await this.db.query.tenantApiKeys.findMany({
+      where: eq(tenantApiKeys.tenantId, tenantId),
+      orderBy: [desc(tenantApiKeys.createdAt), desc(tenantApiKeys.id)],
+    });
+
+    return rows.map(mapRow);
+  }
+
+  public async countActiveByTenant(tenantId: string): Promise<number> {
+    const rows = await this.db
+      .select({ id: tenantApiKeys.id })
+      .from(tenantApiKeys)
+      .where(and(eq(tenantApiKeys.tenantId, tenantId), isNull(tenantApiKeys.revokedAt)));
+
+    return rows.length;
+  }
+
+  public async create(input: {
+    tenantId: string;
+    name: string;
+    keyPrefix: string;
+    keyHash: string;
+    scopes: ApiKeyScope[];
+    createdByUserId: string;
+    createdByDiscordUserId: string;
+  }): Promise<ApiKeyRecord> {
+    const id = ulid();
+    const now = new Date();
+    await this.db.insert(tenantApiKeys).values({
+      id,
+      tenantId: input.tenantId,
+      name: input.name,
+      keyPrefix: input.keyPrefix,
+      keyHash: input.keyHash,
+      scopes: input.scopes,
+      createdByUserId: input.createdByUserId,
+      createdByDiscordUserId: input.createdByDiscordUserId,
+      createdAt: now,
+    });
+
+    return {
+      id,
+      tenantId: input.tenantId,
+      name: input.name,
+      keyPrefix: input.keyPrefix,
+      scopes: input.scopes,
+      createdByUserId: input.createdByUserId,
+      createdByDiscordUserId: input.createdByDiscordUserId,
+      lastUsedAt: null,
+      revokedAt: null,
+      createdAt: now,
+    };
+  }
+
+  public async getByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    const row = await this.db.query.tenantApiKeys.findFirst({
+      where: eq(tenantApiKeys.keyHash, keyHash),
+    });
+
+    return row ? mapRow(row) : null;
+  }
+
+  public async getById(input: { tenantId: string; apiKeyId: string }): Promise<ApiKeyRecord | null> {
+    const row = await this.db.query.tenantApiKeys.findFirst({
+      where: and(eq(tenantApiKeys.id, input.apiKeyId), eq(tenantApiKeys.tenantId, input.tenantId)),
+    });
+
+    return row ? mapRow(row) : null;
+  }
+
+  public async revoke(input: { apiKeyId: string; revokedAt: Date }): Promise<void> {
+    await this.db
+      .update(tenantApiKeys)
+      .set({ revokedAt: input.revokedAt })
+      .where(and(eq(tenantApiKeys.id, input.apiKeyId), isNull(tenantApiKeys.revokedAt)));
+  }
+
+  public async touchLastUsed(input: { apiKeyId: string; usedAt: Date }): Promise<void> {
+    await this.db
+      .update(tenantApiKeys)
+      .set({ lastUsedAt: input.usedAt })
+      .where(eq(tenantApiKeys.id, input.apiKeyId));
+  }
+}
@@ -0,0 +1,157 @@
+import { and, asc, eq } from 'drizzle-orm';
+import { ulid } from 'ulid';
+
+import { getDb } from '../infra/db/client.js';
+import { automaticDiscounts } from '../infra/db/schema/index.js';
+import type { AutomaticDiscountRuleType } from '../services/automatic-discounts.js';
+
+export type AutomaticDiscountRecord = {
+  id: string;
+  tenantId: string;
+  guildId: string;
+  name: string;
+  ruleType: AutomaticDiscountRuleType;
+  minSubtotalMinor: number;
+  discountPercent: number;
+  category: string | null;
+  buyQuantity: number;
+  freeQuantity: number;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type AutomaticDiscountFields = {
+  name: string;
+  ruleType: AutomaticDiscountRuleType;
+  minSubtotalMinor: number;
+  discountPercent: number;
+  category: string | null;
+  buyQuantity: number;
+  freeQuantity: number;
+  active: boolean;
+};
+
+function mapAutomaticDiscountRow(row: typeof automaticDiscounts.$inferSelect): AutomaticDiscountRecord {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    guildId: row.guildId,
+    name: row.name,
+    ruleType: row.ruleType,
+    minSubtotalMinor: row.minSubtotalMinor,
+    discountPercent: row.discountPercent,
+    category: row.category ?? null,
+    buyQuantity: row.buyQuantity,
+    freeQuantity: row.freeQuantity,
+    active: row.active,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+export class AutomaticDiscountRepository {
+  private readonly db = getDb();
+
+  /** Rules in the order they were created, which is also the order they are applied. */
+  public async listByGuild(input: {
+    tenantId: string;
+    guildId: string;
+    activeOnly?: boolean;
+  }): Promise<AutomaticDiscountRecord[]> {
+    const conditions = [eq(automaticDiscounts.tenantId, input.tenantId), eq(automaticDiscounts.guildId, input.guildId)];
+    if (input.activeOnly) {
+      conditions.push(eq(automaticDiscounts.active, true));
+    }
+
+    const rows = await this.db.query.automaticDiscounts.findMany({
+      where: and(...conditions),
+      orderBy: [asc(automaticDiscounts.createdAt), asc(automaticDiscounts.id)],
+    });
+
+    return rows.map(mapAutomaticDiscountRow);
+  }
+
+  public async create(
+    input: AutomaticDiscountFields & { tenantId: string; guildId: string },
+  ): Promise<AutomaticDiscountRecord> {
+    const id = ulid();
+    const now = new Date();
+    await this.db.insert(automaticDiscounts).values({
+      id,
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+      name: input.name,
+      ruleType: input.ruleType,
+      minSubtotalMinor: input.minSubtotalMinor,
+      discountPercent: input.discountPercent,
+      category: input.category,
+      buyQuantity: input.buyQuantity,
+      freeQuantity: input.freeQuantity,
+      active: input.active,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return {
+      id,
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+      name: input.name,
+      ruleType: input.ruleType,
+      minSubtotalMinor: input.minSubtotalMinor,
+      discountPercent: input.discountPercent,
+      category: input.category,
+      buyQuantity: input.buyQuantity,
+      freeQuantity: input.freeQuantity,
+      active: input.active,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  /** Returns `false` when no rule with that id belongs to the guild. */
+  public async update(
+    input: AutomaticDiscountFields & { tenantId: string; guildId: string; discountId: string },
+  ): Promise<boolean> {
+    const existing = await this.db.query.automaticDiscounts.findFirst({
+      where: and(
+        eq(automaticDiscounts.id, input.discountId),
+        eq(automaticDiscounts.tenantId, input.tenantId),
+        eq(automaticDiscounts.guildId, input.guildId),
+      ),
+    });
+    if (!existing) {
+      return false;
+    }
+
+    await this.db
+      .update(automaticDiscounts)
+      .set({
+        name: input.name,
+        ruleType: input.ruleType,
+        minSubtotalMinor: input.minSubtotalMinor,
+        discountPercent: input.discountPercent,
+        category: input.category,
+        buyQuantity: input.buyQuantity,
+        freeQuantity: input.freeQuantity,
+        active: input.active,
+        updatedAt: new Date(),
+      })
+      .where(eq(automaticDiscounts.id, existing.id));
+
+    return true;
+  }
+
+  public async delete(input: { tenantId: string; guildId: string; discountId: string }): Promise<void> {
+    await this.db
+      .delete(automaticDiscounts)
+      .where(
+        and(
+          eq(automaticDiscounts.id, input.discountId),
+          eq(automaticDiscounts.tenantId, input.tenantId),
+          eq(automaticDiscounts.guildId, input.guildId),
+        ),
+      );
+  }
+}
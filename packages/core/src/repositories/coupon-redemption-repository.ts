@@ -0,0 +1,271 @@
+import { and, count, desc, eq, inArray, or, sql, sum, type SQL } from 'drizzle-orm';
+import { ulid } from 'ulid';
+
+import { getDb } from '../infra/db/client.js';
+import { couponRedemptions } from '../infra/db/schema/index.js';
+import { isMysqlDuplicateEntryError } from '../utils/mysql-errors.js';
+
+export type CouponRedemptionStatus = 'active' | 'reversed';
+
+export type CouponRedemptionRecord = {
+  id: string;
+  tenantId: string;
+  guildId: string;
+  couponId: string | null;
+  couponCode: string;
+  orderSessionId: string;
+  paidOrderId: string | null;
+  customerDiscordId: string;
+  customerEmailNormalized: string | null;
+  discountMinor: number;
+  subtotalMinor: number;
+  totalMinor: number;
+  currency: string;
+  status: CouponRedemptionStatus;
+  reversalReason: string | null;
+  reversedAt: Date | null;
+  createdAt: Date;
+};
+
+export type CouponRedemptionStats = {
+  couponId: string;
+  redemptionCount: number;
+  reversedCount: number;
+  discountMinor: number;
+  revenueMinor: number;
+  uniqueCustomers: number;
+};
+
+function mapCouponRedemptionRow(row: typeof couponRedemptions.$inferSelect): CouponRedemptionRecord {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    guildId: row.guildId,
+    couponId: row.couponId ?? null,
+    couponCode: row.couponCode,
+    orderSessionId: row.orderSessionId,
+    paidOrderId: row.paidOrderId ?? null,
+    customerDiscordId: row.customerDiscordId,
+    customerEmailNormalized: row.customerEmailNormalized ?? null,
+    discountMinor: row.discountMinor,
+    subtotalMinor: row.subtotalMinor,
+    totalMinor: row.totalMinor,
+    currency: row.currency,
+    status: row.status,
+    reversalReason: row.reversalReason ?? null,
+    reversedAt: row.reversedAt ?? null,
+    createdAt: row.createdAt,
+  };
+}
+
+function emptyStats(couponId: string): CouponRedemptionStats {
+  return {
+    couponId,
+    redemptionCount: 0,
+    reversedCount: 0,
+    discountMinor: 0,
+    revenueMinor: 0,
+    uniqueCustomers: 0,
+  };
+}
+
+export class CouponRedemptionRepository {
+  private readonly db = getDb();
+
+  private getAffectedRowCount(result: unknown): number {
+    if (typeof result === 'object' && result !== null) {
+      if ('affectedRows' in result && typeof result.affectedRows === 'number') {
+        return result.affectedRows;
+      }
+      if ('rowsAffected' in result && typeof result.rowsAffected === 'number') {
+        return result.rowsAffected;
+      }
+    }
+
+    if (Array.isArray(result) && result.length > 0) {
+      return this.getAffectedRowCount(result[0]);
+    }
+
+    return 0;
+  }
+
+  /** One redemption per order session; replays of the same paid webhook are ignored. */
+  public async recordRedemption(input: {
+    tenantId: string;
+    guildId: string;
+    couponId: string | null;
+    couponCode: string;
+    orderSessionId: string;
+    paidOrderId: string | null;
+    customerDiscordId: string;
+    customerEmailNormalized: string | null;
+    discountMinor: number;
+    subtotalMinor: number;
+    totalMinor: number;
+    currency: string;
+  }): Promise<{ created: boolean }> {
+    try {
+      await this.db.insert(couponRedemptions).values({
+        id: ulid(),
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        couponId: input.couponId,
+        couponCode: input.couponCode,
+        orderSessionId: input.orderSessionId,
+        paidOrderId: input.paidOrderId,
+        customerDiscordId: input.customerDiscordId,
+        customerEmailNormalized: input.customerEmailNormalized,
+        discountMinor: input.discountMinor,
+        subtotalMinor: input.subtotalMinor,
+        totalMinor: input.totalMinor,
+        currency: input.currency,
+        status: 'active',
+        updatedAt: new Date(),
+      });
+      return { created: true };
+    } catch (error) {
+      if (isMysqlDuplicateEntryError(error)) {
+        return { created: false };
+      }
+
+      throw error;
+    }
+  }
+
+  public async reverseForOrderSession(input: {
+    tenantId: string;
+    orderSessionId: string;
+    reason: string;
+    now: Date;
+  }): Promise<boolean> {
+    const result = await this.db
+      .update(couponRedemptions)
+      .set({
+        status: 'reversed',
+        reversalReason: input.reason,
+        reversedAt: input.now,
+        updatedAt: input.now,
+      })
+      .where(
+        and(
+          eq(couponRedemptions.tenantId, input.tenantId),
+          eq(couponRedemptions.orderSessionId, input.orderSessionId),
+          eq(couponRedemptions.status, 'active'),
+        ),
+      );
+
+    return this.getAffectedRowCount(result) > 0;
+  }
+
+  public async countActiveRedemptions(input: {
+    tenantId: string;
+    guildId: string;
+    couponId: string;
+    customerEmailNormalized?: string | null;
+    customerDiscordId?: string | null;
+  }): Promise<{ total: number; customer: number | null }> {
+    const baseConditions = [
+      eq(couponRedemptions.tenantId, input.tenantId),
+      eq(couponRedemptions.guildId, input.guildId),
+      eq(couponRedemptions.couponId, input.couponId),
+      eq(couponRedemptions.status, 'active'),
+    ];
+
+    const totalRows = await this.db
+      .select({ value: count() })
+      .from(couponRedemptions)
+      .where(and(...baseConditions));
+
+    const customerConditions: SQL[] = [];
+    if (input.customerEmailNormalized) {
+      customerConditions.push(eq(couponRedemptions.customerEmailNormalized, input.customerEmailNormalized));
+    }
+    if (input.customerDiscordId) {
+      customerConditions.push(eq(couponRedemptions.customerDiscordId, input.customerDiscordId));
+    }
+    if (customerConditions.length === 0) {
+      return { total: totalRows[0]?.value ?? 0, customer: null };
+    }
+
+    const customerRows = await this.db
+      .select({ value: count() })
+      .from(couponRedemptions)
+      .where(and(...baseConditions, or(...customerConditions)));
+
+    return { total: totalRows[0]?.value ?? 0, customer: customerRows[0]?.value ?? 0 };
+  }
+
+  public async listByCoupon(input: {
+    tenantId: string;
+    guildId: string;
+    couponId: string;
+    limit: number;
+  }): Promise<CouponRedemptionRecord[]> {
+    const rows = await this.db.query.couponRedemptions.findMany({
+      where: and(
+        eq(couponRedemptions.tenantId, input.tenantId),
+        eq(couponRedemptions.guildId, input.guildId),
+        eq(couponRedemptions.couponId, input.couponId),
+      ),
+      orderBy: [desc(couponRedemptions.createdAt)],
+      limit: input.limit,
+    });
+
+    return rows.map(mapCouponRedemptionRow);
+  }
+
+  /**
+   * Aggregates the ledger per coupon. Reversed redemptions are counted separately and excluded
+   * from the discount, revenue, and customer totals.
+   */
+  public async summarizeByCoupon(input: {
+    tenantId: string;
+    guildId: string;
+    couponIds: string[];
+  }): Promise<Map<string, CouponRedemptionStats>> {
+    const stats = new Map<string, CouponRedemptionStats>(
+      input.couponIds.map((couponId) => [couponId, emptyStats(couponId)]),
+    );
+    if (input.couponIds.length === 0) {
+      return stats;
+    }
+
+    const rows = await this.db
+      .select({
+        couponId: couponRedemptions.couponId,
+        status: couponRedemptions.status,
+        redemptionCount: count(),
+        discountMinor: sum(couponRedemptions.discountMinor),
+        revenueMinor: sum(couponRedemptions.totalMinor),
+        uniqueCustomers: sql<number>`count(distinct coalesce(${couponRedemptions.customerEmailNormalized}, ${couponRedemptions.customerDiscordId}))`,
+      })
+      .from(couponRedemptions)
+      .where(
+        and(
+          eq(couponRedemptions.tenantId, input.tenantId),
+          eq(couponRedemptions.guildId, input.guildId),
+          inArray(couponRedemptions.couponId, input.couponIds),
+        ),
+      )
+      .groupBy(couponRedemptions.couponId, couponRedemptions.status);
+
+    for (const row of rows) {
+      if (!row.couponId) {
+        continue;
+      }
+
+      const entry = stats.get(row.couponId) ?? emptyStats(row.couponId);
+      if (row.status === 'reversed') {
+        entry.reversedCount += Number(row.redemptionCount);
+      } else {
+        entry.redemptionCount += Number(row.redemptionCount);
+        entry.discountMinor += Number(row.discountMinor ?? 0);
+        entry.revenueMinor += Number(row.revenueMinor ?? 0);
+        entry.uniqueCustomers += Number(row.uniqueCustomers);
+      }
+      stats.set(row.couponId, entry);
+    }
+
+    return stats;
+  }
+}
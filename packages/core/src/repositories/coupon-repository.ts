@@ -1,15 +1,24 @@
-import { and, asc, eq } from 'drizzle-orm';
+import { and, asc, count, eq, gt, or, type SQL } from 'drizzle-orm';
 import { ulid } from 'ulid';
 
 import { getDb } from '../infra/db/client.js';
-import { discountCoupons } from '../infra/db/schema/index.js';
+import { discountCoupons, orderSessions } from '../infra/db/schema/index.js';
+import type { CouponDiscountType, CouponRedemptionCounts } from '../services/coupon-rules.js';
 
 export type CouponRecord = {
   id: string;
   tenantId: string;
   guildId: string;
   code: string;
+  discountType: CouponDiscountType;
   discountMinor: number;
+  discountPercent: number;
+  maxDiscountMinor: number | null;
+  minSubtotalMinor: number;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  maxRedemptions: number | null;
+  maxRedemptionsPerCustomer: number | null;
   active: boolean;
   allowedCategories: string[];
   allowedProductIds: string[];
@@ -18,6 +27,42 @@ export type CouponRecord = {
   updatedAt: Date;
 };
 
+export type CouponRuleFields = {
+  discountType: CouponDiscountType;
+  discountMinor: number;
+  discountPercent: number;
+  maxDiscountMinor: number | null;
+  minSubtotalMinor: number;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  maxRedemptions: number | null;
+  maxRedemptionsPerCustomer: number | null;
+};
+
+function mapCouponRow(row: typeof discountCoupons.$inferSelect): CouponRecord {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    guildId: row.guildId,
+    code: row.code,
+    discountType: row.discountType,
+    discountMinor: row.discountMinor,
+    discountPercent: row.discountPercent,
+    maxDiscountMinor: row.maxDiscountMinor ?? null,
+    minSubtotalMinor: row.minSubtotalMinor,
+    startsAt: row.startsAt ?? null,
+    endsAt: row.endsAt ?? null,
+    maxRedemptions: row.maxRedemptions ?? null,
+    maxRedemptionsPerCustomer: row.maxRedemptionsPerCustomer ?? null,
+    active: row.active,
+    allowedCategories: Array.isArray(row.allowedCategories) ? row.allowedCategories : [],
+    allowedProductIds: Array.isArray(row.allowedProductIds) ? row.allowedProductIds : [],
+    allowedVariantIds: Array.isArray(row.allowedVariantIds) ? row.allowedVariantIds : [],
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
 export class CouponRepository {
   private readonly db = getDb();
 
@@ -27,19 +72,23 @@ export class CouponRepository {
       orderBy: [asc(discountCoupons.createdAt)],
     });
 
-    return rows.map((row) => ({
-      id: row.id,
-      tenantId: row.tenantId,
-      guildId: row.guildId,
-      code: row.code,
-      discountMinor: row.discountMinor,
-      active: row.active,
-      allowedCategories: Array.isArray(row.allowedCategories) ? row.allowedCategories : [],
-      allowedProductIds: Array.isArray(row.allowedProductIds) ? row.allowedProductIds : [],
-      allowedVariantIds: Array.isArray(row.allowedVariantIds) ? row.allowedVariantIds : [],
-      createdAt: row.createdAt,
-      updatedAt: row.updatedAt,
-    }));
+    return rows.map(mapCouponRow);
+  }
+
+  public async getById(input: {
+    tenantId: string;
+    guildId: string;
+    couponId: string;
+  }): Promise<CouponRecord | null> {
+    const row = await this.db.query.discountCoupons.findFirst({
+      where: and(
+        eq(discountCoupons.id, input.couponId),
+        eq(discountCoupons.tenantId, input.tenantId),
+        eq(discountCoupons.guildId, input.guildId),
+      ),
+    });
+
+    return row ? mapCouponRow(row) : null;
   }
 
   public async getByCode(input: {
@@ -59,38 +108,35 @@ export class CouponRepository {
       return null;
     }
 
-    return {
-      id: row.id,
-      tenantId: row.tenantId,
-      guildId: row.guildId,
-      code: row.code,
-      discountMinor: row.discountMinor,
-      active: row.active,
-      allowedCategories: Array.isArray(row.allowedCategories) ? row.allowedCategories : [],
-      allowedProductIds: Array.isArray(row.allowedProductIds) ? row.allowedProductIds : [],
-      allowedVariantIds: Array.isArray(row.allowedVariantIds) ? row.allowedVariantIds : [],
-      createdAt: row.createdAt,
-      updatedAt: row.updatedAt,
-    };
+    return mapCouponRow(row);
   }
 
-  public async create(input: {
-    tenantId: string;
-    guildId: string;
-    code: string;
-    discountMinor: number;
-    active: boolean;
-    allowedCategories: string[];
-    allowedProductIds: string[];
-    allowedVariantIds: string[];
-  }): Promise<CouponRecord> {
+  public async create(
+    input: CouponRuleFields & {
+      tenantId: string;
+      guildId: string;
+      code: string;
+      active: boolean;
+      allowedCategories: string[];
+      allowedProductIds: string[];
+      allowedVariantIds: string[];
+    },
+  ): Promise<CouponRecord> {
     const id = ulid();
     await this.db.insert(discountCoupons).values({
       id,
       tenantId: input.tenantId,
       guildId: input.guildId,
       code: input.code,
+      discountType: input.discountType,
       discountMinor: input.discountMinor,
+      discountPercent: input.discountPercent,
+      maxDiscountMinor: input.maxDiscountMinor,
+      minSubtotalMinor: input.minSubtotalMinor,
+      startsAt: input.startsAt,
+      endsAt: input.endsAt,
+      maxRedemptions: input.maxRedemptions,
+      maxRedemptionsPerCustomer: input.maxRedemptionsPerCustomer,
       active: input.active,
       allowedCategories: input.allowedCategories,
       allowedProductIds: input.allowedProductIds,
@@ -102,7 +148,15 @@ export class CouponRepository {
       tenantId: input.tenantId,
       guildId: input.guildId,
       code: input.code,
+      discountType: input.discountType,
       discountMinor: input.discountMinor,
+      discountPercent: input.discountPercent,
+      maxDiscountMinor: input.maxDiscountMinor,
+      minSubtotalMinor: input.minSubtotalMinor,
+      startsAt: input.startsAt,
+      endsAt: input.endsAt,
+      maxRedemptions: input.maxRedemptions,
+      maxRedemptionsPerCustomer: input.maxRedemptionsPerCustomer,
       active: input.active,
       allowedCategories: input.allowedCategories,
       allowedProductIds: input.allowedProductIds,
@@ -112,22 +166,31 @@ export class CouponRepository {
     };
   }
 
-  public async update(input: {
-    tenantId: string;
-    guildId: string;
-    couponId: string;
-    code: string;
-    discountMinor: number;
-    active: boolean;
-    allowedCategories: string[];
-    allowedProductIds: string[];
-    allowedVariantIds: string[];
-  }): Promise<void> {
+  public async update(
+    input: CouponRuleFields & {
+      tenantId: string;
+      guildId: string;
+      couponId: string;
+      code: string;
+      active: boolean;
+      allowedCategories: string[];
+      allowedProductIds: string[];
+      allowedVariantIds: string[];
+    },
+  ): Promise<void> {
     await this.db
       .update(discountCoupons)
       .set({
         code: input.code,
+        discountType: input.discountType,
         discountMinor: input.discountMinor,
+        discountPercent: input.discountPercent,
+        maxDiscountMinor: input.maxDiscountMinor,
+        minSubtotalMinor: input.minSubtotalMinor,
+        startsAt: input.startsAt,
+        endsAt: input.endsAt,
+        maxRedemptions: input.maxRedemptions,
+        maxRedemptionsPerCustomer: input.maxRedemptionsPerCustomer,
         active: input.active,
         allowedCategories: input.allowedCategories,
         allowedProductIds: input.allowedProductIds,
@@ -154,4 +217,48 @@ export class CouponRepository {
         ),
       );
   }
+
+  /**
+   * Counts pending checkouts that hold the coupon and have not expired yet, so a code cannot be
+   * over-redeemed by opening several checkouts at once. Paid uses live in the redemption ledger.
+   */
+  public async countOpenCheckouts(input: {
+    tenantId: string;
+    guildId: string;
+    code: string;
+    customerEmailNormalized?: string | null;
+    customerDiscordId?: string | null;
+    now: Date;
+  }): Promise<CouponRedemptionCounts> {
+    const baseConditions = [
+      eq(orderSessions.tenantId, input.tenantId),
+      eq(orderSessions.guildId, input.guildId),
+      eq(orderSessions.couponCode, input.code),
+      eq(orderSessions.status, 'pending_payment'),
+      gt(orderSessions.checkoutTokenExpiresAt, input.now),
+    ];
+
+    const totalRows = await this.db
+      .select({ value: count() })
+      .from(orderSessions)
+      .where(and(...baseConditions));
+
+    const customerConditions: SQL[] = [];
+    if (input.customerEmailNormalized) {
+      customerConditions.push(eq(orderSessions.customerEmailNormalized, input.customerEmailNormalized));
+    }
+    if (input.customerDiscordId) {
+      customerConditions.push(eq(orderSessions.customerDiscordId, input.customerDiscordId));
+    }
+    if (customerConditions.length === 0) {
+      return { total: totalRows[0]?.value ?? 0, customer: null };
+    }
+
+    const customerRows = await this.db
+      .select({ value: count() })
+      .from(orderSessions)
+      .where(and(...baseConditions, or(...customerConditions)));
+
+    return { total: totalRows[0]?.value ?? 0, customer: customerRows[0]?.value ?? 0 };
+  }
 }
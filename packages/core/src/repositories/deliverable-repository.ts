@@ -0,0 +1,290 @@
+import { and, asc, count, desc, eq, inArray } from 'drizzle-orm';
+import { ulid } from 'ulid';
+
+import { getDb } from '../infra/db/client.js';
+import { variantDeliverables } from '../infra/db/schema/index.js';
+
+/** Items move from `available` to `claimed` for a paid order, then to `delivered` once the customer got them. */
+export type DeliverableStatus = 'available' | 'claimed' | 'delivered';
+
+export type DeliverableRecord = {
+  id: string;
+  tenantId: string;
+  guildId: string;
+  productId: string;
+  variantId: string;
+  secretEncrypted: string;
+  status: DeliverableStatus;
+  orderSessionId: string | null;
+  paidOrderId: string | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+};
+
+export type DeliverablePoolCounts = {
+  variantId: string;
+  available: number;
+  delivered: number;
+};
+
+function mapDeliverableRow(row: typeof variantDeliverables.$inferSelect): DeliverableRecord {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    guildId: row.guildId,
+    productId: row.productId,
+    variantId: row.variantId,
+    secretEncrypted: row.secretEncrypted,
+    status: row.status,
+    orderSessionId: row.orderSessionId ?? null,
+    paidOrderId: row.paidOrderId ?? null,
+    deliveredAt: row.deliveredAt ?? null,
+    createdAt: row.createdAt,
+  };
+}
+
+export class DeliverableRepository {
+  private readonly db = getDb();
+
+  private getAffectedRowCount(result: unknown): number {
+    if (typeof result === 'object' && result !== null) {
+      if ('affectedRows' in result && typeof result.affectedRows === 'number') {
+        return result.affectedRows;
+      }
+      if ('rowsAffected' in result && typeof result.rowsAffected === 'number') {
+        return result.rowsAffected;
+      }
+    }
+
+    if (Array.isArray(result) && result.length > 0) {
+      return this.getAffectedRowCount(result[0]);
+    }
+
+    return 0;
+  }
+
+  public async addMany(input: {
+    tenantId: string;
+    guildId: string;
+    productId: string;
+    variantId: string;
+    secretsEncrypted: string[];
+  }): Promise<number> {
+    if (input.secretsEncrypted.length === 0) {
+      return 0;
+    }
+
+    await this.db.insert(variantDeliverables).values(
+      input.secretsEncrypted.map((secretEncrypted) => ({
+        id: ulid(),
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        productId: input.productId,
+        variantId: input.variantId,
+        secretEncrypted,
+      })),
+    );
+
+    return input.secretsEncrypted.length;
+  }
+
+  public async listByVariant(input: {
+    tenantId: string;
+    guildId: string;
+    variantId: string;
+    limit: number;
+  }): Promise<DeliverableRecord[]> {
+    const rows = await this.db
+      .select()
+      .from(variantDeliverables)
+      .where(
+        and(
+          eq(variantDeliverables.tenantId, input.tenantId),
+          eq(variantDeliverables.guildId, input.guildId),
+          eq(variantDeliverables.variantId, input.variantId),
+        ),
+      )
+      .orderBy(asc(variantDeliverables.status), desc(variantDeliverables.createdAt))
+      .limit(input.limit);
+
+    return rows.map(mapDeliverableRow);
+  }
+
+  public async countByVariants(input: {
+    tenantId: string;
+    guildId: string;
+    variantIds?: string[];
+  }): Promise<DeliverablePoolCounts[]> {
+    if (input.variantIds && input.variantIds.length === 0) {
+      return [];
+    }
+
+    const rows = await this.db
+      .select({
+        variantId: variantDeliverables.variantId,
+        status: variantDeliverables.status,
+        total: count(),
+      })
+      .from(variantDeliverables)
+      .where(
+        and(
+          eq(variantDeliverables.tenantId, input.tenantId),
+          eq(variantDeliverables.guildId, input.guildId),
+          input.variantIds ? inArray(variantDeliverables.variantId, input.variantIds) : undefined,
+        ),
+      )
+      .groupBy(variantDeliverables.variantId, variantDeliverables.status);
+
+    const counts = new Map<string, DeliverablePoolCounts>();
+    for (const row of rows) {
+      const entry = counts.get(row.variantId) ?? { variantId: row.variantId, available: 0, delivered: 0 };
+      // Claimed items are on their way to a customer, so the pool already counts them as handed out.
+      entry[row.status === 'available' ? 'available' : 'delivered'] += Number(row.total);
+      counts.set(row.variantId, entry);
+    }
+
+    return [...counts.values()];
+  }
+
+  /**
+   * Claims up to `quantity` available items for a paid order. Each row is claimed by a single
+   * conditional update, so two workers can never deliver the same item.
+   */
+  public async claimForPaidOrder(input: {
+    tenantId: string;
+    variantId: string;
+    orderSessionId: string;
+    paidOrderId: string;
+    quantity: number;
+    now: Date;
+  }): Promise<number> {
+    if (input.quantity <= 0) {
+      return 0;
+    }
+
+    const result = await this.db
+      .update(variantDeliverables)
+      .set({
+        status: 'claimed',
+        orderSessionId: input.orderSessionId,
+        paidOrderId: input.paidOrderId,
+        updatedAt: input.now,
+      })
+      .where(
+        and(
+          eq(variantDeliverables.tenantId, input.tenantId),
+          eq(variantDeliverables.variantId, input.variantId),
+          eq(variantDeliverables.status, 'available'),
+        ),
+      )
+      .orderBy(asc(variantDeliverables.createdAt), asc(variantDeliverables.id))
+      .limit(input.quantity);
+
+    return this.getAffectedRowCount(result);
+  }
+
+  /** Every item held by a paid order, whether still claimed or already delivered. */
+  public async listClaimedByPaidOrder(input: {
+    tenantId: string;
+    paidOrderId: string;
+  }): Promise<DeliverableRecord[]> {
+    const rows = await this.db
+      .select()
+      .from(variantDeliverables)
+      .where(
+        and(
+          eq(variantDeliverables.tenantId, input.tenantId),
+          eq(variantDeliverables.paidOrderId, input.paidOrderId),
+        ),
+      )
+      .orderBy(asc(variantDeliverables.createdAt), asc(variantDeliverables.id));
+
+    return rows.map(mapDeliverableRow);
+  }
+
+  /** Records claimed items as delivered once a delivery message reached the customer. */
+  public async markClaimsDelivered(input: {
+    tenantId: string;
+    paidOrderId: string;
+    deliverableIds: string[];
+    now: Date;
+  }): Promise<number> {
+    if (input.deliverableIds.length === 0) {
+      return 0;
+    }
+
+    const result = await this.db
+      .update(variantDeliverables)
+      .set({
+        status: 'delivered',
+        deliveredAt: input.now,
+        updatedAt: input.now,
+      })
+      .where(
+        and(
+          eq(variantDeliverables.tenantId, input.tenantId),
+          eq(variantDeliverables.paidOrderId, input.paidOrderId),
+          inArray(variantDeliverables.id, input.deliverableIds),
+          eq(variantDeliverables.status, 'claimed'),
+        ),
+      );
+
+    return this.getAffectedRowCount(result);
+  }
+
+  /**
+   * Puts items claimed by a delivery that never reached the customer back in the pool. Delivered
+   * items are never touched, so keys from an earlier successful attempt stay with their order.
+   */
+  public async releaseClaimsForPaidOrder(input: {
+    tenantId: string;
+    paidOrderId: string;
+    deliverableIds: string[];
+  }): Promise<number> {
+    if (input.deliverableIds.length === 0) {
+      return 0;
+    }
+
+    const result = await this.db
+      .update(variantDeliverables)
+      .set({
+        status: 'available',
+        orderSessionId: null,
+        paidOrderId: null,
+        deliveredAt: null,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(variantDeliverables.tenantId, input.tenantId),
+          eq(variantDeliverables.paidOrderId, input.paidOrderId),
+          inArray(variantDeliverables.id, input.deliverableIds),
+          eq(variantDeliverables.status, 'claimed'),
+        ),
+      );
+
+    return this.getAffectedRowCount(result);
+  }
+
+  /** Only unsold items can be removed; delivered ones stay as the record of what the customer got. */
+  public async deleteAvailable(input: {
+    tenantId: string;
+    guildId: string;
+    variantId: string;
+    deliverableId: string;
+  }): Promise<boolean> {
+    const result = await this.db
+      .delete(variantDeliverables)
+      .where(
+        and(
+          eq(variantDeliverables.id, input.deliverableId),
+          eq(variantDeliverables.tenantId, input.tenantId),
+          eq(variantDeliverables.guildId, input.guildId),
+          eq(variantDeliverables.variantId, input.variantId),
+          eq(variantDeliverables.status, 'available'),
+        ),
+      );
+
+    return this.getAffectedRowCount(result) > 0;
+  }
+}
@@ -0,0 +1,106 @@
+import { and, asc, eq } from 'drizzle-orm';
+import { ulid } from 'ulid';
+
+import { getDb } from '../infra/db/client.js';
+import { guildExchangeRates } from '../infra/db/schema/index.js';
+
+export type ExchangeRateRecord = {
+  id: string;
+  tenantId: string;
+  guildId: string;
+  fromCurrency: string;
+  toCurrency: string;
+  /** Units of `toCurrency` per one unit of `fromCurrency`. */
+  rate: number;
+  source: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+function mapExchangeRateRow(row: typeof guildExchangeRates.$inferSelect): ExchangeRateRecord {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    guildId: row.guildId,
+    fromCurrency: row.fromCurrency,
+    toCurrency: row.toCurrency,
+    rate: Number(row.rate),
+    source: row.source,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+export class ExchangeRateRepository {
+  private readonly db = getDb();
+
+  public async listByGuild(input: { tenantId: string; guildId: string }): Promise<ExchangeRateRecord[]> {
+    const rows = await this.db.query.guildExchangeRates.findMany({
+      where: and(eq(guildExchangeRates.tenantId, input.tenantId), eq(guildExchangeRates.guildId, input.guildId)),
+      orderBy: [asc(guildExchangeRates.fromCurrency), asc(guildExchangeRates.toCurrency)],
+    });
+
+    return rows.map(mapExchangeRateRow);
+  }
+
+  public async upsertRate(input: {
+    tenantId: string;
+    guildId: string;
+    fromCurrency: string;
+    toCurrency: string;
+    rate: number;
+    source: string;
+  }): Promise<ExchangeRateRecord> {
+    const now = new Date();
+    await this.db
+      .insert(guildExchangeRates)
+      .values({
+        id: ulid(),
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        fromCurrency: input.fromCurrency,
+        toCurrency: input.toCurrency,
+        rate: String(input.rate),
+        source: input.source,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .onDuplicateKeyUpdate({
+        set: {
+          rate: String(input.rate),
+          source: input.source,
+          updatedAt: now,
+        },
+      });
+
+    const row = await this.db.query.guildExchangeRates.findFirst({
+      where: and(
+        eq(guildExchangeRates.tenantId, input.tenantId),
+        eq(guildExchangeRates.guildId, input.guildId),
+        eq(guildExchangeRates.fromCurrency, input.fromCurrency),
+        eq(guildExchangeRates.toCurrency, input.toCurrency),
+      ),
+    });
+    if (!row) {
+      throw new Error('Failed to upsert guild exchange rate');
+    }
+
+    return mapExchangeRateRow(row);
+  }
+
+  public async deleteRate(input: { tenantId: string; guildId: string; rateId: string }): Promise<boolean> {
+    const existing = await this.db.query.guildExchangeRates.findFirst({
+      where: and(
+        eq(guildExchangeRates.id, input.rateId),
+        eq(guildExchangeRates.tenantId, input.tenantId),
+        eq(guildExchangeRates.guildId, input.guildId),
+      ),
+    });
+    if (!existing) {
+      return false;
+    }
+
+    await this.db.delete(guildExchangeRates).where(eq(guildExchangeRates.id, existing.id));
+    return true;
+  }
+}
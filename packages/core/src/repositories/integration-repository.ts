@@ -2,7 +2,11 @@ import { and, eq } from 'drizzle-orm';
 import { ulid } from 'ulid';
 
 import { getDb } from '../infra/db/client.js';
-import { tenantIntegrationsVoodooPay, tenantIntegrationsWoo } from '../infra/db/schema/index.js';
+import {
+  tenantIntegrationsStripe,
+  tenantIntegrationsVoodooPay,
+  tenantIntegrationsWoo,
+} from '../infra/db/schema/index.js';
 
 export type WooIntegrationRecord = {
   id: string;
@@ -22,6 +26,7 @@ export type VoodooPayIntegrationRecord = {
   merchantWalletAddress: string;
   cryptoGatewayEnabled: boolean;
   cryptoAddFees: boolean;
+  cryptoUnderpaymentTolerancePercent: number;
   cryptoWallets: {
     evm: string | null;
     btc: string | null;
@@ -36,6 +41,26 @@ export type VoodooPayIntegrationRecord = {
   callbackSecretEncrypted: string;
 };
 
+export type StripeIntegrationRecord = {
+  id: string;
+  tenantId: string;
+  guildId: string;
+  tenantWebhookKey: string;
+  secretKeyEncrypted: string;
+  webhookSecretEncrypted: string;
+};
+
+function mapStripeIntegration(row: typeof tenantIntegrationsStripe.$inferSelect): StripeIntegrationRecord {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    guildId: row.guildId,
+    tenantWebhookKey: row.tenantWebhookKey,
+    secretKeyEncrypted: row.secretKeyEncrypted,
+    webhookSecretEncrypted: row.webhookSecretEncrypted,
+  };
+}
+
 export class IntegrationRepository {
   private readonly db = getDb();
 
@@ -160,6 +185,7 @@ export class IntegrationRepository {
     merchantWalletAddress: string;
     cryptoGatewayEnabled: boolean;
     cryptoAddFees: boolean;
+    cryptoUnderpaymentTolerancePercent: number;
     cryptoWallets: {
       evm?: string | null;
       btc?: string | null;
@@ -187,6 +213,7 @@ export class IntegrationRepository {
           merchantWalletAddress: input.merchantWalletAddress,
           cryptoGatewayEnabled: input.cryptoGatewayEnabled,
           cryptoAddFees: input.cryptoAddFees,
+          cryptoUnderpaymentTolerancePercent: input.cryptoUnderpaymentTolerancePercent,
           cryptoWalletEvm: input.cryptoWallets.evm ?? null,
           cryptoWalletBtc: input.cryptoWallets.btc ?? null,
           cryptoWalletBitcoincash: input.cryptoWallets.bitcoincash ?? null,
@@ -208,6 +235,7 @@ export class IntegrationRepository {
         merchantWalletAddress: input.merchantWalletAddress,
         cryptoGatewayEnabled: input.cryptoGatewayEnabled,
         cryptoAddFees: input.cryptoAddFees,
+        cryptoUnderpaymentTolerancePercent: input.cryptoUnderpaymentTolerancePercent,
         cryptoWallets: {
           evm: input.cryptoWallets.evm ?? null,
           btc: input.cryptoWallets.btc ?? null,
@@ -231,6 +259,7 @@ export class IntegrationRepository {
       merchantWalletAddress: input.merchantWalletAddress,
       cryptoGatewayEnabled: input.cryptoGatewayEnabled,
       cryptoAddFees: input.cryptoAddFees,
+      cryptoUnderpaymentTolerancePercent: input.cryptoUnderpaymentTolerancePercent,
       cryptoWalletEvm: input.cryptoWallets.evm ?? null,
       cryptoWalletBtc: input.cryptoWallets.btc ?? null,
       cryptoWalletBitcoincash: input.cryptoWallets.bitcoincash ?? null,
@@ -250,6 +279,7 @@ export class IntegrationRepository {
       merchantWalletAddress: input.merchantWalletAddress,
       cryptoGatewayEnabled: input.cryptoGatewayEnabled,
       cryptoAddFees: input.cryptoAddFees,
+      cryptoUnderpaymentTolerancePercent: input.cryptoUnderpaymentTolerancePercent,
       cryptoWallets: {
         evm: input.cryptoWallets.evm ?? null,
         btc: input.cryptoWallets.btc ?? null,
@@ -287,6 +317,7 @@ export class IntegrationRepository {
       merchantWalletAddress: row.merchantWalletAddress,
       cryptoGatewayEnabled: row.cryptoGatewayEnabled,
       cryptoAddFees: row.cryptoAddFees,
+      cryptoUnderpaymentTolerancePercent: row.cryptoUnderpaymentTolerancePercent,
       cryptoWallets: {
         evm: row.cryptoWalletEvm,
         btc: row.cryptoWalletBtc,
@@ -320,6 +351,7 @@ export class IntegrationRepository {
       merchantWalletAddress: row.merchantWalletAddress,
       cryptoGatewayEnabled: row.cryptoGatewayEnabled,
       cryptoAddFees: row.cryptoAddFees,
+      cryptoUnderpaymentTolerancePercent: row.cryptoUnderpaymentTolerancePercent,
       cryptoWallets: {
         evm: row.cryptoWalletEvm,
         btc: row.cryptoWalletBtc,
@@ -334,4 +366,63 @@ export class IntegrationRepository {
       callbackSecretEncrypted: row.callbackSecretEncrypted,
     };
   }
+
+  public async upsertStripeIntegration(input: {
+    tenantId: string;
+    guildId: string;
+    tenantWebhookKey: string;
+    secretKeyEncrypted: string;
+    webhookSecretEncrypted: string;
+  }): Promise<StripeIntegrationRecord> {
+    const existing = await this.db.query.tenantIntegrationsStripe.findFirst({
+      where: and(
+        eq(tenantIntegrationsStripe.tenantId, input.tenantId),
+        eq(tenantIntegrationsStripe.guildId, input.guildId),
+      ),
+    });
+
+    if (existing) {
+      await this.db
+        .update(tenantIntegrationsStripe)
+        .set({
+          tenantWebhookKey: input.tenantWebhookKey,
+          secretKeyEncrypted: input.secretKeyEncrypted,
+          webhookSecretEncrypted: input.webhookSecretEncrypted,
+          updatedAt: new Date(),
+        })
+        .where(eq(tenantIntegrationsStripe.id, existing.id));
+
+      return { id: existing.id, ...input };
+    }
+
+    const id = ulid();
+    await this.db.insert(tenantIntegrationsStripe).values({ id, ...input });
+
+    return { id, ...input };
+  }
+
+  public async getStripeIntegrationByGuild(input: {
+    tenantId: string;
+    guildId: string;
+  }): Promise<StripeIntegrationRecord | null> {
+    const row = await this.db.query.tenantIntegrationsStripe.findFirst({
+      where: and(
+        eq(tenantIntegrationsStripe.tenantId, input.tenantId),
+        eq(tenantIntegrationsStripe.guildId, input.guildId),
+      ),
+    });
+
+    return row ? mapStripeIntegration(row) : null;
+  }
+
+  public async getStripeIntegrationByWebhookKey(
+    tenantWebhookKey: string,
+  ): Promise<StripeIntegrationRecord | null> {
+    const row = await this.db.query.tenantIntegrationsStripe.findFirst({
+      where: eq(tenantIntegrationsStripe.tenantWebhookKey, tenantWebhookKey),
+    });
+
+    return row ? mapStripeIntegration(row) : null;
+  }
 }
+
@@ -1,10 +1,22 @@
-import { and, desc, eq, gte, lt } from 'drizzle-orm';
+import { and, asc, count, desc, eq, gt, gte, inArray, isNull, lt, lte, max, or, sql, type SQL } from 'drizzle-orm';
 import { ulid } from 'ulid';
 
+import type { RoleRewardInput, WebhookAttemptHistoryEntry, WebhookEventStatus } from '../domain/types.js';
 import { getDb } from '../infra/db/client.js';
-import { orderNotesCache, orderSessions, ordersPaid, webhookEvents } from '../infra/db/schema/index.js';
+import {
+  couponRedemptions,
+  discountCoupons,
+  orderNotesCache,
+  orderSessions,
+  ordersPaid,
+  webhookEvents,
+} from '../infra/db/schema/index.js';
+import type { AutomaticDiscountLine } from '../services/automatic-discounts.js';
+import type { ExchangeRateSnapshot } from '../services/exchange-rates.js';
 import { isMysqlDuplicateEntryError } from '../utils/mysql-errors.js';
 
+const INVOICE_NUMBER_ATTEMPTS = 3;
+
 function isMissingColumnError(error: unknown, columnName: string): boolean {
   if (typeof error !== 'object' || error === null) {
     return false;
@@ -23,14 +35,25 @@ function isMissingColumnError(error: unknown, columnName: string): boolean {
   return message.includes(`Unknown column '${columnName}'`);
 }
 
+export type OrderSessionSource = 'staff' | 'self_service';
+
 export type OrderSessionBasketItem = {
   productId: string;
   productName: string;
   category: string;
   variantId: string;
   variantLabel: string;
+  /** Unit price for one of `quantity`. */
   priceMinor: number;
   currency: string;
+  /** Units on this line; missing on sessions created before quantities existed, which means one. */
+  quantity?: number;
+  /** This line's share of `automaticDiscountMinor`; coupons and points were applied to the rest. */
+  automaticDiscountMinor?: number;
+  /** Roles granted when the order is paid; missing on sessions created before role rewards existed. */
+  roleRewards?: RoleRewardInput[];
+  /** Set when the price option renews; the first paid order starts a subscription. */
+  billingIntervalDays?: number | null;
 };
 
 export type OrderSessionPointsReservationState =
@@ -40,14 +63,36 @@ export type OrderSessionPointsReservationState =
   | 'released_cancelled'
   | 'consumed';
 
+export type OrderSessionStockReservationState = OrderSessionPointsReservationState;
+
+export type OrderSessionStockReservation = {
+  variantId: string;
+  quantity: number;
+};
+
 export type OrderSessionPointsConfigSnapshot = {
   pointValueMinor: number;
   earnCategoryKeys: string[];
   redeemCategoryKeys: string[];
 };
 
+/**
+ * Checkout form as it looked when the session was created, so paid logs still mask and label answers
+ * after staff edit or delete the product.
+ */
+export type OrderSessionFormSnapshot = {
+  sensitiveFieldKeys: string[];
+  fieldLabels: Record<string, string>;
+};
+
 export type PaidOrderFulfillmentStatus = 'needs_action' | 'fulfilled';
 
+export type PaidOrderRefundStatus = 'none' | 'partially_refunded' | 'refunded';
+
+export type PaidOrderRefundReason = 'refund' | 'chargeback';
+
+export type PaidOrderAmountCheck = 'not_checked' | 'matched' | 'underpaid' | 'overpaid';
+
 export type OrderSessionRecord = {
   id: string;
   tenantId: string;
@@ -57,7 +102,12 @@ export type OrderSessionRecord = {
   customerDiscordId: string;
   productId: string;
   variantId: string;
+  /** `self_service` when the customer started the checkout with `/buy` instead of a staff member. */
+  source: OrderSessionSource;
   basketItems: OrderSessionBasketItem[];
+  /** Volume pricing and automatic discount rules, taken off before the coupon and points. */
+  automaticDiscountMinor: number;
+  automaticDiscounts: AutomaticDiscountLine[];
   couponCode: string | null;
   couponDiscountMinor: number;
   customerEmailNormalized: string | null;
@@ -65,6 +115,14 @@ export type OrderSessionRecord = {
   pointsDiscountMinor: number;
   pointsReservationState: OrderSessionPointsReservationState;
   pointsConfigSnapshot: OrderSessionPointsConfigSnapshot;
+  stockReservations: OrderSessionStockReservation[];
+  stockReservationState: OrderSessionStockReservationState;
+  /** Rates used to convert basket prices into the checkout currency; empty when nothing was converted. */
+  fxRatesSnapshot: ExchangeRateSnapshot[];
+  /** Null for sessions created before form snapshots were recorded. */
+  formSnapshot: OrderSessionFormSnapshot | null;
+  /** Set on renewal checkouts so the paid webhook extends the subscription instead of starting one. */
+  subscriptionId: string | null;
   referralRewardMinorSnapshot: number;
   tipMinor: number;
   subtotalMinor: number;
@@ -74,8 +132,26 @@ export type OrderSessionRecord = {
   checkoutUrl: string | null;
   checkoutUrlCrypto: string | null;
   checkoutTokenExpiresAt: Date;
+  checkoutMessageChannelId: string | null;
+  checkoutMessageId: string | null;
+};
+
+/** Usage limits of the coupon on a new checkout, re-checked while the checkout is written. */
+export type OrderSessionCouponLimit = {
+  couponId: string;
+  code: string;
+  maxRedemptions: number | null;
+  maxRedemptionsPerCustomer: number | null;
+  customerEmailNormalized: string | null;
+  customerDiscordId: string | null;
 };
 
+export type CreateOrderSessionResult =
+  | { ok: true; orderSession: OrderSessionRecord }
+  | { ok: false; couponLimit: OrderSessionCouponLimit; limitReached: 'total' | 'customer' };
+
+type CouponUseReader = Pick<ReturnType<typeof getDb>, 'select'>;
+
 export type PaidOrderRecord = {
   id: string;
   tenantId: string;
@@ -89,6 +165,17 @@ export type PaidOrderRecord = {
   fulfillmentStatus: PaidOrderFulfillmentStatus;
   fulfilledAt: Date | null;
   fulfilledByDiscordUserId: string | null;
+  refundStatus: PaidOrderRefundStatus;
+  refundReason: PaidOrderRefundReason | null;
+  refundedMinor: number;
+  refundedAt: Date | null;
+  amountCheck: PaidOrderAmountCheck;
+  paymentCoin: string | null;
+  paymentCoinAmount: string | null;
+  expectedCoinAmount: string | null;
+  receivedMinor: number | null;
+  /** Sequential per guild, starting at 1. */
+  invoiceNumber: number;
   paidAt: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -99,11 +186,66 @@ export type PaidOrderWithSessionRecord = PaidOrderRecord & {
   customerDiscordId: string | null;
   productId: string | null;
   variantId: string | null;
+  source: OrderSessionSource | null;
   customerEmailNormalized: string | null;
   answers: Record<string, string> | null;
   basketItems: OrderSessionBasketItem[] | null;
+  automaticDiscounts: AutomaticDiscountLine[] | null;
+};
+
+export type WebhookEventProvider = 'woocommerce' | 'voodoopay' | 'stripe';
+
+/** A stored provider webhook, with everything needed to process it again without the original request. */
+export type WebhookEventRecord = {
+  id: string;
+  tenantId: string;
+  guildId: string | null;
+  provider: WebhookEventProvider;
+  topic: string;
+  payload: Record<string, unknown>;
+  signatureValid: boolean;
+  status: WebhookEventStatus;
+  attemptCount: number;
 };
 
+export type WebhookEventSummaryRecord = {
+  id: string;
+  provider: WebhookEventProvider;
+  topic: string;
+  providerDeliveryId: string;
+  status: WebhookEventStatus;
+  signatureValid: boolean;
+  orderSessionId: string | null;
+  attemptCount: number;
+  failureReason: string | null;
+  nextRetryAt: Date | null;
+  processedAt: Date | null;
+  createdAt: Date;
+};
+
+export type WebhookEventDetailRecord = WebhookEventSummaryRecord & {
+  payload: Record<string, unknown>;
+  attemptHistory: WebhookAttemptHistoryEntry[];
+  leaseExpiresAt: Date | null;
+};
+
+function mapWebhookEventSummaryRow(row: typeof webhookEvents.$inferSelect): WebhookEventSummaryRecord {
+  return {
+    id: row.id,
+    provider: row.provider,
+    topic: row.topic,
+    providerDeliveryId: row.providerDeliveryId,
+    status: row.status,
+    signatureValid: row.signatureValid,
+    orderSessionId: row.orderSessionId ?? null,
+    attemptCount: row.attemptCount,
+    failureReason: row.failureReason,
+    nextRetryAt: row.nextRetryAt,
+    processedAt: row.processedAt,
+    createdAt: row.createdAt,
+  };
+}
+
 function mapOrderSessionRow(row: typeof orderSessions.$inferSelect): OrderSessionRecord {
   return {
     id: row.id,
@@ -114,7 +256,10 @@ function mapOrderSessionRow(row: typeof orderSessions.$inferSelect): OrderSessio
     customerDiscordId: row.customerDiscordId,
     productId: row.productId,
     variantId: row.variantId,
+    source: row.source,
     basketItems: row.basketItems,
+    automaticDiscountMinor: row.automaticDiscountMinor,
+    automaticDiscounts: Array.isArray(row.automaticDiscounts) ? row.automaticDiscounts : [],
     couponCode: row.couponCode,
     couponDiscountMinor: row.couponDiscountMinor,
     customerEmailNormalized: row.customerEmailNormalized,
@@ -122,6 +267,11 @@ function mapOrderSessionRow(row: typeof orderSessions.$inferSelect): OrderSessio
     pointsDiscountMinor: row.pointsDiscountMinor,
     pointsReservationState: row.pointsReservationState,
     pointsConfigSnapshot: row.pointsConfigSnapshot,
+    stockReservations: row.stockReservations ?? [],
+    stockReservationState: row.stockReservationState ?? 'none',
+    fxRatesSnapshot: row.fxRatesSnapshot ?? [],
+    formSnapshot: row.formSnapshot ?? null,
+    subscriptionId: row.subscriptionId ?? null,
     referralRewardMinorSnapshot: row.referralRewardMinorSnapshot,
     tipMinor: row.tipMinor,
     subtotalMinor: row.subtotalMinor,
@@ -131,6 +281,8 @@ function mapOrderSessionRow(row: typeof orderSessions.$inferSelect): OrderSessio
     checkoutUrl: row.checkoutUrl,
     checkoutUrlCrypto: row.checkoutUrlCrypto,
     checkoutTokenExpiresAt: row.checkoutTokenExpiresAt,
+    checkoutMessageChannelId: row.checkoutMessageChannelId ?? null,
+    checkoutMessageId: row.checkoutMessageId ?? null,
   };
 }
 
@@ -148,6 +300,16 @@ function mapPaidOrderRow(row: typeof ordersPaid.$inferSelect): PaidOrderRecord {
     fulfillmentStatus: row.fulfillmentStatus,
     fulfilledAt: row.fulfilledAt ?? null,
     fulfilledByDiscordUserId: row.fulfilledByDiscordUserId ?? null,
+    refundStatus: row.refundStatus,
+    refundReason: row.refundReason ?? null,
+    refundedMinor: row.refundedMinor,
+    refundedAt: row.refundedAt ?? null,
+    amountCheck: row.amountCheck,
+    paymentCoin: row.paymentCoin ?? null,
+    paymentCoinAmount: row.paymentCoinAmount ?? null,
+    expectedCoinAmount: row.expectedCoinAmount ?? null,
+    receivedMinor: row.receivedMinor ?? null,
+    invoiceNumber: row.invoiceNumber,
     paidAt: row.paidAt,
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
@@ -157,6 +319,23 @@ function mapPaidOrderRow(row: typeof ordersPaid.$inferSelect): PaidOrderRecord {
 export class OrderRepository {
   private readonly db = getDb();
 
+  private getAffectedRowCount(result: unknown): number {
+    if (typeof result === 'object' && result !== null) {
+      if ('affectedRows' in result && typeof result.affectedRows === 'number') {
+        return result.affectedRows;
+      }
+      if ('rowsAffected' in result && typeof result.rowsAffected === 'number') {
+        return result.rowsAffected;
+      }
+    }
+
+    if (Array.isArray(result) && result.length > 0) {
+      return this.getAffectedRowCount(result[0]);
+    }
+
+    return 0;
+  }
+
   public async createOrderSession(input: {
     tenantId: string;
     guildId: string;
@@ -165,7 +344,10 @@ export class OrderRepository {
     customerDiscordId: string;
     productId: string;
     variantId: string;
+    source?: OrderSessionSource;
     basketItems: OrderSessionBasketItem[];
+    automaticDiscountMinor?: number;
+    automaticDiscounts?: AutomaticDiscountLine[];
     couponCode: string | null;
     couponDiscountMinor: number;
     customerEmailNormalized: string | null;
@@ -173,6 +355,10 @@ export class OrderRepository {
     pointsDiscountMinor: number;
     pointsReservationState: OrderSessionPointsReservationState;
     pointsConfigSnapshot: OrderSessionPointsConfigSnapshot;
+    stockReservations?: OrderSessionStockReservation[];
+    fxRatesSnapshot?: ExchangeRateSnapshot[];
+    formSnapshot?: OrderSessionFormSnapshot | null;
+    subscriptionId?: string | null;
     referralRewardMinorSnapshot: number;
     tipMinor: number;
     subtotalMinor: number;
@@ -180,10 +366,14 @@ export class OrderRepository {
     answers: Record<string, string>;
     checkoutTokenExpiresAt: Date;
     id?: string;
-  }): Promise<OrderSessionRecord> {
+    couponLimit?: OrderSessionCouponLimit | null;
+  }): Promise<CreateOrderSessionResult> {
     const id = input.id ?? ulid();
+    const stockReservations = input.stockReservations ?? [];
+    const stockReservationState: OrderSessionStockReservationState =
+      stockReservations.length > 0 ? 'reserved' : 'none';
 
-    await this.db.insert(orderSessions).values({
+    const values: typeof orderSessions.$inferInsert = {
       id,
       tenantId: input.tenantId,
       guildId: input.guildId,
@@ -192,7 +382,10 @@ export class OrderRepository {
       customerDiscordId: input.customerDiscordId,
       productId: input.productId,
       variantId: input.variantId,
+      source: input.source ?? 'staff',
       basketItems: input.basketItems,
+      automaticDiscountMinor: input.automaticDiscountMinor ?? 0,
+      automaticDiscounts: input.automaticDiscounts ?? [],
       couponCode: input.couponCode,
       couponDiscountMinor: input.couponDiscountMinor,
       customerEmailNormalized: input.customerEmailNormalized,
@@ -200,6 +393,11 @@ export class OrderRepository {
       pointsDiscountMinor: input.pointsDiscountMinor,
       pointsReservationState: input.pointsReservationState,
       pointsConfigSnapshot: input.pointsConfigSnapshot,
+      stockReservations,
+      stockReservationState,
+      fxRatesSnapshot: input.fxRatesSnapshot ?? [],
+      formSnapshot: input.formSnapshot ?? null,
+      subscriptionId: input.subscriptionId ?? null,
       referralRewardMinorSnapshot: input.referralRewardMinorSnapshot,
       tipMinor: input.tipMinor,
       subtotalMinor: input.subtotalMinor,
@@ -207,9 +405,46 @@ export class OrderRepository {
       answers: input.answers,
       checkoutTokenExpiresAt: input.checkoutTokenExpiresAt,
       status: 'pending_payment',
-    });
+    };
 
-    return {
+    const { couponLimit } = input;
+    if (!couponLimit) {
+      await this.db.insert(orderSessions).values(values);
+    } else {
+      const limitReached = await this.db.transaction(async (tx) => {
+        // Checkouts for the same coupon queue on its row, so the counts cannot go stale before the insert.
+        await tx
+          .select({ id: discountCoupons.id })
+          .from(discountCoupons)
+          .where(and(eq(discountCoupons.id, couponLimit.couponId), eq(discountCoupons.tenantId, input.tenantId)))
+          .for('update');
+
+        const uses = await this.countCouponUses(tx, {
+          tenantId: input.tenantId,
+          guildId: input.guildId,
+          ...couponLimit,
+          now: new Date(),
+        });
+        if (couponLimit.maxRedemptions !== null && uses.total >= couponLimit.maxRedemptions) {
+          return 'total' as const;
+        }
+        if (
+          couponLimit.maxRedemptionsPerCustomer !== null &&
+          uses.customer !== null &&
+          uses.customer >= couponLimit.maxRedemptionsPerCustomer
+        ) {
+          return 'customer' as const;
+        }
+
+        await tx.insert(orderSessions).values(values);
+        return null;
+      });
+      if (limitReached) {
+        return { ok: false, couponLimit, limitReached };
+      }
+    }
+
+    const orderSession: OrderSessionRecord = {
       id,
       tenantId: input.tenantId,
       guildId: input.guildId,
@@ -218,7 +453,10 @@ export class OrderRepository {
       customerDiscordId: input.customerDiscordId,
       productId: input.productId,
       variantId: input.variantId,
+      source: input.source ?? 'staff',
       basketItems: input.basketItems,
+      automaticDiscountMinor: input.automaticDiscountMinor ?? 0,
+      automaticDiscounts: input.automaticDiscounts ?? [],
       couponCode: input.couponCode,
       couponDiscountMinor: input.couponDiscountMinor,
       customerEmailNormalized: input.customerEmailNormalized,
@@ -226,6 +464,11 @@ export class OrderRepository {
       pointsDiscountMinor: input.pointsDiscountMinor,
       pointsReservationState: input.pointsReservationState,
       pointsConfigSnapshot: input.pointsConfigSnapshot,
+      stockReservations,
+      stockReservationState,
+      fxRatesSnapshot: input.fxRatesSnapshot ?? [],
+      formSnapshot: input.formSnapshot ?? null,
+      subscriptionId: input.subscriptionId ?? null,
       referralRewardMinorSnapshot: input.referralRewardMinorSnapshot,
       tipMinor: input.tipMinor,
       subtotalMinor: input.subtotalMinor,
@@ -235,7 +478,72 @@ export class OrderRepository {
       checkoutUrl: null,
       checkoutUrlCrypto: null,
       checkoutTokenExpiresAt: input.checkoutTokenExpiresAt,
+      checkoutMessageChannelId: null,
+      checkoutMessageId: null,
     };
+
+    return { ok: true, orderSession };
+  }
+
+  /** Open checkouts plus paid redemptions of a coupon, the same uses the coupon rules count. */
+  private async countCouponUses(
+    reader: CouponUseReader,
+    input: {
+      tenantId: string;
+      guildId: string;
+      couponId: string;
+      code: string;
+      customerEmailNormalized: string | null;
+      customerDiscordId: string | null;
+      now: Date;
+    },
+  ): Promise<{ total: number; customer: number | null }> {
+    const checkoutConditions = [
+      eq(orderSessions.tenantId, input.tenantId),
+      eq(orderSessions.guildId, input.guildId),
+      eq(orderSessions.couponCode, input.code),
+      eq(orderSessions.status, 'pending_payment'),
+      gt(orderSessions.checkoutTokenExpiresAt, input.now),
+    ];
+    const redemptionConditions = [
+      eq(couponRedemptions.tenantId, input.tenantId),
+      eq(couponRedemptions.guildId, input.guildId),
+      eq(couponRedemptions.couponId, input.couponId),
+      eq(couponRedemptions.status, 'active'),
+    ];
+
+    const countUses = async (checkoutFilter: SQL | undefined, redemptionFilter: SQL | undefined) => {
+      const [checkouts] = await reader
+        .select({ value: count() })
+        .from(orderSessions)
+        .where(and(...checkoutConditions, checkoutFilter));
+      const [redemptions] = await reader
+        .select({ value: count() })
+        .from(couponRedemptions)
+        .where(and(...redemptionConditions, redemptionFilter));
+      return (checkouts?.value ?? 0) + (redemptions?.value ?? 0);
+    };
+
+    const total = await countUses(undefined, undefined);
+    if (!input.customerEmailNormalized && !input.customerDiscordId) {
+      return { total, customer: null };
+    }
+
+    const customer = await countUses(
+      or(
+        input.customerEmailNormalized
+          ? eq(orderSessions.customerEmailNormalized, input.customerEmailNormalized)
+          : undefined,
+        input.customerDiscordId ? eq(orderSessions.customerDiscordId, input.customerDiscordId) : undefined,
+      ),
+      or(
+        input.customerEmailNormalized
+          ? eq(couponRedemptions.customerEmailNormalized, input.customerEmailNormalized)
+          : undefined,
+        input.customerDiscordId ? eq(couponRedemptions.customerDiscordId, input.customerDiscordId) : undefined,
+      ),
+    );
+    return { total, customer };
   }
 
   public async getOrderSession(input: {
@@ -290,10 +598,34 @@ export class OrderRepository {
     return mapOrderSessionRow(pending);
   }
 
+  /** Counts checkouts a customer started from `source` since `since`, whatever their status. */
+  public async countCustomerSessionsSince(input: {
+    tenantId: string;
+    guildId: string;
+    customerDiscordId: string;
+    source: OrderSessionSource;
+    since: Date;
+  }): Promise<number> {
+    const rows = await this.db
+      .select({ value: count() })
+      .from(orderSessions)
+      .where(
+        and(
+          eq(orderSessions.tenantId, input.tenantId),
+          eq(orderSessions.guildId, input.guildId),
+          eq(orderSessions.source, input.source),
+          eq(orderSessions.customerDiscordId, input.customerDiscordId),
+          gte(orderSessions.createdAt, input.since),
+        ),
+      );
+
+    return rows[0]?.value ?? 0;
+  }
+
   public async setCheckoutUrl(input: {
     tenantId: string;
     orderSessionId: string;
-    checkoutUrl: string;
+    checkoutUrl: string | null;
     checkoutUrlCrypto?: string | null;
   }): Promise<void> {
     try {
@@ -320,6 +652,22 @@ export class OrderRepository {
     }
   }
 
+  public async setCheckoutMessage(input: {
+    tenantId: string;
+    orderSessionId: string;
+    channelId: string;
+    messageId: string;
+  }): Promise<void> {
+    await this.db
+      .update(orderSessions)
+      .set({
+        checkoutMessageChannelId: input.channelId,
+        checkoutMessageId: input.messageId,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(orderSessions.id, input.orderSessionId), eq(orderSessions.tenantId, input.tenantId)));
+  }
+
   public async cancelOrderSession(input: {
     tenantId: string;
     orderSessionId: string;
@@ -380,6 +728,46 @@ export class OrderRepository {
     return rows.map(mapOrderSessionRow);
   }
 
+  public async listExpiredPendingSessions(input: {
+    now: Date;
+    limit: number;
+  }): Promise<OrderSessionRecord[]> {
+    const rows = await this.db.query.orderSessions.findMany({
+      where: and(
+        eq(orderSessions.status, 'pending_payment'),
+        lt(orderSessions.checkoutTokenExpiresAt, input.now),
+      ),
+      orderBy: [asc(orderSessions.checkoutTokenExpiresAt)],
+      limit: input.limit,
+    });
+
+    return rows.map(mapOrderSessionRow);
+  }
+
+  /**
+   * Moves an expired session to `cancelled` only if it is still pending, so a payment that
+   * lands while the sweeper runs is never overwritten. Returns whether this call expired it.
+   */
+  public async expirePendingOrderSession(input: {
+    tenantId: string;
+    orderSessionId: string;
+    now: Date;
+  }): Promise<boolean> {
+    const result = await this.db
+      .update(orderSessions)
+      .set({ status: 'cancelled', updatedAt: input.now })
+      .where(
+        and(
+          eq(orderSessions.id, input.orderSessionId),
+          eq(orderSessions.tenantId, input.tenantId),
+          eq(orderSessions.status, 'pending_payment'),
+          lt(orderSessions.checkoutTokenExpiresAt, input.now),
+        ),
+      );
+
+    return this.getAffectedRowCount(result) > 0;
+  }
+
   public async createPaidOrder(input: {
     tenantId: string;
     guildId: string;
@@ -390,39 +778,55 @@ export class OrderRepository {
     currency: string;
     paymentReference: string | null;
   }): Promise<{ paidOrderId: string; created: boolean }> {
-    const paidOrderId = ulid();
-    try {
-      await this.db.insert(ordersPaid).values({
-        id: paidOrderId,
-        tenantId: input.tenantId,
-        guildId: input.guildId,
-        orderSessionId: input.orderSessionId,
-        wooOrderId: input.providerOrderId,
-        status: input.status,
-        priceMinor: input.priceMinor,
-        currency: input.currency,
-        paymentReference: input.paymentReference,
-        updatedAt: new Date(),
-      });
-      return {
-        paidOrderId,
-        created: true,
-      };
-    } catch (error) {
-      if (isMysqlDuplicateEntryError(error)) {
+    for (let attempt = 1; attempt <= INVOICE_NUMBER_ATTEMPTS; attempt += 1) {
+      const paidOrderId = ulid();
+      try {
+        await this.db.transaction(async (tx) => {
+          const [latest] = await tx
+            .select({ invoiceNumber: max(ordersPaid.invoiceNumber) })
+            .from(ordersPaid)
+            .where(and(eq(ordersPaid.tenantId, input.tenantId), eq(ordersPaid.guildId, input.guildId)))
+            .for('update');
+
+          await tx.insert(ordersPaid).values({
+            id: paidOrderId,
+            tenantId: input.tenantId,
+            guildId: input.guildId,
+            orderSessionId: input.orderSessionId,
+            wooOrderId: input.providerOrderId,
+            status: input.status,
+            priceMinor: input.priceMinor,
+            currency: input.currency,
+            paymentReference: input.paymentReference,
+            invoiceNumber: (latest?.invoiceNumber ?? 0) + 1,
+            updatedAt: new Date(),
+          });
+        });
+        return {
+          paidOrderId,
+          created: true,
+        };
+      } catch (error) {
+        if (!isMysqlDuplicateEntryError(error)) {
+          throw error;
+        }
+
         const existing = await this.getPaidOrderByOrderSessionId(input.orderSessionId);
-        if (!existing) {
-          throw new Error('Paid order exists but could not be loaded by order session');
+        if (existing) {
+          return {
+            paidOrderId: existing.id,
+            created: false,
+          };
         }
 
-        return {
-          paidOrderId: existing.id,
-          created: false,
-        };
+        // Another paid order in the guild took the same invoice number; number this one again.
+        if (attempt === INVOICE_NUMBER_ATTEMPTS) {
+          throw error;
+        }
       }
-
-      throw error;
     }
+
+    throw new Error('Paid order could not be given an invoice number');
   }
 
   public async getPaidOrderById(paidOrderId: string): Promise<PaidOrderRecord | null> {
@@ -499,6 +903,16 @@ export class OrderRepository {
         fulfillmentStatus: ordersPaid.fulfillmentStatus,
         fulfilledAt: ordersPaid.fulfilledAt,
         fulfilledByDiscordUserId: ordersPaid.fulfilledByDiscordUserId,
+        refundStatus: ordersPaid.refundStatus,
+        refundReason: ordersPaid.refundReason,
+        refundedMinor: ordersPaid.refundedMinor,
+        refundedAt: ordersPaid.refundedAt,
+        amountCheck: ordersPaid.amountCheck,
+        paymentCoin: ordersPaid.paymentCoin,
+        paymentCoinAmount: ordersPaid.paymentCoinAmount,
+        expectedCoinAmount: ordersPaid.expectedCoinAmount,
+        receivedMinor: ordersPaid.receivedMinor,
+        invoiceNumber: ordersPaid.invoiceNumber,
         paidAt: ordersPaid.paidAt,
         createdAt: ordersPaid.createdAt,
         updatedAt: ordersPaid.updatedAt,
@@ -506,9 +920,11 @@ export class OrderRepository {
         customerDiscordId: orderSessions.customerDiscordId,
         productId: orderSessions.productId,
         variantId: orderSessions.variantId,
+        source: orderSessions.source,
         customerEmailNormalized: orderSessions.customerEmailNormalized,
         answers: orderSessions.answers,
         basketItems: orderSessions.basketItems,
+        automaticDiscounts: orderSessions.automaticDiscounts,
       })
       .from(ordersPaid)
       .leftJoin(orderSessions, eq(ordersPaid.orderSessionId, orderSessions.id))
@@ -534,6 +950,16 @@ export class OrderRepository {
       fulfillmentStatus: row.fulfillmentStatus,
       fulfilledAt: row.fulfilledAt ?? null,
       fulfilledByDiscordUserId: row.fulfilledByDiscordUserId ?? null,
+      refundStatus: row.refundStatus,
+      refundReason: row.refundReason ?? null,
+      refundedMinor: row.refundedMinor,
+      refundedAt: row.refundedAt ?? null,
+      amountCheck: row.amountCheck,
+      paymentCoin: row.paymentCoin ?? null,
+      paymentCoinAmount: row.paymentCoinAmount ?? null,
+      expectedCoinAmount: row.expectedCoinAmount ?? null,
+      receivedMinor: row.receivedMinor ?? null,
+      invoiceNumber: row.invoiceNumber,
       paidAt: row.paidAt,
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
@@ -541,15 +967,18 @@ export class OrderRepository {
       customerDiscordId: row.customerDiscordId ?? null,
       productId: row.productId ?? null,
       variantId: row.variantId ?? null,
+      source: row.source ?? null,
       customerEmailNormalized: row.customerEmailNormalized ?? null,
       answers: row.answers ?? null,
       basketItems: row.basketItems ?? null,
+      automaticDiscounts: row.automaticDiscounts ?? null,
     }));
   }
 
+  /** `actorDiscordUserId` is null when the order was fulfilled automatically. */
   public async markPaidOrderFulfilled(input: {
     paidOrderId: string;
-    actorDiscordUserId: string;
+    actorDiscordUserId: string | null;
   }): Promise<void> {
     await this.db
       .update(ordersPaid)
@@ -562,6 +991,52 @@ export class OrderRepository {
       .where(eq(ordersPaid.id, input.paidOrderId));
   }
 
+  /**
+   * Raises the refunded amount of a paid order. Only moves forward, so a replayed refund webhook
+   * or an older partial refund never lowers it. Returns whether the row changed.
+   */
+  public async recordPaidOrderRefund(input: {
+    paidOrderId: string;
+    refundStatus: Exclude<PaidOrderRefundStatus, 'none'>;
+    refundReason: PaidOrderRefundReason;
+    refundedMinor: number;
+    refundedAt: Date;
+  }): Promise<boolean> {
+    const result = await this.db
+      .update(ordersPaid)
+      .set({
+        refundStatus: input.refundStatus,
+        refundReason: input.refundReason,
+        refundedMinor: input.refundedMinor,
+        refundedAt: input.refundedAt,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(ordersPaid.id, input.paidOrderId), lt(ordersPaid.refundedMinor, input.refundedMinor)));
+
+    return this.getAffectedRowCount(result) > 0;
+  }
+
+  public async recordPaidOrderAmountCheck(input: {
+    paidOrderId: string;
+    amountCheck: Exclude<PaidOrderAmountCheck, 'not_checked'>;
+    paymentCoin: string;
+    paymentCoinAmount: string;
+    expectedCoinAmount: string;
+    receivedMinor: number;
+  }): Promise<void> {
+    await this.db
+      .update(ordersPaid)
+      .set({
+        amountCheck: input.amountCheck,
+        paymentCoin: input.paymentCoin,
+        paymentCoinAmount: input.paymentCoinAmount,
+        expectedCoinAmount: input.expectedCoinAmount,
+        receivedMinor: input.receivedMinor,
+        updatedAt: new Date(),
+      })
+      .where(eq(ordersPaid.id, input.paidOrderId));
+  }
+
   public async cacheOrderNotes(input: {
     tenantId: string;
     guildId: string;
@@ -600,11 +1075,12 @@ export class OrderRepository {
   public async createWebhookEvent(input: {
     tenantId: string;
     guildId: string | null;
-    provider: 'woocommerce' | 'voodoopay';
+    provider: WebhookEventProvider;
     deliveryId: string;
     topic: string;
     signatureValid: boolean;
     payload: Record<string, unknown>;
+    orderSessionId: string | null;
   }): Promise<{ created: boolean; webhookEventId: string }> {
     const existing = await this.db.query.webhookEvents.findFirst({
       where: and(
@@ -628,6 +1104,7 @@ export class OrderRepository {
       topic: input.topic,
       signatureValid: input.signatureValid,
       payload: input.payload,
+      orderSessionId: input.orderSessionId?.slice(0, 26) ?? null,
       status: 'received',
       attemptCount: 0,
     });
@@ -641,6 +1118,9 @@ export class OrderRepository {
       .set({
         status: 'processed',
         processedAt: new Date(),
+        nextRetryAt: null,
+        leaseOwner: null,
+        leaseExpiresAt: null,
       })
       .where(eq(webhookEvents.id, webhookEventId));
   }
@@ -658,6 +1138,27 @@ export class OrderRepository {
         failureReason: input.failureReason,
         attemptCount: input.attemptCount,
         nextRetryAt: input.nextRetryAt,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+      })
+      .where(eq(webhookEvents.id, input.webhookEventId));
+  }
+
+  /** Parks an event that used up its retries; only a provider redelivery or a manual replay runs it again. */
+  public async markWebhookDeadLetter(input: {
+    webhookEventId: string;
+    failureReason: string;
+    attemptCount: number;
+  }): Promise<void> {
+    await this.db
+      .update(webhookEvents)
+      .set({
+        status: 'dead_letter',
+        failureReason: input.failureReason,
+        attemptCount: input.attemptCount,
+        nextRetryAt: null,
+        leaseOwner: null,
+        leaseExpiresAt: null,
       })
       .where(eq(webhookEvents.id, input.webhookEventId));
   }
@@ -672,17 +1173,50 @@ export class OrderRepository {
       .where(eq(webhookEvents.id, webhookEventId));
   }
 
-  public async getWebhookEventStatus(
+  public async getWebhookEventState(
     webhookEventId: string,
-  ): Promise<'received' | 'processed' | 'failed' | 'duplicate' | null> {
+  ): Promise<{ status: WebhookEventStatus; signatureValid: boolean } | null> {
     const row = await this.db.query.webhookEvents.findFirst({
       where: eq(webhookEvents.id, webhookEventId),
       columns: {
         status: true,
+        signatureValid: true,
       },
     });
 
-    return row?.status ?? null;
+    return row ? { status: row.status, signatureValid: row.signatureValid } : null;
+  }
+
+  /**
+   * Swaps a copy stored with an invalid signature for a genuine delivery of the same event and makes it
+   * due again. Returns false when the stored copy was already genuine.
+   */
+  public async replaceUnsignedWebhookEvent(input: {
+    webhookEventId: string;
+    guildId: string | null;
+    topic: string;
+    payload: Record<string, unknown>;
+    orderSessionId: string | null;
+  }): Promise<boolean> {
+    const result = await this.db
+      .update(webhookEvents)
+      .set({
+        guildId: input.guildId,
+        topic: input.topic,
+        payload: input.payload,
+        orderSessionId: input.orderSessionId?.slice(0, 26) ?? null,
+        signatureValid: true,
+        status: 'received',
+        failureReason: null,
+        attemptCount: 0,
+        nextRetryAt: null,
+        processedAt: null,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+      })
+      .where(and(eq(webhookEvents.id, input.webhookEventId), eq(webhookEvents.signatureValid, false)));
+
+    return this.getAffectedRowCount(result) > 0;
   }
 
   public async resetWebhookForRetry(webhookEventId: string): Promise<void> {
@@ -696,4 +1230,144 @@ export class OrderRepository {
       })
       .where(eq(webhookEvents.id, webhookEventId));
   }
+
+  /**
+   * Failed events whose retry time has passed, plus `received` events older than `receivedBefore` that
+   * nobody holds a lease on (their process died or was redeployed before finishing them). Events stored
+   * with an invalid signature are never retried.
+   */
+  public async listDueWebhookEventIds(input: { now: Date; receivedBefore: Date; limit: number }): Promise<string[]> {
+    const rows = await this.db
+      .select({ id: webhookEvents.id })
+      .from(webhookEvents)
+      .where(
+        and(
+          eq(webhookEvents.signatureValid, true),
+          or(
+            and(eq(webhookEvents.status, 'failed'), lte(webhookEvents.nextRetryAt, input.now)),
+            and(eq(webhookEvents.status, 'received'), lt(webhookEvents.createdAt, input.receivedBefore)),
+          ),
+          or(isNull(webhookEvents.leaseExpiresAt), lt(webhookEvents.leaseExpiresAt, input.now)),
+        ),
+      )
+      .orderBy(asc(webhookEvents.createdAt))
+      .limit(input.limit);
+
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Takes a lease on an unfinished event and counts the attempt. The conditional update is the lock, so
+   * when several web-app instances race for the same event only one of them gets it back.
+   */
+  public async claimWebhookEvent(input: {
+    webhookEventId: string;
+    leaseOwner: string;
+    leaseExpiresAt: Date;
+    now: Date;
+  }): Promise<WebhookEventRecord | null> {
+    const result = await this.db
+      .update(webhookEvents)
+      .set({
+        leaseOwner: input.leaseOwner,
+        leaseExpiresAt: input.leaseExpiresAt,
+        attemptCount: sql`${webhookEvents.attemptCount} + 1`,
+      })
+      .where(
+        and(
+          eq(webhookEvents.id, input.webhookEventId),
+          eq(webhookEvents.signatureValid, true),
+          inArray(webhookEvents.status, ['received', 'failed']),
+          or(isNull(webhookEvents.leaseExpiresAt), lt(webhookEvents.leaseExpiresAt, input.now)),
+        ),
+      );
+    if (this.getAffectedRowCount(result) === 0) {
+      return null;
+    }
+
+    const row = await this.db.query.webhookEvents.findFirst({
+      where: and(eq(webhookEvents.id, input.webhookEventId), eq(webhookEvents.leaseOwner, input.leaseOwner)),
+    });
+    if (!row) {
+      return null;
+    }
+
+    return {
+      id: row.id,
+      tenantId: row.tenantId,
+      guildId: row.guildId,
+      provider: row.provider,
+      topic: row.topic,
+      payload: row.payload,
+      signatureValid: row.signatureValid,
+      status: row.status,
+      attemptCount: row.attemptCount,
+    };
+  }
+
+  public async appendWebhookAttempt(input: {
+    webhookEventId: string;
+    entry: WebhookAttemptHistoryEntry;
+  }): Promise<void> {
+    await this.db
+      .update(webhookEvents)
+      .set({
+        attemptHistory: sql`JSON_ARRAY_APPEND(${webhookEvents.attemptHistory}, '$', CAST(${JSON.stringify(
+          input.entry,
+        )} AS JSON))`,
+      })
+      .where(eq(webhookEvents.id, input.webhookEventId));
+  }
+
+  public async listWebhookEvents(input: {
+    tenantId: string;
+    guildId: string;
+    provider: WebhookEventProvider | null;
+    status: WebhookEventStatus | null;
+    orderSessionId: string | null;
+    limit: number;
+  }): Promise<WebhookEventSummaryRecord[]> {
+    const filters = [eq(webhookEvents.tenantId, input.tenantId), eq(webhookEvents.guildId, input.guildId)];
+    if (input.provider) {
+      filters.push(eq(webhookEvents.provider, input.provider));
+    }
+    if (input.status) {
+      filters.push(eq(webhookEvents.status, input.status));
+    }
+    if (input.orderSessionId) {
+      filters.push(eq(webhookEvents.orderSessionId, input.orderSessionId));
+    }
+
+    const rows = await this.db.query.webhookEvents.findMany({
+      where: and(...filters),
+      orderBy: [desc(webhookEvents.createdAt)],
+      limit: input.limit,
+    });
+
+    return rows.map(mapWebhookEventSummaryRow);
+  }
+
+  public async getWebhookEventDetail(input: {
+    tenantId: string;
+    guildId: string;
+    webhookEventId: string;
+  }): Promise<WebhookEventDetailRecord | null> {
+    const row = await this.db.query.webhookEvents.findFirst({
+      where: and(
+        eq(webhookEvents.id, input.webhookEventId),
+        eq(webhookEvents.tenantId, input.tenantId),
+        eq(webhookEvents.guildId, input.guildId),
+      ),
+    });
+    if (!row) {
+      return null;
+    }
+
+    return {
+      ...mapWebhookEventSummaryRow(row),
+      payload: row.payload,
+      attemptHistory: Array.isArray(row.attemptHistory) ? row.attemptHistory : [],
+      leaseExpiresAt: row.leaseExpiresAt,
+    };
+  }
 }
@@ -0,0 +1,368 @@
+import { and, asc, desc, eq, inArray, isNull, lt, lte, or, sql } from 'drizzle-orm';
+import { ulid } from 'ulid';
+
+import type { OutboundWebhookDeliveryStatus, OutboundWebhookEventType } from '../domain/types.js';
+import { getDb } from '../infra/db/client.js';
+import { outboundWebhookDeliveries, outboundWebhookEndpoints } from '../infra/db/schema/index.js';
+
+export type OutboundWebhookEndpointRecord = {
+  id: string;
+  tenantId: string;
+  guildId: string;
+  url: string;
+  description: string;
+  secretEncrypted: string;
+  eventTypes: OutboundWebhookEventType[];
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type OutboundWebhookEndpointFields = {
+  url: string;
+  description: string;
+  eventTypes: OutboundWebhookEventType[];
+  active: boolean;
+};
+
+export type OutboundWebhookDeliveryRecord = {
+  id: string;
+  tenantId: string;
+  guildId: string;
+  endpointId: string;
+  eventId: string;
+  eventType: string;
+  payload: Record<string, unknown>;
+  status: OutboundWebhookDeliveryStatus;
+  attemptCount: number;
+  responseStatus: number | null;
+  lastError: string | null;
+  nextRetryAt: Date | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+};
+
+function mapEndpointRow(row: typeof outboundWebhookEndpoints.$inferSelect): OutboundWebhookEndpointRecord {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    guildId: row.guildId,
+    url: row.url,
+    description: row.description,
+    secretEncrypted: row.secretEncrypted,
+    eventTypes: row.eventTypes ?? [],
+    active: row.active,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function mapDeliveryRow(row: typeof outboundWebhookDeliveries.$inferSelect): OutboundWebhookDeliveryRecord {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    guildId: row.guildId,
+    endpointId: row.endpointId,
+    eventId: row.eventId,
+    eventType: row.eventType,
+    payload: row.payload,
+    status: row.status,
+    attemptCount: row.attemptCount,
+    responseStatus: row.responseStatus ?? null,
+    lastError: row.lastError ?? null,
+    nextRetryAt: row.nextRetryAt ?? null,
+    deliveredAt: row.deliveredAt ?? null,
+    createdAt: row.createdAt,
+  };
+}
+
+export class OutboundWebhookRepository {
+  private readonly db = getDb();
+
+  private getAffectedRowCount(result: unknown): number {
+    if (typeof result === 'object' && result !== null) {
+      if ('affectedRows' in result && typeof result.affectedRows === 'number') {
+        return result.affectedRows;
+      }
+      if ('rowsAffected' in result && typeof result.rowsAffected === 'number') {
+        return result.rowsAffected;
+      }
+    }
+
+    if (Array.isArray(result) && result.length > 0) {
+      return this.getAffectedRowCount(result[0]);
+    }
+
+    return 0;
+  }
+
+  public async listEndpoints(input: { tenantId: string; guildId: string }): Promise<OutboundWebhookEndpointRecord[]> {
+    const rows = await this.db.query.outboundWebhookEndpoints.findMany({
+      where: and(
+        eq(outboundWebhookEndpoints.tenantId, input.tenantId),
+        eq(outboundWebhookEndpoints.guildId, input.guildId),
+      ),
+      orderBy: [asc(outboundWebhookEndpoints.createdAt), asc(outboundWebhookEndpoints.id)],
+    });
+
+    return rows.map(mapEndpointRow);
+  }
+
+  public async getEndpoint(input: {
+    tenantId: string;
+    guildId: string;
+    endpointId: string;
+  }): Promise<OutboundWebhookEndpointRecord | null> {
+    const row = await this.db.query.outboundWebhookEndpoints.findFirst({
+      where: and(
+        eq(outboundWebhookEndpoints.id, input.endpointId),
+        eq(outboundWebhookEndpoints.tenantId, input.tenantId),
+        eq(outboundWebhookEndpoints.guildId, input.guildId),
+      ),
+    });
+
+    return row ? mapEndpointRow(row) : null;
+  }
+
+  public async getEndpointById(endpointId: string): Promise<OutboundWebhookEndpointRecord | null> {
+    const row = await this.db.query.outboundWebhookEndpoints.findFirst({
+      where: eq(outboundWebhookEndpoints.id, endpointId),
+    });
+
+    return row ? mapEndpointRow(row) : null;
+  }
+
+  public async createEndpoint(
+    input: OutboundWebhookEndpointFields & { tenantId: string; guildId: string; secretEncrypted: string },
+  ): Promise<OutboundWebhookEndpointRecord> {
+    const id = ulid();
+    const now = new Date();
+    await this.db.insert(outboundWebhookEndpoints).values({
+      id,
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+      url: input.url,
+      description: input.description,
+      secretEncrypted: input.secretEncrypted,
+      eventTypes: input.eventTypes,
+      active: input.active,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return {
+      id,
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+      url: input.url,
+      description: input.description,
+      secretEncrypted: input.secretEncrypted,
+      eventTypes: input.eventTypes,
+      active: input.active,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  /** Returns `false` when no endpoint with that id belongs to the guild. */
+  public async updateEndpoint(
+    input: Partial<OutboundWebhookEndpointFields> & {
+      tenantId: string;
+      guildId: string;
+      endpointId: string;
+      secretEncrypted?: string;
+    },
+  ): Promise<boolean> {
+    const existing = await this.getEndpoint(input);
+    if (!existing) {
+      return false;
+    }
+
+    await this.db
+      .update(outboundWebhookEndpoints)
+      .set({
+        url: input.url ?? existing.url,
+        description: input.description ?? existing.description,
+        eventTypes: input.eventTypes ?? existing.eventTypes,
+        active: input.active ?? existing.active,
+        secretEncrypted: input.secretEncrypted ?? existing.secretEncrypted,
+        updatedAt: new Date(),
+      })
+      .where(eq(outboundWebhookEndpoints.id, existing.id));
+
+    return true;
+  }
+
+  /** Removes the endpoint together with its delivery log. */
+  public async deleteEndpoint(input: { tenantId: string; guildId: string; endpointId: string }): Promise<void> {
+    const existing = await this.getEndpoint(input);
+    if (!existing) {
+      return;
+    }
+
+    await this.db.transaction(async (tx) => {
+      await tx.delete(outboundWebhookDeliveries).where(eq(outboundWebhookDeliveries.endpointId, existing.id));
+      await tx.delete(outboundWebhookEndpoints).where(eq(outboundWebhookEndpoints.id, existing.id));
+    });
+  }
+
+  /**
+   * Stores one delivery per endpoint for an event. `eventKey` identifies the underlying store change, so
+   * emitting the same change again (for example while a payment webhook is retried) adds nothing. Returns
+   * the ids of the deliveries that were actually created.
+   */
+  public async createDeliveries(input: {
+    tenantId: string;
+    guildId: string;
+    endpointIds: string[];
+    eventId: string;
+    eventType: string;
+    eventKey: string;
+    payload: Record<string, unknown>;
+  }): Promise<string[]> {
+    if (input.endpointIds.length === 0) {
+      return [];
+    }
+
+    const now = new Date();
+    await this.db
+      .insert(outboundWebhookDeliveries)
+      .values(
+        input.endpointIds.map((endpointId) => ({
+          id: ulid(),
+          tenantId: input.tenantId,
+          guildId: input.guildId,
+          endpointId,
+          eventId: input.eventId,
+          eventType: input.eventType,
+          eventKey: input.eventKey,
+          payload: input.payload,
+          status: 'pending' as const,
+          nextRetryAt: now,
+          createdAt: now,
+          updatedAt: now,
+        })),
+      )
+      .onDuplicateKeyUpdate({
+        set: {
+          eventKey: sql`${outboundWebhookDeliveries.eventKey}`,
+        },
+      });
+
+    const rows = await this.db
+      .select({ id: outboundWebhookDeliveries.id })
+      .from(outboundWebhookDeliveries)
+      .where(eq(outboundWebhookDeliveries.eventId, input.eventId));
+
+    return rows.map((row) => row.id);
+  }
+
+  public async listDeliveries(input: {
+    tenantId: string;
+    guildId: string;
+    limit: number;
+  }): Promise<OutboundWebhookDeliveryRecord[]> {
+    const rows = await this.db.query.outboundWebhookDeliveries.findMany({
+      where: and(
+        eq(outboundWebhookDeliveries.tenantId, input.tenantId),
+        eq(outboundWebhookDeliveries.guildId, input.guildId),
+      ),
+      orderBy: [desc(outboundWebhookDeliveries.createdAt), desc(outboundWebhookDeliveries.id)],
+      limit: input.limit,
+    });
+
+    return rows.map(mapDeliveryRow);
+  }
+
+  public async listDueDeliveryIds(input: { now: Date; limit: number }): Promise<string[]> {
+    const rows = await this.db
+      .select({ id: outboundWebhookDeliveries.id })
+      .from(outboundWebhookDeliveries)
+      .where(
+        and(
+          inArray(outboundWebhookDeliveries.status, ['pending', 'failed']),
+          lte(outboundWebhookDeliveries.nextRetryAt, input.now),
+          or(isNull(outboundWebhookDeliveries.leaseExpiresAt), lt(outboundWebhookDeliveries.leaseExpiresAt, input.now)),
+        ),
+      )
+      .orderBy(asc(outboundWebhookDeliveries.nextRetryAt))
+      .limit(input.limit);
+
+    return rows.map((row) => row.id);
+  }
+
+  /** Same lease-by-conditional-update as provider webhook retries, so only one instance sends a delivery. */
+  public async claimDelivery(input: {
+    deliveryId: string;
+    leaseOwner: string;
+    leaseExpiresAt: Date;
+    now: Date;
+  }): Promise<OutboundWebhookDeliveryRecord | null> {
+    const result = await this.db
+      .update(outboundWebhookDeliveries)
+      .set({
+        leaseOwner: input.leaseOwner,
+        leaseExpiresAt: input.leaseExpiresAt,
+        attemptCount: sql`${outboundWebhookDeliveries.attemptCount} + 1`,
+        updatedAt: input.now,
+      })
+      .where(
+        and(
+          eq(outboundWebhookDeliveries.id, input.deliveryId),
+          inArray(outboundWebhookDeliveries.status, ['pending', 'failed']),
+          or(isNull(outboundWebhookDeliveries.leaseExpiresAt), lt(outboundWebhookDeliveries.leaseExpiresAt, input.now)),
+        ),
+      );
+    if (this.getAffectedRowCount(result) === 0) {
+      return null;
+    }
+
+    const row = await this.db.query.outboundWebhookDeliveries.findFirst({
+      where: and(
+        eq(outboundWebhookDeliveries.id, input.deliveryId),
+        eq(outboundWebhookDeliveries.leaseOwner, input.leaseOwner),
+      ),
+    });
+
+    return row ? mapDeliveryRow(row) : null;
+  }
+
+  public async markDeliveryDelivered(input: { deliveryId: string; responseStatus: number }): Promise<void> {
+    const now = new Date();
+    await this.db
+      .update(outboundWebhookDeliveries)
+      .set({
+        status: 'delivered',
+        responseStatus: input.responseStatus,
+        lastError: null,
+        nextRetryAt: null,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        deliveredAt: now,
+        updatedAt: now,
+      })
+      .where(eq(outboundWebhookDeliveries.id, input.deliveryId));
+  }
+
+  /** A `failed` delivery without `nextRetryAt` is never picked up again (used for test events). */
+  public async markDeliveryFailed(input: {
+    deliveryId: string;
+    status: 'failed' | 'dead_letter';
+    responseStatus: number | null;
+    lastError: string;
+    nextRetryAt: Date | null;
+  }): Promise<void> {
+    await this.db
+      .update(outboundWebhookDeliveries)
+      .set({
+        status: input.status,
+        responseStatus: input.responseStatus,
+        lastError: input.lastError.slice(0, 2000),
+        nextRetryAt: input.nextRetryAt,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(outboundWebhookDeliveries.id, input.deliveryId));
+  }
+}
@@ -356,6 +356,27 @@ export class PointsRepository {
     };
   }
 
+  public async sumLedgerDeltaByOrderSessionAndType(input: {
+    tenantId: string;
+    guildId: string;
+    orderSessionId: string;
+    eventType: string;
+  }): Promise<number> {
+    const [row] = await this.db
+      .select({ total: sql<number>`coalesce(sum(${customerPointsLedger.deltaPoints}), 0)` })
+      .from(customerPointsLedger)
+      .where(
+        and(
+          eq(customerPointsLedger.tenantId, input.tenantId),
+          eq(customerPointsLedger.guildId, input.guildId),
+          eq(customerPointsLedger.orderSessionId, input.orderSessionId),
+          eq(customerPointsLedger.eventType, input.eventType),
+        ),
+      );
+
+    return Number(row?.total ?? 0);
+  }
+
   public async insertLedgerEvent(input: {
     tenantId: string;
     guildId: string;
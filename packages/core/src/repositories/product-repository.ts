@@ -1,13 +1,21 @@
-import { and, asc, eq, inArray } from 'drizzle-orm';
+import { and, asc, eq, inArray, isNull, notInArray, or, sql } from 'drizzle-orm';
 import { ulid } from 'ulid';
 
 import type {
+  PriceTierInput,
   ProductFormFieldInput,
   ProductInput,
   ProductVariantInput,
+  RoleRewardInput,
 } from '../domain/types.js';
 import { getDb } from '../infra/db/client.js';
-import { productFormFields, productVariants, products } from '../infra/db/schema/index.js';
+import {
+  orderSessions,
+  productFormFields,
+  productVariants,
+  products,
+  variantDeliverables,
+} from '../infra/db/schema/index.js';
 
 const REQUIRED_EMAIL_FIELD_KEY = 'email';
 const REQUIRED_EMAIL_FIELD_LABEL = 'What is your email?';
@@ -20,6 +28,7 @@ export type ProductAggregate = {
   name: string;
   description: string;
   active: boolean;
+  roleRewards: RoleRewardInput[];
   variants: Array<{
     id: string;
     label: string;
@@ -28,6 +37,14 @@ export type ProductAggregate = {
     currency: string;
     wooProductId: string | null;
     wooCheckoutPath: string | null;
+    stockQuantity: number | null;
+    stockReserved: number;
+    lowStockThreshold: number | null;
+    roleRewards: RoleRewardInput[];
+    billingIntervalDays: number | null;
+    minQuantity: number;
+    maxQuantity: number | null;
+    priceTiers: PriceTierInput[];
   }>;
   formFields: Array<{
     id: string;
@@ -43,6 +60,12 @@ export type ProductAggregate = {
 
 type ProductAggregateField = ProductAggregate['formFields'][number];
 
+/** JSON expressions come back parsed or as text depending on the driver. */
+function readJsonStringArray(value: unknown): string[] {
+  const parsed: unknown = typeof value === 'string' ? JSON.parse(value) : value;
+  return Array.isArray(parsed) ? parsed.filter((entry): entry is string => typeof entry === 'string') : [];
+}
+
 function ensureRequiredEmailField(fields: ProductAggregateField[]): ProductAggregateField[] {
   const sorted = [...fields].sort((a, b) => a.sortOrder - b.sortOrder);
   const existingEmailField = sorted.find(
@@ -75,7 +98,11 @@ export class ProductRepository {
 
   public async listByGuild(input: { tenantId: string; guildId: string }): Promise<ProductAggregate[]> {
     const productRows = await this.db.query.products.findMany({
-      where: and(eq(products.tenantId, input.tenantId), eq(products.guildId, input.guildId)),
+      where: and(
+        eq(products.tenantId, input.tenantId),
+        eq(products.guildId, input.guildId),
+        isNull(products.archivedAt),
+      ),
       orderBy: [asc(products.createdAt)],
     });
 
@@ -100,6 +127,7 @@ export class ProductRepository {
         name: product.name,
         description: product.description,
         active: product.active,
+        roleRewards: product.roleRewards ?? [],
         variants: variants.map((variant) => ({
           id: variant.id,
           label: variant.label,
@@ -108,6 +136,14 @@ export class ProductRepository {
           currency: variant.currency,
           wooProductId: variant.wooProductId,
           wooCheckoutPath: variant.wooCheckoutPath,
+          stockQuantity: variant.stockQuantity ?? null,
+          stockReserved: variant.stockReserved,
+          lowStockThreshold: variant.lowStockThreshold ?? null,
+          roleRewards: variant.roleRewards ?? [],
+          billingIntervalDays: variant.billingIntervalDays ?? null,
+          minQuantity: variant.minQuantity,
+          maxQuantity: variant.maxQuantity ?? null,
+          priceTiers: variant.priceTiers ?? [],
         })),
         formFields: ensureRequiredEmailField(
           fields.map((field) => ({
@@ -127,16 +163,19 @@ export class ProductRepository {
     return output;
   }
 
+  /** Archived products are hidden unless `includeArchived` is set, e.g. when describing an old order. */
   public async getById(input: {
     tenantId: string;
     guildId: string;
     productId: string;
+    includeArchived?: boolean;
   }): Promise<ProductAggregate | null> {
     const product = await this.db.query.products.findFirst({
       where: and(
         eq(products.id, input.productId),
         eq(products.tenantId, input.tenantId),
         eq(products.guildId, input.guildId),
+        input.includeArchived ? undefined : isNull(products.archivedAt),
       ),
     });
 
@@ -162,6 +201,7 @@ export class ProductRepository {
       name: product.name,
       description: product.description,
       active: product.active,
+      roleRewards: product.roleRewards ?? [],
       variants: variants.map((variant) => ({
         id: variant.id,
         label: variant.label,
@@ -170,6 +210,14 @@ export class ProductRepository {
         currency: variant.currency,
         wooProductId: variant.wooProductId,
         wooCheckoutPath: variant.wooCheckoutPath,
+        stockQuantity: variant.stockQuantity ?? null,
+        stockReserved: variant.stockReserved,
+        lowStockThreshold: variant.lowStockThreshold ?? null,
+        roleRewards: variant.roleRewards ?? [],
+        billingIntervalDays: variant.billingIntervalDays ?? null,
+        minQuantity: variant.minQuantity,
+        maxQuantity: variant.maxQuantity ?? null,
+        priceTiers: variant.priceTiers ?? [],
       })),
       formFields: ensureRequiredEmailField(
         fields.map((field) => ({
@@ -203,6 +251,7 @@ export class ProductRepository {
         name: input.product.name,
         description: input.product.description,
         active: input.product.active,
+        roleRewards: input.product.roleRewards ?? [],
       });
 
       if (input.product.variants.length > 0) {
@@ -218,6 +267,13 @@ export class ProductRepository {
             currency: variant.currency,
             wooProductId: variant.wooProductId ?? null,
             wooCheckoutPath: variant.wooCheckoutPath ?? null,
+            stockQuantity: variant.stockQuantity ?? null,
+            lowStockThreshold: variant.lowStockThreshold ?? null,
+            roleRewards: variant.roleRewards ?? [],
+            billingIntervalDays: variant.billingIntervalDays ?? null,
+            minQuantity: variant.minQuantity ?? 1,
+            maxQuantity: variant.maxQuantity ?? null,
+            priceTiers: variant.priceTiers ?? [],
           })),
         );
       }
@@ -268,6 +324,7 @@ export class ProductRepository {
           name: input.product.name,
           description: input.product.description,
           active: input.product.active,
+          roleRewards: input.product.roleRewards ?? [],
           updatedAt: new Date(),
         })
         .where(
@@ -278,11 +335,70 @@ export class ProductRepository {
           ),
         );
 
-      await tx.delete(productVariants).where(eq(productVariants.productId, input.productId));
+      // Variants that come back with their id are updated in place so stock and open reservations survive edits.
+      const existingVariants = await tx
+        .select({ id: productVariants.id })
+        .from(productVariants)
+        .where(eq(productVariants.productId, input.productId));
+      const existingIds = new Set(existingVariants.map((variant) => variant.id));
+      const keptIds: string[] = [];
+      const newVariants: ProductVariantInput[] = [];
+
+      for (const variant of input.product.variants) {
+        if (!variant.id || !existingIds.has(variant.id) || keptIds.includes(variant.id)) {
+          newVariants.push(variant);
+          continue;
+        }
+
+        keptIds.push(variant.id);
+        const stockQuantity = variant.stockQuantity ?? null;
+        const lowStockThreshold = variant.lowStockThreshold ?? null;
+        const stillLow =
+          stockQuantity !== null && lowStockThreshold !== null && stockQuantity <= lowStockThreshold;
+
+        await tx
+          .update(productVariants)
+          .set({
+            label: variant.label,
+            priceMinor: variant.priceMinor,
+            referralRewardMinor: variant.referralRewardMinor ?? 0,
+            currency: variant.currency,
+            wooProductId: variant.wooProductId ?? null,
+            wooCheckoutPath: variant.wooCheckoutPath ?? null,
+            stockQuantity,
+            lowStockThreshold,
+            roleRewards: variant.roleRewards ?? [],
+            billingIntervalDays: variant.billingIntervalDays ?? null,
+            minQuantity: variant.minQuantity ?? 1,
+            maxQuantity: variant.maxQuantity ?? null,
+            priceTiers: variant.priceTiers ?? [],
+            ...(stillLow ? {} : { lowStockAlertedAt: null }),
+            updatedAt: new Date(),
+          })
+          .where(and(eq(productVariants.id, variant.id), eq(productVariants.productId, input.productId)));
+      }
 
-      if (input.product.variants.length > 0) {
+      // Unsold keys of removed price options go with them; delivered ones stay as order history.
+      await tx
+        .delete(variantDeliverables)
+        .where(
+          and(
+            eq(variantDeliverables.productId, input.productId),
+            eq(variantDeliverables.status, 'available'),
+            keptIds.length > 0 ? notInArray(variantDeliverables.variantId, keptIds) : undefined,
+          ),
+        );
+      await tx
+        .delete(productVariants)
+        .where(
+          keptIds.length > 0
+            ? and(eq(productVariants.productId, input.productId), notInArray(productVariants.id, keptIds))
+            : eq(productVariants.productId, input.productId),
+        );
+
+      if (newVariants.length > 0) {
         await tx.insert(productVariants).values(
-          input.product.variants.map((variant: ProductVariantInput) => ({
+          newVariants.map((variant) => ({
             id: ulid(),
             tenantId: input.tenantId,
             guildId: input.guildId,
@@ -293,6 +409,13 @@ export class ProductRepository {
             currency: variant.currency,
             wooProductId: variant.wooProductId ?? null,
             wooCheckoutPath: variant.wooCheckoutPath ?? null,
+            stockQuantity: variant.stockQuantity ?? null,
+            lowStockThreshold: variant.lowStockThreshold ?? null,
+            roleRewards: variant.roleRewards ?? [],
+            billingIntervalDays: variant.billingIntervalDays ?? null,
+            minQuantity: variant.minQuantity ?? 1,
+            maxQuantity: variant.maxQuantity ?? null,
+            priceTiers: variant.priceTiers ?? [],
           })),
         );
       }
@@ -323,6 +446,7 @@ export class ProductRepository {
         eq(products.tenantId, input.tenantId),
         eq(products.guildId, input.guildId),
         eq(products.category, input.category),
+        isNull(products.archivedAt),
       ),
       orderBy: [asc(products.createdAt)],
     });
@@ -340,6 +464,7 @@ export class ProductRepository {
         eq(products.tenantId, input.tenantId),
         eq(products.guildId, input.guildId),
         eq(products.category, input.category),
+        isNull(products.archivedAt),
       ),
       orderBy: [asc(products.createdAt)],
     });
@@ -450,11 +575,15 @@ export class ProductRepository {
     return productIds.length;
   }
 
+  /**
+   * Removes every product in a category. Products that order sessions still reference are archived
+   * instead, like `delete`, and counted separately.
+   */
   public async deleteCategory(input: {
     tenantId: string;
     guildId: string;
     category: string;
-  }): Promise<number> {
+  }): Promise<{ deleted: number; archived: number }> {
     const productIds = await this.listProductIdsByCategory({
       tenantId: input.tenantId,
       guildId: input.guildId,
@@ -462,7 +591,24 @@ export class ProductRepository {
     });
 
     if (productIds.length === 0) {
-      return 0;
+      return { deleted: 0, archived: 0 };
+    }
+
+    const referencedIds = await this.listProductIdsWithOrderSessions({
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+      productIds,
+    });
+    const removableIds = productIds.filter((productId) => !referencedIds.has(productId));
+    if (referencedIds.size > 0) {
+      await this.archive({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        productIds: [...referencedIds],
+      });
+    }
+    if (removableIds.length === 0) {
+      return { deleted: 0, archived: referencedIds.size };
     }
 
     await this.db.transaction(async (tx) => {
@@ -472,7 +618,18 @@ export class ProductRepository {
           and(
             eq(productFormFields.tenantId, input.tenantId),
             eq(productFormFields.guildId, input.guildId),
-            inArray(productFormFields.productId, productIds),
+            inArray(productFormFields.productId, removableIds),
+          ),
+        );
+
+      await tx
+        .delete(variantDeliverables)
+        .where(
+          and(
+            eq(variantDeliverables.tenantId, input.tenantId),
+            eq(variantDeliverables.guildId, input.guildId),
+            inArray(variantDeliverables.productId, removableIds),
+            eq(variantDeliverables.status, 'available'),
           ),
         );
 
@@ -482,7 +639,7 @@ export class ProductRepository {
           and(
             eq(productVariants.tenantId, input.tenantId),
             eq(productVariants.guildId, input.guildId),
-            inArray(productVariants.productId, productIds),
+            inArray(productVariants.productId, removableIds),
           ),
         );
 
@@ -492,21 +649,48 @@ export class ProductRepository {
           and(
             eq(products.tenantId, input.tenantId),
             eq(products.guildId, input.guildId),
-            inArray(products.id, productIds),
+            inArray(products.id, removableIds),
           ),
         );
     });
 
-    return productIds.length;
+    return { deleted: removableIds.length, archived: referencedIds.size };
   }
 
+  /**
+   * Removes a product, or archives it when order sessions still reference it so paid logs, refunds and
+   * open checkouts keep their variants and key pools.
+   */
   public async delete(input: {
     tenantId: string;
     guildId: string;
     productId: string;
-  }): Promise<void> {
+  }): Promise<'deleted' | 'archived'> {
+    const referencedIds = await this.listProductIdsWithOrderSessions({
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+      productIds: [input.productId],
+    });
+    if (referencedIds.size > 0) {
+      await this.archive({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        productIds: [input.productId],
+      });
+      return 'archived';
+    }
+
     await this.db.transaction(async (tx) => {
       await tx.delete(productFormFields).where(eq(productFormFields.productId, input.productId));
+      await tx
+        .delete(variantDeliverables)
+        .where(
+          and(
+            eq(variantDeliverables.productId, input.productId),
+            eq(variantDeliverables.tenantId, input.tenantId),
+            eq(variantDeliverables.status, 'available'),
+          ),
+        );
       await tx.delete(productVariants).where(eq(productVariants.productId, input.productId));
       await tx
         .delete(products)
@@ -518,6 +702,63 @@ export class ProductRepository {
           ),
         );
     });
+
+    return 'deleted';
+  }
+
+  /** Which of `productIds` an order session points at, as its primary product or a basket line, in one query. */
+  public async listProductIdsWithOrderSessions(input: {
+    tenantId: string;
+    guildId: string;
+    productIds: string[];
+  }): Promise<Set<string>> {
+    if (input.productIds.length === 0) {
+      return new Set();
+    }
+
+    const basketProductIds = sql<unknown>`json_extract(${orderSessions.basketItems}, '$[*].productId')`;
+    const rows = await this.db
+      .selectDistinct({ productId: orderSessions.productId, basketProductIds })
+      .from(orderSessions)
+      .where(
+        and(
+          eq(orderSessions.tenantId, input.tenantId),
+          eq(orderSessions.guildId, input.guildId),
+          or(
+            inArray(orderSessions.productId, input.productIds),
+            sql`json_overlaps(${basketProductIds}, cast(${JSON.stringify(input.productIds)} as json))`,
+          ),
+        ),
+      );
+
+    const wanted = new Set(input.productIds);
+    const referenced = new Set<string>();
+    for (const row of rows) {
+      for (const productId of [row.productId, ...readJsonStringArray(row.basketProductIds)]) {
+        if (wanted.has(productId)) {
+          referenced.add(productId);
+        }
+      }
+    }
+
+    return referenced;
+  }
+
+  private async archive(input: { tenantId: string; guildId: string; productIds: string[] }): Promise<void> {
+    await this.db
+      .update(products)
+      .set({
+        active: false,
+        archivedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(products.tenantId, input.tenantId),
+          eq(products.guildId, input.guildId),
+          inArray(products.id, input.productIds),
+        ),
+      );
   }
 
   public async getSensitiveFieldKeys(productId: string): Promise<Set<string>> {
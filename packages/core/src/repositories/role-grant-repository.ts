@@ -0,0 +1,178 @@
+import { and, asc, desc, eq, inArray, isNotNull, lte } from 'drizzle-orm';
+import { ulid } from 'ulid';
+
+import { getDb } from '../infra/db/client.js';
+import { roleGrants } from '../infra/db/schema/index.js';
+
+export type RoleGrantStatus = 'active' | 'expired' | 'failed';
+
+export type RoleGrantRecord = {
+  id: string;
+  tenantId: string;
+  guildId: string;
+  orderSessionId: string;
+  paidOrderId: string;
+  discordUserId: string;
+  roleId: string;
+  status: RoleGrantStatus;
+  grantedAt: Date | null;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  lastError: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+function mapRoleGrantRow(row: typeof roleGrants.$inferSelect): RoleGrantRecord {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    guildId: row.guildId,
+    orderSessionId: row.orderSessionId,
+    paidOrderId: row.paidOrderId,
+    discordUserId: row.discordUserId,
+    roleId: row.roleId,
+    status: row.status,
+    grantedAt: row.grantedAt ?? null,
+    expiresAt: row.expiresAt ?? null,
+    revokedAt: row.revokedAt ?? null,
+    lastError: row.lastError ?? null,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+export class RoleGrantRepository {
+  private readonly db = getDb();
+
+  public async getByOrderSessionRole(input: {
+    orderSessionId: string;
+    roleId: string;
+  }): Promise<RoleGrantRecord | null> {
+    const row = await this.db.query.roleGrants.findFirst({
+      where: and(eq(roleGrants.orderSessionId, input.orderSessionId), eq(roleGrants.roleId, input.roleId)),
+    });
+
+    return row ? mapRoleGrantRow(row) : null;
+  }
+
+  /** One row per order and role; a retried webhook overwrites an earlier failed attempt. */
+  public async recordGrant(input: {
+    tenantId: string;
+    guildId: string;
+    orderSessionId: string;
+    paidOrderId: string;
+    discordUserId: string;
+    roleId: string;
+    status: 'active' | 'failed';
+    grantedAt: Date | null;
+    expiresAt: Date | null;
+    lastError: string | null;
+  }): Promise<void> {
+    await this.db
+      .insert(roleGrants)
+      .values({
+        id: ulid(),
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        orderSessionId: input.orderSessionId,
+        paidOrderId: input.paidOrderId,
+        discordUserId: input.discordUserId,
+        roleId: input.roleId,
+        status: input.status,
+        grantedAt: input.grantedAt,
+        expiresAt: input.expiresAt,
+        lastError: input.lastError,
+      })
+      .onDuplicateKeyUpdate({
+        set: {
+          status: input.status,
+          grantedAt: input.grantedAt,
+          expiresAt: input.expiresAt,
+          lastError: input.lastError,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  public async listDueExpirations(input: { now: Date; limit: number }): Promise<RoleGrantRecord[]> {
+    const rows = await this.db.query.roleGrants.findMany({
+      where: and(
+        eq(roleGrants.status, 'active'),
+        isNotNull(roleGrants.expiresAt),
+        lte(roleGrants.expiresAt, input.now),
+      ),
+      orderBy: [asc(roleGrants.expiresAt)],
+      limit: input.limit,
+    });
+
+    return rows.map(mapRoleGrantRow);
+  }
+
+  public async markExpired(input: { roleGrantId: string; revokedAt: Date }): Promise<void> {
+    await this.db
+      .update(roleGrants)
+      .set({
+        status: 'expired',
+        revokedAt: input.revokedAt,
+        lastError: null,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(roleGrants.id, input.roleGrantId), eq(roleGrants.status, 'active')));
+  }
+
+  /** Closes every active grant of these roles for the member, whichever order gave them. */
+  public async markMemberRolesExpired(input: {
+    tenantId: string;
+    guildId: string;
+    discordUserId: string;
+    roleIds: string[];
+    revokedAt: Date;
+  }): Promise<void> {
+    if (input.roleIds.length === 0) {
+      return;
+    }
+
+    await this.db
+      .update(roleGrants)
+      .set({
+        status: 'expired',
+        revokedAt: input.revokedAt,
+        lastError: null,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(roleGrants.tenantId, input.tenantId),
+          eq(roleGrants.guildId, input.guildId),
+          eq(roleGrants.discordUserId, input.discordUserId),
+          inArray(roleGrants.roleId, input.roleIds),
+          eq(roleGrants.status, 'active'),
+        ),
+      );
+  }
+
+  public async recordRevocationError(input: { roleGrantId: string; lastError: string }): Promise<void> {
+    await this.db
+      .update(roleGrants)
+      .set({
+        lastError: input.lastError,
+        updatedAt: new Date(),
+      })
+      .where(eq(roleGrants.id, input.roleGrantId));
+  }
+
+  public async listByGuild(input: {
+    tenantId: string;
+    guildId: string;
+    limit: number;
+  }): Promise<RoleGrantRecord[]> {
+    const rows = await this.db.query.roleGrants.findMany({
+      where: and(eq(roleGrants.tenantId, input.tenantId), eq(roleGrants.guildId, input.guildId)),
+      orderBy: [desc(roleGrants.createdAt)],
+      limit: input.limit,
+    });
+
+    return rows.map(mapRoleGrantRow);
+  }
+}
@@ -0,0 +1,279 @@
+import { and, eq, gt, inArray, lte, sql } from 'drizzle-orm';
+import { ulid } from 'ulid';
+
+import { getDb } from '../infra/db/client.js';
+import { saleDrafts } from '../infra/db/schema/index.js';
+
+export type SaleDraftRecord = {
+  id: string;
+  kind: string;
+  draftKey: string;
+  tenantId: string;
+  guildId: string;
+  ticketChannelId: string | null;
+  controlChatId: string | null;
+  state: Record<string, unknown>;
+  version: number;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+type SaleDraftWriteInput = {
+  kind: string;
+  draftKey: string;
+  tenantId: string;
+  guildId: string;
+  ticketChannelId?: string | null;
+  controlChatId?: string | null;
+  state: Record<string, unknown>;
+  expiresAt: Date;
+};
+
+function mapSaleDraftRow(row: typeof saleDrafts.$inferSelect): SaleDraftRecord {
+  return {
+    id: row.id,
+    kind: row.kind,
+    draftKey: row.draftKey,
+    tenantId: row.tenantId,
+    guildId: row.guildId,
+    ticketChannelId: row.ticketChannelId ?? null,
+    controlChatId: row.controlChatId ?? null,
+    state: row.state,
+    version: row.version,
+    expiresAt: row.expiresAt,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Durable storage for in-flight sale flow state (baskets, private handoffs, pending prompts).
+ * Rows are keyed by `kind` + `draftKey` so every worker replica sees the same draft, and
+ * `version` is bumped on each write so concurrent clicks cannot silently overwrite each other.
+ */
+export class SaleDraftRepository {
+  private readonly db = getDb();
+
+  private getAffectedRowCount(result: unknown): number {
+    if (typeof result === 'object' && result !== null) {
+      if ('affectedRows' in result && typeof result.affectedRows === 'number') {
+        return result.affectedRows;
+      }
+      if ('rowsAffected' in result && typeof result.rowsAffected === 'number') {
+        return result.rowsAffected;
+      }
+    }
+
+    if (Array.isArray(result) && result.length > 0) {
+      return this.getAffectedRowCount(result[0]);
+    }
+
+    return 0;
+  }
+
+  public async createDraft(input: SaleDraftWriteInput): Promise<SaleDraftRecord> {
+    const now = new Date();
+    // Expired rows are otherwise only removed when read; purging here keeps the table bounded.
+    await this.deleteExpiredDrafts(now);
+
+    const record: SaleDraftRecord = {
+      id: ulid(),
+      kind: input.kind,
+      draftKey: input.draftKey,
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+      ticketChannelId: input.ticketChannelId ?? null,
+      controlChatId: input.controlChatId ?? null,
+      state: input.state,
+      version: 1,
+      expiresAt: input.expiresAt,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.db.insert(saleDrafts).values(record);
+    return record;
+  }
+
+  public async upsertDraft(input: SaleDraftWriteInput): Promise<void> {
+    const now = new Date();
+
+    await this.db
+      .insert(saleDrafts)
+      .values({
+        id: ulid(),
+        kind: input.kind,
+        draftKey: input.draftKey,
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        ticketChannelId: input.ticketChannelId ?? null,
+        controlChatId: input.controlChatId ?? null,
+        state: input.state,
+        version: 1,
+        expiresAt: input.expiresAt,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .onDuplicateKeyUpdate({
+        set: {
+          tenantId: input.tenantId,
+          guildId: input.guildId,
+          ticketChannelId: input.ticketChannelId ?? null,
+          controlChatId: input.controlChatId ?? null,
+          state: input.state,
+          version: sql`${saleDrafts.version} + 1`,
+          expiresAt: input.expiresAt,
+          updatedAt: now,
+        },
+      });
+  }
+
+  public async getDraft(input: {
+    kind: string;
+    draftKey: string;
+    refreshExpiresAt?: Date;
+  }): Promise<SaleDraftRecord | null> {
+    const row = await this.db.query.saleDrafts.findFirst({
+      where: and(eq(saleDrafts.kind, input.kind), eq(saleDrafts.draftKey, input.draftKey)),
+    });
+    if (!row) {
+      return null;
+    }
+
+    if (row.expiresAt.getTime() < Date.now()) {
+      await this.db.delete(saleDrafts).where(eq(saleDrafts.id, row.id));
+      return null;
+    }
+
+    const record = mapSaleDraftRow(row);
+    if (!input.refreshExpiresAt) {
+      return record;
+    }
+
+    await this.db
+      .update(saleDrafts)
+      .set({ expiresAt: input.refreshExpiresAt })
+      .where(eq(saleDrafts.id, row.id));
+
+    return { ...record, expiresAt: input.refreshExpiresAt };
+  }
+
+  public async listDrafts(input: {
+    kind: string;
+    ticketChannelId?: string;
+    controlChatId?: string;
+    refreshExpiresAt?: Date;
+  }): Promise<SaleDraftRecord[]> {
+    const conditions = [eq(saleDrafts.kind, input.kind), gt(saleDrafts.expiresAt, new Date())];
+    if (input.ticketChannelId !== undefined) {
+      conditions.push(eq(saleDrafts.ticketChannelId, input.ticketChannelId));
+    }
+    if (input.controlChatId !== undefined) {
+      conditions.push(eq(saleDrafts.controlChatId, input.controlChatId));
+    }
+
+    const rows = await this.db.query.saleDrafts.findMany({
+      where: and(...conditions),
+    });
+    const records = rows.map(mapSaleDraftRow);
+    if (!input.refreshExpiresAt || records.length === 0) {
+      return records;
+    }
+
+    const refreshExpiresAt = input.refreshExpiresAt;
+    await this.db
+      .update(saleDrafts)
+      .set({ expiresAt: refreshExpiresAt })
+      .where(
+        inArray(
+          saleDrafts.id,
+          records.map((record) => record.id),
+        ),
+      );
+
+    return records.map((record) => ({ ...record, expiresAt: refreshExpiresAt }));
+  }
+
+  /**
+   * Writes the draft only if nobody else saved it since `expectedVersion` was read.
+   * Returns the new version, or `null` when the draft changed underneath or no longer exists.
+   */
+  public async updateDraft(input: {
+    kind: string;
+    draftKey: string;
+    expectedVersion: number;
+    ticketChannelId?: string | null;
+    controlChatId?: string | null;
+    state: Record<string, unknown>;
+    expiresAt: Date;
+  }): Promise<number | null> {
+    const result = await this.db
+      .update(saleDrafts)
+      .set({
+        ticketChannelId: input.ticketChannelId ?? null,
+        controlChatId: input.controlChatId ?? null,
+        state: input.state,
+        version: sql`${saleDrafts.version} + 1`,
+        expiresAt: input.expiresAt,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(saleDrafts.kind, input.kind),
+          eq(saleDrafts.draftKey, input.draftKey),
+          eq(saleDrafts.version, input.expectedVersion),
+        ),
+      );
+
+    if (this.getAffectedRowCount(result) === 0) {
+      return null;
+    }
+
+    return input.expectedVersion + 1;
+  }
+
+  /**
+   * Removes the draft only if nobody else saved or removed it since `expectedVersion` was read.
+   * Used to claim a draft for checkout: exactly one caller gets `true` for a given version.
+   */
+  public async deleteDraftAtVersion(input: {
+    kind: string;
+    draftKey: string;
+    expectedVersion: number;
+  }): Promise<boolean> {
+    const result = await this.db
+      .delete(saleDrafts)
+      .where(
+        and(
+          eq(saleDrafts.kind, input.kind),
+          eq(saleDrafts.draftKey, input.draftKey),
+          eq(saleDrafts.version, input.expectedVersion),
+        ),
+      );
+
+    return this.getAffectedRowCount(result) > 0;
+  }
+
+  public async deleteDraft(input: { kind: string; draftKey: string }): Promise<void> {
+    await this.db
+      .delete(saleDrafts)
+      .where(and(eq(saleDrafts.kind, input.kind), eq(saleDrafts.draftKey, input.draftKey)));
+  }
+
+  public async deleteDraftsForTicketChannel(input: {
+    kind: string;
+    ticketChannelId: string;
+  }): Promise<void> {
+    await this.db
+      .delete(saleDrafts)
+      .where(
+        and(eq(saleDrafts.kind, input.kind), eq(saleDrafts.ticketChannelId, input.ticketChannelId)),
+      );
+  }
+
+  public async deleteExpiredDrafts(now: Date): Promise<number> {
+    const result = await this.db.delete(saleDrafts).where(lte(saleDrafts.expiresAt, now));
+    return this.getAffectedRowCount(result);
+  }
+}
@@ -0,0 +1,140 @@
+import { and, asc, eq } from 'drizzle-orm';
+import { ulid } from 'ulid';
+
+import { getDb } from '../infra/db/client.js';
+import { storefrontPanels } from '../infra/db/schema/index.js';
+
+export type StorefrontPanelRecord = {
+  id: string;
+  tenantId: string;
+  guildId: string;
+  channelId: string;
+  messageId: string;
+  /** Category new tickets from this panel are created in, or `null` when the panel cannot open tickets. */
+  ticketCategoryId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+function mapStorefrontPanelRow(row: typeof storefrontPanels.$inferSelect): StorefrontPanelRecord {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    guildId: row.guildId,
+    channelId: row.channelId,
+    messageId: row.messageId,
+    ticketCategoryId: row.ticketCategoryId ?? null,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+export class StorefrontPanelRepository {
+  private readonly db = getDb();
+
+  public async listByGuild(input: { tenantId: string; guildId: string }): Promise<StorefrontPanelRecord[]> {
+    const rows = await this.db.query.storefrontPanels.findMany({
+      where: and(eq(storefrontPanels.tenantId, input.tenantId), eq(storefrontPanels.guildId, input.guildId)),
+      orderBy: [asc(storefrontPanels.createdAt)],
+    });
+
+    return rows.map(mapStorefrontPanelRow);
+  }
+
+  public async getById(input: { tenantId: string; panelId: string }): Promise<StorefrontPanelRecord | null> {
+    const row = await this.db.query.storefrontPanels.findFirst({
+      where: and(eq(storefrontPanels.tenantId, input.tenantId), eq(storefrontPanels.id, input.panelId)),
+    });
+
+    return row ? mapStorefrontPanelRow(row) : null;
+  }
+
+  public async getByMessageId(input: { tenantId: string; messageId: string }): Promise<StorefrontPanelRecord | null> {
+    const row = await this.db.query.storefrontPanels.findFirst({
+      where: and(eq(storefrontPanels.tenantId, input.tenantId), eq(storefrontPanels.messageId, input.messageId)),
+    });
+
+    return row ? mapStorefrontPanelRow(row) : null;
+  }
+
+  /**
+   * One panel per channel: posting again in the same channel repoints the row at the new message.
+   * Returns the stored panel and the message it replaced, if any.
+   */
+  public async upsert(input: {
+    tenantId: string;
+    guildId: string;
+    channelId: string;
+    messageId: string;
+    ticketCategoryId: string | null;
+  }): Promise<{ panel: StorefrontPanelRecord; replacedMessageId: string | null }> {
+    const existing = await this.db.query.storefrontPanels.findFirst({
+      where: and(
+        eq(storefrontPanels.tenantId, input.tenantId),
+        eq(storefrontPanels.guildId, input.guildId),
+        eq(storefrontPanels.channelId, input.channelId),
+      ),
+    });
+
+    const now = new Date();
+    if (existing) {
+      await this.db
+        .update(storefrontPanels)
+        .set({
+          messageId: input.messageId,
+          ticketCategoryId: input.ticketCategoryId,
+          updatedAt: now,
+        })
+        .where(eq(storefrontPanels.id, existing.id));
+
+      return {
+        panel: mapStorefrontPanelRow({
+          ...existing,
+          messageId: input.messageId,
+          ticketCategoryId: input.ticketCategoryId,
+          updatedAt: now,
+        }),
+        replacedMessageId: existing.messageId === input.messageId ? null : existing.messageId,
+      };
+    }
+
+    const id = ulid();
+    await this.db.insert(storefrontPanels).values({
+      id,
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+      channelId: input.channelId,
+      messageId: input.messageId,
+      ticketCategoryId: input.ticketCategoryId,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return {
+      panel: {
+        id,
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        channelId: input.channelId,
+        messageId: input.messageId,
+        ticketCategoryId: input.ticketCategoryId,
+        createdAt: now,
+        updatedAt: now,
+      },
+      replacedMessageId: null,
+    };
+  }
+
+  public async touch(input: { tenantId: string; panelId: string }): Promise<void> {
+    await this.db
+      .update(storefrontPanels)
+      .set({ updatedAt: new Date() })
+      .where(and(eq(storefrontPanels.tenantId, input.tenantId), eq(storefrontPanels.id, input.panelId)));
+  }
+
+  public async delete(input: { tenantId: string; panelId: string }): Promise<void> {
+    await this.db
+      .delete(storefrontPanels)
+      .where(and(eq(storefrontPanels.tenantId, input.tenantId), eq(storefrontPanels.id, input.panelId)));
+  }
+}
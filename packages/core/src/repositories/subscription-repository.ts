@@ -0,0 +1,249 @@
+import { and, asc, desc, eq, inArray, isNull, lte } from 'drizzle-orm';
+import { ulid } from 'ulid';
+
+import { getDb } from '../infra/db/client.js';
+import { subscriptions } from '../infra/db/schema/index.js';
+
+export type SubscriptionStatus = 'active' | 'grace' | 'lapsed';
+
+export type SubscriptionRecord = {
+  id: string;
+  tenantId: string;
+  guildId: string;
+  customerDiscordId: string;
+  productId: string;
+  variantId: string;
+  productName: string;
+  variantLabel: string;
+  billingIntervalDays: number;
+  roleIds: string[];
+  status: SubscriptionStatus;
+  sourceOrderSessionId: string;
+  lastPaidOrderSessionId: string;
+  currentPeriodEnd: Date;
+  reminderDueAt: Date;
+  graceEndsAt: Date;
+  reminderSentAt: Date | null;
+  renewalOrderSessionId: string | null;
+  lapsedAt: Date | null;
+  lastError: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+function mapSubscriptionRow(row: typeof subscriptions.$inferSelect): SubscriptionRecord {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    guildId: row.guildId,
+    customerDiscordId: row.customerDiscordId,
+    productId: row.productId,
+    variantId: row.variantId,
+    productName: row.productName,
+    variantLabel: row.variantLabel,
+    billingIntervalDays: row.billingIntervalDays,
+    roleIds: row.roleIds ?? [],
+    status: row.status,
+    sourceOrderSessionId: row.sourceOrderSessionId,
+    lastPaidOrderSessionId: row.lastPaidOrderSessionId,
+    currentPeriodEnd: row.currentPeriodEnd,
+    reminderDueAt: row.reminderDueAt,
+    graceEndsAt: row.graceEndsAt,
+    reminderSentAt: row.reminderSentAt ?? null,
+    renewalOrderSessionId: row.renewalOrderSessionId ?? null,
+    lapsedAt: row.lapsedAt ?? null,
+    lastError: row.lastError ?? null,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+export class SubscriptionRepository {
+  private readonly db = getDb();
+
+  public async getById(subscriptionId: string): Promise<SubscriptionRecord | null> {
+    const row = await this.db.query.subscriptions.findFirst({
+      where: eq(subscriptions.id, subscriptionId),
+    });
+
+    return row ? mapSubscriptionRow(row) : null;
+  }
+
+  public async getBySourceOrderVariant(input: {
+    sourceOrderSessionId: string;
+    variantId: string;
+  }): Promise<SubscriptionRecord | null> {
+    const row = await this.db.query.subscriptions.findFirst({
+      where: and(
+        eq(subscriptions.sourceOrderSessionId, input.sourceOrderSessionId),
+        eq(subscriptions.variantId, input.variantId),
+      ),
+    });
+
+    return row ? mapSubscriptionRow(row) : null;
+  }
+
+  /** The customer's running subscription to a price option, so a repeat purchase extends it. */
+  public async getCurrentByCustomerVariant(input: {
+    tenantId: string;
+    guildId: string;
+    customerDiscordId: string;
+    variantId: string;
+  }): Promise<SubscriptionRecord | null> {
+    const row = await this.db.query.subscriptions.findFirst({
+      where: and(
+        eq(subscriptions.tenantId, input.tenantId),
+        eq(subscriptions.guildId, input.guildId),
+        eq(subscriptions.customerDiscordId, input.customerDiscordId),
+        eq(subscriptions.variantId, input.variantId),
+        inArray(subscriptions.status, ['active', 'grace']),
+      ),
+      orderBy: [desc(subscriptions.currentPeriodEnd)],
+    });
+
+    return row ? mapSubscriptionRow(row) : null;
+  }
+
+  public async create(input: {
+    tenantId: string;
+    guildId: string;
+    customerDiscordId: string;
+    productId: string;
+    variantId: string;
+    productName: string;
+    variantLabel: string;
+    billingIntervalDays: number;
+    roleIds: string[];
+    sourceOrderSessionId: string;
+    currentPeriodEnd: Date;
+    reminderDueAt: Date;
+    graceEndsAt: Date;
+  }): Promise<SubscriptionRecord> {
+    const now = new Date();
+    const record: SubscriptionRecord = {
+      id: ulid(),
+      ...input,
+      status: 'active',
+      lastPaidOrderSessionId: input.sourceOrderSessionId,
+      reminderSentAt: null,
+      renewalOrderSessionId: null,
+      lapsedAt: null,
+      lastError: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.db.insert(subscriptions).values(record);
+    return record;
+  }
+
+  /** Starts the next paid period and clears the previous period's reminder and renewal checkout. */
+  public async recordRenewal(input: {
+    subscriptionId: string;
+    paidOrderSessionId: string;
+    roleIds: string[];
+    currentPeriodEnd: Date;
+    reminderDueAt: Date;
+    graceEndsAt: Date;
+  }): Promise<void> {
+    await this.db
+      .update(subscriptions)
+      .set({
+        status: 'active',
+        lastPaidOrderSessionId: input.paidOrderSessionId,
+        roleIds: input.roleIds,
+        currentPeriodEnd: input.currentPeriodEnd,
+        reminderDueAt: input.reminderDueAt,
+        graceEndsAt: input.graceEndsAt,
+        reminderSentAt: null,
+        renewalOrderSessionId: null,
+        lapsedAt: null,
+        lastError: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(subscriptions.id, input.subscriptionId));
+  }
+
+  public async listDueReminders(input: { now: Date; limit: number }): Promise<SubscriptionRecord[]> {
+    const rows = await this.db.query.subscriptions.findMany({
+      where: and(
+        inArray(subscriptions.status, ['active', 'grace']),
+        isNull(subscriptions.reminderSentAt),
+        lte(subscriptions.reminderDueAt, input.now),
+      ),
+      orderBy: [asc(subscriptions.reminderDueAt)],
+      limit: input.limit,
+    });
+
+    return rows.map(mapSubscriptionRow);
+  }
+
+  public async markReminderSent(input: {
+    subscriptionId: string;
+    renewalOrderSessionId: string;
+    sentAt: Date;
+    lastError: string | null;
+  }): Promise<void> {
+    await this.db
+      .update(subscriptions)
+      .set({
+        reminderSentAt: input.sentAt,
+        renewalOrderSessionId: input.renewalOrderSessionId,
+        lastError: input.lastError,
+        updatedAt: new Date(),
+      })
+      .where(eq(subscriptions.id, input.subscriptionId));
+  }
+
+  public async listEndedPeriods(input: { now: Date; limit: number }): Promise<SubscriptionRecord[]> {
+    const rows = await this.db.query.subscriptions.findMany({
+      where: and(eq(subscriptions.status, 'active'), lte(subscriptions.currentPeriodEnd, input.now)),
+      orderBy: [asc(subscriptions.currentPeriodEnd)],
+      limit: input.limit,
+    });
+
+    return rows.map(mapSubscriptionRow);
+  }
+
+  public async markGrace(subscriptionId: string): Promise<void> {
+    await this.db
+      .update(subscriptions)
+      .set({
+        status: 'grace',
+        updatedAt: new Date(),
+      })
+      .where(and(eq(subscriptions.id, subscriptionId), eq(subscriptions.status, 'active')));
+  }
+
+  public async listDueLapses(input: { now: Date; limit: number }): Promise<SubscriptionRecord[]> {
+    const rows = await this.db.query.subscriptions.findMany({
+      where: and(inArray(subscriptions.status, ['active', 'grace']), lte(subscriptions.graceEndsAt, input.now)),
+      orderBy: [asc(subscriptions.graceEndsAt)],
+      limit: input.limit,
+    });
+
+    return rows.map(mapSubscriptionRow);
+  }
+
+  public async markLapsed(input: { subscriptionId: string; lapsedAt: Date }): Promise<void> {
+    await this.db
+      .update(subscriptions)
+      .set({
+        status: 'lapsed',
+        lapsedAt: input.lapsedAt,
+        lastError: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(subscriptions.id, input.subscriptionId));
+  }
+
+  public async recordError(input: { subscriptionId: string; lastError: string }): Promise<void> {
+    await this.db
+      .update(subscriptions)
+      .set({
+        lastError: input.lastError,
+        updatedAt: new Date(),
+      })
+      .where(eq(subscriptions.id, input.subscriptionId));
+  }
+}
@@ -4,35 +4,48 @@ import { ulid } from 'ulid';
 import { getDb } from '../infra/db/client.js';
 import {
   auditLogs,
+  automaticDiscounts,
   channelNukeAuthorizedUsers,
   channelNukeRuns,
   channelNukeSchedules,
+  couponRedemptions,
   customerPointsAccounts,
   customerPointsLedger,
   customerFirstPaidOrders,
   discountCoupons,
   guildConfigs,
+  guildExchangeRates,
   joinGateAuthorizedUsers,
   orderNotesCache,
   orderSessions,
   ordersPaid,
+  outboundWebhookDeliveries,
+  outboundWebhookEndpoints,
   productFormFields,
   products,
   productVariants,
   joinGateEmailIndex,
   joinGateMembers,
   referralClaims,
+  roleGrants,
+  saleDrafts,
+  storefrontPanels,
+  subscriptions,
   telegramChatLinks,
+  tenantApiKeys,
   tenantGuilds,
+  tenantIntegrationsStripe,
   tenantIntegrationsVoodooPay,
   tenantIntegrationsWoo,
   tenantMembers,
   tenants,
   ticketChannelMetadata,
   users,
+  variantDeliverables,
   webhookEvents,
 } from '../infra/db/schema/index.js';
 import type { SalesHistoryAutoClearFrequency } from '../services/sales-history-schedule.js';
+import { DEFAULT_CURRENCY } from '../utils/currency.js';
 
 export type TenantRecord = {
   id: string;
@@ -56,6 +69,7 @@ export type GuildConfigRecord = {
   tenantId: string;
   guildId: string;
   paidLogChannelId: string | null;
+  lowStockAlertChannelId: string | null;
   staffRoleIds: string[];
   defaultCurrency: string;
   couponsEnabled: boolean;
@@ -63,6 +77,15 @@ export type GuildConfigRecord = {
   referralsEnabled: boolean;
   telegramEnabled: boolean;
   tipEnabled: boolean;
+  checkoutExpiryMinutes: number;
+  subscriptionReminderDays: number;
+  subscriptionGraceDays: number;
+  invoiceStoreName: string;
+  invoiceStoreDetails: string;
+  invoiceTaxRateBps: number;
+  /** Bank transfer or gift card instructions; empty when manual payments are off. */
+  manualPaymentInstructions: string;
+  selfServiceEnabled: boolean;
   pointsEarnCategoryKeys: string[];
   pointsRedeemCategoryKeys: string[];
   pointValueMinor: number;
@@ -99,6 +122,7 @@ function mapGuildConfigRow(row: typeof guildConfigs.$inferSelect): GuildConfigRe
     tenantId: row.tenantId,
     guildId: row.guildId,
     paidLogChannelId: row.paidLogChannelId,
+    lowStockAlertChannelId: row.lowStockAlertChannelId ?? null,
     staffRoleIds: row.staffRoleIds,
     defaultCurrency: row.defaultCurrency,
     couponsEnabled: row.couponsEnabled,
@@ -106,6 +130,14 @@ function mapGuildConfigRow(row: typeof guildConfigs.$inferSelect): GuildConfigRe
     referralsEnabled: row.referralsEnabled,
     telegramEnabled: row.telegramEnabled,
     tipEnabled: row.tipEnabled,
+    checkoutExpiryMinutes: row.checkoutExpiryMinutes,
+    subscriptionReminderDays: row.subscriptionReminderDays,
+    subscriptionGraceDays: row.subscriptionGraceDays,
+    invoiceStoreName: row.invoiceStoreName,
+    invoiceStoreDetails: row.invoiceStoreDetails,
+    invoiceTaxRateBps: row.invoiceTaxRateBps,
+    manualPaymentInstructions: row.manualPaymentInstructions,
+    selfServiceEnabled: row.selfServiceEnabled,
     pointsEarnCategoryKeys: row.pointsEarnCategoryKeys,
     pointsRedeemCategoryKeys: row.pointsRedeemCategoryKeys,
     pointValueMinor: row.pointValueMinor,
@@ -364,13 +396,22 @@ export class TenantRepository {
           tenantId: input.tenantId,
           guildId: input.guildId,
           paidLogChannelId: null,
+          lowStockAlertChannelId: null,
           staffRoleIds: [],
-          defaultCurrency: 'GBP',
+          defaultCurrency: DEFAULT_CURRENCY,
           couponsEnabled: true,
           pointsEnabled: true,
           referralsEnabled: true,
           telegramEnabled: false,
           tipEnabled: false,
+          checkoutExpiryMinutes: 30,
+          subscriptionReminderDays: 3,
+          subscriptionGraceDays: 3,
+          invoiceStoreName: '',
+          invoiceStoreDetails: '',
+          invoiceTaxRateBps: 0,
+          manualPaymentInstructions: '',
+          selfServiceEnabled: false,
           pointsEarnCategoryKeys: [],
           pointsRedeemCategoryKeys: [],
           pointValueMinor: 1,
@@ -378,7 +419,7 @@ export class TenantRepository {
           referralRewardCategoryKeys: [],
           referralLogChannelId: null,
           referralThankYouTemplate:
-            'Thanks for your referral. You earned {points} point(s) ({amount_gbp} GBP) after {referred_email} paid.',
+            'Thanks for your referral. You earned {points} point(s) ({amount} {currency}) after {referred_email} paid.',
           referralSubmissionTemplate:
             'Referral submitted successfully. We will reward points automatically after the first paid order.',
           ticketMetadataKey: 'isTicket',
@@ -480,6 +521,7 @@ export class TenantRepository {
     tenantId: string;
     guildId: string;
     paidLogChannelId: string | null;
+    lowStockAlertChannelId?: string | null;
     staffRoleIds: string[];
     defaultCurrency: string;
     couponsEnabled: boolean;
@@ -487,6 +529,14 @@ export class TenantRepository {
     referralsEnabled: boolean;
     telegramEnabled: boolean;
     tipEnabled: boolean;
+    checkoutExpiryMinutes?: number;
+    subscriptionReminderDays?: number;
+    subscriptionGraceDays?: number;
+    invoiceStoreName?: string;
+    invoiceStoreDetails?: string;
+    invoiceTaxRateBps?: number;
+    manualPaymentInstructions?: string;
+    selfServiceEnabled?: boolean;
     pointsEarnCategoryKeys: string[];
     pointsRedeemCategoryKeys: string[];
     pointValueMinor: number;
@@ -521,6 +571,16 @@ export class TenantRepository {
     });
 
     if (existing) {
+      const checkoutExpiryMinutes = input.checkoutExpiryMinutes ?? existing.checkoutExpiryMinutes;
+      const subscriptionReminderDays = input.subscriptionReminderDays ?? existing.subscriptionReminderDays;
+      const subscriptionGraceDays = input.subscriptionGraceDays ?? existing.subscriptionGraceDays;
+      const invoiceStoreName = input.invoiceStoreName ?? existing.invoiceStoreName;
+      const invoiceStoreDetails = input.invoiceStoreDetails ?? existing.invoiceStoreDetails;
+      const invoiceTaxRateBps = input.invoiceTaxRateBps ?? existing.invoiceTaxRateBps;
+      const manualPaymentInstructions = input.manualPaymentInstructions ?? existing.manualPaymentInstructions;
+      const selfServiceEnabled = input.selfServiceEnabled ?? existing.selfServiceEnabled;
+      const lowStockAlertChannelId =
+        input.lowStockAlertChannelId !== undefined ? input.lowStockAlertChannelId : existing.lowStockAlertChannelId;
       const joinGateEnabled =
         input.joinGateEnabled !== undefined ? input.joinGateEnabled : existing.joinGateEnabled;
       const joinGateStaffRoleIds =
@@ -552,6 +612,7 @@ export class TenantRepository {
         .update(guildConfigs)
         .set({
           paidLogChannelId: input.paidLogChannelId,
+          lowStockAlertChannelId,
           staffRoleIds: input.staffRoleIds,
           defaultCurrency: input.defaultCurrency,
           couponsEnabled: input.couponsEnabled,
@@ -559,6 +620,14 @@ export class TenantRepository {
           referralsEnabled: input.referralsEnabled,
           telegramEnabled: input.telegramEnabled,
           tipEnabled: input.tipEnabled,
+          checkoutExpiryMinutes,
+          subscriptionReminderDays,
+          subscriptionGraceDays,
+          invoiceStoreName,
+          invoiceStoreDetails,
+          invoiceTaxRateBps,
+          manualPaymentInstructions,
+          selfServiceEnabled,
           pointsEarnCategoryKeys: input.pointsEarnCategoryKeys,
           pointsRedeemCategoryKeys: input.pointsRedeemCategoryKeys,
           pointValueMinor: input.pointValueMinor,
@@ -606,6 +675,7 @@ export class TenantRepository {
         tenantId: input.tenantId,
         guildId: input.guildId,
         paidLogChannelId: input.paidLogChannelId,
+        lowStockAlertChannelId: input.lowStockAlertChannelId ?? null,
         staffRoleIds: input.staffRoleIds,
         defaultCurrency: input.defaultCurrency,
         couponsEnabled: input.couponsEnabled,
@@ -613,6 +683,14 @@ export class TenantRepository {
         referralsEnabled: input.referralsEnabled,
         telegramEnabled: input.telegramEnabled,
         tipEnabled: input.tipEnabled,
+        checkoutExpiryMinutes: input.checkoutExpiryMinutes ?? 30,
+        subscriptionReminderDays: input.subscriptionReminderDays ?? 3,
+        subscriptionGraceDays: input.subscriptionGraceDays ?? 3,
+        invoiceStoreName: input.invoiceStoreName ?? '',
+        invoiceStoreDetails: input.invoiceStoreDetails ?? '',
+        invoiceTaxRateBps: input.invoiceTaxRateBps ?? 0,
+        manualPaymentInstructions: input.manualPaymentInstructions ?? '',
+        selfServiceEnabled: input.selfServiceEnabled ?? false,
         pointsEarnCategoryKeys: input.pointsEarnCategoryKeys,
         pointsRedeemCategoryKeys: input.pointsRedeemCategoryKeys,
         pointValueMinor: input.pointValueMinor,
@@ -662,25 +740,37 @@ export class TenantRepository {
       await tx.delete(orderNotesCache).where(eq(orderNotesCache.tenantId, input.tenantId));
       await tx.delete(ordersPaid).where(eq(ordersPaid.tenantId, input.tenantId));
       await tx.delete(webhookEvents).where(eq(webhookEvents.tenantId, input.tenantId));
+      await tx.delete(outboundWebhookDeliveries).where(eq(outboundWebhookDeliveries.tenantId, input.tenantId));
+      await tx.delete(outboundWebhookEndpoints).where(eq(outboundWebhookEndpoints.tenantId, input.tenantId));
+      await tx.delete(roleGrants).where(eq(roleGrants.tenantId, input.tenantId));
+      await tx.delete(subscriptions).where(eq(subscriptions.tenantId, input.tenantId));
       await tx.delete(orderSessions).where(eq(orderSessions.tenantId, input.tenantId));
       await tx.delete(joinGateEmailIndex).where(eq(joinGateEmailIndex.tenantId, input.tenantId));
       await tx.delete(joinGateMembers).where(eq(joinGateMembers.tenantId, input.tenantId));
       await tx.delete(ticketChannelMetadata).where(eq(ticketChannelMetadata.tenantId, input.tenantId));
+      await tx.delete(storefrontPanels).where(eq(storefrontPanels.tenantId, input.tenantId));
+      await tx.delete(saleDrafts).where(eq(saleDrafts.tenantId, input.tenantId));
 
       await tx.delete(productFormFields).where(eq(productFormFields.tenantId, input.tenantId));
+      await tx.delete(variantDeliverables).where(eq(variantDeliverables.tenantId, input.tenantId));
       await tx.delete(productVariants).where(eq(productVariants.tenantId, input.tenantId));
       await tx.delete(products).where(eq(products.tenantId, input.tenantId));
+      await tx.delete(couponRedemptions).where(eq(couponRedemptions.tenantId, input.tenantId));
       await tx.delete(discountCoupons).where(eq(discountCoupons.tenantId, input.tenantId));
+      await tx.delete(automaticDiscounts).where(eq(automaticDiscounts.tenantId, input.tenantId));
 
       await tx
         .delete(tenantIntegrationsVoodooPay)
         .where(eq(tenantIntegrationsVoodooPay.tenantId, input.tenantId));
       await tx.delete(tenantIntegrationsWoo).where(eq(tenantIntegrationsWoo.tenantId, input.tenantId));
+      await tx.delete(tenantIntegrationsStripe).where(eq(tenantIntegrationsStripe.tenantId, input.tenantId));
 
+      await tx.delete(guildExchangeRates).where(eq(guildExchangeRates.tenantId, input.tenantId));
       await tx.delete(guildConfigs).where(eq(guildConfigs.tenantId, input.tenantId));
       await tx.delete(telegramChatLinks).where(eq(telegramChatLinks.tenantId, input.tenantId));
       await tx.delete(tenantGuilds).where(eq(tenantGuilds.tenantId, input.tenantId));
       await tx.delete(tenantMembers).where(eq(tenantMembers.tenantId, input.tenantId));
+      await tx.delete(tenantApiKeys).where(eq(tenantApiKeys.tenantId, input.tenantId));
       await tx.delete(auditLogs).where(eq(auditLogs.tenantId, input.tenantId));
       await tx.delete(tenants).where(eq(tenants.id, input.tenantId));
     });
@@ -703,12 +793,28 @@ export class TenantRepository {
       await tx
         .delete(webhookEvents)
         .where(and(eq(webhookEvents.tenantId, input.tenantId), eq(webhookEvents.guildId, input.guildId)));
+      await tx
+        .delete(outboundWebhookDeliveries)
+        .where(
+          and(eq(outboundWebhookDeliveries.tenantId, input.tenantId), eq(outboundWebhookDeliveries.guildId, input.guildId)),
+        );
+      await tx
+        .delete(outboundWebhookEndpoints)
+        .where(
+          and(eq(outboundWebhookEndpoints.tenantId, input.tenantId), eq(outboundWebhookEndpoints.guildId, input.guildId)),
+        );
       await tx
         .delete(customerPointsLedger)
         .where(and(eq(customerPointsLedger.tenantId, input.tenantId), eq(customerPointsLedger.guildId, input.guildId)));
       await tx
         .delete(customerPointsAccounts)
         .where(and(eq(customerPointsAccounts.tenantId, input.tenantId), eq(customerPointsAccounts.guildId, input.guildId)));
+      await tx
+        .delete(roleGrants)
+        .where(and(eq(roleGrants.tenantId, input.tenantId), eq(roleGrants.guildId, input.guildId)));
+      await tx
+        .delete(subscriptions)
+        .where(and(eq(subscriptions.tenantId, input.tenantId), eq(subscriptions.guildId, input.guildId)));
       await tx
         .delete(orderSessions)
         .where(and(eq(orderSessions.tenantId, input.tenantId), eq(orderSessions.guildId, input.guildId)));
@@ -737,17 +843,32 @@ export class TenantRepository {
       await tx
         .delete(ticketChannelMetadata)
         .where(and(eq(ticketChannelMetadata.tenantId, input.tenantId), eq(ticketChannelMetadata.guildId, input.guildId)));
+      await tx
+        .delete(storefrontPanels)
+        .where(and(eq(storefrontPanels.tenantId, input.tenantId), eq(storefrontPanels.guildId, input.guildId)));
+      await tx
+        .delete(saleDrafts)
+        .where(and(eq(saleDrafts.tenantId, input.tenantId), eq(saleDrafts.guildId, input.guildId)));
 
       await tx
         .delete(productFormFields)
         .where(and(eq(productFormFields.tenantId, input.tenantId), eq(productFormFields.guildId, input.guildId)));
+      await tx
+        .delete(variantDeliverables)
+        .where(and(eq(variantDeliverables.tenantId, input.tenantId), eq(variantDeliverables.guildId, input.guildId)));
       await tx
         .delete(productVariants)
         .where(and(eq(productVariants.tenantId, input.tenantId), eq(productVariants.guildId, input.guildId)));
       await tx.delete(products).where(and(eq(products.tenantId, input.tenantId), eq(products.guildId, input.guildId)));
+      await tx
+        .delete(couponRedemptions)
+        .where(and(eq(couponRedemptions.tenantId, input.tenantId), eq(couponRedemptions.guildId, input.guildId)));
       await tx
         .delete(discountCoupons)
         .where(and(eq(discountCoupons.tenantId, input.tenantId), eq(discountCoupons.guildId, input.guildId)));
+      await tx
+        .delete(automaticDiscounts)
+        .where(and(eq(automaticDiscounts.tenantId, input.tenantId), eq(automaticDiscounts.guildId, input.guildId)));
 
       await tx
         .delete(tenantIntegrationsVoodooPay)
@@ -757,7 +878,15 @@ export class TenantRepository {
       await tx
         .delete(tenantIntegrationsWoo)
         .where(and(eq(tenantIntegrationsWoo.tenantId, input.tenantId), eq(tenantIntegrationsWoo.guildId, input.guildId)));
+      await tx
+        .delete(tenantIntegrationsStripe)
+        .where(
+          and(eq(tenantIntegrationsStripe.tenantId, input.tenantId), eq(tenantIntegrationsStripe.guildId, input.guildId)),
+        );
 
+      await tx
+        .delete(guildExchangeRates)
+        .where(and(eq(guildExchangeRates.tenantId, input.tenantId), eq(guildExchangeRates.guildId, input.guildId)));
       await tx
         .delete(guildConfigs)
         .where(and(eq(guildConfigs.tenantId, input.tenantId), eq(guildConfigs.guildId, input.guildId)));
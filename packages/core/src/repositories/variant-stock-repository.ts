@@ -0,0 +1,235 @@
+import { and, eq, inArray, isNotNull, isNull, sql } from 'drizzle-orm';
+
+import { getDb } from '../infra/db/client.js';
+import { orderSessions, productVariants } from '../infra/db/schema/index.js';
+import type { StockDemand } from '../services/variant-stock.js';
+import type { OrderSessionStockReservationState } from './order-repository.js';
+
+export type VariantStockRecord = {
+  variantId: string;
+  productId: string;
+  label: string;
+  stockQuantity: number | null;
+  stockReserved: number;
+  lowStockThreshold: number | null;
+  lowStockAlertedAt: Date | null;
+};
+
+export type StockReservationResult =
+  | { ok: true; reserved: StockDemand[] }
+  | { ok: false; variantId: string };
+
+/**
+ * `release` gives held units back, `consume` sells held units, and `deduct` sells units that were
+ * not held (a payment that lands after its reservation was released).
+ */
+export type StockSettlement = 'release' | 'consume' | 'deduct';
+
+type StockWriter = Pick<ReturnType<typeof getDb>, 'update'>;
+
+export class VariantStockRepository {
+  private readonly db = getDb();
+
+  private getAffectedRowCount(result: unknown): number {
+    if (typeof result === 'object' && result !== null) {
+      if ('affectedRows' in result && typeof result.affectedRows === 'number') {
+        return result.affectedRows;
+      }
+      if ('rowsAffected' in result && typeof result.rowsAffected === 'number') {
+        return result.rowsAffected;
+      }
+    }
+
+    if (Array.isArray(result) && result.length > 0) {
+      return this.getAffectedRowCount(result[0]);
+    }
+
+    return 0;
+  }
+
+  public async listByIds(input: {
+    tenantId: string;
+    guildId: string;
+    variantIds: string[];
+  }): Promise<VariantStockRecord[]> {
+    if (input.variantIds.length === 0) {
+      return [];
+    }
+
+    const rows = await this.db
+      .select({
+        variantId: productVariants.id,
+        productId: productVariants.productId,
+        label: productVariants.label,
+        stockQuantity: productVariants.stockQuantity,
+        stockReserved: productVariants.stockReserved,
+        lowStockThreshold: productVariants.lowStockThreshold,
+        lowStockAlertedAt: productVariants.lowStockAlertedAt,
+      })
+      .from(productVariants)
+      .where(
+        and(
+          eq(productVariants.tenantId, input.tenantId),
+          eq(productVariants.guildId, input.guildId),
+          inArray(productVariants.id, input.variantIds),
+        ),
+      );
+
+    return rows.map((row) => ({
+      variantId: row.variantId,
+      productId: row.productId,
+      label: row.label,
+      stockQuantity: row.stockQuantity ?? null,
+      stockReserved: row.stockReserved,
+      lowStockThreshold: row.lowStockThreshold ?? null,
+      lowStockAlertedAt: row.lowStockAlertedAt ?? null,
+    }));
+  }
+
+  /**
+   * Holds stock for every tracked variant in the demand, all or nothing. Untracked variants are
+   * skipped and left out of the returned reservation.
+   */
+  public async reserve(input: {
+    tenantId: string;
+    guildId: string;
+    demand: StockDemand[];
+  }): Promise<StockReservationResult> {
+    const tracked = await this.listByIds({
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+      variantIds: input.demand.map((entry) => entry.variantId),
+    });
+    const trackedIds = new Set(
+      tracked.filter((variant) => variant.stockQuantity !== null).map((variant) => variant.variantId),
+    );
+    const reserved = input.demand.filter((entry) => trackedIds.has(entry.variantId) && entry.quantity > 0);
+    if (reserved.length === 0) {
+      return { ok: true, reserved: [] };
+    }
+
+    let unavailableVariantId: string | null = null;
+    try {
+      await this.db.transaction(async (tx) => {
+        for (const entry of reserved) {
+          const result = await tx
+            .update(productVariants)
+            .set({
+              stockReserved: sql`${productVariants.stockReserved} + ${entry.quantity}`,
+              updatedAt: new Date(),
+            })
+            .where(
+              and(
+                eq(productVariants.tenantId, input.tenantId),
+                eq(productVariants.id, entry.variantId),
+                isNotNull(productVariants.stockQuantity),
+                sql`${productVariants.stockQuantity} - ${productVariants.stockReserved} >= ${entry.quantity}`,
+              ),
+            );
+
+          if (this.getAffectedRowCount(result) === 0) {
+            unavailableVariantId = entry.variantId;
+            tx.rollback();
+          }
+        }
+      });
+    } catch (error) {
+      if (unavailableVariantId === null) {
+        throw error;
+      }
+
+      return { ok: false, variantId: unavailableVariantId };
+    }
+
+    return { ok: true, reserved };
+  }
+
+  public async release(input: { tenantId: string; reservations: StockDemand[] }): Promise<void> {
+    await this.applySettlement(this.db, {
+      tenantId: input.tenantId,
+      settlement: 'release',
+      demand: input.reservations,
+    });
+  }
+
+  /**
+   * Moves an order session's stock reservation from one of `fromStates` to `toState` and applies the
+   * matching stock change in the same transaction. Returns false, leaving stock untouched, when the
+   * session has already left `fromStates`, so a release racing a payment only counts once.
+   */
+  public async settleOrderSession(input: {
+    tenantId: string;
+    orderSessionId: string;
+    fromStates: OrderSessionStockReservationState[];
+    toState: OrderSessionStockReservationState;
+    settlement: StockSettlement;
+    demand: StockDemand[];
+  }): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const result = await tx
+        .update(orderSessions)
+        .set({ stockReservationState: input.toState, updatedAt: new Date() })
+        .where(
+          and(
+            eq(orderSessions.id, input.orderSessionId),
+            eq(orderSessions.tenantId, input.tenantId),
+            inArray(orderSessions.stockReservationState, input.fromStates),
+          ),
+        );
+      if (this.getAffectedRowCount(result) === 0) {
+        return false;
+      }
+
+      await this.applySettlement(tx, input);
+      return true;
+    });
+  }
+
+  private async applySettlement(
+    writer: StockWriter,
+    input: { tenantId: string; settlement: StockSettlement; demand: StockDemand[] },
+  ): Promise<void> {
+    for (const entry of input.demand) {
+      if (entry.quantity <= 0) {
+        continue;
+      }
+
+      const reducesOnHand = input.settlement !== 'release';
+      const reducesReserved = input.settlement !== 'deduct';
+      await writer
+        .update(productVariants)
+        .set({
+          ...(reducesOnHand
+            ? { stockQuantity: sql`greatest(0, ${productVariants.stockQuantity} - ${entry.quantity})` }
+            : {}),
+          ...(reducesReserved
+            ? { stockReserved: sql`greatest(0, ${productVariants.stockReserved} - ${entry.quantity})` }
+            : {}),
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(productVariants.tenantId, input.tenantId),
+            eq(productVariants.id, entry.variantId),
+            ...(reducesOnHand ? [isNotNull(productVariants.stockQuantity)] : []),
+          ),
+        );
+    }
+  }
+
+  /** Marks a variant as alerted so one low-stock episode only produces one alert. */
+  public async claimLowStockAlert(input: { tenantId: string; variantId: string; now: Date }): Promise<boolean> {
+    const result = await this.db
+      .update(productVariants)
+      .set({ lowStockAlertedAt: input.now })
+      .where(
+        and(
+          eq(productVariants.tenantId, input.tenantId),
+          eq(productVariants.id, input.variantId),
+          isNull(productVariants.lowStockAlertedAt),
+        ),
+      );
+
+    return this.getAffectedRowCount(result) > 0;
+  }
+}
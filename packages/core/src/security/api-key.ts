@@ -0,0 +1,28 @@
+import { createHash, randomBytes } from 'node:crypto';
+
+const API_KEY_PREFIX = 'vdk_';
+const API_KEY_DISPLAY_LENGTH = 12;
+
+/** Keys carry 256 bits of randomness, so a plain SHA-256 is enough to store them; no slow hash is needed. */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key, 'utf8').digest('hex');
+}
+
+export function generateApiKey(): { key: string; keyPrefix: string; keyHash: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return {
+    key,
+    keyPrefix: key.slice(0, API_KEY_DISPLAY_LENGTH),
+    keyHash: hashApiKey(key),
+  };
+}
+
+/** Reads the key from `Authorization: Bearer <key>`. Returns `null` for any other scheme. */
+export function readBearerApiKey(authorizationHeader: string | null | undefined): string | null {
+  const match = /^Bearer\s+(\S+)$/i.exec(authorizationHeader?.trim() ?? '');
+  if (!match?.[1] || !match[1].startsWith(API_KEY_PREFIX)) {
+    return null;
+  }
+
+  return match[1];
+}
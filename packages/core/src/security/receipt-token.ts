@@ -0,0 +1,34 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+type ReceiptTokenPayload = {
+  tenantId: string;
+  orderSessionId: string;
+};
+
+function serializePayload(payload: ReceiptTokenPayload): string {
+  return `receipt:${payload.tenantId}:${payload.orderSessionId}`;
+}
+
+/** Receipt links do not expire, so the customer can open the receipt again later. */
+export function signReceiptToken(payload: ReceiptTokenPayload, secret: string): string {
+  return createHmac('sha256', secret).update(serializePayload(payload)).digest('base64url');
+}
+
+export function verifyReceiptToken(input: {
+  payload: ReceiptTokenPayload;
+  secret: string;
+  providedToken: string | null | undefined;
+}): boolean {
+  if (!input.providedToken) {
+    return false;
+  }
+
+  const expectedBuffer = Buffer.from(signReceiptToken(input.payload, input.secret));
+  const providedBuffer = Buffer.from(input.providedToken);
+
+  if (expectedBuffer.length !== providedBuffer.length) {
+    return false;
+  }
+
+  return timingSafeEqual(expectedBuffer, providedBuffer);
+}
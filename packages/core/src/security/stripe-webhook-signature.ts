@@ -0,0 +1,66 @@
+import crypto from 'node:crypto';
+
+/** Stripe's default replay window for signed webhook timestamps. */
+export const STRIPE_WEBHOOK_TOLERANCE_SECONDS = 300;
+
+export function createStripeWebhookSignature(input: {
+  rawBody: string;
+  secret: string;
+  timestamp: number;
+}): string {
+  const digest = crypto
+    .createHmac('sha256', input.secret)
+    .update(`${input.timestamp}.${input.rawBody}`)
+    .digest('hex');
+  return `t=${input.timestamp},v1=${digest}`;
+}
+
+/**
+ * Checks a `Stripe-Signature` header (`t=<unix>,v1=<hex>[,v1=<hex>]`). Any `v1` entry may match, which
+ * is how Stripe signs while an endpoint secret is being rolled.
+ */
+export function verifyStripeWebhookSignature(options: {
+  rawBody: string;
+  secret: string;
+  signatureHeader: string | null;
+  toleranceSeconds?: number;
+  now?: Date;
+}): boolean {
+  if (!options.signatureHeader) {
+    return false;
+  }
+
+  let timestamp: number | null = null;
+  const signatures: string[] = [];
+  for (const part of options.signatureHeader.split(',')) {
+    const separatorIndex = part.indexOf('=');
+    if (separatorIndex <= 0) {
+      continue;
+    }
+
+    const key = part.slice(0, separatorIndex).trim();
+    const value = part.slice(separatorIndex + 1).trim();
+    if (key === 't') {
+      timestamp = Number(value);
+    } else if (key === 'v1') {
+      signatures.push(value);
+    }
+  }
+
+  if (timestamp === null || !Number.isInteger(timestamp) || signatures.length === 0) {
+    return false;
+  }
+
+  const nowSeconds = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  if (Math.abs(nowSeconds - timestamp) > (options.toleranceSeconds ?? STRIPE_WEBHOOK_TOLERANCE_SECONDS)) {
+    return false;
+  }
+
+  const expected = Buffer.from(
+    crypto.createHmac('sha256', options.secret).update(`${timestamp}.${options.rawBody}`).digest('hex'),
+  );
+  return signatures.some((signature) => {
+    const provided = Buffer.from(signature);
+    return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+  });
+}
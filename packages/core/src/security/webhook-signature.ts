@@ -23,6 +23,27 @@ export function verifyWooWebhookSignature(options: {
   }
 }
 
+/**
+ * Signature sent with outbound store webhooks: the same base64 HMAC-SHA256 as WooCommerce, computed over
+ * `<timestamp>.<raw body>` so a receiver can reject old deliveries that are replayed to it.
+ */
+export function createOutboundWebhookSignature(input: { rawBody: string; secret: string; timestamp: number }): string {
+  return createWooWebhookSignature(`${input.timestamp}.${input.rawBody}`, input.secret);
+}
+
+export function verifyOutboundWebhookSignature(input: {
+  rawBody: string;
+  secret: string;
+  timestamp: number;
+  providedSignature: string | null;
+}): boolean {
+  return verifyWooWebhookSignature({
+    rawBody: `${input.timestamp}.${input.rawBody}`,
+    secret: input.secret,
+    providedSignature: input.providedSignature,
+  });
+}
+
 export function isPaidWooStatus(status: string): boolean {
   return status === 'processing' || status === 'completed';
 }
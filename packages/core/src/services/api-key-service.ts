@@ -0,0 +1,252 @@
+import { err, ok, type Result } from 'neverthrow';
+import { ulid } from 'ulid';
+import { z } from 'zod';
+
+import { AppError, fromUnknownError, validationError } from '../domain/errors.js';
+import type { ApiKeyScope } from '../domain/types.js';
+import { AdminRepository } from '../repositories/admin-repository.js';
+import { ApiKeyRepository, type ApiKeyRecord } from '../repositories/api-key-repository.js';
+import { UserRepository } from '../repositories/user-repository.js';
+import { generateApiKey, hashApiKey } from '../security/api-key.js';
+import type { SessionPayload } from '../security/session-token.js';
+import { AuthorizationService } from './authorization-service.js';
+
+export const API_KEY_SCOPES = [
+  'products:read',
+  'products:write',
+  'orders:read',
+  'orders:write',
+  'points:read',
+  'points:write',
+  'sales:write',
+] as const satisfies readonly ApiKeyScope[];
+
+const MAX_ACTIVE_KEYS_PER_TENANT = 20;
+// Writing `last_used_at` on every request would turn each API read into a write.
+const LAST_USED_RESOLUTION_MS = 60_000;
+const API_ACTOR_TTL_SECONDS = 60;
+
+const apiKeyPayloadSchema = z.object({
+  name: z.string().trim().min(1, 'Name the key so you can recognise it later.').max(80),
+  scopes: z
+    .array(z.enum(API_KEY_SCOPES))
+    .min(1, 'Pick at least one scope.')
+    .transform((scopes) => [...new Set(scopes)]),
+});
+
+export type ApiKeySummary = {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  createdByDiscordUserId: string;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+};
+
+/**
+ * An authenticated API request. `actor` is the member who created the key, so every service call still
+ * runs that member's current role checks; the key's scopes only narrow what they can do.
+ */
+export type ApiKeyPrincipal = {
+  apiKeyId: string;
+  tenantId: string;
+  scopes: ApiKeyScope[];
+  actor: SessionPayload;
+};
+
+function mapSummary(record: ApiKeyRecord): ApiKeySummary {
+  return {
+    id: record.id,
+    name: record.name,
+    keyPrefix: record.keyPrefix,
+    scopes: record.scopes,
+    createdByDiscordUserId: record.createdByDiscordUserId,
+    lastUsedAt: record.lastUsedAt,
+    revokedAt: record.revokedAt,
+    createdAt: record.createdAt,
+  };
+}
+
+export class ApiKeyService {
+  private readonly apiKeyRepository = new ApiKeyRepository();
+  private readonly adminRepository = new AdminRepository();
+  private readonly userRepository = new UserRepository();
+  private readonly authorizationService = new AuthorizationService();
+
+  public async listKeys(actor: SessionPayload, input: { tenantId: string }): Promise<Result<ApiKeySummary[], AppError>> {
+    try {
+      const roleCheck = await this.authorizationService.ensureTenantRole(actor, {
+        tenantId: input.tenantId,
+        minimumRole: 'admin',
+      });
+      if (roleCheck.isErr()) {
+        return err(roleCheck.error);
+      }
+
+      const keys = await this.apiKeyRepository.listByTenant(input.tenantId);
+      return ok(keys.map(mapSummary));
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  /** The plaintext key is only returned here; the database keeps its SHA-256 hash and a display prefix. */
+  public async createKey(
+    actor: SessionPayload,
+    input: { tenantId: string; apiKey: unknown },
+  ): Promise<Result<{ apiKey: ApiKeySummary; key: string }, AppError>> {
+    try {
+      const roleCheck = await this.authorizationService.ensureTenantRole(actor, {
+        tenantId: input.tenantId,
+        minimumRole: 'admin',
+      });
+      if (roleCheck.isErr()) {
+        return err(roleCheck.error);
+      }
+
+      const parsed = apiKeyPayloadSchema.safeParse(input.apiKey);
+      if (!parsed.success) {
+        return err(validationError(parsed.error.issues));
+      }
+
+      // Keys act as their creator, so a super admin outside the workspace would mint a key that can do nothing.
+      const creatorRole = await this.userRepository.getMemberRole({ tenantId: input.tenantId, userId: actor.userId });
+      if (!creatorRole) {
+        return err(
+          new AppError('API_KEY_MEMBER_REQUIRED', 'Only workspace members can create API keys for it', 403),
+        );
+      }
+
+      const activeCount = await this.apiKeyRepository.countActiveByTenant(input.tenantId);
+      if (activeCount >= MAX_ACTIVE_KEYS_PER_TENANT) {
+        return err(
+          new AppError(
+            'API_KEY_LIMIT_REACHED',
+            `A workspace can have at most ${MAX_ACTIVE_KEYS_PER_TENANT} active API keys. Revoke one first.`,
+            409,
+          ),
+        );
+      }
+
+      const generated = generateApiKey();
+      const created = await this.apiKeyRepository.create({
+        tenantId: input.tenantId,
+        name: parsed.data.name,
+        keyPrefix: generated.keyPrefix,
+        keyHash: generated.keyHash,
+        scopes: parsed.data.scopes,
+        createdByUserId: actor.userId,
+        createdByDiscordUserId: actor.discordUserId,
+      });
+
+      await this.adminRepository.appendAuditLog({
+        tenantId: input.tenantId,
+        userId: actor.userId,
+        actorDiscordUserId: actor.discordUserId,
+        action: 'api_key.create',
+        resourceType: 'api_key',
+        resourceId: created.id,
+        correlationId: ulid(),
+        metadata: {
+          name: created.name,
+          keyPrefix: created.keyPrefix,
+          scopes: created.scopes,
+        },
+      });
+
+      return ok({ apiKey: mapSummary(created), key: generated.key });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  public async revokeKey(
+    actor: SessionPayload,
+    input: { tenantId: string; apiKeyId: string },
+  ): Promise<Result<void, AppError>> {
+    try {
+      const roleCheck = await this.authorizationService.ensureTenantRole(actor, {
+        tenantId: input.tenantId,
+        minimumRole: 'admin',
+      });
+      if (roleCheck.isErr()) {
+        return err(roleCheck.error);
+      }
+
+      const existing = await this.apiKeyRepository.getById(input);
+      if (!existing) {
+        return err(new AppError('API_KEY_NOT_FOUND', 'API key not found', 404));
+      }
+      if (existing.revokedAt) {
+        return ok(undefined);
+      }
+
+      await this.apiKeyRepository.revoke({ apiKeyId: existing.id, revokedAt: new Date() });
+      await this.adminRepository.appendAuditLog({
+        tenantId: input.tenantId,
+        userId: actor.userId,
+        actorDiscordUserId: actor.discordUserId,
+        action: 'api_key.revoke',
+        resourceType: 'api_key',
+        resourceId: existing.id,
+        correlationId: ulid(),
+        metadata: {
+          name: existing.name,
+          keyPrefix: existing.keyPrefix,
+        },
+      });
+
+      return ok(undefined);
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  /** Resolves a bearer key for one `/api/v1` request and checks that it carries `scope`. */
+  public async authenticate(input: {
+    key: string | null;
+    scope: ApiKeyScope;
+  }): Promise<Result<ApiKeyPrincipal, AppError>> {
+    try {
+      if (!input.key) {
+        return err(new AppError('API_KEY_MISSING', 'Send an API key as "Authorization: Bearer <key>"', 401));
+      }
+
+      const record = await this.apiKeyRepository.getByHash(hashApiKey(input.key));
+      if (!record || record.revokedAt) {
+        return err(new AppError('API_KEY_INVALID', 'Invalid or revoked API key', 401));
+      }
+
+      if (!record.scopes.includes(input.scope)) {
+        return err(new AppError('API_KEY_SCOPE_DENIED', `This API key does not have the ${input.scope} scope`, 403));
+      }
+
+      const tenantActiveCheck = await this.authorizationService.ensureTenantIsActive(record.tenantId);
+      if (tenantActiveCheck.isErr()) {
+        return err(tenantActiveCheck.error);
+      }
+
+      const now = new Date();
+      if (!record.lastUsedAt || now.getTime() - record.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+        await this.apiKeyRepository.touchLastUsed({ apiKeyId: record.id, usedAt: now });
+      }
+
+      return ok({
+        apiKeyId: record.id,
+        tenantId: record.tenantId,
+        scopes: record.scopes,
+        actor: {
+          userId: record.createdByUserId,
+          discordUserId: record.createdByDiscordUserId,
+          isSuperAdmin: false,
+          tenantIds: [record.tenantId],
+          exp: Math.floor(now.getTime() / 1000) + API_ACTOR_TTL_SECONDS,
+        },
+      });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+}
@@ -0,0 +1,226 @@
+import { err, ok, type Result } from 'neverthrow';
+import { z } from 'zod';
+
+import { AppError, fromUnknownError, validationError } from '../domain/errors.js';
+import type { SessionPayload } from '../security/session-token.js';
+import {
+  AutomaticDiscountRepository,
+  type AutomaticDiscountRecord,
+} from '../repositories/automatic-discount-repository.js';
+import type { AutomaticDiscountRule, AutomaticDiscountRuleType } from './automatic-discounts.js';
+import { AuthorizationService } from './authorization-service.js';
+
+const automaticDiscountPayloadSchema = z
+  .object({
+    name: z.string().trim().min(1).max(80),
+    ruleType: z.enum(['spend_threshold', 'buy_x_get_y']),
+    minSubtotalMinor: z.number().int().min(0).default(0),
+    discountPercent: z.number().int().min(0).max(100).default(0),
+    category: z
+      .string()
+      .trim()
+      .max(80)
+      .nullable()
+      .default(null)
+      .transform((value) => value || null),
+    buyQuantity: z.number().int().min(0).max(100).default(0),
+    freeQuantity: z.number().int().min(0).max(100).default(0),
+    active: z.boolean().default(true),
+  })
+  .superRefine((value, ctx) => {
+    if (value.ruleType === 'spend_threshold' && value.discountPercent <= 0) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['discountPercent'],
+        message: 'Spend discounts need a percentage between 1 and 100.',
+      });
+    }
+
+    if (value.ruleType === 'buy_x_get_y' && (value.buyQuantity <= 0 || value.freeQuantity <= 0)) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['buyQuantity'],
+        message: 'Buy X get Y discounts need at least 1 paid and 1 free item.',
+      });
+    }
+  })
+  .transform((value) => ({
+    ...value,
+    // Only the fields for the chosen rule type are kept so stale values do not linger.
+    minSubtotalMinor: value.ruleType === 'spend_threshold' ? value.minSubtotalMinor : 0,
+    discountPercent: value.ruleType === 'spend_threshold' ? value.discountPercent : 0,
+    category: value.ruleType === 'buy_x_get_y' ? value.category : null,
+    buyQuantity: value.ruleType === 'buy_x_get_y' ? value.buyQuantity : 0,
+    freeQuantity: value.ruleType === 'buy_x_get_y' ? value.freeQuantity : 0,
+  }));
+
+export type AutomaticDiscountSummary = {
+  id: string;
+  name: string;
+  ruleType: AutomaticDiscountRuleType;
+  minSubtotalMinor: number;
+  discountPercent: number;
+  category: string | null;
+  buyQuantity: number;
+  freeQuantity: number;
+  active: boolean;
+};
+
+function mapAutomaticDiscountSummary(record: AutomaticDiscountRecord): AutomaticDiscountSummary {
+  return {
+    id: record.id,
+    name: record.name,
+    ruleType: record.ruleType,
+    minSubtotalMinor: record.minSubtotalMinor,
+    discountPercent: record.discountPercent,
+    category: record.category,
+    buyQuantity: record.buyQuantity,
+    freeQuantity: record.freeQuantity,
+    active: record.active,
+  };
+}
+
+export class AutomaticDiscountService {
+  private readonly automaticDiscountRepository = new AutomaticDiscountRepository();
+  private readonly authorizationService = new AuthorizationService();
+
+  public async listAutomaticDiscounts(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string },
+  ): Promise<Result<AutomaticDiscountSummary[], AppError>> {
+    try {
+      const access = await this.ensureAccess(actor, input, 'member');
+      if (access.isErr()) {
+        return err(access.error);
+      }
+
+      const records = await this.automaticDiscountRepository.listByGuild(input);
+      return ok(records.map(mapAutomaticDiscountSummary));
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  public async createAutomaticDiscount(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string; discount: unknown },
+  ): Promise<Result<AutomaticDiscountSummary, AppError>> {
+    try {
+      const access = await this.ensureAccess(actor, input, 'admin');
+      if (access.isErr()) {
+        return err(access.error);
+      }
+
+      const parsed = automaticDiscountPayloadSchema.safeParse(input.discount);
+      if (!parsed.success) {
+        return err(validationError(parsed.error.issues));
+      }
+
+      const created = await this.automaticDiscountRepository.create({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        ...parsed.data,
+      });
+
+      return ok(mapAutomaticDiscountSummary(created));
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  public async updateAutomaticDiscount(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string; discountId: string; discount: unknown },
+  ): Promise<Result<void, AppError>> {
+    try {
+      const access = await this.ensureAccess(actor, input, 'admin');
+      if (access.isErr()) {
+        return err(access.error);
+      }
+
+      const parsed = automaticDiscountPayloadSchema.safeParse(input.discount);
+      if (!parsed.success) {
+        return err(validationError(parsed.error.issues));
+      }
+
+      const updated = await this.automaticDiscountRepository.update({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        discountId: input.discountId,
+        ...parsed.data,
+      });
+      if (!updated) {
+        return err(new AppError('AUTOMATIC_DISCOUNT_NOT_FOUND', 'Automatic discount not found', 404));
+      }
+
+      return ok(undefined);
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  public async deleteAutomaticDiscount(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string; discountId: string },
+  ): Promise<Result<void, AppError>> {
+    try {
+      const access = await this.ensureAccess(actor, input, 'admin');
+      if (access.isErr()) {
+        return err(access.error);
+      }
+
+      await this.automaticDiscountRepository.delete(input);
+      return ok(undefined);
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  /** Active rules in the order checkout applies them. Used by sale flows, so no session is needed. */
+  public async listActiveRules(input: {
+    tenantId: string;
+    guildId: string;
+  }): Promise<Result<AutomaticDiscountRule[], AppError>> {
+    try {
+      const records = await this.automaticDiscountRepository.listByGuild({ ...input, activeOnly: true });
+      return ok(
+        records.map((record) => ({
+          id: record.id,
+          name: record.name,
+          ruleType: record.ruleType,
+          minSubtotalMinor: record.minSubtotalMinor,
+          discountPercent: record.discountPercent,
+          category: record.category,
+          buyQuantity: record.buyQuantity,
+          freeQuantity: record.freeQuantity,
+        })),
+      );
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  private async ensureAccess(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string },
+    minimumRole: 'member' | 'admin',
+  ): Promise<Result<void, AppError>> {
+    const roleCheck = await this.authorizationService.ensureTenantRole(actor, {
+      tenantId: input.tenantId,
+      minimumRole,
+    });
+    if (roleCheck.isErr()) {
+      return err(roleCheck.error);
+    }
+
+    const guildCheck = await this.authorizationService.ensureGuildBoundToTenant({
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+    });
+    if (guildCheck.isErr()) {
+      return err(guildCheck.error);
+    }
+
+    return ok(undefined);
+  }
+}
@@ -0,0 +1,180 @@
+import type { PriceTierInput } from '../domain/types.js';
+import { formatCurrencyMinor } from '../utils/currency.js';
+import { getLineTotalMinor, resolveLineQuantity } from './basket-quantity.js';
+import { allocateProportionalMinor, normalizeCategoryKey } from './points-calculator.js';
+
+export type PriceTier = PriceTierInput;
+
+export type AutomaticDiscountRuleType = 'spend_threshold' | 'buy_x_get_y';
+
+export type AutomaticDiscountRule = {
+  id: string;
+  name: string;
+  ruleType: AutomaticDiscountRuleType;
+  /** `spend_threshold`: basket total needed after earlier discounts, in the checkout currency. */
+  minSubtotalMinor: number;
+  /** `spend_threshold`: percentage taken off the basket. */
+  discountPercent: number;
+  /** `buy_x_get_y`: category the units must come from; `null` counts every line. */
+  category: string | null;
+  buyQuantity: number;
+  freeQuantity: number;
+};
+
+/** One discount line as shown in the basket summary, paid log and dashboard. */
+export type AutomaticDiscountLine = {
+  label: string;
+  amountMinor: number;
+};
+
+export type AutomaticDiscountBasketLine = {
+  category: string;
+  productName: string;
+  variantId: string;
+  variantLabel: string;
+  /** List price for one unit, before tiers. */
+  priceMinor: number;
+  currency: string;
+  quantity?: number;
+  priceTiers?: PriceTier[];
+};
+
+export type AutomaticDiscountResult = {
+  discounts: AutomaticDiscountLine[];
+  /** Amount taken off each basket line, in basket order. Coupons and points apply to what is left. */
+  lineDiscountsMinor: number[];
+  totalDiscountMinor: number;
+};
+
+export const MAX_PRICE_TIERS = 10;
+
+/** Tiers sorted by breakpoint, keeping the last entry when a breakpoint is repeated. */
+export function normalizePriceTiers(tiers: PriceTier[] | null | undefined): PriceTier[] {
+  const byQuantity = new Map<number, number>();
+  for (const tier of tiers ?? []) {
+    if (!Number.isInteger(tier.minQuantity) || tier.minQuantity < 2 || !Number.isInteger(tier.priceMinor)) {
+      continue;
+    }
+
+    byQuantity.set(tier.minQuantity, Math.max(0, tier.priceMinor));
+  }
+
+  return [...byQuantity.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([minQuantity, priceMinor]) => ({ minQuantity, priceMinor }));
+}
+
+/** Unit price for `units` of a price option: the deepest tier reached, never above the list price. */
+export function resolveTierPriceMinor(
+  listPriceMinor: number,
+  tiers: PriceTier[] | null | undefined,
+  units: number,
+): number {
+  let priceMinor = listPriceMinor;
+  for (const tier of normalizePriceTiers(tiers)) {
+    if (units >= tier.minQuantity) {
+      priceMinor = Math.min(listPriceMinor, tier.priceMinor);
+    }
+  }
+
+  return priceMinor;
+}
+
+function isRuleCategoryMatch(rule: AutomaticDiscountRule, category: string): boolean {
+  return rule.category === null || normalizeCategoryKey(rule.category) === normalizeCategoryKey(category);
+}
+
+/**
+ * Works out volume pricing and automatic discount rules for a basket. Tier savings come first, then
+ * buy-X-get-Y rules (the cheapest qualifying units go free), then spend thresholds on what is left,
+ * so each rule only discounts money the customer would still pay.
+ */
+export function evaluateAutomaticDiscounts(input: {
+  lines: AutomaticDiscountBasketLine[];
+  rules: AutomaticDiscountRule[];
+}): AutomaticDiscountResult {
+  const remaining = input.lines.map((line) => getLineTotalMinor(line));
+  const lineDiscountsMinor = input.lines.map(() => 0);
+  const discounts: AutomaticDiscountLine[] = [];
+  const take = (lineIndex: number, amountMinor: number): number => {
+    const applied = Math.min(amountMinor, remaining[lineIndex] ?? 0);
+    remaining[lineIndex] = (remaining[lineIndex] ?? 0) - applied;
+    lineDiscountsMinor[lineIndex] = (lineDiscountsMinor[lineIndex] ?? 0) + applied;
+    return applied;
+  };
+
+  const unitsByVariant = new Map<string, number>();
+  for (const line of input.lines) {
+    unitsByVariant.set(line.variantId, (unitsByVariant.get(line.variantId) ?? 0) + resolveLineQuantity(line));
+  }
+
+  const tierDiscountByVariant = new Map<string, AutomaticDiscountLine>();
+  for (const [index, line] of input.lines.entries()) {
+    const units = unitsByVariant.get(line.variantId) ?? 0;
+    const tierPriceMinor = resolveTierPriceMinor(line.priceMinor, line.priceTiers, units);
+    const saving = take(index, (line.priceMinor - tierPriceMinor) * resolveLineQuantity(line));
+    if (saving <= 0) {
+      continue;
+    }
+
+    const existing = tierDiscountByVariant.get(line.variantId);
+    if (existing) {
+      existing.amountMinor += saving;
+      continue;
+    }
+
+    const unitPrice = formatCurrencyMinor(tierPriceMinor, line.currency);
+    tierDiscountByVariant.set(line.variantId, {
+      label: `Volume price: ${line.productName} / ${line.variantLabel} (${units} at ${unitPrice} each)`,
+      amountMinor: saving,
+    });
+  }
+  discounts.push(...tierDiscountByVariant.values());
+
+  for (const rule of input.rules.filter((item) => item.ruleType === 'buy_x_get_y')) {
+    const groupSize = rule.buyQuantity + rule.freeQuantity;
+    if (rule.buyQuantity <= 0 || rule.freeQuantity <= 0) {
+      continue;
+    }
+
+    const units: Array<{ lineIndex: number; priceMinor: number }> = [];
+    for (const [index, line] of input.lines.entries()) {
+      if (!isRuleCategoryMatch(rule, line.category)) {
+        continue;
+      }
+
+      const quantity = resolveLineQuantity(line);
+      const unitPriceMinor = Math.floor((remaining[index] ?? 0) / quantity);
+      for (let unit = 0; unit < quantity; unit += 1) {
+        units.push({ lineIndex: index, priceMinor: unitPriceMinor });
+      }
+    }
+
+    const freeUnits = Math.floor(units.length / groupSize) * rule.freeQuantity;
+    const cheapest = [...units].sort((a, b) => a.priceMinor - b.priceMinor).slice(0, freeUnits);
+    const amountMinor = cheapest.reduce((sum, unit) => sum + take(unit.lineIndex, unit.priceMinor), 0);
+    if (amountMinor > 0) {
+      discounts.push({ label: rule.name, amountMinor });
+    }
+  }
+
+  for (const rule of input.rules.filter((item) => item.ruleType === 'spend_threshold')) {
+    const basketMinor = remaining.reduce((sum, amount) => sum + amount, 0);
+    if (basketMinor <= 0 || basketMinor < rule.minSubtotalMinor) {
+      continue;
+    }
+
+    const amountMinor = Math.floor((basketMinor * rule.discountPercent) / 100);
+    const allocations = allocateProportionalMinor(amountMinor, [...remaining]);
+    const applied = allocations.reduce((sum, allocation, index) => sum + take(index, allocation), 0);
+    if (applied > 0) {
+      discounts.push({ label: rule.name, amountMinor: applied });
+    }
+  }
+
+  return {
+    discounts,
+    lineDiscountsMinor,
+    totalDiscountMinor: lineDiscountsMinor.reduce((sum, amount) => sum + amount, 0),
+  };
+}
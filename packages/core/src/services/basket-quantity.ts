@@ -0,0 +1,89 @@
+/** Upper bound for a single basket line, whatever the price option allows. */
+export const MAX_BASKET_LINE_QUANTITY = 999;
+
+export type QuantityLimits = {
+  minQuantity: number;
+  maxQuantity: number | null;
+};
+
+/** Units on a basket line. Lines stored before quantities existed count as one unit. */
+export function resolveLineQuantity(line: { quantity?: number | null }): number {
+  const quantity = line.quantity;
+  if (typeof quantity !== 'number' || !Number.isFinite(quantity)) {
+    return 1;
+  }
+
+  return Math.max(1, Math.floor(quantity));
+}
+
+/** Line total from its unit price, e.g. 3 x £5.00 is 1500. */
+export function getLineTotalMinor(line: { priceMinor: number; quantity?: number | null }): number {
+  const unitMinor = Number.isFinite(line.priceMinor) ? Math.max(0, Math.floor(line.priceMinor)) : 0;
+  return unitMinor * resolveLineQuantity(line);
+}
+
+/** What a line still costs after automatic discounts; coupons and points work from this amount. */
+export function getLineAfterAutomaticDiscountMinor(line: {
+  priceMinor: number;
+  quantity?: number | null;
+  automaticDiscountMinor?: number | null;
+}): number {
+  const discountMinor = Number.isFinite(line.automaticDiscountMinor) ? Math.floor(line.automaticDiscountMinor ?? 0) : 0;
+  return Math.max(0, getLineTotalMinor(line) - Math.max(0, discountMinor));
+}
+
+export function resolveQuantityRange(limits: QuantityLimits): { min: number; max: number } {
+  const min = Math.min(Math.max(1, limits.minQuantity), MAX_BASKET_LINE_QUANTITY);
+  const max = Math.min(limits.maxQuantity ?? MAX_BASKET_LINE_QUANTITY, MAX_BASKET_LINE_QUANTITY);
+
+  return { min, max: Math.max(min, max) };
+}
+
+export function isFixedQuantity(limits: QuantityLimits): boolean {
+  const range = resolveQuantityRange(limits);
+  return range.min === range.max;
+}
+
+/** Returns a customer-facing reason when `quantity` is outside the price option's limits, otherwise `null`. */
+export function describeQuantityViolation(quantity: number, limits: QuantityLimits): string | null {
+  const range = resolveQuantityRange(limits);
+  if (!Number.isInteger(quantity) || quantity < range.min || quantity > range.max) {
+    return range.min === range.max
+      ? `Quantity must be ${range.min}.`
+      : `Quantity must be a whole number from ${range.min} to ${range.max}.`;
+  }
+
+  return null;
+}
+
+/** Parses free-text quantity input such as " 3 " or "x3". Returns `null` when it is not a whole number. */
+export function parseQuantityInput(value: string): number | null {
+  const normalized = value.trim().replace(/^x/i, '').trim();
+  if (!/^\d{1,4}$/.test(normalized)) {
+    return null;
+  }
+
+  return Number(normalized);
+}
+
+/**
+ * Merges lines for the same price option into one line with the combined quantity, keeping first-seen order.
+ * Used for display only; checkout and stock work from the stored lines.
+ */
+export function groupBasketLines<T extends { variantId: string; priceMinor: number; quantity?: number | null }>(
+  lines: T[],
+): Array<T & { quantity: number }> {
+  const grouped = new Map<string, T & { quantity: number }>();
+  for (const line of lines) {
+    const key = `${line.variantId}:${line.priceMinor}`;
+    const existing = grouped.get(key);
+    if (existing) {
+      existing.quantity += resolveLineQuantity(line);
+      continue;
+    }
+
+    grouped.set(key, { ...line, quantity: resolveLineQuantity(line) });
+  }
+
+  return [...grouped.values()];
+}
@@ -0,0 +1,196 @@
+import { err, ok, type Result } from 'neverthrow';
+
+import { AppError } from '../domain/errors.js';
+import { formatCurrencyMinor } from '../utils/currency.js';
+import { getLineAfterAutomaticDiscountMinor } from './basket-quantity.js';
+import {
+  computeCouponEligibleSubtotalMinor,
+  type CouponScopeConfig,
+  type CouponScopeLine,
+} from './coupon-scope.js';
+
+export type CouponDiscountType = 'fixed' | 'percent';
+
+export type CouponRuleConfig = CouponScopeConfig & {
+  code: string;
+  active: boolean;
+  discountType: CouponDiscountType;
+  discountMinor: number;
+  discountPercent: number;
+  maxDiscountMinor: number | null;
+  minSubtotalMinor: number;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  maxRedemptions: number | null;
+  maxRedemptionsPerCustomer: number | null;
+};
+
+export type CouponRedemptionCounts = {
+  total: number;
+  /** `null` when the customer is not known yet, so the per-customer limit cannot be checked. */
+  customer: number | null;
+};
+
+function formatRuleDate(value: Date): string {
+  return `${value.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+function toNonNegativeInt(value: number): number {
+  if (!Number.isFinite(value)) {
+    return 0;
+  }
+
+  return Math.max(0, Math.floor(value));
+}
+
+export function couponLimitReachedError(
+  coupon: Pick<CouponRuleConfig, 'code' | 'maxRedemptions' | 'maxRedemptionsPerCustomer'>,
+  limit: 'total' | 'customer',
+): AppError {
+  if (limit === 'total') {
+    return new AppError(
+      'COUPON_REDEMPTION_LIMIT_REACHED',
+      `Coupon ${coupon.code} has reached its limit of ${coupon.maxRedemptions} use(s).`,
+      409,
+    );
+  }
+
+  return new AppError(
+    'COUPON_CUSTOMER_LIMIT_REACHED',
+    `Coupon ${coupon.code} can only be used ${coupon.maxRedemptionsPerCustomer} time(s) per customer.`,
+    409,
+  );
+}
+
+/**
+ * Discount granted on the eligible part of the basket. Percentage coupons round down and honour
+ * the optional cap; the result never exceeds the eligible subtotal.
+ */
+export function computeCouponDiscountForSubtotal(
+  coupon: Pick<CouponRuleConfig, 'discountType' | 'discountMinor' | 'discountPercent' | 'maxDiscountMinor'>,
+  eligibleSubtotalMinor: number,
+): number {
+  const eligible = toNonNegativeInt(eligibleSubtotalMinor);
+  if (coupon.discountType === 'fixed') {
+    return Math.min(eligible, toNonNegativeInt(coupon.discountMinor));
+  }
+
+  const percent = Math.min(100, toNonNegativeInt(coupon.discountPercent));
+  let discount = Math.floor((eligible * percent) / 100);
+  if (coupon.maxDiscountMinor !== null) {
+    discount = Math.min(discount, toNonNegativeInt(coupon.maxDiscountMinor));
+  }
+
+  return Math.min(eligible, discount);
+}
+
+/**
+ * Checks every coupon rule against the basket and returns the discount to apply. Each rejection
+ * carries its own error code so the sale flows can tell the customer why a code was refused.
+ */
+export function evaluateCouponRules(input: {
+  coupon: CouponRuleConfig;
+  lines: CouponScopeLine[];
+  redemptions: CouponRedemptionCounts;
+  currency: string;
+  now: Date;
+}): Result<number, AppError> {
+  const { coupon } = input;
+
+  if (!coupon.active) {
+    return err(new AppError('COUPON_NOT_FOUND', `Coupon ${coupon.code} is invalid or inactive.`, 404));
+  }
+
+  if (coupon.startsAt && input.now.getTime() < coupon.startsAt.getTime()) {
+    return err(
+      new AppError(
+        'COUPON_NOT_STARTED',
+        `Coupon ${coupon.code} is not active until ${formatRuleDate(coupon.startsAt)}.`,
+        409,
+      ),
+    );
+  }
+
+  if (coupon.endsAt && input.now.getTime() >= coupon.endsAt.getTime()) {
+    return err(
+      new AppError(
+        'COUPON_EXPIRED',
+        `Coupon ${coupon.code} expired on ${formatRuleDate(coupon.endsAt)}.`,
+        409,
+      ),
+    );
+  }
+
+  if (coupon.maxRedemptions !== null && input.redemptions.total >= coupon.maxRedemptions) {
+    return err(couponLimitReachedError(coupon, 'total'));
+  }
+
+  if (
+    coupon.maxRedemptionsPerCustomer !== null &&
+    input.redemptions.customer !== null &&
+    input.redemptions.customer >= coupon.maxRedemptionsPerCustomer
+  ) {
+    return err(couponLimitReachedError(coupon, 'customer'));
+  }
+
+  const basketSubtotalMinor = input.lines.reduce((sum, line) => sum + getLineAfterAutomaticDiscountMinor(line), 0);
+  if (basketSubtotalMinor < coupon.minSubtotalMinor) {
+    return err(
+      new AppError(
+        'COUPON_MIN_SUBTOTAL_NOT_MET',
+        `Coupon ${coupon.code} needs a basket subtotal of at least ${formatCurrencyMinor(
+          coupon.minSubtotalMinor,
+          input.currency,
+        )}.`,
+        409,
+      ),
+    );
+  }
+
+  const eligibleSubtotalMinor = computeCouponEligibleSubtotalMinor(coupon, input.lines);
+  const discountMinor = computeCouponDiscountForSubtotal(coupon, eligibleSubtotalMinor);
+  if (eligibleSubtotalMinor <= 0 || discountMinor <= 0) {
+    return err(
+      new AppError(
+        'COUPON_NOT_APPLICABLE',
+        `Coupon ${coupon.code} does not apply to the selected products/variations.`,
+        409,
+      ),
+    );
+  }
+
+  return ok(discountMinor);
+}
+
+/** Human-readable summary of a coupon's rules, one line per rule, for sale flow prompts. */
+export function describeCouponRules(coupon: CouponRuleConfig, currency: string): string[] {
+  const lines: string[] = [];
+
+  if (coupon.discountType === 'percent') {
+    lines.push(
+      coupon.maxDiscountMinor !== null
+        ? `${coupon.discountPercent}% off (up to ${formatCurrencyMinor(coupon.maxDiscountMinor, currency)})`
+        : `${coupon.discountPercent}% off`,
+    );
+  } else {
+    lines.push(`${formatCurrencyMinor(coupon.discountMinor, currency)} off`);
+  }
+
+  if (coupon.minSubtotalMinor > 0) {
+    lines.push(`Minimum basket: ${formatCurrencyMinor(coupon.minSubtotalMinor, currency)}`);
+  }
+  if (coupon.startsAt) {
+    lines.push(`Starts: ${formatRuleDate(coupon.startsAt)}`);
+  }
+  if (coupon.endsAt) {
+    lines.push(`Ends: ${formatRuleDate(coupon.endsAt)}`);
+  }
+  if (coupon.maxRedemptions !== null) {
+    lines.push(`Limited to ${coupon.maxRedemptions} use(s) in total`);
+  }
+  if (coupon.maxRedemptionsPerCustomer !== null) {
+    lines.push(`Limited to ${coupon.maxRedemptionsPerCustomer} use(s) per customer`);
+  }
+
+  return lines;
+}
@@ -1,3 +1,5 @@
+import { getLineAfterAutomaticDiscountMinor } from './basket-quantity.js';
+
 export type CouponScopeConfig = {
   allowedCategories: string[];
   allowedProductIds: string[];
@@ -8,17 +10,14 @@ export type CouponScopeLine = {
   category?: string | null;
   productId: string;
   variantId: string;
+  /** Unit price; the line counts `priceMinor * quantity`. */
   priceMinor: number;
+  /** Defaults to one unit. */
+  quantity?: number;
+  /** Volume pricing and automatic discount rules already taken off this line. */
+  automaticDiscountMinor?: number;
 };
 
-function toNonNegativeInt(value: number): number {
-  if (!Number.isFinite(value)) {
-    return 0;
-  }
-
-  return Math.max(0, Math.floor(value));
-}
-
 export function isCouponApplicableToLine(
   scope: CouponScopeConfig,
   line: { category?: string | null; productId: string; variantId: string },
@@ -44,7 +43,7 @@ export function computeCouponEligibleSubtotalMinor(
       continue;
     }
 
-    subtotal += toNonNegativeInt(line.priceMinor);
+    subtotal += getLineAfterAutomaticDiscountMinor(line);
   }
 
   return subtotal;
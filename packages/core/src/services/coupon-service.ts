@@ -3,9 +3,18 @@ import { z } from 'zod';
 
 import { AppError, fromUnknownError, validationError } from '../domain/errors.js';
 import type { SessionPayload } from '../security/session-token.js';
-import { CouponRepository } from '../repositories/coupon-repository.js';
+import {
+  CouponRedemptionRepository,
+  type CouponRedemptionRecord,
+  type CouponRedemptionStats,
+} from '../repositories/coupon-redemption-repository.js';
+import { CouponRepository, type CouponRecord } from '../repositories/coupon-repository.js';
+import type { OrderSessionRecord } from '../repositories/order-repository.js';
 import { ProductRepository } from '../repositories/product-repository.js';
+import { resolveOrderSessionCustomerEmail } from '../utils/customer-email.js';
 import { AuthorizationService } from './authorization-service.js';
+import { evaluateCouponRules, type CouponDiscountType } from './coupon-rules.js';
+import type { CouponScopeLine } from './coupon-scope.js';
 import { GuildFeatureService } from './guild-feature-service.js';
 
 const idListSchema = z
@@ -34,23 +43,174 @@ const categoryListSchema = z
     return result;
   });
 
-const couponPayloadSchema = z.object({
-  code: z
-    .string()
-    .trim()
-    .min(1)
-    .max(40)
-    .regex(/^[A-Za-z0-9_-]+$/, 'Coupon code can only include letters, numbers, "_" and "-".')
-    .transform((value) => value.toUpperCase()),
-  discountMinor: z.number().int().positive(),
-  active: z.boolean().default(true),
-  allowedCategories: categoryListSchema,
-  allowedProductIds: idListSchema,
-  allowedVariantIds: idListSchema,
-});
+const optionalDateSchema = z
+  .union([z.string().trim(), z.null()])
+  .optional()
+  .transform((value, ctx) => {
+    if (!value) {
+      return null;
+    }
+
+    const parsed = new Date(value);
+    if (Number.isNaN(parsed.getTime())) {
+      ctx.addIssue({ code: 'custom', message: 'Invalid date.' });
+      return z.NEVER;
+    }
+
+    return parsed;
+  });
+
+const optionalLimitSchema = z.number().int().positive().nullable().default(null);
+
+const couponPayloadSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .min(1)
+      .max(40)
+      .regex(/^[A-Za-z0-9_-]+$/, 'Coupon code can only include letters, numbers, "_" and "-".')
+      .transform((value) => value.toUpperCase()),
+    discountType: z.enum(['fixed', 'percent']).default('fixed'),
+    discountMinor: z.number().int().min(0).default(0),
+    discountPercent: z.number().int().min(0).max(100).default(0),
+    maxDiscountMinor: optionalLimitSchema,
+    minSubtotalMinor: z.number().int().min(0).default(0),
+    startsAt: optionalDateSchema,
+    endsAt: optionalDateSchema,
+    maxRedemptions: optionalLimitSchema,
+    maxRedemptionsPerCustomer: optionalLimitSchema,
+    active: z.boolean().default(true),
+    allowedCategories: categoryListSchema,
+    allowedProductIds: idListSchema,
+    allowedVariantIds: idListSchema,
+  })
+  .superRefine((value, ctx) => {
+    if (value.discountType === 'fixed' && value.discountMinor <= 0) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['discountMinor'],
+        message: 'Fixed coupons need a discount amount above zero.',
+      });
+    }
+
+    if (value.discountType === 'percent' && value.discountPercent <= 0) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['discountPercent'],
+        message: 'Percentage coupons need a percentage between 1 and 100.',
+      });
+    }
+
+    if (value.startsAt && value.endsAt && value.endsAt.getTime() <= value.startsAt.getTime()) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['endsAt'],
+        message: 'Coupon end date must be after its start date.',
+      });
+    }
+  })
+  .transform((value) => ({
+    ...value,
+    // Only the fields for the chosen discount type are kept so stale values do not linger.
+    discountMinor: value.discountType === 'fixed' ? value.discountMinor : 0,
+    discountPercent: value.discountType === 'percent' ? value.discountPercent : 0,
+    maxDiscountMinor: value.discountType === 'percent' ? value.maxDiscountMinor : null,
+  }));
+
+export type CouponSummary = {
+  id: string;
+  code: string;
+  discountType: CouponDiscountType;
+  discountMinor: number;
+  discountPercent: number;
+  maxDiscountMinor: number | null;
+  minSubtotalMinor: number;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  maxRedemptions: number | null;
+  maxRedemptionsPerCustomer: number | null;
+  active: boolean;
+  allowedCategories: string[];
+  allowedProductIds: string[];
+  allowedVariantIds: string[];
+};
+
+export type CouponPerformance = Omit<CouponRedemptionStats, 'couponId'>;
+
+export type CouponListItem = CouponSummary & {
+  performance: CouponPerformance;
+};
+
+export type CouponRedemptionView = {
+  id: string;
+  orderSessionId: string;
+  paidOrderId: string | null;
+  customerDiscordId: string;
+  customerEmailNormalized: string | null;
+  discountMinor: number;
+  subtotalMinor: number;
+  totalMinor: number;
+  currency: string;
+  status: CouponRedemptionRecord['status'];
+  reversalReason: string | null;
+  reversedAt: Date | null;
+  createdAt: Date;
+};
+
+const COUPON_REDEMPTION_LIST_LIMIT = 100;
+
+function toCouponPerformance(stats: CouponRedemptionStats | undefined): CouponPerformance {
+  return {
+    redemptionCount: stats?.redemptionCount ?? 0,
+    reversedCount: stats?.reversedCount ?? 0,
+    discountMinor: stats?.discountMinor ?? 0,
+    revenueMinor: stats?.revenueMinor ?? 0,
+    uniqueCustomers: stats?.uniqueCustomers ?? 0,
+  };
+}
+
+function mapCouponRedemptionView(record: CouponRedemptionRecord): CouponRedemptionView {
+  return {
+    id: record.id,
+    orderSessionId: record.orderSessionId,
+    paidOrderId: record.paidOrderId,
+    customerDiscordId: record.customerDiscordId,
+    customerEmailNormalized: record.customerEmailNormalized,
+    discountMinor: record.discountMinor,
+    subtotalMinor: record.subtotalMinor,
+    totalMinor: record.totalMinor,
+    currency: record.currency,
+    status: record.status,
+    reversalReason: record.reversalReason,
+    reversedAt: record.reversedAt,
+    createdAt: record.createdAt,
+  };
+}
+
+function mapCouponSummary(coupon: CouponRecord): CouponSummary {
+  return {
+    id: coupon.id,
+    code: coupon.code,
+    discountType: coupon.discountType,
+    discountMinor: coupon.discountMinor,
+    discountPercent: coupon.discountPercent,
+    maxDiscountMinor: coupon.maxDiscountMinor,
+    minSubtotalMinor: coupon.minSubtotalMinor,
+    startsAt: coupon.startsAt,
+    endsAt: coupon.endsAt,
+    maxRedemptions: coupon.maxRedemptions,
+    maxRedemptionsPerCustomer: coupon.maxRedemptionsPerCustomer,
+    active: coupon.active,
+    allowedCategories: coupon.allowedCategories,
+    allowedProductIds: coupon.allowedProductIds,
+    allowedVariantIds: coupon.allowedVariantIds,
+  };
+}
 
 export class CouponService {
   private readonly couponRepository = new CouponRepository();
+  private readonly couponRedemptionRepository = new CouponRedemptionRepository();
   private readonly productRepository = new ProductRepository();
   private readonly authorizationService = new AuthorizationService();
   private readonly guildFeatureService = new GuildFeatureService();
@@ -58,20 +218,7 @@ export class CouponService {
   public async listCoupons(
     actor: SessionPayload,
     input: { tenantId: string; guildId: string },
-  ): Promise<
-    Result<
-      Array<{
-        id: string;
-        code: string;
-        discountMinor: number;
-        active: boolean;
-        allowedCategories: string[];
-        allowedProductIds: string[];
-        allowedVariantIds: string[];
-      }>,
-      AppError
-    >
-  > {
+  ): Promise<Result<CouponListItem[], AppError>> {
     try {
       const roleCheck = await this.authorizationService.ensureTenantRole(actor, {
         tenantId: input.tenantId,
@@ -87,15 +234,16 @@ export class CouponService {
       }
 
       const coupons = await this.couponRepository.listByGuild(input);
+      const stats = await this.couponRedemptionRepository.summarizeByCoupon({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        couponIds: coupons.map((coupon) => coupon.id),
+      });
+
       return ok(
         coupons.map((coupon) => ({
-          id: coupon.id,
-          code: coupon.code,
-          discountMinor: coupon.discountMinor,
-          active: coupon.active,
-          allowedCategories: coupon.allowedCategories,
-          allowedProductIds: coupon.allowedProductIds,
-          allowedVariantIds: coupon.allowedVariantIds,
+          ...mapCouponSummary(coupon),
+          performance: toCouponPerformance(stats.get(coupon.id)),
         })),
       );
     } catch (error) {
@@ -106,20 +254,7 @@ export class CouponService {
   public async createCoupon(
     actor: SessionPayload,
     input: { tenantId: string; guildId: string; coupon: unknown },
-  ): Promise<
-    Result<
-      {
-        id: string;
-        code: string;
-        discountMinor: number;
-        active: boolean;
-        allowedCategories: string[];
-        allowedProductIds: string[];
-        allowedVariantIds: string[];
-      },
-      AppError
-    >
-  > {
+  ): Promise<Result<CouponSummary, AppError>> {
     try {
       const roleCheck = await this.authorizationService.ensureTenantRole(actor, {
         tenantId: input.tenantId,
@@ -164,22 +299,22 @@ export class CouponService {
           tenantId: input.tenantId,
           guildId: input.guildId,
           code: parsed.data.code,
+          discountType: parsed.data.discountType,
           discountMinor: parsed.data.discountMinor,
+          discountPercent: parsed.data.discountPercent,
+          maxDiscountMinor: parsed.data.maxDiscountMinor,
+          minSubtotalMinor: parsed.data.minSubtotalMinor,
+          startsAt: parsed.data.startsAt,
+          endsAt: parsed.data.endsAt,
+          maxRedemptions: parsed.data.maxRedemptions,
+          maxRedemptionsPerCustomer: parsed.data.maxRedemptionsPerCustomer,
           active: parsed.data.active,
           allowedCategories: parsed.data.allowedCategories,
           allowedProductIds: parsed.data.allowedProductIds,
           allowedVariantIds: parsed.data.allowedVariantIds,
         });
 
-        return ok({
-          id: created.id,
-          code: created.code,
-          discountMinor: created.discountMinor,
-          active: created.active,
-          allowedCategories: created.allowedCategories,
-          allowedProductIds: created.allowedProductIds,
-          allowedVariantIds: created.allowedVariantIds,
-        });
+        return ok(mapCouponSummary(created));
       } catch (error) {
         if (
           typeof error === 'object' &&
@@ -246,7 +381,15 @@ export class CouponService {
           guildId: input.guildId,
           couponId: input.couponId,
           code: parsed.data.code,
+          discountType: parsed.data.discountType,
           discountMinor: parsed.data.discountMinor,
+          discountPercent: parsed.data.discountPercent,
+          maxDiscountMinor: parsed.data.maxDiscountMinor,
+          minSubtotalMinor: parsed.data.minSubtotalMinor,
+          startsAt: parsed.data.startsAt,
+          endsAt: parsed.data.endsAt,
+          maxRedemptions: parsed.data.maxRedemptions,
+          maxRedemptionsPerCustomer: parsed.data.maxRedemptionsPerCustomer,
           active: parsed.data.active,
           allowedCategories: parsed.data.allowedCategories,
           allowedProductIds: parsed.data.allowedProductIds,
@@ -305,6 +448,195 @@ export class CouponService {
     }
   }
 
+  public async listCouponRedemptions(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string; couponId: string },
+  ): Promise<
+    Result<
+      { coupon: CouponSummary; performance: CouponPerformance; redemptions: CouponRedemptionView[] },
+      AppError
+    >
+  > {
+    try {
+      const roleCheck = await this.authorizationService.ensureTenantRole(actor, {
+        tenantId: input.tenantId,
+        minimumRole: 'member',
+      });
+      if (roleCheck.isErr()) {
+        return err(roleCheck.error);
+      }
+
+      const guildCheck = await this.authorizationService.ensureGuildBoundToTenant(input);
+      if (guildCheck.isErr()) {
+        return err(guildCheck.error);
+      }
+
+      const coupon = await this.couponRepository.getById(input);
+      if (!coupon) {
+        return err(new AppError('COUPON_NOT_FOUND', 'Coupon not found', 404));
+      }
+
+      const stats = await this.couponRedemptionRepository.summarizeByCoupon({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        couponIds: [coupon.id],
+      });
+      const redemptions = await this.couponRedemptionRepository.listByCoupon({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        couponId: coupon.id,
+        limit: COUPON_REDEMPTION_LIST_LIMIT,
+      });
+
+      return ok({
+        coupon: mapCouponSummary(coupon),
+        performance: toCouponPerformance(stats.get(coupon.id)),
+        redemptions: redemptions.map(mapCouponRedemptionView),
+      });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  /**
+   * Writes the ledger entry for a paid order that used a coupon. Safe to call again for the
+   * same order session; returns `false` when nothing new was recorded.
+   */
+  public async recordRedemptionForPaidOrder(input: {
+    orderSession: OrderSessionRecord;
+    paidOrderId: string | null;
+    totalMinor: number;
+    currency: string;
+  }): Promise<Result<boolean, AppError>> {
+    try {
+      const { orderSession } = input;
+      if (!orderSession.couponCode || orderSession.couponDiscountMinor <= 0) {
+        return ok(false);
+      }
+
+      const coupon = await this.couponRepository.getByCode({
+        tenantId: orderSession.tenantId,
+        guildId: orderSession.guildId,
+        code: orderSession.couponCode,
+      });
+
+      const recorded = await this.couponRedemptionRepository.recordRedemption({
+        tenantId: orderSession.tenantId,
+        guildId: orderSession.guildId,
+        couponId: coupon?.id ?? null,
+        couponCode: orderSession.couponCode,
+        orderSessionId: orderSession.id,
+        paidOrderId: input.paidOrderId,
+        customerDiscordId: orderSession.customerDiscordId,
+        customerEmailNormalized: resolveOrderSessionCustomerEmail(orderSession),
+        discountMinor: orderSession.couponDiscountMinor,
+        subtotalMinor: orderSession.subtotalMinor,
+        totalMinor: input.totalMinor,
+        currency: input.currency,
+      });
+
+      return ok(recorded.created);
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  /** Marks an order's redemption as reversed so it stops counting towards limits and reports. */
+  public async reverseRedemptionForOrderSession(input: {
+    tenantId: string;
+    orderSessionId: string;
+    reason: 'cancelled' | 'refunded';
+  }): Promise<Result<boolean, AppError>> {
+    try {
+      const reversed = await this.couponRedemptionRepository.reverseForOrderSession({
+        tenantId: input.tenantId,
+        orderSessionId: input.orderSessionId,
+        reason: input.reason,
+        now: new Date(),
+      });
+
+      return ok(reversed);
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  /**
+   * Looks up a coupon and checks all of its rules (schedule, usage limits, minimum basket and
+   * scope) against the basket. Used by checkout and by the bot coupon steps.
+   */
+  public async evaluateCouponForBasket(input: {
+    tenantId: string;
+    guildId: string;
+    couponCode: string;
+    basketItems: CouponScopeLine[];
+    currency: string;
+    customerEmailNormalized?: string | null;
+    customerDiscordId?: string | null;
+  }): Promise<Result<{ coupon: CouponRecord; discountMinor: number }, AppError>> {
+    try {
+      const featureCheck = await this.guildFeatureService.ensureFeatureEnabled({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        feature: 'coupons',
+      });
+      if (featureCheck.isErr()) {
+        return err(featureCheck.error);
+      }
+
+      const code = input.couponCode.trim().toUpperCase();
+      const coupon = await this.couponRepository.getByCode({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        code,
+      });
+      if (!coupon) {
+        return err(new AppError('COUPON_NOT_FOUND', `Coupon ${code} is invalid or inactive.`, 404));
+      }
+
+      const now = new Date();
+      const customer = {
+        customerEmailNormalized: input.customerEmailNormalized ?? null,
+        customerDiscordId: input.customerDiscordId ?? null,
+      };
+      const openCheckouts = await this.couponRepository.countOpenCheckouts({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        code: coupon.code,
+        ...customer,
+        now,
+      });
+      const paidRedemptions = await this.couponRedemptionRepository.countActiveRedemptions({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        couponId: coupon.id,
+        ...customer,
+      });
+      const redemptions = {
+        total: openCheckouts.total + paidRedemptions.total,
+        customer:
+          openCheckouts.customer === null || paidRedemptions.customer === null
+            ? null
+            : openCheckouts.customer + paidRedemptions.customer,
+      };
+
+      const evaluated = evaluateCouponRules({
+        coupon,
+        lines: input.basketItems,
+        redemptions,
+        currency: input.currency,
+        now,
+      });
+      if (evaluated.isErr()) {
+        return err(evaluated.error);
+      }
+
+      return ok({ coupon, discountMinor: evaluated.value });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
   private async validateCouponScopes(input: {
     tenantId: string;
     guildId: string;
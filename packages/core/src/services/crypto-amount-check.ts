@@ -0,0 +1,63 @@
+import type { PaidOrderAmountCheck } from '../repositories/order-repository.js';
+
+export type CryptoAmountCheckStatus = Exclude<PaidOrderAmountCheck, 'not_checked'>;
+
+export type CryptoAmountCheckResult = {
+  status: CryptoAmountCheckStatus;
+  /** Order-currency value of what was received, scaled from the coin amounts. */
+  receivedMinor: number;
+  /** Negative when the customer sent too little. */
+  differenceMinor: number;
+};
+
+/**
+ * Voodoo Pay coin ids look like `btc` or `trc20_usdt`, while its API nests them as `trc20/usdt`.
+ * Returns `null` for anything that is not a plain coin id.
+ */
+export function resolveVoodooCoinPath(coin: string | null | undefined): string | null {
+  const normalized = coin?.trim().toLowerCase() ?? '';
+  if (!/^[a-z0-9.]+(?:_[a-z0-9.]+)*$/.test(normalized)) {
+    return null;
+  }
+
+  return normalized.split('_').join('/');
+}
+
+export function parseCoinAmount(value: string | null | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const parsed = Number(value.trim());
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * Compares the coin amount received with the amount the order total converts to. Anything short by
+ * more than the tolerance is underpaid; overpayment is only reported when `reportOverpayment` is set,
+ * because checkouts that pass network fees on to the customer always receive a little extra.
+ */
+export function evaluateCryptoPaymentAmount(input: {
+  totalMinor: number;
+  expectedCoinAmount: number;
+  receivedCoinAmount: number;
+  tolerancePercent: number;
+  reportOverpayment: boolean;
+}): CryptoAmountCheckResult {
+  const ratio = input.receivedCoinAmount / input.expectedCoinAmount;
+  const tolerance = Math.max(0, input.tolerancePercent) / 100;
+  const receivedMinor = Math.round(input.totalMinor * ratio);
+  const differenceMinor = receivedMinor - input.totalMinor;
+
+  // Coin amounts are decimals, so allow for float noise when the tolerance is zero.
+  const epsilon = 1e-9;
+  if (ratio < 1 - tolerance - epsilon) {
+    return { status: 'underpaid', receivedMinor, differenceMinor };
+  }
+
+  if (input.reportOverpayment && ratio > 1 + tolerance + epsilon) {
+    return { status: 'overpaid', receivedMinor, differenceMinor };
+  }
+
+  return { status: 'matched', receivedMinor, differenceMinor };
+}
@@ -2,12 +2,13 @@ import { err, ok, type Result } from 'neverthrow';
 
 import { AppError, fromUnknownError } from '../domain/errors.js';
 import { IntegrationRepository } from '../repositories/integration-repository.js';
-import { OrderRepository } from '../repositories/order-repository.js';
+import { OrderRepository, type OrderSessionSource } from '../repositories/order-repository.js';
 import { TelegramLinkRepository } from '../repositories/telegram-link-repository.js';
 import { TenantRepository } from '../repositories/tenant-repository.js';
 import type { SessionPayload } from '../security/session-token.js';
 import { resolveOrderSessionCustomerEmail } from '../utils/customer-email.js';
 import { AuthorizationService } from './authorization-service.js';
+import type { AutomaticDiscountLine } from './automatic-discounts.js';
 
 type DashboardRecentSale = {
   id: string;
@@ -20,6 +21,7 @@ type DashboardRecentSale = {
   paidAt: string;
   customerEmail: string | null;
   ticketChannelId: string | null;
+  source: OrderSessionSource | null;
   productId: string | null;
   variantId: string | null;
 };
@@ -33,15 +35,21 @@ export type DashboardSale = {
   currency: string;
   status: string;
   fulfillmentStatus: 'needs_action' | 'fulfilled';
+  refundStatus: 'none' | 'partially_refunded' | 'refunded';
+  refundReason: 'refund' | 'chargeback' | null;
+  refundedMinor: number;
+  netMinor: number;
   paymentReference: string | null;
   paidAt: string;
   paidDateKey: string;
   customerEmail: string | null;
   ticketChannelId: string | null;
+  source: OrderSessionSource | null;
   productId: string | null;
   productName: string | null;
   variantId: string | null;
   variantLabel: string | null;
+  automaticDiscounts: AutomaticDiscountLine[];
 };
 
 export type DashboardSalesResult = {
@@ -51,7 +59,10 @@ export type DashboardSalesResult = {
   toDate: string | null;
   search: string;
   totalSalesMinor: number;
+  refundedSalesMinor: number;
+  netSalesMinor: number;
   totalSalesCount: number;
+  refundedSalesCount: number;
   sales: DashboardSale[];
 };
 
@@ -173,6 +184,8 @@ function matchesSearch(sale: DashboardSale, rawSearch: string): boolean {
     sale.paidAt.toLowerCase(),
     sale.productName?.toLowerCase() ?? '',
     sale.variantLabel?.toLowerCase() ?? '',
+    sale.refundStatus === 'none' ? '' : sale.refundStatus.replace('_', ' '),
+    sale.refundReason ?? '',
   ];
 
   return searchableFields.some(
@@ -265,6 +278,7 @@ export class DashboardService {
             paidAt: order.paidAt.toISOString(),
             customerEmail: session ? resolveOrderSessionCustomerEmail(session) : null,
             ticketChannelId: session?.ticketChannelId ?? null,
+            source: session?.source ?? null,
             productId: session?.productId ?? null,
             variantId: session?.variantId ?? null,
           } satisfies DashboardRecentSale;
@@ -391,15 +405,21 @@ export class DashboardService {
             currency: order.currency,
             status: order.status,
             fulfillmentStatus: order.fulfillmentStatus,
+            refundStatus: order.refundStatus,
+            refundReason: order.refundReason,
+            refundedMinor: order.refundedMinor,
+            netMinor: Math.max(0, order.priceMinor - order.refundedMinor),
             paymentReference: order.paymentReference,
             paidAt: order.paidAt.toISOString(),
             paidDateKey,
             customerEmail,
             ticketChannelId: order.ticketChannelId,
+            source: order.source,
             productId: order.productId,
             productName: primaryBasketItem?.productName ?? null,
             variantId: order.variantId,
             variantLabel: primaryBasketItem?.variantLabel ?? null,
+            automaticDiscounts: order.automaticDiscounts ?? [],
           } satisfies DashboardSale;
         })
         .filter((sale) =>
@@ -422,7 +442,10 @@ export class DashboardService {
         toDate,
         search,
         totalSalesMinor: sales.reduce((sum, sale) => sum + sale.priceMinor, 0),
+        refundedSalesMinor: sales.reduce((sum, sale) => sum + sale.refundedMinor, 0),
+        netSalesMinor: sales.reduce((sum, sale) => sum + sale.netMinor, 0),
         totalSalesCount: sales.length,
+        refundedSalesCount: sales.filter((sale) => sale.refundStatus !== 'none').length,
         sales,
       });
     } catch (error) {
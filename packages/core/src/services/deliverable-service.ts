@@ -0,0 +1,389 @@
+import { err, ok, type Result } from 'neverthrow';
+import { z } from 'zod';
+
+import { getEnv } from '../config/env.js';
+import { AppError, fromUnknownError, validationError } from '../domain/errors.js';
+import {
+  DeliverableRepository,
+  type DeliverablePoolCounts,
+  type DeliverableStatus,
+} from '../repositories/deliverable-repository.js';
+import { OrderRepository, type OrderSessionRecord } from '../repositories/order-repository.js';
+import { ProductRepository } from '../repositories/product-repository.js';
+import { decryptSecret, encryptSecret } from '../security/encryption.js';
+import type { SessionPayload } from '../security/session-token.js';
+import { AuthorizationService } from './authorization-service.js';
+import { buildDeliveryMessages, maskDeliverable, parseDeliverableCsv, type DeliveredItemGroup } from './deliverables.js';
+import { PaidOrderService } from './paid-order-service.js';
+import { summarizeStockDemand } from './variant-stock.js';
+
+const MAX_DELIVERABLES_PER_UPLOAD = 5000;
+const DELIVERABLE_LIST_LIMIT = 200;
+
+const addDeliverablesSchema = z
+  .object({
+    entries: z.array(z.string().max(1000)).max(MAX_DELIVERABLES_PER_UPLOAD).optional().default([]),
+    csv: z.string().max(1_000_000).optional(),
+  })
+  .transform((value) => {
+    const seen = new Set<string>();
+    const entries: string[] = [];
+    for (const entry of [...value.entries, ...(value.csv ? parseDeliverableCsv(value.csv) : [])]) {
+      const normalized = entry.trim();
+      if (normalized.length > 0 && !seen.has(normalized)) {
+        seen.add(normalized);
+        entries.push(normalized);
+      }
+    }
+
+    return entries;
+  })
+  .pipe(
+    z
+      .array(z.string().max(1000, 'Each key or credential can be at most 1000 characters.'))
+      .min(1, 'Add at least one key or credential.')
+      .max(MAX_DELIVERABLES_PER_UPLOAD, `Upload at most ${MAX_DELIVERABLES_PER_UPLOAD} items at a time.`),
+  );
+
+export type DeliverableSummary = {
+  id: string;
+  preview: string;
+  status: DeliverableStatus;
+  paidOrderId: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+};
+
+export type DeliverableFulfillmentStatus = 'not_applicable' | 'delivered' | 'partial' | 'failed';
+
+export type DeliverableFulfillmentOutcome = {
+  status: DeliverableFulfillmentStatus;
+  /** True when every basket line was delivered and the paid order is now marked fulfilled. */
+  fulfilled: boolean;
+  /** Staff-facing lines for the paid log. They never contain the delivered secrets. */
+  summaryLines: string[];
+};
+
+type PoolScope = {
+  tenantId: string;
+  guildId: string;
+  productId: string;
+  variantId: string;
+};
+
+export class DeliverableService {
+  private readonly env = getEnv();
+  private readonly deliverableRepository = new DeliverableRepository();
+  private readonly orderRepository = new OrderRepository();
+  private readonly productRepository = new ProductRepository();
+  private readonly authorizationService = new AuthorizationService();
+  private readonly paidOrderService = new PaidOrderService();
+
+  public async listDeliverables(
+    actor: SessionPayload,
+    input: PoolScope,
+  ): Promise<Result<{ pool: DeliverablePoolCounts; items: DeliverableSummary[] }, AppError>> {
+    try {
+      const scopeCheck = await this.ensurePoolScope(actor, input, 'member');
+      if (scopeCheck.isErr()) {
+        return err(scopeCheck.error);
+      }
+
+      const [records, pool] = await Promise.all([
+        this.deliverableRepository.listByVariant({
+          tenantId: input.tenantId,
+          guildId: input.guildId,
+          variantId: input.variantId,
+          limit: DELIVERABLE_LIST_LIMIT,
+        }),
+        this.getPoolCounts(input),
+      ]);
+
+      return ok({
+        pool,
+        items: records.map((record) => ({
+          id: record.id,
+          preview: maskDeliverable(decryptSecret(record.secretEncrypted, this.env.ENCRYPTION_KEY)),
+          status: record.status,
+          paidOrderId: record.paidOrderId,
+          deliveredAt: record.deliveredAt?.toISOString() ?? null,
+          createdAt: record.createdAt.toISOString(),
+        })),
+      });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  public async addDeliverables(
+    actor: SessionPayload,
+    input: PoolScope & { entries?: unknown; csv?: unknown },
+  ): Promise<Result<{ added: number; pool: DeliverablePoolCounts }, AppError>> {
+    try {
+      const scopeCheck = await this.ensurePoolScope(actor, input, 'admin');
+      if (scopeCheck.isErr()) {
+        return err(scopeCheck.error);
+      }
+
+      const parsed = addDeliverablesSchema.safeParse({ entries: input.entries, csv: input.csv });
+      if (!parsed.success) {
+        return err(validationError(parsed.error.issues));
+      }
+
+      const added = await this.deliverableRepository.addMany({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        productId: input.productId,
+        variantId: input.variantId,
+        secretsEncrypted: parsed.data.map((entry) => encryptSecret(entry, this.env.ENCRYPTION_KEY)),
+      });
+
+      return ok({ added, pool: await this.getPoolCounts(input) });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  public async deleteDeliverable(
+    actor: SessionPayload,
+    input: PoolScope & { deliverableId: string },
+  ): Promise<Result<void, AppError>> {
+    try {
+      const scopeCheck = await this.ensurePoolScope(actor, input, 'admin');
+      if (scopeCheck.isErr()) {
+        return err(scopeCheck.error);
+      }
+
+      const deleted = await this.deliverableRepository.deleteAvailable(input);
+      if (!deleted) {
+        return err(
+          new AppError('DELIVERABLE_NOT_FOUND', 'Key not found, or it has already been delivered.', 404),
+        );
+      }
+
+      return ok(undefined);
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  /**
+   * Claims pool items for every basket line whose variant has a pool, sends them to the customer
+   * and marks the paid order fulfilled once nothing is left for staff to do. Safe to call again
+   * for the same paid order: items claimed by an earlier attempt are reused, not claimed twice.
+   */
+  public async fulfillPaidOrder(input: {
+    orderSession: OrderSessionRecord;
+    paidOrderId: string;
+  }): Promise<Result<DeliverableFulfillmentOutcome, AppError>> {
+    try {
+      const { orderSession } = input;
+      const paidOrder = await this.orderRepository.getPaidOrderById(input.paidOrderId);
+      if (!paidOrder) {
+        return err(new AppError('PAID_ORDER_NOT_FOUND', 'Paid order not found for delivery.', 404));
+      }
+      if (paidOrder.fulfillmentStatus === 'fulfilled') {
+        return ok({ status: 'not_applicable', fulfilled: true, summaryLines: [] });
+      }
+
+      const lines =
+        orderSession.basketItems.length > 0
+          ? orderSession.basketItems
+          : [{ variantId: orderSession.variantId, productName: 'Product', variantLabel: 'Option' }];
+      const demand = summarizeStockDemand(lines);
+      const pools = await this.deliverableRepository.countByVariants({
+        tenantId: orderSession.tenantId,
+        guildId: orderSession.guildId,
+        variantIds: demand.map((entry) => entry.variantId),
+      });
+      const pooledVariantIds = new Set(
+        pools.filter((pool) => pool.available + pool.delivered > 0).map((pool) => pool.variantId),
+      );
+      if (pooledVariantIds.size === 0) {
+        return ok({ status: 'not_applicable', fulfilled: false, summaryLines: [] });
+      }
+
+      const heldBefore = await this.deliverableRepository.listClaimedByPaidOrder({
+        tenantId: orderSession.tenantId,
+        paidOrderId: paidOrder.id,
+      });
+      const now = new Date();
+      for (const entry of demand) {
+        if (!pooledVariantIds.has(entry.variantId)) {
+          continue;
+        }
+
+        const claimedBefore = heldBefore.filter((item) => item.variantId === entry.variantId).length;
+        await this.deliverableRepository.claimForPaidOrder({
+          tenantId: orderSession.tenantId,
+          variantId: entry.variantId,
+          orderSessionId: orderSession.id,
+          paidOrderId: paidOrder.id,
+          quantity: entry.quantity - claimedBefore,
+          now,
+        });
+      }
+
+      const held = await this.deliverableRepository.listClaimedByPaidOrder({
+        tenantId: orderSession.tenantId,
+        paidOrderId: paidOrder.id,
+      });
+      const heldBeforeIds = new Set(heldBefore.map((item) => item.id));
+      const claimedNowIds = held
+        .filter((item) => item.status === 'claimed' && !heldBeforeIds.has(item.id))
+        .map((item) => item.id);
+
+      const summaryLines: string[] = [];
+      const groups: DeliveredItemGroup[] = [];
+      const sendingIds: string[] = [];
+      let outstanding = 0;
+      for (const entry of demand) {
+        const line = lines.find((item) => item.variantId === entry.variantId);
+        const label = line ? `${line.productName} / ${line.variantLabel}` : entry.variantId;
+        if (!pooledVariantIds.has(entry.variantId)) {
+          outstanding += entry.quantity;
+          summaryLines.push(`- ${label}: no key pool, deliver manually`);
+          continue;
+        }
+
+        // Keys delivered by an earlier attempt count towards the line but are never sent twice.
+        const items = held.filter((item) => item.variantId === entry.variantId).slice(0, entry.quantity);
+        const pending = items.filter((item) => item.status === 'claimed');
+        const missing = entry.quantity - items.length;
+        outstanding += missing;
+        summaryLines.push(
+          missing > 0
+            ? `- ${label}: ${items.length}/${entry.quantity} delivered, pool empty - deliver ${missing} manually`
+            : `- ${label}: ${items.length} delivered from pool`,
+        );
+
+        if (pending.length > 0) {
+          sendingIds.push(...pending.map((item) => item.id));
+          groups.push({
+            productName: line?.productName ?? 'Product',
+            variantLabel: line?.variantLabel ?? entry.variantId,
+            secrets: pending.map((item) => decryptSecret(item.secretEncrypted, this.env.ENCRYPTION_KEY)),
+          });
+        }
+      }
+
+      if (groups.length === 0) {
+        if (outstanding > 0) {
+          return ok({ status: 'failed', fulfilled: false, summaryLines });
+        }
+
+        // An earlier attempt already delivered every key; only the fulfilment mark was missing.
+        await this.orderRepository.markPaidOrderFulfilled({
+          paidOrderId: paidOrder.id,
+          actorDiscordUserId: null,
+        });
+
+        return ok({ status: 'delivered', fulfilled: true, summaryLines });
+      }
+
+      const messages = buildDeliveryMessages({ orderSessionId: orderSession.id, groups });
+      let sent = 0;
+      let target: string | null = null;
+      let errorMessage: string | null = null;
+      for (const content of messages) {
+        const notification = await this.paidOrderService.deliverOrderContentToCustomer({
+          orderSession,
+          content,
+        });
+        if (!notification.delivered) {
+          errorMessage = notification.errorMessage;
+          break;
+        }
+
+        target = notification.target;
+        sent += 1;
+      }
+
+      if (sent === 0) {
+        // Nothing reached the customer, so this attempt's claims go back to the pool for staff to hand out.
+        await this.deliverableRepository.releaseClaimsForPaidOrder({
+          tenantId: orderSession.tenantId,
+          paidOrderId: paidOrder.id,
+          deliverableIds: claimedNowIds,
+        });
+
+        return ok({
+          status: 'failed',
+          fulfilled: false,
+          summaryLines: [
+            `- Delivery to the customer failed: ${errorMessage ?? 'unknown error'}. Keys were returned to the pool; deliver manually.`,
+          ],
+        });
+      }
+
+      // Once any message went out the customer may hold any of these keys, so none go back to the pool.
+      await this.deliverableRepository.markClaimsDelivered({
+        tenantId: orderSession.tenantId,
+        paidOrderId: paidOrder.id,
+        deliverableIds: sendingIds,
+        now,
+      });
+
+      if (sent < messages.length) {
+        return ok({
+          status: 'partial',
+          fulfilled: false,
+          summaryLines: [
+            ...summaryLines,
+            `- Only ${sent}/${messages.length} delivery message(s) reached the customer: ${errorMessage ?? 'unknown error'}`,
+          ],
+        });
+      }
+
+      summaryLines.push(`- Sent via ${target === 'discord_channel' ? 'ticket channel' : 'DM'}`);
+      if (outstanding > 0) {
+        return ok({ status: 'partial', fulfilled: false, summaryLines });
+      }
+
+      await this.orderRepository.markPaidOrderFulfilled({
+        paidOrderId: paidOrder.id,
+        actorDiscordUserId: null,
+      });
+
+      return ok({ status: 'delivered', fulfilled: true, summaryLines });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  private async getPoolCounts(input: PoolScope): Promise<DeliverablePoolCounts> {
+    const [pool] = await this.deliverableRepository.countByVariants({
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+      variantIds: [input.variantId],
+    });
+
+    return pool ?? { variantId: input.variantId, available: 0, delivered: 0 };
+  }
+
+  private async ensurePoolScope(
+    actor: SessionPayload,
+    input: PoolScope,
+    minimumRole: 'admin' | 'member',
+  ): Promise<Result<void, AppError>> {
+    const roleCheck = await this.authorizationService.ensureTenantRole(actor, {
+      tenantId: input.tenantId,
+      minimumRole,
+    });
+    if (roleCheck.isErr()) {
+      return err(roleCheck.error);
+    }
+
+    const guildCheck = await this.authorizationService.ensureGuildBoundToTenant(input);
+    if (guildCheck.isErr()) {
+      return err(guildCheck.error);
+    }
+
+    const product = await this.productRepository.getById(input);
+    if (!product?.variants.some((variant) => variant.id === input.variantId)) {
+      return err(new AppError('VARIANT_NOT_FOUND', 'Price option not found for this product.', 404));
+    }
+
+    return ok(undefined);
+  }
+}
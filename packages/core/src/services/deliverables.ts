@@ -0,0 +1,129 @@
+const HEADER_CELLS = new Set(['key', 'keys', 'code', 'licence', 'license', 'value', 'deliverable']);
+
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell.trim().length === 0) {
+      cell = '';
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index += 1;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell);
+  rows.push(row);
+  return rows;
+}
+
+/**
+ * Turns an uploaded CSV into deliverables, one per row. Rows with several filled cells (e.g.
+ * username and password) are joined with ` | `. A leading header row and duplicates are dropped.
+ */
+export function parseDeliverableCsv(text: string): string[] {
+  const entries: string[] = [];
+  const seen = new Set<string>();
+
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  rows.forEach((row, rowIndex) => {
+    const cells = row.map((cell) => cell.trim()).filter((cell) => cell.length > 0);
+    const firstCell = cells[0];
+    if (!firstCell) {
+      return;
+    }
+
+    if (rowIndex === 0 && HEADER_CELLS.has(firstCell.toLowerCase())) {
+      return;
+    }
+
+    const entry = cells.join(' | ');
+    if (!seen.has(entry)) {
+      seen.add(entry);
+      entries.push(entry);
+    }
+  });
+
+  return entries;
+}
+
+/** Keeps enough of a stored key for staff to recognise it without exposing it on the dashboard. */
+export function maskDeliverable(value: string): string {
+  const normalized = value.trim();
+  if (normalized.length <= 4) {
+    return '*'.repeat(Math.max(4, normalized.length));
+  }
+
+  const visible = Math.min(4, Math.floor(normalized.length / 4));
+  return `${normalized.slice(0, visible)}${'*'.repeat(8)}${normalized.slice(-visible)}`;
+}
+
+export type DeliveredItemGroup = {
+  productName: string;
+  variantLabel: string;
+  secrets: string[];
+};
+
+/**
+ * Plain-text delivery messages, split so none exceeds `maxLength`. Plain text reads the same in a
+ * Discord DM, a ticket channel and a Telegram chat. A single oversized item gets a message to itself.
+ */
+export function buildDeliveryMessages(input: {
+  orderSessionId: string;
+  groups: DeliveredItemGroup[];
+  maxLength?: number;
+}): string[] {
+  const maxLength = input.maxLength ?? 1800;
+  const messages: string[] = [];
+  let current = `Your order is ready (Order Session: ${input.orderSessionId})`;
+
+  for (const group of input.groups) {
+    const header = `${group.productName} / ${group.variantLabel}:`;
+    if (current.length + header.length + 2 <= maxLength) {
+      current = `${current}\n\n${header}`;
+    } else {
+      messages.push(current);
+      current = header;
+    }
+
+    for (const secret of group.secrets) {
+      if (current.length + secret.length + 1 <= maxLength) {
+        current = `${current}\n${secret}`;
+      } else {
+        messages.push(current);
+        current = `${header} (continued)\n${secret}`;
+      }
+    }
+  }
+
+  messages.push(current);
+  return messages;
+}
@@ -0,0 +1,275 @@
+import { err, ok, type Result } from 'neverthrow';
+import { z } from 'zod';
+
+import { getEnv } from '../config/env.js';
+import { AppError, fromUnknownError, validationError } from '../domain/errors.js';
+import { logger } from '../infra/logger.js';
+import { ExchangeRateRepository, type ExchangeRateRecord } from '../repositories/exchange-rate-repository.js';
+import type { SessionPayload } from '../security/session-token.js';
+import { AuthorizationService } from './authorization-service.js';
+import {
+  convertMinorAmount,
+  createHttpExchangeRateSource,
+  type ExchangeRateSnapshot,
+  type ExchangeRateSource,
+  findExchangeRate,
+  toExchangeRateSnapshot,
+} from './exchange-rates.js';
+
+const currencySchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z]{3}$/, 'Currency must be a 3-letter ISO code.')
+  .transform((value) => value.toUpperCase());
+
+const exchangeRatePayloadSchema = z
+  .object({
+    fromCurrency: currencySchema,
+    toCurrency: currencySchema,
+    rate: z.number().positive().finite(),
+  })
+  .refine((value) => value.fromCurrency !== value.toCurrency, {
+    path: ['toCurrency'],
+    message: 'Pick two different currencies.',
+  });
+
+export type ExchangeRateSummary = {
+  id: string;
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  source: string;
+  updatedAt: Date;
+};
+
+function mapExchangeRateSummary(record: ExchangeRateRecord): ExchangeRateSummary {
+  return {
+    id: record.id,
+    fromCurrency: record.fromCurrency,
+    toCurrency: record.toCurrency,
+    rate: record.rate,
+    source: record.source,
+    updatedAt: record.updatedAt,
+  };
+}
+
+function resolveConfiguredExchangeRateSource(): ExchangeRateSource | null {
+  const baseUrl = getEnv().FX_RATES_API_BASE_URL.trim();
+  return baseUrl ? createHttpExchangeRateSource(baseUrl) : null;
+}
+
+export class ExchangeRateService {
+  private readonly exchangeRateRepository = new ExchangeRateRepository();
+  private readonly authorizationService = new AuthorizationService();
+
+  constructor(private readonly rateSource: ExchangeRateSource | null = resolveConfiguredExchangeRateSource()) {}
+
+  public async listRates(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string },
+  ): Promise<Result<ExchangeRateSummary[], AppError>> {
+    try {
+      const access = await this.ensureAccess(actor, { ...input, minimumRole: 'member' });
+      if (access.isErr()) {
+        return err(access.error);
+      }
+
+      const rates = await this.exchangeRateRepository.listByGuild(input);
+      return ok(rates.map(mapExchangeRateSummary));
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  public async upsertRate(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string; rate: unknown },
+  ): Promise<Result<ExchangeRateSummary, AppError>> {
+    try {
+      const access = await this.ensureAccess(actor, { ...input, minimumRole: 'admin' });
+      if (access.isErr()) {
+        return err(access.error);
+      }
+
+      const parsed = exchangeRatePayloadSchema.safeParse(input.rate);
+      if (!parsed.success) {
+        return err(validationError(parsed.error.issues));
+      }
+
+      const saved = await this.exchangeRateRepository.upsertRate({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        fromCurrency: parsed.data.fromCurrency,
+        toCurrency: parsed.data.toCurrency,
+        rate: parsed.data.rate,
+        source: 'manual',
+      });
+
+      return ok(mapExchangeRateSummary(saved));
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  public async deleteRate(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string; rateId: string },
+  ): Promise<Result<void, AppError>> {
+    try {
+      const access = await this.ensureAccess(actor, { ...input, minimumRole: 'admin' });
+      if (access.isErr()) {
+        return err(access.error);
+      }
+
+      const deleted = await this.exchangeRateRepository.deleteRate(input);
+      if (!deleted) {
+        return err(new AppError('EXCHANGE_RATE_NOT_FOUND', 'Exchange rate not found', 404));
+      }
+
+      return ok(undefined);
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  /**
+   * Re-fetches every configured currency pair from the rate source. Pairs the source does not quote
+   * keep their current rate.
+   */
+  public async refreshRates(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string },
+  ): Promise<Result<ExchangeRateSummary[], AppError>> {
+    try {
+      const access = await this.ensureAccess(actor, { ...input, minimumRole: 'admin' });
+      if (access.isErr()) {
+        return err(access.error);
+      }
+
+      if (!this.rateSource) {
+        return err(
+          new AppError(
+            'EXCHANGE_RATE_SOURCE_NOT_CONFIGURED',
+            'No exchange rate source is configured. Set FX_RATES_API_BASE_URL or maintain rates manually.',
+            422,
+          ),
+        );
+      }
+
+      const existing = await this.exchangeRateRepository.listByGuild(input);
+      const quotesByBase = new Map<string, string[]>();
+      for (const rate of existing) {
+        quotesByBase.set(rate.fromCurrency, [...(quotesByBase.get(rate.fromCurrency) ?? []), rate.toCurrency]);
+      }
+
+      for (const [baseCurrency, quoteCurrencies] of quotesByBase) {
+        let fetched: Record<string, number>;
+        try {
+          fetched = await this.rateSource.fetchRates({ baseCurrency, quoteCurrencies });
+        } catch (error) {
+          logger.warn(
+            { err: error, tenantId: input.tenantId, guildId: input.guildId, baseCurrency },
+            'exchange rate refresh failed',
+          );
+          return err(
+            new AppError('EXCHANGE_RATE_REFRESH_FAILED', `Could not refresh ${baseCurrency} exchange rates`, 502),
+          );
+        }
+
+        for (const toCurrency of quoteCurrencies) {
+          const rate = fetched[toCurrency];
+          if (rate === undefined) {
+            continue;
+          }
+
+          await this.exchangeRateRepository.upsertRate({
+            tenantId: input.tenantId,
+            guildId: input.guildId,
+            fromCurrency: baseCurrency,
+            toCurrency,
+            rate,
+            source: this.rateSource.name,
+          });
+        }
+      }
+
+      const refreshed = await this.exchangeRateRepository.listByGuild(input);
+      return ok(refreshed.map(mapExchangeRateSummary));
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  /**
+   * Converts item prices into `targetCurrency` using the guild's rates. Returns the rates that were
+   * used so they can be snapshotted on the order session.
+   */
+  public async convertPrices<T extends { priceMinor: number; currency: string }>(input: {
+    tenantId: string;
+    guildId: string;
+    targetCurrency: string;
+    items: T[];
+  }): Promise<Result<{ items: T[]; rates: ExchangeRateSnapshot[] }, AppError>> {
+    try {
+      const targetCurrency = input.targetCurrency.toUpperCase();
+      if (input.items.every((item) => item.currency.toUpperCase() === targetCurrency)) {
+        return ok({ items: input.items, rates: [] });
+      }
+
+      const quotes = await this.exchangeRateRepository.listByGuild({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+      });
+      const used = new Map<string, ExchangeRateSnapshot>();
+      const items: T[] = [];
+
+      for (const item of input.items) {
+        const fromCurrency = item.currency.toUpperCase();
+        if (fromCurrency === targetCurrency) {
+          items.push({ ...item, currency: targetCurrency });
+          continue;
+        }
+
+        const quote = findExchangeRate(quotes, fromCurrency, targetCurrency);
+        if (!quote) {
+          return err(
+            new AppError(
+              'EXCHANGE_RATE_MISSING',
+              `No exchange rate from ${fromCurrency} to ${targetCurrency} is configured for this server.`,
+              422,
+            ),
+          );
+        }
+
+        used.set(fromCurrency, toExchangeRateSnapshot(quote));
+        items.push({
+          ...item,
+          priceMinor: convertMinorAmount(item.priceMinor, quote.rate),
+          currency: targetCurrency,
+        });
+      }
+
+      return ok({ items, rates: [...used.values()] });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  private async ensureAccess(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string; minimumRole: 'member' | 'admin' },
+  ): Promise<Result<void, AppError>> {
+    const roleCheck = await this.authorizationService.ensureTenantRole(actor, {
+      tenantId: input.tenantId,
+      minimumRole: input.minimumRole,
+    });
+    if (roleCheck.isErr()) {
+      return err(roleCheck.error);
+    }
+
+    return this.authorizationService.ensureGuildBoundToTenant({
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+    });
+  }
+}
@@ -0,0 +1,100 @@
+export type ExchangeRateQuote = {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  source: string;
+  updatedAt: Date;
+};
+
+/** Rate used for an order, stored on the order session so totals can be audited later. */
+export type ExchangeRateSnapshot = {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  source: string;
+  updatedAt: string;
+};
+
+/**
+ * Somewhere to refresh guild exchange rates from. Returns units of each quote currency per one unit of
+ * `baseCurrency`; currencies the source does not know are left out.
+ */
+export type ExchangeRateSource = {
+  name: string;
+  fetchRates(input: { baseCurrency: string; quoteCurrencies: string[] }): Promise<Record<string, number>>;
+};
+
+/**
+ * Finds the rate from one currency to another. A stored rate for the opposite direction is inverted
+ * when there is no direct one.
+ */
+export function findExchangeRate(
+  quotes: ExchangeRateQuote[],
+  fromCurrency: string,
+  toCurrency: string,
+): ExchangeRateQuote | null {
+  const direct = quotes.find((quote) => quote.fromCurrency === fromCurrency && quote.toCurrency === toCurrency);
+  if (direct && direct.rate > 0) {
+    return direct;
+  }
+
+  const inverse = quotes.find((quote) => quote.fromCurrency === toCurrency && quote.toCurrency === fromCurrency);
+  if (inverse && inverse.rate > 0) {
+    return {
+      fromCurrency,
+      toCurrency,
+      rate: 1 / inverse.rate,
+      source: inverse.source,
+      updatedAt: inverse.updatedAt,
+    };
+  }
+
+  return null;
+}
+
+export function convertMinorAmount(minor: number, rate: number): number {
+  return Math.round(minor * rate);
+}
+
+export function toExchangeRateSnapshot(quote: ExchangeRateQuote): ExchangeRateSnapshot {
+  return {
+    fromCurrency: quote.fromCurrency,
+    toCurrency: quote.toCurrency,
+    rate: quote.rate,
+    source: quote.source,
+    updatedAt: quote.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Source for any API that answers `GET {baseUrl}/latest?from=USD&to=EUR,GBP` with `{ "rates": { ... } }`,
+ * such as Frankfurter.
+ */
+export function createHttpExchangeRateSource(baseUrl: string): ExchangeRateSource {
+  const latestUrl = new URL('latest', baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`);
+
+  return {
+    name: latestUrl.hostname,
+    async fetchRates(input) {
+      const url = new URL(latestUrl);
+      url.searchParams.set('from', input.baseCurrency);
+      url.searchParams.set('to', input.quoteCurrencies.join(','));
+
+      const response = await fetch(url.toString());
+      if (!response.ok) {
+        throw new Error(`Exchange rate source responded with status ${response.status}`);
+      }
+
+      const payload = (await response.json()) as { rates?: Record<string, unknown> };
+      const rates: Record<string, number> = {};
+      for (const [currency, value] of Object.entries(payload.rates ?? {})) {
+        const rate = Number(value);
+        if (Number.isFinite(rate) && rate > 0) {
+          rates[currency.toUpperCase()] = rate;
+        }
+      }
+
+      return rates;
+    },
+  };
+}
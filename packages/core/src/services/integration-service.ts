@@ -11,6 +11,8 @@ import { IntegrationRepository } from '../repositories/integration-repository.js
 import { AuthorizationService } from './authorization-service.js';
 
 export const DEFAULT_VOODOO_PAY_CHECKOUT_DOMAIN = 'checkout.voodoo-pay.uk';
+export const DEFAULT_CRYPTO_UNDERPAYMENT_TOLERANCE_PERCENT = 1;
+export const MAX_CRYPTO_UNDERPAYMENT_TOLERANCE_PERCENT = 10;
 
 const integrationInputSchema = z.object({
   wpBaseUrl: z.string().url(),
@@ -31,6 +33,12 @@ const voodooIntegrationInputSchema = z.object({
   callbackSecret: z.string().min(16).max(255).optional(),
   cryptoGatewayEnabled: z.boolean().default(false),
   cryptoAddFees: z.boolean().default(false),
+  cryptoUnderpaymentTolerancePercent: z
+    .number()
+    .int()
+    .min(0)
+    .max(MAX_CRYPTO_UNDERPAYMENT_TOLERANCE_PERCENT)
+    .default(DEFAULT_CRYPTO_UNDERPAYMENT_TOLERANCE_PERCENT),
   cryptoWallets: z
     .object({
       evm: z.string().max(191).nullish(),
@@ -44,6 +52,17 @@ const voodooIntegrationInputSchema = z.object({
     .default({}),
 });
 
+const stripeIntegrationInputSchema = z.object({
+  secretKey: z
+    .string()
+    .trim()
+    .regex(/^(sk|rk)_(test|live)_[A-Za-z0-9]+$/, 'secretKey must be a Stripe secret or restricted API key'),
+  webhookSecret: z
+    .string()
+    .trim()
+    .regex(/^whsec_[A-Za-z0-9]+$/, 'webhookSecret must be the signing secret of a Stripe webhook endpoint'),
+});
+
 export function normalizeCheckoutDomain(value: string): string {
   const trimmed = value.trim();
   if (trimmed.length === 0) {
@@ -132,6 +151,7 @@ export type VoodooPayIntegrationResolved = {
   merchantWalletAddress: string;
   cryptoGatewayEnabled: boolean;
   cryptoAddFees: boolean;
+  cryptoUnderpaymentTolerancePercent: number;
   cryptoWallets: {
     evm: string | null;
     btc: string | null;
@@ -146,6 +166,14 @@ export type VoodooPayIntegrationResolved = {
   callbackSecret: string;
 };
 
+export type StripeIntegrationResolved = {
+  tenantId: string;
+  guildId: string;
+  tenantWebhookKey: string;
+  secretKey: string;
+  webhookSecret: string;
+};
+
 export class IntegrationService {
   private readonly env = getEnv();
   private readonly integrationRepository = new IntegrationRepository();
@@ -258,6 +286,7 @@ export class IntegrationService {
         merchantWalletAddress: config.merchantWalletAddress,
         cryptoGatewayEnabled: config.cryptoGatewayEnabled,
         cryptoAddFees: config.cryptoAddFees,
+        cryptoUnderpaymentTolerancePercent: config.cryptoUnderpaymentTolerancePercent,
         cryptoWallets,
         checkoutDomain,
         tenantWebhookKey: webhookKey,
@@ -274,6 +303,52 @@ export class IntegrationService {
     }
   }
 
+  public async upsertStripeConfig(
+    actor: SessionPayload,
+    input: {
+      tenantId: string;
+      guildId: string;
+      payload: unknown;
+    },
+  ): Promise<Result<{ webhookUrl: string; tenantWebhookKey: string }, AppError>> {
+    try {
+      const roleCheck = await this.authorizationService.ensureTenantRole(actor, {
+        tenantId: input.tenantId,
+        minimumRole: 'admin',
+      });
+      if (roleCheck.isErr()) {
+        return err(roleCheck.error);
+      }
+
+      const parsed = stripeIntegrationInputSchema.safeParse(input.payload);
+      if (!parsed.success) {
+        return err(validationError(parsed.error.issues));
+      }
+
+      // The webhook URL is registered in the Stripe dashboard, so re-saving keys must not change it.
+      const existing = await this.integrationRepository.getStripeIntegrationByGuild({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+      });
+      const webhookKey = existing?.tenantWebhookKey ?? ulid().toLowerCase();
+
+      await this.integrationRepository.upsertStripeIntegration({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        tenantWebhookKey: webhookKey,
+        secretKeyEncrypted: encryptSecret(parsed.data.secretKey, this.env.ENCRYPTION_KEY),
+        webhookSecretEncrypted: encryptSecret(parsed.data.webhookSecret, this.env.ENCRYPTION_KEY),
+      });
+
+      return ok({
+        webhookUrl: `${this.env.BOT_PUBLIC_URL}/api/webhooks/stripe/${webhookKey}`,
+        tenantWebhookKey: webhookKey,
+      });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
   public async getResolvedWooIntegrationByGuild(input: {
     tenantId: string;
     guildId: string;
@@ -316,6 +391,7 @@ export class IntegrationService {
         merchantWalletAddress: row.merchantWalletAddress,
         cryptoGatewayEnabled: row.cryptoGatewayEnabled,
         cryptoAddFees: row.cryptoAddFees,
+        cryptoUnderpaymentTolerancePercent: row.cryptoUnderpaymentTolerancePercent,
         cryptoWallets: row.cryptoWallets,
         checkoutDomain: DEFAULT_VOODOO_PAY_CHECKOUT_DOMAIN,
         tenantWebhookKey: row.tenantWebhookKey,
@@ -364,6 +440,7 @@ export class IntegrationService {
         merchantWalletAddress: row.merchantWalletAddress,
         cryptoGatewayEnabled: row.cryptoGatewayEnabled,
         cryptoAddFees: row.cryptoAddFees,
+        cryptoUnderpaymentTolerancePercent: row.cryptoUnderpaymentTolerancePercent,
         cryptoWallets: row.cryptoWallets,
         checkoutDomain: DEFAULT_VOODOO_PAY_CHECKOUT_DOMAIN,
         tenantWebhookKey: row.tenantWebhookKey,
@@ -373,4 +450,47 @@ export class IntegrationService {
       return err(fromUnknownError(error));
     }
   }
+
+  public async getResolvedStripeIntegrationByGuild(input: {
+    tenantId: string;
+    guildId: string;
+  }): Promise<Result<StripeIntegrationResolved, AppError>> {
+    try {
+      const row = await this.integrationRepository.getStripeIntegrationByGuild(input);
+      if (!row) {
+        return err(new AppError('STRIPE_INTEGRATION_NOT_CONFIGURED', 'Stripe integration is not configured', 404));
+      }
+
+      return ok({
+        tenantId: row.tenantId,
+        guildId: row.guildId,
+        tenantWebhookKey: row.tenantWebhookKey,
+        secretKey: decryptSecret(row.secretKeyEncrypted, this.env.ENCRYPTION_KEY),
+        webhookSecret: decryptSecret(row.webhookSecretEncrypted, this.env.ENCRYPTION_KEY),
+      });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  public async getResolvedStripeIntegrationByWebhookKey(
+    tenantWebhookKey: string,
+  ): Promise<Result<StripeIntegrationResolved, AppError>> {
+    try {
+      const row = await this.integrationRepository.getStripeIntegrationByWebhookKey(tenantWebhookKey);
+      if (!row) {
+        return err(new AppError('STRIPE_INTEGRATION_NOT_FOUND', 'Stripe integration not found', 404));
+      }
+
+      return ok({
+        tenantId: row.tenantId,
+        guildId: row.guildId,
+        tenantWebhookKey: row.tenantWebhookKey,
+        secretKey: decryptSecret(row.secretKeyEncrypted, this.env.ENCRYPTION_KEY),
+        webhookSecret: decryptSecret(row.webhookSecretEncrypted, this.env.ENCRYPTION_KEY),
+      });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
 }
@@ -0,0 +1,180 @@
+import { err, ok, type Result } from 'neverthrow';
+
+import { AppError, fromUnknownError } from '../domain/errors.js';
+import type { OrderSessionRecord, OrderSessionStockReservationState } from '../repositories/order-repository.js';
+import { VariantStockRepository } from '../repositories/variant-stock-repository.js';
+import { isLowStock, resolveAvailableStock, summarizeStockDemand, type StockDemand } from './variant-stock.js';
+
+export type StockBasketItem = {
+  variantId: string;
+  productName: string;
+  variantLabel: string;
+  quantity?: number;
+};
+
+export type LowStockAlert = {
+  variantId: string;
+  productName: string;
+  variantLabel: string;
+  stockQuantity: number;
+  lowStockThreshold: number;
+};
+
+function describeBasketItem(items: StockBasketItem[], variantId: string): string {
+  const item = items.find((entry) => entry.variantId === variantId);
+  return item ? `${item.productName} / ${item.variantLabel}` : 'A selected price option';
+}
+
+export class InventoryService {
+  private readonly variantStockRepository = new VariantStockRepository();
+
+  /** Holds stock for a basket before its checkout is created. Fails if any tracked variant runs short. */
+  public async reserveStockForBasket(input: {
+    tenantId: string;
+    guildId: string;
+    items: StockBasketItem[];
+  }): Promise<Result<StockDemand[], AppError>> {
+    try {
+      const demand = summarizeStockDemand(input.items);
+      const reservation = await this.variantStockRepository.reserve({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        demand,
+      });
+      if (reservation.ok) {
+        return ok(reservation.reserved);
+      }
+
+      const [stock] = await this.variantStockRepository.listByIds({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        variantIds: [reservation.variantId],
+      });
+      const available = stock ? resolveAvailableStock(stock) : null;
+      const label = describeBasketItem(input.items, reservation.variantId);
+
+      return err(
+        new AppError(
+          'VARIANT_SOLD_OUT',
+          available !== null && available > 0
+            ? `Only ${available} of ${label} left in stock.`
+            : `${label} is sold out.`,
+          409,
+        ),
+      );
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  /** Undo for a reservation whose order session was never created. */
+  public async releaseReservedStock(input: {
+    tenantId: string;
+    reservations: StockDemand[];
+  }): Promise<Result<void, AppError>> {
+    try {
+      await this.variantStockRepository.release(input);
+      return ok(undefined);
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  public async releaseStockForOrderSession(input: {
+    orderSession: OrderSessionRecord;
+    reason: 'expired' | 'cancelled';
+  }): Promise<Result<void, AppError>> {
+    try {
+      if (input.orderSession.stockReservationState !== 'reserved') {
+        return ok(undefined);
+      }
+
+      await this.variantStockRepository.settleOrderSession({
+        tenantId: input.orderSession.tenantId,
+        orderSessionId: input.orderSession.id,
+        fromStates: ['reserved'],
+        toState: input.reason === 'expired' ? 'released_expired' : 'released_cancelled',
+        settlement: 'release',
+        demand: input.orderSession.stockReservations,
+      });
+
+      return ok(undefined);
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  /**
+   * Takes the sold units out of stock and returns the variants that just crossed their low-stock
+   * threshold. A payment that arrives after its reservation was released still deducts stock.
+   */
+  public async consumeStockForPaidOrder(input: {
+    orderSession: OrderSessionRecord;
+  }): Promise<Result<LowStockAlert[], AppError>> {
+    try {
+      const { orderSession } = input;
+      const state = orderSession.stockReservationState;
+      const held = state === 'reserved';
+      const released = state === 'released_expired' || state === 'released_cancelled';
+      if ((!held && !released) || orderSession.stockReservations.length === 0) {
+        return ok([]);
+      }
+
+      const settle = (fromStates: OrderSessionStockReservationState[], settlement: 'consume' | 'deduct') =>
+        this.variantStockRepository.settleOrderSession({
+          tenantId: orderSession.tenantId,
+          orderSessionId: orderSession.id,
+          fromStates,
+          toState: 'consumed',
+          settlement,
+          demand: orderSession.stockReservations,
+        });
+
+      // The reservation can be released between loading the session and settling it, so a failed
+      // consume falls back to deducting from the released state.
+      let settled = held && (await settle(['reserved'], 'consume'));
+      if (!settled) {
+        settled = await settle(['released_expired', 'released_cancelled'], 'deduct');
+      }
+      if (!settled) {
+        return ok([]);
+      }
+
+      const stocks = await this.variantStockRepository.listByIds({
+        tenantId: orderSession.tenantId,
+        guildId: orderSession.guildId,
+        variantIds: orderSession.stockReservations.map((entry) => entry.variantId),
+      });
+
+      const alerts: LowStockAlert[] = [];
+      const now = new Date();
+      for (const stock of stocks) {
+        if (!isLowStock(stock) || stock.stockQuantity === null || stock.lowStockThreshold === null) {
+          continue;
+        }
+
+        const claimed = await this.variantStockRepository.claimLowStockAlert({
+          tenantId: orderSession.tenantId,
+          variantId: stock.variantId,
+          now,
+        });
+        if (!claimed) {
+          continue;
+        }
+
+        const basketItem = orderSession.basketItems.find((item) => item.variantId === stock.variantId);
+        alerts.push({
+          variantId: stock.variantId,
+          productName: basketItem?.productName ?? 'Unknown product',
+          variantLabel: basketItem?.variantLabel ?? stock.label,
+          stockQuantity: stock.stockQuantity,
+          lowStockThreshold: stock.lowStockThreshold,
+        });
+      }
+
+      return ok(alerts);
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+}
@@ -10,6 +10,7 @@ import {
   type JoinGateNormalizedEmail,
   type JoinGateSelectionPath,
 } from '../repositories/join-gate-repository.js';
+import { OutboundWebhookService } from './outbound-webhook-service.js';
 
 export type JoinGateConfigInput = {
   joinGateEnabled?: boolean;
@@ -199,8 +200,13 @@ function toLookupEmailInputs(emails: JoinGateNormalizedEmail[]): JoinGateNormali
   }));
 }
 
+export type JoinGateOutboundWebhooksLike = Pick<OutboundWebhookService, 'emitEvent'>;
+
 export class JoinGateService {
-  constructor(private readonly repository: JoinGateRepositoryLike = new JoinGateRepository()) {}
+  constructor(
+    private readonly repository: JoinGateRepositoryLike = new JoinGateRepository(),
+    private readonly outboundWebhooks: JoinGateOutboundWebhooksLike = new OutboundWebhookService(),
+  ) {}
 
   public async registerJoin(input: {
     tenantId: string;
@@ -358,14 +364,27 @@ export class JoinGateService {
     ticketChannelId: string;
   }): Promise<Result<JoinGateMemberRecord, AppError>> {
     try {
-      return ok(
-        await this.repository.completeVerification({
-          tenantId: input.tenantId,
-          guildId: input.guildId,
-          discordUserId: input.discordUserId,
-          ticketChannelId: input.ticketChannelId,
-        }),
-      );
+      const member = await this.repository.completeVerification({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        discordUserId: input.discordUserId,
+        ticketChannelId: input.ticketChannelId,
+      });
+
+      await this.outboundWebhooks.emitEvent({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        type: 'join_gate.verified',
+        eventKey: `${member.id}:${member.verifiedAt?.getTime() ?? 0}`,
+        data: {
+          discordUserId: member.discordUserId,
+          email: member.verifiedEmailDisplay,
+          selectedPath: member.selectedPath,
+          verifiedAt: member.verifiedAt?.toISOString() ?? null,
+        },
+      });
+
+      return ok(member);
     } catch (error) {
       return err(fromUnknownError(error));
     }
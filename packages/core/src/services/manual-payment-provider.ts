@@ -0,0 +1,82 @@
+import { err, ok, type Result } from 'neverthrow';
+
+import { AppError, fromUnknownError } from '../domain/errors.js';
+import { TenantRepository } from '../repositories/tenant-repository.js';
+import type {
+  PaymentCheckout,
+  PaymentCheckoutInput,
+  PaymentProvider,
+  PaymentRefund,
+  PaymentState,
+  VerifiedPaymentWebhook,
+} from './payment-provider.js';
+
+export const MANUAL_PAYMENT_APPROVE_CUSTOM_ID_PREFIX = 'manual-payment:approve:';
+export const MAX_MANUAL_PAYMENT_REFERENCE_LENGTH = 200;
+
+export function buildManualPaymentApproveCustomId(orderSessionId: string): string {
+  return `${MANUAL_PAYMENT_APPROVE_CUSTOM_ID_PREFIX}${orderSessionId}`;
+}
+
+export function parseManualPaymentApproveCustomId(customId: string): string | null {
+  if (!customId.startsWith(MANUAL_PAYMENT_APPROVE_CUSTOM_ID_PREFIX)) {
+    return null;
+  }
+
+  const orderSessionId = customId.slice(MANUAL_PAYMENT_APPROVE_CUSTOM_ID_PREFIX.length).trim();
+  return orderSessionId.length > 0 ? orderSessionId : null;
+}
+
+/**
+ * Bank transfers, gift cards and other payments made outside the bot. The guild's instructions are
+ * posted with the checkout and staff confirm the payment by hand, so there are no webhooks or refunds.
+ */
+export class ManualPaymentProvider implements PaymentProvider {
+  public readonly id = 'manual' as const;
+  public readonly label = 'Manual Payment';
+
+  private readonly tenantRepository = new TenantRepository();
+
+  /** The guild's payment instructions, or `null` when manual payments are off. */
+  public async getInstructions(input: { tenantId: string; guildId: string }): Promise<Result<string | null, AppError>> {
+    try {
+      const config = await this.tenantRepository.getGuildConfig(input);
+      const instructions = config?.manualPaymentInstructions.trim() ?? '';
+      return ok(instructions.length > 0 ? instructions : null);
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  public async isConfigured(input: { tenantId: string; guildId: string }): Promise<Result<boolean, AppError>> {
+    const instructions = await this.getInstructions(input);
+    if (instructions.isErr()) {
+      return err(instructions.error);
+    }
+
+    return ok(instructions.value !== null);
+  }
+
+  public async createCheckout(_input: PaymentCheckoutInput): Promise<Result<PaymentCheckout, AppError>> {
+    return ok({
+      checkoutUrl: null,
+      checkoutUrlCrypto: null,
+      checkoutOptions: [],
+      warnings: [],
+    });
+  }
+
+  public async verifyWebhook(): Promise<Result<VerifiedPaymentWebhook, AppError>> {
+    return err(new AppError('MANUAL_PAYMENT_NO_WEBHOOKS', 'Manual payments are confirmed by staff', 400));
+  }
+
+  public async resolvePaymentState(): Promise<Result<PaymentState, AppError>> {
+    return err(new AppError('MANUAL_PAYMENT_NO_WEBHOOKS', 'Manual payments are confirmed by staff', 400));
+  }
+
+  public async refund(): Promise<Result<PaymentRefund, AppError>> {
+    return err(
+      new AppError('MANUAL_PAYMENT_REFUND_UNSUPPORTED', 'Manual payments must be refunded outside the bot', 422),
+    );
+  }
+}
@@ -0,0 +1,269 @@
+import { err, ok, type Result } from 'neverthrow';
+
+import { getEnv } from '../config/env.js';
+import { AppError, fromUnknownError } from '../domain/errors.js';
+import { logger } from '../infra/logger.js';
+import { editDiscordChannelMessage, postMessageToDiscordChannel } from '../integrations/discord-rest.js';
+import { editTelegramMessageText, postMessageToTelegramChat } from '../integrations/telegram-rest.js';
+import { OrderRepository, type OrderSessionRecord } from '../repositories/order-repository.js';
+import { parsePlatformScopedId } from '../utils/platform-ids.js';
+import { AdminService } from './admin-service.js';
+import { InventoryService } from './inventory-service.js';
+import { PointsService } from './points-service.js';
+
+const EXPIRY_SWEEP_BATCH_SIZE = 50;
+
+export type OrderSessionExpirySweepSummary = {
+  expiredCount: number;
+  failedCount: number;
+};
+
+function buildExpiredCheckoutMessage(orderSession: OrderSessionRecord): string {
+  const scopedCustomerId = parsePlatformScopedId(orderSession.customerDiscordId);
+  const customerLabel =
+    scopedCustomerId.platform === 'telegram' ? 'this customer' : `<@${orderSession.customerDiscordId}>`;
+
+  return [
+    `Checkout expired for ${customerLabel}.`,
+    `Order Session: \`${orderSession.id}\``,
+    'These payment links are no longer valid. Do NOT pay with them.',
+    'Ask staff to start a new sale if you still want to buy.',
+  ].join('\n');
+}
+
+export class OrderSessionExpiryService {
+  private readonly env = getEnv();
+  private readonly orderRepository = new OrderRepository();
+  private readonly pointsService = new PointsService();
+  private readonly inventoryService = new InventoryService();
+  private readonly adminService = new AdminService();
+  private sweeperTimer: NodeJS.Timeout | null = null;
+  private sweeperTickInFlight = false;
+
+  public startSweeperLoop(input: { pollIntervalMs: number }): void {
+    if (this.sweeperTimer) {
+      return;
+    }
+
+    const pollIntervalMs = Math.max(5_000, Math.floor(input.pollIntervalMs));
+    this.queueSweeperTick();
+    this.sweeperTimer = setInterval(() => {
+      this.queueSweeperTick();
+    }, pollIntervalMs);
+    this.sweeperTimer.unref?.();
+  }
+
+  public stopSweeperLoop(): void {
+    if (!this.sweeperTimer) {
+      return;
+    }
+
+    clearInterval(this.sweeperTimer);
+    this.sweeperTimer = null;
+    this.sweeperTickInFlight = false;
+  }
+
+  private queueSweeperTick(): void {
+    if (this.sweeperTickInFlight) {
+      return;
+    }
+
+    this.sweeperTickInFlight = true;
+    void this.runExpirySweep()
+      .then((result) => {
+        if (result.isErr()) {
+          logger.warn({ err: result.error }, 'failed to sweep expired order sessions');
+        }
+      })
+      .finally(() => {
+        this.sweeperTickInFlight = false;
+      });
+  }
+
+  public async runExpirySweep(): Promise<Result<OrderSessionExpirySweepSummary, AppError>> {
+    try {
+      const now = new Date();
+      const expiredSessions = await this.orderRepository.listExpiredPendingSessions({
+        now,
+        limit: EXPIRY_SWEEP_BATCH_SIZE,
+      });
+
+      let expiredCount = 0;
+      let failedCount = 0;
+      for (const orderSession of expiredSessions) {
+        const expired = await this.expireOrderSession({ orderSession, now });
+        if (expired.isErr()) {
+          failedCount += 1;
+          logger.warn(
+            {
+              tenantId: orderSession.tenantId,
+              guildId: orderSession.guildId,
+              orderSessionId: orderSession.id,
+              err: expired.error,
+            },
+            'order session expiry failed',
+          );
+          continue;
+        }
+
+        if (expired.value) {
+          expiredCount += 1;
+        }
+      }
+
+      return ok({ expiredCount, failedCount });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  private async expireOrderSession(input: {
+    orderSession: OrderSessionRecord;
+    now: Date;
+  }): Promise<Result<boolean, AppError>> {
+    try {
+      const expired = await this.orderRepository.expirePendingOrderSession({
+        tenantId: input.orderSession.tenantId,
+        orderSessionId: input.orderSession.id,
+        now: input.now,
+      });
+      if (!expired) {
+        // Paid or cancelled by another path since it was listed.
+        return ok(false);
+      }
+
+      const released = await this.pointsService.releaseReservationForOrderSession({
+        orderSession: input.orderSession,
+        reason: 'expired',
+      });
+      if (released.isErr()) {
+        return err(released.error);
+      }
+
+      const releasedStock = await this.inventoryService.releaseStockForOrderSession({
+        orderSession: input.orderSession,
+        reason: 'expired',
+      });
+      if (releasedStock.isErr()) {
+        return err(releasedStock.error);
+      }
+
+      try {
+        await this.annotateCheckoutMessage(input.orderSession);
+      } catch (error) {
+        logger.warn(
+          {
+            tenantId: input.orderSession.tenantId,
+            orderSessionId: input.orderSession.id,
+            err: error,
+          },
+          'failed to mark checkout message as expired',
+        );
+      }
+
+      return ok(true);
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  private async annotateCheckoutMessage(orderSession: OrderSessionRecord): Promise<void> {
+    const content = buildExpiredCheckoutMessage(orderSession);
+    const messageChannelId = orderSession.checkoutMessageChannelId ?? orderSession.ticketChannelId;
+    const scopedChannelId = parsePlatformScopedId(messageChannelId);
+
+    if (scopedChannelId.platform === 'telegram') {
+      const telegramBotToken = this.getTelegramBotToken();
+      if (!telegramBotToken) {
+        throw new AppError('TELEGRAM_BOT_TOKEN_MISSING', 'No Telegram bot token available', 500);
+      }
+
+      const telegramContent = content.replace(/`/g, '');
+      const telegramMessageId = Number(orderSession.checkoutMessageId);
+      if (orderSession.checkoutMessageId && Number.isInteger(telegramMessageId)) {
+        await editTelegramMessageText({
+          botToken: telegramBotToken,
+          chatId: scopedChannelId.rawId,
+          messageId: telegramMessageId,
+          content: telegramContent,
+        });
+        return;
+      }
+
+      await postMessageToTelegramChat({
+        botToken: telegramBotToken,
+        chatId: scopedChannelId.rawId,
+        content: telegramContent,
+      });
+      return;
+    }
+
+    const botTokens = await this.getBotTokenCandidates();
+    if (botTokens.length === 0) {
+      throw new AppError('DISCORD_BOT_TOKEN_MISSING', 'No bot token available', 500);
+    }
+
+    let lastError: unknown = null;
+    for (const botToken of botTokens) {
+      try {
+        if (orderSession.checkoutMessageId) {
+          await editDiscordChannelMessage({
+            botToken,
+            channelId: scopedChannelId.rawId,
+            messageId: orderSession.checkoutMessageId,
+            content,
+          });
+        } else {
+          await postMessageToDiscordChannel({
+            botToken,
+            channelId: scopedChannelId.rawId,
+            content,
+          });
+        }
+        return;
+      } catch (error) {
+        lastError = error;
+        if (this.isDiscordUnauthorized(error)) {
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  private async getBotTokenCandidates(): Promise<string[]> {
+    const candidates: string[] = [];
+
+    const resolved = await this.adminService.getResolvedBotToken();
+    if (resolved.isOk()) {
+      candidates.push(resolved.value.trim());
+    }
+
+    const envToken = this.env.DISCORD_TOKEN.trim();
+    if (envToken && envToken !== 'MISSING_DISCORD_TOKEN' && !candidates.includes(envToken)) {
+      candidates.push(envToken);
+    }
+
+    return candidates.filter(Boolean);
+  }
+
+  private getTelegramBotToken(): string | null {
+    const token = this.env.TELEGRAM_BOT_TOKEN.trim();
+    return token.length > 0 ? token : null;
+  }
+
+  private isDiscordUnauthorized(error: unknown): boolean {
+    if (!(error instanceof AppError)) {
+      return false;
+    }
+
+    return (
+      typeof error.details === 'object' &&
+      error.details !== null &&
+      'discordStatus' in error.details &&
+      (error.details as { discordStatus?: unknown }).discordStatus === 401
+    );
+  }
+}
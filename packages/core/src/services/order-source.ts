@@ -1,7 +1,13 @@
+import type { OrderSessionSource } from '../repositories/order-repository.js';
 import { parsePlatformScopedId } from '../utils/platform-ids.js';
 
-export function getOrderSourceLabel(ticketChannelId: string): 'Telegram Order' | 'Discord Order' {
-  return parsePlatformScopedId(ticketChannelId).platform === 'telegram'
-    ? 'Telegram Order'
-    : 'Discord Order';
+export function getOrderSourceLabel(
+  ticketChannelId: string,
+  source: OrderSessionSource = 'staff',
+): 'Telegram Order' | 'Discord Order' | 'Discord Self-Service Order' {
+  if (parsePlatformScopedId(ticketChannelId).platform === 'telegram') {
+    return 'Telegram Order';
+  }
+
+  return source === 'self_service' ? 'Discord Self-Service Order' : 'Discord Order';
 }
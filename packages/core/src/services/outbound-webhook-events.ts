@@ -0,0 +1,52 @@
+import type { OrderSessionRecord } from '../repositories/order-repository.js';
+import { resolveOrderSessionCustomerEmail } from '../utils/customer-email.js';
+import { resolveLineQuantity } from './basket-quantity.js';
+import type { PaymentProviderId } from './payment-provider.js';
+
+/** `data` of an `order.paid` event. Amounts are in minor units of `currency`, like everywhere else. */
+export function buildOrderPaidEventData(input: {
+  orderSession: OrderSessionRecord;
+  paidOrderId: string;
+  provider: PaymentProviderId;
+  providerOrderId: string;
+  paymentReference: string | null;
+  currency: string;
+  subtotalMinor: number;
+  totalMinor: number;
+  underpaid: boolean;
+  fulfillmentStatus: 'fulfilled' | 'needs_action';
+}): Record<string, unknown> {
+  const { orderSession } = input;
+
+  return {
+    orderSessionId: orderSession.id,
+    paidOrderId: input.paidOrderId,
+    provider: input.provider,
+    providerOrderId: input.providerOrderId,
+    paymentReference: input.paymentReference,
+    source: orderSession.source,
+    customer: {
+      discordUserId: orderSession.customerDiscordId,
+      email: resolveOrderSessionCustomerEmail(orderSession),
+    },
+    currency: input.currency,
+    subtotalMinor: input.subtotalMinor,
+    automaticDiscountMinor: orderSession.automaticDiscountMinor,
+    couponCode: orderSession.couponCode,
+    couponDiscountMinor: orderSession.couponDiscountMinor,
+    pointsDiscountMinor: orderSession.pointsDiscountMinor,
+    tipMinor: orderSession.tipMinor,
+    totalMinor: input.totalMinor,
+    underpaid: input.underpaid,
+    fulfillmentStatus: input.fulfillmentStatus,
+    items: orderSession.basketItems.map((item) => ({
+      productId: item.productId,
+      productName: item.productName,
+      variantId: item.variantId,
+      variantLabel: item.variantLabel,
+      quantity: resolveLineQuantity(item),
+      unitPriceMinor: item.priceMinor,
+      currency: item.currency,
+    })),
+  };
+}
@@ -0,0 +1,723 @@
+import crypto from 'node:crypto';
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+import { hostname } from 'node:os';
+
+import { err, ok, type Result } from 'neverthrow';
+import { ulid } from 'ulid';
+import { z } from 'zod';
+
+import { getEnv } from '../config/env.js';
+import { AppError, fromUnknownError, validationError } from '../domain/errors.js';
+import type { OutboundWebhookDeliveryStatus, OutboundWebhookEventType } from '../domain/types.js';
+import { logger } from '../infra/logger.js';
+import {
+  OutboundWebhookRepository,
+  type OutboundWebhookDeliveryRecord,
+  type OutboundWebhookEndpointRecord,
+} from '../repositories/outbound-webhook-repository.js';
+import { decryptSecret, encryptSecret } from '../security/encryption.js';
+import type { SessionPayload } from '../security/session-token.js';
+import { createOutboundWebhookSignature } from '../security/webhook-signature.js';
+import { AuthorizationService } from './authorization-service.js';
+import { resolveWebhookFailureOutcome, WEBHOOK_LEASE_DURATION_MS } from './webhook-retry-policy.js';
+
+export const OUTBOUND_WEBHOOK_EVENT_TYPES = [
+  'order.paid',
+  'order.fulfilled',
+  'order.refunded',
+  'points.adjusted',
+  'referral.rewarded',
+  'join_gate.verified',
+] as const satisfies readonly OutboundWebhookEventType[];
+
+/** Sent only by the dashboard's "send test event" button; endpoints cannot subscribe to it. */
+export const OUTBOUND_WEBHOOK_TEST_EVENT_TYPE = 'webhook.test';
+
+const MAX_ENDPOINTS_PER_GUILD = 10;
+const DELIVERY_TIMEOUT_MS = 10_000;
+const DELIVERY_LIST_LIMIT = 50;
+const DELIVERY_SWEEP_BATCH_SIZE = 25;
+
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+// BlockList checks IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) against the IPv4 ranges above. NAT64 addresses are
+// blocked outright, since they can wrap any of them.
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPublicIpAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+
+  return !NON_PUBLIC_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Endpoints must be public HTTPS URLs. Loopback, private-range and link-local addresses are rejected so a
+ * tenant cannot point deliveries at the platform's own network. `URL` already normalises decimal and hex
+ * IPv4 hosts; names are checked again after DNS resolution when each delivery is sent.
+ */
+export function isAllowedOutboundWebhookUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+
+  if (url.protocol !== 'https:' || url.username || url.password) {
+    return false;
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (isIP(host) !== 0) {
+    return isPublicIpAddress(host);
+  }
+
+  return !(
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    host.endsWith('.local') ||
+    host.endsWith('.internal')
+  );
+}
+
+/**
+ * Returns why the endpoint must not be called right now, or `null` when every address its host resolves
+ * to is public. A name that was public when the endpoint was saved can be re-pointed later.
+ */
+async function findBlockedDeliveryTarget(value: string): Promise<string | null> {
+  if (!isAllowedOutboundWebhookUrl(value)) {
+    return 'Endpoint URL is not a public https:// URL';
+  }
+
+  const host = new URL(value).hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) !== 0) {
+    return null;
+  }
+
+  const addresses = await lookup(host, { all: true, verbatim: true });
+  if (addresses.length === 0) {
+    return `${host} did not resolve to any address`;
+  }
+
+  const blocked = addresses.find((entry) => !isPublicIpAddress(entry.address));
+  return blocked ? `${host} resolves to a non-public address (${blocked.address})` : null;
+}
+
+const endpointPayloadSchema = z.object({
+  url: z
+    .string()
+    .trim()
+    .max(500)
+    .refine(isAllowedOutboundWebhookUrl, 'Use a public https:// URL.'),
+  description: z.string().trim().max(120).default(''),
+  eventTypes: z
+    .array(z.enum(OUTBOUND_WEBHOOK_EVENT_TYPES))
+    .min(1, 'Pick at least one event.')
+    .transform((eventTypes) => [...new Set(eventTypes)]),
+  active: z.boolean().default(true),
+});
+
+export type OutboundWebhookEndpointSummary = {
+  id: string;
+  url: string;
+  description: string;
+  eventTypes: OutboundWebhookEventType[];
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type OutboundWebhookDeliverySummary = {
+  id: string;
+  endpointId: string;
+  eventId: string;
+  eventType: string;
+  status: OutboundWebhookDeliveryStatus;
+  attemptCount: number;
+  responseStatus: number | null;
+  lastError: string | null;
+  nextRetryAt: Date | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+};
+
+export type OutboundWebhookSweepSummary = {
+  claimedCount: number;
+  deliveredCount: number;
+  failedCount: number;
+  deadLetteredCount: number;
+};
+
+type DeliveryAttemptStatus = 'delivered' | 'failed' | 'dead_letter' | 'skipped';
+
+function mapEndpointSummary(record: OutboundWebhookEndpointRecord): OutboundWebhookEndpointSummary {
+  return {
+    id: record.id,
+    url: record.url,
+    description: record.description,
+    eventTypes: record.eventTypes,
+    active: record.active,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+  };
+}
+
+function mapDeliverySummary(record: OutboundWebhookDeliveryRecord): OutboundWebhookDeliverySummary {
+  return {
+    id: record.id,
+    endpointId: record.endpointId,
+    eventId: record.eventId,
+    eventType: record.eventType,
+    status: record.status,
+    attemptCount: record.attemptCount,
+    responseStatus: record.responseStatus,
+    lastError: record.lastError,
+    nextRetryAt: record.nextRetryAt,
+    deliveredAt: record.deliveredAt,
+    createdAt: record.createdAt,
+  };
+}
+
+function generateEndpointSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Tenant-registered HTTPS endpoints that receive signed JSON when store events happen. Every delivery is
+ * stored first and sent from the log, so a failed send is retried with the same backoff as provider webhooks.
+ */
+export class OutboundWebhookService {
+  private readonly env = getEnv();
+  private readonly outboundWebhookRepository = new OutboundWebhookRepository();
+  private readonly authorizationService = new AuthorizationService();
+  private readonly leaseOwner = `${hostname().slice(0, 48)}:${process.pid}:${ulid()}`;
+  private sweeperTimer: NodeJS.Timeout | null = null;
+  private sweeperTickInFlight = false;
+
+  public async listEndpoints(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string },
+  ): Promise<
+    Result<{ endpoints: OutboundWebhookEndpointSummary[]; deliveries: OutboundWebhookDeliverySummary[] }, AppError>
+  > {
+    try {
+      const access = await this.ensureAccess(actor, input);
+      if (access.isErr()) {
+        return err(access.error);
+      }
+
+      const [endpoints, deliveries] = await Promise.all([
+        this.outboundWebhookRepository.listEndpoints(input),
+        this.outboundWebhookRepository.listDeliveries({ ...input, limit: DELIVERY_LIST_LIMIT }),
+      ]);
+
+      return ok({
+        endpoints: endpoints.map(mapEndpointSummary),
+        deliveries: deliveries.map(mapDeliverySummary),
+      });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  /** The signing secret is generated here and only returned from this call and `rotateSecret`. */
+  public async createEndpoint(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string; endpoint: unknown },
+  ): Promise<Result<{ endpoint: OutboundWebhookEndpointSummary; secret: string }, AppError>> {
+    try {
+      const access = await this.ensureAccess(actor, input);
+      if (access.isErr()) {
+        return err(access.error);
+      }
+
+      const parsed = endpointPayloadSchema.safeParse(input.endpoint);
+      if (!parsed.success) {
+        return err(validationError(parsed.error.issues));
+      }
+
+      const existing = await this.outboundWebhookRepository.listEndpoints(input);
+      if (existing.length >= MAX_ENDPOINTS_PER_GUILD) {
+        return err(
+          new AppError(
+            'OUTBOUND_WEBHOOK_LIMIT_REACHED',
+            `A server can have at most ${MAX_ENDPOINTS_PER_GUILD} webhook endpoints.`,
+            409,
+          ),
+        );
+      }
+
+      const secret = generateEndpointSecret();
+      const created = await this.outboundWebhookRepository.createEndpoint({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        secretEncrypted: encryptSecret(secret, this.env.ENCRYPTION_KEY),
+        ...parsed.data,
+      });
+
+      return ok({ endpoint: mapEndpointSummary(created), secret });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  public async updateEndpoint(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string; endpointId: string; endpoint: unknown },
+  ): Promise<Result<void, AppError>> {
+    try {
+      const access = await this.ensureAccess(actor, input);
+      if (access.isErr()) {
+        return err(access.error);
+      }
+
+      const parsed = endpointPayloadSchema.safeParse(input.endpoint);
+      if (!parsed.success) {
+        return err(validationError(parsed.error.issues));
+      }
+
+      const updated = await this.outboundWebhookRepository.updateEndpoint({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        endpointId: input.endpointId,
+        ...parsed.data,
+      });
+      if (!updated) {
+        return err(new AppError('OUTBOUND_WEBHOOK_NOT_FOUND', 'Webhook endpoint not found', 404));
+      }
+
+      return ok(undefined);
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  public async rotateSecret(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string; endpointId: string },
+  ): Promise<Result<{ secret: string }, AppError>> {
+    try {
+      const access = await this.ensureAccess(actor, input);
+      if (access.isErr()) {
+        return err(access.error);
+      }
+
+      const secret = generateEndpointSecret();
+      const updated = await this.outboundWebhookRepository.updateEndpoint({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        endpointId: input.endpointId,
+        secretEncrypted: encryptSecret(secret, this.env.ENCRYPTION_KEY),
+      });
+      if (!updated) {
+        return err(new AppError('OUTBOUND_WEBHOOK_NOT_FOUND', 'Webhook endpoint not found', 404));
+      }
+
+      return ok({ secret });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  public async deleteEndpoint(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string; endpointId: string },
+  ): Promise<Result<void, AppError>> {
+    try {
+      const access = await this.ensureAccess(actor, input);
+      if (access.isErr()) {
+        return err(access.error);
+      }
+
+      await this.outboundWebhookRepository.deleteEndpoint(input);
+      return ok(undefined);
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  /**
+   * Sends a `webhook.test` event to one endpoint straight away, even when it is paused, and returns how the
+   * endpoint answered. Test deliveries are logged but never retried.
+   */
+  public async sendTestEvent(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string; endpointId: string },
+  ): Promise<Result<OutboundWebhookDeliverySummary, AppError>> {
+    try {
+      const access = await this.ensureAccess(actor, input);
+      if (access.isErr()) {
+        return err(access.error);
+      }
+
+      const endpoint = await this.outboundWebhookRepository.getEndpoint(input);
+      if (!endpoint) {
+        return err(new AppError('OUTBOUND_WEBHOOK_NOT_FOUND', 'Webhook endpoint not found', 404));
+      }
+
+      const eventId = ulid();
+      const [deliveryId] = await this.outboundWebhookRepository.createDeliveries({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        endpointIds: [endpoint.id],
+        eventId,
+        eventType: OUTBOUND_WEBHOOK_TEST_EVENT_TYPE,
+        eventKey: `${OUTBOUND_WEBHOOK_TEST_EVENT_TYPE}:${eventId}`,
+        payload: this.buildEnvelope({
+          eventId,
+          type: OUTBOUND_WEBHOOK_TEST_EVENT_TYPE,
+          tenantId: input.tenantId,
+          guildId: input.guildId,
+          data: { message: 'This is a test event sent from the dashboard.' },
+        }),
+      });
+      if (!deliveryId) {
+        return err(new AppError('OUTBOUND_WEBHOOK_TEST_FAILED', 'Failed to queue the test event', 500));
+      }
+
+      const delivered = await this.attemptDelivery(deliveryId);
+      if (delivered.isErr()) {
+        return err(delivered.error);
+      }
+      if (delivered.value.status === 'skipped' || !delivered.value.delivery) {
+        return err(new AppError('OUTBOUND_WEBHOOK_TEST_FAILED', 'The test event could not be sent', 409));
+      }
+
+      return ok(mapDeliverySummary(delivered.value.delivery));
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  /**
+   * Queues an event for every active endpoint of the guild subscribed to it and starts sending in the
+   * background. `eventKey` must identify the store change itself (e.g. the paid order id), so callers on
+   * retried code paths can emit freely without duplicate deliveries. Never fails the caller: errors are logged.
+   */
+  public async emitEvent(input: {
+    tenantId: string;
+    guildId: string;
+    type: OutboundWebhookEventType;
+    eventKey: string;
+    data: Record<string, unknown>;
+  }): Promise<void> {
+    try {
+      const endpoints = await this.outboundWebhookRepository.listEndpoints(input);
+      const subscribed = endpoints.filter((endpoint) => endpoint.active && endpoint.eventTypes.includes(input.type));
+      if (subscribed.length === 0) {
+        return;
+      }
+
+      const eventId = ulid();
+      const deliveryIds = await this.outboundWebhookRepository.createDeliveries({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        endpointIds: subscribed.map((endpoint) => endpoint.id),
+        eventId,
+        eventType: input.type,
+        eventKey: `${input.type}:${input.eventKey}`,
+        payload: this.buildEnvelope({ eventId, ...input }),
+      });
+
+      for (const deliveryId of deliveryIds) {
+        void this.attemptDelivery(deliveryId).then((result) => {
+          if (result.isErr()) {
+            logger.warn({ err: result.error, deliveryId }, 'failed to send outbound webhook');
+          }
+        });
+      }
+    } catch (error) {
+      logger.warn(
+        { err: error, tenantId: input.tenantId, guildId: input.guildId, eventType: input.type },
+        'failed to queue outbound webhook event',
+      );
+    }
+  }
+
+  /** Same loop shape as the provider webhook retry worker; the first sweep runs immediately. */
+  public startSweeperLoop(input: { pollIntervalMs: number }): void {
+    if (this.sweeperTimer) {
+      return;
+    }
+
+    const pollIntervalMs = Math.max(5_000, Math.floor(input.pollIntervalMs));
+    this.queueSweeperTick();
+    this.sweeperTimer = setInterval(() => {
+      this.queueSweeperTick();
+    }, pollIntervalMs);
+    this.sweeperTimer.unref?.();
+  }
+
+  public stopSweeperLoop(): void {
+    if (!this.sweeperTimer) {
+      return;
+    }
+
+    clearInterval(this.sweeperTimer);
+    this.sweeperTimer = null;
+    this.sweeperTickInFlight = false;
+  }
+
+  private queueSweeperTick(): void {
+    if (this.sweeperTickInFlight) {
+      return;
+    }
+
+    this.sweeperTickInFlight = true;
+    void this.runDeliverySweep()
+      .then((result) => {
+        if (result.isErr()) {
+          logger.warn({ err: result.error }, 'failed to sweep outbound webhook deliveries');
+        }
+      })
+      .finally(() => {
+        this.sweeperTickInFlight = false;
+      });
+  }
+
+  public async runDeliverySweep(): Promise<Result<OutboundWebhookSweepSummary, AppError>> {
+    try {
+      const deliveryIds = await this.outboundWebhookRepository.listDueDeliveryIds({
+        now: new Date(),
+        limit: DELIVERY_SWEEP_BATCH_SIZE,
+      });
+      const summary: OutboundWebhookSweepSummary = {
+        claimedCount: 0,
+        deliveredCount: 0,
+        failedCount: 0,
+        deadLetteredCount: 0,
+      };
+
+      for (const deliveryId of deliveryIds) {
+        const result = await this.attemptDelivery(deliveryId);
+        if (result.isErr()) {
+          logger.warn({ err: result.error, deliveryId }, 'failed to retry outbound webhook');
+          continue;
+        }
+
+        if (result.value.status === 'skipped') {
+          continue;
+        }
+
+        summary.claimedCount += 1;
+        if (result.value.status === 'delivered') {
+          summary.deliveredCount += 1;
+        } else if (result.value.status === 'failed') {
+          summary.failedCount += 1;
+        } else {
+          summary.deadLetteredCount += 1;
+        }
+      }
+
+      if (summary.claimedCount > 0) {
+        logger.info(summary, 'outbound webhook sweep finished');
+      }
+
+      return ok(summary);
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  /** Claims one delivery, POSTs it and records the outcome. `skipped` means another instance holds it. */
+  private async attemptDelivery(
+    deliveryId: string,
+  ): Promise<Result<{ status: DeliveryAttemptStatus; delivery: OutboundWebhookDeliveryRecord | null }, AppError>> {
+    try {
+      const now = new Date();
+      const delivery = await this.outboundWebhookRepository.claimDelivery({
+        deliveryId,
+        leaseOwner: this.leaseOwner,
+        leaseExpiresAt: new Date(now.getTime() + WEBHOOK_LEASE_DURATION_MS),
+        now,
+      });
+      if (!delivery) {
+        return ok({ status: 'skipped', delivery: null });
+      }
+
+      const isTest = delivery.eventType === OUTBOUND_WEBHOOK_TEST_EVENT_TYPE;
+      const endpoint = await this.outboundWebhookRepository.getEndpointById(delivery.endpointId);
+      if (!endpoint || (!endpoint.active && !isTest)) {
+        const lastError = endpoint ? 'Endpoint is paused' : 'Endpoint was deleted';
+        await this.outboundWebhookRepository.markDeliveryFailed({
+          deliveryId,
+          status: 'dead_letter',
+          responseStatus: null,
+          lastError,
+          nextRetryAt: null,
+        });
+        return ok({
+          status: 'dead_letter',
+          delivery: { ...delivery, status: 'dead_letter', lastError, nextRetryAt: null },
+        });
+      }
+
+      const sent = await this.postDelivery({ delivery, endpoint });
+      if (sent.ok) {
+        await this.outboundWebhookRepository.markDeliveryDelivered({ deliveryId, responseStatus: sent.responseStatus });
+        return ok({
+          status: 'delivered',
+          delivery: {
+            ...delivery,
+            status: 'delivered',
+            responseStatus: sent.responseStatus,
+            lastError: null,
+            nextRetryAt: null,
+            deliveredAt: new Date(),
+          },
+        });
+      }
+
+      const outcome = isTest
+        ? ({ status: 'failed', nextRetryAt: null } as const)
+        : resolveWebhookFailureOutcome({ attemptCount: delivery.attemptCount, now: new Date() });
+      logger.warn(
+        {
+          tenantId: delivery.tenantId,
+          guildId: delivery.guildId,
+          deliveryId,
+          endpointId: endpoint.id,
+          eventType: delivery.eventType,
+          attemptCount: delivery.attemptCount,
+          responseStatus: sent.responseStatus,
+          failureReason: sent.error,
+          nextRetryAt: outcome.nextRetryAt,
+        },
+        'outbound webhook delivery failed',
+      );
+      await this.outboundWebhookRepository.markDeliveryFailed({
+        deliveryId,
+        status: outcome.status,
+        responseStatus: sent.responseStatus,
+        lastError: sent.error,
+        nextRetryAt: outcome.nextRetryAt,
+      });
+
+      return ok({
+        status: outcome.status,
+        delivery: {
+          ...delivery,
+          status: outcome.status,
+          responseStatus: sent.responseStatus,
+          lastError: sent.error,
+          nextRetryAt: outcome.nextRetryAt,
+        },
+      });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  private async postDelivery(input: {
+    delivery: OutboundWebhookDeliveryRecord;
+    endpoint: OutboundWebhookEndpointRecord;
+  }): Promise<{ ok: true; responseStatus: number } | { ok: false; responseStatus: number | null; error: string }> {
+    const rawBody = JSON.stringify(input.delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = createOutboundWebhookSignature({
+      rawBody,
+      secret: decryptSecret(input.endpoint.secretEncrypted, this.env.ENCRYPTION_KEY),
+      timestamp,
+    });
+
+    try {
+      const blockedReason = await findBlockedDeliveryTarget(input.endpoint.url);
+      if (blockedReason) {
+        return { ok: false, responseStatus: null, error: blockedReason };
+      }
+
+      const response = await fetch(input.endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Voodoo-Webhooks/1.0',
+          'X-Voodoo-Event': input.delivery.eventType,
+          'X-Voodoo-Event-Id': input.delivery.eventId,
+          'X-Voodoo-Delivery-Id': input.delivery.id,
+          'X-Voodoo-Timestamp': String(timestamp),
+          'X-Voodoo-Signature': signature,
+        },
+        body: rawBody,
+        // Redirects are not followed: the target was validated, wherever it points next was not.
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+
+      if (response.status >= 200 && response.status < 300) {
+        return { ok: true, responseStatus: response.status };
+      }
+
+      return { ok: false, responseStatus: response.status, error: `Endpoint responded with HTTP ${response.status}` };
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        return { ok: false, responseStatus: null, error: `No response within ${DELIVERY_TIMEOUT_MS / 1000} seconds` };
+      }
+
+      return {
+        ok: false,
+        responseStatus: null,
+        error: error instanceof Error ? error.message : 'Unknown delivery failure',
+      };
+    }
+  }
+
+  private buildEnvelope(input: {
+    eventId: string;
+    type: string;
+    tenantId: string;
+    guildId: string;
+    data: Record<string, unknown>;
+  }): Record<string, unknown> {
+    return {
+      id: input.eventId,
+      type: input.type,
+      createdAt: new Date().toISOString(),
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+      data: input.data,
+    };
+  }
+
+  /** Endpoint URLs often carry credentials (e.g. Zapier catch hooks), so every endpoint action is admin-only. */
+  private async ensureAccess(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string },
+  ): Promise<Result<void, AppError>> {
+    const roleCheck = await this.authorizationService.ensureTenantRole(actor, {
+      tenantId: input.tenantId,
+      minimumRole: 'admin',
+    });
+    if (roleCheck.isErr()) {
+      return err(roleCheck.error);
+    }
+
+    return this.authorizationService.ensureGuildBoundToTenant({ tenantId: input.tenantId, guildId: input.guildId });
+  }
+}
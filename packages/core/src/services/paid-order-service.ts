@@ -2,15 +2,21 @@ import { err, ok, type Result } from 'neverthrow';
 
 import { getEnv } from '../config/env.js';
 import { AppError, fromUnknownError } from '../domain/errors.js';
-import { postMessageToDiscordChannel } from '../integrations/discord-rest.js';
+import { postMessageToDiscordChannel, sendDirectMessageToDiscordUser } from '../integrations/discord-rest.js';
 import { sendDirectMessageToTelegramUser } from '../integrations/telegram-rest.js';
 import {
   OrderRepository,
+  type OrderSessionRecord,
   type PaidOrderFulfillmentStatus,
   type PaidOrderRecord,
 } from '../repositories/order-repository.js';
+import type { SessionPayload } from '../security/session-token.js';
 import { parsePlatformScopedId } from '../utils/platform-ids.js';
 import { AdminService } from './admin-service.js';
+import { AuthorizationService } from './authorization-service.js';
+import { OutboundWebhookService } from './outbound-webhook-service.js';
+import { RoleGrantService } from './role-grant-service.js';
+import { SubscriptionService } from './subscription-service.js';
 
 export const PAID_ORDER_FULFILLMENT_CUSTOM_ID_PREFIX = 'paid-order:fulfillment:';
 
@@ -104,7 +110,7 @@ function normalizeCustomerMessage(message: string | null | undefined): string |
   return normalized.length > 0 ? normalized : null;
 }
 
-export type PaidOrderCustomerNotificationTarget = 'discord_channel' | 'telegram_dm';
+export type PaidOrderCustomerNotificationTarget = 'discord_dm' | 'discord_channel' | 'telegram_dm';
 
 export type PaidOrderCustomerNotificationResult = {
   attempted: boolean;
@@ -116,7 +122,11 @@ export type PaidOrderCustomerNotificationResult = {
 export class PaidOrderService {
   private readonly env = getEnv();
   private readonly adminService = new AdminService();
+  private readonly authorizationService = new AuthorizationService();
   private readonly orderRepository = new OrderRepository();
+  private readonly outboundWebhookService = new OutboundWebhookService();
+  private readonly roleGrantService = new RoleGrantService();
+  private readonly subscriptionService = new SubscriptionService();
 
   public async getPaidOrderByGuild(input: {
     paidOrderId: string;
@@ -176,6 +186,14 @@ export class PaidOrderService {
         });
       }
 
+      // Marking an underpaid order fulfilled is how staff confirm the shortfall was settled.
+      if (existing.amountCheck === 'underpaid') {
+        const released = await this.releaseUnderpaymentHold(existing);
+        if (released.isErr()) {
+          return err(released.error);
+        }
+      }
+
       await this.orderRepository.markPaidOrderFulfilled({
         paidOrderId: existing.id,
         actorDiscordUserId: input.actorDiscordUserId,
@@ -186,6 +204,19 @@ export class PaidOrderService {
         return err(new AppError('PAID_ORDER_NOT_FOUND', 'Paid order not found after update.', 404));
       }
 
+      await this.outboundWebhookService.emitEvent({
+        tenantId: updated.tenantId,
+        guildId: updated.guildId,
+        type: 'order.fulfilled',
+        eventKey: updated.id,
+        data: {
+          orderSessionId: updated.orderSessionId,
+          paidOrderId: updated.id,
+          fulfilledBy: 'staff',
+          fulfilledByDiscordUserId: updated.fulfilledByDiscordUserId,
+        },
+      });
+
       return ok({
         paidOrderId: updated.id,
         tenantId: updated.tenantId,
@@ -201,6 +232,38 @@ export class PaidOrderService {
     }
   }
 
+  /** `markPaidOrderFulfilled` for callers outside Discord, where the paid-log button's staff-role gate does not apply. */
+  public async markPaidOrderFulfilledForActor(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string; paidOrderId: string },
+  ): ReturnType<PaidOrderService['markPaidOrderFulfilled']> {
+    try {
+      const roleCheck = await this.authorizationService.ensureTenantRole(actor, {
+        tenantId: input.tenantId,
+        minimumRole: 'member',
+      });
+      if (roleCheck.isErr()) {
+        return err(roleCheck.error);
+      }
+
+      const guildCheck = await this.authorizationService.ensureGuildBoundToTenant({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+      });
+      if (guildCheck.isErr()) {
+        return err(guildCheck.error);
+      }
+
+      return await this.markPaidOrderFulfilled({
+        paidOrderId: input.paidOrderId,
+        guildId: input.guildId,
+        actorDiscordUserId: actor.discordUserId,
+      });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
   public async completePaidOrderFulfillment(input: {
     paidOrderId: string;
     guildId: string;
@@ -242,6 +305,37 @@ export class PaidOrderService {
     });
   }
 
+  /**
+   * Sends order content (e.g. auto-delivered keys) privately where possible: a Discord DM first,
+   * falling back to the ticket channel when the customer has DMs closed. Telegram orders use a DM.
+   */
+  public async deliverOrderContentToCustomer(input: {
+    orderSession: Pick<OrderSessionRecord, 'ticketChannelId' | 'customerDiscordId'>;
+    content: string;
+  }): Promise<PaidOrderCustomerNotificationResult> {
+    const scopedChannelId = parsePlatformScopedId(input.orderSession.ticketChannelId);
+    if (scopedChannelId.platform === 'telegram') {
+      return this.sendTelegramCustomerFulfillmentMessage({
+        customerDiscordId: input.orderSession.customerDiscordId,
+        content: input.content,
+      });
+    }
+
+    const directMessage = await this.sendDiscordCustomerDirectMessage({
+      customerDiscordId: input.orderSession.customerDiscordId,
+      content: input.content,
+    });
+    if (directMessage.delivered) {
+      return directMessage;
+    }
+
+    return this.sendDiscordCustomerFulfillmentMessage({
+      ticketChannelId: scopedChannelId.rawId,
+      customerDiscordId: input.orderSession.customerDiscordId,
+      content: input.content,
+    });
+  }
+
   private async sendCustomerFulfillmentMessage(input: {
     orderSessionId: string;
     customerMessage: string | null;
@@ -353,6 +447,62 @@ export class PaidOrderService {
     };
   }
 
+  private async sendDiscordCustomerDirectMessage(input: {
+    customerDiscordId: string;
+    content: string;
+  }): Promise<PaidOrderCustomerNotificationResult> {
+    const scopedCustomerId = parsePlatformScopedId(input.customerDiscordId);
+    if (scopedCustomerId.platform !== 'discord' || scopedCustomerId.rawId.length === 0) {
+      return {
+        attempted: false,
+        delivered: false,
+        target: 'discord_dm',
+        errorMessage: 'Discord customer ID is missing for this order.',
+      };
+    }
+
+    const botTokensResult = await this.getBotTokenCandidates();
+    if (botTokensResult.isErr()) {
+      return {
+        attempted: true,
+        delivered: false,
+        target: 'discord_dm',
+        errorMessage: botTokensResult.error.message,
+      };
+    }
+
+    let lastError: unknown = null;
+    for (const botToken of botTokensResult.value) {
+      try {
+        await sendDirectMessageToDiscordUser({
+          botToken,
+          userId: scopedCustomerId.rawId,
+          content: fitDiscordMessage(input.content),
+        });
+
+        return {
+          attempted: true,
+          delivered: true,
+          target: 'discord_dm',
+          errorMessage: null,
+        };
+      } catch (error) {
+        lastError = error;
+        if (this.isDiscordUnauthorized(error)) {
+          continue;
+        }
+        break;
+      }
+    }
+
+    return {
+      attempted: true,
+      delivered: false,
+      target: 'discord_dm',
+      errorMessage: lastError instanceof Error ? lastError.message : 'Customer direct message failed.',
+    };
+  }
+
   private async sendTelegramCustomerFulfillmentMessage(input: {
     customerDiscordId: string;
     content: string;
@@ -400,6 +550,38 @@ export class PaidOrderService {
     }
   }
 
+  /** Grants the roles and subscriptions the webhook held back while the order was underpaid. */
+  private async releaseUnderpaymentHold(paidOrder: PaidOrderRecord): Promise<Result<void, AppError>> {
+    const orderSession = await this.orderRepository.getOrderSession({
+      tenantId: paidOrder.tenantId,
+      orderSessionId: paidOrder.orderSessionId,
+    });
+    if (!orderSession) {
+      return err(new AppError('ORDER_SESSION_NOT_FOUND', 'Order session not found for this paid order.', 404));
+    }
+
+    const botTokens = await this.getBotTokenCandidates();
+    if (botTokens.isErr()) {
+      return err(botTokens.error);
+    }
+
+    const roleGrants = await this.roleGrantService.grantRolesForPaidOrder({
+      orderSession,
+      paidOrderId: paidOrder.id,
+      botTokens: botTokens.value,
+    });
+    if (roleGrants.isErr()) {
+      return err(roleGrants.error);
+    }
+
+    const subscriptions = await this.subscriptionService.recordPaidOrder({ orderSession });
+    if (subscriptions.isErr()) {
+      return err(subscriptions.error);
+    }
+
+    return ok(undefined);
+  }
+
   private async getBotTokenCandidates(): Promise<Result<string[], AppError>> {
     const candidates: string[] = [];
 
@@ -0,0 +1,152 @@
+import { err, ok, type Result } from 'neverthrow';
+
+import type { AppError } from '../domain/errors.js';
+import type { PaidOrderRefundReason } from '../repositories/order-repository.js';
+
+export type PaymentProviderId = 'voodoopay' | 'stripe' | 'woocommerce' | 'manual';
+
+/** Providers that confirm payments by webhook; manual payments are confirmed by staff instead. */
+export type WebhookPaymentProviderId = Exclude<PaymentProviderId, 'manual'>;
+
+export type SaleCheckoutOption = {
+  method: 'pay' | 'crypto';
+  label: string;
+  url: string;
+};
+
+export type PaymentCheckoutInput = {
+  tenantId: string;
+  guildId: string;
+  orderSessionId: string;
+  customerDiscordUserId: string;
+  /** First basket line; Woo sends the customer to this variant's product page. */
+  primaryItem: { productId: string; variantId: string; productName: string; variantLabel: string };
+  totalMinor: number;
+  currency: string;
+  /** Email found in the customer's answers, if any. */
+  customerEmail: string | null;
+  /** Signed checkout token for the order session. */
+  checkoutToken: string;
+  expiresAt: Date;
+};
+
+export type PaymentCheckout = {
+  /** `null` when the customer pays outside the bot, e.g. by bank transfer. */
+  checkoutUrl: string | null;
+  checkoutUrlCrypto: string | null;
+  checkoutOptions: SaleCheckoutOption[];
+  /** Non-fatal problems shown to staff, e.g. an optional checkout option that could not be created. */
+  warnings: string[];
+};
+
+export type PaymentWebhookRequest = {
+  tenantWebhookKey: string;
+  rawBody: string;
+  /** Header names are lower case. */
+  headers: Record<string, string | null>;
+  query: Record<string, string>;
+};
+
+export type VerifiedPaymentWebhook = {
+  tenantId: string;
+  guildId: string;
+  signatureValid: boolean;
+  deliveryId: string;
+  topic: string;
+  payload: Record<string, unknown>;
+  /** The order session the payload refers to, when it can be read without calling the provider. */
+  orderSessionId: string | null;
+};
+
+export type PaymentState = {
+  paid: boolean;
+  status: string | null;
+  orderSessionId: string | null;
+  providerOrderId: string | null;
+  paymentReference: string | null;
+  /** Amount the provider charged, `null` when the payload does not say. */
+  amountMinor: number | null;
+  currency: string | null;
+  /** Set when the provider reports money going back to the customer. */
+  refundReason: PaidOrderRefundReason | null;
+  /**
+   * Total refunded so far on a paid order; zero when the provider only reports a refunded status.
+   * Only read for paid states and for unpaid `partially_refunded` ones.
+   */
+  refundedMinor: number;
+};
+
+export type PaymentRefundInput = {
+  tenantId: string;
+  guildId: string;
+  providerOrderId: string;
+  paymentReference: string | null;
+  amountMinor: number;
+  currency: string;
+  reason: string | null;
+};
+
+export type PaymentRefund = {
+  refundId: string;
+  status: string;
+};
+
+/**
+ * A checkout gateway a guild can connect. Providers load their own integration settings, so callers
+ * only pass the tenant and guild (or the webhook key for inbound calls).
+ */
+export interface PaymentProvider {
+  readonly id: PaymentProviderId;
+  readonly label: string;
+  isConfigured(input: { tenantId: string; guildId: string }): Promise<Result<boolean, AppError>>;
+  createCheckout(input: PaymentCheckoutInput): Promise<Result<PaymentCheckout, AppError>>;
+  /** Authenticates an inbound webhook; a bad signature is reported in the result so it can still be logged. */
+  verifyWebhook(input: PaymentWebhookRequest): Promise<Result<VerifiedPaymentWebhook, AppError>>;
+  resolvePaymentState(input: {
+    tenantId: string;
+    guildId: string;
+    payload: Record<string, unknown>;
+  }): Promise<Result<PaymentState, AppError>>;
+  refund(input: PaymentRefundInput): Promise<Result<PaymentRefund, AppError>>;
+}
+
+const PAYMENT_PROVIDER_LABELS: Record<PaymentProviderId, string> = {
+  voodoopay: 'Voodoo Pay',
+  stripe: 'Stripe',
+  woocommerce: 'WooCommerce',
+  manual: 'Manual Payment',
+};
+
+export function getPaymentProviderLabel(providerId: PaymentProviderId): string {
+  return PAYMENT_PROVIDER_LABELS[providerId];
+}
+
+export function resolveProviderRefundReason(status: string | null | undefined): PaidOrderRefundReason | null {
+  const normalized = status?.trim().toLowerCase() ?? '';
+  if (normalized === 'refunded') {
+    return 'refund';
+  }
+  if (normalized === 'chargeback' || normalized === 'charged_back') {
+    return 'chargeback';
+  }
+
+  return null;
+}
+
+/** Picks the first connected provider in priority order; `null` when the guild has none. */
+export async function resolveCheckoutProvider(
+  providers: PaymentProvider[],
+  input: { tenantId: string; guildId: string },
+): Promise<Result<PaymentProvider | null, AppError>> {
+  for (const provider of providers) {
+    const configured = await provider.isConfigured(input);
+    if (configured.isErr()) {
+      return err(configured.error);
+    }
+    if (configured.value) {
+      return ok(provider);
+    }
+  }
+
+  return ok(null);
+}
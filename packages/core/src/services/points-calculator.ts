@@ -1,11 +1,22 @@
+import { getMinorPerMajor } from '../utils/currency.js';
+import { getLineAfterAutomaticDiscountMinor, getLineTotalMinor, resolveLineQuantity } from './basket-quantity.js';
+
 export type PointsCalcLineInput = {
   category: string;
+  /** Unit price; the line counts `priceMinor * quantity` towards the basket. */
   priceMinor: number;
+  /** Defaults to one unit. */
+  quantity?: number;
+  /** Volume pricing and automatic discount rules already taken off this line. */
+  automaticDiscountMinor?: number;
 };
 
 export type PointsCalcLineBreakdown = {
   categoryKey: string;
   priceMinor: number;
+  quantity: number;
+  lineTotalMinor: number;
+  automaticDiscountMinor: number;
   couponAllocatedMinor: number;
   lineAfterCouponMinor: number;
   pointsAllocatedMinor: number;
@@ -14,6 +25,7 @@ export type PointsCalcLineBreakdown = {
 
 export type PointsOrderCalculation = {
   subtotalMinor: number;
+  automaticDiscountMinor: number;
   couponDiscountMinor: number;
   redeemablePoolMinor: number;
   maxRedeemablePointsByAmount: number;
@@ -26,8 +38,6 @@ export type PointsOrderCalculation = {
   lineBreakdown: PointsCalcLineBreakdown[];
 };
 
-const MINOR_PER_MAJOR = 100;
-
 function toNonNegativeInt(value: number): number {
   if (!Number.isFinite(value)) {
     return 0;
@@ -36,8 +46,9 @@ function toNonNegativeInt(value: number): number {
   return Math.max(0, Math.floor(value));
 }
 
-function calculateEarnedPointsFromMinor(earnPoolMinor: number): number {
-  return Math.floor(toNonNegativeInt(earnPoolMinor) / MINOR_PER_MAJOR);
+/** One point is earned per whole unit of the order currency, so 1 per pound but also 1 per yen. */
+function calculateEarnedPointsFromMinor(earnPoolMinor: number, currency: string): number {
+  return Math.floor(toNonNegativeInt(earnPoolMinor) / getMinorPerMajor(currency));
 }
 
 export function normalizeCategoryKey(value: string): string {
@@ -130,28 +141,45 @@ function buildLineBreakdown(input: {
 }): {
   lineBreakdown: PointsCalcLineBreakdown[];
   subtotalMinor: number;
+  automaticDiscountMinor: number;
   couponDiscountMinor: number;
   pointsDiscountMinor: number;
   redeemablePoolMinor: number;
 } {
-  const normalizedLines = input.lines.map((line) => ({
-    categoryKey: normalizeCategoryKey(line.category),
-    priceMinor: toNonNegativeInt(line.priceMinor),
-  }));
-  const subtotalMinor = normalizedLines.reduce((sum, line) => sum + line.priceMinor, 0);
-  const couponDiscountMinor = Math.min(toNonNegativeInt(input.couponDiscountMinor), subtotalMinor);
+  const normalizedLines = input.lines.map((line) => {
+    const lineTotalMinor = getLineTotalMinor(line);
+    const lineAfterAutomaticMinor = getLineAfterAutomaticDiscountMinor(line);
+
+    return {
+      categoryKey: normalizeCategoryKey(line.category),
+      priceMinor: toNonNegativeInt(line.priceMinor),
+      quantity: resolveLineQuantity(line),
+      lineTotalMinor,
+      automaticDiscountMinor: lineTotalMinor - lineAfterAutomaticMinor,
+      lineAfterAutomaticMinor,
+    };
+  });
+  const subtotalMinor = normalizedLines.reduce((sum, line) => sum + line.lineTotalMinor, 0);
+  const automaticDiscountMinor = normalizedLines.reduce((sum, line) => sum + line.automaticDiscountMinor, 0);
+  const couponDiscountMinor = Math.min(
+    toNonNegativeInt(input.couponDiscountMinor),
+    subtotalMinor - automaticDiscountMinor,
+  );
   const couponAllocations = allocateProportionalMinor(
     couponDiscountMinor,
-    normalizedLines.map((line) => line.priceMinor),
+    normalizedLines.map((line) => line.lineAfterAutomaticMinor),
   );
 
   const linesAfterCoupon = normalizedLines.map((line, index) => {
     const couponAllocatedMinor = couponAllocations[index] ?? 0;
-    const lineAfterCouponMinor = Math.max(0, line.priceMinor - couponAllocatedMinor);
+    const lineAfterCouponMinor = Math.max(0, line.lineAfterAutomaticMinor - couponAllocatedMinor);
 
     return {
       categoryKey: line.categoryKey,
       priceMinor: line.priceMinor,
+      quantity: line.quantity,
+      lineTotalMinor: line.lineTotalMinor,
+      automaticDiscountMinor: line.automaticDiscountMinor,
       couponAllocatedMinor,
       lineAfterCouponMinor,
     };
@@ -179,6 +207,9 @@ function buildLineBreakdown(input: {
     return {
       categoryKey: line.categoryKey,
       priceMinor: line.priceMinor,
+      quantity: line.quantity,
+      lineTotalMinor: line.lineTotalMinor,
+      automaticDiscountMinor: line.automaticDiscountMinor,
       couponAllocatedMinor: line.couponAllocatedMinor,
       lineAfterCouponMinor: line.lineAfterCouponMinor,
       pointsAllocatedMinor,
@@ -189,6 +220,7 @@ function buildLineBreakdown(input: {
   return {
     lineBreakdown,
     subtotalMinor,
+    automaticDiscountMinor,
     couponDiscountMinor,
     pointsDiscountMinor,
     redeemablePoolMinor,
@@ -222,6 +254,7 @@ export function calculatePointsOrderTotals(input: {
   redeemCategoryKeys: string[];
   availablePoints: number;
   usePoints: boolean;
+  currency: string;
 }): PointsOrderCalculation {
   const pointValueMinor = Math.max(1, toNonNegativeInt(input.pointValueMinor));
   const tipMinor = toNonNegativeInt(input.tipMinor);
@@ -246,14 +279,19 @@ export function calculatePointsOrderTotals(input: {
     redeemCategoryKeys: input.redeemCategoryKeys,
   });
   const earnPoolMinor = calculateEarnPoolMinor(withPoints.lineBreakdown, input.earnCategoryKeys);
-  const pointsEarned = calculateEarnedPointsFromMinor(earnPoolMinor);
+  const pointsEarned = calculateEarnedPointsFromMinor(earnPoolMinor, input.currency);
   const totalMinor = Math.max(
     0,
-    withPoints.subtotalMinor - withPoints.couponDiscountMinor - withPoints.pointsDiscountMinor + tipMinor,
+    withPoints.subtotalMinor -
+      withPoints.automaticDiscountMinor -
+      withPoints.couponDiscountMinor -
+      withPoints.pointsDiscountMinor +
+      tipMinor,
   );
 
   return {
     subtotalMinor: withPoints.subtotalMinor,
+    automaticDiscountMinor: withPoints.automaticDiscountMinor,
     couponDiscountMinor: withPoints.couponDiscountMinor,
     redeemablePoolMinor: withPoints.redeemablePoolMinor,
     maxRedeemablePointsByAmount,
@@ -273,6 +311,7 @@ export function calculateEarnFromAppliedDiscounts(input: {
   pointsDiscountMinor: number;
   earnCategoryKeys: string[];
   redeemCategoryKeys: string[];
+  currency: string;
 }): {
   earnPoolMinor: number;
   pointsEarned: number;
@@ -288,7 +327,7 @@ export function calculateEarnFromAppliedDiscounts(input: {
 
   return {
     earnPoolMinor,
-    pointsEarned: calculateEarnedPointsFromMinor(earnPoolMinor),
+    pointsEarned: calculateEarnedPointsFromMinor(earnPoolMinor, input.currency),
     lineBreakdown: result.lineBreakdown,
   };
 }
@@ -1,4 +1,5 @@
 import { err, ok, type Result } from 'neverthrow';
+import { ulid } from 'ulid';
 import { z } from 'zod';
 
 import { AppError, fromUnknownError, validationError } from '../domain/errors.js';
@@ -9,6 +10,7 @@ import type { SessionPayload } from '../security/session-token.js';
 import { resolveOrderSessionCustomerEmail } from '../utils/customer-email.js';
 import { AuthorizationService } from './authorization-service.js';
 import { GuildFeatureService } from './guild-feature-service.js';
+import { OutboundWebhookService } from './outbound-webhook-service.js';
 
 const emailSchema = z.string().trim().min(3).max(320).email();
 const manualAdjustSchema = z.object({
@@ -65,6 +67,7 @@ export class PointsService {
   private readonly orderRepository = new OrderRepository();
   private readonly authorizationService = new AuthorizationService();
   private readonly guildFeatureService = new GuildFeatureService();
+  private readonly outboundWebhookService = new OutboundWebhookService();
 
   public normalizeEmail(email: string): Result<NormalizedEmail, AppError> {
     const parsed = emailSchema.safeParse(email);
@@ -244,6 +247,38 @@ export class PointsService {
       action: 'add' | 'remove' | 'set' | 'clear';
       points: number;
     },
+  ): Promise<Result<PointsBalanceView, AppError>> {
+    const adjusted = await this.applyManualAdjust(actor, input);
+    if (adjusted.isOk()) {
+      await this.outboundWebhookService.emitEvent({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        type: 'points.adjusted',
+        // Every manual adjustment is its own event, even when the same change is made twice.
+        eventKey: ulid(),
+        data: {
+          email: adjusted.value.emailDisplay,
+          action: input.action,
+          points: input.points,
+          balancePoints: adjusted.value.balancePoints,
+          availablePoints: adjusted.value.availablePoints,
+          actorUserId: actor.userId,
+        },
+      });
+    }
+
+    return adjusted;
+  }
+
+  private async applyManualAdjust(
+    actor: SessionPayload,
+    input: {
+      tenantId: string;
+      guildId: string;
+      email: string;
+      action: 'add' | 'remove' | 'set' | 'clear';
+      points: number;
+    },
   ): Promise<Result<PointsBalanceView, AppError>> {
     try {
       const roleCheck = await this.authorizationService.ensureTenantRole(actor, {
@@ -696,6 +731,76 @@ export class PointsService {
     }
   }
 
+  /**
+   * Takes back the share of earned points that matches the refunded share of the order. Repeat
+   * calls only remove the difference, so a partial refund followed by a full one settles correctly.
+   */
+  public async clawBackEarnedPointsForRefund(input: {
+    orderSession: OrderSessionRecord;
+    refundedMinor: number;
+    totalMinor: number;
+  }): Promise<Result<number, AppError>> {
+    try {
+      const scope = {
+        tenantId: input.orderSession.tenantId,
+        guildId: input.orderSession.guildId,
+        orderSessionId: input.orderSession.id,
+      };
+      const earned = await this.pointsRepository.findLedgerEventByOrderSessionAndType({
+        ...scope,
+        eventType: 'earned_from_paid_order',
+      });
+      if (!earned || earned.deltaPoints <= 0) {
+        return ok(0);
+      }
+
+      const targetPoints =
+        input.totalMinor <= 0 || input.refundedMinor >= input.totalMinor
+          ? earned.deltaPoints
+          : Math.floor((earned.deltaPoints * Math.max(0, input.refundedMinor)) / input.totalMinor);
+      const alreadyClawedBack = -(await this.pointsRepository.sumLedgerDeltaByOrderSessionAndType({
+        ...scope,
+        eventType: 'earned_points_refunded',
+      }));
+      const points = targetPoints - alreadyClawedBack;
+      if (points <= 0) {
+        return ok(0);
+      }
+
+      const account = await this.pointsRepository.getAccount({
+        tenantId: scope.tenantId,
+        guildId: scope.guildId,
+        emailNormalized: earned.emailNormalized,
+      });
+      const removal = await this.pointsRepository.removePointsClampToZero({
+        tenantId: scope.tenantId,
+        guildId: scope.guildId,
+        emailNormalized: earned.emailNormalized,
+        emailDisplay: account?.emailDisplay ?? earned.emailNormalized,
+        points,
+      });
+
+      // The ledger records the full claw-back even when the balance was already spent down, so a
+      // later refund event does not try to take the same points again.
+      await this.pointsRepository.insertLedgerEvent({
+        ...scope,
+        emailNormalized: earned.emailNormalized,
+        deltaPoints: -points,
+        eventType: 'earned_points_refunded',
+        metadata: {
+          points,
+          removedPoints: removal.removedPoints,
+          refundedMinor: input.refundedMinor,
+          totalMinor: input.totalMinor,
+        },
+      });
+
+      return ok(removal.removedPoints);
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
   public async releaseExpiredReservations(input: {
     tenantId: string;
     guildId: string;
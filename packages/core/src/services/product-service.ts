@@ -3,25 +3,74 @@ import { z } from 'zod';
 
 import { AppError, fromUnknownError, validationError } from '../domain/errors.js';
 import type { ProductFormFieldInput } from '../domain/types.js';
+import { logger } from '../infra/logger.js';
 import type { SessionPayload } from '../security/session-token.js';
 import { ProductRepository } from '../repositories/product-repository.js';
 import { TenantRepository } from '../repositories/tenant-repository.js';
 import { AuthorizationService } from './authorization-service.js';
-
-const variantSchema = z.object({
-  label: z.string().min(1).max(80),
-  priceMinor: z.number().int().nonnegative(),
-  referralRewardMinor: z.number().int().nonnegative().optional().default(0),
-  currency: z.string().length(3).transform((value) => value.toUpperCase()),
-  wooProductId: z.string().max(64).optional(),
-  wooCheckoutPath: z.string().max(255).optional(),
-});
+import { MAX_PRICE_TIERS, normalizePriceTiers } from './automatic-discounts.js';
+import { MAX_BASKET_LINE_QUANTITY } from './basket-quantity.js';
+import { StorefrontService } from './storefront-service.js';
+
+const roleRewardsSchema = z
+  .array(
+    z.object({
+      roleId: z.string().regex(/^\d{5,32}$/),
+      durationDays: z.number().int().min(1).max(3650).nullable(),
+    }),
+  )
+  .max(10)
+  .optional()
+  .default([]);
+
+const priceTiersSchema = z
+  .array(
+    z.object({
+      minQuantity: z.number().int().min(2).max(MAX_BASKET_LINE_QUANTITY),
+      priceMinor: z.number().int().nonnegative(),
+    }),
+  )
+  .max(MAX_PRICE_TIERS)
+  .optional()
+  .default([])
+  .transform((tiers) => normalizePriceTiers(tiers));
+
+const variantSchema = z
+  .object({
+    id: z.string().min(1).max(26).optional(),
+    label: z.string().min(1).max(80),
+    priceMinor: z.number().int().nonnegative(),
+    referralRewardMinor: z.number().int().nonnegative().optional().default(0),
+    currency: z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z]{3}$/, 'Currency must be a three-letter code.')
+      .transform((value) => value.toUpperCase()),
+    wooProductId: z.string().max(64).optional(),
+    wooCheckoutPath: z.string().max(255).optional(),
+    stockQuantity: z.number().int().nonnegative().nullable().optional(),
+    lowStockThreshold: z.number().int().nonnegative().nullable().optional(),
+    roleRewards: roleRewardsSchema,
+    billingIntervalDays: z.number().int().min(1).max(365).nullable().optional().default(null),
+    minQuantity: z.number().int().min(1).max(MAX_BASKET_LINE_QUANTITY).optional().default(1),
+    maxQuantity: z.number().int().min(1).max(MAX_BASKET_LINE_QUANTITY).nullable().optional().default(null),
+    priceTiers: priceTiersSchema,
+  })
+  .refine((variant) => variant.maxQuantity === null || variant.maxQuantity >= variant.minQuantity, {
+    message: 'Maximum quantity cannot be lower than the minimum quantity',
+    path: ['maxQuantity'],
+  })
+  .refine((variant) => variant.priceTiers.every((tier) => tier.priceMinor < variant.priceMinor), {
+    message: 'Volume prices must be lower than the regular price',
+    path: ['priceTiers'],
+  });
 
 const productSchema = z.object({
   category: z.string().trim().min(1).max(80),
   name: z.string().trim().min(1).max(120),
   description: z.string().max(2000).transform((value) => value.trim()),
   active: z.boolean().default(true),
+  roleRewards: roleRewardsSchema,
   variants: z.array(variantSchema).min(1),
 });
 const categorySchema = z.string().trim().min(1).max(80);
@@ -54,6 +103,7 @@ export class ProductService {
   private readonly productRepository = new ProductRepository();
   private readonly tenantRepository = new TenantRepository();
   private readonly authorizationService = new AuthorizationService();
+  private readonly storefrontService = new StorefrontService();
 
   public async listProducts(
     actor: SessionPayload,
@@ -129,6 +179,7 @@ export class ProductService {
         product: parsedProduct.data,
         formFields,
       });
+      await this.refreshStorefrontPanels(input);
 
       return ok(created);
     } catch (error) {
@@ -165,6 +216,7 @@ export class ProductService {
         productId: input.productId,
         product: parsedProduct.data,
       });
+      await this.refreshStorefrontPanels(input);
 
       return ok(undefined);
     } catch (error) {
@@ -175,7 +227,7 @@ export class ProductService {
   public async deleteProduct(
     actor: SessionPayload,
     input: { tenantId: string; guildId: string; productId: string },
-  ): Promise<Result<void, AppError>> {
+  ): Promise<Result<{ archived: boolean }, AppError>> {
     try {
       const roleCheck = await this.authorizationService.ensureTenantRole(actor, {
         tenantId: input.tenantId,
@@ -185,8 +237,9 @@ export class ProductService {
         return err(roleCheck.error);
       }
 
-      await this.productRepository.delete(input);
-      return ok(undefined);
+      const outcome = await this.productRepository.delete(input);
+      await this.refreshStorefrontPanels(input);
+      return ok({ archived: outcome === 'archived' });
     } catch (error) {
       return err(fromUnknownError(error));
     }
@@ -359,6 +412,7 @@ export class ProductService {
         sourceCategory: sourceResolved,
         targetCategory,
       });
+      await this.refreshStorefrontPanels(input);
 
       return ok({
         updatedProducts,
@@ -377,7 +431,7 @@ export class ProductService {
       guildId: string;
       category: string;
     },
-  ): Promise<Result<{ deletedProducts: number; category: string }, AppError>> {
+  ): Promise<Result<{ deletedProducts: number; archivedProducts: number; category: string }, AppError>> {
     try {
       const roleCheck = await this.authorizationService.ensureTenantRole(actor, {
         tenantId: input.tenantId,
@@ -418,7 +472,7 @@ export class ProductService {
         return err(new AppError('CATEGORY_NOT_FOUND', 'Category not found', 404));
       }
 
-      const deletedProducts = await this.productRepository.deleteCategory({
+      const removed = await this.productRepository.deleteCategory({
         tenantId: input.tenantId,
         guildId: input.guildId,
         category: sourceResolved,
@@ -429,9 +483,11 @@ export class ProductService {
         guildId: input.guildId,
         deletedCategory: sourceResolved,
       });
+      await this.refreshStorefrontPanels(input);
 
       return ok({
-        deletedProducts,
+        deletedProducts: removed.deleted,
+        archivedProducts: removed.archived,
         category: sourceResolved,
       });
     } catch (error) {
@@ -439,6 +495,20 @@ export class ProductService {
     }
   }
 
+  /** Catalog edits are already saved, so a panel that fails to update only logs a warning. */
+  private async refreshStorefrontPanels(input: { tenantId: string; guildId: string }): Promise<void> {
+    const refreshed = await this.storefrontService.refreshGuildPanels({
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+    });
+    if (refreshed.isErr()) {
+      logger.warn(
+        { err: refreshed.error, tenantId: input.tenantId, guildId: input.guildId },
+        'failed to refresh storefront panels',
+      );
+    }
+  }
+
   private normalizeCategoryFormFields(fields: ProductFormFieldInput[]): ProductFormFieldInput[] {
     const normalized = fields.map((field) => ({
       ...field,
@@ -0,0 +1,67 @@
+import { err, ok, type Result } from 'neverthrow';
+
+import { getEnv } from '../config/env.js';
+import { AppError, fromUnknownError } from '../domain/errors.js';
+import { OrderRepository } from '../repositories/order-repository.js';
+import { TenantRepository } from '../repositories/tenant-repository.js';
+import { signReceiptToken, verifyReceiptToken } from '../security/receipt-token.js';
+import { buildReceiptDocument, type ReceiptDocument } from './receipts.js';
+
+export class ReceiptService {
+  private readonly env = getEnv();
+  private readonly orderRepository = new OrderRepository();
+  private readonly tenantRepository = new TenantRepository();
+
+  /** Signed link to the customer's receipt; anyone with the link can open it. */
+  public buildReceiptUrl(input: { tenantId: string; orderSessionId: string }): string {
+    const url = new URL(`/receipt/${input.orderSessionId}`, this.env.BOT_PUBLIC_URL);
+    url.searchParams.set('token', signReceiptToken(input, this.env.CHECKOUT_SIGNING_SECRET));
+    return url.toString();
+  }
+
+  /** Unknown orders, unpaid orders and bad tokens all look the same so receipt links cannot be probed. */
+  public async getReceipt(input: {
+    orderSessionId: string;
+    token: string | null;
+  }): Promise<Result<ReceiptDocument, AppError>> {
+    try {
+      const notFound = new AppError('RECEIPT_NOT_FOUND', 'Receipt not found', 404);
+      const orderSession = await this.orderRepository.getOrderSessionById(input.orderSessionId);
+      if (
+        !orderSession ||
+        !verifyReceiptToken({
+          payload: { tenantId: orderSession.tenantId, orderSessionId: orderSession.id },
+          secret: this.env.CHECKOUT_SIGNING_SECRET,
+          providedToken: input.token,
+        })
+      ) {
+        return err(notFound);
+      }
+
+      const paidOrder = await this.orderRepository.getPaidOrderByOrderSessionId(orderSession.id);
+      if (!paidOrder) {
+        return err(notFound);
+      }
+
+      const [config, guild] = await Promise.all([
+        this.tenantRepository.getGuildConfig({ tenantId: orderSession.tenantId, guildId: orderSession.guildId }),
+        this.tenantRepository.getTenantGuild({ tenantId: orderSession.tenantId, guildId: orderSession.guildId }),
+      ]);
+
+      return ok(
+        buildReceiptDocument({
+          orderSession,
+          paidOrder,
+          store: {
+            storeName: config?.invoiceStoreName ?? '',
+            storeDetails: config?.invoiceStoreDetails ?? '',
+            taxRateBps: config?.invoiceTaxRateBps ?? 0,
+          },
+          fallbackStoreName: guild?.guildName ?? 'Receipt',
+        }),
+      );
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+}
@@ -0,0 +1,360 @@
+import type { OrderSessionRecord, PaidOrderRecord } from '../repositories/order-repository.js';
+import { formatCurrencyMinor, normalizeCurrencyCode } from '../utils/currency.js';
+import { getLineTotalMinor, groupBasketLines } from './basket-quantity.js';
+import { convertMinorAmount } from './exchange-rates.js';
+
+export type ReceiptLine = {
+  label: string;
+  amount: string;
+  /** Secondary text, e.g. the original price of a converted item. */
+  note: string | null;
+};
+
+export type ReceiptDocument = {
+  invoiceNumber: string;
+  orderSessionId: string;
+  issuedAt: Date;
+  storeName: string;
+  storeDetails: string[];
+  customerEmail: string | null;
+  lineItems: ReceiptLine[];
+  totals: ReceiptLine[];
+  paymentReference: string | null;
+};
+
+export type ReceiptStoreSettings = {
+  storeName: string;
+  storeDetails: string;
+  taxRateBps: number;
+};
+
+export function formatInvoiceNumber(invoiceNumber: number): string {
+  return `INV-${String(invoiceNumber).padStart(6, '0')}`;
+}
+
+/** Prices include tax, so the tax share is worked back out of the total. */
+export function calculateIncludedTaxMinor(totalMinor: number, taxRateBps: number): number {
+  if (taxRateBps <= 0 || totalMinor <= 0) {
+    return 0;
+  }
+
+  return Math.round((totalMinor * taxRateBps) / (10_000 + taxRateBps));
+}
+
+function formatTaxRate(taxRateBps: number): string {
+  return `${Number((taxRateBps / 100).toFixed(2))}%`;
+}
+
+export function buildReceiptDocument(input: {
+  orderSession: OrderSessionRecord;
+  paidOrder: PaidOrderRecord;
+  store: ReceiptStoreSettings;
+  fallbackStoreName: string;
+}): ReceiptDocument {
+  const { orderSession, paidOrder, store } = input;
+  const currency = normalizeCurrencyCode(paidOrder.currency) ?? paidOrder.currency;
+  const format = (minor: number): string => formatCurrencyMinor(minor, currency);
+
+  const lineItems = groupBasketLines(orderSession.basketItems).map((item): ReceiptLine => {
+    const itemCurrency = normalizeCurrencyCode(item.currency) ?? item.currency;
+    const label =
+      item.quantity > 1
+        ? `${item.productName} - ${item.variantLabel} x${item.quantity}`
+        : `${item.productName} - ${item.variantLabel}`;
+    if (itemCurrency === currency) {
+      return { label, amount: format(getLineTotalMinor(item)), note: null };
+    }
+
+    const snapshot = orderSession.fxRatesSnapshot.find(
+      (rate) => rate.fromCurrency === itemCurrency && rate.toCurrency === currency,
+    );
+    const original = formatCurrencyMinor(getLineTotalMinor(item), itemCurrency);
+    if (!snapshot) {
+      return { label, amount: original, note: null };
+    }
+
+    return {
+      label,
+      amount: format(convertMinorAmount(item.priceMinor, snapshot.rate) * item.quantity),
+      note: `${original} at ${snapshot.rate}`,
+    };
+  });
+
+  const totals: ReceiptLine[] = [{ label: 'Subtotal', amount: format(orderSession.subtotalMinor), note: null }];
+  for (const discount of orderSession.automaticDiscounts ?? []) {
+    totals.push({ label: discount.label, amount: `-${format(discount.amountMinor)}`, note: null });
+  }
+  if (orderSession.couponDiscountMinor > 0) {
+    totals.push({
+      label: orderSession.couponCode ? `Coupon (${orderSession.couponCode})` : 'Coupon',
+      amount: `-${format(orderSession.couponDiscountMinor)}`,
+      note: null,
+    });
+  }
+  if (orderSession.pointsDiscountMinor > 0) {
+    totals.push({
+      label: `Points (${orderSession.pointsReserved})`,
+      amount: `-${format(orderSession.pointsDiscountMinor)}`,
+      note: null,
+    });
+  }
+  if (orderSession.tipMinor > 0) {
+    totals.push({ label: 'Tip', amount: format(orderSession.tipMinor), note: null });
+  }
+  totals.push({ label: 'Total paid', amount: format(paidOrder.priceMinor), note: null });
+
+  const taxMinor = calculateIncludedTaxMinor(paidOrder.priceMinor, store.taxRateBps);
+  if (store.taxRateBps > 0) {
+    totals.push({
+      label: `Includes tax (${formatTaxRate(store.taxRateBps)})`,
+      amount: format(taxMinor),
+      note: null,
+    });
+  }
+  if (paidOrder.refundedMinor > 0) {
+    totals.push({
+      label: paidOrder.refundReason === 'chargeback' ? 'Charged back' : 'Refunded',
+      amount: `-${format(paidOrder.refundedMinor)}`,
+      note: paidOrder.refundedAt ? paidOrder.refundedAt.toISOString().slice(0, 10) : null,
+    });
+  }
+
+  return {
+    invoiceNumber: formatInvoiceNumber(paidOrder.invoiceNumber),
+    orderSessionId: orderSession.id,
+    issuedAt: paidOrder.paidAt,
+    storeName: store.storeName.trim() || input.fallbackStoreName,
+    storeDetails: store.storeDetails
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter(Boolean),
+    customerEmail: orderSession.customerEmailNormalized,
+    lineItems,
+    totals,
+    paymentReference: paidOrder.paymentReference,
+  };
+}
+
+function formatIssuedAt(value: Date): string {
+  return `${value.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#39;');
+}
+
+function renderHtmlRows(lines: ReceiptLine[], className: string): string[] {
+  return lines.map((line) =>
+    [
+      `        <tr class="${className}">`,
+      `          <td>${escapeHtml(line.label)}${line.note ? `<span class="note">${escapeHtml(line.note)}</span>` : ''}</td>`,
+      `          <td class="amount">${escapeHtml(line.amount)}</td>`,
+      '        </tr>',
+    ].join('\n'),
+  );
+}
+
+/** Printable receipt page. `pdfUrl` adds a download link for the PDF version. */
+export function renderReceiptHtml(receipt: ReceiptDocument, options: { pdfUrl?: string } = {}): string {
+  const title = `${receipt.storeName} receipt ${receipt.invoiceNumber}`;
+  const meta = [
+    ['Invoice', receipt.invoiceNumber],
+    ['Date', formatIssuedAt(receipt.issuedAt)],
+    ['Order', receipt.orderSessionId],
+    ...(receipt.customerEmail ? [['Customer', receipt.customerEmail]] : []),
+    ...(receipt.paymentReference ? [['Payment reference', receipt.paymentReference]] : []),
+  ];
+
+  return [
+    '<!doctype html>',
+    '<html lang="en">',
+    '<head>',
+    '  <meta charset="utf-8" />',
+    '  <meta name="viewport" content="width=device-width, initial-scale=1" />',
+    `  <title>${escapeHtml(title)}</title>`,
+    '  <style>',
+    '    body { margin: 0; font-family: system-ui, sans-serif; background: #f3f5f7; color: #121a21; }',
+    '    main { max-width: 720px; margin: 0 auto; padding: 32px 20px; }',
+    '    article { background: #fff; border: 1px solid #dde3e8; border-radius: 16px; padding: 32px; }',
+    '    h1 { margin: 0 0 4px; font-size: 1.5rem; }',
+    '    .store-details { margin: 0 0 24px; color: #55636f; white-space: pre-line; }',
+    '    dl { display: grid; grid-template-columns: max-content 1fr; gap: 6px 16px; margin: 0 0 24px; }',
+    '    dt { color: #55636f; }',
+    '    dd { margin: 0; font-variant-numeric: tabular-nums; word-break: break-all; }',
+    '    table { width: 100%; border-collapse: collapse; }',
+    '    td { padding: 10px 0; border-bottom: 1px solid #eef1f4; vertical-align: top; }',
+    '    td.amount { text-align: right; white-space: nowrap; font-variant-numeric: tabular-nums; }',
+    '    tr.total td { border-bottom: 0; padding: 6px 0; }',
+    '    .note { display: block; color: #6b7884; font-size: 0.85rem; }',
+    '    .actions { display: flex; gap: 12px; margin-top: 20px; }',
+    '    .actions a, .actions button { font: inherit; padding: 10px 16px; border-radius: 10px; border: 1px solid #c9d2da; background: #fff; color: inherit; text-decoration: none; cursor: pointer; }',
+    '    @media print { body { background: #fff; } main { padding: 0; } article { border: 0; padding: 0; } .actions { display: none; } }',
+    '  </style>',
+    '</head>',
+    '<body>',
+    '  <main>',
+    '    <article>',
+    `      <h1>${escapeHtml(receipt.storeName)}</h1>`,
+    `      <p class="store-details">${receipt.storeDetails.map(escapeHtml).join('\n')}</p>`,
+    '      <dl>',
+    ...meta.map(([label, value]) => `        <dt>${escapeHtml(label ?? '')}</dt><dd>${escapeHtml(value ?? '')}</dd>`),
+    '      </dl>',
+    '      <table>',
+    '        <tbody>',
+    ...renderHtmlRows(receipt.lineItems, 'item'),
+    ...renderHtmlRows(receipt.totals, 'total'),
+    '        </tbody>',
+    '      </table>',
+    '    </article>',
+    '    <div class="actions">',
+    '      <button type="button" onclick="window.print()">Print</button>',
+    ...(options.pdfUrl ? [`      <a href="${escapeHtml(options.pdfUrl)}">Download PDF</a>`] : []),
+    '    </div>',
+    '  </main>',
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
+
+const PDF_PAGE_WIDTH = 595;
+const PDF_PAGE_HEIGHT = 842;
+const PDF_MARGIN = 50;
+const PDF_COURIER_CHAR_WIDTH = 0.6;
+
+type PdfText = {
+  font: 'F1' | 'F2' | 'F3';
+  size: number;
+  x: number;
+  y: number;
+  text: string;
+};
+
+/** Encodes text for a WinAnsi PDF string; characters outside that set are printed as `?`. */
+function encodePdfText(value: string): string {
+  let encoded = '';
+  for (const char of value) {
+    const code = char.codePointAt(0) ?? 63;
+    if (char === '\\' || char === '(' || char === ')') {
+      encoded += `\\${char}`;
+    } else if (code >= 0x20 && code <= 0x7e) {
+      encoded += char;
+    } else if (char === '€') {
+      encoded += '\\200';
+    } else if (code >= 0xa0 && code <= 0xff) {
+      encoded += `\\${code.toString(8)}`;
+    } else {
+      encoded += '?';
+    }
+  }
+
+  return encoded;
+}
+
+function layoutReceiptPdf(receipt: ReceiptDocument): PdfText[][] {
+  const pages: PdfText[][] = [[]];
+  let y = PDF_PAGE_HEIGHT - PDF_MARGIN;
+
+  const place = (entries: Array<Omit<PdfText, 'y'>>, height: number) => {
+    if (y - height < PDF_MARGIN) {
+      pages.push([]);
+      y = PDF_PAGE_HEIGHT - PDF_MARGIN;
+    }
+    y -= height;
+    pages[pages.length - 1]?.push(...entries.map((entry) => ({ ...entry, y })));
+  };
+  const rightAligned = (text: string, size: number): Omit<PdfText, 'y'> => ({
+    font: 'F3',
+    size,
+    x: PDF_PAGE_WIDTH - PDF_MARGIN - text.length * size * PDF_COURIER_CHAR_WIDTH,
+    text,
+  });
+  const placeLines = (lines: ReceiptLine[], font: 'F1' | 'F2') => {
+    for (const line of lines) {
+      place([{ font, size: 10, x: PDF_MARGIN, text: line.label }, rightAligned(line.amount, 10)], 16);
+      if (line.note) {
+        place([{ font: 'F1', size: 8, x: PDF_MARGIN + 10, text: line.note }], 11);
+      }
+    }
+  };
+
+  place([{ font: 'F2', size: 18, x: PDF_MARGIN, text: receipt.storeName }], 18);
+  for (const detail of receipt.storeDetails) {
+    place([{ font: 'F1', size: 9, x: PDF_MARGIN, text: detail }], 12);
+  }
+  y -= 14;
+
+  const meta = [
+    ['Invoice', receipt.invoiceNumber],
+    ['Date', formatIssuedAt(receipt.issuedAt)],
+    ['Order', receipt.orderSessionId],
+    ...(receipt.customerEmail ? [['Customer', receipt.customerEmail]] : []),
+    ...(receipt.paymentReference ? [['Payment reference', receipt.paymentReference]] : []),
+  ];
+  for (const [label, value] of meta) {
+    place(
+      [
+        { font: 'F1', size: 10, x: PDF_MARGIN, text: label ?? '' },
+        { font: 'F1', size: 10, x: PDF_MARGIN + 110, text: value ?? '' },
+      ],
+      14,
+    );
+  }
+  y -= 14;
+
+  placeLines(receipt.lineItems, 'F1');
+  y -= 8;
+  placeLines(receipt.totals, 'F2');
+
+  return pages;
+}
+
+/** Text-only PDF using the built-in Helvetica fonts, with Courier for the right-aligned amounts. */
+export function renderReceiptPdf(receipt: ReceiptDocument): Buffer {
+  const pages = layoutReceiptPdf(receipt);
+  const objects: string[] = [];
+  const fontIds = { F1: 3, F2: 4, F3: 5 };
+  const firstPageId = 6;
+  const pageIds = pages.map((_, index) => firstPageId + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[fontIds.F1] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[fontIds.F2] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  objects[fontIds.F3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>';
+
+  pages.forEach((texts, index) => {
+    const pageId = pageIds[index] ?? firstPageId;
+    const content = texts
+      .map(
+        (text) =>
+          `BT /${text.font} ${text.size} Tf ${text.x.toFixed(2)} ${text.y.toFixed(2)} Td (${encodePdfText(text.text)}) Tj ET`,
+      )
+      .join('\n');
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 ${fontIds.F1} 0 R /F2 ${fontIds.F2} 0 R /F3 ${fontIds.F3} 0 R >> >> ` +
+      `/Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id += 1) {
+    offsets[id] = output.length;
+    output += `${id} 0 obj\n${objects[id] ?? ''}\nendobj\n`;
+  }
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id += 1) {
+    output += `${String(offsets[id] ?? 0).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+}
@@ -11,8 +11,10 @@ import {
   type ReferralClaimRecord,
 } from '../repositories/referral-repository.js';
 import { resolveOrderSessionCustomerEmail } from '../utils/customer-email.js';
+import { formatMinorAsMajor, normalizeCurrencyCode } from '../utils/currency.js';
 import { formatUserReference } from '../utils/platform-ids.js';
 import { GuildFeatureService } from './guild-feature-service.js';
+import { OutboundWebhookService } from './outbound-webhook-service.js';
 import { PointsService } from './points-service.js';
 
 const emailSchema = z.string().trim().min(3).max(320).email();
@@ -58,13 +60,14 @@ export type ReferralRewardResult =
     };
 
 const DEFAULT_THANK_YOU_TEMPLATE =
-  'Thanks for your referral. You earned {points} point(s) ({amount_gbp} GBP) after {referred_email} paid.';
+  'Thanks for your referral. You earned {points} point(s) ({amount} {currency}) after {referred_email} paid.';
 
 export class ReferralService {
   private readonly referralRepository = new ReferralRepository();
   private readonly pointsService = new PointsService();
   private readonly pointsRepository = new PointsRepository();
   private readonly guildFeatureService = new GuildFeatureService();
+  private readonly outboundWebhookService = new OutboundWebhookService();
 
   public async createClaimFromCommand(input: {
     tenantId: string;
@@ -203,6 +206,7 @@ export class ReferralService {
             fallbackRewardMinor: rewardMinor,
             fallbackPointValueMinor: pointValueMinor,
             referralThankYouTemplate: input.referralThankYouTemplate,
+            currency: config.value.defaultCurrency,
           }),
         );
       }
@@ -295,10 +299,28 @@ export class ReferralService {
         pointValueMinorSnapshot: pointValueMinor,
       });
 
+      await this.outboundWebhookService.emitEvent({
+        tenantId: input.orderSession.tenantId,
+        guildId: input.orderSession.guildId,
+        type: 'referral.rewarded',
+        eventKey: activeClaim.id,
+        data: {
+          claimId: activeClaim.id,
+          orderSessionId: input.orderSession.id,
+          referrerDiscordUserId: activeClaim.referrerDiscordUserId,
+          referrerEmail: activeClaim.referrerEmailDisplay,
+          referredEmail,
+          rewardPoints,
+          rewardMinor,
+          currency: config.value.defaultCurrency,
+        },
+      });
+
       const thankYouMessage = this.renderThankYouTemplate({
         template: input.referralThankYouTemplate,
         rewardPoints,
         rewardMinor,
+        currency: config.value.defaultCurrency,
         referredEmail,
         referrerEmail: activeClaim.referrerEmailDisplay,
         referrerDiscordUserId: activeClaim.referrerDiscordUserId,
@@ -321,6 +343,66 @@ export class ReferralService {
     }
   }
 
+  /**
+   * Reverses the first-paid-order reward when that order is fully refunded or charged back. The
+   * claim stays rewarded so the referred customer cannot trigger a second reward later.
+   */
+  public async clawBackReferralRewardForRefund(input: {
+    orderSession: OrderSessionRecord;
+  }): Promise<Result<number, AppError>> {
+    try {
+      const scope = {
+        tenantId: input.orderSession.tenantId,
+        guildId: input.orderSession.guildId,
+        orderSessionId: input.orderSession.id,
+      };
+      const reward = await this.pointsRepository.findLedgerEventByOrderSessionAndType({
+        ...scope,
+        eventType: 'referral_reward_first_paid_order',
+      });
+      if (!reward || reward.deltaPoints <= 0) {
+        return ok(0);
+      }
+
+      const existingClawBack = await this.pointsRepository.findLedgerEventByOrderSessionAndType({
+        ...scope,
+        eventType: 'referral_reward_refunded',
+      });
+      if (existingClawBack) {
+        return ok(0);
+      }
+
+      const account = await this.pointsRepository.getAccount({
+        tenantId: scope.tenantId,
+        guildId: scope.guildId,
+        emailNormalized: reward.emailNormalized,
+      });
+      const removal = await this.pointsRepository.removePointsClampToZero({
+        tenantId: scope.tenantId,
+        guildId: scope.guildId,
+        emailNormalized: reward.emailNormalized,
+        emailDisplay: account?.emailDisplay ?? reward.emailNormalized,
+        points: reward.deltaPoints,
+      });
+
+      await this.pointsRepository.insertLedgerEvent({
+        ...scope,
+        emailNormalized: reward.emailNormalized,
+        deltaPoints: -reward.deltaPoints,
+        eventType: 'referral_reward_refunded',
+        metadata: {
+          claimId: reward.metadata.claimId ?? null,
+          rewardPoints: reward.deltaPoints,
+          removedPoints: removal.removedPoints,
+        },
+      });
+
+      return ok(removal.removedPoints);
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
   private resolveExistingFirstPaidOutcome(input: {
     orderSession: OrderSessionRecord;
     referredEmail: string;
@@ -329,6 +411,7 @@ export class ReferralService {
     fallbackRewardMinor: number;
     fallbackPointValueMinor: number;
     referralThankYouTemplate: string | null;
+    currency: string;
   }): ReferralRewardResult {
     if (!input.gate || input.gate.firstOrderSessionId !== input.orderSession.id) {
       return {
@@ -367,6 +450,7 @@ export class ReferralService {
           template: input.referralThankYouTemplate,
           rewardPoints,
           rewardMinor,
+          currency: input.currency,
           referredEmail: input.referredEmail,
           referrerEmail: input.claim.referrerEmailDisplay,
           referrerDiscordUserId: input.claim.referrerDiscordUserId,
@@ -438,6 +522,7 @@ export class ReferralService {
     template: string | null;
     rewardPoints: number;
     rewardMinor: number;
+    currency: string;
     referredEmail: string;
     referrerEmail: string;
     referrerDiscordUserId: string;
@@ -449,9 +534,15 @@ export class ReferralService {
         : DEFAULT_THANK_YOU_TEMPLATE;
     const templateContainsMention = /\{referrer_mention\}/i.test(template);
 
+    const amount = formatMinorAsMajor(input.rewardMinor, input.currency);
+    const currency = normalizeCurrencyCode(input.currency) ?? input.currency.trim().toUpperCase();
     const values: Record<string, string> = {
       points: String(input.rewardPoints),
-      amount_gbp: (input.rewardMinor / 100).toFixed(2),
+      amount,
+      currency,
+      // Templates saved before `{amount}` existed still use the old placeholder. It only stands for a
+      // bare amount in GBP; rewards in other currencies carry their code so they are never read as GBP.
+      amount_gbp: currency === 'GBP' ? amount : `${amount} ${currency}`,
       referred_email: input.referredEmail,
       referrer_email: input.referrerEmail,
       referrer_mention: formatUserReference(input.referrerDiscordUserId),
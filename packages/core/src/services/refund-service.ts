@@ -0,0 +1,168 @@
+import { err, ok, type Result } from 'neverthrow';
+
+import { AppError, fromUnknownError } from '../domain/errors.js';
+import {
+  OrderRepository,
+  type OrderSessionRecord,
+  type PaidOrderRecord,
+  type PaidOrderRefundReason,
+  type PaidOrderRefundStatus,
+} from '../repositories/order-repository.js';
+import { OutboundWebhookService } from './outbound-webhook-service.js';
+import { PointsService } from './points-service.js';
+import { ReferralService } from './referral-service.js';
+
+export type PaidOrderRefundOutcome = {
+  /** `false` when the provider repeated a refund that was already recorded. */
+  changed: boolean;
+  paidOrder: PaidOrderRecord;
+  orderSession: OrderSessionRecord;
+  refundStatus: Exclude<PaidOrderRefundStatus, 'none'>;
+  refundReason: PaidOrderRefundReason;
+  refundedMinor: number;
+  netMinor: number;
+  pointsClawedBack: number;
+  referralPointsClawedBack: number;
+};
+
+/**
+ * Amount refunded so far, capped at the order total. Chargebacks and refunds without a reported
+ * amount count as a full refund.
+ */
+export function resolveRefundedMinor(input: {
+  priceMinor: number;
+  reason: PaidOrderRefundReason;
+  refundedMinor: number | null;
+}): number {
+  const priceMinor = Math.max(0, input.priceMinor);
+  if (input.reason === 'chargeback' || input.refundedMinor === null) {
+    return priceMinor;
+  }
+
+  return Math.min(priceMinor, Math.max(0, Math.floor(input.refundedMinor)));
+}
+
+export class RefundService {
+  private readonly orderRepository = new OrderRepository();
+  private readonly pointsService = new PointsService();
+  private readonly referralService = new ReferralService();
+  private readonly outboundWebhookService = new OutboundWebhookService();
+
+  /**
+   * Records a refund or chargeback reported by a payment provider against an already paid order.
+   * Returns `null` when the order was never paid. Points are clawed back before the refund is
+   * stored, so a failed attempt is safe to retry.
+   */
+  public async recordProviderRefund(input: {
+    tenantId: string;
+    orderSessionId: string;
+    reason: PaidOrderRefundReason;
+    refundedMinor: number | null;
+  }): Promise<Result<PaidOrderRefundOutcome | null, AppError>> {
+    try {
+      const paidOrder = await this.orderRepository.getPaidOrderByOrderSessionId(input.orderSessionId);
+      if (!paidOrder || paidOrder.tenantId !== input.tenantId) {
+        return ok(null);
+      }
+
+      const orderSession = await this.orderRepository.getOrderSession({
+        tenantId: input.tenantId,
+        orderSessionId: input.orderSessionId,
+      });
+      if (!orderSession) {
+        return err(new AppError('ORDER_SESSION_NOT_FOUND', 'Order session not found', 404));
+      }
+
+      const refundedMinor = resolveRefundedMinor({
+        priceMinor: paidOrder.priceMinor,
+        reason: input.reason,
+        refundedMinor: input.refundedMinor,
+      });
+      const refundStatus = refundedMinor >= paidOrder.priceMinor ? 'refunded' : 'partially_refunded';
+      const unchanged = {
+        changed: false,
+        paidOrder,
+        orderSession,
+        refundStatus,
+        refundReason: input.reason,
+        refundedMinor: paidOrder.refundedMinor,
+        netMinor: Math.max(0, paidOrder.priceMinor - paidOrder.refundedMinor),
+        pointsClawedBack: 0,
+        referralPointsClawedBack: 0,
+      } satisfies PaidOrderRefundOutcome;
+      if (refundedMinor <= 0 || refundedMinor <= paidOrder.refundedMinor) {
+        return ok(unchanged);
+      }
+
+      const pointsClawedBack = await this.pointsService.clawBackEarnedPointsForRefund({
+        orderSession,
+        refundedMinor,
+        totalMinor: paidOrder.priceMinor,
+      });
+      if (pointsClawedBack.isErr()) {
+        return err(pointsClawedBack.error);
+      }
+
+      let referralPointsClawedBack = 0;
+      if (refundStatus === 'refunded') {
+        const referralClawBack = await this.referralService.clawBackReferralRewardForRefund({ orderSession });
+        if (referralClawBack.isErr()) {
+          return err(referralClawBack.error);
+        }
+        referralPointsClawedBack = referralClawBack.value;
+      }
+
+      const refundedAt = new Date();
+      const recorded = await this.orderRepository.recordPaidOrderRefund({
+        paidOrderId: paidOrder.id,
+        refundStatus,
+        refundReason: input.reason,
+        refundedMinor,
+        refundedAt,
+      });
+      if (!recorded) {
+        return ok(unchanged);
+      }
+
+      const netMinor = Math.max(0, paidOrder.priceMinor - refundedMinor);
+      await this.outboundWebhookService.emitEvent({
+        tenantId: paidOrder.tenantId,
+        guildId: paidOrder.guildId,
+        type: 'order.refunded',
+        // The refunded total only grows, so it tells successive partial refunds of one order apart.
+        eventKey: `${paidOrder.id}:${refundedMinor}`,
+        data: {
+          orderSessionId: orderSession.id,
+          paidOrderId: paidOrder.id,
+          refundStatus,
+          reason: input.reason,
+          currency: paidOrder.currency,
+          priceMinor: paidOrder.priceMinor,
+          refundedMinor,
+          netMinor,
+          pointsClawedBack: pointsClawedBack.value,
+        },
+      });
+
+      return ok({
+        changed: true,
+        paidOrder: {
+          ...paidOrder,
+          refundStatus,
+          refundReason: input.reason,
+          refundedMinor,
+          refundedAt,
+        },
+        orderSession,
+        refundStatus,
+        refundReason: input.reason,
+        refundedMinor,
+        netMinor,
+        pointsClawedBack: pointsClawedBack.value,
+        referralPointsClawedBack,
+      });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+}
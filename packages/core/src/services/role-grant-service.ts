@@ -0,0 +1,343 @@
+import { err, ok, type Result } from 'neverthrow';
+
+import { getEnv } from '../config/env.js';
+import { AppError, fromUnknownError } from '../domain/errors.js';
+import { logger } from '../infra/logger.js';
+import { addDiscordGuildMemberRole, removeDiscordGuildMemberRole } from '../integrations/discord-rest.js';
+import type { OrderSessionRecord } from '../repositories/order-repository.js';
+import { RoleGrantRepository, type RoleGrantRecord } from '../repositories/role-grant-repository.js';
+import type { SessionPayload } from '../security/session-token.js';
+import { parsePlatformScopedId } from '../utils/platform-ids.js';
+import { AdminService } from './admin-service.js';
+import { AuthorizationService } from './authorization-service.js';
+import { describeRoleRewardDuration, mergeRoleRewards, resolveRoleGrantExpiry } from './role-rewards.js';
+
+const EXPIRY_SWEEP_BATCH_SIZE = 50;
+const ROLE_GRANT_LIST_LIMIT = 200;
+
+export type RoleGrantOutcome = {
+  summaryLines: string[];
+};
+
+export type RoleGrantExpirySweepSummary = {
+  expiredCount: number;
+  failedCount: number;
+};
+
+function getDiscordStatus(error: unknown): number | null {
+  if (!(error instanceof AppError) || typeof error.details !== 'object' || error.details === null) {
+    return null;
+  }
+
+  const status = (error.details as { discordStatus?: unknown }).discordStatus;
+  return typeof status === 'number' ? status : null;
+}
+
+export class RoleGrantService {
+  private readonly env = getEnv();
+  private readonly roleGrantRepository = new RoleGrantRepository();
+  private readonly adminService = new AdminService();
+  private readonly authorizationService = new AuthorizationService();
+  private sweeperTimer: NodeJS.Timeout | null = null;
+  private sweeperTickInFlight = false;
+
+  /**
+   * Gives the buyer every role configured on the basket snapshot. Failures are recorded per role and
+   * reported in the summary instead of failing the paid order; a retried webhook tries them again.
+   */
+  public async grantRolesForPaidOrder(input: {
+    orderSession: OrderSessionRecord;
+    paidOrderId: string;
+    botTokens: string[];
+  }): Promise<Result<RoleGrantOutcome, AppError>> {
+    try {
+      const { orderSession } = input;
+      const rewards = mergeRoleRewards(...orderSession.basketItems.map((item) => item.roleRewards));
+      if (rewards.length === 0) {
+        return ok({ summaryLines: [] });
+      }
+
+      if (parsePlatformScopedId(orderSession.customerDiscordId).platform === 'telegram') {
+        return ok({ summaryLines: ['- Skipped: Telegram customers cannot be given Discord roles'] });
+      }
+
+      const summaryLines: string[] = [];
+      for (const reward of rewards) {
+        const existing = await this.roleGrantRepository.getByOrderSessionRole({
+          orderSessionId: orderSession.id,
+          roleId: reward.roleId,
+        });
+        if (existing && existing.status !== 'failed') {
+          summaryLines.push(`- <@&${reward.roleId}>: already granted`);
+          continue;
+        }
+
+        const grantedAt = new Date();
+        try {
+          await this.withBotToken(input.botTokens, (botToken) =>
+            addDiscordGuildMemberRole({
+              botToken,
+              guildId: orderSession.guildId,
+              userId: orderSession.customerDiscordId,
+              roleId: reward.roleId,
+              reason: `Paid order ${orderSession.id}`,
+            }),
+          );
+        } catch (error) {
+          const message = fromUnknownError(error).message;
+          await this.roleGrantRepository.recordGrant({
+            tenantId: orderSession.tenantId,
+            guildId: orderSession.guildId,
+            orderSessionId: orderSession.id,
+            paidOrderId: input.paidOrderId,
+            discordUserId: orderSession.customerDiscordId,
+            roleId: reward.roleId,
+            status: 'failed',
+            grantedAt: null,
+            expiresAt: null,
+            lastError: message,
+          });
+          logger.warn(
+            {
+              tenantId: orderSession.tenantId,
+              guildId: orderSession.guildId,
+              orderSessionId: orderSession.id,
+              roleId: reward.roleId,
+              err: error,
+            },
+            'failed to grant purchase role',
+          );
+          summaryLines.push(`- <@&${reward.roleId}>: failed (${message})`);
+          continue;
+        }
+
+        await this.roleGrantRepository.recordGrant({
+          tenantId: orderSession.tenantId,
+          guildId: orderSession.guildId,
+          orderSessionId: orderSession.id,
+          paidOrderId: input.paidOrderId,
+          discordUserId: orderSession.customerDiscordId,
+          roleId: reward.roleId,
+          status: 'active',
+          grantedAt,
+          expiresAt: resolveRoleGrantExpiry(grantedAt, reward.durationDays),
+          lastError: null,
+        });
+        summaryLines.push(`- <@&${reward.roleId}>: granted (${describeRoleRewardDuration(reward.durationDays)})`);
+      }
+
+      return ok({ summaryLines });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  /**
+   * Takes roles away from a member, e.g. when a subscription lapses. A member who already left or a
+   * deleted role counts as removed; anything else is returned as an error so the caller can retry.
+   */
+  public async revokeRoles(input: {
+    tenantId: string;
+    guildId: string;
+    discordUserId: string;
+    roleIds: string[];
+    reason: string;
+  }): Promise<Result<void, AppError>> {
+    try {
+      if (input.roleIds.length === 0) {
+        return ok(undefined);
+      }
+
+      const botTokens = await this.getBotTokenCandidates();
+      for (const roleId of input.roleIds) {
+        try {
+          await this.withBotToken(botTokens, (botToken) =>
+            removeDiscordGuildMemberRole({
+              botToken,
+              guildId: input.guildId,
+              userId: input.discordUserId,
+              roleId,
+              reason: input.reason,
+            }),
+          );
+        } catch (error) {
+          if (getDiscordStatus(error) !== 404) {
+            throw error;
+          }
+        }
+      }
+
+      await this.roleGrantRepository.markMemberRolesExpired({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        discordUserId: input.discordUserId,
+        roleIds: input.roleIds,
+        revokedAt: new Date(),
+      });
+      return ok(undefined);
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  public async listGrants(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string },
+  ): Promise<Result<RoleGrantRecord[], AppError>> {
+    try {
+      const roleCheck = await this.authorizationService.ensureTenantRole(actor, {
+        tenantId: input.tenantId,
+        minimumRole: 'member',
+      });
+      if (roleCheck.isErr()) {
+        return err(roleCheck.error);
+      }
+
+      const guildCheck = await this.authorizationService.ensureGuildBoundToTenant(input);
+      if (guildCheck.isErr()) {
+        return err(guildCheck.error);
+      }
+
+      const grants = await this.roleGrantRepository.listByGuild({ ...input, limit: ROLE_GRANT_LIST_LIMIT });
+      return ok(grants);
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  public startSweeperLoop(input: { pollIntervalMs: number }): void {
+    if (this.sweeperTimer) {
+      return;
+    }
+
+    const pollIntervalMs = Math.max(5_000, Math.floor(input.pollIntervalMs));
+    this.queueSweeperTick();
+    this.sweeperTimer = setInterval(() => {
+      this.queueSweeperTick();
+    }, pollIntervalMs);
+    this.sweeperTimer.unref?.();
+  }
+
+  public stopSweeperLoop(): void {
+    if (!this.sweeperTimer) {
+      return;
+    }
+
+    clearInterval(this.sweeperTimer);
+    this.sweeperTimer = null;
+    this.sweeperTickInFlight = false;
+  }
+
+  private queueSweeperTick(): void {
+    if (this.sweeperTickInFlight) {
+      return;
+    }
+
+    this.sweeperTickInFlight = true;
+    void this.runExpirySweep()
+      .then((result) => {
+        if (result.isErr()) {
+          logger.warn({ err: result.error }, 'failed to sweep expired role grants');
+        }
+      })
+      .finally(() => {
+        this.sweeperTickInFlight = false;
+      });
+  }
+
+  /** Removes roles whose duration has run out. Failed removals stay active and are retried next tick. */
+  public async runExpirySweep(): Promise<Result<RoleGrantExpirySweepSummary, AppError>> {
+    try {
+      const now = new Date();
+      const dueGrants = await this.roleGrantRepository.listDueExpirations({
+        now,
+        limit: EXPIRY_SWEEP_BATCH_SIZE,
+      });
+      if (dueGrants.length === 0) {
+        return ok({ expiredCount: 0, failedCount: 0 });
+      }
+
+      const botTokens = await this.getBotTokenCandidates();
+      let expiredCount = 0;
+      let failedCount = 0;
+      for (const grant of dueGrants) {
+        try {
+          await this.withBotToken(botTokens, (botToken) =>
+            removeDiscordGuildMemberRole({
+              botToken,
+              guildId: grant.guildId,
+              userId: grant.discordUserId,
+              roleId: grant.roleId,
+              reason: `Purchase role expired (order ${grant.orderSessionId})`,
+            }),
+          );
+        } catch (error) {
+          // The member left or the role was deleted, so there is nothing left to remove.
+          if (getDiscordStatus(error) !== 404) {
+            failedCount += 1;
+            await this.roleGrantRepository.recordRevocationError({
+              roleGrantId: grant.id,
+              lastError: fromUnknownError(error).message,
+            });
+            logger.warn(
+              {
+                tenantId: grant.tenantId,
+                guildId: grant.guildId,
+                roleGrantId: grant.id,
+                roleId: grant.roleId,
+                err: error,
+              },
+              'failed to remove expired purchase role',
+            );
+            continue;
+          }
+        }
+
+        await this.roleGrantRepository.markExpired({ roleGrantId: grant.id, revokedAt: now });
+        expiredCount += 1;
+      }
+
+      return ok({ expiredCount, failedCount });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  private async withBotToken(botTokens: string[], action: (botToken: string) => Promise<void>): Promise<void> {
+    if (botTokens.length === 0) {
+      throw new AppError('DISCORD_BOT_TOKEN_MISSING', 'No bot token available', 500);
+    }
+
+    let lastError: unknown = null;
+    for (const botToken of botTokens) {
+      try {
+        await action(botToken);
+        return;
+      } catch (error) {
+        lastError = error;
+        if (getDiscordStatus(error) === 401) {
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  private async getBotTokenCandidates(): Promise<string[]> {
+    const candidates: string[] = [];
+
+    const resolved = await this.adminService.getResolvedBotToken();
+    if (resolved.isOk()) {
+      candidates.push(resolved.value.trim());
+    }
+
+    const envToken = this.env.DISCORD_TOKEN.trim();
+    if (envToken && envToken !== 'MISSING_DISCORD_TOKEN' && !candidates.includes(envToken)) {
+      candidates.push(envToken);
+    }
+
+    return candidates.filter(Boolean);
+  }
+}
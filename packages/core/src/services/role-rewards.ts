@@ -0,0 +1,37 @@
+import type { RoleRewardInput } from '../domain/types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Combines role rewards from products and price options into one entry per role. A permanent reward
+ * beats any timed one; otherwise the longest duration wins.
+ */
+export function mergeRoleRewards(...lists: Array<RoleRewardInput[] | null | undefined>): RoleRewardInput[] {
+  const merged = new Map<string, RoleRewardInput>();
+  for (const list of lists) {
+    for (const reward of list ?? []) {
+      const existing = merged.get(reward.roleId);
+      if (
+        !existing ||
+        (existing.durationDays !== null &&
+          (reward.durationDays === null || reward.durationDays > existing.durationDays))
+      ) {
+        merged.set(reward.roleId, { roleId: reward.roleId, durationDays: reward.durationDays });
+      }
+    }
+  }
+
+  return [...merged.values()];
+}
+
+export function resolveRoleGrantExpiry(grantedAt: Date, durationDays: number | null): Date | null {
+  return durationDays === null ? null : new Date(grantedAt.getTime() + durationDays * DAY_MS);
+}
+
+export function describeRoleRewardDuration(durationDays: number | null): string {
+  if (durationDays === null) {
+    return 'permanent';
+  }
+
+  return durationDays === 1 ? '1 day' : `${durationDays} days`;
+}
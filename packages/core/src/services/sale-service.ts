@@ -4,29 +4,47 @@ import { z } from 'zod';
 
 import { getEnv } from '../config/env.js';
 import { AppError, fromUnknownError, validationError } from '../domain/errors.js';
-import { OrderRepository } from '../repositories/order-repository.js';
-import { CouponRepository } from '../repositories/coupon-repository.js';
+import type { PriceTierInput, RoleRewardInput } from '../domain/types.js';
+import type { CouponRecord } from '../repositories/coupon-repository.js';
+import {
+  OrderRepository,
+  type OrderSessionFormSnapshot,
+  type OrderSessionSource,
+} from '../repositories/order-repository.js';
 import { ProductRepository } from '../repositories/product-repository.js';
 import { TenantRepository } from '../repositories/tenant-repository.js';
 import { TicketMetadataRepository } from '../repositories/ticket-metadata-repository.js';
 import { signCheckoutToken } from '../security/checkout-token.js';
 import type { SessionPayload } from '../security/session-token.js';
-import { signVoodooCallbackToken } from '../security/voodoo-callback-token.js';
 import { resolveOrderSessionCustomerEmail } from '../utils/customer-email.js';
 import { AuthorizationService } from './authorization-service.js';
-import { computeCouponEligibleSubtotalMinor } from './coupon-scope.js';
-import { GuildFeatureService } from './guild-feature-service.js';
-import { IntegrationService, normalizeCheckoutDomain } from './integration-service.js';
+import { AutomaticDiscountService } from './automatic-discount-service.js';
+import { evaluateAutomaticDiscounts, type AutomaticDiscountResult } from './automatic-discounts.js';
+import { describeQuantityViolation, resolveLineQuantity } from './basket-quantity.js';
+import { couponLimitReachedError } from './coupon-rules.js';
+import { CouponService } from './coupon-service.js';
+import { ExchangeRateService } from './exchange-rate-service.js';
+import type { ExchangeRateSnapshot } from './exchange-rates.js';
+import { InventoryService } from './inventory-service.js';
+import { ManualPaymentProvider } from './manual-payment-provider.js';
+import { type PaymentProvider, resolveCheckoutProvider, type SaleCheckoutOption } from './payment-provider.js';
 import {
   calculatePointsOrderTotals,
   normalizeCategoryKey,
   normalizeCategoryKeyList,
 } from './points-calculator.js';
 import { PointsService } from './points-service.js';
+import { mergeRoleRewards } from './role-rewards.js';
+import { StripePaymentProvider } from './stripe-payment-provider.js';
+import { resolveAvailableStock } from './variant-stock.js';
+import { VoodooPayPaymentProvider } from './voodoopay-payment-provider.js';
+import { WooCommercePaymentProvider } from './woocommerce-payment-provider.js';
 
 const answerSchema = z.record(z.string(), z.string().max(2000));
 const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-const FALLBACK_EMAIL_DOMAIN = 'voodoopaybot.online';
+const DEFAULT_CHECKOUT_EXPIRY_MINUTES = 30;
+const SELF_SERVICE_RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+const SELF_SERVICE_CHECKOUTS_PER_WINDOW = 3;
 
 type SaleSessionInput = {
   tenantId: string;
@@ -40,11 +58,19 @@ type SaleSessionInput = {
   items?: Array<{
     productId: string;
     variantId: string;
+    /** Defaults to one unit; must fall within the price option's quantity limits. */
+    quantity?: number;
   }>;
   couponCode?: string | null;
   tipMinor?: number;
   usePoints?: boolean;
   answers: Record<string, string>;
+  /** Defaults to `staff`; `self_service` checkouts are gated on the guild setting and rate limited. */
+  source?: OrderSessionSource;
+  /** Marks the session as a renewal of this subscription. */
+  subscriptionId?: string;
+  /** Overrides the guild's checkout expiry, e.g. to keep a renewal link valid until the grace period ends. */
+  checkoutExpiresAt?: Date;
 };
 
 type ResolvedSaleItem = {
@@ -56,6 +82,11 @@ type ResolvedSaleItem = {
   referralRewardMinor: number;
   priceMinor: number;
   currency: string;
+  quantity: number;
+  priceTiers: PriceTierInput[];
+  formFields: Array<{ fieldKey: string; label: string; sensitive: boolean }>;
+  roleRewards: RoleRewardInput[];
+  billingIntervalDays: number | null;
 };
 
 type ResolvedPointsConfig = {
@@ -66,104 +97,28 @@ type ResolvedPointsConfig = {
   referralRewardCategoryKeys: string[];
 };
 
-export type SaleCheckoutOption = {
-  method: 'pay' | 'crypto';
-  label: string;
-  url: string;
-};
-
-type HostedCheckoutQueryParam = {
-  key: string;
-  value: string;
-  preserveProviderEncoding?: boolean;
-};
-
-function buildHostedCheckoutUrl(input: {
-  checkoutBaseUrl: string;
-  path: string;
-  params: HostedCheckoutQueryParam[];
-}): string {
-  const checkoutUrl = new URL(input.path, input.checkoutBaseUrl);
-  const query = input.params
-    .map((param) => {
-      const trimmedValue = param.value.trim();
-      const encodedValue = param.preserveProviderEncoding ? trimmedValue : encodeURIComponent(trimmedValue);
-      return `${param.key}=${encodedValue}`;
-    })
-    .join('&');
-
-  return query.length > 0 ? `${checkoutUrl.origin}${checkoutUrl.pathname}?${query}` : `${checkoutUrl.origin}${checkoutUrl.pathname}`;
-}
-
-export function buildVoodooPayHostedCheckoutUrl(input: {
-  checkoutBaseUrl: string;
-  address: string;
-  amount: string;
-  currency: string;
-  checkoutDomain: string;
-  vdToken: string;
-  orderSessionId: string;
-  email: string;
-  ipnToken?: string | null;
-}): string {
-  return buildHostedCheckoutUrl({
-    checkoutBaseUrl: input.checkoutBaseUrl,
-    path: '/pay.php',
-    params: [
-      {
-        key: 'address',
-        value: input.address,
-        preserveProviderEncoding: true,
-      },
-      {
-        key: 'amount',
-        value: input.amount,
-      },
-      {
-        key: 'currency',
-        value: input.currency,
-      },
-      {
-        key: 'domain',
-        value: input.checkoutDomain,
-      },
-      {
-        key: 'vd_token',
-        value: input.vdToken,
-      },
-      {
-        key: 'vd_order_session_id',
-        value: input.orderSessionId,
-      },
-      {
-        key: 'email',
-        value: input.email,
-      },
-      ...(input.ipnToken && input.ipnToken.trim().length > 0
-        ? [
-            {
-              key: 'ipn_token',
-              value: input.ipnToken,
-              preserveProviderEncoding: true,
-            },
-          ]
-        : []),
-    ],
-  });
-}
+function buildFormSnapshot(items: ResolvedSaleItem[]): OrderSessionFormSnapshot {
+  const sensitiveFieldKeys = new Set<string>();
+  const fieldLabels: Record<string, string> = {};
+  for (const item of items) {
+    for (const field of item.formFields) {
+      if (field.sensitive) {
+        sensitiveFieldKeys.add(field.fieldKey);
+      }
+      fieldLabels[field.fieldKey] ??= field.label;
+    }
+  }
 
-export function buildVoodooPayHostedCryptoCheckoutUrl(input: {
-  checkoutDomain: string;
-  paymentToken: string;
-  addFees: boolean;
-}): string {
-  return `https://${input.checkoutDomain}/crypto/hosted.php?payment_token=${input.paymentToken.trim()}&add_fees=${input.addFees ? '1' : '0'}`;
+  return { sensitiveFieldKeys: [...sensitiveFieldKeys], fieldLabels };
 }
 
 type SaleSessionResult = {
   orderSessionId: string;
-  checkoutUrl: string;
+  /** `null` when the guild only takes manual payments. */
+  checkoutUrl: string | null;
   checkoutOptions: SaleCheckoutOption[];
+  /** The guild's manual payment instructions, posted next to any checkout links. */
+  paymentInstructions: string | null;
   warnings: string[];
   expiresAt: string;
 };
@@ -172,6 +127,8 @@ export function calculateReferralRewardMinorSnapshot(input: {
   items: Array<{
     category: string;
     variantReferralRewardMinor: number;
+    /** Variant rewards are per unit; defaults to one. */
+    quantity?: number;
   }>;
   referralRewardCategoryKeys: string[];
   fallbackReferralRewardMinor: number;
@@ -192,7 +149,7 @@ export function calculateReferralRewardMinorSnapshot(input: {
   }
 
   const variantSpecificRewardMinor = eligibleItems.reduce(
-    (sum, item) => sum + Math.max(0, Math.floor(item.variantReferralRewardMinor)),
+    (sum, item) => sum + Math.max(0, Math.floor(item.variantReferralRewardMinor)) * resolveLineQuantity(item),
     0,
   );
   if (variantSpecificRewardMinor > 0) {
@@ -204,19 +161,33 @@ export function calculateReferralRewardMinorSnapshot(input: {
 
 export class SaleService {
   private readonly env = getEnv();
-  private readonly couponRepository = new CouponRepository();
+  private readonly couponService = new CouponService();
   private readonly orderRepository = new OrderRepository();
   private readonly productRepository = new ProductRepository();
   private readonly tenantRepository = new TenantRepository();
-  private readonly integrationService = new IntegrationService();
   private readonly ticketMetadataRepository = new TicketMetadataRepository();
   private readonly authorizationService = new AuthorizationService();
   private readonly pointsService = new PointsService();
-  private readonly guildFeatureService = new GuildFeatureService();
-
+  private readonly inventoryService = new InventoryService();
+  private readonly exchangeRateService = new ExchangeRateService();
+  private readonly automaticDiscountService = new AutomaticDiscountService();
+  private readonly manualPaymentProvider = new ManualPaymentProvider();
+  /** Checkout uses the first provider the guild has connected, in this order. */
+  private readonly paymentProviders: PaymentProvider[] = [
+    new VoodooPayPaymentProvider(),
+    new StripePaymentProvider(),
+    new WooCommercePaymentProvider(),
+    this.manualPaymentProvider,
+  ];
+
+  /**
+   * Lists sellable products. When `currency` is given, variant prices are converted into it with the
+   * guild's exchange rates so the sale flow shows what the customer will actually be charged.
+   */
   public async getSaleOptions(input: {
     tenantId: string;
     guildId: string;
+    currency?: string;
   }): Promise<
     Result<
       Array<{
@@ -224,7 +195,16 @@ export class SaleService {
         name: string;
         category: string;
         description: string;
-        variants: Array<{ variantId: string; label: string; priceMinor: number; currency: string }>;
+        variants: Array<{
+          variantId: string;
+          label: string;
+          priceMinor: number;
+          currency: string;
+          /** `null` when the variant does not track stock. */
+          stockAvailable: number | null;
+          minQuantity: number;
+          maxQuantity: number | null;
+        }>;
       }>,
       AppError
     >
@@ -235,22 +215,47 @@ export class SaleService {
         guildId: input.guildId,
       });
 
-      return ok(
-        products
-          .filter((product) => product.active)
-          .map((product) => ({
-            productId: product.id,
-            name: product.name,
-            category: product.category,
-            description: product.description,
-            variants: product.variants.map((variant) => ({
-              variantId: variant.id,
-              label: variant.label,
-              priceMinor: variant.priceMinor,
-              currency: variant.currency,
-            })),
+      const options = products
+        .filter((product) => product.active)
+        .map((product) => ({
+          productId: product.id,
+          name: product.name,
+          category: product.category,
+          description: product.description,
+          variants: product.variants.map((variant) => ({
+            variantId: variant.id,
+            label: variant.label,
+            priceMinor: variant.priceMinor,
+            currency: variant.currency,
+            stockAvailable: resolveAvailableStock(variant),
+            minQuantity: variant.minQuantity,
+            maxQuantity: variant.maxQuantity,
           })),
-      );
+        }));
+
+      const currency = input.currency?.trim().toUpperCase() ?? '';
+      if (!/^[A-Z]{3}$/.test(currency)) {
+        return ok(options);
+      }
+
+      const converted = await this.exchangeRateService.convertPrices({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        targetCurrency: currency,
+        items: options.flatMap((option) =>
+          option.variants.map((variant) => ({ ...variant, productId: option.productId })),
+        ),
+      });
+      if (converted.isErr()) {
+        return err(converted.error);
+      }
+
+      const variantsByProduct = new Map<string, (typeof options)[number]['variants']>();
+      for (const { productId, ...variant } of converted.value.items) {
+        variantsByProduct.set(productId, [...(variantsByProduct.get(productId) ?? []), variant]);
+      }
+
+      return ok(options.map((option) => ({ ...option, variants: variantsByProduct.get(option.productId) ?? [] })));
     } catch (error) {
       return err(fromUnknownError(error));
     }
@@ -264,8 +269,12 @@ export class SaleService {
       variantId: string;
       category: string;
       priceMinor: number;
+      quantity?: number;
+      automaticDiscountMinor?: number;
     }>;
     couponCode?: string | null;
+    currency: string;
+    customerDiscordUserId?: string | null;
     tipMinor?: number;
     answers: Record<string, string>;
   }): Promise<
@@ -296,21 +305,28 @@ export class SaleService {
         return err(pointsConfig.error);
       }
 
-      const couponDiscountMinorResult = await this.resolveCouponDiscountMinor({
+      const customerEmail = this.findCustomerEmail(parsedAnswers.data);
+      const couponCustomerEmail = customerEmail ? this.pointsService.normalizeEmail(customerEmail) : null;
+      const couponResult = await this.resolveCoupon({
         tenantId: input.tenantId,
         guildId: input.guildId,
         couponCode: input.couponCode,
+        currency: input.currency,
+        customerEmailNormalized: couponCustomerEmail?.isOk() ? couponCustomerEmail.value.emailNormalized : null,
+        customerDiscordId: input.customerDiscordUserId ?? null,
         basketItems: input.basketItems.map((item) => ({
+          category: item.category,
           productId: item.productId,
           variantId: item.variantId,
           priceMinor: item.priceMinor,
+          quantity: item.quantity,
+          automaticDiscountMinor: item.automaticDiscountMinor,
         })),
       });
-      if (couponDiscountMinorResult.isErr()) {
-        return err(couponDiscountMinorResult.error);
+      if (couponResult.isErr()) {
+        return err(couponResult.error);
       }
 
-      const customerEmail = this.findCustomerEmail(parsedAnswers.data);
       if (!customerEmail) {
         return ok({
           canRedeem: false,
@@ -357,13 +373,14 @@ export class SaleService {
 
       const calc = calculatePointsOrderTotals({
         lines: input.basketItems,
-        couponDiscountMinor: couponDiscountMinorResult.value,
+        couponDiscountMinor: couponResult.value?.discountMinor ?? 0,
         tipMinor: Math.max(0, input.tipMinor ?? 0),
         pointValueMinor: pointsConfig.value.pointValueMinor,
         earnCategoryKeys: pointsConfig.value.earnCategoryKeys,
         redeemCategoryKeys: pointsConfig.value.redeemCategoryKeys,
         availablePoints: balance.value.availablePoints,
         usePoints: true,
+        currency: input.currency,
       });
 
       return ok({
@@ -380,6 +397,50 @@ export class SaleService {
     }
   }
 
+  /**
+   * Volume pricing and automatic discount lines for a draft basket, so sale flows can show them before
+   * checkout. `lineDiscountsMinor` lines up with `items` and is passed back into coupon and points previews.
+   */
+  public async previewBasketPricing(input: {
+    tenantId: string;
+    guildId: string;
+    currency: string;
+    items: Array<{ productId: string; variantId: string; quantity?: number }>;
+  }): Promise<Result<AutomaticDiscountResult, AppError>> {
+    try {
+      if (input.items.length === 0) {
+        return ok({ discounts: [], lineDiscountsMinor: [], totalDiscountMinor: 0 });
+      }
+
+      const resolvedItems = await this.resolveSaleItems({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        requestedItems: input.items,
+      });
+      if (resolvedItems.isErr()) {
+        return err(resolvedItems.error);
+      }
+
+      const convertedItems = await this.convertSaleItems({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        targetCurrency: input.currency,
+        items: resolvedItems.value,
+      });
+      if (convertedItems.isErr()) {
+        return err(convertedItems.error);
+      }
+
+      return await this.evaluateBasketAutomaticDiscounts({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        items: convertedItems.value.items,
+      });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
   public async isTicketChannel(input: {
     tenantId: string;
     guildId: string;
@@ -433,12 +494,66 @@ export class SaleService {
         return err(tenantActiveCheck.error);
       }
 
+      if (input.source === 'self_service') {
+        const allowance = await this.ensureSelfServiceAllowed({
+          tenantId: input.tenantId,
+          guildId: input.guildId,
+          customerDiscordUserId: input.customerDiscordUserId,
+        });
+        if (allowance.isErr()) {
+          return err(allowance.error);
+        }
+      }
+
       return await this.createSaleSessionInternal(input);
     } catch (error) {
       return err(fromUnknownError(error));
     }
   }
 
+  /**
+   * Checks that the guild lets customers start their own checkout and that this customer has not
+   * started too many in the last hour. Checked when `/buy` opens and again when the checkout is created.
+   */
+  public async ensureSelfServiceAllowed(input: {
+    tenantId: string;
+    guildId: string;
+    customerDiscordUserId: string;
+  }): Promise<Result<void, AppError>> {
+    try {
+      const config = await this.tenantRepository.getGuildConfig({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+      });
+      if (!config?.selfServiceEnabled) {
+        return err(
+          new AppError('SELF_SERVICE_DISABLED', 'This server does not allow customers to start their own orders.', 403),
+        );
+      }
+
+      const recentCount = await this.orderRepository.countCustomerSessionsSince({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        customerDiscordId: input.customerDiscordUserId,
+        source: 'self_service',
+        since: new Date(Date.now() - SELF_SERVICE_RATE_LIMIT_WINDOW_MS),
+      });
+      if (recentCount >= SELF_SERVICE_CHECKOUTS_PER_WINDOW) {
+        return err(
+          new AppError(
+            'SELF_SERVICE_RATE_LIMITED',
+            `You can start up to ${SELF_SERVICE_CHECKOUTS_PER_WINDOW} orders per hour. Please try again later.`,
+            429,
+          ),
+        );
+      }
+
+      return ok(undefined);
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
   private async createSaleSessionInternal(input: SaleSessionInput): Promise<Result<SaleSessionResult, AppError>> {
     const parsedAnswers = answerSchema.safeParse(input.answers);
     if (!parsedAnswers.success) {
@@ -471,30 +586,33 @@ export class SaleService {
     const configuredCurrency = input.defaultCurrency?.trim().toUpperCase() ?? '';
     const effectiveCheckoutCurrency =
       /^[A-Z]{3}$/.test(configuredCurrency) ? configuredCurrency : primaryItem.currency;
-    const effectiveResolvedItems = resolvedItems.map((item) => ({
-      ...item,
-      currency: effectiveCheckoutCurrency,
-    }));
-    const effectivePrimaryItem = effectiveResolvedItems[0];
+    const convertedItems = await this.convertSaleItems({
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+      targetCurrency: effectiveCheckoutCurrency,
+      items: resolvedItems,
+    });
+    if (convertedItems.isErr()) {
+      return err(convertedItems.error);
+    }
+    const effectivePrimaryItem = convertedItems.value.items[0];
     if (!effectivePrimaryItem) {
       return err(new AppError('BASKET_EMPTY', 'Basket must include at least one item', 400));
     }
 
-    const couponDiscountMinorResult = await this.resolveCouponDiscountMinor({
+    // Volume pricing and automatic rules come off first; coupons and points only see what is left.
+    const automaticDiscounts = await this.evaluateBasketAutomaticDiscounts({
       tenantId: input.tenantId,
       guildId: input.guildId,
-      couponCode: input.couponCode,
-      basketItems: effectiveResolvedItems.map((item) => ({
-        productId: item.productId,
-        variantId: item.variantId,
-        priceMinor: item.priceMinor,
-      })),
+      items: convertedItems.value.items,
     });
-    if (couponDiscountMinorResult.isErr()) {
-      return err(couponDiscountMinorResult.error);
+    if (automaticDiscounts.isErr()) {
+      return err(automaticDiscounts.error);
     }
-    const couponDiscountMinor = couponDiscountMinorResult.value;
-    const normalizedCouponCode = input.couponCode?.trim().toUpperCase() ?? null;
+    const effectiveResolvedItems = convertedItems.value.items.map((item, index) => ({
+      ...item,
+      automaticDiscountMinor: automaticDiscounts.value.lineDiscountsMinor[index] ?? 0,
+    }));
 
     const tipMinorRaw = input.tipMinor ?? 0;
     if (!Number.isInteger(tipMinorRaw) || tipMinorRaw < 0) {
@@ -513,6 +631,7 @@ export class SaleService {
       items: effectiveResolvedItems.map((item) => ({
         category: item.category,
         variantReferralRewardMinor: item.referralRewardMinor,
+        quantity: item.quantity,
       })),
       referralRewardCategoryKeys: pointsConfig.referralRewardCategoryKeys,
       fallbackReferralRewardMinor: pointsConfig.referralRewardMinor,
@@ -539,6 +658,29 @@ export class SaleService {
       normalizedCustomerEmail = null;
     }
 
+    const couponResult = await this.resolveCoupon({
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+      couponCode: input.couponCode,
+      currency: effectiveCheckoutCurrency,
+      customerEmailNormalized: persistedCustomerEmailNormalized,
+      customerDiscordId: input.customerDiscordUserId,
+      basketItems: effectiveResolvedItems.map((item) => ({
+        category: item.category,
+        productId: item.productId,
+        variantId: item.variantId,
+        priceMinor: item.priceMinor,
+        quantity: item.quantity,
+        automaticDiscountMinor: item.automaticDiscountMinor,
+      })),
+    });
+    if (couponResult.isErr()) {
+      return err(couponResult.error);
+    }
+    const coupon = couponResult.value?.coupon ?? null;
+    const couponDiscountMinor = couponResult.value?.discountMinor ?? 0;
+    const normalizedCouponCode = input.couponCode?.trim().toUpperCase() ?? null;
+
     let availablePoints = 0;
     if (normalizedCustomerEmail) {
       const release = await this.pointsService.releaseExpiredReservations({
@@ -563,7 +705,12 @@ export class SaleService {
     }
 
     const calc = calculatePointsOrderTotals({
-      lines: effectiveResolvedItems.map((item) => ({ category: item.category, priceMinor: item.priceMinor })),
+      lines: effectiveResolvedItems.map((item) => ({
+        category: item.category,
+        priceMinor: item.priceMinor,
+        quantity: item.quantity,
+        automaticDiscountMinor: item.automaticDiscountMinor,
+      })),
       couponDiscountMinor,
       tipMinor: tipMinorRaw,
       pointValueMinor: pointsConfig.pointValueMinor,
@@ -571,6 +718,7 @@ export class SaleService {
       redeemCategoryKeys: pointsConfig.redeemCategoryKeys,
       availablePoints,
       usePoints: Boolean(input.usePoints) && Boolean(normalizedCustomerEmail),
+      currency: effectiveCheckoutCurrency,
     });
 
     if (input.usePoints && calc.pointsReserved <= 0) {
@@ -583,16 +731,14 @@ export class SaleService {
       );
     }
 
-    const voodooIntegration = await this.integrationService.getResolvedVoodooPayIntegrationByGuild({
-      tenantId: input.tenantId,
-      guildId: input.guildId,
-    });
-    const wooIntegration = await this.integrationService.getResolvedWooIntegrationByGuild({
+    const checkoutProvider = await resolveCheckoutProvider(this.paymentProviders, {
       tenantId: input.tenantId,
       guildId: input.guildId,
     });
-
-    if (voodooIntegration.isErr() && wooIntegration.isErr()) {
+    if (checkoutProvider.isErr()) {
+      return err(checkoutProvider.error);
+    }
+    if (!checkoutProvider.value) {
       return err(
         new AppError(
           'PAYMENT_INTEGRATION_NOT_CONFIGURED',
@@ -602,9 +748,25 @@ export class SaleService {
       );
     }
 
-    const expiresAt = new Date(Date.now() + 30 * 60 * 1000);
+    let expiresAt = input.checkoutExpiresAt;
+    if (!expiresAt) {
+      const checkoutExpiryMinutes = await this.resolveCheckoutExpiryMinutes({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+      });
+      expiresAt = new Date(Date.now() + checkoutExpiryMinutes * 60 * 1000);
+    }
+    const stockReservation = await this.inventoryService.reserveStockForBasket({
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+      items: effectiveResolvedItems,
+    });
+    if (stockReservation.isErr()) {
+      return err(stockReservation.error);
+    }
+
     const orderSessionId = ulid();
-    const orderSession = await this.orderRepository.createOrderSession({
+    const createdOrderSession = await this.orderRepository.createOrderSession({
       id: orderSessionId,
       tenantId: input.tenantId,
       guildId: input.guildId,
@@ -613,6 +775,7 @@ export class SaleService {
       customerDiscordId: input.customerDiscordUserId,
       productId: effectivePrimaryItem.productId,
       variantId: effectivePrimaryItem.variantId,
+      source: input.source ?? 'staff',
       basketItems: effectiveResolvedItems.map((item) => ({
         productId: item.productId,
         productName: item.productName,
@@ -621,7 +784,13 @@ export class SaleService {
         variantLabel: item.variantLabel,
         priceMinor: item.priceMinor,
         currency: item.currency,
+        quantity: item.quantity,
+        automaticDiscountMinor: item.automaticDiscountMinor,
+        roleRewards: item.roleRewards,
+        billingIntervalDays: item.billingIntervalDays,
       })),
+      automaticDiscountMinor: calc.automaticDiscountMinor,
+      automaticDiscounts: automaticDiscounts.value.discounts,
       couponCode: normalizedCouponCode,
       couponDiscountMinor: calc.couponDiscountMinor,
       customerEmailNormalized: normalizedCustomerEmail?.emailNormalized ?? null,
@@ -633,13 +802,43 @@ export class SaleService {
         earnCategoryKeys: pointsConfig.earnCategoryKeys,
         redeemCategoryKeys: pointsConfig.redeemCategoryKeys,
       },
+      stockReservations: stockReservation.value,
+      fxRatesSnapshot: convertedItems.value.rates,
+      formSnapshot: buildFormSnapshot(resolvedItems),
+      subscriptionId: input.subscriptionId ?? null,
       referralRewardMinorSnapshot,
       tipMinor: calc.tipMinor,
       subtotalMinor: calc.subtotalMinor,
       totalMinor: calc.totalMinor,
       answers: parsedAnswers.data,
       checkoutTokenExpiresAt: expiresAt,
+      // The coupon was checked above, but concurrent checkouts could have used it up since.
+      couponLimit:
+        coupon && (coupon.maxRedemptions !== null || coupon.maxRedemptionsPerCustomer !== null)
+          ? {
+              couponId: coupon.id,
+              code: coupon.code,
+              maxRedemptions: coupon.maxRedemptions,
+              maxRedemptionsPerCustomer: coupon.maxRedemptionsPerCustomer,
+              customerEmailNormalized: persistedCustomerEmailNormalized,
+              customerDiscordId: input.customerDiscordUserId,
+            }
+          : null,
+    }).catch(async (error: unknown) => {
+      await this.inventoryService.releaseReservedStock({
+        tenantId: input.tenantId,
+        reservations: stockReservation.value,
+      });
+      throw error;
     });
+    if (!createdOrderSession.ok) {
+      await this.inventoryService.releaseReservedStock({
+        tenantId: input.tenantId,
+        reservations: stockReservation.value,
+      });
+      return err(couponLimitReachedError(createdOrderSession.couponLimit, createdOrderSession.limitReached));
+    }
+    const { orderSession } = createdOrderSession;
 
     if (calc.pointsReserved > 0 && normalizedCustomerEmail) {
       const reserveResult = await this.pointsService.reservePointsForOrder({
@@ -668,174 +867,91 @@ export class SaleService {
       this.env.CHECKOUT_SIGNING_SECRET,
     );
 
-    if (voodooIntegration.isOk()) {
-      const warnings: string[] = [];
-      const voodooCheckout = await this.buildVoodooPayCheckoutUrl({
-        tenantId: input.tenantId,
-        guildId: input.guildId,
-        orderSessionId: orderSession.id,
-        customerDiscordUserId: input.customerDiscordUserId,
-        totalMinor: calc.totalMinor,
-        currency: effectivePrimaryItem.currency,
-        answers: parsedAnswers.data,
-        integration: voodooIntegration.value,
-        token,
-      });
-
-      if (voodooCheckout.isErr()) {
-        await this.tryCancelPendingOrderSession({
-          tenantId: input.tenantId,
-          orderSessionId: orderSession.id,
-        });
-        return err(voodooCheckout.error);
-      }
-
-      let cryptoCheckoutUrl: string | null = null;
-      if (voodooIntegration.value.cryptoGatewayEnabled) {
-        const cryptoCheckout = await this.buildVoodooPayMulticoinCheckoutUrl({
-          tenantId: input.tenantId,
-          guildId: input.guildId,
-          orderSessionId: orderSession.id,
-          totalMinor: calc.totalMinor,
-          currency: effectivePrimaryItem.currency,
-          integration: voodooIntegration.value,
-        });
-
-        if (cryptoCheckout.isErr()) {
-          warnings.push(
-            `Crypto checkout could not be generated and was disabled for this sale: ${cryptoCheckout.error.message}`,
-          );
-        } else {
-          cryptoCheckoutUrl = cryptoCheckout.value;
-        }
-      }
-
-      const checkoutOptions: SaleCheckoutOption[] = [
-        {
-          method: 'pay',
-          label: 'Pay',
-          url: voodooCheckout.value,
-        },
-      ];
-      if (cryptoCheckoutUrl) {
-        checkoutOptions.push({
-          method: 'crypto',
-          label: 'Pay with Crypto',
-          url: cryptoCheckoutUrl,
-        });
-      }
-
-      await this.orderRepository.setCheckoutUrl({
+    const checkout = await checkoutProvider.value.createCheckout({
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+      orderSessionId: orderSession.id,
+      customerDiscordUserId: input.customerDiscordUserId,
+      primaryItem: effectivePrimaryItem,
+      totalMinor: calc.totalMinor,
+      currency: effectivePrimaryItem.currency,
+      customerEmail: customerEmailFromAnswers,
+      checkoutToken: token,
+      expiresAt,
+    });
+    if (checkout.isErr()) {
+      await this.tryCancelPendingOrderSession({
         tenantId: input.tenantId,
         orderSessionId: orderSession.id,
-        checkoutUrl: voodooCheckout.value,
-        checkoutUrlCrypto: cryptoCheckoutUrl,
       });
-
-      return ok({
-        orderSessionId: orderSession.id,
-        checkoutUrl: voodooCheckout.value,
-        checkoutOptions,
-        warnings,
-        expiresAt: expiresAt.toISOString(),
-      });
-    }
-
-    if (wooIntegration.isErr()) {
-      return err(wooIntegration.error);
+      return err(checkout.error);
     }
 
-    const productForCheckout = await this.productRepository.getById({
+    // Manual instructions go out with gateway links too, so customers can still choose to pay by bank transfer.
+    const paymentInstructions = await this.manualPaymentProvider.getInstructions({
       tenantId: input.tenantId,
       guildId: input.guildId,
-      productId: effectivePrimaryItem.productId,
     });
-    const primaryVariantCheckoutPath =
-      productForCheckout?.variants.find((item) => item.id === effectivePrimaryItem.variantId)?.wooCheckoutPath ?? null;
-
-    const checkoutTarget =
-      primaryVariantCheckoutPath && primaryVariantCheckoutPath.length > 0
-        ? new URL(primaryVariantCheckoutPath, wooIntegration.value.wpBaseUrl)
-        : new URL(wooIntegration.value.wpBaseUrl);
-
-    checkoutTarget.searchParams.set('vd_token', token);
-    checkoutTarget.searchParams.set('vd_order_session_id', orderSession.id);
-    const providerCheckoutUrl = checkoutTarget.toString();
+    if (paymentInstructions.isErr()) {
+      await this.tryCancelPendingOrderSession({
+        tenantId: input.tenantId,
+        orderSessionId: orderSession.id,
+      });
+      return err(paymentInstructions.error);
+    }
 
     await this.orderRepository.setCheckoutUrl({
       tenantId: input.tenantId,
       orderSessionId: orderSession.id,
-      checkoutUrl: providerCheckoutUrl,
-      checkoutUrlCrypto: null,
+      checkoutUrl: checkout.value.checkoutUrl,
+      checkoutUrlCrypto: checkout.value.checkoutUrlCrypto,
     });
 
     return ok({
       orderSessionId: orderSession.id,
-      checkoutUrl: providerCheckoutUrl,
-      checkoutOptions: [
-        {
-          method: 'pay',
-          label: 'Pay',
-          url: providerCheckoutUrl,
-        },
-      ],
-      warnings: [],
+      checkoutUrl: checkout.value.checkoutUrl,
+      checkoutOptions: checkout.value.checkoutOptions,
+      paymentInstructions: paymentInstructions.value,
+      warnings: checkout.value.warnings,
       expiresAt: expiresAt.toISOString(),
     });
   }
 
-  private async resolveCouponDiscountMinor(input: {
+  private async resolveCoupon(input: {
     tenantId: string;
     guildId: string;
     couponCode?: string | null;
+    currency: string;
+    customerEmailNormalized?: string | null;
+    customerDiscordId?: string | null;
     basketItems: Array<{
+      category: string;
       productId: string;
       variantId: string;
       priceMinor: number;
+      quantity?: number;
+      automaticDiscountMinor?: number;
     }>;
-  }): Promise<Result<number, AppError>> {
+  }): Promise<Result<{ coupon: CouponRecord; discountMinor: number } | null, AppError>> {
     const normalizedCouponCode = input.couponCode?.trim().toUpperCase() ?? null;
     if (!normalizedCouponCode) {
-      return ok(0);
+      return ok(null);
     }
 
-    const featureCheck = await this.guildFeatureService.ensureFeatureEnabled({
+    const evaluated = await this.couponService.evaluateCouponForBasket({
       tenantId: input.tenantId,
       guildId: input.guildId,
-      feature: 'coupons',
-    });
-    if (featureCheck.isErr()) {
-      return err(featureCheck.error);
-    }
-
-    const coupon = await this.couponRepository.getByCode({
-      tenantId: input.tenantId,
-      guildId: input.guildId,
-      code: normalizedCouponCode,
+      couponCode: normalizedCouponCode,
+      basketItems: input.basketItems,
+      currency: input.currency,
+      customerEmailNormalized: input.customerEmailNormalized,
+      customerDiscordId: input.customerDiscordId,
     });
-    if (!coupon || !coupon.active) {
-      return err(new AppError('COUPON_NOT_FOUND', 'Coupon code is invalid or inactive', 404));
+    if (evaluated.isErr()) {
+      return err(evaluated.error);
     }
 
-    const eligibleSubtotalMinor = computeCouponEligibleSubtotalMinor(
-      {
-        allowedCategories: coupon.allowedCategories,
-        allowedProductIds: coupon.allowedProductIds,
-        allowedVariantIds: coupon.allowedVariantIds,
-      },
-      input.basketItems,
-    );
-    if (eligibleSubtotalMinor <= 0) {
-      return err(
-        new AppError(
-          'COUPON_NOT_APPLICABLE',
-          'Coupon does not apply to the selected products/variations.',
-          409,
-        ),
-      );
-    }
-
-    return ok(Math.min(eligibleSubtotalMinor, coupon.discountMinor));
+    return ok(evaluated.value);
   }
 
   private async resolvePointsConfig(input: {
@@ -860,207 +976,12 @@ export class SaleService {
     });
   }
 
-  private async buildVoodooPayCheckoutUrl(input: {
-    tenantId: string;
-    guildId: string;
-    orderSessionId: string;
-    customerDiscordUserId: string;
-    totalMinor: number;
-    currency: string;
-    answers: Record<string, string>;
-    integration: {
-      tenantWebhookKey: string;
-      merchantWalletAddress: string;
-      callbackSecret: string;
-      checkoutDomain: string;
-    };
-    token: string;
-  }): Promise<Result<string, AppError>> {
-    try {
-      const callbackToken = signVoodooCallbackToken(
-        {
-          tenantId: input.tenantId,
-          guildId: input.guildId,
-          orderSessionId: input.orderSessionId,
-        },
-        input.integration.callbackSecret,
-      );
-
-      const callbackUrl = new URL(
-        `/api/webhooks/voodoopay/${input.integration.tenantWebhookKey}/${input.orderSessionId}/${callbackToken}`,
-        this.env.BOT_PUBLIC_URL,
-      );
-      // Keep query params for backward compatibility with existing callback handling.
-      callbackUrl.searchParams.set('order_session_id', input.orderSessionId);
-      callbackUrl.searchParams.set('cb_token', callbackToken);
-
-      const createWalletUrl = new URL('/control/wallet.php', this.env.VOODOO_PAY_API_BASE_URL);
-      createWalletUrl.searchParams.set('address', input.integration.merchantWalletAddress);
-      createWalletUrl.searchParams.set('callback', callbackUrl.toString());
-
-      const walletResponse = await fetch(createWalletUrl.toString());
-      if (!walletResponse.ok) {
-        return err(
-          new AppError(
-            'VOODOO_PAY_CREATE_WALLET_FAILED',
-            `Voodoo Pay wallet creation failed with status ${walletResponse.status}`,
-            502,
-          ),
-        );
-      }
-
-      const walletPayload = (await walletResponse.json()) as {
-        address_in?: unknown;
-        ipn_token?: unknown;
-      };
-
-      if (typeof walletPayload.address_in !== 'string' || walletPayload.address_in.length === 0) {
-        return err(
-          new AppError('VOODOO_PAY_INVALID_WALLET_RESPONSE', 'Missing address_in in wallet response', 502),
-        );
-      }
-
-      const checkoutDomain = normalizeCheckoutDomain(input.integration.checkoutDomain);
-      if (checkoutDomain.length === 0) {
-        return err(
-          new AppError(
-            'VOODOO_PAY_CHECKOUT_DOMAIN_INVALID',
-            'Configured checkout domain is invalid for standard checkout.',
-            422,
-          ),
-        );
-      }
-      const customerEmail = this.resolveCheckoutEmail({
-        answers: input.answers,
-        customerDiscordUserId: input.customerDiscordUserId,
-        orderSessionId: input.orderSessionId,
-      });
-
-      return ok(
-        buildVoodooPayHostedCheckoutUrl({
-          checkoutBaseUrl: this.env.VOODOO_PAY_CHECKOUT_BASE_URL,
-          address: walletPayload.address_in,
-          amount: (input.totalMinor / 100).toFixed(2),
-          currency: input.currency,
-          checkoutDomain,
-          vdToken: input.token,
-          orderSessionId: input.orderSessionId,
-          email: customerEmail,
-          ipnToken: typeof walletPayload.ipn_token === 'string' ? walletPayload.ipn_token : null,
-        }),
-      );
-    } catch (error) {
-      return err(fromUnknownError(error, 'VOODOO_PAY_CHECKOUT_FAILED'));
-    }
-  }
-
-  private async buildVoodooPayMulticoinCheckoutUrl(input: {
+  private async resolveCheckoutExpiryMinutes(input: {
     tenantId: string;
     guildId: string;
-    orderSessionId: string;
-    totalMinor: number;
-    currency: string;
-    integration: {
-      tenantWebhookKey: string;
-      callbackSecret: string;
-      checkoutDomain: string;
-      cryptoAddFees: boolean;
-      cryptoWallets: {
-        evm: string | null;
-        btc: string | null;
-        bitcoincash: string | null;
-        ltc: string | null;
-        doge: string | null;
-        trc20: string | null;
-        solana: string | null;
-      };
-    };
-  }): Promise<Result<string, AppError>> {
-    try {
-      const callbackToken = signVoodooCallbackToken(
-        {
-          tenantId: input.tenantId,
-          guildId: input.guildId,
-          orderSessionId: input.orderSessionId,
-        },
-        input.integration.callbackSecret,
-      );
-
-      const callbackUrl = new URL(
-        `/api/webhooks/voodoopay/${input.integration.tenantWebhookKey}/${input.orderSessionId}/${callbackToken}`,
-        this.env.BOT_PUBLIC_URL,
-      );
-      callbackUrl.searchParams.set('order_session_id', input.orderSessionId);
-      callbackUrl.searchParams.set('cb_token', callbackToken);
-
-      const walletPayload: Record<string, string | number> = {
-        fiat_amount: Number((input.totalMinor / 100).toFixed(2)),
-        fiat_currency: input.currency,
-        callback: callbackUrl.toString(),
-      };
-
-      for (const [key, value] of Object.entries(input.integration.cryptoWallets)) {
-        if (typeof value !== 'string' || value.trim().length === 0) {
-          continue;
-        }
-        walletPayload[key] = value.trim();
-      }
-
-      const createWalletUrl = new URL('/crypto/multi-hosted-wallet.php', this.env.VOODOO_PAY_API_BASE_URL);
-      const walletResponse = await fetch(createWalletUrl.toString(), {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(walletPayload),
-      });
-      if (!walletResponse.ok) {
-        return err(
-          new AppError(
-            'VOODOO_PAY_MULTICOIN_CREATE_WALLET_FAILED',
-            `Voodoo Pay multicoin wallet creation failed with status ${walletResponse.status}`,
-            502,
-          ),
-        );
-      }
-
-      const responsePayload = (await walletResponse.json()) as {
-        payment_token?: unknown;
-      };
-      if (
-        typeof responsePayload.payment_token !== 'string' ||
-        responsePayload.payment_token.trim().length === 0
-      ) {
-        return err(
-          new AppError(
-            'VOODOO_PAY_MULTICOIN_INVALID_RESPONSE',
-            'Missing payment_token in multicoin wallet response',
-            502,
-          ),
-        );
-      }
-
-      const checkoutDomain = normalizeCheckoutDomain(input.integration.checkoutDomain);
-      if (checkoutDomain.length === 0) {
-        return err(
-          new AppError(
-            'VOODOO_PAY_MULTICOIN_CHECKOUT_DOMAIN_INVALID',
-            'Configured checkout domain is invalid for hosted multi-coin checkout.',
-            422,
-          ),
-        );
-      }
-
-      return ok(
-        buildVoodooPayHostedCryptoCheckoutUrl({
-          checkoutDomain,
-          paymentToken: responsePayload.payment_token,
-          addFees: input.integration.cryptoAddFees,
-        }),
-      );
-    } catch (error) {
-      return err(fromUnknownError(error, 'VOODOO_PAY_MULTICOIN_CHECKOUT_FAILED'));
-    }
+  }): Promise<number> {
+    const config = await this.tenantRepository.getGuildConfig(input);
+    return config?.checkoutExpiryMinutes ?? DEFAULT_CHECKOUT_EXPIRY_MINUTES;
   }
 
   private findCustomerEmail(answers: Record<string, string>): string | null {
@@ -1073,39 +994,6 @@ export class SaleService {
     return null;
   }
 
-  private resolveCheckoutEmail(input: {
-    answers: Record<string, string>;
-    customerDiscordUserId: string;
-    orderSessionId: string;
-  }): string {
-    const emailFromAnswers = this.findCustomerEmail(input.answers);
-    if (emailFromAnswers) {
-      return emailFromAnswers;
-    }
-
-    const localPartBase =
-      input.customerDiscordUserId.trim().length > 0
-        ? `discord-${input.customerDiscordUserId.trim()}`
-        : `order-${input.orderSessionId.toLowerCase()}`;
-    const localPart = localPartBase.replace(/[^a-zA-Z0-9._+-]/g, '').slice(0, 60) || 'customer';
-
-    return `${localPart}@${this.resolveFallbackEmailDomain()}`;
-  }
-
-  private resolveFallbackEmailDomain(): string {
-    try {
-      const url = new URL(this.env.BOT_PUBLIC_URL);
-      const hostname = url.hostname.trim().toLowerCase();
-      if (hostname.includes('.')) {
-        return hostname;
-      }
-    } catch {
-      // ignore URL parsing failures and use static fallback domain.
-    }
-
-    return FALLBACK_EMAIL_DOMAIN;
-  }
-
   private async tryCancelPendingOrderSession(input: {
     tenantId: string;
     orderSessionId: string;
@@ -1128,19 +1016,73 @@ export class SaleService {
         if (released.isErr()) {
           // ignore release errors to preserve original response path.
         }
+
+        await this.inventoryService.releaseStockForOrderSession({
+          orderSession: existing,
+          reason: 'cancelled',
+        });
       }
     } catch {
       // ignore cancellation errors and preserve original failure response.
     }
   }
 
+  /** Converts line and volume prices into the checkout currency with the same rates. */
+  private async convertSaleItems(input: {
+    tenantId: string;
+    guildId: string;
+    targetCurrency: string;
+    items: ResolvedSaleItem[];
+  }): Promise<Result<{ items: ResolvedSaleItem[]; rates: ExchangeRateSnapshot[] }, AppError>> {
+    const converted = await this.exchangeRateService.convertPrices(input);
+    if (converted.isErr()) {
+      return err(converted.error);
+    }
+
+    const tiers = await this.exchangeRateService.convertPrices({
+      ...input,
+      items: input.items.flatMap((item, itemIndex) =>
+        item.priceTiers.map((tier) => ({ ...tier, itemIndex, currency: item.currency })),
+      ),
+    });
+    if (tiers.isErr()) {
+      return err(tiers.error);
+    }
+
+    return ok({
+      items: converted.value.items.map((item, itemIndex) => ({
+        ...item,
+        priceTiers: tiers.value.items
+          .filter((tier) => tier.itemIndex === itemIndex)
+          .map((tier) => ({ minQuantity: tier.minQuantity, priceMinor: tier.priceMinor })),
+      })),
+      rates: converted.value.rates,
+    });
+  }
+
+  private async evaluateBasketAutomaticDiscounts(input: {
+    tenantId: string;
+    guildId: string;
+    items: ResolvedSaleItem[];
+  }): Promise<Result<AutomaticDiscountResult, AppError>> {
+    const rules = await this.automaticDiscountService.listActiveRules({
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+    });
+    if (rules.isErr()) {
+      return err(rules.error);
+    }
+
+    return ok(evaluateAutomaticDiscounts({ lines: input.items, rules: rules.value }));
+  }
+
   private async resolveSaleItems(input: {
     tenantId: string;
     guildId: string;
-    requestedItems: Array<{ productId: string; variantId: string }>;
+    requestedItems: Array<{ productId: string; variantId: string; quantity?: number }>;
   }): Promise<Result<ResolvedSaleItem[], AppError>> {
     const resolvedItems: ResolvedSaleItem[] = [];
-    let basketCurrency: string | null = null;
+    const quantityByVariant = new Map<string, number>();
 
     for (const requested of input.requestedItems) {
       const product = await this.productRepository.getById({
@@ -1157,16 +1099,17 @@ export class SaleService {
         return err(new AppError('VARIANT_NOT_FOUND', 'Variant not found', 404));
       }
 
-      if (basketCurrency && basketCurrency !== variant.currency) {
+      // Limits apply to each line and to the variant's total when a basket repeats it.
+      const quantity = requested.quantity ?? variant.minQuantity;
+      const variantQuantity = (quantityByVariant.get(variant.id) ?? 0) + quantity;
+      quantityByVariant.set(variant.id, variantQuantity);
+      const quantityViolation =
+        describeQuantityViolation(quantity, variant) ?? describeQuantityViolation(variantQuantity, variant);
+      if (quantityViolation) {
         return err(
-          new AppError(
-            'BASKET_CURRENCY_MISMATCH',
-            'All basket items must use the same currency',
-            400,
-          ),
+          new AppError('QUANTITY_OUT_OF_RANGE', `${product.name} / ${variant.label}: ${quantityViolation}`, 400),
         );
       }
-      basketCurrency = variant.currency;
 
       resolvedItems.push({
         productId: product.id,
@@ -1177,6 +1120,11 @@ export class SaleService {
         referralRewardMinor: Math.max(0, variant.referralRewardMinor),
         priceMinor: variant.priceMinor,
         currency: variant.currency,
+        quantity,
+        priceTiers: variant.priceTiers,
+        formFields: product.formFields,
+        roleRewards: mergeRoleRewards(product.roleRewards, variant.roleRewards),
+        billingIntervalDays: variant.billingIntervalDays,
       });
     }
 
@@ -1211,12 +1159,34 @@ export class SaleService {
         return err(released.error);
       }
 
+      const releasedStock = await this.inventoryService.releaseStockForOrderSession({
+        orderSession: existing,
+        reason: 'cancelled',
+      });
+      if (releasedStock.isErr()) {
+        return err(releasedStock.error);
+      }
+
       return ok({ orderSessionId: existing.id });
     } catch (error) {
       return err(fromUnknownError(error));
     }
   }
 
+  public async recordCheckoutMessage(input: {
+    tenantId: string;
+    orderSessionId: string;
+    channelId: string;
+    messageId: string;
+  }): Promise<Result<void, AppError>> {
+    try {
+      await this.orderRepository.setCheckoutMessage(input);
+      return ok(undefined);
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
   public async getGuildRuntimeConfig(input: {
     tenantId: string;
     guildId: string;
@@ -1231,6 +1201,7 @@ export class SaleService {
         pointsRedeemCategoryKeys: string[];
         pointValueMinor: number;
         ticketMetadataKey: string;
+        selfServiceEnabled: boolean;
       },
       AppError
     >
@@ -1250,6 +1221,7 @@ export class SaleService {
         pointsRedeemCategoryKeys: config.pointsRedeemCategoryKeys,
         pointValueMinor: config.pointValueMinor,
         ticketMetadataKey: config.ticketMetadataKey,
+        selfServiceEnabled: config.selfServiceEnabled,
       });
     } catch (error) {
       return err(fromUnknownError(error));
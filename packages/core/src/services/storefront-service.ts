@@ -0,0 +1,199 @@
+import { err, ok, type Result } from 'neverthrow';
+
+import { getEnv } from '../config/env.js';
+import { AppError, fromUnknownError } from '../domain/errors.js';
+import { logger } from '../infra/logger.js';
+import { editDiscordChannelMessage } from '../integrations/discord-rest.js';
+import { ProductRepository } from '../repositories/product-repository.js';
+import {
+  StorefrontPanelRepository,
+  type StorefrontPanelRecord,
+} from '../repositories/storefront-panel-repository.js';
+import { TenantRepository } from '../repositories/tenant-repository.js';
+import { AdminService } from './admin-service.js';
+import { buildStorefrontPanelMessage, type StorefrontPanelMessage } from './storefront.js';
+
+export type StorefrontRefreshSummary = {
+  refreshedCount: number;
+  removedCount: number;
+  failedCount: number;
+};
+
+function getDiscordStatus(error: unknown): number | null {
+  if (!(error instanceof AppError) || typeof error.details !== 'object' || error.details === null) {
+    return null;
+  }
+
+  const status = (error.details as { discordStatus?: unknown }).discordStatus;
+  return typeof status === 'number' ? status : null;
+}
+
+export class StorefrontService {
+  private readonly env = getEnv();
+  private readonly storefrontPanelRepository = new StorefrontPanelRepository();
+  private readonly productRepository = new ProductRepository();
+  private readonly tenantRepository = new TenantRepository();
+  private readonly adminService = new AdminService();
+
+  public async getPanelMessage(input: {
+    tenantId: string;
+    guildId: string;
+  }): Promise<Result<StorefrontPanelMessage, AppError>> {
+    try {
+      return ok(await this.buildPanelMessage(input));
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  /** Stores a panel the bot just posted. Returns the message it replaced in the same channel, if any. */
+  public async registerPanel(input: {
+    tenantId: string;
+    guildId: string;
+    channelId: string;
+    messageId: string;
+    ticketCategoryId: string | null;
+  }): Promise<Result<{ panel: StorefrontPanelRecord; replacedMessageId: string | null }, AppError>> {
+    try {
+      return ok(await this.storefrontPanelRepository.upsert(input));
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  public async getPanel(input: {
+    tenantId: string;
+    panelId: string;
+  }): Promise<Result<StorefrontPanelRecord, AppError>> {
+    try {
+      const panel = await this.storefrontPanelRepository.getById(input);
+      if (!panel) {
+        return err(new AppError('STOREFRONT_PANEL_NOT_FOUND', 'This store panel is no longer active.', 404));
+      }
+
+      return ok(panel);
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  public async getPanelByMessageId(input: {
+    tenantId: string;
+    messageId: string;
+  }): Promise<Result<StorefrontPanelRecord, AppError>> {
+    try {
+      const panel = await this.storefrontPanelRepository.getByMessageId(input);
+      if (!panel) {
+        return err(new AppError('STOREFRONT_PANEL_NOT_FOUND', 'This store panel is no longer active.', 404));
+      }
+
+      return ok(panel);
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  /**
+   * Re-renders every storefront panel in the guild from the current catalog. Panels whose message or
+   * channel was deleted in Discord are forgotten; other failures are logged and left for the next change.
+   */
+  public async refreshGuildPanels(input: {
+    tenantId: string;
+    guildId: string;
+  }): Promise<Result<StorefrontRefreshSummary, AppError>> {
+    try {
+      const panels = await this.storefrontPanelRepository.listByGuild(input);
+      if (panels.length === 0) {
+        return ok({ refreshedCount: 0, removedCount: 0, failedCount: 0 });
+      }
+
+      const message = await this.buildPanelMessage(input);
+      const botTokens = await this.getBotTokenCandidates();
+
+      let refreshedCount = 0;
+      let removedCount = 0;
+      let failedCount = 0;
+      for (const panel of panels) {
+        try {
+          await this.withBotToken(botTokens, (botToken) =>
+            editDiscordChannelMessage({
+              botToken,
+              channelId: panel.channelId,
+              messageId: panel.messageId,
+              ...message,
+            }),
+          );
+          await this.storefrontPanelRepository.touch({ tenantId: panel.tenantId, panelId: panel.id });
+          refreshedCount += 1;
+        } catch (error) {
+          if (getDiscordStatus(error) === 404) {
+            await this.storefrontPanelRepository.delete({ tenantId: panel.tenantId, panelId: panel.id });
+            removedCount += 1;
+            continue;
+          }
+
+          failedCount += 1;
+          logger.warn(
+            { err: error, panelId: panel.id, channelId: panel.channelId },
+            'failed to refresh storefront panel',
+          );
+        }
+      }
+
+      return ok({ refreshedCount, removedCount, failedCount });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  private async buildPanelMessage(input: { tenantId: string; guildId: string }): Promise<StorefrontPanelMessage> {
+    const [products, config] = await Promise.all([
+      this.productRepository.listByGuild(input),
+      this.tenantRepository.getGuildConfig(input),
+    ]);
+
+    return buildStorefrontPanelMessage({
+      storeName: config?.invoiceStoreName ?? '',
+      products,
+      updatedAt: new Date(),
+    });
+  }
+
+  private async withBotToken(botTokens: string[], action: (botToken: string) => Promise<void>): Promise<void> {
+    if (botTokens.length === 0) {
+      throw new AppError('DISCORD_BOT_TOKEN_MISSING', 'No bot token available', 500);
+    }
+
+    let lastError: unknown = null;
+    for (const botToken of botTokens) {
+      try {
+        await action(botToken);
+        return;
+      } catch (error) {
+        lastError = error;
+        if (getDiscordStatus(error) === 401) {
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  private async getBotTokenCandidates(): Promise<string[]> {
+    const candidates: string[] = [];
+
+    const resolved = await this.adminService.getResolvedBotToken();
+    if (resolved.isOk()) {
+      candidates.push(resolved.value.trim());
+    }
+
+    const envToken = this.env.DISCORD_TOKEN.trim();
+    if (envToken && envToken !== 'MISSING_DISCORD_TOKEN' && !candidates.includes(envToken)) {
+      candidates.push(envToken);
+    }
+
+    return candidates.filter(Boolean);
+  }
+}
@@ -0,0 +1,186 @@
+import type { ProductAggregate } from '../repositories/product-repository.js';
+import { formatCurrencyMinor } from '../utils/currency.js';
+import { isVariantSoldOut } from './variant-stock.js';
+
+export const STOREFRONT_PRODUCT_SELECT_CUSTOM_ID = 'store:product';
+
+const EMBED_COLOR = 0x5865f2;
+const MAX_EMBED_FIELDS = 25;
+const MAX_FIELD_VALUE_LENGTH = 1024;
+// Discord rejects embeds over 6000 characters; leave room for the title, description and footer.
+const MAX_FIELDS_TEXT_LENGTH = 5000;
+const MAX_SELECT_OPTIONS = 25;
+
+type StorefrontProduct = Pick<ProductAggregate, 'id' | 'category' | 'name' | 'active' | 'variants'>;
+
+/** Raw Discord API message body, so the bot can post it and core can edit it over REST. */
+export type StorefrontPanelMessage = {
+  content: string;
+  embeds: Array<Record<string, unknown>>;
+  components: Array<Record<string, unknown>>;
+};
+
+function normalizeCategoryLabel(category: string): string {
+  return category.trim() || 'Uncategorized';
+}
+
+function isSoldOutProduct(product: StorefrontProduct): boolean {
+  return product.variants.every((variant) => isVariantSoldOut(variant));
+}
+
+function formatProductLine(product: StorefrontProduct): string {
+  if (isSoldOutProduct(product)) {
+    return `**${product.name}** - sold out`;
+  }
+
+  const variants = product.variants.map((variant) => {
+    const price = `${variant.label} ${formatCurrencyMinor(variant.priceMinor, variant.currency)}`;
+    return isVariantSoldOut(variant) ? `~~${price}~~ (sold out)` : price;
+  });
+  return `**${product.name}** - ${variants.join(' | ')}`;
+}
+
+function joinLinesWithinLimit(lines: string[], limit: number): string {
+  const kept: string[] = [];
+  let length = 0;
+  for (const [index, line] of lines.entries()) {
+    const remaining = lines.length - index;
+    const moreNote = `...and ${remaining} more`;
+    const nextLength = length + line.length + (kept.length > 0 ? 1 : 0);
+    const isLast = remaining === 1;
+    if (nextLength > limit || (!isLast && nextLength + moreNote.length + 1 > limit)) {
+      kept.push(moreNote);
+      break;
+    }
+
+    kept.push(line);
+    length = nextLength;
+  }
+
+  return kept.join('\n');
+}
+
+/** Active products with at least one price option, grouped by category in display order. */
+export function groupStorefrontCatalog(products: StorefrontProduct[]): Array<{
+  category: string;
+  products: StorefrontProduct[];
+}> {
+  const groups = new Map<string, { category: string; products: StorefrontProduct[] }>();
+  for (const product of products) {
+    if (!product.active || product.variants.length === 0) {
+      continue;
+    }
+
+    const category = normalizeCategoryLabel(product.category);
+    const key = category.toLowerCase();
+    const group = groups.get(key) ?? { category, products: [] };
+    group.products.push(product);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()]
+    .sort((a, b) => a.category.localeCompare(b.category))
+    .map((group) => ({
+      category: group.category,
+      products: [...group.products].sort((a, b) => a.name.localeCompare(b.name)),
+    }));
+}
+
+/**
+ * Builds the catalog embed and product picker for a storefront panel. Only the first 25 categories and
+ * products fit in a single message; the rest are summarised so the panel never exceeds Discord's limits.
+ */
+export function buildStorefrontPanelMessage(input: {
+  storeName: string;
+  products: StorefrontProduct[];
+  updatedAt: Date;
+}): StorefrontPanelMessage {
+  const groups = groupStorefrontCatalog(input.products);
+  const title = input.storeName.trim() || 'Store';
+
+  if (groups.length === 0) {
+    return {
+      content: '',
+      embeds: [
+        {
+          title,
+          description: 'No products are available right now. Check back soon.',
+          color: EMBED_COLOR,
+          timestamp: input.updatedAt.toISOString(),
+        },
+      ],
+      components: [],
+    };
+  }
+
+  const fields: Array<{ name: string; value: string; inline: boolean }> = [];
+  let fieldsTextLength = 0;
+  for (const [index, group] of groups.entries()) {
+    const value = joinLinesWithinLimit(group.products.map(formatProductLine), MAX_FIELD_VALUE_LENGTH);
+    const fieldLength = group.category.length + value.length;
+    const isLastSlot = fields.length === MAX_EMBED_FIELDS - 1;
+    const hiddenCategories = groups.length - index;
+    if ((isLastSlot && hiddenCategories > 1) || fieldsTextLength + fieldLength > MAX_FIELDS_TEXT_LENGTH) {
+      const hiddenLabel = hiddenCategories === 1 ? 'category' : 'categories';
+      fields.push({
+        name: 'More products',
+        value: `${hiddenCategories} more ${hiddenLabel} - open a ticket to see everything.`,
+        inline: false,
+      });
+      break;
+    }
+
+    fields.push({ name: group.category.slice(0, 256), value, inline: false });
+    fieldsTextLength += fieldLength;
+  }
+
+  const selectOptions = groups
+    .flatMap((group) => group.products.map((product) => ({ group, product })))
+    .slice(0, MAX_SELECT_OPTIONS)
+    .map(({ group, product }) => {
+      const soldOut = isSoldOutProduct(product);
+      const prices = product.variants.filter((variant) => !isVariantSoldOut(variant));
+      const cheapest = prices.reduce<(typeof prices)[number] | null>(
+        (lowest, variant) => (lowest === null || variant.priceMinor < lowest.priceMinor ? variant : lowest),
+        null,
+      );
+      const description = soldOut
+        ? `${group.category} - sold out`
+        : `${group.category} - from ${cheapest ? formatCurrencyMinor(cheapest.priceMinor, cheapest.currency) : ''}`;
+
+      return {
+        label: (soldOut ? `${product.name} (Sold out)` : product.name).slice(0, 100),
+        description: description.slice(0, 100),
+        value: product.id,
+      };
+    });
+
+  return {
+    content: '',
+    embeds: [
+      {
+        title,
+        description: 'Choose a product below to buy it or open a ticket with staff.',
+        color: EMBED_COLOR,
+        fields,
+        footer: { text: 'Prices and stock update automatically.' },
+        timestamp: input.updatedAt.toISOString(),
+      },
+    ],
+    components: [
+      {
+        type: 1,
+        components: [
+          {
+            type: 3,
+            custom_id: STOREFRONT_PRODUCT_SELECT_CUSTOM_ID,
+            placeholder: 'Choose a product',
+            min_values: 1,
+            max_values: 1,
+            options: selectOptions,
+          },
+        ],
+      },
+    ],
+  };
+}
@@ -0,0 +1,238 @@
+import { err, ok, type Result } from 'neverthrow';
+
+import { getEnv } from '../config/env.js';
+import { AppError, fromUnknownError } from '../domain/errors.js';
+import { createStripeCheckoutSession, createStripeRefund } from '../integrations/stripe-rest.js';
+import { verifyStripeWebhookSignature } from '../security/stripe-webhook-signature.js';
+import { IntegrationService } from './integration-service.js';
+import type {
+  PaymentCheckout,
+  PaymentCheckoutInput,
+  PaymentProvider,
+  PaymentRefund,
+  PaymentRefundInput,
+  PaymentState,
+  PaymentWebhookRequest,
+  VerifiedPaymentWebhook,
+} from './payment-provider.js';
+import { ReceiptService } from './receipt-service.js';
+
+// Stripe only accepts Checkout Session expiries between 30 minutes and 24 hours from creation.
+const STRIPE_MIN_EXPIRY_MS = 31 * 60 * 1000;
+const STRIPE_MAX_EXPIRY_MS = 23 * 60 * 60 * 1000 + 59 * 60 * 1000;
+
+const PAID_CHECKOUT_EVENTS = new Set(['checkout.session.completed', 'checkout.session.async_payment_succeeded']);
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+function asMinor(value: unknown): number | null {
+  return typeof value === 'number' && Number.isInteger(value) ? value : null;
+}
+
+export function clampStripeCheckoutExpiry(expiresAt: Date, now = new Date()): Date {
+  const earliest = now.getTime() + STRIPE_MIN_EXPIRY_MS;
+  const latest = now.getTime() + STRIPE_MAX_EXPIRY_MS;
+  return new Date(Math.min(Math.max(expiresAt.getTime(), earliest), latest));
+}
+
+/**
+ * Maps a Stripe event onto the shared payment state. Checkout Session events settle the order;
+ * `charge.refunded` reports refunds through the order session id copied onto the payment intent.
+ */
+export function resolveStripePaymentState(event: Record<string, unknown>): PaymentState {
+  const type = asString(event.type);
+  const object = asRecord(asRecord(event.data).object);
+  const metadata = asRecord(object.metadata);
+  const currency = asString(object.currency)?.toUpperCase() ?? null;
+  const orderSessionId = asString(object.client_reference_id) ?? asString(metadata.vd_order_session_id);
+  const base: PaymentState = {
+    paid: false,
+    status: type,
+    orderSessionId,
+    providerOrderId: asString(object.id),
+    paymentReference: asString(object.payment_intent),
+    amountMinor: null,
+    currency,
+    refundReason: null,
+    refundedMinor: 0,
+  };
+
+  if (type && PAID_CHECKOUT_EVENTS.has(type)) {
+    const paymentStatus = asString(object.payment_status);
+    const paid = paymentStatus === 'paid' || paymentStatus === 'no_payment_required';
+    return {
+      ...base,
+      paid,
+      status: paid ? 'paid' : paymentStatus,
+      amountMinor: asMinor(object.amount_total),
+    };
+  }
+
+  if (type === 'checkout.session.async_payment_failed') {
+    return { ...base, status: 'failed' };
+  }
+
+  if (type === 'checkout.session.expired') {
+    return { ...base, status: 'expired' };
+  }
+
+  if (type === 'charge.refunded') {
+    const refundedMinor = asMinor(object.amount_refunded) ?? 0;
+    // A charge event never settles an order: a full refund closes it, a partial one carries the refunded total.
+    if (object.refunded === true) {
+      return {
+        ...base,
+        status: 'refunded',
+        providerOrderId: asString(object.payment_intent),
+        amountMinor: asMinor(object.amount),
+        refundReason: 'refund',
+      };
+    }
+
+    return {
+      ...base,
+      status: 'partially_refunded',
+      providerOrderId: asString(object.payment_intent),
+      amountMinor: asMinor(object.amount),
+      refundReason: 'refund',
+      refundedMinor,
+    };
+  }
+
+  return base;
+}
+
+/** Stripe Checkout in payment mode. Webhooks are verified with the endpoint's signing secret. */
+export class StripePaymentProvider implements PaymentProvider {
+  public readonly id = 'stripe' as const;
+  public readonly label = 'Stripe';
+
+  private readonly env = getEnv();
+  private readonly integrationService = new IntegrationService();
+  private readonly receiptService = new ReceiptService();
+
+  public async isConfigured(input: { tenantId: string; guildId: string }): Promise<Result<boolean, AppError>> {
+    const integration = await this.integrationService.getResolvedStripeIntegrationByGuild(input);
+    return ok(integration.isOk());
+  }
+
+  public async createCheckout(input: PaymentCheckoutInput): Promise<Result<PaymentCheckout, AppError>> {
+    try {
+      const integration = await this.integrationService.getResolvedStripeIntegrationByGuild({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+      });
+      if (integration.isErr()) {
+        return err(integration.error);
+      }
+
+      const session = await createStripeCheckoutSession({
+        apiBaseUrl: this.env.STRIPE_API_BASE_URL,
+        secretKey: integration.value.secretKey,
+        orderSessionId: input.orderSessionId,
+        amountMinor: input.totalMinor,
+        currency: input.currency,
+        productName: `${input.primaryItem.productName} - ${input.primaryItem.variantLabel}`,
+        customerEmail: input.customerEmail,
+        successUrl: this.receiptService.buildReceiptUrl({
+          tenantId: input.tenantId,
+          orderSessionId: input.orderSessionId,
+        }),
+        cancelUrl: new URL(`/checkout/${input.orderSessionId}`, this.env.BOT_PUBLIC_URL).toString(),
+        expiresAt: clampStripeCheckoutExpiry(input.expiresAt),
+        metadata: {
+          vd_order_session_id: input.orderSessionId,
+          tenant_id: input.tenantId,
+          guild_id: input.guildId,
+        },
+      });
+
+      return ok({
+        checkoutUrl: session.url,
+        checkoutUrlCrypto: null,
+        checkoutOptions: [
+          {
+            method: 'pay',
+            label: 'Pay',
+            url: session.url,
+          },
+        ],
+        warnings: [],
+      });
+    } catch (error) {
+      return err(fromUnknownError(error, 'STRIPE_CHECKOUT_FAILED'));
+    }
+  }
+
+  public async verifyWebhook(input: PaymentWebhookRequest): Promise<Result<VerifiedPaymentWebhook, AppError>> {
+    try {
+      const integration = await this.integrationService.getResolvedStripeIntegrationByWebhookKey(
+        input.tenantWebhookKey,
+      );
+      if (integration.isErr()) {
+        return err(integration.error);
+      }
+
+      const payload = asRecord(JSON.parse(input.rawBody));
+
+      return ok({
+        tenantId: integration.value.tenantId,
+        guildId: integration.value.guildId,
+        signatureValid: verifyStripeWebhookSignature({
+          rawBody: input.rawBody,
+          secret: integration.value.webhookSecret,
+          signatureHeader: input.headers['stripe-signature'] ?? null,
+        }),
+        deliveryId: asString(payload.id) ?? `missing-${Date.now()}`,
+        topic: asString(payload.type) ?? 'unknown',
+        payload,
+        orderSessionId: resolveStripePaymentState(payload).orderSessionId,
+      });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  public async resolvePaymentState(input: {
+    tenantId: string;
+    guildId: string;
+    payload: Record<string, unknown>;
+  }): Promise<Result<PaymentState, AppError>> {
+    return ok(resolveStripePaymentState(input.payload));
+  }
+
+  public async refund(input: PaymentRefundInput): Promise<Result<PaymentRefund, AppError>> {
+    try {
+      if (!input.paymentReference) {
+        return err(
+          new AppError('STRIPE_PAYMENT_INTENT_MISSING', 'This order has no Stripe payment to refund', 422),
+        );
+      }
+
+      const integration = await this.integrationService.getResolvedStripeIntegrationByGuild({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+      });
+      if (integration.isErr()) {
+        return err(integration.error);
+      }
+
+      const refund = await createStripeRefund({
+        apiBaseUrl: this.env.STRIPE_API_BASE_URL,
+        secretKey: integration.value.secretKey,
+        paymentIntentId: input.paymentReference,
+        amountMinor: input.amountMinor,
+      });
+
+      return ok({ refundId: refund.id, status: refund.status });
+    } catch (error) {
+      return err(fromUnknownError(error, 'STRIPE_REFUND_FAILED'));
+    }
+  }
+}
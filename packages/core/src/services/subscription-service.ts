@@ -0,0 +1,395 @@
+import { err, ok, type Result } from 'neverthrow';
+
+import { getEnv } from '../config/env.js';
+import { AppError, fromUnknownError } from '../domain/errors.js';
+import { logger } from '../infra/logger.js';
+import { sendDirectMessageToDiscordUser } from '../integrations/discord-rest.js';
+import { removeTelegramChatMember, sendDirectMessageToTelegramUser } from '../integrations/telegram-rest.js';
+import { OrderRepository, type OrderSessionRecord } from '../repositories/order-repository.js';
+import { SubscriptionRepository, type SubscriptionRecord } from '../repositories/subscription-repository.js';
+import { TelegramLinkRepository } from '../repositories/telegram-link-repository.js';
+import { TenantRepository } from '../repositories/tenant-repository.js';
+import { parsePlatformScopedId } from '../utils/platform-ids.js';
+import { AdminService } from './admin-service.js';
+import { RoleGrantService } from './role-grant-service.js';
+import { SaleService } from './sale-service.js';
+import { formatSubscriptionDate, resolveRenewalPeriodStart, resolveSubscriptionPeriod } from './subscriptions.js';
+
+const RENEWAL_SWEEP_BATCH_SIZE = 50;
+const DEFAULT_REMINDER_DAYS = 3;
+const DEFAULT_GRACE_DAYS = 3;
+
+export type SubscriptionPaidOrderOutcome = {
+  summaryLines: string[];
+};
+
+export type SubscriptionRenewalSweepSummary = {
+  remindedCount: number;
+  lapsedCount: number;
+  failedCount: number;
+};
+
+function describeBillingInterval(days: number): string {
+  return days === 1 ? 'every day' : `every ${days} days`;
+}
+
+export class SubscriptionService {
+  private readonly env = getEnv();
+  private readonly subscriptionRepository = new SubscriptionRepository();
+  private readonly orderRepository = new OrderRepository();
+  private readonly tenantRepository = new TenantRepository();
+  private readonly telegramLinkRepository = new TelegramLinkRepository();
+  private readonly adminService = new AdminService();
+  private readonly roleGrantService = new RoleGrantService();
+  private readonly saleService = new SaleService();
+  private sweeperTimer: NodeJS.Timeout | null = null;
+  private sweeperTickInFlight = false;
+
+  /**
+   * Starts a subscription for every renewing price option in a paid basket, or extends the running
+   * one when the order is a renewal or a repeat purchase. Safe to call again for a retried webhook.
+   */
+  public async recordPaidOrder(input: {
+    orderSession: OrderSessionRecord;
+  }): Promise<Result<SubscriptionPaidOrderOutcome, AppError>> {
+    try {
+      const { orderSession } = input;
+      const renewingItems = orderSession.basketItems.filter(
+        (item) => typeof item.billingIntervalDays === 'number' && item.billingIntervalDays > 0,
+      );
+      if (renewingItems.length === 0) {
+        return ok({ summaryLines: [] });
+      }
+
+      const timing = await this.getGuildTiming(orderSession);
+      const now = new Date();
+      const summaryLines: string[] = [];
+      for (const item of renewingItems) {
+        const billingIntervalDays = item.billingIntervalDays ?? 0;
+        const roleIds = (item.roleRewards ?? []).map((reward) => reward.roleId);
+        const label = `${item.productName} / ${item.variantLabel}`;
+
+        let subscription = orderSession.subscriptionId
+          ? await this.subscriptionRepository.getById(orderSession.subscriptionId)
+          : null;
+        if (subscription && subscription.variantId !== item.variantId) {
+          subscription = null;
+        }
+        subscription ??= await this.subscriptionRepository.getCurrentByCustomerVariant({
+          tenantId: orderSession.tenantId,
+          guildId: orderSession.guildId,
+          customerDiscordId: orderSession.customerDiscordId,
+          variantId: item.variantId,
+        });
+
+        if (subscription) {
+          if (subscription.lastPaidOrderSessionId === orderSession.id) {
+            summaryLines.push(`- ${label}: paid until ${formatSubscriptionDate(subscription.currentPeriodEnd)}`);
+            continue;
+          }
+
+          const period = resolveSubscriptionPeriod({
+            periodStart: resolveRenewalPeriodStart({
+              status: subscription.status,
+              currentPeriodEnd: subscription.currentPeriodEnd,
+              now,
+            }),
+            billingIntervalDays,
+            ...timing,
+          });
+          await this.subscriptionRepository.recordRenewal({
+            subscriptionId: subscription.id,
+            paidOrderSessionId: orderSession.id,
+            roleIds,
+            ...period,
+          });
+          summaryLines.push(`- ${label}: renewed until ${formatSubscriptionDate(period.currentPeriodEnd)}`);
+          continue;
+        }
+
+        const period = resolveSubscriptionPeriod({ periodStart: now, billingIntervalDays, ...timing });
+        await this.subscriptionRepository.create({
+          tenantId: orderSession.tenantId,
+          guildId: orderSession.guildId,
+          customerDiscordId: orderSession.customerDiscordId,
+          productId: item.productId,
+          variantId: item.variantId,
+          productName: item.productName,
+          variantLabel: item.variantLabel,
+          billingIntervalDays,
+          roleIds,
+          sourceOrderSessionId: orderSession.id,
+          ...period,
+        });
+        summaryLines.push(
+          `- ${label}: renews ${describeBillingInterval(billingIntervalDays)}, next payment due ${formatSubscriptionDate(period.currentPeriodEnd)}`,
+        );
+      }
+
+      return ok({ summaryLines });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  public startSweeperLoop(input: { pollIntervalMs: number }): void {
+    if (this.sweeperTimer) {
+      return;
+    }
+
+    const pollIntervalMs = Math.max(5_000, Math.floor(input.pollIntervalMs));
+    this.queueSweeperTick();
+    this.sweeperTimer = setInterval(() => {
+      this.queueSweeperTick();
+    }, pollIntervalMs);
+    this.sweeperTimer.unref?.();
+  }
+
+  public stopSweeperLoop(): void {
+    if (!this.sweeperTimer) {
+      return;
+    }
+
+    clearInterval(this.sweeperTimer);
+    this.sweeperTimer = null;
+    this.sweeperTickInFlight = false;
+  }
+
+  private queueSweeperTick(): void {
+    if (this.sweeperTickInFlight) {
+      return;
+    }
+
+    this.sweeperTickInFlight = true;
+    void this.runRenewalSweep()
+      .then((result) => {
+        if (result.isErr()) {
+          logger.warn({ err: result.error }, 'failed to sweep subscription renewals');
+        }
+      })
+      .finally(() => {
+        this.sweeperTickInFlight = false;
+      });
+  }
+
+  /**
+   * Removes access from subscriptions whose grace period ran out, sends renewal reminders with a fresh
+   * checkout link, and moves unpaid subscriptions into their grace period. Failures are retried next tick.
+   */
+  public async runRenewalSweep(): Promise<Result<SubscriptionRenewalSweepSummary, AppError>> {
+    try {
+      const now = new Date();
+      let remindedCount = 0;
+      let lapsedCount = 0;
+      let failedCount = 0;
+
+      const dueLapses = await this.subscriptionRepository.listDueLapses({ now, limit: RENEWAL_SWEEP_BATCH_SIZE });
+      for (const subscription of dueLapses) {
+        try {
+          await this.downgrade(subscription);
+          await this.subscriptionRepository.markLapsed({ subscriptionId: subscription.id, lapsedAt: now });
+          lapsedCount += 1;
+        } catch (error) {
+          failedCount += 1;
+          await this.recordFailure(subscription, error, 'failed to remove access for lapsed subscription');
+        }
+      }
+
+      const dueReminders = await this.subscriptionRepository.listDueReminders({
+        now,
+        limit: RENEWAL_SWEEP_BATCH_SIZE,
+      });
+      for (const subscription of dueReminders) {
+        try {
+          await this.sendRenewalReminder(subscription, now);
+          remindedCount += 1;
+        } catch (error) {
+          failedCount += 1;
+          await this.recordFailure(subscription, error, 'failed to send subscription renewal reminder');
+        }
+      }
+
+      const endedPeriods = await this.subscriptionRepository.listEndedPeriods({
+        now,
+        limit: RENEWAL_SWEEP_BATCH_SIZE,
+      });
+      for (const subscription of endedPeriods) {
+        await this.subscriptionRepository.markGrace(subscription.id);
+      }
+
+      return ok({ remindedCount, lapsedCount, failedCount });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  private async sendRenewalReminder(subscription: SubscriptionRecord, now: Date): Promise<void> {
+    const lastPaidOrder = await this.orderRepository.getOrderSessionById(subscription.lastPaidOrderSessionId);
+    if (!lastPaidOrder) {
+      throw new AppError('ORDER_SESSION_NOT_FOUND', 'The last paid order for this subscription was not found', 404);
+    }
+
+    const config = await this.tenantRepository.getGuildConfig({
+      tenantId: subscription.tenantId,
+      guildId: subscription.guildId,
+    });
+    const checkout = await this.saleService.createSaleSessionFromBot({
+      tenantId: subscription.tenantId,
+      guildId: subscription.guildId,
+      ticketChannelId: lastPaidOrder.ticketChannelId,
+      staffDiscordUserId: lastPaidOrder.staffUserId,
+      customerDiscordUserId: subscription.customerDiscordId,
+      defaultCurrency: config?.defaultCurrency,
+      productId: subscription.productId,
+      variantId: subscription.variantId,
+      answers: lastPaidOrder.answers,
+      subscriptionId: subscription.id,
+      checkoutExpiresAt: subscription.graceEndsAt,
+    });
+    if (checkout.isErr()) {
+      throw checkout.error;
+    }
+
+    const content = [
+      `Your **${subscription.productName} / ${subscription.variantLabel}** subscription ends on ${formatSubscriptionDate(subscription.currentPeriodEnd)}.`,
+      `Renew before ${formatSubscriptionDate(subscription.graceEndsAt)} to keep your access:`,
+      ...checkout.value.checkoutOptions.map((option) => `${option.label}: ${option.url}`),
+      ...(checkout.value.paymentInstructions
+        ? [
+            '',
+            checkout.value.checkoutOptions.length > 0 ? 'Or pay manually:' : 'Payment instructions:',
+            checkout.value.paymentInstructions,
+            `Quote order session \`${checkout.value.orderSessionId}\` when you contact staff.`,
+          ]
+        : []),
+    ].join('\n');
+
+    let lastError: string | null = null;
+    try {
+      await this.sendCustomerMessage(subscription.customerDiscordId, content);
+    } catch (error) {
+      // The renewal checkout still exists, so staff can share the link from the dashboard or ticket.
+      lastError = `Reminder could not be delivered: ${fromUnknownError(error).message}`;
+      logger.warn(
+        { tenantId: subscription.tenantId, subscriptionId: subscription.id, err: error },
+        'failed to deliver subscription renewal reminder',
+      );
+    }
+
+    await this.subscriptionRepository.markReminderSent({
+      subscriptionId: subscription.id,
+      renewalOrderSessionId: checkout.value.orderSessionId,
+      sentAt: now,
+      lastError,
+    });
+  }
+
+  /** Discord buyers lose the subscription's roles; Telegram buyers are removed from the linked chat. */
+  private async downgrade(subscription: SubscriptionRecord): Promise<void> {
+    const customer = parsePlatformScopedId(subscription.customerDiscordId);
+    if (customer.platform === 'telegram') {
+      const link = await this.telegramLinkRepository.getByGuild({
+        tenantId: subscription.tenantId,
+        guildId: subscription.guildId,
+      });
+      if (!link) {
+        return;
+      }
+
+      const telegramBotToken = this.getTelegramBotToken();
+      if (!telegramBotToken) {
+        throw new AppError('TELEGRAM_BOT_TOKEN_MISSING', 'No Telegram bot token available', 500);
+      }
+
+      await removeTelegramChatMember({ botToken: telegramBotToken, chatId: link.chatId, userId: customer.rawId });
+      return;
+    }
+
+    const revoked = await this.roleGrantService.revokeRoles({
+      tenantId: subscription.tenantId,
+      guildId: subscription.guildId,
+      discordUserId: subscription.customerDiscordId,
+      roleIds: subscription.roleIds,
+      reason: `Subscription ${subscription.id} was not renewed`,
+    });
+    if (revoked.isErr()) {
+      throw revoked.error;
+    }
+  }
+
+  private async sendCustomerMessage(customerId: string, content: string): Promise<void> {
+    const customer = parsePlatformScopedId(customerId);
+    if (customer.platform === 'telegram') {
+      const telegramBotToken = this.getTelegramBotToken();
+      if (!telegramBotToken) {
+        throw new AppError('TELEGRAM_BOT_TOKEN_MISSING', 'No Telegram bot token available', 500);
+      }
+
+      await sendDirectMessageToTelegramUser({
+        botToken: telegramBotToken,
+        userId: customer.rawId,
+        content: content.replace(/\*\*/g, ''),
+      });
+      return;
+    }
+
+    const botToken = (await this.getBotTokenCandidates())[0];
+    if (!botToken) {
+      throw new AppError('DISCORD_BOT_TOKEN_MISSING', 'No bot token available', 500);
+    }
+
+    await sendDirectMessageToDiscordUser({ botToken, userId: customer.rawId, content });
+  }
+
+  private async recordFailure(subscription: SubscriptionRecord, error: unknown, message: string): Promise<void> {
+    await this.subscriptionRepository.recordError({
+      subscriptionId: subscription.id,
+      lastError: fromUnknownError(error).message,
+    });
+    logger.warn(
+      {
+        tenantId: subscription.tenantId,
+        guildId: subscription.guildId,
+        subscriptionId: subscription.id,
+        err: error,
+      },
+      message,
+    );
+  }
+
+  private async getGuildTiming(input: {
+    tenantId: string;
+    guildId: string;
+  }): Promise<{ reminderDays: number; graceDays: number }> {
+    const config = await this.tenantRepository.getGuildConfig({
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+    });
+
+    return {
+      reminderDays: config?.subscriptionReminderDays ?? DEFAULT_REMINDER_DAYS,
+      graceDays: config?.subscriptionGraceDays ?? DEFAULT_GRACE_DAYS,
+    };
+  }
+
+  private async getBotTokenCandidates(): Promise<string[]> {
+    const candidates: string[] = [];
+
+    const resolved = await this.adminService.getResolvedBotToken();
+    if (resolved.isOk()) {
+      candidates.push(resolved.value.trim());
+    }
+
+    const envToken = this.env.DISCORD_TOKEN.trim();
+    if (envToken && envToken !== 'MISSING_DISCORD_TOKEN' && !candidates.includes(envToken)) {
+      candidates.push(envToken);
+    }
+
+    return candidates.filter(Boolean);
+  }
+
+  private getTelegramBotToken(): string | null {
+    const token = this.env.TELEGRAM_BOT_TOKEN.trim();
+    return token.length > 0 ? token : null;
+  }
+}
@@ -0,0 +1,40 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type SubscriptionPeriod = {
+  currentPeriodEnd: Date;
+  reminderDueAt: Date;
+  graceEndsAt: Date;
+};
+
+/**
+ * Works out when a paid period ends, when the renewal reminder goes out and when access is removed
+ * if nobody pays. A reminder window longer than the period is clamped to the period start.
+ */
+export function resolveSubscriptionPeriod(input: {
+  periodStart: Date;
+  billingIntervalDays: number;
+  reminderDays: number;
+  graceDays: number;
+}): SubscriptionPeriod {
+  const periodStartMs = input.periodStart.getTime();
+  const currentPeriodEndMs = periodStartMs + input.billingIntervalDays * DAY_MS;
+
+  return {
+    currentPeriodEnd: new Date(currentPeriodEndMs),
+    reminderDueAt: new Date(Math.max(periodStartMs, currentPeriodEndMs - input.reminderDays * DAY_MS)),
+    graceEndsAt: new Date(currentPeriodEndMs + input.graceDays * DAY_MS),
+  };
+}
+
+/** A renewal continues from the end of the paid period; a lapsed subscription starts again from now. */
+export function resolveRenewalPeriodStart(input: {
+  status: 'active' | 'grace' | 'lapsed';
+  currentPeriodEnd: Date;
+  now: Date;
+}): Date {
+  return input.status === 'lapsed' ? input.now : input.currentPeriodEnd;
+}
+
+export function formatSubscriptionDate(value: Date): string {
+  return `${value.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
@@ -16,8 +16,16 @@ import type { TenantMemberRole } from '../domain/types.js';
 
 export type ActorContext = SessionPayload;
 
+export const MIN_CHECKOUT_EXPIRY_MINUTES = 5;
+export const MAX_CHECKOUT_EXPIRY_MINUTES = 1440;
+export const MAX_SUBSCRIPTION_REMINDER_DAYS = 30;
+export const MAX_SUBSCRIPTION_GRACE_DAYS = 30;
+export const MAX_INVOICE_TAX_RATE_BPS = 10_000;
+export const MAX_MANUAL_PAYMENT_INSTRUCTIONS_LENGTH = 1000;
+
 export type GuildConfigSummary = {
   paidLogChannelId: string | null;
+  lowStockAlertChannelId: string | null;
   staffRoleIds: string[];
   defaultCurrency: string;
   couponsEnabled: boolean;
@@ -25,6 +33,14 @@ export type GuildConfigSummary = {
   referralsEnabled: boolean;
   telegramEnabled: boolean;
   tipEnabled: boolean;
+  checkoutExpiryMinutes: number;
+  subscriptionReminderDays: number;
+  subscriptionGraceDays: number;
+  invoiceStoreName: string;
+  invoiceStoreDetails: string;
+  invoiceTaxRateBps: number;
+  manualPaymentInstructions: string;
+  selfServiceEnabled: boolean;
   pointsEarnCategoryKeys: string[];
   pointsRedeemCategoryKeys: string[];
   pointValueMinor: number;
@@ -59,6 +75,7 @@ export class TenantService {
 
   private mapGuildConfigSummary(config: {
     paidLogChannelId: string | null;
+    lowStockAlertChannelId: string | null;
     staffRoleIds: string[];
     defaultCurrency: string;
     couponsEnabled: boolean;
@@ -66,6 +83,14 @@ export class TenantService {
     referralsEnabled: boolean;
     telegramEnabled: boolean;
     tipEnabled: boolean;
+    checkoutExpiryMinutes: number;
+    subscriptionReminderDays: number;
+    subscriptionGraceDays: number;
+    invoiceStoreName: string;
+    invoiceStoreDetails: string;
+    invoiceTaxRateBps: number;
+    manualPaymentInstructions: string;
+    selfServiceEnabled: boolean;
     pointsEarnCategoryKeys: string[];
     pointsRedeemCategoryKeys: string[];
     pointValueMinor: number;
@@ -94,6 +119,7 @@ export class TenantService {
   }): GuildConfigSummary {
     return {
       paidLogChannelId: config.paidLogChannelId,
+      lowStockAlertChannelId: config.lowStockAlertChannelId,
       staffRoleIds: config.staffRoleIds,
       defaultCurrency: config.defaultCurrency,
       couponsEnabled: config.couponsEnabled,
@@ -101,6 +127,14 @@ export class TenantService {
       referralsEnabled: config.referralsEnabled,
       telegramEnabled: config.telegramEnabled,
       tipEnabled: config.tipEnabled,
+      checkoutExpiryMinutes: config.checkoutExpiryMinutes,
+      subscriptionReminderDays: config.subscriptionReminderDays,
+      subscriptionGraceDays: config.subscriptionGraceDays,
+      invoiceStoreName: config.invoiceStoreName,
+      invoiceStoreDetails: config.invoiceStoreDetails,
+      invoiceTaxRateBps: config.invoiceTaxRateBps,
+      manualPaymentInstructions: config.manualPaymentInstructions,
+      selfServiceEnabled: config.selfServiceEnabled,
       pointsEarnCategoryKeys: config.pointsEarnCategoryKeys,
       pointsRedeemCategoryKeys: config.pointsRedeemCategoryKeys,
       pointValueMinor: config.pointValueMinor,
@@ -601,6 +635,7 @@ export class TenantService {
       tenantId: string;
       guildId: string;
       paidLogChannelId: string | null;
+      lowStockAlertChannelId?: string | null;
       staffRoleIds: string[];
       defaultCurrency: string;
       couponsEnabled: boolean;
@@ -608,6 +643,14 @@ export class TenantService {
       referralsEnabled: boolean;
       telegramEnabled: boolean;
       tipEnabled: boolean;
+      checkoutExpiryMinutes?: number;
+      subscriptionReminderDays?: number;
+      subscriptionGraceDays?: number;
+      invoiceStoreName?: string;
+      invoiceStoreDetails?: string;
+      invoiceTaxRateBps?: number;
+      manualPaymentInstructions?: string;
+      selfServiceEnabled?: boolean;
       pointsEarnCategoryKeys: string[];
       pointsRedeemCategoryKeys: string[];
       pointValueMinor: number;
@@ -637,6 +680,80 @@ export class TenantService {
         return err(access.error);
       }
 
+      if (
+        input.checkoutExpiryMinutes !== undefined &&
+        (!Number.isInteger(input.checkoutExpiryMinutes) ||
+          input.checkoutExpiryMinutes < MIN_CHECKOUT_EXPIRY_MINUTES ||
+          input.checkoutExpiryMinutes > MAX_CHECKOUT_EXPIRY_MINUTES)
+      ) {
+        return err(
+          new AppError(
+            'CHECKOUT_EXPIRY_INVALID',
+            `Checkout expiry must be between ${MIN_CHECKOUT_EXPIRY_MINUTES} and ${MAX_CHECKOUT_EXPIRY_MINUTES} minutes.`,
+            422,
+          ),
+        );
+      }
+
+      if (
+        input.subscriptionReminderDays !== undefined &&
+        (!Number.isInteger(input.subscriptionReminderDays) ||
+          input.subscriptionReminderDays < 1 ||
+          input.subscriptionReminderDays > MAX_SUBSCRIPTION_REMINDER_DAYS)
+      ) {
+        return err(
+          new AppError(
+            'SUBSCRIPTION_REMINDER_DAYS_INVALID',
+            `Renewal reminders must be sent between 1 and ${MAX_SUBSCRIPTION_REMINDER_DAYS} days before expiry.`,
+            422,
+          ),
+        );
+      }
+
+      if (
+        input.subscriptionGraceDays !== undefined &&
+        (!Number.isInteger(input.subscriptionGraceDays) ||
+          input.subscriptionGraceDays < 0 ||
+          input.subscriptionGraceDays > MAX_SUBSCRIPTION_GRACE_DAYS)
+      ) {
+        return err(
+          new AppError(
+            'SUBSCRIPTION_GRACE_DAYS_INVALID',
+            `The renewal grace period must be between 0 and ${MAX_SUBSCRIPTION_GRACE_DAYS} days.`,
+            422,
+          ),
+        );
+      }
+
+      if (
+        input.invoiceTaxRateBps !== undefined &&
+        (!Number.isInteger(input.invoiceTaxRateBps) ||
+          input.invoiceTaxRateBps < 0 ||
+          input.invoiceTaxRateBps > MAX_INVOICE_TAX_RATE_BPS)
+      ) {
+        return err(new AppError('INVOICE_TAX_RATE_INVALID', 'The receipt tax rate must be between 0% and 100%.', 422));
+      }
+
+      if ((input.invoiceStoreName?.length ?? 0) > 120 || (input.invoiceStoreDetails?.length ?? 0) > 500) {
+        return err(
+          new AppError(
+            'INVOICE_STORE_DETAILS_TOO_LONG',
+            'The receipt store name is limited to 120 characters and the store details to 500.',
+            422,
+          ),
+        );
+      }
+
+      if ((input.manualPaymentInstructions?.length ?? 0) > MAX_MANUAL_PAYMENT_INSTRUCTIONS_LENGTH) {
+        return err(
+          new AppError(
+            'MANUAL_PAYMENT_INSTRUCTIONS_TOO_LONG',
+            `Manual payment instructions are limited to ${MAX_MANUAL_PAYMENT_INSTRUCTIONS_LENGTH} characters.`,
+            422,
+          ),
+        );
+      }
+
       const existingConfig = await this.tenantRepository.getGuildConfig({
         tenantId: input.tenantId,
         guildId: input.guildId,
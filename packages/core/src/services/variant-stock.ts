@@ -0,0 +1,61 @@
+import { resolveLineQuantity } from './basket-quantity.js';
+
+export type VariantStockLevel = {
+  /** `null` when stock is not tracked for the variant. */
+  stockQuantity: number | null;
+  stockReserved: number;
+};
+
+export type StockDemand = {
+  variantId: string;
+  quantity: number;
+};
+
+/**
+ * Units that can still be sold: on-hand stock minus units held by open checkouts.
+ * Returns `null` for untracked variants, which can always be sold.
+ */
+export function resolveAvailableStock(level: VariantStockLevel): number | null {
+  if (level.stockQuantity === null) {
+    return null;
+  }
+
+  return Math.max(0, level.stockQuantity - Math.max(0, level.stockReserved));
+}
+
+export function isVariantSoldOut(level: VariantStockLevel): boolean {
+  const available = resolveAvailableStock(level);
+  return available !== null && available <= 0;
+}
+
+export function isLowStock(input: { stockQuantity: number | null; lowStockThreshold: number | null }): boolean {
+  if (input.stockQuantity === null || input.lowStockThreshold === null) {
+    return false;
+  }
+
+  return input.stockQuantity <= input.lowStockThreshold;
+}
+
+/** Units needed per variant for a basket, in first-seen order. Lines without a quantity are one unit. */
+export function summarizeStockDemand(items: Array<{ variantId: string; quantity?: number }>): StockDemand[] {
+  const demand = new Map<string, number>();
+  for (const item of items) {
+    demand.set(item.variantId, (demand.get(item.variantId) ?? 0) + resolveLineQuantity(item));
+  }
+
+  return [...demand.entries()].map(([variantId, quantity]) => ({ variantId, quantity }));
+}
+
+export function formatLowStockAlert(input: {
+  productName: string;
+  variantLabel: string;
+  stockQuantity: number;
+  lowStockThreshold: number;
+}): string {
+  const heading =
+    input.stockQuantity <= 0
+      ? `Sold out: **${input.productName} / ${input.variantLabel}**`
+      : `Low stock: **${input.productName} / ${input.variantLabel}**`;
+
+  return `${heading} - ${input.stockQuantity} left (alert at ${input.lowStockThreshold})`;
+}
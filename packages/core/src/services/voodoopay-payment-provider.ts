@@ -0,0 +1,783 @@
+import crypto from 'node:crypto';
+
+import { err, ok, type Result } from 'neverthrow';
+
+import { getEnv } from '../config/env.js';
+import { AppError, fromUnknownError } from '../domain/errors.js';
+import { signVoodooCallbackToken, verifyVoodooCallbackToken } from '../security/voodoo-callback-token.js';
+import { formatMinorAsMajor, majorToMinor } from '../utils/currency.js';
+import { IntegrationService, normalizeCheckoutDomain } from './integration-service.js';
+import {
+  type PaymentCheckout,
+  type PaymentCheckoutInput,
+  type PaymentProvider,
+  type PaymentRefund,
+  type PaymentState,
+  type PaymentWebhookRequest,
+  resolveProviderRefundReason,
+  type SaleCheckoutOption,
+  type VerifiedPaymentWebhook,
+} from './payment-provider.js';
+
+const FALLBACK_EMAIL_DOMAIN = 'voodoopaybot.online';
+
+type HostedCheckoutQueryParam = {
+  key: string;
+  value: string;
+  preserveProviderEncoding?: boolean;
+};
+
+function buildHostedCheckoutUrl(input: {
+  checkoutBaseUrl: string;
+  path: string;
+  params: HostedCheckoutQueryParam[];
+}): string {
+  const checkoutUrl = new URL(input.path, input.checkoutBaseUrl);
+  const query = input.params
+    .map((param) => {
+      const trimmedValue = param.value.trim();
+      const encodedValue = param.preserveProviderEncoding ? trimmedValue : encodeURIComponent(trimmedValue);
+      return `${param.key}=${encodedValue}`;
+    })
+    .join('&');
+
+  return query.length > 0 ? `${checkoutUrl.origin}${checkoutUrl.pathname}?${query}` : `${checkoutUrl.origin}${checkoutUrl.pathname}`;
+}
+
+export function buildVoodooPayHostedCheckoutUrl(input: {
+  checkoutBaseUrl: string;
+  address: string;
+  amount: string;
+  currency: string;
+  checkoutDomain: string;
+  vdToken: string;
+  orderSessionId: string;
+  email: string;
+  ipnToken?: string | null;
+}): string {
+  return buildHostedCheckoutUrl({
+    checkoutBaseUrl: input.checkoutBaseUrl,
+    path: '/pay.php',
+    params: [
+      {
+        key: 'address',
+        value: input.address,
+        preserveProviderEncoding: true,
+      },
+      {
+        key: 'amount',
+        value: input.amount,
+      },
+      {
+        key: 'currency',
+        value: input.currency,
+      },
+      {
+        key: 'domain',
+        value: input.checkoutDomain,
+      },
+      {
+        key: 'vd_token',
+        value: input.vdToken,
+      },
+      {
+        key: 'vd_order_session_id',
+        value: input.orderSessionId,
+      },
+      {
+        key: 'email',
+        value: input.email,
+      },
+      ...(input.ipnToken && input.ipnToken.trim().length > 0
+        ? [
+            {
+              key: 'ipn_token',
+              value: input.ipnToken,
+              preserveProviderEncoding: true,
+            },
+          ]
+        : []),
+    ],
+  });
+}
+
+export function buildVoodooPayHostedCryptoCheckoutUrl(input: {
+  checkoutDomain: string;
+  paymentToken: string;
+  addFees: boolean;
+}): string {
+  return `https://${input.checkoutDomain}/crypto/hosted.php?payment_token=${input.paymentToken.trim()}&add_fees=${input.addFees ? '1' : '0'}`;
+}
+
+function firstNonEmpty(query: Record<string, string>, keys: string[]): string | null {
+  for (const key of keys) {
+    const value = query[key];
+    if (typeof value === 'string' && value.trim().length > 0) {
+      return value.trim();
+    }
+  }
+
+  return null;
+}
+
+function hasTruthySignal(value: string | null): boolean {
+  if (!value) {
+    return false;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  if (normalized === '1' || normalized === 'true' || normalized === 'yes' || normalized === 'y') {
+    return true;
+  }
+
+  const numeric = Number(normalized);
+  return Number.isFinite(numeric) && numeric > 0;
+}
+
+function hasPositiveAmount(value: string | null): boolean {
+  if (!value) {
+    return false;
+  }
+
+  const numeric = Number(value.trim());
+  return Number.isFinite(numeric) && numeric > 0;
+}
+
+function normalizeStatus(value: string | null): string | null {
+  if (!value) {
+    return null;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  return normalized.length > 0 ? normalized : null;
+}
+
+const VOODOO_PAID_STATUSES = new Set([
+  'paid',
+  'complete',
+  'completed',
+  'confirmed',
+  'success',
+  'successful',
+  'done',
+  'finished',
+  'ok',
+]);
+
+const VOODOO_FAILED_STATUSES = new Set([
+  'failed',
+  'error',
+  'cancelled',
+  'canceled',
+  'expired',
+  'rejected',
+  'invalid',
+  'refunded',
+  'chargeback',
+  'charged_back',
+]);
+
+const VOODOO_UNPAID_STATUSES = new Set([
+  'unpaid',
+  'pending',
+  'waiting',
+  'awaiting',
+  'processing',
+  ...VOODOO_FAILED_STATUSES,
+]);
+
+export type VoodooPaymentState = {
+  paid: boolean;
+  status: string | null;
+  txidIn: string | null;
+  txidOut: string | null;
+  transactionId: string | null;
+  /** Coin id and amount sent, reported by the multi-coin crypto gateway. */
+  coin: string | null;
+  valueCoin: string | null;
+};
+
+type VoodooPolledStatus = {
+  paid: boolean;
+  status: string | null;
+  coin: string | null;
+  valueCoin: string | null;
+};
+
+export function resolveVoodooPaymentState(query: Record<string, string>): VoodooPaymentState {
+  const txidIn = firstNonEmpty(query, ['txid_in', 'tx_in', 'incoming_txid', 'txidin']);
+  const txidOut = firstNonEmpty(query, ['txid_out', 'tx_out', 'outgoing_txid', 'txidout']);
+  const transactionId = firstNonEmpty(query, [
+    'txid',
+    'transaction_id',
+    'transaction_hash',
+    'hash',
+    'payment_id',
+    'payment_hash',
+  ]);
+
+  const coin = firstNonEmpty(query, ['coin']);
+  const valueCoin = firstNonEmpty(query, ['value_coin', 'value_forwarded_coin']);
+  const status = normalizeStatus(firstNonEmpty(query, ['status', 'payment_status', 'state', 'result']));
+  const confirmed = hasTruthySignal(
+    firstNonEmpty(query, ['confirmed', 'is_confirmed', 'paid', 'success', 'confirmations']),
+  );
+  const positiveAmount = hasPositiveAmount(
+    firstNonEmpty(query, ['value_forwarded_coin', 'value_coin', 'amount', 'value']),
+  );
+
+  if (status && VOODOO_FAILED_STATUSES.has(status)) {
+    return {
+      paid: false,
+      status,
+      txidIn,
+      txidOut,
+      transactionId,
+      coin,
+      valueCoin,
+    };
+  }
+
+  if (txidIn || txidOut || transactionId || confirmed || positiveAmount) {
+    return {
+      paid: true,
+      status,
+      txidIn,
+      txidOut,
+      transactionId,
+      coin,
+      valueCoin,
+    };
+  }
+
+  if (status && VOODOO_PAID_STATUSES.has(status)) {
+    return {
+      paid: true,
+      status,
+      txidIn,
+      txidOut,
+      transactionId,
+      coin,
+      valueCoin,
+    };
+  }
+
+  return {
+    paid: false,
+    status,
+    txidIn,
+    txidOut,
+    transactionId,
+    coin,
+    valueCoin,
+  };
+}
+
+export function buildVoodooDeliveryId(orderSessionId: string, query: Record<string, string>): string {
+  const fingerprint = {
+    orderSessionId,
+    ipnToken: firstNonEmpty(query, ['ipn_token', 'callback_id']),
+    txidIn: firstNonEmpty(query, ['txid_in', 'tx_in', 'incoming_txid', 'txidin']),
+    txidOut: firstNonEmpty(query, ['txid_out', 'tx_out', 'outgoing_txid', 'txidout']),
+    txid: firstNonEmpty(query, ['txid', 'transaction_id', 'transaction_hash', 'hash']),
+    status: normalizeStatus(firstNonEmpty(query, ['status', 'payment_status', 'state', 'result'])),
+    value: firstNonEmpty(query, ['value_forwarded_coin', 'value_coin', 'amount', 'value']),
+  };
+
+  const hash = crypto.createHash('sha256').update(JSON.stringify(fingerprint)).digest('hex').slice(0, 60);
+  return `vp-${hash}`;
+}
+
+/** Callback queries are stored as the webhook payload; this reads them back as plain string parameters. */
+export function toVoodooCallbackQuery(payload: Record<string, unknown>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(payload)
+      .filter((entry): entry is [string, string] => typeof entry[1] === 'string'),
+  );
+}
+
+/** Voodoo Pay hosted checkout, plus the optional multi-coin crypto checkout. Callbacks arrive as signed GET queries. */
+export class VoodooPayPaymentProvider implements PaymentProvider {
+  public readonly id = 'voodoopay' as const;
+  public readonly label = 'Voodoo Pay';
+
+  private readonly env = getEnv();
+  private readonly integrationService = new IntegrationService();
+
+  public async isConfigured(input: { tenantId: string; guildId: string }): Promise<Result<boolean, AppError>> {
+    const integration = await this.integrationService.getResolvedVoodooPayIntegrationByGuild(input);
+    return ok(integration.isOk());
+  }
+
+  public async createCheckout(input: PaymentCheckoutInput): Promise<Result<PaymentCheckout, AppError>> {
+    const integration = await this.integrationService.getResolvedVoodooPayIntegrationByGuild({
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+    });
+    if (integration.isErr()) {
+      return err(integration.error);
+    }
+
+    const warnings: string[] = [];
+    const voodooCheckout = await this.buildVoodooPayCheckoutUrl({
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+      orderSessionId: input.orderSessionId,
+      customerDiscordUserId: input.customerDiscordUserId,
+      customerEmail: input.customerEmail,
+      totalMinor: input.totalMinor,
+      currency: input.currency,
+      integration: integration.value,
+      token: input.checkoutToken,
+    });
+    if (voodooCheckout.isErr()) {
+      return err(voodooCheckout.error);
+    }
+
+    let cryptoCheckoutUrl: string | null = null;
+    if (integration.value.cryptoGatewayEnabled) {
+      const cryptoCheckout = await this.buildVoodooPayMulticoinCheckoutUrl({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        orderSessionId: input.orderSessionId,
+        totalMinor: input.totalMinor,
+        currency: input.currency,
+        integration: integration.value,
+      });
+
+      if (cryptoCheckout.isErr()) {
+        warnings.push(
+          `Crypto checkout could not be generated and was disabled for this sale: ${cryptoCheckout.error.message}`,
+        );
+      } else {
+        cryptoCheckoutUrl = cryptoCheckout.value;
+      }
+    }
+
+    const checkoutOptions: SaleCheckoutOption[] = [
+      {
+        method: 'pay',
+        label: 'Pay',
+        url: voodooCheckout.value,
+      },
+    ];
+    if (cryptoCheckoutUrl) {
+      checkoutOptions.push({
+        method: 'crypto',
+        label: 'Pay with Crypto',
+        url: cryptoCheckoutUrl,
+      });
+    }
+
+    return ok({
+      checkoutUrl: voodooCheckout.value,
+      checkoutUrlCrypto: cryptoCheckoutUrl,
+      checkoutOptions,
+      warnings,
+    });
+  }
+
+  public async verifyWebhook(input: PaymentWebhookRequest): Promise<Result<VerifiedPaymentWebhook, AppError>> {
+    const integration = await this.integrationService.getResolvedVoodooPayIntegrationByWebhookKey(
+      input.tenantWebhookKey,
+    );
+    if (integration.isErr()) {
+      return err(integration.error);
+    }
+
+    const orderSessionId = input.query.order_session_id;
+    if (!orderSessionId) {
+      return err(new AppError('MISSING_ORDER_SESSION_ID', 'Missing order_session_id in callback', 400));
+    }
+
+    const signatureValid = verifyVoodooCallbackToken({
+      payload: {
+        tenantId: integration.value.tenantId,
+        guildId: integration.value.guildId,
+        orderSessionId,
+      },
+      secret: integration.value.callbackSecret,
+      providedToken: input.query.cb_token,
+    });
+
+    return ok({
+      tenantId: integration.value.tenantId,
+      guildId: integration.value.guildId,
+      signatureValid,
+      deliveryId: buildVoodooDeliveryId(orderSessionId, input.query),
+      topic: 'callback',
+      payload: input.query,
+      orderSessionId,
+    });
+  }
+
+  public async resolvePaymentState(input: {
+    tenantId: string;
+    guildId: string;
+    payload: Record<string, unknown>;
+  }): Promise<Result<PaymentState, AppError>> {
+    try {
+      const query = toVoodooCallbackQuery(input.payload);
+      const paymentState = await this.resolveCallbackState(query);
+      const currency = query.currency ?? null;
+      const amount = Number(query.amount);
+
+      return ok({
+        paid: paymentState.paid,
+        status: paymentState.status,
+        orderSessionId: query.order_session_id ?? null,
+        providerOrderId:
+          paymentState.txidIn ??
+          paymentState.txidOut ??
+          paymentState.transactionId ??
+          firstNonEmpty(query, ['ipn_token', 'callback_id']) ??
+          query.order_session_id ??
+          null,
+        paymentReference: paymentState.txidOut ?? paymentState.txidIn ?? paymentState.transactionId ?? null,
+        amountMinor: currency && Number.isFinite(amount) && amount > 0 ? majorToMinor(amount, currency) : null,
+        currency,
+        refundReason: resolveProviderRefundReason(paymentState.status),
+        refundedMinor: 0,
+      });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  public async refund(): Promise<Result<PaymentRefund, AppError>> {
+    return err(
+      new AppError(
+        'PAYMENT_REFUND_UNSUPPORTED',
+        'Voodoo Pay payments settle straight to your wallet, so refunds have to be sent manually.',
+        422,
+      ),
+    );
+  }
+
+  /**
+   * Reads the callback query and, when it does not show a settled payment, asks the gateway for the
+   * latest status. Keeps the crypto fields the paid log and amount check need.
+   */
+  public async resolveCallbackState(query: Record<string, string>): Promise<VoodooPaymentState> {
+    const paymentState = resolveVoodooPaymentState(query);
+    if (paymentState.paid) {
+      return paymentState;
+    }
+
+    const polledStatus = await this.checkVoodooPaymentStatus(firstNonEmpty(query, ['ipn_token', 'callback_id']));
+    if (!polledStatus.paid) {
+      return { ...paymentState, status: polledStatus.status ?? paymentState.status };
+    }
+
+    return {
+      ...paymentState,
+      paid: true,
+      status: polledStatus.status ?? paymentState.status ?? 'paid',
+      coin: paymentState.coin ?? polledStatus.coin,
+      valueCoin: paymentState.valueCoin ?? polledStatus.valueCoin,
+    };
+  }
+
+  private async checkVoodooPaymentStatus(
+    ipnToken: string | null,
+  ): Promise<VoodooPolledStatus> {
+    const unknown: VoodooPolledStatus = { paid: false, status: null, coin: null, valueCoin: null };
+    if (!ipnToken) {
+      return unknown;
+    }
+
+    try {
+      const statusUrl = new URL('/control/payment-status.php', this.env.VOODOO_PAY_API_BASE_URL);
+      statusUrl.searchParams.set('ipn_token', ipnToken);
+
+      const response = await fetch(statusUrl.toString());
+      if (!response.ok) {
+        return unknown;
+      }
+
+      const raw = (await response.text()).trim();
+      if (!raw) {
+        return unknown;
+      }
+
+      let statusCandidate: string | null = null;
+      let coin: string | null = null;
+      let valueCoin: string | null = null;
+      const maybeJson = raw.startsWith('{') || raw.startsWith('[');
+
+      if (maybeJson) {
+        try {
+          const parsed = JSON.parse(raw) as Record<string, unknown> | string | null;
+          if (typeof parsed === 'string') {
+            statusCandidate = parsed;
+          } else if (parsed && typeof parsed === 'object') {
+            const fields = Object.fromEntries(
+              Object.entries(parsed).map(([key, value]) => [key, String(value ?? '')]),
+            );
+            statusCandidate = firstNonEmpty(fields, ['status', 'payment_status', 'result', 'state']);
+            coin = firstNonEmpty(fields, ['coin']);
+            valueCoin = firstNonEmpty(fields, ['value_coin', 'value_forwarded_coin']);
+          }
+        } catch {
+          statusCandidate = raw;
+        }
+      } else {
+        statusCandidate = raw;
+      }
+
+      const normalized = normalizeStatus(statusCandidate);
+      if (!normalized) {
+        return unknown;
+      }
+
+      if (VOODOO_PAID_STATUSES.has(normalized)) {
+        return { paid: true, status: normalized, coin, valueCoin };
+      }
+
+      if (VOODOO_UNPAID_STATUSES.has(normalized)) {
+        return { paid: false, status: normalized, coin, valueCoin };
+      }
+
+      return { paid: false, status: normalized, coin, valueCoin };
+    } catch {
+      return unknown;
+    }
+  }
+
+  private async buildVoodooPayCheckoutUrl(input: {
+    tenantId: string;
+    guildId: string;
+    orderSessionId: string;
+    customerDiscordUserId: string;
+    customerEmail: string | null;
+    totalMinor: number;
+    currency: string;
+    integration: {
+      tenantWebhookKey: string;
+      merchantWalletAddress: string;
+      callbackSecret: string;
+      checkoutDomain: string;
+    };
+    token: string;
+  }): Promise<Result<string, AppError>> {
+    try {
+      const callbackToken = signVoodooCallbackToken(
+        {
+          tenantId: input.tenantId,
+          guildId: input.guildId,
+          orderSessionId: input.orderSessionId,
+        },
+        input.integration.callbackSecret,
+      );
+
+      const callbackUrl = new URL(
+        `/api/webhooks/voodoopay/${input.integration.tenantWebhookKey}/${input.orderSessionId}/${callbackToken}`,
+        this.env.BOT_PUBLIC_URL,
+      );
+      // Keep query params for backward compatibility with existing callback handling.
+      callbackUrl.searchParams.set('order_session_id', input.orderSessionId);
+      callbackUrl.searchParams.set('cb_token', callbackToken);
+
+      const createWalletUrl = new URL('/control/wallet.php', this.env.VOODOO_PAY_API_BASE_URL);
+      createWalletUrl.searchParams.set('address', input.integration.merchantWalletAddress);
+      createWalletUrl.searchParams.set('callback', callbackUrl.toString());
+
+      const walletResponse = await fetch(createWalletUrl.toString());
+      if (!walletResponse.ok) {
+        return err(
+          new AppError(
+            'VOODOO_PAY_CREATE_WALLET_FAILED',
+            `Voodoo Pay wallet creation failed with status ${walletResponse.status}`,
+            502,
+          ),
+        );
+      }
+
+      const walletPayload = (await walletResponse.json()) as {
+        address_in?: unknown;
+        ipn_token?: unknown;
+      };
+
+      if (typeof walletPayload.address_in !== 'string' || walletPayload.address_in.length === 0) {
+        return err(
+          new AppError('VOODOO_PAY_INVALID_WALLET_RESPONSE', 'Missing address_in in wallet response', 502),
+        );
+      }
+
+      const checkoutDomain = normalizeCheckoutDomain(input.integration.checkoutDomain);
+      if (checkoutDomain.length === 0) {
+        return err(
+          new AppError(
+            'VOODOO_PAY_CHECKOUT_DOMAIN_INVALID',
+            'Configured checkout domain is invalid for standard checkout.',
+            422,
+          ),
+        );
+      }
+      const customerEmail = this.resolveCheckoutEmail({
+        customerEmail: input.customerEmail,
+        customerDiscordUserId: input.customerDiscordUserId,
+        orderSessionId: input.orderSessionId,
+      });
+
+      return ok(
+        buildVoodooPayHostedCheckoutUrl({
+          checkoutBaseUrl: this.env.VOODOO_PAY_CHECKOUT_BASE_URL,
+          address: walletPayload.address_in,
+          amount: formatMinorAsMajor(input.totalMinor, input.currency),
+          currency: input.currency,
+          checkoutDomain,
+          vdToken: input.token,
+          orderSessionId: input.orderSessionId,
+          email: customerEmail,
+          ipnToken: typeof walletPayload.ipn_token === 'string' ? walletPayload.ipn_token : null,
+        }),
+      );
+    } catch (error) {
+      return err(fromUnknownError(error, 'VOODOO_PAY_CHECKOUT_FAILED'));
+    }
+  }
+
+  private async buildVoodooPayMulticoinCheckoutUrl(input: {
+    tenantId: string;
+    guildId: string;
+    orderSessionId: string;
+    totalMinor: number;
+    currency: string;
+    integration: {
+      tenantWebhookKey: string;
+      callbackSecret: string;
+      checkoutDomain: string;
+      cryptoAddFees: boolean;
+      cryptoWallets: {
+        evm: string | null;
+        btc: string | null;
+        bitcoincash: string | null;
+        ltc: string | null;
+        doge: string | null;
+        trc20: string | null;
+        solana: string | null;
+      };
+    };
+  }): Promise<Result<string, AppError>> {
+    try {
+      const callbackToken = signVoodooCallbackToken(
+        {
+          tenantId: input.tenantId,
+          guildId: input.guildId,
+          orderSessionId: input.orderSessionId,
+        },
+        input.integration.callbackSecret,
+      );
+
+      const callbackUrl = new URL(
+        `/api/webhooks/voodoopay/${input.integration.tenantWebhookKey}/${input.orderSessionId}/${callbackToken}`,
+        this.env.BOT_PUBLIC_URL,
+      );
+      callbackUrl.searchParams.set('order_session_id', input.orderSessionId);
+      callbackUrl.searchParams.set('cb_token', callbackToken);
+      // Lets the callback handler compare the coin amount received against the order total.
+      callbackUrl.searchParams.set('checkout', 'crypto');
+
+      const walletPayload: Record<string, string | number> = {
+        fiat_amount: Number(formatMinorAsMajor(input.totalMinor, input.currency)),
+        fiat_currency: input.currency,
+        callback: callbackUrl.toString(),
+      };
+
+      for (const [key, value] of Object.entries(input.integration.cryptoWallets)) {
+        if (typeof value !== 'string' || value.trim().length === 0) {
+          continue;
+        }
+        walletPayload[key] = value.trim();
+      }
+
+      const createWalletUrl = new URL('/crypto/multi-hosted-wallet.php', this.env.VOODOO_PAY_API_BASE_URL);
+      const walletResponse = await fetch(createWalletUrl.toString(), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(walletPayload),
+      });
+      if (!walletResponse.ok) {
+        return err(
+          new AppError(
+            'VOODOO_PAY_MULTICOIN_CREATE_WALLET_FAILED',
+            `Voodoo Pay multicoin wallet creation failed with status ${walletResponse.status}`,
+            502,
+          ),
+        );
+      }
+
+      const responsePayload = (await walletResponse.json()) as {
+        payment_token?: unknown;
+      };
+      if (
+        typeof responsePayload.payment_token !== 'string' ||
+        responsePayload.payment_token.trim().length === 0
+      ) {
+        return err(
+          new AppError(
+            'VOODOO_PAY_MULTICOIN_INVALID_RESPONSE',
+            'Missing payment_token in multicoin wallet response',
+            502,
+          ),
+        );
+      }
+
+      const checkoutDomain = normalizeCheckoutDomain(input.integration.checkoutDomain);
+      if (checkoutDomain.length === 0) {
+        return err(
+          new AppError(
+            'VOODOO_PAY_MULTICOIN_CHECKOUT_DOMAIN_INVALID',
+            'Configured checkout domain is invalid for hosted multi-coin checkout.',
+            422,
+          ),
+        );
+      }
+
+      return ok(
+        buildVoodooPayHostedCryptoCheckoutUrl({
+          checkoutDomain,
+          paymentToken: responsePayload.payment_token,
+          addFees: input.integration.cryptoAddFees,
+        }),
+      );
+    } catch (error) {
+      return err(fromUnknownError(error, 'VOODOO_PAY_MULTICOIN_CHECKOUT_FAILED'));
+    }
+  }
+
+  private resolveCheckoutEmail(input: {
+    customerEmail: string | null;
+    customerDiscordUserId: string;
+    orderSessionId: string;
+  }): string {
+    if (input.customerEmail) {
+      return input.customerEmail;
+    }
+
+    const localPartBase =
+      input.customerDiscordUserId.trim().length > 0
+        ? `discord-${input.customerDiscordUserId.trim()}`
+        : `order-${input.orderSessionId.toLowerCase()}`;
+    const localPart = localPartBase.replace(/[^a-zA-Z0-9._+-]/g, '').slice(0, 60) || 'customer';
+
+    return `${localPart}@${this.resolveFallbackEmailDomain()}`;
+  }
+
+  private resolveFallbackEmailDomain(): string {
+    try {
+      const url = new URL(this.env.BOT_PUBLIC_URL);
+      const hostname = url.hostname.trim().toLowerCase();
+      if (hostname.includes('.')) {
+        return hostname;
+      }
+    } catch {
+      // ignore URL parsing failures and use static fallback domain.
+    }
+
+    return FALLBACK_EMAIL_DOMAIN;
+  }
+}
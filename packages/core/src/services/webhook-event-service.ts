@@ -0,0 +1,198 @@
+import { err, ok, type Result } from 'neverthrow';
+import { ulid } from 'ulid';
+
+import { AppError, fromUnknownError } from '../domain/errors.js';
+import type { WebhookEventStatus } from '../domain/types.js';
+import { AdminRepository } from '../repositories/admin-repository.js';
+import {
+  OrderRepository,
+  type WebhookEventDetailRecord,
+  type WebhookEventProvider,
+  type WebhookEventSummaryRecord,
+} from '../repositories/order-repository.js';
+import type { SessionPayload } from '../security/session-token.js';
+import { redactSecretFields } from '../utils/mask.js';
+import { AuthorizationService } from './authorization-service.js';
+import { WebhookService } from './webhook-service.js';
+
+const WEBHOOK_EVENT_LIST_LIMIT = 100;
+
+export const WEBHOOK_EVENT_PROVIDERS = [
+  'woocommerce',
+  'voodoopay',
+  'stripe',
+] as const satisfies readonly WebhookEventProvider[];
+
+export const WEBHOOK_EVENT_STATUSES = [
+  'received',
+  'processed',
+  'failed',
+  'dead_letter',
+  'duplicate',
+] as const satisfies readonly WebhookEventStatus[];
+
+export type WebhookEventFilters = {
+  provider: string | null;
+  status: string | null;
+  orderSessionId: string | null;
+};
+
+function isWebhookEventProvider(value: string): value is WebhookEventProvider {
+  return (WEBHOOK_EVENT_PROVIDERS as readonly string[]).includes(value);
+}
+
+function isWebhookEventStatus(value: string): value is WebhookEventStatus {
+  return (WEBHOOK_EVENT_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Lets tenant staff inspect the provider webhooks stored for a server and replay one through the normal
+ * processing path. Payloads are returned with secret-looking fields redacted.
+ */
+export class WebhookEventService {
+  private readonly orderRepository = new OrderRepository();
+  private readonly adminRepository = new AdminRepository();
+  private readonly authorizationService = new AuthorizationService();
+  private readonly webhookService = new WebhookService();
+
+  private async ensureGuildAccess(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string; minimumRole: 'admin' | 'member' },
+  ): Promise<Result<void, AppError>> {
+    const roleCheck = await this.authorizationService.ensureTenantRole(actor, {
+      tenantId: input.tenantId,
+      minimumRole: input.minimumRole,
+    });
+    if (roleCheck.isErr()) {
+      return err(roleCheck.error);
+    }
+
+    return this.authorizationService.ensureGuildBoundToTenant({ tenantId: input.tenantId, guildId: input.guildId });
+  }
+
+  public async listEvents(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string; filters: WebhookEventFilters },
+  ): Promise<Result<{ events: WebhookEventSummaryRecord[]; canReplay: boolean }, AppError>> {
+    try {
+      const providerFilter = input.filters.provider?.trim() || null;
+      const provider = providerFilter && isWebhookEventProvider(providerFilter) ? providerFilter : null;
+      if (providerFilter && !provider) {
+        return err(new AppError('WEBHOOK_EVENT_FILTER_INVALID', 'Unknown payment provider filter', 422));
+      }
+
+      const statusFilter = input.filters.status?.trim() || null;
+      const status = statusFilter && isWebhookEventStatus(statusFilter) ? statusFilter : null;
+      if (statusFilter && !status) {
+        return err(new AppError('WEBHOOK_EVENT_FILTER_INVALID', 'Unknown webhook status filter', 422));
+      }
+
+      const access = await this.ensureGuildAccess(actor, { ...input, minimumRole: 'member' });
+      if (access.isErr()) {
+        return err(access.error);
+      }
+
+      const events = await this.orderRepository.listWebhookEvents({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        provider,
+        status,
+        orderSessionId: input.filters.orderSessionId?.trim() || null,
+        limit: WEBHOOK_EVENT_LIST_LIMIT,
+      });
+      const adminCheck = await this.authorizationService.ensureTenantRole(actor, {
+        tenantId: input.tenantId,
+        minimumRole: 'admin',
+      });
+
+      return ok({ events, canReplay: adminCheck.isOk() });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  public async getEvent(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string; webhookEventId: string },
+  ): Promise<Result<WebhookEventDetailRecord, AppError>> {
+    try {
+      const access = await this.ensureGuildAccess(actor, { ...input, minimumRole: 'member' });
+      if (access.isErr()) {
+        return err(access.error);
+      }
+
+      const event = await this.orderRepository.getWebhookEventDetail(input);
+      if (!event) {
+        return err(new AppError('WEBHOOK_EVENT_NOT_FOUND', 'Webhook event not found', 404));
+      }
+
+      return ok({ ...event, payload: redactSecretFields(event.payload) as Record<string, unknown> });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  /**
+   * Runs a stored webhook again through the same claim-and-process path as automatic retries, so an
+   * order that was already completed only has its missing steps filled in. Admins only; every replay is
+   * written to the audit log.
+   */
+  public async replayEvent(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string; webhookEventId: string },
+  ): Promise<Result<{ status: 'processed' | 'failed' | 'dead_letter' }, AppError>> {
+    try {
+      const access = await this.ensureGuildAccess(actor, { ...input, minimumRole: 'admin' });
+      if (access.isErr()) {
+        return err(access.error);
+      }
+
+      const event = await this.orderRepository.getWebhookEventDetail(input);
+      if (!event) {
+        return err(new AppError('WEBHOOK_EVENT_NOT_FOUND', 'Webhook event not found', 404));
+      }
+      if (!event.signatureValid) {
+        return err(
+          new AppError('WEBHOOK_REPLAY_NOT_ALLOWED', 'Deliveries with an invalid signature cannot be replayed', 409),
+        );
+      }
+      if (event.status === 'duplicate') {
+        return err(
+          new AppError('WEBHOOK_REPLAY_NOT_ALLOWED', 'Duplicate deliveries cannot be replayed; replay the original', 409),
+        );
+      }
+      if (event.leaseExpiresAt && event.leaseExpiresAt.getTime() > Date.now()) {
+        return err(new AppError('WEBHOOK_EVENT_IN_PROGRESS', 'This webhook is being processed right now', 409));
+      }
+
+      await this.adminRepository.appendAuditLog({
+        tenantId: input.tenantId,
+        userId: actor.userId,
+        actorDiscordUserId: actor.discordUserId,
+        action: 'webhook_event.replay',
+        resourceType: 'webhook_event',
+        resourceId: event.id,
+        correlationId: ulid(),
+        metadata: {
+          guildId: input.guildId,
+          provider: event.provider,
+          previousStatus: event.status,
+          orderSessionId: event.orderSessionId,
+        },
+      });
+
+      await this.orderRepository.resetWebhookForRetry(event.id);
+      const replayed = await this.webhookService.runWebhookEvent(event.id, 'replay');
+      if (replayed.isErr()) {
+        return err(replayed.error);
+      }
+      if (replayed.value.status === 'skipped') {
+        return err(new AppError('WEBHOOK_EVENT_IN_PROGRESS', 'This webhook is being processed right now', 409));
+      }
+
+      return ok({ status: replayed.value.status });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+}
@@ -0,0 +1,29 @@
+/** Attempts (the first delivery included) before an event is moved to `dead_letter`. */
+export const WEBHOOK_MAX_ATTEMPTS = 10;
+export const WEBHOOK_RETRY_BASE_DELAY_MS = 60_000;
+export const WEBHOOK_RETRY_MAX_DELAY_MS = 4 * 60 * 60 * 1000;
+/** How long one instance may hold an event before another instance can claim it again. */
+export const WEBHOOK_LEASE_DURATION_MS = 5 * 60_000;
+/** `received` events older than this without a live lease are treated as abandoned and picked up by the worker. */
+export const WEBHOOK_RECEIVED_STALE_AFTER_MS = 2 * 60_000;
+
+export type WebhookFailureOutcome =
+  | { status: 'failed'; nextRetryAt: Date }
+  | { status: 'dead_letter'; nextRetryAt: null };
+
+/** 1 minute after the first failure, doubling up to 4 hours, so ten attempts span roughly eight hours. */
+export function getWebhookRetryDelayMs(attemptCount: number): number {
+  const exponent = Math.max(0, Math.floor(attemptCount) - 1);
+  return Math.min(WEBHOOK_RETRY_MAX_DELAY_MS, WEBHOOK_RETRY_BASE_DELAY_MS * 2 ** exponent);
+}
+
+export function resolveWebhookFailureOutcome(input: { attemptCount: number; now: Date }): WebhookFailureOutcome {
+  if (input.attemptCount >= WEBHOOK_MAX_ATTEMPTS) {
+    return { status: 'dead_letter', nextRetryAt: null };
+  }
+
+  return {
+    status: 'failed',
+    nextRetryAt: new Date(input.now.getTime() + getWebhookRetryDelayMs(input.attemptCount)),
+  };
+}
@@ -0,0 +1,116 @@
+import { err, ok, type Result } from 'neverthrow';
+
+import { type AppError, fromUnknownError } from '../domain/errors.js';
+import { logger } from '../infra/logger.js';
+import { OrderRepository } from '../repositories/order-repository.js';
+import { WEBHOOK_RECEIVED_STALE_AFTER_MS } from './webhook-retry-policy.js';
+import { WebhookService } from './webhook-service.js';
+
+const RETRY_SWEEP_BATCH_SIZE = 25;
+
+export type WebhookRetrySweepSummary = {
+  claimedCount: number;
+  processedCount: number;
+  failedCount: number;
+  deadLetteredCount: number;
+};
+
+/**
+ * Polls `webhook_events` for failed events that are due a retry and for `received` events a previous
+ * process never finished. Every web-app instance can run this loop: events are claimed with a lease, so
+ * each one is processed by a single instance at a time.
+ */
+export class WebhookRetryService {
+  private readonly orderRepository = new OrderRepository();
+  private readonly webhookService = new WebhookService();
+  private sweeperTimer: NodeJS.Timeout | null = null;
+  private sweeperTickInFlight = false;
+
+  /** The first sweep runs immediately, which recovers events left in `received` by a restart or deploy. */
+  public startSweeperLoop(input: { pollIntervalMs: number }): void {
+    if (this.sweeperTimer) {
+      return;
+    }
+
+    const pollIntervalMs = Math.max(5_000, Math.floor(input.pollIntervalMs));
+    this.queueSweeperTick();
+    this.sweeperTimer = setInterval(() => {
+      this.queueSweeperTick();
+    }, pollIntervalMs);
+    this.sweeperTimer.unref?.();
+  }
+
+  public stopSweeperLoop(): void {
+    if (!this.sweeperTimer) {
+      return;
+    }
+
+    clearInterval(this.sweeperTimer);
+    this.sweeperTimer = null;
+    this.sweeperTickInFlight = false;
+  }
+
+  private queueSweeperTick(): void {
+    if (this.sweeperTickInFlight) {
+      return;
+    }
+
+    this.sweeperTickInFlight = true;
+    void this.runRetrySweep()
+      .then((result) => {
+        if (result.isErr()) {
+          logger.warn({ err: result.error }, 'failed to sweep webhook retries');
+        }
+      })
+      .finally(() => {
+        this.sweeperTickInFlight = false;
+      });
+  }
+
+  public async runRetrySweep(): Promise<Result<WebhookRetrySweepSummary, AppError>> {
+    try {
+      const now = new Date();
+      const webhookEventIds = await this.orderRepository.listDueWebhookEventIds({
+        now,
+        receivedBefore: new Date(now.getTime() - WEBHOOK_RECEIVED_STALE_AFTER_MS),
+        limit: RETRY_SWEEP_BATCH_SIZE,
+      });
+
+      const summary: WebhookRetrySweepSummary = {
+        claimedCount: 0,
+        processedCount: 0,
+        failedCount: 0,
+        deadLetteredCount: 0,
+      };
+
+      for (const webhookEventId of webhookEventIds) {
+        const result = await this.webhookService.runWebhookEvent(webhookEventId, 'retry');
+        if (result.isErr()) {
+          logger.warn({ err: result.error, webhookEventId }, 'failed to retry webhook event');
+          continue;
+        }
+
+        if (result.value.status === 'skipped') {
+          continue;
+        }
+
+        summary.claimedCount += 1;
+        if (result.value.status === 'processed') {
+          summary.processedCount += 1;
+        } else if (result.value.status === 'failed') {
+          summary.failedCount += 1;
+        } else {
+          summary.deadLetteredCount += 1;
+        }
+      }
+
+      if (summary.claimedCount > 0) {
+        logger.info(summary, 'webhook retry sweep finished');
+      }
+
+      return ok(summary);
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+}
@@ -1,78 +1,77 @@
-import crypto from 'node:crypto';
+import { AbortError } from 'p-retry';
+import { hostname } from 'node:os';
 
-import pRetry, { AbortError } from 'p-retry';
 import { err, ok, type Result } from 'neverthrow';
+import { ulid } from 'ulid';
 
 import { getEnv } from '../config/env.js';
 import { AppError, fromUnknownError } from '../domain/errors.js';
-import type { WooOrderNote, WooOrderPayload } from '../domain/types.js';
+import type { WebhookAttemptTrigger, WooOrderNote } from '../domain/types.js';
 import { logger } from '../infra/logger.js';
 import { postMessageToDiscordChannel, sendDirectMessageToDiscordUser } from '../integrations/discord-rest.js';
 import { postMessageToTelegramChat, sendDirectMessageToTelegramUser } from '../integrations/telegram-rest.js';
-import { OrderRepository, type OrderSessionRecord } from '../repositories/order-repository.js';
+import { AdminRepository } from '../repositories/admin-repository.js';
+import {
+  OrderRepository,
+  type OrderSessionRecord,
+  type PaidOrderRefundReason,
+  type WebhookEventRecord,
+} from '../repositories/order-repository.js';
 import { ProductRepository } from '../repositories/product-repository.js';
 import { TenantRepository } from '../repositories/tenant-repository.js';
-import { verifyVoodooCallbackToken } from '../security/voodoo-callback-token.js';
-import { isPaidWooStatus, verifyWooWebhookSignature } from '../security/webhook-signature.js';
 import { resolveOrderSessionCustomerEmail } from '../utils/customer-email.js';
+import { DEFAULT_CURRENCY, formatCurrencyMinor, formatMinorAsMajor, majorToMinor } from '../utils/currency.js';
 import { maskAnswers } from '../utils/mask.js';
 import { formatUserReference, parsePlatformScopedId } from '../utils/platform-ids.js';
 import { enqueueWebhookTask } from '../workers/webhook-queue.js';
 import { AdminService } from './admin-service.js';
+import type { AutomaticDiscountLine } from './automatic-discounts.js';
+import { getLineTotalMinor, groupBasketLines, resolveLineQuantity } from './basket-quantity.js';
+import { CouponService } from './coupon-service.js';
+import {
+  type CryptoAmountCheckStatus,
+  evaluateCryptoPaymentAmount,
+  parseCoinAmount,
+  resolveVoodooCoinPath,
+} from './crypto-amount-check.js';
+import { DeliverableService } from './deliverable-service.js';
 import { IntegrationService } from './integration-service.js';
+import { InventoryService, type LowStockAlert } from './inventory-service.js';
+import { ManualPaymentProvider, MAX_MANUAL_PAYMENT_REFERENCE_LENGTH } from './manual-payment-provider.js';
 import { getOrderSourceLabel } from './order-source.js';
+import { buildOrderPaidEventData } from './outbound-webhook-events.js';
+import { OutboundWebhookService } from './outbound-webhook-service.js';
 import {
   buildPaidOrderFulfillmentComponents,
   buildPaidOrderFulfillmentTelegramReplyMarkup,
 } from './paid-order-service.js';
+import {
+  getPaymentProviderLabel,
+  type PaymentProvider,
+  type PaymentProviderId,
+  type PaymentState,
+  type PaymentWebhookRequest,
+  resolveProviderRefundReason,
+  type WebhookPaymentProviderId,
+} from './payment-provider.js';
 import { calculateEarnFromAppliedDiscounts } from './points-calculator.js';
 import { PointsService } from './points-service.js';
 import { type ReferralRewardResult, ReferralService } from './referral-service.js';
-
-function extractWooOrder(rawPayload: Record<string, unknown>): WooOrderPayload | null {
-  const maybeOrder = (rawPayload.order ?? rawPayload) as Partial<WooOrderPayload>;
-
-  if (!maybeOrder || typeof maybeOrder.id !== 'number' || typeof maybeOrder.status !== 'string') {
-    return null;
-  }
-
-  return {
-    id: maybeOrder.id,
-    status: maybeOrder.status,
-    number: maybeOrder.number,
-    total: maybeOrder.total,
-    currency: maybeOrder.currency,
-    meta_data: Array.isArray(maybeOrder.meta_data)
-      ? maybeOrder.meta_data.filter(
-          (item): item is { id?: number; key: string; value: string | number | boolean | null } =>
-            typeof item === 'object' &&
-            item !== null &&
-            'key' in item &&
-            typeof item.key === 'string' &&
-            'value' in item,
-        )
-      : [],
-  };
-}
-
-function findOrderSessionId(order: WooOrderPayload): string | null {
-  const record = order.meta_data?.find((meta) => meta.key === 'vd_order_session_id');
-  if (!record) {
-    return null;
-  }
-
-  if (typeof record.value === 'string') {
-    return record.value;
-  }
-
-  if (typeof record.value === 'number') {
-    return String(record.value);
-  }
-
-  return null;
-}
-
-function toMinor(total: string | undefined): number {
+import { ReceiptService } from './receipt-service.js';
+import { RefundService } from './refund-service.js';
+import { RoleGrantService } from './role-grant-service.js';
+import { StripePaymentProvider } from './stripe-payment-provider.js';
+import { SubscriptionService } from './subscription-service.js';
+import { formatLowStockAlert } from './variant-stock.js';
+import {
+  type VoodooPaymentState,
+  VoodooPayPaymentProvider,
+  toVoodooCallbackQuery,
+} from './voodoopay-payment-provider.js';
+import { WEBHOOK_LEASE_DURATION_MS, resolveWebhookFailureOutcome } from './webhook-retry-policy.js';
+import { WooCommercePaymentProvider } from './woocommerce-payment-provider.js';
+
+function toMinor(total: string | undefined, currency: string): number {
   if (!total) {
     return 0;
   }
@@ -82,7 +81,7 @@ function toMinor(total: string | undefined): number {
     return 0;
   }
 
-  return Math.round(numeric * 100);
+  return majorToMinor(numeric, currency);
 }
 
 function truncate(text: string | null, maxLength = 500): string | null {
@@ -108,150 +107,36 @@ function firstNonEmpty(query: Record<string, string>, keys: string[]): string |
   return null;
 }
 
-function hasTruthySignal(value: string | null): boolean {
-  if (!value) {
-    return false;
-  }
-
-  const normalized = value.trim().toLowerCase();
-  if (normalized === '1' || normalized === 'true' || normalized === 'yes' || normalized === 'y') {
-    return true;
-  }
-
-  const numeric = Number(normalized);
-  return Number.isFinite(numeric) && numeric > 0;
-}
-
-function hasPositiveAmount(value: string | null): boolean {
-  if (!value) {
-    return false;
+function resolveCouponReversalReason(status: string | null | undefined): 'cancelled' | 'refunded' | null {
+  const normalized = status?.trim().toLowerCase() ?? '';
+  if (resolveProviderRefundReason(normalized)) {
+    return 'refunded';
   }
-
-  const numeric = Number(value.trim());
-  return Number.isFinite(numeric) && numeric > 0;
-}
-
-function normalizeStatus(value: string | null): string | null {
-  if (!value) {
-    return null;
+  if (normalized === 'cancelled' || normalized === 'canceled') {
+    return 'cancelled';
   }
 
-  const normalized = value.trim().toLowerCase();
-  return normalized.length > 0 ? normalized : null;
+  return null;
 }
 
-const VOODOO_PAID_STATUSES = new Set([
-  'paid',
-  'complete',
-  'completed',
-  'confirmed',
-  'success',
-  'successful',
-  'done',
-  'finished',
-  'ok',
-]);
-
-const VOODOO_FAILED_STATUSES = new Set([
-  'failed',
-  'error',
-  'cancelled',
-  'canceled',
-  'expired',
-  'rejected',
-  'invalid',
-  'refunded',
-]);
-
-const VOODOO_UNPAID_STATUSES = new Set([
-  'unpaid',
-  'pending',
-  'waiting',
-  'awaiting',
-  'processing',
-  ...VOODOO_FAILED_STATUSES,
-]);
-
-type VoodooPaymentState = {
-  paid: boolean;
-  status: string | null;
-  txidIn: string | null;
-  txidOut: string | null;
-  transactionId: string | null;
+type CryptoPaymentAmountCheck = {
+  status: CryptoAmountCheckStatus;
+  coin: string;
+  expectedCoinAmount: string;
+  receivedCoinAmount: string;
+  receivedMinor: number;
+  differenceMinor: number;
 };
 
-export function resolveVoodooPaymentState(query: Record<string, string>): VoodooPaymentState {
-  const txidIn = firstNonEmpty(query, ['txid_in', 'tx_in', 'incoming_txid', 'txidin']);
-  const txidOut = firstNonEmpty(query, ['txid_out', 'tx_out', 'outgoing_txid', 'txidout']);
-  const transactionId = firstNonEmpty(query, [
-    'txid',
-    'transaction_id',
-    'transaction_hash',
-    'hash',
-    'payment_id',
-    'payment_hash',
-  ]);
-
-  const status = normalizeStatus(firstNonEmpty(query, ['status', 'payment_status', 'state', 'result']));
-  const confirmed = hasTruthySignal(
-    firstNonEmpty(query, ['confirmed', 'is_confirmed', 'paid', 'success', 'confirmations']),
-  );
-  const positiveAmount = hasPositiveAmount(
-    firstNonEmpty(query, ['value_forwarded_coin', 'value_coin', 'amount', 'value']),
-  );
-
-  if (status && VOODOO_FAILED_STATUSES.has(status)) {
-    return {
-      paid: false,
-      status,
-      txidIn,
-      txidOut,
-      transactionId,
-    };
-  }
-
-  if (txidIn || txidOut || transactionId || confirmed || positiveAmount) {
-    return {
-      paid: true,
-      status,
-      txidIn,
-      txidOut,
-      transactionId,
-    };
-  }
-
-  if (status && VOODOO_PAID_STATUSES.has(status)) {
-    return {
-      paid: true,
-      status,
-      txidIn,
-      txidOut,
-      transactionId,
-    };
-  }
-
-  return {
-    paid: false,
-    status,
-    txidIn,
-    txidOut,
-    transactionId,
-  };
-}
-
-export function buildVoodooDeliveryId(orderSessionId: string, query: Record<string, string>): string {
-  const fingerprint = {
-    orderSessionId,
-    ipnToken: firstNonEmpty(query, ['ipn_token', 'callback_id']),
-    txidIn: firstNonEmpty(query, ['txid_in', 'tx_in', 'incoming_txid', 'txidin']),
-    txidOut: firstNonEmpty(query, ['txid_out', 'tx_out', 'outgoing_txid', 'txidout']),
-    txid: firstNonEmpty(query, ['txid', 'transaction_id', 'transaction_hash', 'hash']),
-    status: normalizeStatus(firstNonEmpty(query, ['status', 'payment_status', 'state', 'result'])),
-    value: firstNonEmpty(query, ['value_forwarded_coin', 'value_coin', 'amount', 'value']),
-  };
-
-  const hash = crypto.createHash('sha256').update(JSON.stringify(fingerprint)).digest('hex').slice(0, 60);
-  return `vp-${hash}`;
+function describeCryptoAmountCheck(check: CryptoPaymentAmountCheck, currency: string): string[] {
+  const coin = check.coin.toUpperCase();
+  const sign = check.differenceMinor < 0 ? '-' : '+';
+  return [
+    `Check: ${check.status}`,
+    `Expected: ${check.expectedCoinAmount} ${coin}`,
+    `Received: ${check.receivedCoinAmount} ${coin} (~${formatCurrencyMinor(check.receivedMinor, currency)})`,
+    `Difference: ${sign}${formatCurrencyMinor(Math.abs(check.differenceMinor), currency)}`,
+  ];
 }
 
 function fitDiscordMessage(content: string, maxLength = 1900): string {
@@ -262,41 +147,48 @@ function fitDiscordMessage(content: string, maxLength = 1900): string {
   return `${content.slice(0, maxLength - 20)}\n\n[message truncated]`;
 }
 
-function formatMinorAmount(minor: number, currency: string): string {
-  return `${(minor / 100).toFixed(2)} ${currency}`;
+type PaidOrderLine = {
+  category: string;
+  productName: string;
+  variantLabel: string;
+  priceMinor: number;
+  currency: string;
+  quantity?: number;
+};
+
+function formatBasketLine(item: PaidOrderLine): string {
+  const quantity = resolveLineQuantity(item);
+  const label = `\`${item.category} / ${item.productName} / ${item.variantLabel}\``;
+  const total = `\`${formatCurrencyMinor(getLineTotalMinor(item), item.currency)}\``;
+  if (quantity === 1) {
+    return `${label} - ${total}`;
+  }
+
+  return `${label} x${quantity} - ${total} (${formatCurrencyMinor(item.priceMinor, item.currency)} each)`;
 }
 
+/** Repeated lines for the same price option are shown once with their combined quantity. */
 function formatBasketLines(
-  basketItems: Array<{
-    category: string;
-    productName: string;
-    variantLabel: string;
-    priceMinor: number;
-    currency: string;
-  }>,
-  fallback: {
-    category: string;
-    productName: string;
-    variantLabel: string;
-    priceMinor: number;
-    currency: string;
-  },
+  basketItems: Array<PaidOrderLine & { variantId: string }>,
+  fallback: PaidOrderLine,
 ): string {
   if (basketItems.length === 0) {
-    return `- \`${fallback.category} / ${fallback.productName} / ${fallback.variantLabel}\` - \`${formatMinorAmount(
-      fallback.priceMinor,
-      fallback.currency,
-    )}\``;
+    return `- ${formatBasketLine(fallback)}`;
   }
 
-  return basketItems
-    .map(
-      (item, index) =>
-        `${index + 1}. \`${item.category} / ${item.productName} / ${item.variantLabel}\` - \`${formatMinorAmount(
-          item.priceMinor,
-          item.currency,
-        )}\``,
-    )
+  return groupBasketLines(basketItems)
+    .map((item, index) => `${index + 1}. ${formatBasketLine(item)}`)
+    .join('\n');
+}
+
+/** One line per volume price or automatic discount rule, in the order they were applied. */
+function formatAutomaticDiscountLines(discounts: AutomaticDiscountLine[], currency: string): string[] {
+  return discounts.map((discount) => `${discount.label}: -${formatCurrencyMinor(discount.amountMinor, currency)}`);
+}
+
+function formatAnswerLines(answers: Record<string, string>, fieldLabels: Record<string, string>): string {
+  return Object.entries(answers)
+    .map(([key, value]) => `- ${fieldLabels[key] ?? key}: \`${value.replace(/`/g, "'")}\``)
     .join('\n');
 }
 
@@ -307,69 +199,97 @@ export class WebhookService {
   private readonly productRepository = new ProductRepository();
   private readonly tenantRepository = new TenantRepository();
   private readonly adminService = new AdminService();
+  private readonly adminRepository = new AdminRepository();
   private readonly pointsService = new PointsService();
   private readonly referralService = new ReferralService();
+  private readonly couponService = new CouponService();
+  private readonly inventoryService = new InventoryService();
+  private readonly deliverableService = new DeliverableService();
+  private readonly roleGrantService = new RoleGrantService();
+  private readonly subscriptionService = new SubscriptionService();
+  private readonly receiptService = new ReceiptService();
+  private readonly refundService = new RefundService();
+  private readonly outboundWebhookService = new OutboundWebhookService();
+  private readonly voodooPayProvider = new VoodooPayPaymentProvider();
+  private readonly wooCommerceProvider = new WooCommercePaymentProvider();
+  private readonly stripeProvider = new StripePaymentProvider();
+  private readonly manualPaymentProvider = new ManualPaymentProvider();
+  private readonly webhookLeaseOwner = `${hostname().slice(0, 48)}:${process.pid}:${ulid()}`;
+
+  /**
+   * Converts the order total into the coin the customer paid with and compares it with what the
+   * gateway received. Only multi-coin crypto checkouts are checked; returns `null` whenever the
+   * amounts cannot be determined so the order is processed as before.
+   */
+  private async checkCryptoPaymentAmount(input: {
+    tenantId: string;
+    guildId: string;
+    query: Record<string, string>;
+    paymentState: VoodooPaymentState;
+    totalMinor: number;
+    currency: string;
+  }): Promise<CryptoPaymentAmountCheck | null> {
+    if (input.query.checkout !== 'crypto' || input.totalMinor <= 0) {
+      return null;
+    }
+
+    const coin = input.paymentState.coin?.trim().toLowerCase() ?? null;
+    const coinPath = resolveVoodooCoinPath(coin);
+    const receivedCoinAmount = parseCoinAmount(input.paymentState.valueCoin);
+    if (!coin || !coinPath || receivedCoinAmount === null) {
+      return null;
+    }
 
-  private async checkVoodooPaymentStatus(
-    ipnToken: string | null,
-  ): Promise<{ paid: boolean; status: string | null }> {
-    if (!ipnToken) {
-      return { paid: false, status: null };
+    const integration = await this.integrationService.getResolvedVoodooPayIntegrationByGuild({
+      tenantId: input.tenantId,
+      guildId: input.guildId,
+    });
+    if (integration.isErr()) {
+      logger.warn(
+        { tenantId: input.tenantId, guildId: input.guildId, errorCode: integration.error.code },
+        'skipping crypto amount check because the Voodoo Pay integration could not be loaded',
+      );
+      return null;
     }
 
     try {
-      const statusUrl = new URL('/control/payment-status.php', this.env.VOODOO_PAY_API_BASE_URL);
-      statusUrl.searchParams.set('ipn_token', ipnToken);
+      const convertUrl = new URL(`/crypto/${coinPath}/convert.php`, this.env.VOODOO_PAY_API_BASE_URL);
+      convertUrl.searchParams.set('value', formatMinorAsMajor(input.totalMinor, input.currency));
+      convertUrl.searchParams.set('from', input.currency.toLowerCase());
 
-      const response = await fetch(statusUrl.toString());
+      const response = await fetch(convertUrl.toString());
       if (!response.ok) {
-        return { paid: false, status: null };
-      }
-
-      const raw = (await response.text()).trim();
-      if (!raw) {
-        return { paid: false, status: null };
-      }
-
-      let statusCandidate: string | null = null;
-      const maybeJson = raw.startsWith('{') || raw.startsWith('[');
-
-      if (maybeJson) {
-        try {
-          const parsed = JSON.parse(raw) as Record<string, unknown> | string | null;
-          if (typeof parsed === 'string') {
-            statusCandidate = parsed;
-          } else if (parsed && typeof parsed === 'object') {
-            statusCandidate = firstNonEmpty(
-              Object.fromEntries(
-                Object.entries(parsed).map(([key, value]) => [key, String(value ?? '')]),
-              ),
-              ['status', 'payment_status', 'result', 'state'],
-            );
-          }
-        } catch {
-          statusCandidate = raw;
-        }
-      } else {
-        statusCandidate = raw;
-      }
-
-      const normalized = normalizeStatus(statusCandidate);
-      if (!normalized) {
-        return { paid: false, status: null };
+        return null;
       }
 
-      if (VOODOO_PAID_STATUSES.has(normalized)) {
-        return { paid: true, status: normalized };
+      const payload = (await response.json()) as { value_coin?: unknown };
+      const expectedCoinAmount = parseCoinAmount(
+        payload.value_coin === undefined || payload.value_coin === null ? null : String(payload.value_coin),
+      );
+      if (expectedCoinAmount === null) {
+        return null;
       }
 
-      if (VOODOO_UNPAID_STATUSES.has(normalized)) {
-        return { paid: false, status: normalized };
-      }
+      const evaluated = evaluateCryptoPaymentAmount({
+        totalMinor: input.totalMinor,
+        expectedCoinAmount,
+        receivedCoinAmount,
+        tolerancePercent: integration.value.cryptoUnderpaymentTolerancePercent,
+        reportOverpayment: !integration.value.cryptoAddFees,
+      });
 
-      return { paid: false, status: normalized };
-    } catch {
-      return { paid: false, status: null };
+      return {
+        ...evaluated,
+        coin,
+        expectedCoinAmount: String(payload.value_coin),
+        receivedCoinAmount: String(input.paymentState.valueCoin).trim(),
+      };
+    } catch (error) {
+      logger.warn(
+        { err: error, tenantId: input.tenantId, guildId: input.guildId, coin },
+        'crypto amount check failed',
+      );
+      return null;
     }
   }
 
@@ -380,189 +300,277 @@ export class WebhookService {
     topicHeader: string | null;
     deliveryIdHeader: string | null;
   }): Promise<Result<{ status: 'accepted' | 'duplicate' }, AppError>> {
-    try {
-      const integrationResult = await this.integrationService.getResolvedWooIntegrationByWebhookKey(
-        input.tenantWebhookKey,
-      );
-
-      if (integrationResult.isErr()) {
-        return err(integrationResult.error);
-      }
+    return this.acceptProviderWebhook({
+      provider: this.wooCommerceProvider,
+      request: {
+        tenantWebhookKey: input.tenantWebhookKey,
+        rawBody: input.rawBody,
+        headers: {
+          'x-wc-webhook-signature': input.signatureHeader,
+          'x-wc-webhook-topic': input.topicHeader,
+          'x-wc-webhook-delivery-id': input.deliveryIdHeader,
+        },
+        query: {},
+      },
+      invalidSignatureError: new AppError('INVALID_WEBHOOK_SIGNATURE', 'Invalid webhook signature', 401),
+    });
+  }
 
-      const integration = integrationResult.value;
-      const payload = JSON.parse(input.rawBody) as Record<string, unknown>;
-      const deliveryId = input.deliveryIdHeader ?? `missing-${Date.now()}`;
-      const topic = input.topicHeader ?? 'unknown';
+  public async handleVoodooPayCallback(input: {
+    tenantWebhookKey: string;
+    query: Record<string, string>;
+  }): Promise<Result<{ status: 'accepted' | 'duplicate' }, AppError>> {
+    return this.acceptProviderWebhook({
+      provider: this.voodooPayProvider,
+      request: {
+        tenantWebhookKey: input.tenantWebhookKey,
+        rawBody: '',
+        headers: {},
+        query: input.query,
+      },
+      invalidSignatureError: new AppError('INVALID_CALLBACK_SIGNATURE', 'Invalid callback token', 401),
+    });
+  }
 
-      const signatureValid = verifyWooWebhookSignature({
+  public async handleStripeWebhook(input: {
+    tenantWebhookKey: string;
+    rawBody: string;
+    signatureHeader: string | null;
+  }): Promise<Result<{ status: 'accepted' | 'duplicate' }, AppError>> {
+    return this.acceptProviderWebhook({
+      provider: this.stripeProvider,
+      request: {
+        tenantWebhookKey: input.tenantWebhookKey,
         rawBody: input.rawBody,
-        secret: integration.webhookSecret,
-        providedSignature: input.signatureHeader,
-      });
-
-      const created = await this.orderRepository.createWebhookEvent({
-        tenantId: integration.tenantId,
-        guildId: integration.guildId,
-        provider: 'woocommerce',
-        deliveryId,
-        topic,
-        signatureValid,
-        payload,
-      });
+        headers: {
+          'stripe-signature': input.signatureHeader,
+        },
+        query: {},
+      },
+      invalidSignatureError: new AppError('INVALID_WEBHOOK_SIGNATURE', 'Invalid webhook signature', 401),
+    });
+  }
 
-      if (!created.created) {
-        const existingStatus = await this.orderRepository.getWebhookEventStatus(created.webhookEventId);
-        if (existingStatus === 'failed') {
-          logger.warn(
-            {
-              provider: 'woocommerce',
-              tenantId: integration.tenantId,
-              guildId: integration.guildId,
-              webhookEventId: created.webhookEventId,
-            },
-            'duplicate webhook received for failed event; scheduling retry',
-          );
-          await this.orderRepository.resetWebhookForRetry(created.webhookEventId);
-          this.enqueueWooProcessing({
-            integration,
-            payload,
-            webhookEventId: created.webhookEventId,
-          });
-          return ok({ status: 'accepted' });
-        }
+  /**
+   * Confirms a manual payment (bank transfer, gift card, ...) on behalf of a staff member and runs the
+   * same paid-order pipeline as a provider webhook. The approval is written to the audit log first, so
+   * it is on record even if a later step fails.
+   */
+  public async approveManualPayment(input: {
+    tenantId: string;
+    guildId: string;
+    orderSessionId: string;
+    approvedByDiscordUserId: string;
+    /** Bank reference, gift card code or a link to the proof of payment. */
+    reference: string;
+  }): Promise<Result<{ orderSessionId: string }, AppError>> {
+    const reference = input.reference.trim();
+    if (reference.length === 0 || reference.length > MAX_MANUAL_PAYMENT_REFERENCE_LENGTH) {
+      return err(
+        new AppError(
+          'MANUAL_PAYMENT_REFERENCE_INVALID',
+          `Enter a payment reference or proof of up to ${MAX_MANUAL_PAYMENT_REFERENCE_LENGTH} characters.`,
+          422,
+        ),
+      );
+    }
 
-        return ok({ status: 'duplicate' });
+    try {
+      const enabled = await this.manualPaymentProvider.isConfigured({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+      });
+      if (enabled.isErr()) {
+        return err(enabled.error);
       }
-
-      if (!signatureValid) {
-        logger.warn(
-          {
-            provider: 'woocommerce',
-            tenantId: integration.tenantId,
-            guildId: integration.guildId,
-            deliveryId,
-            topic,
-          },
-          'woo webhook rejected: invalid signature',
+      if (!enabled.value) {
+        return err(
+          new AppError('MANUAL_PAYMENTS_DISABLED', 'Manual payments are not enabled for this server.', 409),
         );
-        await this.orderRepository.markWebhookFailed({
-          webhookEventId: created.webhookEventId,
-          failureReason: 'Invalid webhook signature',
-          attemptCount: 1,
-          nextRetryAt: null,
-        });
+      }
 
-        return err(new AppError('INVALID_WEBHOOK_SIGNATURE', 'Invalid webhook signature', 401));
+      const orderSession = await this.orderRepository.getOrderSession({
+        tenantId: input.tenantId,
+        orderSessionId: input.orderSessionId,
+      });
+      if (!orderSession || orderSession.guildId !== input.guildId) {
+        return err(new AppError('ORDER_SESSION_NOT_FOUND', 'Order session not found', 404));
+      }
+      if (orderSession.status !== 'pending_payment') {
+        return err(
+          new AppError(
+            'ORDER_SESSION_NOT_PENDING',
+            orderSession.status === 'paid'
+              ? 'This order has already been paid.'
+              : 'This order was cancelled or expired. Start a new sale instead.',
+            409,
+          ),
+        );
       }
 
-      this.enqueueWooProcessing({
-        integration,
-        payload,
-        webhookEventId: created.webhookEventId,
+      const config = await this.tenantRepository.getGuildConfig({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
       });
 
-      return ok({ status: 'accepted' });
+      await this.adminRepository.appendAuditLog({
+        tenantId: input.tenantId,
+        userId: null,
+        actorDiscordUserId: input.approvedByDiscordUserId,
+        action: 'order.manual_payment.approve',
+        resourceType: 'order_session',
+        resourceId: orderSession.id,
+        correlationId: ulid(),
+        metadata: {
+          guildId: input.guildId,
+          reference,
+          totalMinor: orderSession.totalMinor,
+        },
+      });
+
+      await this.completePaidOrder({
+        provider: 'manual',
+        webhookEventId: null,
+        orderSession,
+        fallbackCurrency: orderSession.basketItems[0]?.currency ?? config?.defaultCurrency ?? DEFAULT_CURRENCY,
+        resolveProviderTotalMinor: () => orderSession.totalMinor,
+        providerOrderId: orderSession.id,
+        status: 'paid',
+        paymentReference: reference,
+        paymentLines: [
+          `Approved By: ${formatUserReference(input.approvedByDiscordUserId)}`,
+          `Reference: \`${reference.replace(/`/g, "'")}\``,
+        ],
+      });
+
+      logger.info(
+        {
+          provider: 'manual',
+          tenantId: input.tenantId,
+          guildId: input.guildId,
+          orderSessionId: orderSession.id,
+          approvedByDiscordUserId: input.approvedByDiscordUserId,
+        },
+        'manual payment approved',
+      );
+
+      return ok({ orderSessionId: orderSession.id });
     } catch (error) {
       return err(fromUnknownError(error));
     }
   }
 
-  public async handleVoodooPayCallback(input: {
-    tenantWebhookKey: string;
-    query: Record<string, string>;
+  /**
+   * Verifies an inbound provider webhook, stores it and queues processing. A repeat delivery of a failed
+   * or dead-lettered event is queued again, and a bad signature is stored as failed and rejected. A
+   * genuine delivery replaces a copy that was stored with a bad signature, so a forged request that took
+   * the delivery id first cannot block the real one.
+   */
+  private async acceptProviderWebhook(input: {
+    provider: PaymentProvider & { readonly id: WebhookPaymentProviderId };
+    request: PaymentWebhookRequest;
+    invalidSignatureError: AppError;
   }): Promise<Result<{ status: 'accepted' | 'duplicate' }, AppError>> {
     try {
-      const integrationResult = await this.integrationService.getResolvedVoodooPayIntegrationByWebhookKey(
-        input.tenantWebhookKey,
-      );
-      if (integrationResult.isErr()) {
-        return err(integrationResult.error);
-      }
-
-      const integration = integrationResult.value;
-      const orderSessionId = input.query.order_session_id;
-      if (!orderSessionId) {
-        return err(new AppError('MISSING_ORDER_SESSION_ID', 'Missing order_session_id in callback', 400));
+      const verified = await input.provider.verifyWebhook(input.request);
+      if (verified.isErr()) {
+        return err(verified.error);
       }
 
-      const signatureValid = verifyVoodooCallbackToken({
-        payload: {
-          tenantId: integration.tenantId,
-          guildId: integration.guildId,
-          orderSessionId,
-        },
-        secret: integration.callbackSecret,
-        providedToken: input.query.cb_token,
-      });
-
-      const deliveryId = buildVoodooDeliveryId(orderSessionId, input.query);
-
+      const webhook = verified.value;
       const created = await this.orderRepository.createWebhookEvent({
-        tenantId: integration.tenantId,
-        guildId: integration.guildId,
-        provider: 'voodoopay',
-        deliveryId,
-        topic: 'callback',
-        signatureValid,
-        payload: input.query,
+        tenantId: webhook.tenantId,
+        guildId: webhook.guildId,
+        provider: input.provider.id,
+        deliveryId: webhook.deliveryId,
+        topic: webhook.topic,
+        signatureValid: webhook.signatureValid,
+        payload: webhook.payload,
+        orderSessionId: webhook.orderSessionId,
       });
 
       if (!created.created) {
-        const existingStatus = await this.orderRepository.getWebhookEventStatus(created.webhookEventId);
-        if (existingStatus === 'failed') {
+        if (!webhook.signatureValid) {
           logger.warn(
             {
-              provider: 'voodoopay',
-              tenantId: integration.tenantId,
-              guildId: integration.guildId,
+              provider: input.provider.id,
+              tenantId: webhook.tenantId,
+              guildId: webhook.guildId,
               webhookEventId: created.webhookEventId,
-              orderSessionId,
             },
-            'duplicate callback received for failed event; scheduling retry',
+            'duplicate provider webhook rejected: invalid signature',
           );
-          await this.orderRepository.resetWebhookForRetry(created.webhookEventId);
-          this.enqueueVoodooProcessing({
-            tenantId: integration.tenantId,
-            guildId: integration.guildId,
-            orderSessionId,
-            query: input.query,
+          return err(input.invalidSignatureError);
+        }
+
+        const existing = await this.orderRepository.getWebhookEventState(created.webhookEventId);
+        if (existing?.signatureValid === false) {
+          const replaced = await this.orderRepository.replaceUnsignedWebhookEvent({
             webhookEventId: created.webhookEventId,
+            guildId: webhook.guildId,
+            topic: webhook.topic,
+            payload: webhook.payload,
+            orderSessionId: webhook.orderSessionId,
           });
+          if (replaced) {
+            logger.warn(
+              {
+                provider: input.provider.id,
+                tenantId: webhook.tenantId,
+                guildId: webhook.guildId,
+                webhookEventId: created.webhookEventId,
+              },
+              'signed webhook replaced a copy stored with an invalid signature',
+            );
+            this.enqueueWebhookEvent(created.webhookEventId);
+            return ok({ status: 'accepted' });
+          }
+
+          return ok({ status: 'duplicate' });
+        }
+
+        const existingStatus = existing?.status ?? null;
+        if (existingStatus === 'failed' || existingStatus === 'dead_letter') {
+          logger.warn(
+            {
+              provider: input.provider.id,
+              tenantId: webhook.tenantId,
+              guildId: webhook.guildId,
+              webhookEventId: created.webhookEventId,
+              previousStatus: existingStatus,
+            },
+            'duplicate webhook received for failed event; scheduling retry',
+          );
+          await this.orderRepository.resetWebhookForRetry(created.webhookEventId);
+          this.enqueueWebhookEvent(created.webhookEventId);
           return ok({ status: 'accepted' });
         }
 
         return ok({ status: 'duplicate' });
       }
 
-      if (!signatureValid) {
+      if (!webhook.signatureValid) {
         logger.warn(
           {
-            provider: 'voodoopay',
-            tenantId: integration.tenantId,
-            guildId: integration.guildId,
-            orderSessionId,
-            deliveryId,
-            queryKeys: Object.keys(input.query),
+            provider: input.provider.id,
+            tenantId: webhook.tenantId,
+            guildId: webhook.guildId,
+            deliveryId: webhook.deliveryId,
+            topic: webhook.topic,
           },
-          'voodoo callback rejected: invalid callback token',
+          'provider webhook rejected: invalid signature',
         );
         await this.orderRepository.markWebhookFailed({
           webhookEventId: created.webhookEventId,
-          failureReason: 'Invalid callback token',
+          failureReason: input.invalidSignatureError.message,
           attemptCount: 1,
           nextRetryAt: null,
         });
 
-        return err(new AppError('INVALID_CALLBACK_SIGNATURE', 'Invalid callback token', 401));
+        return err(input.invalidSignatureError);
       }
 
-      this.enqueueVoodooProcessing({
-        tenantId: integration.tenantId,
-        guildId: integration.guildId,
-        orderSessionId,
-        query: input.query,
-        webhookEventId: created.webhookEventId,
-      });
+      this.enqueueWebhookEvent(created.webhookEventId);
 
       return ok({ status: 'accepted' });
     } catch (error) {
@@ -570,137 +578,141 @@ export class WebhookService {
     }
   }
 
-  private enqueueWooProcessing(input: {
-    integration: {
-      tenantId: string;
-      guildId: string;
-      wpBaseUrl: string;
-      consumerKey: string;
-      consumerSecret: string;
-    };
-    payload: Record<string, unknown>;
-    webhookEventId: string;
-  }): void {
+  /** The first attempt runs in this process right away; anything it leaves unfinished is picked up by the retry worker. */
+  private enqueueWebhookEvent(webhookEventId: string): void {
     void enqueueWebhookTask(async () => {
-      await pRetry(
-        async () => {
-          await this.processWooPaidEvent({
-            integration: input.integration,
-            payload: input.payload,
-            webhookEventId: input.webhookEventId,
-          });
-        },
-        {
-          retries: 3,
-          minTimeout: 1_000,
-          factor: 2,
-          onFailedAttempt: async (error) => {
-            const failureReason =
-              error.error instanceof Error ? error.error.message : 'Webhook retry failure';
-            const nextRetryAt = new Date(Date.now() + error.attemptNumber * 1000);
-            logger.warn(
-              {
-                provider: 'woocommerce',
-                webhookEventId: input.webhookEventId,
-                attemptNumber: error.attemptNumber,
-                retriesLeft: error.retriesLeft,
-                failureReason,
-              },
-              'webhook processing retry scheduled',
-            );
-            await this.orderRepository.markWebhookFailed({
-              webhookEventId: input.webhookEventId,
-              failureReason,
-              attemptCount: error.attemptNumber,
-              nextRetryAt,
-            });
-          },
-        },
-      ).catch(async (error) => {
-        const failureReason =
-          error instanceof Error ? error.message : 'Unknown webhook processing failure';
-        logger.error(
-          {
-            provider: 'woocommerce',
-            webhookEventId: input.webhookEventId,
-            failureReason,
-          },
-          'webhook processing failed permanently',
-        );
-        await this.orderRepository.markWebhookFailed({
-          webhookEventId: input.webhookEventId,
-          failureReason,
-          attemptCount: 4,
-          nextRetryAt: null,
-        });
-      });
+      const result = await this.runWebhookEvent(webhookEventId, 'delivery');
+      if (result.isErr()) {
+        logger.error({ err: result.error, webhookEventId }, 'webhook processing could not be started');
+      }
     });
   }
 
-  private enqueueVoodooProcessing(input: {
-    tenantId: string;
-    guildId: string;
-    orderSessionId: string;
-    query: Record<string, string>;
-    webhookEventId: string;
-  }): void {
-    void enqueueWebhookTask(async () => {
-      await pRetry(
-        async () => {
-          await this.processVoodooPayPaidEvent({
-            tenantId: input.tenantId,
-            guildId: input.guildId,
-            orderSessionId: input.orderSessionId,
-            query: input.query,
-            webhookEventId: input.webhookEventId,
-          });
-        },
-        {
-          retries: 3,
-          minTimeout: 1_000,
-          factor: 2,
-          onFailedAttempt: async (error) => {
-            const failureReason =
-              error.error instanceof Error ? error.error.message : 'Webhook retry failure';
-            const nextRetryAt = new Date(Date.now() + error.attemptNumber * 1000);
-            logger.warn(
-              {
-                provider: 'voodoopay',
-                webhookEventId: input.webhookEventId,
-                orderSessionId: input.orderSessionId,
-                attemptNumber: error.attemptNumber,
-                retriesLeft: error.retriesLeft,
-                failureReason,
-              },
-              'webhook processing retry scheduled',
-            );
-            await this.orderRepository.markWebhookFailed({
-              webhookEventId: input.webhookEventId,
-              failureReason,
-              attemptCount: error.attemptNumber,
-              nextRetryAt,
-            });
-          },
-        },
-      ).catch(async (error) => {
-        const failureReason =
-          error instanceof Error ? error.message : 'Unknown webhook processing failure';
-        logger.error(
-          {
-            provider: 'voodoopay',
-            webhookEventId: input.webhookEventId,
-            orderSessionId: input.orderSessionId,
+  /**
+   * Claims a stored webhook event and runs one processing attempt. A failure schedules the next attempt
+   * with exponential backoff, or dead-letters the event once it is out of attempts. Returns `skipped`
+   * when the event is already finished or another instance holds its lease.
+   */
+  public async runWebhookEvent(
+    webhookEventId: string,
+    trigger: WebhookAttemptTrigger,
+  ): Promise<Result<{ status: 'processed' | 'failed' | 'dead_letter' | 'skipped' }, AppError>> {
+    try {
+      const now = new Date();
+      const event = await this.orderRepository.claimWebhookEvent({
+        webhookEventId,
+        leaseOwner: this.webhookLeaseOwner,
+        leaseExpiresAt: new Date(now.getTime() + WEBHOOK_LEASE_DURATION_MS),
+        now,
+      });
+      if (!event) {
+        return ok({ status: 'skipped' });
+      }
+
+      try {
+        await this.processStoredWebhookEvent(event);
+        await this.recordWebhookAttempt({ event, trigger, outcome: 'processed', failureReason: null });
+        return ok({ status: 'processed' });
+      } catch (error) {
+        const failureReason = error instanceof Error ? error.message : 'Unknown webhook processing failure';
+        const outcome = resolveWebhookFailureOutcome({ attemptCount: event.attemptCount, now: new Date() });
+        const logContext = {
+          provider: event.provider,
+          tenantId: event.tenantId,
+          guildId: event.guildId,
+          webhookEventId: event.id,
+          attemptCount: event.attemptCount,
+          failureReason,
+        };
+
+        if (outcome.status === 'dead_letter') {
+          logger.error(logContext, 'webhook processing failed permanently; moved to dead letter');
+          await this.orderRepository.markWebhookDeadLetter({
+            webhookEventId: event.id,
             failureReason,
-          },
-          'webhook processing failed permanently',
-        );
+            attemptCount: event.attemptCount,
+          });
+          await this.recordWebhookAttempt({ event, trigger, outcome: 'dead_letter', failureReason });
+          return ok({ status: 'dead_letter' });
+        }
+
+        logger.warn({ ...logContext, nextRetryAt: outcome.nextRetryAt }, 'webhook processing retry scheduled');
         await this.orderRepository.markWebhookFailed({
-          webhookEventId: input.webhookEventId,
+          webhookEventId: event.id,
           failureReason,
-          attemptCount: 4,
-          nextRetryAt: null,
+          attemptCount: event.attemptCount,
+          nextRetryAt: outcome.nextRetryAt,
         });
+        await this.recordWebhookAttempt({ event, trigger, outcome: 'failed', failureReason });
+        return ok({ status: 'failed' });
+      }
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  private async recordWebhookAttempt(input: {
+    event: WebhookEventRecord;
+    trigger: WebhookAttemptTrigger;
+    outcome: 'processed' | 'failed' | 'dead_letter';
+    failureReason: string | null;
+  }): Promise<void> {
+    await this.orderRepository.appendWebhookAttempt({
+      webhookEventId: input.event.id,
+      entry: {
+        attempt: input.event.attemptCount,
+        trigger: input.trigger,
+        outcome: input.outcome,
+        failureReason: input.failureReason,
+        at: new Date().toISOString(),
+      },
+    });
+  }
+
+  /** Re-runs a provider webhook from its stored payload, so retries do not depend on the original request. */
+  private async processStoredWebhookEvent(event: WebhookEventRecord): Promise<void> {
+    if (!event.signatureValid) {
+      throw new AbortError('Webhook event was stored with an invalid signature');
+    }
+
+    if (!event.guildId) {
+      throw new AbortError('Webhook event is not linked to a server');
+    }
+
+    if (event.provider === 'woocommerce') {
+      const integration = await this.integrationService.getResolvedWooIntegrationByGuild({
+        tenantId: event.tenantId,
+        guildId: event.guildId,
+      });
+      if (integration.isErr()) {
+        throw new AbortError(integration.error.message);
+      }
+
+      await this.processWooPaidEvent({
+        integration: integration.value,
+        payload: event.payload,
+        webhookEventId: event.id,
+      });
+      return;
+    }
+
+    if (event.provider === 'voodoopay') {
+      const query = toVoodooCallbackQuery(event.payload);
+      await this.processVoodooPayPaidEvent({
+        tenantId: event.tenantId,
+        guildId: event.guildId,
+        orderSessionId: query.order_session_id ?? '',
+        query,
+        webhookEventId: event.id,
       });
+      return;
+    }
+
+    await this.processStripeEvent({
+      tenantId: event.tenantId,
+      guildId: event.guildId,
+      payload: event.payload,
+      webhookEventId: event.id,
     });
   }
 
@@ -715,244 +727,163 @@ export class WebhookService {
     payload: Record<string, unknown>;
     webhookEventId: string;
   }): Promise<void> {
-    const order = extractWooOrder(input.payload);
-    if (!order) {
-      throw new AbortError('Webhook payload does not contain a valid Woo order');
-    }
-
-    if (!isPaidWooStatus(order.status)) {
-      await this.orderRepository.markWebhookProcessed(input.webhookEventId);
-      return;
-    }
-
-    const orderSessionId = findOrderSessionId(order);
-    if (!orderSessionId) {
-      throw new AbortError('Missing vd_order_session_id in Woo order meta');
-    }
-
-    const orderSession = await this.orderRepository.getOrderSession({
+    const state = await this.wooCommerceProvider.resolvePaymentState({
       tenantId: input.integration.tenantId,
-      orderSessionId,
-    });
-
-    if (!orderSession) {
-      throw new AbortError('Order session not found for webhook');
-    }
-
-    const product = await this.productRepository.getById({
-      tenantId: orderSession.tenantId,
-      guildId: orderSession.guildId,
-      productId: orderSession.productId,
+      guildId: input.integration.guildId,
+      payload: input.payload,
     });
-
-    if (!product) {
-      throw new AbortError('Product not found for paid order');
+    if (state.isErr()) {
+      throw new AbortError(state.error.message);
     }
 
-    const variant = product.variants.find((item) => item.id === orderSession.variantId);
-    if (!variant) {
-      throw new AbortError('Variant not found for paid order');
-    }
-
-    const basketItems = orderSession.basketItems;
-    const paidCurrency = basketItems[0]?.currency ?? variant.currency ?? order.currency ?? 'USD';
-    const totalMinor =
-      orderSession.totalMinor > 0
-        ? orderSession.totalMinor
-        : variant.priceMinor > 0
-          ? variant.priceMinor
-          : toMinor(order.total);
-    const subtotalMinor = orderSession.subtotalMinor > 0 ? orderSession.subtotalMinor : totalMinor;
-    const basketContent = formatBasketLines(basketItems, {
-      category: product.category,
-      productName: product.name,
-      variantLabel: variant.label,
-      priceMinor: variant.priceMinor,
-      currency: variant.currency,
-    });
-    const couponLine =
-      orderSession.couponCode && orderSession.couponDiscountMinor > 0
-        ? `Coupon (${orderSession.couponCode}): -${formatMinorAmount(
-            orderSession.couponDiscountMinor,
-            paidCurrency,
-          )}`
-        : 'Coupon: (none)';
-    const tipLine =
-      orderSession.tipMinor > 0
-        ? `Tip Added: +\`${formatMinorAmount(orderSession.tipMinor, paidCurrency)}\``
-        : 'Tip Added: (none)';
-
-    const paidOrder = await this.orderRepository.createPaidOrder({
-      tenantId: orderSession.tenantId,
-      guildId: orderSession.guildId,
-      orderSessionId: orderSession.id,
-      providerOrderId: String(order.id),
-      status: order.status,
-      priceMinor: totalMinor,
-      currency: paidCurrency,
-      paymentReference: order.number ?? null,
-    });
+    const wooOrderId = state.value.providerOrderId ?? '';
+    await this.processProviderPaymentState({
+      provider: 'woocommerce',
+      tenantId: input.integration.tenantId,
+      state: state.value,
+      webhookEventId: input.webhookEventId,
+      paymentLines: [`Woo Order: ${wooOrderId}`],
+      loadOrderNotes: async (orderSession) => {
+        const notes = await this.fetchWooNotes({
+          wpBaseUrl: input.integration.wpBaseUrl,
+          consumerKey: input.integration.consumerKey,
+          consumerSecret: input.integration.consumerSecret,
+          wooOrderId,
+        });
 
-    if (!paidOrder.created) {
-      logger.info(
-        {
-          provider: 'woocommerce',
+        await this.orderRepository.cacheOrderNotes({
           tenantId: orderSession.tenantId,
           guildId: orderSession.guildId,
           orderSessionId: orderSession.id,
-          webhookEventId: input.webhookEventId,
-        },
-        'paid order record already existed; continuing webhook recovery flow',
-      );
-    }
+          wooOrderId,
+          latestInternalNote: truncate(notes.latestInternal),
+          latestCustomerNote: truncate(notes.latestCustomer),
+        });
 
-    await this.orderRepository.markOrderSessionPaid({
-      tenantId: orderSession.tenantId,
-      orderSessionId: orderSession.id,
+        return [
+          '**Order Notes**',
+          `Internal: ${truncate(notes.latestInternal, 240) ?? '(none)'}`,
+          `Customer: ${truncate(notes.latestCustomer, 240) ?? '(none)'}`,
+        ];
+      },
     });
+  }
 
-    const config = await this.tenantRepository.getGuildConfig({
-      tenantId: orderSession.tenantId,
-      guildId: orderSession.guildId,
-    });
+  private async processStripeEvent(input: {
+    tenantId: string;
+    guildId: string;
+    payload: Record<string, unknown>;
+    webhookEventId: string;
+  }): Promise<void> {
+    const state = await this.stripeProvider.resolvePaymentState(input);
+    if (state.isErr()) {
+      throw new AbortError(state.error.message);
+    }
 
-    const finalized = await this.finalizePointsForPaidOrder({
-      provider: 'woocommerce',
+    await this.processProviderPaymentState({
+      provider: 'stripe',
+      tenantId: input.tenantId,
+      state: state.value,
       webhookEventId: input.webhookEventId,
-      orderSession,
-      referralThankYouTemplate: config?.referralThankYouTemplate ?? null,
-    });
-    const updatedPointsBalance = finalized.updatedPointsBalance;
-
-    const notes = await this.fetchWooNotes({
-      wpBaseUrl: input.integration.wpBaseUrl,
-      consumerKey: input.integration.consumerKey,
-      consumerSecret: input.integration.consumerSecret,
-      wooOrderId: order.id,
-    });
-
-    await this.orderRepository.cacheOrderNotes({
-      tenantId: orderSession.tenantId,
-      guildId: orderSession.guildId,
-      orderSessionId: orderSession.id,
-      wooOrderId: String(order.id),
-      latestInternalNote: truncate(notes.latestInternal),
-      latestCustomerNote: truncate(notes.latestCustomer),
+      paymentLines: [
+        `Checkout Session: ${state.value.providerOrderId ?? '(unknown)'}`,
+        `Payment Intent: ${state.value.paymentReference ?? '(none)'}`,
+      ],
     });
+  }
 
-    const sensitiveKeys = await this.productRepository.getSensitiveFieldKeys(orderSession.productId);
-    const maskedAnswers = maskAnswers(orderSession.answers, sensitiveKeys);
-    const answersContent = Object.entries(maskedAnswers)
-      .map(([key, value]) => `- ${key}: \`${value.replace(/`/g, "'")}\``)
-      .join('\n');
+  /**
+   * Applies a provider's payment state to its order session. Unpaid states record refunds and reverse
+   * coupons without ever completing the order, a paid order with refunds records the partial refund,
+   * and anything else completes it.
+   */
+  private async processProviderPaymentState(input: {
+    provider: PaymentProviderId;
+    tenantId: string;
+    state: PaymentState;
+    webhookEventId: string;
+    paymentLines: string[];
+    loadOrderNotes?: (orderSession: OrderSessionRecord) => Promise<string[]>;
+  }): Promise<void> {
+    const { state } = input;
+    if (!state.paid) {
+      if (state.orderSessionId && state.refundReason) {
+        const recorded = await this.recordProviderRefund({
+          provider: input.provider,
+          tenantId: input.tenantId,
+          orderSessionId: state.orderSessionId,
+          reason: state.refundReason,
+          refundedMinor: state.status === 'partially_refunded' ? state.refundedMinor : null,
+          webhookEventId: input.webhookEventId,
+        });
+        if (!recorded) {
+          logger.info(
+            {
+              provider: input.provider,
+              tenantId: input.tenantId,
+              orderSessionId: state.orderSessionId,
+              webhookEventId: input.webhookEventId,
+              paymentStatus: state.status,
+            },
+            'refund webhook had no paid order change to record',
+          );
+        }
+      }
+      if (state.orderSessionId) {
+        await this.reverseCouponRedemption({
+          provider: input.provider,
+          tenantId: input.tenantId,
+          orderSessionId: state.orderSessionId,
+          status: state.status,
+          webhookEventId: input.webhookEventId,
+        });
+      }
 
-    const botTokensResult = await this.getBotTokenCandidates();
-    if (botTokensResult.isErr()) {
-      throw new AbortError(botTokensResult.error.message);
+      await this.orderRepository.markWebhookProcessed(input.webhookEventId);
+      return;
     }
 
-    const message = [
-      '**Order Paid**',
-      `Provider: WooCommerce`,
-      `Source: ${getOrderSourceLabel(orderSession.ticketChannelId)}`,
-      `Order Session: \`${orderSession.id}\``,
-      `Woo Order: ${order.id}`,
-      '',
-      '**Order Details**',
-      `Subtotal: ${formatMinorAmount(subtotalMinor, paidCurrency)}`,
-      couponLine,
-      tipLine,
-      `Total: ${formatMinorAmount(totalMinor, paidCurrency)}`,
-      '',
-      '**Basket**',
-      basketContent,
-      '',
-      '**Answers**',
-      answersContent || '- (none)',
-      '',
-      '**Order Notes**',
-      `Internal: ${truncate(notes.latestInternal, 240) ?? '(none)'}`,
-      `Customer: ${truncate(notes.latestCustomer, 240) ?? '(none)'}`,
-      '',
-      '**Referral**',
-      this.describeReferralOutcome(finalized.referralResult),
-    ].join('\n');
+    if (!state.orderSessionId) {
+      throw new AbortError(`Missing order session id in ${getPaymentProviderLabel(input.provider)} payment`);
+    }
 
-    if (parsePlatformScopedId(orderSession.ticketChannelId).platform === 'telegram') {
-      if (config?.paidLogChannelId) {
-        await this.postPaidLogMessage({
-          botTokens: botTokensResult.value,
-          preferredChannelId: config.paidLogChannelId,
-          fallbackChannelId: config.paidLogChannelId,
-          content: message,
-          components: buildPaidOrderFulfillmentComponents({
-            paidOrderId: paidOrder.paidOrderId,
-            fulfillmentStatus: 'needs_action',
-          }),
-          telegramReplyMarkup: buildPaidOrderFulfillmentTelegramReplyMarkup({
-            paidOrderId: paidOrder.paidOrderId,
-            fulfillmentStatus: 'needs_action',
-          }),
-        });
-      } else {
-        logger.warn(
-          {
-            provider: 'woocommerce',
-            tenantId: orderSession.tenantId,
-            guildId: orderSession.guildId,
-            orderSessionId: orderSession.id,
-            webhookEventId: input.webhookEventId,
-          },
-          'skipping Telegram paid log because no Discord paid-log channel is configured',
-        );
-      }
-    } else {
-      await this.postPaidLogMessage({
-        botTokens: botTokensResult.value,
-        preferredChannelId: config?.paidLogChannelId ?? null,
-        fallbackChannelId: orderSession.ticketChannelId,
-        content: message,
-        components: buildPaidOrderFulfillmentComponents({
-          paidOrderId: paidOrder.paidOrderId,
-          fulfillmentStatus: 'needs_action',
-        }),
-        telegramReplyMarkup: buildPaidOrderFulfillmentTelegramReplyMarkup({
-          paidOrderId: paidOrder.paidOrderId,
-          fulfillmentStatus: 'needs_action',
-        }),
+    // A partial refund leaves the provider order paid with a growing refunded total.
+    if (state.refundedMinor > 0) {
+      const partialRefund = await this.recordProviderRefund({
+        provider: input.provider,
+        tenantId: input.tenantId,
+        orderSessionId: state.orderSessionId,
+        reason: state.refundReason ?? 'refund',
+        refundedMinor: state.refundedMinor,
+        webhookEventId: input.webhookEventId,
       });
+      if (partialRefund) {
+        await this.orderRepository.markWebhookProcessed(input.webhookEventId);
+        return;
+      }
     }
-    await this.postTicketPaidConfirmation({
-      botTokens: botTokensResult.value,
-      ticketChannelId: orderSession.ticketChannelId,
-      customerDiscordId: orderSession.customerDiscordId,
-      orderSessionId: orderSession.id,
-      productName: product.name,
-      variantLabel: variant.label,
-      currency: paidCurrency,
-      priceMinor: totalMinor,
-      updatedPointsBalance,
-    });
-    await this.postReferralOutcome({
-      provider: 'woocommerce',
-      botTokens: botTokensResult.value,
-      referralLogChannelId: config?.referralLogChannelId ?? null,
-      referralResult: finalized.referralResult,
-      orderSessionId: orderSession.id,
+
+    const orderSession = await this.orderRepository.getOrderSession({
+      tenantId: input.tenantId,
+      orderSessionId: state.orderSessionId,
     });
 
-    logger.info(
-      {
-        provider: 'woocommerce',
-        tenantId: orderSession.tenantId,
-        guildId: orderSession.guildId,
-        orderSessionId: orderSession.id,
-        webhookEventId: input.webhookEventId,
-        paidLogChannelId: config?.paidLogChannelId ?? null,
-        fallbackChannelId: orderSession.ticketChannelId,
-      },
-      'paid log posted',
-    );
+    if (!orderSession) {
+      throw new AbortError('Order session not found for webhook');
+    }
+
+    await this.completePaidOrder({
+      provider: input.provider,
+      webhookEventId: input.webhookEventId,
+      orderSession,
+      fallbackCurrency: state.currency ?? 'USD',
+      resolveProviderTotalMinor: () => state.amountMinor ?? 0,
+      providerOrderId: state.providerOrderId ?? orderSession.id,
+      status: state.status ?? 'paid',
+      paymentReference: state.paymentReference,
+      paymentLines: input.paymentLines,
+      loadOrderNotes: input.loadOrderNotes,
+    });
 
     await this.orderRepository.markWebhookProcessed(input.webhookEventId);
   }
@@ -961,36 +892,43 @@ export class WebhookService {
     tenantId: string;
     guildId: string;
     orderSessionId: string;
-    query: Record<string, string>;
-    webhookEventId: string;
-  }): Promise<void> {
-    let paymentState = resolveVoodooPaymentState(input.query);
-    if (!paymentState.paid) {
-      const ipnToken = firstNonEmpty(input.query, ['ipn_token', 'callback_id']);
-      const polledStatus = await this.checkVoodooPaymentStatus(ipnToken);
-      if (polledStatus.paid) {
-        paymentState = {
-          ...paymentState,
-          paid: true,
-          status: polledStatus.status ?? paymentState.status ?? 'paid',
-        };
-      } else {
-        logger.info(
-          {
-            provider: 'voodoopay',
-            tenantId: input.tenantId,
-            guildId: input.guildId,
-            orderSessionId: input.orderSessionId,
-            webhookEventId: input.webhookEventId,
-            callbackStatus: paymentState.status,
-            polledStatus: polledStatus.status,
-            queryKeys: Object.keys(input.query),
-          },
-          'voodoo callback received but payment is not settled',
-        );
-        await this.orderRepository.markWebhookProcessed(input.webhookEventId);
-        return;
+    query: Record<string, string>;
+    webhookEventId: string;
+  }): Promise<void> {
+    const paymentState = await this.voodooPayProvider.resolveCallbackState(input.query);
+    if (!paymentState.paid) {
+      logger.info(
+        {
+          provider: 'voodoopay',
+          tenantId: input.tenantId,
+          guildId: input.guildId,
+          orderSessionId: input.orderSessionId,
+          webhookEventId: input.webhookEventId,
+          paymentStatus: paymentState.status,
+          queryKeys: Object.keys(input.query),
+        },
+        'voodoo callback received but payment is not settled',
+      );
+      const refundReason = resolveProviderRefundReason(paymentState.status);
+      if (refundReason) {
+        await this.recordProviderRefund({
+          provider: 'voodoopay',
+          tenantId: input.tenantId,
+          orderSessionId: input.orderSessionId,
+          reason: refundReason,
+          refundedMinor: null,
+          webhookEventId: input.webhookEventId,
+        });
       }
+      await this.reverseCouponRedemption({
+        provider: 'voodoopay',
+        tenantId: input.tenantId,
+        orderSessionId: input.orderSessionId,
+        status: paymentState.status,
+        webhookEventId: input.webhookEventId,
+      });
+      await this.orderRepository.markWebhookProcessed(input.webhookEventId);
+      return;
     }
 
     const orderSession = await this.orderRepository.getOrderSession({
@@ -1002,75 +940,124 @@ export class WebhookService {
       throw new AbortError('Order session not found for callback');
     }
 
-    const product = await this.productRepository.getById({
-      tenantId: orderSession.tenantId,
-      guildId: orderSession.guildId,
-      productId: orderSession.productId,
-    });
+    const txidHash =
+      paymentState.txidIn ?? paymentState.txidOut ?? paymentState.transactionId ?? '(none)';
 
-    if (!product) {
-      throw new AbortError('Product not found for paid order');
-    }
+    await this.completePaidOrder({
+      provider: 'voodoopay',
+      webhookEventId: input.webhookEventId,
+      orderSession,
+      fallbackCurrency: input.query.currency ?? 'USD',
+      resolveProviderTotalMinor: (currency) =>
+        toMinor(input.query.value_forwarded_coin ?? input.query.value_coin ?? input.query.amount, currency),
+      providerOrderId:
+        paymentState.txidIn ??
+        paymentState.txidOut ??
+        paymentState.transactionId ??
+        firstNonEmpty(input.query, ['ipn_token', 'callback_id']) ??
+        input.orderSessionId,
+      status: paymentState.status ?? 'paid',
+      paymentReference: paymentState.txidOut ?? paymentState.txidIn ?? paymentState.transactionId ?? null,
+      paymentLines: [
+        `Status: ${paymentState.status ?? 'paid'}`,
+        `TXID Hash: \`${String(txidHash).replace(/`/g, "'")}\``,
+        `Coin: ${input.query.coin ?? '(unknown)'}`,
+        `Forwarded Value: ${input.query.value_forwarded_coin ?? input.query.value_coin ?? '(unknown)'}`,
+      ],
+      checkPaymentAmount: (amount) =>
+        this.checkCryptoPaymentAmount({
+          tenantId: orderSession.tenantId,
+          guildId: orderSession.guildId,
+          query: input.query,
+          paymentState,
+          totalMinor: amount.totalMinor,
+          currency: amount.currency,
+        }),
+    });
 
-    const variant = product.variants.find((item) => item.id === orderSession.variantId);
-    if (!variant) {
-      throw new AbortError('Variant not found for paid order');
-    }
+    await this.orderRepository.markWebhookProcessed(input.webhookEventId);
+  }
 
-    const basketItems = orderSession.basketItems;
-    const paidCurrency = basketItems[0]?.currency ?? variant.currency ?? input.query.currency ?? 'USD';
+  /**
+   * The paid-order pipeline every provider ends in: records the paid order, redeems coupons and stock,
+   * settles points and referrals, delivers, grants roles and posts the paid log and ticket confirmation.
+   * An underpaid amount check holds delivery, roles and subscriptions and alerts staff instead; the
+   * order still counts as paid for stock, coupons, points, referrals and `order.paid`. Staff settle the
+   * shortfall with the customer by hand, and marking the order fulfilled grants the held roles and
+   * subscriptions (see `PaidOrderService.markPaidOrderFulfilled`).
+   */
+  private async completePaidOrder(input: {
+    provider: PaymentProviderId;
+    /** `null` for payments confirmed by staff rather than a webhook. */
+    webhookEventId: string | null;
+    orderSession: OrderSessionRecord;
+    fallbackCurrency: string;
+    /** Used only when neither the session nor the basket snapshot carries a price. */
+    resolveProviderTotalMinor: (currency: string) => number;
+    providerOrderId: string;
+    status: string;
+    paymentReference: string | null;
+    /** Provider-specific lines shown under the paid log header. */
+    paymentLines: string[];
+    checkPaymentAmount?: (amount: { totalMinor: number; currency: string }) => Promise<CryptoPaymentAmountCheck | null>;
+    loadOrderNotes?: (orderSession: OrderSessionRecord) => Promise<string[]>;
+  }): Promise<void> {
+    const { orderSession } = input;
+    const primaryItem = await this.resolvePaidOrderPrimaryItem({
+      orderSession,
+      fallbackCurrency: input.fallbackCurrency,
+    });
+    const paidCurrency = primaryItem.currency;
     const totalMinor =
       orderSession.totalMinor > 0
         ? orderSession.totalMinor
-        : variant.priceMinor > 0
-          ? variant.priceMinor
-          : toMinor(input.query.value_forwarded_coin ?? input.query.value_coin ?? input.query.amount);
+        : primaryItem.priceMinor > 0
+          ? getLineTotalMinor(primaryItem)
+          : input.resolveProviderTotalMinor(paidCurrency);
     const subtotalMinor = orderSession.subtotalMinor > 0 ? orderSession.subtotalMinor : totalMinor;
-    const basketContent = formatBasketLines(basketItems, {
-      category: product.category,
-      productName: product.name,
-      variantLabel: variant.label,
-      priceMinor: variant.priceMinor,
-      currency: variant.currency,
-    });
+    const basketContent = formatBasketLines(orderSession.basketItems, primaryItem);
     const couponLine =
       orderSession.couponCode && orderSession.couponDiscountMinor > 0
-        ? `Coupon (${orderSession.couponCode}): -${formatMinorAmount(
+        ? `Coupon (${orderSession.couponCode}): -${formatCurrencyMinor(
             orderSession.couponDiscountMinor,
             paidCurrency,
           )}`
         : 'Coupon: (none)';
     const tipLine =
       orderSession.tipMinor > 0
-        ? `Tip Added: +\`${formatMinorAmount(orderSession.tipMinor, paidCurrency)}\``
+        ? `Tip Added: +\`${formatCurrencyMinor(orderSession.tipMinor, paidCurrency)}\``
         : 'Tip Added: (none)';
 
-    const providerOrderId =
-      paymentState.txidIn ??
-      paymentState.txidOut ??
-      paymentState.transactionId ??
-      firstNonEmpty(input.query, ['ipn_token', 'callback_id']) ??
-      input.orderSessionId;
-    const paymentReference =
-      paymentState.txidOut ?? paymentState.txidIn ?? paymentState.transactionId ?? null;
-    const txidHash =
-      paymentState.txidIn ?? paymentState.txidOut ?? paymentState.transactionId ?? '(none)';
-
     const paidOrder = await this.orderRepository.createPaidOrder({
       tenantId: orderSession.tenantId,
       guildId: orderSession.guildId,
       orderSessionId: orderSession.id,
-      providerOrderId,
-      status: paymentState.status ?? 'paid',
+      providerOrderId: input.providerOrderId,
+      status: input.status,
       priceMinor: totalMinor,
       currency: paidCurrency,
-      paymentReference,
+      paymentReference: input.paymentReference,
     });
 
+    const amountCheck = input.checkPaymentAmount
+      ? await input.checkPaymentAmount({ totalMinor, currency: paidCurrency })
+      : null;
+    if (amountCheck) {
+      await this.orderRepository.recordPaidOrderAmountCheck({
+        paidOrderId: paidOrder.paidOrderId,
+        amountCheck: amountCheck.status,
+        paymentCoin: amountCheck.coin,
+        paymentCoinAmount: amountCheck.receivedCoinAmount,
+        expectedCoinAmount: amountCheck.expectedCoinAmount,
+        receivedMinor: amountCheck.receivedMinor,
+      });
+    }
+    const underpaid = amountCheck?.status === 'underpaid';
+
     if (!paidOrder.created) {
       logger.info(
         {
-          provider: 'voodoopay',
+          provider: input.provider,
           tenantId: orderSession.tenantId,
           guildId: orderSession.guildId,
           orderSessionId: orderSession.id,
@@ -1085,54 +1072,142 @@ export class WebhookService {
       orderSessionId: orderSession.id,
     });
 
+    const couponRedemption = await this.couponService.recordRedemptionForPaidOrder({
+      orderSession,
+      paidOrderId: paidOrder.paidOrderId,
+      totalMinor,
+      currency: paidCurrency,
+    });
+    if (couponRedemption.isErr()) {
+      throw new AbortError(couponRedemption.error.message);
+    }
+
+    const stockConsumed = await this.inventoryService.consumeStockForPaidOrder({ orderSession });
+    if (stockConsumed.isErr()) {
+      throw new AbortError(stockConsumed.error.message);
+    }
+
     const config = await this.tenantRepository.getGuildConfig({
       tenantId: orderSession.tenantId,
       guildId: orderSession.guildId,
     });
 
     const finalized = await this.finalizePointsForPaidOrder({
-      provider: 'voodoopay',
+      provider: input.provider,
       webhookEventId: input.webhookEventId,
       orderSession,
+      currency: paidCurrency,
       referralThankYouTemplate: config?.referralThankYouTemplate ?? null,
     });
     const updatedPointsBalance = finalized.updatedPointsBalance;
 
-    const sensitiveKeys = await this.productRepository.getSensitiveFieldKeys(orderSession.productId);
-    const maskedAnswers = maskAnswers(orderSession.answers, sensitiveKeys);
-    const answersContent = Object.entries(maskedAnswers)
-      .map(([key, value]) => `- ${key}: \`${value.replace(/`/g, "'")}\``)
-      .join('\n');
+    // Underpaid orders stay unfulfilled until staff have settled the shortfall with the customer.
+    const delivery = underpaid
+      ? ok({
+          fulfilled: false,
+          status: 'held' as const,
+          summaryLines: ['- Held until the underpayment is resolved; mark the order fulfilled once settled'],
+        })
+      : await this.deliverableService.fulfillPaidOrder({
+          orderSession,
+          paidOrderId: paidOrder.paidOrderId,
+        });
+    if (delivery.isErr()) {
+      throw new AbortError(delivery.error.message);
+    }
+    const fulfillmentStatus = delivery.value.fulfilled ? 'fulfilled' : 'needs_action';
+
+    const orderNotes = input.loadOrderNotes ? await input.loadOrderNotes(orderSession) : [];
+
+    const answersContent = await this.formatPaidOrderAnswers(orderSession);
 
     const botTokensResult = await this.getBotTokenCandidates();
     if (botTokensResult.isErr()) {
       throw new AbortError(botTokensResult.error.message);
     }
 
+    // Roles follow the same hold as delivery while an underpayment is unresolved.
+    const roleGrants = underpaid
+      ? ok({ summaryLines: [] })
+      : await this.roleGrantService.grantRolesForPaidOrder({
+          orderSession,
+          paidOrderId: paidOrder.paidOrderId,
+          botTokens: botTokensResult.value,
+        });
+    if (roleGrants.isErr()) {
+      throw new AbortError(roleGrants.error.message);
+    }
+
+    const subscriptions = underpaid
+      ? ok({ summaryLines: [] })
+      : await this.subscriptionService.recordPaidOrder({ orderSession });
+    if (subscriptions.isErr()) {
+      throw new AbortError(subscriptions.error.message);
+    }
+
+    // Keyed by the paid order, so retries of this webhook do not notify tenant endpoints twice.
+    await this.outboundWebhookService.emitEvent({
+      tenantId: orderSession.tenantId,
+      guildId: orderSession.guildId,
+      type: 'order.paid',
+      eventKey: paidOrder.paidOrderId,
+      data: buildOrderPaidEventData({
+        orderSession,
+        paidOrderId: paidOrder.paidOrderId,
+        provider: input.provider,
+        providerOrderId: input.providerOrderId,
+        paymentReference: input.paymentReference,
+        currency: paidCurrency,
+        subtotalMinor,
+        totalMinor,
+        underpaid,
+        fulfillmentStatus,
+      }),
+    });
+    if (fulfillmentStatus === 'fulfilled') {
+      await this.outboundWebhookService.emitEvent({
+        tenantId: orderSession.tenantId,
+        guildId: orderSession.guildId,
+        type: 'order.fulfilled',
+        eventKey: paidOrder.paidOrderId,
+        data: {
+          orderSessionId: orderSession.id,
+          paidOrderId: paidOrder.paidOrderId,
+          fulfilledBy: 'automatic_delivery',
+          fulfilledByDiscordUserId: null,
+        },
+      });
+    }
+
     const message = [
-      '**Order Paid**',
-      `Provider: Voodoo Pay`,
-      `Source: ${getOrderSourceLabel(orderSession.ticketChannelId)}`,
+      underpaid ? '**Order Underpaid**' : '**Order Paid**',
+      `Provider: ${getPaymentProviderLabel(input.provider)}`,
+      `Source: ${getOrderSourceLabel(orderSession.ticketChannelId, orderSession.source)}`,
       `Order Session: \`${orderSession.id}\``,
-      `Status: ${paymentState.status ?? 'paid'}`,
-      `TXID Hash: \`${String(txidHash).replace(/`/g, "'")}\``,
-      `Coin: ${input.query.coin ?? '(unknown)'}`,
-      `Forwarded Value: ${input.query.value_forwarded_coin ?? input.query.value_coin ?? '(unknown)'}`,
+      ...input.paymentLines,
       '',
       '**Order Details**',
-      `Subtotal: ${formatMinorAmount(subtotalMinor, paidCurrency)}`,
+      `Subtotal: ${formatCurrencyMinor(subtotalMinor, paidCurrency)}`,
+      ...formatAutomaticDiscountLines(orderSession.automaticDiscounts, paidCurrency),
       couponLine,
       tipLine,
-      `Total: ${formatMinorAmount(totalMinor, paidCurrency)}`,
+      `Total: ${formatCurrencyMinor(totalMinor, paidCurrency)}`,
+      ...(amountCheck ? ['', '**Payment Amount**', ...describeCryptoAmountCheck(amountCheck, paidCurrency)] : []),
       '',
       '**Basket**',
       basketContent,
       '',
       '**Answers**',
       answersContent || '- (none)',
+      ...(orderNotes.length === 0 ? [] : ['', ...orderNotes]),
       '',
       '**Referral**',
       this.describeReferralOutcome(finalized.referralResult),
+      ...(delivery.value.status === 'not_applicable' ? [] : ['', '**Delivery**', ...delivery.value.summaryLines]),
+      ...(roleGrants.value.summaryLines.length === 0 ? [] : ['', '**Roles**', ...roleGrants.value.summaryLines]),
+      ...(subscriptions.value.summaryLines.length === 0
+        ? []
+        : ['', '**Subscription**', ...subscriptions.value.summaryLines]),
     ].join('\n');
 
     if (parsePlatformScopedId(orderSession.ticketChannelId).platform === 'telegram') {
@@ -1144,17 +1219,17 @@ export class WebhookService {
           content: message,
           components: buildPaidOrderFulfillmentComponents({
             paidOrderId: paidOrder.paidOrderId,
-            fulfillmentStatus: 'needs_action',
+            fulfillmentStatus,
           }),
           telegramReplyMarkup: buildPaidOrderFulfillmentTelegramReplyMarkup({
             paidOrderId: paidOrder.paidOrderId,
-            fulfillmentStatus: 'needs_action',
+            fulfillmentStatus,
           }),
         });
       } else {
         logger.warn(
           {
-            provider: 'voodoopay',
+            provider: input.provider,
             tenantId: orderSession.tenantId,
             guildId: orderSession.guildId,
             orderSessionId: orderSession.id,
@@ -1171,36 +1246,60 @@ export class WebhookService {
         content: message,
         components: buildPaidOrderFulfillmentComponents({
           paidOrderId: paidOrder.paidOrderId,
-          fulfillmentStatus: 'needs_action',
+          fulfillmentStatus,
         }),
         telegramReplyMarkup: buildPaidOrderFulfillmentTelegramReplyMarkup({
           paidOrderId: paidOrder.paidOrderId,
-          fulfillmentStatus: 'needs_action',
+          fulfillmentStatus,
+        }),
+      });
+    }
+    if (amountCheck && underpaid) {
+      await this.postTicketUnderpaymentAlert({
+        botTokens: botTokensResult.value,
+        ticketChannelId: orderSession.ticketChannelId,
+        customerDiscordId: orderSession.customerDiscordId,
+        staffRoleIds: config?.staffRoleIds ?? [],
+        orderSessionId: orderSession.id,
+        currency: paidCurrency,
+        totalMinor,
+        amountCheck,
+      });
+    } else {
+      await this.postTicketPaidConfirmation({
+        botTokens: botTokensResult.value,
+        ticketChannelId: orderSession.ticketChannelId,
+        customerDiscordId: orderSession.customerDiscordId,
+        orderSessionId: orderSession.id,
+        productName: primaryItem.productName,
+        variantLabel: primaryItem.variantLabel,
+        currency: paidCurrency,
+        priceMinor: totalMinor,
+        updatedPointsBalance,
+        receiptUrl: this.receiptService.buildReceiptUrl({
+          tenantId: orderSession.tenantId,
+          orderSessionId: orderSession.id,
         }),
       });
     }
-    await this.postTicketPaidConfirmation({
-      botTokens: botTokensResult.value,
-      ticketChannelId: orderSession.ticketChannelId,
-      customerDiscordId: orderSession.customerDiscordId,
-      orderSessionId: orderSession.id,
-      productName: product.name,
-      variantLabel: variant.label,
-      currency: paidCurrency,
-      priceMinor: totalMinor,
-      updatedPointsBalance,
-    });
     await this.postReferralOutcome({
-      provider: 'voodoopay',
+      provider: input.provider,
       botTokens: botTokensResult.value,
       referralLogChannelId: config?.referralLogChannelId ?? null,
       referralResult: finalized.referralResult,
       orderSessionId: orderSession.id,
     });
+    await this.postLowStockAlerts({
+      provider: input.provider,
+      botTokens: botTokensResult.value,
+      lowStockAlertChannelId: config?.lowStockAlertChannelId ?? null,
+      alerts: stockConsumed.value,
+      orderSessionId: orderSession.id,
+    });
 
     logger.info(
       {
-        provider: 'voodoopay',
+        provider: input.provider,
         tenantId: orderSession.tenantId,
         guildId: orderSession.guildId,
         orderSessionId: orderSession.id,
@@ -1210,14 +1309,200 @@ export class WebhookService {
       },
       'paid log posted',
     );
+  }
 
-    await this.orderRepository.markWebhookProcessed(input.webhookEventId);
+  /**
+   * Paid orders are described from the basket snapshot taken at checkout, so a product deleted or edited
+   * while the customer was paying cannot block the paid log. Only sessions created before basket
+   * snapshots existed fall back to the live catalog.
+   */
+  private async resolvePaidOrderPrimaryItem(input: {
+    orderSession: OrderSessionRecord;
+    fallbackCurrency: string;
+  }): Promise<PaidOrderLine> {
+    const { orderSession } = input;
+    const snapshotItem = orderSession.basketItems[0];
+    if (snapshotItem) {
+      return snapshotItem;
+    }
+
+    const product = await this.productRepository.getById({
+      tenantId: orderSession.tenantId,
+      guildId: orderSession.guildId,
+      productId: orderSession.productId,
+      includeArchived: true,
+    });
+    const variant = product?.variants.find((item) => item.id === orderSession.variantId);
+    if (product && variant) {
+      return {
+        category: product.category,
+        productName: product.name,
+        variantLabel: variant.label,
+        priceMinor: variant.priceMinor,
+        currency: variant.currency,
+      };
+    }
+
+    logger.warn(
+      {
+        tenantId: orderSession.tenantId,
+        guildId: orderSession.guildId,
+        orderSessionId: orderSession.id,
+        productId: orderSession.productId,
+        variantId: orderSession.variantId,
+      },
+      'paid order product no longer exists and the session has no basket snapshot',
+    );
+    return {
+      category: 'Unknown',
+      productName: 'Deleted product',
+      variantLabel: 'Deleted option',
+      priceMinor: orderSession.totalMinor,
+      currency: input.fallbackCurrency,
+    };
   }
 
-  private async finalizePointsForPaidOrder(input: {
-    provider: 'woocommerce' | 'voodoopay';
+  private async formatPaidOrderAnswers(orderSession: OrderSessionRecord): Promise<string> {
+    const sensitiveKeys = orderSession.formSnapshot
+      ? new Set(orderSession.formSnapshot.sensitiveFieldKeys)
+      : await this.productRepository.getSensitiveFieldKeys(orderSession.productId);
+    const maskedAnswers = maskAnswers(orderSession.answers, sensitiveKeys);
+    return formatAnswerLines(maskedAnswers, orderSession.formSnapshot?.fieldLabels ?? {});
+  }
+
+  private async reverseCouponRedemption(input: {
+    provider: PaymentProviderId;
+    tenantId: string;
+    orderSessionId: string;
+    status: string | null | undefined;
+    webhookEventId: string;
+  }): Promise<void> {
+    const reason = resolveCouponReversalReason(input.status);
+    if (!reason) {
+      return;
+    }
+
+    const reversed = await this.couponService.reverseRedemptionForOrderSession({
+      tenantId: input.tenantId,
+      orderSessionId: input.orderSessionId,
+      reason,
+    });
+    if (reversed.isErr()) {
+      throw new AbortError(reversed.error.message);
+    }
+
+    if (reversed.value) {
+      logger.info(
+        {
+          provider: input.provider,
+          tenantId: input.tenantId,
+          orderSessionId: input.orderSessionId,
+          webhookEventId: input.webhookEventId,
+          reason,
+        },
+        'coupon redemption reversed',
+      );
+    }
+  }
+
+  /**
+   * Applies a provider refund to an already paid order and posts a notice to the paid log.
+   * Returns `false` when there was no paid order or the refund had already been recorded.
+   */
+  private async recordProviderRefund(input: {
+    provider: PaymentProviderId;
+    tenantId: string;
+    orderSessionId: string;
+    reason: PaidOrderRefundReason;
+    refundedMinor: number | null;
     webhookEventId: string;
+  }): Promise<boolean> {
+    const refund = await this.refundService.recordProviderRefund({
+      tenantId: input.tenantId,
+      orderSessionId: input.orderSessionId,
+      reason: input.reason,
+      refundedMinor: input.refundedMinor,
+    });
+    if (refund.isErr()) {
+      throw new AbortError(refund.error.message);
+    }
+
+    const outcome = refund.value;
+    if (!outcome?.changed) {
+      return false;
+    }
+
+    logger.info(
+      {
+        provider: input.provider,
+        tenantId: input.tenantId,
+        orderSessionId: input.orderSessionId,
+        webhookEventId: input.webhookEventId,
+        refundStatus: outcome.refundStatus,
+        refundReason: outcome.refundReason,
+        refundedMinor: outcome.refundedMinor,
+      },
+      'paid order refund recorded',
+    );
+
+    const { paidOrder, orderSession } = outcome;
+    const config = await this.tenantRepository.getGuildConfig({
+      tenantId: paidOrder.tenantId,
+      guildId: paidOrder.guildId,
+    });
+    const botTokensResult = await this.getBotTokenCandidates();
+    if (botTokensResult.isErr()) {
+      throw new AbortError(botTokensResult.error.message);
+    }
+
+    const header =
+      outcome.refundReason === 'chargeback'
+        ? '**Chargeback**'
+        : outcome.refundStatus === 'refunded'
+          ? '**Order Refunded**'
+          : '**Order Partially Refunded**';
+    const message = [
+      header,
+      `Provider: ${getPaymentProviderLabel(input.provider)}`,
+      `Order Session: \`${orderSession.id}\``,
+      `Refunded: ${formatCurrencyMinor(outcome.refundedMinor, paidOrder.currency)} of ${formatCurrencyMinor(
+        paidOrder.priceMinor,
+        paidOrder.currency,
+      )}`,
+      `Net: ${formatCurrencyMinor(outcome.netMinor, paidOrder.currency)}`,
+      `Points Clawed Back: ${outcome.pointsClawedBack}`,
+      ...(outcome.referralPointsClawedBack > 0
+        ? [`Referral Points Clawed Back: ${outcome.referralPointsClawedBack}`]
+        : []),
+    ].join('\n');
+
+    try {
+      await this.postPaidLogMessage({
+        botTokens: botTokensResult.value,
+        preferredChannelId: config?.paidLogChannelId ?? null,
+        fallbackChannelId: orderSession.ticketChannelId,
+        content: message,
+      });
+    } catch (error) {
+      logger.warn(
+        {
+          provider: input.provider,
+          orderSessionId: orderSession.id,
+          paidLogChannelId: config?.paidLogChannelId ?? null,
+          errorMessage: error instanceof Error ? error.message : 'unknown',
+        },
+        'failed to post refund notice',
+      );
+    }
+
+    return true;
+  }
+
+  private async finalizePointsForPaidOrder(input: {
+    provider: PaymentProviderId;
+    webhookEventId: string | null;
     orderSession: OrderSessionRecord;
+    currency: string;
     referralThankYouTemplate: string | null;
   }): Promise<{ updatedPointsBalance: number | null; referralResult: ReferralRewardResult }> {
     if (
@@ -1251,11 +1536,14 @@ export class WebhookService {
       lines: input.orderSession.basketItems.map((item) => ({
         category: item.category,
         priceMinor: item.priceMinor,
+        quantity: item.quantity,
+        automaticDiscountMinor: item.automaticDiscountMinor,
       })),
       couponDiscountMinor: input.orderSession.couponDiscountMinor,
       pointsDiscountMinor: input.orderSession.pointsDiscountMinor,
       earnCategoryKeys: snapshot.earnCategoryKeys,
       redeemCategoryKeys: snapshot.redeemCategoryKeys,
+      currency: input.currency,
     });
 
     const addEarn = await this.pointsService.addEarnedPointsForPaidOrder({
@@ -1319,8 +1607,45 @@ export class WebhookService {
     return reasonMap[result.reason];
   }
 
+  private async postLowStockAlerts(input: {
+    provider: PaymentProviderId;
+    botTokens: string[];
+    lowStockAlertChannelId: string | null;
+    alerts: LowStockAlert[];
+    orderSessionId: string;
+  }): Promise<void> {
+    if (!input.lowStockAlertChannelId || input.alerts.length === 0) {
+      return;
+    }
+
+    const message = [
+      '**Low Stock**',
+      `Order Session: \`${input.orderSessionId}\``,
+      ...input.alerts.map((alert) => `- ${formatLowStockAlert(alert)}`),
+    ].join('\n');
+
+    try {
+      await this.postPaidLogMessage({
+        botTokens: input.botTokens,
+        preferredChannelId: input.lowStockAlertChannelId,
+        fallbackChannelId: input.lowStockAlertChannelId,
+        content: message,
+      });
+    } catch (error) {
+      logger.warn(
+        {
+          provider: input.provider,
+          orderSessionId: input.orderSessionId,
+          lowStockAlertChannelId: input.lowStockAlertChannelId,
+          errorMessage: error instanceof Error ? error.message : 'unknown',
+        },
+        'failed to post low-stock alert',
+      );
+    }
+  }
+
   private async postReferralOutcome(input: {
-    provider: 'woocommerce' | 'voodoopay';
+    provider: PaymentProviderId;
     botTokens: string[];
     referralLogChannelId: string | null;
     referralResult: ReferralRewardResult;
@@ -1635,18 +1960,83 @@ export class WebhookService {
     currency: string;
     priceMinor: number;
     updatedPointsBalance: number | null;
+    receiptUrl: string;
   }): Promise<void> {
-    const message = [
-      `Payment received for <@${input.customerDiscordId}>. Thank you.`,
+    const details = [
       `Order Session: ${input.orderSessionId}`,
       `Product: ${input.productName}`,
       `Variant: ${input.variantLabel}`,
-      `Amount: ${(input.priceMinor / 100).toFixed(2)} ${input.currency}`,
+      `Amount: ${formatCurrencyMinor(input.priceMinor, input.currency)}`,
       input.updatedPointsBalance === null
         ? 'Updated Points Balance: unavailable'
         : `Updated Points Balance: ${input.updatedPointsBalance} point(s)`,
-    ].join('\n');
+      `Receipt: ${input.receiptUrl}`,
+    ];
+
+    await this.postTicketNotice({
+      botTokens: input.botTokens,
+      ticketChannelId: input.ticketChannelId,
+      customerDiscordId: input.customerDiscordId,
+      content: [`Payment received for <@${input.customerDiscordId}>. Thank you.`, ...details].join('\n'),
+      directMessage: ['Payment received. Thank you.', ...details].join('\n'),
+      noticeLabel: 'paid confirmation',
+    });
+  }
+
+  private async postTicketUnderpaymentAlert(input: {
+    botTokens: string[];
+    ticketChannelId: string;
+    customerDiscordId: string;
+    staffRoleIds: string[];
+    orderSessionId: string;
+    currency: string;
+    totalMinor: number;
+    amountCheck: CryptoPaymentAmountCheck;
+  }): Promise<void> {
+    const coin = input.amountCheck.coin.toUpperCase();
+    const shortfall = formatCurrencyMinor(Math.abs(input.amountCheck.differenceMinor), input.currency);
+    const details = [
+      `Order Session: ${input.orderSessionId}`,
+      `Expected: ${input.amountCheck.expectedCoinAmount} ${coin} (${formatCurrencyMinor(
+        input.totalMinor,
+        input.currency,
+      )})`,
+      `Received: ${input.amountCheck.receivedCoinAmount} ${coin} (~${formatCurrencyMinor(
+        input.amountCheck.receivedMinor,
+        input.currency,
+      )})`,
+      `Shortfall: ${shortfall}`,
+    ];
+    const staffMentions = input.staffRoleIds.map((roleId) => `<@&${roleId}>`).join(' ');
+
+    await this.postTicketNotice({
+      botTokens: input.botTokens,
+      ticketChannelId: input.ticketChannelId,
+      customerDiscordId: input.customerDiscordId,
+      content: [
+        `${staffMentions ? `${staffMentions} ` : ''}Payment from <@${input.customerDiscordId}> was less than the order total. Delivery is on hold until the shortfall is settled; mark the order fulfilled once it is.`,
+        ...details,
+      ].join('\n'),
+      directMessage: [
+        'Your payment was received but it was less than the order total. Delivery is on hold until the shortfall is settled; staff will be in touch.',
+        ...details,
+      ].join('\n'),
+      noticeLabel: 'underpayment alert',
+    });
+  }
 
+  /**
+   * Posts a notice into the order ticket. Telegram tickets have no shared channel, so the customer
+   * gets `directMessage` by DM instead.
+   */
+  private async postTicketNotice(input: {
+    botTokens: string[];
+    ticketChannelId: string;
+    customerDiscordId: string;
+    content: string;
+    directMessage: string;
+    noticeLabel: string;
+  }): Promise<void> {
     const scopedChannelId = parsePlatformScopedId(input.ticketChannelId);
     if (scopedChannelId.platform === 'telegram') {
       const telegramBotToken = this.getTelegramBotToken();
@@ -1656,7 +2046,7 @@ export class WebhookService {
             ticketChannelId: input.ticketChannelId,
             customerDiscordId: input.customerDiscordId,
           },
-          'skipping Telegram paid confirmation DM because no Telegram bot token is available',
+          `skipping Telegram ${input.noticeLabel} DM because no Telegram bot token is available`,
         );
         return;
       }
@@ -1668,27 +2058,16 @@ export class WebhookService {
             ticketChannelId: input.ticketChannelId,
             customerDiscordId: input.customerDiscordId,
           },
-          'skipping Telegram paid confirmation DM because the customer ID is not a Telegram user',
+          `skipping Telegram ${input.noticeLabel} DM because the customer ID is not a Telegram user`,
         );
         return;
       }
 
-      const directMessage = [
-        'Payment received. Thank you.',
-        `Order Session: ${input.orderSessionId}`,
-        `Product: ${input.productName}`,
-        `Variant: ${input.variantLabel}`,
-        `Amount: ${(input.priceMinor / 100).toFixed(2)} ${input.currency}`,
-        input.updatedPointsBalance === null
-          ? 'Updated Points Balance: unavailable'
-          : `Updated Points Balance: ${input.updatedPointsBalance} point(s)`,
-      ].join('\n');
-
       try {
         await sendDirectMessageToTelegramUser({
           botToken: telegramBotToken,
           userId: scopedCustomerId.rawId,
-          content: directMessage,
+          content: input.directMessage,
         });
       } catch (error) {
         logger.warn(
@@ -1697,7 +2076,7 @@ export class WebhookService {
             ticketChannelId: input.ticketChannelId,
             customerDiscordId: input.customerDiscordId,
           },
-          'failed to DM Telegram paid confirmation to customer',
+          `failed to DM Telegram ${input.noticeLabel} to customer`,
         );
       }
       return;
@@ -1705,7 +2084,7 @@ export class WebhookService {
 
     const uniqueTokens = [...new Set(input.botTokens.map((token) => token.trim()).filter(Boolean))];
     if (uniqueTokens.length === 0) {
-      throw new AbortError('No bot token available for ticket paid confirmation');
+      throw new AbortError(`No bot token available for ticket ${input.noticeLabel}`);
     }
 
     let lastError: unknown = null;
@@ -1714,7 +2093,7 @@ export class WebhookService {
         await postMessageToDiscordChannel({
           botToken,
           channelId: scopedChannelId.rawId,
-          content: fitDiscordMessage(message),
+          content: fitDiscordMessage(input.content),
         });
         return;
       } catch (error) {
@@ -1729,14 +2108,14 @@ export class WebhookService {
       throw lastError;
     }
 
-    throw new AbortError('Failed to post ticket paid confirmation');
+    throw new AbortError(`Failed to post ticket ${input.noticeLabel}`);
   }
 
   private async fetchWooNotes(input: {
     wpBaseUrl: string;
     consumerKey: string;
     consumerSecret: string;
-    wooOrderId: number;
+    wooOrderId: string;
   }): Promise<{ latestInternal: string | null; latestCustomer: string | null }> {
     const notesUrl = new URL(`/wp-json/wc/v3/orders/${input.wooOrderId}/notes`, input.wpBaseUrl).toString();
     const auth = Buffer.from(`${input.consumerKey}:${input.consumerSecret}`).toString('base64');
@@ -0,0 +1,538 @@
+import { createHash } from 'node:crypto';
+
+import { err, ok, type Result } from 'neverthrow';
+import { ulid } from 'ulid';
+
+import { AppError, fromUnknownError } from '../domain/errors.js';
+import type { ProductInput, ProductVariantInput, WooCatalogProduct, WooCatalogVariation } from '../domain/types.js';
+import { AdminRepository } from '../repositories/admin-repository.js';
+import { ProductRepository, type ProductAggregate } from '../repositories/product-repository.js';
+import type { SessionPayload } from '../security/session-token.js';
+import { majorToMinor, normalizeCurrencyCode } from '../utils/currency.js';
+import { AuthorizationService } from './authorization-service.js';
+import { IntegrationService, type WooIntegrationResolved } from './integration-service.js';
+import { ProductService } from './product-service.js';
+
+const WOO_PAGE_SIZE = 100;
+const MAX_WOO_PAGES = 10;
+const WOO_REQUEST_TIMEOUT_MS = 15_000;
+const SIMPLE_PRODUCT_VARIANT_LABEL = 'Standard';
+const UNCATEGORIZED = 'Uncategorized';
+
+export type WooCatalogChangeAction = 'create' | 'update' | 'unchanged';
+
+export type WooCatalogVariantChange = {
+  action: WooCatalogChangeAction;
+  wooProductId: string;
+  variantId: string | null;
+  label: string;
+  priceMinor: number;
+  /** Price stored before the sync; `null` for price options the sync adds. */
+  previousPriceMinor: number | null;
+  currency: string;
+  previousCurrency: string | null;
+};
+
+export type WooCatalogProductChange = {
+  action: WooCatalogChangeAction;
+  wooProductId: string;
+  productId: string | null;
+  name: string;
+  category: string;
+  description: string;
+  variants: WooCatalogVariantChange[];
+};
+
+export type WooCatalogSkippedProduct = {
+  wooProductId: string;
+  name: string;
+  reason: string;
+};
+
+export type WooCatalogSyncPlan = {
+  currency: string;
+  products: WooCatalogProductChange[];
+  skipped: WooCatalogSkippedProduct[];
+  summary: {
+    create: number;
+    update: number;
+    unchanged: number;
+    skipped: number;
+  };
+  /** Hash of the planned changes. `applySync` only runs when the re-read plan still has the previewed hash. */
+  fingerprint: string;
+};
+
+export type WooCatalogEntry = {
+  product: WooCatalogProduct;
+  variations: WooCatalogVariation[];
+};
+
+function decodeWooText(value: string): string {
+  return value
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&#0?39;|&#8217;|&apos;/g, "'")
+    .replace(/&quot;|&#8220;|&#8221;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&#8211;/g, '-')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function parseWooPrice(price: string, currency: string): number | null {
+  if (!price || price.trim().length === 0) {
+    return null;
+  }
+
+  const numeric = Number(price);
+  return Number.isFinite(numeric) && numeric >= 0 ? majorToMinor(numeric, currency) : null;
+}
+
+function describeVariation(variation: WooCatalogVariation): string {
+  const label = (variation.attributes ?? [])
+    .map((attribute) => decodeWooText(attribute.option))
+    .filter((option) => option.length > 0)
+    .join(' / ');
+
+  return (label || `Variation ${variation.id}`).slice(0, 80);
+}
+
+/** Relative to the store URL, like paths entered by hand; Woo accepts variation ids for `add-to-cart` too. */
+export function buildWooCheckoutPath(wooProductId: string): string {
+  return `/checkout/?add-to-cart=${encodeURIComponent(wooProductId)}`;
+}
+
+/**
+ * Works out what a sync would change. Products and price options are matched on `wooProductId`. Existing
+ * matches only get their price and currency refreshed and gain price options for new variations, so names,
+ * categories, stock and rewards edited in the dashboard survive a re-run.
+ */
+export function planWooCatalogSync(input: {
+  currency: string;
+  catalog: WooCatalogEntry[];
+  existingProducts: ProductAggregate[];
+}): WooCatalogSyncPlan {
+  const currency = input.currency.trim().toUpperCase();
+  const existingByWooId = new Map<string, { product: ProductAggregate; variant: ProductAggregate['variants'][number] }>();
+  for (const product of input.existingProducts) {
+    for (const variant of product.variants) {
+      if (variant.wooProductId && !existingByWooId.has(variant.wooProductId)) {
+        existingByWooId.set(variant.wooProductId, { product, variant });
+      }
+    }
+  }
+
+  const products: WooCatalogProductChange[] = [];
+  const skipped: WooCatalogSkippedProduct[] = [];
+
+  for (const { product, variations } of input.catalog) {
+    const wooProductId = String(product.id);
+    const name = decodeWooText(product.name).slice(0, 120) || `Woo product ${wooProductId}`;
+
+    if (product.type === 'grouped' || product.type === 'external') {
+      skipped.push({ wooProductId, name, reason: `${product.type} products are not sold through WooCommerce checkout` });
+      continue;
+    }
+
+    const sellable =
+      product.type === 'variable'
+        ? variations
+            .filter((variation) => variation.status === 'publish')
+            .map((variation) => ({
+              wooProductId: String(variation.id),
+              label: describeVariation(variation),
+              priceMinor: parseWooPrice(variation.price, currency),
+            }))
+        : [
+            {
+              wooProductId,
+              label: SIMPLE_PRODUCT_VARIANT_LABEL,
+              priceMinor: parseWooPrice(product.price, currency),
+            },
+          ];
+    const priced = sellable.filter(
+      (item): item is { wooProductId: string; label: string; priceMinor: number } => item.priceMinor !== null,
+    );
+    if (priced.length === 0) {
+      skipped.push({
+        wooProductId,
+        name,
+        reason: product.type === 'variable' ? 'No published variation has a price' : 'No price is set in WooCommerce',
+      });
+      continue;
+    }
+
+    const matchedProduct =
+      [wooProductId, ...priced.map((item) => item.wooProductId)]
+        .map((id) => existingByWooId.get(id)?.product)
+        .find((match) => match !== undefined) ?? null;
+
+    const variants: WooCatalogVariantChange[] = priced.map((item) => {
+      const existing = matchedProduct?.variants.find((variant) => variant.wooProductId === item.wooProductId);
+      if (!existing) {
+        return {
+          action: 'create',
+          wooProductId: item.wooProductId,
+          variantId: null,
+          label: item.label,
+          priceMinor: item.priceMinor,
+          previousPriceMinor: null,
+          currency,
+          previousCurrency: null,
+        };
+      }
+
+      return {
+        action: existing.priceMinor === item.priceMinor && existing.currency === currency ? 'unchanged' : 'update',
+        wooProductId: item.wooProductId,
+        variantId: existing.id,
+        label: existing.label,
+        priceMinor: item.priceMinor,
+        previousPriceMinor: existing.priceMinor,
+        currency,
+        previousCurrency: existing.currency,
+      };
+    });
+
+    const category = decodeWooText(product.categories?.[0]?.name ?? '').slice(0, 80) || UNCATEGORIZED;
+    products.push({
+      action: matchedProduct
+        ? variants.every((variant) => variant.action === 'unchanged')
+          ? 'unchanged'
+          : 'update'
+        : 'create',
+      wooProductId,
+      productId: matchedProduct?.id ?? null,
+      name: matchedProduct?.name ?? name,
+      category: matchedProduct?.category ?? category,
+      description: decodeWooText(product.short_description || product.description || '').slice(0, 2000),
+      variants,
+    });
+  }
+
+  const fingerprint = createHash('sha256').update(JSON.stringify({ currency, products, skipped })).digest('hex');
+
+  return {
+    currency,
+    products,
+    skipped,
+    fingerprint,
+    summary: {
+      create: products.filter((product) => product.action === 'create').length,
+      update: products.filter((product) => product.action === 'update').length,
+      unchanged: products.filter((product) => product.action === 'unchanged').length,
+      skipped: skipped.length,
+    },
+  };
+}
+
+function toVariantInput(variant: ProductAggregate['variants'][number]): ProductVariantInput {
+  return {
+    id: variant.id,
+    label: variant.label,
+    priceMinor: variant.priceMinor,
+    referralRewardMinor: variant.referralRewardMinor,
+    currency: variant.currency,
+    wooProductId: variant.wooProductId ?? undefined,
+    wooCheckoutPath: variant.wooCheckoutPath ?? undefined,
+    stockQuantity: variant.stockQuantity,
+    lowStockThreshold: variant.lowStockThreshold,
+    roleRewards: variant.roleRewards,
+    billingIntervalDays: variant.billingIntervalDays,
+    minQuantity: variant.minQuantity,
+    maxQuantity: variant.maxQuantity,
+    priceTiers: variant.priceTiers,
+  };
+}
+
+export class WooCatalogService {
+  private readonly integrationService = new IntegrationService();
+  private readonly productRepository = new ProductRepository();
+  private readonly productService = new ProductService();
+  private readonly adminRepository = new AdminRepository();
+  private readonly authorizationService = new AuthorizationService();
+
+  /** Dry run: fetches the Woo catalog and reports what `applySync` would change without writing anything. */
+  public async previewSync(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string },
+  ): Promise<Result<WooCatalogSyncPlan, AppError>> {
+    try {
+      const access = await this.ensureAccess(actor, input);
+      if (access.isErr()) {
+        return err(access.error);
+      }
+
+      return this.buildPlan(input);
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  /**
+   * Re-reads the catalog and applies the resulting plan, but only if it matches the previewed plan's
+   * fingerprint. Each product is saved on its own, so if one fails the ones before it stay imported and
+   * running the sync again picks up the rest.
+   */
+  public async applySync(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string; planFingerprint: string },
+  ): Promise<Result<WooCatalogSyncPlan, AppError>> {
+    try {
+      const scope = { tenantId: input.tenantId, guildId: input.guildId };
+      const access = await this.ensureAccess(actor, scope);
+      if (access.isErr()) {
+        return err(access.error);
+      }
+
+      const plan = await this.buildPlan(scope);
+      if (plan.isErr()) {
+        return err(plan.error);
+      }
+      if (plan.value.fingerprint !== input.planFingerprint) {
+        return err(
+          new AppError(
+            'WOO_CATALOG_CHANGED',
+            'The WooCommerce catalog or your products changed since the preview. Preview the import again before applying it.',
+            409,
+          ),
+        );
+      }
+
+      for (const change of plan.value.products) {
+        const saved = await this.applyProductChange(actor, scope, change);
+        if (saved.isErr()) {
+          return err(saved.error);
+        }
+      }
+
+      await this.adminRepository.appendAuditLog({
+        tenantId: input.tenantId,
+        userId: actor.userId,
+        actorDiscordUserId: actor.discordUserId,
+        action: 'woo_catalog.sync',
+        resourceType: 'guild',
+        resourceId: input.guildId,
+        correlationId: ulid(),
+        metadata: {
+          currency: plan.value.currency,
+          ...plan.value.summary,
+        },
+      });
+
+      return ok(plan.value);
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  private async ensureAccess(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string },
+  ): Promise<Result<void, AppError>> {
+    const roleCheck = await this.authorizationService.ensureTenantRole(actor, {
+      tenantId: input.tenantId,
+      minimumRole: 'admin',
+    });
+    if (roleCheck.isErr()) {
+      return err(roleCheck.error);
+    }
+
+    return this.authorizationService.ensureGuildBoundToTenant(input);
+  }
+
+  private async buildPlan(input: { tenantId: string; guildId: string }): Promise<Result<WooCatalogSyncPlan, AppError>> {
+    const integration = await this.integrationService.getResolvedWooIntegrationByGuild(input);
+    if (integration.isErr()) {
+      return err(integration.error);
+    }
+
+    const currency = await this.fetchWooJson<{ code?: string }>(
+      integration.value,
+      '/wp-json/wc/v3/data/currencies/current',
+    );
+    if (currency.isErr()) {
+      return err(currency.error);
+    }
+    const currencyCode = normalizeCurrencyCode(currency.value.code);
+    if (!currencyCode) {
+      return err(new AppError('WOO_CURRENCY_INVALID', 'WooCommerce did not report a valid store currency.', 502));
+    }
+
+    const wooProducts = await this.fetchWooPages<WooCatalogProduct>(integration.value, '/wp-json/wc/v3/products', {
+      status: 'publish',
+    });
+    if (wooProducts.isErr()) {
+      return err(wooProducts.error);
+    }
+
+    const catalog: WooCatalogEntry[] = [];
+    for (const product of wooProducts.value) {
+      if (product.type !== 'variable') {
+        catalog.push({ product, variations: [] });
+        continue;
+      }
+
+      const variations = await this.fetchWooPages<WooCatalogVariation>(
+        integration.value,
+        `/wp-json/wc/v3/products/${product.id}/variations`,
+        {},
+      );
+      if (variations.isErr()) {
+        return err(variations.error);
+      }
+      catalog.push({ product, variations: variations.value });
+    }
+
+    const existingProducts = await this.productRepository.listByGuild(input);
+    return ok(
+      planWooCatalogSync({
+        currency: currencyCode,
+        catalog,
+        existingProducts,
+      }),
+    );
+  }
+
+  private async applyProductChange(
+    actor: SessionPayload,
+    input: { tenantId: string; guildId: string },
+    change: WooCatalogProductChange,
+  ): Promise<Result<void, AppError>> {
+    if (change.action === 'unchanged') {
+      return ok(undefined);
+    }
+
+    const newVariants: ProductVariantInput[] = change.variants
+      .filter((variant) => variant.action === 'create')
+      .map((variant) => ({
+        label: variant.label,
+        priceMinor: variant.priceMinor,
+        currency: variant.currency,
+        wooProductId: variant.wooProductId,
+        wooCheckoutPath: buildWooCheckoutPath(variant.wooProductId),
+      }));
+
+    if (change.action === 'create' || !change.productId) {
+      const product: ProductInput = {
+        category: change.category,
+        name: change.name,
+        description: change.description,
+        active: true,
+        variants: newVariants,
+      };
+      const created = await this.productService.createProduct(actor, { ...input, product, formFields: [] });
+      return created.isErr() ? err(created.error) : ok(undefined);
+    }
+
+    const existing = await this.productRepository.getById({ ...input, productId: change.productId });
+    if (!existing) {
+      return err(new AppError('PRODUCT_NOT_FOUND', 'Product not found', 404));
+    }
+
+    const updates = new Map(
+      change.variants
+        .filter((variant) => variant.action === 'update' && variant.variantId)
+        .map((variant) => [variant.variantId, variant]),
+    );
+    const product: ProductInput = {
+      category: existing.category,
+      name: existing.name,
+      description: existing.description,
+      active: existing.active,
+      roleRewards: existing.roleRewards,
+      variants: [
+        ...existing.variants.map((variant) => {
+          const update = updates.get(variant.id);
+          if (!update) {
+            return toVariantInput(variant);
+          }
+
+          return {
+            ...toVariantInput(variant),
+            priceMinor: update.priceMinor,
+            currency: update.currency,
+            wooCheckoutPath: variant.wooCheckoutPath ?? buildWooCheckoutPath(update.wooProductId),
+            // Volume prices must stay below the regular price, so tiers a price cut overtakes are dropped.
+            priceTiers: variant.priceTiers.filter((tier) => tier.priceMinor < update.priceMinor),
+          };
+        }),
+        ...newVariants,
+      ],
+    };
+    const updated = await this.productService.updateProduct(actor, {
+      ...input,
+      productId: change.productId,
+      product,
+    });
+    return updated.isErr() ? err(updated.error) : ok(undefined);
+  }
+
+  private async fetchWooPages<T>(
+    integration: WooIntegrationResolved,
+    path: string,
+    query: Record<string, string>,
+  ): Promise<Result<T[], AppError>> {
+    const items: T[] = [];
+
+    for (let page = 1; page <= MAX_WOO_PAGES; page += 1) {
+      const batch = await this.fetchWooJson<T[]>(integration, path, {
+        ...query,
+        per_page: String(WOO_PAGE_SIZE),
+        page: String(page),
+      });
+      if (batch.isErr()) {
+        return err(batch.error);
+      }
+
+      items.push(...batch.value);
+      if (batch.value.length < WOO_PAGE_SIZE) {
+        return ok(items);
+      }
+    }
+
+    return err(
+      new AppError(
+        'WOO_CATALOG_TOO_LARGE',
+        `The WooCommerce catalog has more than ${MAX_WOO_PAGES * WOO_PAGE_SIZE} entries and cannot be synced in one go`,
+        422,
+      ),
+    );
+  }
+
+  private async fetchWooJson<T>(
+    integration: WooIntegrationResolved,
+    path: string,
+    query: Record<string, string> = {},
+  ): Promise<Result<T, AppError>> {
+    const url = new URL(path, integration.wpBaseUrl);
+    for (const [key, value] of Object.entries(query)) {
+      url.searchParams.set(key, value);
+    }
+    const auth = Buffer.from(`${integration.consumerKey}:${integration.consumerSecret}`).toString('base64');
+
+    try {
+      const response = await fetch(url.toString(), {
+        headers: {
+          Authorization: `Basic ${auth}`,
+        },
+        signal: AbortSignal.timeout(WOO_REQUEST_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        return err(
+          new AppError('WOO_CATALOG_FETCH_FAILED', `WooCommerce returned status ${response.status} for ${path}`, 502, {
+            body: (await response.text()).slice(0, 500),
+          }),
+        );
+      }
+
+      return ok((await response.json()) as T);
+    } catch (error) {
+      return err(fromUnknownError(error, 'WOO_CATALOG_FETCH_FAILED'));
+    }
+  }
+}
@@ -0,0 +1,241 @@
+import { err, ok, type Result } from 'neverthrow';
+
+import { AppError, fromUnknownError } from '../domain/errors.js';
+import type { WooOrderPayload } from '../domain/types.js';
+import { ProductRepository } from '../repositories/product-repository.js';
+import { isPaidWooStatus, verifyWooWebhookSignature } from '../security/webhook-signature.js';
+import { DEFAULT_CURRENCY, formatMinorAsMajor, majorToMinor } from '../utils/currency.js';
+import { IntegrationService } from './integration-service.js';
+import {
+  type PaymentCheckout,
+  type PaymentCheckoutInput,
+  type PaymentProvider,
+  type PaymentRefund,
+  type PaymentRefundInput,
+  type PaymentState,
+  type PaymentWebhookRequest,
+  resolveProviderRefundReason,
+  type VerifiedPaymentWebhook,
+} from './payment-provider.js';
+
+export function extractWooOrder(rawPayload: Record<string, unknown>): WooOrderPayload | null {
+  const maybeOrder = (rawPayload.order ?? rawPayload) as Partial<WooOrderPayload>;
+
+  if (!maybeOrder || typeof maybeOrder.id !== 'number' || typeof maybeOrder.status !== 'string') {
+    return null;
+  }
+
+  return {
+    id: maybeOrder.id,
+    status: maybeOrder.status,
+    number: maybeOrder.number,
+    total: maybeOrder.total,
+    currency: maybeOrder.currency,
+    meta_data: Array.isArray(maybeOrder.meta_data)
+      ? maybeOrder.meta_data.filter(
+          (item): item is { id?: number; key: string; value: string | number | boolean | null } =>
+            typeof item === 'object' &&
+            item !== null &&
+            'key' in item &&
+            typeof item.key === 'string' &&
+            'value' in item,
+        )
+      : [],
+    refunds: Array.isArray(maybeOrder.refunds)
+      ? maybeOrder.refunds.filter(
+          (item): item is { id?: number; reason?: string; total: string } =>
+            typeof item === 'object' && item !== null && typeof item.total === 'string',
+        )
+      : [],
+  };
+}
+
+function toMinor(total: string | undefined, currency: string): number {
+  if (!total) {
+    return 0;
+  }
+
+  const numeric = Number(total);
+  if (Number.isNaN(numeric)) {
+    return 0;
+  }
+
+  return majorToMinor(numeric, currency);
+}
+
+function sumWooRefundsMinor(order: WooOrderPayload): number {
+  return (order.refunds ?? []).reduce((sum, refund) => sum + Math.abs(toMinor(refund.total, order.currency ?? DEFAULT_CURRENCY)), 0);
+}
+
+function findOrderSessionId(order: WooOrderPayload): string | null {
+  const record = order.meta_data?.find((meta) => meta.key === 'vd_order_session_id');
+  if (!record) {
+    return null;
+  }
+
+  if (typeof record.value === 'string') {
+    return record.value;
+  }
+
+  if (typeof record.value === 'number') {
+    return String(record.value);
+  }
+
+  return null;
+}
+
+/** Sends customers to the WordPress store; the companion snippet tags the Woo order with the order session. */
+export class WooCommercePaymentProvider implements PaymentProvider {
+  public readonly id = 'woocommerce' as const;
+  public readonly label = 'WooCommerce';
+
+  private readonly integrationService = new IntegrationService();
+  private readonly productRepository = new ProductRepository();
+
+  public async isConfigured(input: { tenantId: string; guildId: string }): Promise<Result<boolean, AppError>> {
+    const integration = await this.integrationService.getResolvedWooIntegrationByGuild(input);
+    return ok(integration.isOk());
+  }
+
+  public async createCheckout(input: PaymentCheckoutInput): Promise<Result<PaymentCheckout, AppError>> {
+    try {
+      const integration = await this.integrationService.getResolvedWooIntegrationByGuild({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+      });
+      if (integration.isErr()) {
+        return err(integration.error);
+      }
+
+      const product = await this.productRepository.getById({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+        productId: input.primaryItem.productId,
+      });
+      const variantCheckoutPath =
+        product?.variants.find((item) => item.id === input.primaryItem.variantId)?.wooCheckoutPath ?? null;
+
+      const checkoutTarget =
+        variantCheckoutPath && variantCheckoutPath.length > 0
+          ? new URL(variantCheckoutPath, integration.value.wpBaseUrl)
+          : new URL(integration.value.wpBaseUrl);
+
+      checkoutTarget.searchParams.set('vd_token', input.checkoutToken);
+      checkoutTarget.searchParams.set('vd_order_session_id', input.orderSessionId);
+      const checkoutUrl = checkoutTarget.toString();
+
+      return ok({
+        checkoutUrl,
+        checkoutUrlCrypto: null,
+        checkoutOptions: [
+          {
+            method: 'pay',
+            label: 'Pay',
+            url: checkoutUrl,
+          },
+        ],
+        warnings: [],
+      });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  public async verifyWebhook(input: PaymentWebhookRequest): Promise<Result<VerifiedPaymentWebhook, AppError>> {
+    try {
+      const integration = await this.integrationService.getResolvedWooIntegrationByWebhookKey(input.tenantWebhookKey);
+      if (integration.isErr()) {
+        return err(integration.error);
+      }
+
+      const payload = JSON.parse(input.rawBody) as Record<string, unknown>;
+      const order = extractWooOrder(payload);
+
+      return ok({
+        tenantId: integration.value.tenantId,
+        guildId: integration.value.guildId,
+        signatureValid: verifyWooWebhookSignature({
+          rawBody: input.rawBody,
+          secret: integration.value.webhookSecret,
+          providedSignature: input.headers['x-wc-webhook-signature'] ?? null,
+        }),
+        deliveryId: input.headers['x-wc-webhook-delivery-id'] ?? `missing-${Date.now()}`,
+        topic: input.headers['x-wc-webhook-topic'] ?? 'unknown',
+        payload,
+        orderSessionId: order ? findOrderSessionId(order) : null,
+      });
+    } catch (error) {
+      return err(fromUnknownError(error));
+    }
+  }
+
+  public async resolvePaymentState(input: {
+    tenantId: string;
+    guildId: string;
+    payload: Record<string, unknown>;
+  }): Promise<Result<PaymentState, AppError>> {
+    const order = extractWooOrder(input.payload);
+    if (!order) {
+      return err(new AppError('WOO_ORDER_INVALID', 'Webhook payload does not contain a valid Woo order', 400));
+    }
+
+    const currency = order.currency ?? null;
+    return ok({
+      paid: isPaidWooStatus(order.status),
+      status: order.status,
+      orderSessionId: findOrderSessionId(order),
+      providerOrderId: String(order.id),
+      paymentReference: order.number ?? null,
+      amountMinor: currency && order.total ? toMinor(order.total, currency) : null,
+      currency,
+      refundReason: resolveProviderRefundReason(order.status),
+      refundedMinor: sumWooRefundsMinor(order),
+    });
+  }
+
+  /** Issues the refund through the store's gateway (`api_refund`), which also updates the Woo order. */
+  public async refund(input: PaymentRefundInput): Promise<Result<PaymentRefund, AppError>> {
+    try {
+      const integration = await this.integrationService.getResolvedWooIntegrationByGuild({
+        tenantId: input.tenantId,
+        guildId: input.guildId,
+      });
+      if (integration.isErr()) {
+        return err(integration.error);
+      }
+
+      const refundUrl = new URL(
+        `/wp-json/wc/v3/orders/${encodeURIComponent(input.providerOrderId)}/refunds`,
+        integration.value.wpBaseUrl,
+      );
+      const auth = Buffer.from(`${integration.value.consumerKey}:${integration.value.consumerSecret}`).toString(
+        'base64',
+      );
+      const response = await fetch(refundUrl.toString(), {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${auth}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          amount: formatMinorAsMajor(input.amountMinor, input.currency),
+          reason: input.reason ?? '',
+          api_refund: true,
+        }),
+      });
+
+      if (!response.ok) {
+        return err(
+          new AppError('WOO_REFUND_FAILED', `WooCommerce refund failed with status ${response.status}`, 502, {
+            body: await response.text(),
+          }),
+        );
+      }
+
+      const refund = (await response.json()) as { id?: unknown };
+      return ok({ refundId: String(refund.id ?? ''), status: 'succeeded' });
+    } catch (error) {
+      return err(fromUnknownError(error, 'WOO_REFUND_FAILED'));
+    }
+  }
+}
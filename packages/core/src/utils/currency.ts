@@ -0,0 +1,123 @@
+export const DEFAULT_CURRENCY = 'GBP';
+
+/** Currencies offered when staff pick a server's default currency or add an exchange rate. */
+export const SUPPORTED_CURRENCIES = [
+  'GBP',
+  'USD',
+  'EUR',
+  'CAD',
+  'AUD',
+  'NZD',
+  'CHF',
+  'SEK',
+  'NOK',
+  'DKK',
+  'PLN',
+  'JPY',
+  'KRW',
+  'KWD',
+  'BHD',
+] as const;
+
+/**
+ * ISO 4217 currencies whose minor unit is not two decimal places. Anything missing here uses two,
+ * which covers most of the list.
+ */
+const MINOR_UNIT_EXPONENT_OVERRIDES: Record<string, number> = {
+  BIF: 0,
+  CLP: 0,
+  DJF: 0,
+  GNF: 0,
+  ISK: 0,
+  JPY: 0,
+  KMF: 0,
+  KRW: 0,
+  PYG: 0,
+  RWF: 0,
+  UGX: 0,
+  UYI: 0,
+  VND: 0,
+  VUV: 0,
+  XAF: 0,
+  XOF: 0,
+  XPF: 0,
+  BHD: 3,
+  IQD: 3,
+  JOD: 3,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+  CLF: 4,
+  UYW: 4,
+};
+
+/** Upper-cased three-letter code, or `null` when the value is not shaped like an ISO 4217 code. */
+export function normalizeCurrencyCode(currency: string | null | undefined): string | null {
+  const normalized = currency?.trim().toUpperCase() ?? '';
+  return /^[A-Z]{3}$/.test(normalized) ? normalized : null;
+}
+
+/** Number of decimal places in the currency's minor unit: 2 for GBP, 0 for JPY, 3 for KWD. */
+export function getCurrencyExponent(currency: string): number {
+  return MINOR_UNIT_EXPONENT_OVERRIDES[normalizeCurrencyCode(currency) ?? ''] ?? 2;
+}
+
+export function getMinorPerMajor(currency: string): number {
+  return 10 ** getCurrencyExponent(currency);
+}
+
+/** Plain decimal amount with the currency's own number of places, e.g. `12.50` or `1500`. */
+export function formatMinorAsMajor(minor: number, currency: string): string {
+  const exponent = getCurrencyExponent(currency);
+  const safeMinor = Number.isFinite(minor) ? Math.round(minor) : 0;
+  return (safeMinor / 10 ** exponent).toFixed(exponent);
+}
+
+/** Converts a decimal amount reported by a payment provider into minor units. */
+export function majorToMinor(major: number, currency: string): number {
+  return Number.isFinite(major) ? Math.round(major * getMinorPerMajor(currency)) : 0;
+}
+
+/** Amount with its currency symbol, e.g. `£12.50`, `JP¥1,500` or `KWD 1.250`. */
+export function formatCurrencyMinor(minor: number, currency: string, locale = 'en-GB'): string {
+  const code = normalizeCurrencyCode(currency) ?? currency.trim().toUpperCase();
+  const exponent = getCurrencyExponent(code);
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: code,
+      minimumFractionDigits: exponent,
+      maximumFractionDigits: exponent,
+    }).format((Number.isFinite(minor) ? minor : 0) / 10 ** exponent);
+  } catch {
+    return `${formatMinorAsMajor(minor, code)} ${code}`;
+  }
+}
+
+/**
+ * Parses a staff-entered amount such as `2.50` or `1,500` into minor units. Returns `null` when the
+ * value is not a non-negative number or has more decimal places than the currency allows.
+ */
+export function parseMajorToMinor(value: string, currency: string): number | null {
+  const normalized = value.trim().replace(/,(?=\d{3}(?:\D|$))/g, '');
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(normalized);
+  if (!match) {
+    return null;
+  }
+
+  const exponent = getCurrencyExponent(currency);
+  const whole = match[1] ?? '0';
+  const fraction = match[2] ?? '';
+  if (fraction.length > exponent) {
+    return null;
+  }
+
+  const minor = Number(`${whole}${fraction.padEnd(exponent, '0')}`);
+  return Number.isSafeInteger(minor) ? minor : null;
+}
+
+/** Example amount for prompts, such as `2.50` for GBP or `250` for JPY. */
+export function describeAmountExample(currency: string): string {
+  return formatMinorAsMajor(250 * 10 ** Math.max(0, getCurrencyExponent(currency) - 2), currency);
+}
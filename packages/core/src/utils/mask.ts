@@ -21,3 +21,22 @@ export function maskAnswers(
   }
   return out;
 }
+
+const SECRET_PAYLOAD_KEY_PATTERN = /secret|token|signature|password|api[_-]?key|authorization/i;
+
+/** Replaces values stored under secret-looking keys (at any depth) so stored payloads can be shown to staff. */
+export function redactSecretFields(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map((entry) => redactSecretFields(entry));
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const out: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    out[key] = SECRET_PAYLOAD_KEY_PATTERN.test(key) ? '[redacted]' : redactSecretFields(entry);
+  }
+  return out;
+}
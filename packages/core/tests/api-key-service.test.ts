@@ -0,0 +1,176 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { err, ok } from 'neverthrow';
+
+import { AppError } from '../src/domain/errors.js';
+import type { ApiKeyRecord } from '../src/repositories/api-key-repository.js';
+import { generateApiKey, hashApiKey, readBearerApiKey } from '../src/security/api-key.js';
+import type { SessionPayload } from '../src/security/session-token.js';
+import { ApiKeyService } from '../src/services/api-key-service.js';
+
+function makeSession(): SessionPayload {
+  return {
+    userId: 'user-1',
+    discordUserId: 'discord-user-1',
+    isSuperAdmin: false,
+    tenantIds: ['tenant-1'],
+    exp: Math.floor(Date.now() / 1000) + 3600,
+  };
+}
+
+function makeRecord(overrides: Partial<ApiKeyRecord> = {}): ApiKeyRecord {
+  return {
+    id: 'api-key-1',
+    tenantId: 'tenant-1',
+    name: 'Inventory sync',
+    keyPrefix: 'vdk_abcdefgh',
+    scopes: ['products:read', 'orders:read'],
+    createdByUserId: 'user-1',
+    createdByDiscordUserId: 'discord-user-1',
+    lastUsedAt: null,
+    revokedAt: null,
+    createdAt: new Date('2026-05-01T12:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+describe('api key helpers', () => {
+  it('generates prefixed keys and stores only their hash', () => {
+    const generated = generateApiKey();
+
+    expect(generated.key.startsWith('vdk_')).toBe(true);
+    expect(generated.key).toHaveLength(47);
+    expect(generated.keyPrefix).toBe(generated.key.slice(0, 12));
+    expect(generated.keyHash).toBe(hashApiKey(generated.key));
+    expect(generated.keyHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('only reads bearer keys with the api key prefix', () => {
+    expect(readBearerApiKey('Bearer vdk_secret')).toBe('vdk_secret');
+    expect(readBearerApiKey('bearer  vdk_secret ')).toBe('vdk_secret');
+    expect(readBearerApiKey('Bearer some-session-token')).toBeNull();
+    expect(readBearerApiKey('Basic dXNlcjpwYXNz')).toBeNull();
+    expect(readBearerApiKey(null)).toBeNull();
+  });
+});
+
+describe('api key service', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('creates a key for a workspace member and records the audit log', async () => {
+    const service = new ApiKeyService();
+    vi.spyOn((service as any).authorizationService, 'ensureTenantRole').mockResolvedValue(ok(undefined));
+    vi.spyOn((service as any).userRepository, 'getMemberRole').mockResolvedValue('admin');
+    vi.spyOn((service as any).apiKeyRepository, 'countActiveByTenant').mockResolvedValue(2);
+    const create = vi
+      .spyOn((service as any).apiKeyRepository, 'create')
+      .mockImplementation(async (input: any) => makeRecord({ ...input, id: 'api-key-2' }));
+    const appendAuditLog = vi.spyOn((service as any).adminRepository, 'appendAuditLog').mockResolvedValue(undefined);
+
+    const result = await service.createKey(makeSession(), {
+      tenantId: 'tenant-1',
+      apiKey: { name: ' Inventory sync ', scopes: ['products:read', 'products:read', 'sales:write'] },
+    });
+
+    expect(result.isOk()).toBe(true);
+    const created = result._unsafeUnwrap();
+    const stored = create.mock.calls[0]?.[0] as any;
+    expect(stored).toMatchObject({
+      tenantId: 'tenant-1',
+      name: 'Inventory sync',
+      scopes: ['products:read', 'sales:write'],
+      createdByUserId: 'user-1',
+      createdByDiscordUserId: 'discord-user-1',
+    });
+    expect(stored.keyHash).toBe(hashApiKey(created.key));
+    expect(JSON.stringify(stored)).not.toContain(created.key);
+    expect(created.apiKey).not.toHaveProperty('keyHash');
+    expect(appendAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'api_key.create', resourceType: 'api_key', resourceId: 'api-key-2' }),
+    );
+  });
+
+  it('rejects keys from super admins outside the workspace and past the active key limit', async () => {
+    const service = new ApiKeyService();
+    vi.spyOn((service as any).authorizationService, 'ensureTenantRole').mockResolvedValue(ok(undefined));
+    const getMemberRole = vi.spyOn((service as any).userRepository, 'getMemberRole').mockResolvedValue(null);
+    vi.spyOn((service as any).apiKeyRepository, 'countActiveByTenant').mockResolvedValue(20);
+    const create = vi.spyOn((service as any).apiKeyRepository, 'create');
+    const input = { tenantId: 'tenant-1', apiKey: { name: 'Sync', scopes: ['orders:read'] } };
+
+    const notMember = await service.createKey({ ...makeSession(), isSuperAdmin: true }, input);
+    expect(notMember._unsafeUnwrapErr().code).toBe('API_KEY_MEMBER_REQUIRED');
+
+    getMemberRole.mockResolvedValue('owner');
+    const limited = await service.createKey(makeSession(), input);
+    expect(limited._unsafeUnwrapErr().code).toBe('API_KEY_LIMIT_REACHED');
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('rejects missing, unknown and revoked keys', async () => {
+    const service = new ApiKeyService();
+    const getByHash = vi.spyOn((service as any).apiKeyRepository, 'getByHash').mockResolvedValue(null);
+
+    const missing = await service.authenticate({ key: null, scope: 'products:read' });
+    expect(missing._unsafeUnwrapErr()).toMatchObject({ code: 'API_KEY_MISSING', statusCode: 401 });
+
+    const unknown = await service.authenticate({ key: 'vdk_unknown', scope: 'products:read' });
+    expect(unknown._unsafeUnwrapErr()).toMatchObject({ code: 'API_KEY_INVALID', statusCode: 401 });
+    expect(getByHash).toHaveBeenCalledWith(hashApiKey('vdk_unknown'));
+
+    getByHash.mockResolvedValue(makeRecord({ revokedAt: new Date('2026-05-02T12:00:00.000Z') }));
+    const revoked = await service.authenticate({ key: 'vdk_revoked', scope: 'products:read' });
+    expect(revoked._unsafeUnwrapErr().code).toBe('API_KEY_INVALID');
+  });
+
+  it('rejects keys without the requested scope', async () => {
+    const service = new ApiKeyService();
+    vi.spyOn((service as any).apiKeyRepository, 'getByHash').mockResolvedValue(makeRecord());
+    const touchLastUsed = vi.spyOn((service as any).apiKeyRepository, 'touchLastUsed');
+
+    const result = await service.authenticate({ key: 'vdk_key', scope: 'points:write' });
+
+    expect(result._unsafeUnwrapErr()).toMatchObject({ code: 'API_KEY_SCOPE_DENIED', statusCode: 403 });
+    expect(touchLastUsed).not.toHaveBeenCalled();
+  });
+
+  it('rejects keys of suspended workspaces', async () => {
+    const service = new ApiKeyService();
+    vi.spyOn((service as any).apiKeyRepository, 'getByHash').mockResolvedValue(makeRecord());
+    vi.spyOn((service as any).authorizationService, 'ensureTenantIsActive').mockResolvedValue(
+      err(new AppError('TENANT_SUSPENDED', 'Tenant is suspended', 403)),
+    );
+
+    const result = await service.authenticate({ key: 'vdk_key', scope: 'orders:read' });
+
+    expect(result._unsafeUnwrapErr().code).toBe('TENANT_SUSPENDED');
+  });
+
+  it('acts as the key creator and throttles last used updates', async () => {
+    const service = new ApiKeyService();
+    const getByHash = vi.spyOn((service as any).apiKeyRepository, 'getByHash').mockResolvedValue(makeRecord());
+    vi.spyOn((service as any).authorizationService, 'ensureTenantIsActive').mockResolvedValue(ok(undefined));
+    const touchLastUsed = vi
+      .spyOn((service as any).apiKeyRepository, 'touchLastUsed')
+      .mockResolvedValue(undefined);
+
+    const result = await service.authenticate({ key: 'vdk_key', scope: 'orders:read' });
+
+    expect(result._unsafeUnwrap()).toMatchObject({
+      apiKeyId: 'api-key-1',
+      tenantId: 'tenant-1',
+      actor: {
+        userId: 'user-1',
+        discordUserId: 'discord-user-1',
+        isSuperAdmin: false,
+        tenantIds: ['tenant-1'],
+      },
+    });
+    expect(touchLastUsed).toHaveBeenCalledTimes(1);
+
+    getByHash.mockResolvedValue(makeRecord({ lastUsedAt: new Date(Date.now() - 5_000) }));
+    await service.authenticate({ key: 'vdk_key', scope: 'orders:read' });
+    expect(touchLastUsed).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  evaluateAutomaticDiscounts,
+  normalizePriceTiers,
+  resolveTierPriceMinor,
+  type AutomaticDiscountBasketLine,
+  type AutomaticDiscountRule,
+} from '../src/services/automatic-discounts.js';
+
+function makeLine(overrides: Partial<AutomaticDiscountBasketLine> = {}): AutomaticDiscountBasketLine {
+  return {
+    category: 'Keys',
+    productName: 'Game Key',
+    variantId: 'variant-1',
+    variantLabel: 'Standard',
+    priceMinor: 500,
+    currency: 'GBP',
+    ...overrides,
+  };
+}
+
+function makeRule(overrides: Partial<AutomaticDiscountRule> = {}): AutomaticDiscountRule {
+  return {
+    id: 'rule-1',
+    name: 'Rule',
+    ruleType: 'spend_threshold',
+    minSubtotalMinor: 0,
+    discountPercent: 0,
+    category: null,
+    buyQuantity: 0,
+    freeQuantity: 0,
+    ...overrides,
+  };
+}
+
+describe('automatic discounts', () => {
+  it('normalizes tiers and picks the deepest breakpoint reached', () => {
+    const tiers = normalizePriceTiers([
+      { minQuantity: 50, priceMinor: 400 },
+      { minQuantity: 1, priceMinor: 100 },
+      { minQuantity: 10, priceMinor: 450 },
+      { minQuantity: 10, priceMinor: 440 },
+    ]);
+
+    expect(tiers).toEqual([
+      { minQuantity: 10, priceMinor: 440 },
+      { minQuantity: 50, priceMinor: 400 },
+    ]);
+    expect(resolveTierPriceMinor(500, tiers, 9)).toBe(500);
+    expect(resolveTierPriceMinor(500, tiers, 10)).toBe(440);
+    expect(resolveTierPriceMinor(500, tiers, 75)).toBe(400);
+    expect(resolveTierPriceMinor(300, tiers, 75)).toBe(300);
+  });
+
+  it('prices every unit of a price option at its tier across split basket lines', () => {
+    const result = evaluateAutomaticDiscounts({
+      lines: [
+        makeLine({ quantity: 6, priceTiers: [{ minQuantity: 10, priceMinor: 400 }] }),
+        makeLine({ quantity: 4, priceTiers: [{ minQuantity: 10, priceMinor: 400 }] }),
+      ],
+      rules: [],
+    });
+
+    expect(result.discounts).toEqual([
+      { label: 'Volume price: Game Key / Standard (10 at £4.00 each)', amountMinor: 1000 },
+    ]);
+    expect(result.lineDiscountsMinor).toEqual([600, 400]);
+    expect(result.totalDiscountMinor).toBe(1000);
+  });
+
+  it('makes the cheapest matching units free for buy X get Y rules', () => {
+    const result = evaluateAutomaticDiscounts({
+      lines: [
+        makeLine({ quantity: 3 }),
+        makeLine({ variantId: 'variant-2', priceMinor: 200 }),
+        makeLine({ variantId: 'variant-3', category: 'Boosts', priceMinor: 100 }),
+      ],
+      rules: [
+        makeRule({
+          name: 'Buy 3 keys, get 1 free',
+          ruleType: 'buy_x_get_y',
+          category: 'keys',
+          buyQuantity: 3,
+          freeQuantity: 1,
+        }),
+      ],
+    });
+
+    expect(result.discounts).toEqual([{ label: 'Buy 3 keys, get 1 free', amountMinor: 200 }]);
+    expect(result.lineDiscountsMinor).toEqual([0, 200, 0]);
+  });
+
+  it('applies spend thresholds after tiers and deals, skipping baskets under the threshold', () => {
+    const rules = [
+      makeRule({ name: 'Spend £40, save 10%', minSubtotalMinor: 4000, discountPercent: 10 }),
+      makeRule({ id: 'rule-2', name: 'Buy 4 get 1', ruleType: 'buy_x_get_y', buyQuantity: 4, freeQuantity: 1 }),
+    ];
+
+    const result = evaluateAutomaticDiscounts({
+      lines: [makeLine({ quantity: 10, priceTiers: [{ minQuantity: 10, priceMinor: 450 }] })],
+      rules,
+    });
+
+    // £45.00 after the tier, less two free units, leaves £36.00: under the £40 threshold.
+    expect(result.discounts).toEqual([
+      { label: 'Volume price: Game Key / Standard (10 at £4.50 each)', amountMinor: 500 },
+      { label: 'Buy 4 get 1', amountMinor: 900 },
+    ]);
+    expect(result.totalDiscountMinor).toBe(1400);
+
+    const bigBasket = evaluateAutomaticDiscounts({ lines: [makeLine({ quantity: 12 })], rules: [rules[0]!] });
+    expect(bigBasket.discounts).toEqual([{ label: 'Spend £40, save 10%', amountMinor: 600 }]);
+  });
+});
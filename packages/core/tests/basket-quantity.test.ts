@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  describeQuantityViolation,
+  getLineTotalMinor,
+  groupBasketLines,
+  parseQuantityInput,
+  resolveQuantityRange,
+} from '../src/services/basket-quantity.js';
+
+describe('basket quantities', () => {
+  it('treats lines without a quantity as one unit', () => {
+    expect(getLineTotalMinor({ priceMinor: 500 })).toBe(500);
+    expect(getLineTotalMinor({ priceMinor: 500, quantity: 3 })).toBe(1500);
+    expect(getLineTotalMinor({ priceMinor: 500, quantity: 0 })).toBe(500);
+  });
+
+  it('validates quantities against price option limits', () => {
+    expect(resolveQuantityRange({ minQuantity: 2, maxQuantity: null })).toEqual({ min: 2, max: 999 });
+    expect(describeQuantityViolation(3, { minQuantity: 2, maxQuantity: 5 })).toBeNull();
+    expect(describeQuantityViolation(6, { minQuantity: 2, maxQuantity: 5 })).toBe(
+      'Quantity must be a whole number from 2 to 5.',
+    );
+    expect(describeQuantityViolation(1, { minQuantity: 10, maxQuantity: 10 })).toBe('Quantity must be 10.');
+  });
+
+  it('parses typed quantities', () => {
+    expect(parseQuantityInput(' 4 ')).toBe(4);
+    expect(parseQuantityInput('x3')).toBe(3);
+    expect(parseQuantityInput('2.5')).toBeNull();
+    expect(parseQuantityInput('lots')).toBeNull();
+  });
+
+  it('groups repeated price options for display', () => {
+    const grouped = groupBasketLines([
+      { variantId: 'v1', priceMinor: 500, label: 'Standard' },
+      { variantId: 'v2', priceMinor: 900, label: 'Premium', quantity: 2 },
+      { variantId: 'v1', priceMinor: 500, label: 'Standard', quantity: 2 },
+    ]);
+
+    expect(grouped).toEqual([
+      { variantId: 'v1', priceMinor: 500, label: 'Standard', quantity: 3 },
+      { variantId: 'v2', priceMinor: 900, label: 'Premium', quantity: 2 },
+    ]);
+  });
+});
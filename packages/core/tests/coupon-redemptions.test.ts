@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import type { OrderSessionRecord } from '../src/repositories/order-repository.js';
+import { CouponService } from '../src/services/coupon-service.js';
+
+function makeOrderSession(overrides: Partial<OrderSessionRecord> = {}): OrderSessionRecord {
+  return {
+    id: 'order-session-1',
+    tenantId: 'tenant-1',
+    guildId: 'guild-1',
+    ticketChannelId: 'ticket-1',
+    staffUserId: 'staff-1',
+    customerDiscordId: 'customer-1',
+    productId: 'product-1',
+    variantId: 'variant-1',
+    basketItems: [],
+    automaticDiscountMinor: 0,
+    automaticDiscounts: [],
+    couponCode: 'SPRING',
+    couponDiscountMinor: 300,
+    customerEmailNormalized: 'customer@example.com',
+    pointsReserved: 0,
+    pointsDiscountMinor: 0,
+    pointsReservationState: 'none',
+    pointsConfigSnapshot: {
+      pointValueMinor: 1,
+      earnCategoryKeys: [],
+      redeemCategoryKeys: [],
+    },
+    referralRewardMinorSnapshot: 0,
+    tipMinor: 0,
+    subtotalMinor: 2000,
+    totalMinor: 1700,
+    status: 'pending_payment',
+    answers: {},
+    checkoutUrl: null,
+    checkoutUrlCrypto: null,
+    checkoutTokenExpiresAt: new Date('2026-05-01T12:30:00.000Z'),
+    checkoutMessageChannelId: null,
+    checkoutMessageId: null,
+    ...overrides,
+  };
+}
+
+describe('coupon redemption ledger', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('records paid orders that used a coupon against the coupon id', async () => {
+    const service = new CouponService();
+
+    vi.spyOn((service as any).couponRepository, 'getByCode').mockResolvedValue({ id: 'coupon-1' });
+    const recordRedemption = vi
+      .spyOn((service as any).couponRedemptionRepository, 'recordRedemption')
+      .mockResolvedValue({ created: true });
+
+    const result = await service.recordRedemptionForPaidOrder({
+      orderSession: makeOrderSession(),
+      paidOrderId: 'paid-order-1',
+      totalMinor: 1700,
+      currency: 'GBP',
+    });
+
+    expect(result.isOk() && result.value).toBe(true);
+    expect(recordRedemption).toHaveBeenCalledWith({
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      couponId: 'coupon-1',
+      couponCode: 'SPRING',
+      orderSessionId: 'order-session-1',
+      paidOrderId: 'paid-order-1',
+      customerDiscordId: 'customer-1',
+      customerEmailNormalized: 'customer@example.com',
+      discountMinor: 300,
+      subtotalMinor: 2000,
+      totalMinor: 1700,
+      currency: 'GBP',
+    });
+  });
+
+  it('keeps the redemption when the coupon was deleted before payment', async () => {
+    const service = new CouponService();
+
+    vi.spyOn((service as any).couponRepository, 'getByCode').mockResolvedValue(null);
+    const recordRedemption = vi
+      .spyOn((service as any).couponRedemptionRepository, 'recordRedemption')
+      .mockResolvedValue({ created: false });
+
+    const result = await service.recordRedemptionForPaidOrder({
+      orderSession: makeOrderSession(),
+      paidOrderId: 'paid-order-1',
+      totalMinor: 1700,
+      currency: 'GBP',
+    });
+
+    expect(result.isOk() && result.value).toBe(false);
+    expect(recordRedemption).toHaveBeenCalledWith(expect.objectContaining({ couponId: null }));
+  });
+
+  it('skips orders without a coupon discount', async () => {
+    const service = new CouponService();
+    const recordRedemption = vi.spyOn((service as any).couponRedemptionRepository, 'recordRedemption');
+
+    const result = await service.recordRedemptionForPaidOrder({
+      orderSession: makeOrderSession({ couponCode: null, couponDiscountMinor: 0 }),
+      paidOrderId: 'paid-order-1',
+      totalMinor: 2000,
+      currency: 'GBP',
+    });
+
+    expect(result.isOk() && result.value).toBe(false);
+    expect(recordRedemption).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,212 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ok } from 'neverthrow';
+
+import type { CouponRecord } from '../src/repositories/coupon-repository.js';
+import {
+  computeCouponDiscountForSubtotal,
+  describeCouponRules,
+  evaluateCouponRules,
+  type CouponRuleConfig,
+} from '../src/services/coupon-rules.js';
+import { CouponService } from '../src/services/coupon-service.js';
+
+function makeCoupon(overrides: Partial<CouponRuleConfig> = {}): CouponRuleConfig {
+  return {
+    code: 'SPRING',
+    active: true,
+    discountType: 'fixed',
+    discountMinor: 500,
+    discountPercent: 0,
+    maxDiscountMinor: null,
+    minSubtotalMinor: 0,
+    startsAt: null,
+    endsAt: null,
+    maxRedemptions: null,
+    maxRedemptionsPerCustomer: null,
+    allowedCategories: [],
+    allowedProductIds: [],
+    allowedVariantIds: [],
+    ...overrides,
+  };
+}
+
+const lines = [
+  { category: 'accounts', productId: 'p1', variantId: 'v1', priceMinor: 2000 },
+  { category: 'boosting', productId: 'p2', variantId: 'v2', priceMinor: 1000 },
+];
+const now = new Date('2026-05-01T12:00:00.000Z');
+const noRedemptions = { total: 0, customer: 0 };
+
+describe('coupon rules', () => {
+  it('applies percentage discounts with an optional cap', () => {
+    const percent = makeCoupon({ discountType: 'percent', discountPercent: 15 });
+
+    expect(computeCouponDiscountForSubtotal(percent, 3000)).toBe(450);
+    expect(computeCouponDiscountForSubtotal({ ...percent, maxDiscountMinor: 300 }, 3000)).toBe(300);
+    expect(computeCouponDiscountForSubtotal(makeCoupon({ discountMinor: 5000 }), 3000)).toBe(3000);
+  });
+
+  it('only discounts the eligible part of the basket', () => {
+    const result = evaluateCouponRules({
+      coupon: makeCoupon({ discountType: 'percent', discountPercent: 50, allowedCategories: ['Boosting'] }),
+      lines,
+      redemptions: noRedemptions,
+      currency: 'GBP',
+      now,
+    });
+
+    expect(result.isOk() && result.value).toBe(500);
+  });
+
+  it('rejects coupons outside their schedule', () => {
+    const notStarted = evaluateCouponRules({
+      coupon: makeCoupon({ startsAt: new Date('2026-05-02T00:00:00.000Z') }),
+      lines,
+      redemptions: noRedemptions,
+      currency: 'GBP',
+      now,
+    });
+    const expired = evaluateCouponRules({
+      coupon: makeCoupon({ endsAt: new Date('2026-05-01T12:00:00.000Z') }),
+      lines,
+      redemptions: noRedemptions,
+      currency: 'GBP',
+      now,
+    });
+
+    expect(notStarted.isErr() && notStarted.error.code).toBe('COUPON_NOT_STARTED');
+    expect(expired.isErr() && expired.error.code).toBe('COUPON_EXPIRED');
+    expect(expired.isErr() && expired.error.message).toBe('Coupon SPRING expired on 2026-05-01 12:00 UTC.');
+  });
+
+  it('enforces global and per-customer redemption limits', () => {
+    const coupon = makeCoupon({ maxRedemptions: 10, maxRedemptionsPerCustomer: 1 });
+
+    const globalLimit = evaluateCouponRules({
+      coupon,
+      lines,
+      redemptions: { total: 10, customer: 0 },
+      currency: 'GBP',
+      now,
+    });
+    const customerLimit = evaluateCouponRules({
+      coupon,
+      lines,
+      redemptions: { total: 3, customer: 1 },
+      currency: 'GBP',
+      now,
+    });
+    const unknownCustomer = evaluateCouponRules({
+      coupon,
+      lines,
+      redemptions: { total: 3, customer: null },
+      currency: 'GBP',
+      now,
+    });
+
+    expect(globalLimit.isErr() && globalLimit.error.code).toBe('COUPON_REDEMPTION_LIMIT_REACHED');
+    expect(customerLimit.isErr() && customerLimit.error.code).toBe('COUPON_CUSTOMER_LIMIT_REACHED');
+    expect(unknownCustomer.isOk()).toBe(true);
+  });
+
+  it('requires the minimum basket subtotal', () => {
+    const result = evaluateCouponRules({
+      coupon: makeCoupon({ minSubtotalMinor: 5000 }),
+      lines,
+      redemptions: noRedemptions,
+      currency: 'GBP',
+      now,
+    });
+
+    expect(result.isErr() && result.error.code).toBe('COUPON_MIN_SUBTOTAL_NOT_MET');
+    expect(result.isErr() && result.error.message).toBe(
+      'Coupon SPRING needs a basket subtotal of at least £50.00.',
+    );
+  });
+
+  it('describes every configured rule', () => {
+    expect(
+      describeCouponRules(
+        makeCoupon({
+          discountType: 'percent',
+          discountPercent: 20,
+          maxDiscountMinor: 1000,
+          minSubtotalMinor: 2500,
+          endsAt: new Date('2026-06-01T00:00:00.000Z'),
+          maxRedemptionsPerCustomer: 1,
+        }),
+        'GBP',
+      ),
+    ).toEqual([
+      '20% off (up to £10.00)',
+      'Minimum basket: £25.00',
+      'Ends: 2026-06-01 00:00 UTC',
+      'Limited to 1 use(s) per customer',
+    ]);
+  });
+});
+
+describe('CouponService.evaluateCouponForBasket', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('counts paid redemptions and open checkouts for the customer before applying the coupon', async () => {
+    const service = new CouponService();
+    const coupon: CouponRecord = {
+      ...makeCoupon({ maxRedemptionsPerCustomer: 1 }),
+      id: 'coupon-1',
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    vi.spyOn((service as any).guildFeatureService, 'ensureFeatureEnabled').mockResolvedValue(ok(undefined));
+    vi.spyOn((service as any).couponRepository, 'getByCode').mockResolvedValue(coupon);
+    const countOpenCheckouts = vi
+      .spyOn((service as any).couponRepository, 'countOpenCheckouts')
+      .mockResolvedValue({ total: 1, customer: 0 });
+    vi.spyOn((service as any).couponRedemptionRepository, 'countActiveRedemptions').mockResolvedValue({
+      total: 3,
+      customer: 1,
+    });
+
+    const result = await service.evaluateCouponForBasket({
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      couponCode: ' spring ',
+      basketItems: lines,
+      currency: 'GBP',
+      customerEmailNormalized: 'customer@example.com',
+      customerDiscordId: 'customer-1',
+    });
+
+    expect(countOpenCheckouts).toHaveBeenCalledWith(
+      expect.objectContaining({
+        code: 'SPRING',
+        customerEmailNormalized: 'customer@example.com',
+        customerDiscordId: 'customer-1',
+      }),
+    );
+    expect(result.isErr() && result.error.code).toBe('COUPON_CUSTOMER_LIMIT_REACHED');
+  });
+
+  it('reports unknown codes as not found', async () => {
+    const service = new CouponService();
+
+    vi.spyOn((service as any).guildFeatureService, 'ensureFeatureEnabled').mockResolvedValue(ok(undefined));
+    vi.spyOn((service as any).couponRepository, 'getByCode').mockResolvedValue(null);
+
+    const result = await service.evaluateCouponForBasket({
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      couponCode: 'missing',
+      basketItems: lines,
+      currency: 'GBP',
+    });
+
+    expect(result.isErr() && result.error.code).toBe('COUPON_NOT_FOUND');
+    expect(result.isErr() && result.error.statusCode).toBe(404);
+  });
+});
@@ -38,6 +38,22 @@ describe('coupon scope', () => {
     expect(eligible).toBe(700);
   });
 
+  it('counts every unit of a line with a quantity', () => {
+    const eligible = computeCouponEligibleSubtotalMinor(
+      {
+        allowedCategories: [],
+        allowedProductIds: [],
+        allowedVariantIds: ['v2'],
+      },
+      [
+        { category: 'accounts', productId: 'p1', variantId: 'v1', priceMinor: 500, quantity: 2 },
+        { category: 'boosting', productId: 'p2', variantId: 'v2', priceMinor: 700, quantity: 3 },
+      ],
+    );
+
+    expect(eligible).toBe(2100);
+  });
+
   it('filters by variant ids when variation scope is set', () => {
     const eligible = computeCouponEligibleSubtotalMinor(
       {
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  evaluateCryptoPaymentAmount,
+  parseCoinAmount,
+  resolveVoodooCoinPath,
+} from '../src/services/crypto-amount-check.js';
+
+describe('crypto amount check', () => {
+  it('maps Voodoo Pay coin ids to API paths', () => {
+    expect(resolveVoodooCoinPath('btc')).toBe('btc');
+    expect(resolveVoodooCoinPath('TRC20_USDT')).toBe('trc20/usdt');
+    expect(resolveVoodooCoinPath('arbitrum_usdc.e')).toBe('arbitrum/usdc.e');
+    expect(resolveVoodooCoinPath('../btc')).toBeNull();
+    expect(resolveVoodooCoinPath('')).toBeNull();
+    expect(resolveVoodooCoinPath(null)).toBeNull();
+  });
+
+  it('parses positive coin amounts only', () => {
+    expect(parseCoinAmount('0.00123')).toBe(0.00123);
+    expect(parseCoinAmount('0')).toBeNull();
+    expect(parseCoinAmount('abc')).toBeNull();
+    expect(parseCoinAmount(undefined)).toBeNull();
+  });
+
+  it('flags underpayment beyond the tolerance', () => {
+    expect(
+      evaluateCryptoPaymentAmount({
+        totalMinor: 2000,
+        expectedCoinAmount: 20,
+        receivedCoinAmount: 19.9,
+        tolerancePercent: 1,
+        reportOverpayment: true,
+      }),
+    ).toEqual({ status: 'matched', receivedMinor: 1990, differenceMinor: -10 });
+
+    expect(
+      evaluateCryptoPaymentAmount({
+        totalMinor: 2000,
+        expectedCoinAmount: 20,
+        receivedCoinAmount: 15,
+        tolerancePercent: 1,
+        reportOverpayment: true,
+      }),
+    ).toEqual({ status: 'underpaid', receivedMinor: 1500, differenceMinor: -500 });
+  });
+
+  it('only reports overpayment when asked to', () => {
+    const input = {
+      totalMinor: 2000,
+      expectedCoinAmount: 20,
+      receivedCoinAmount: 22,
+      tolerancePercent: 1,
+    };
+
+    expect(evaluateCryptoPaymentAmount({ ...input, reportOverpayment: true })).toEqual({
+      status: 'overpaid',
+      receivedMinor: 2200,
+      differenceMinor: 200,
+    });
+    expect(evaluateCryptoPaymentAmount({ ...input, reportOverpayment: false }).status).toBe('matched');
+  });
+
+  it('treats an exact payment as matched with zero tolerance', () => {
+    expect(
+      evaluateCryptoPaymentAmount({
+        totalMinor: 999,
+        expectedCoinAmount: 0.1 + 0.2,
+        receivedCoinAmount: 0.3,
+        tolerancePercent: 0,
+        reportOverpayment: true,
+      }).status,
+    ).toBe('matched');
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  describeAmountExample,
+  formatCurrencyMinor,
+  formatMinorAsMajor,
+  getCurrencyExponent,
+  majorToMinor,
+  normalizeCurrencyCode,
+  parseMajorToMinor,
+} from '../src/utils/currency.js';
+
+describe('currency', () => {
+  it('knows minor-unit exponents for zero- and three-decimal currencies', () => {
+    expect(getCurrencyExponent('GBP')).toBe(2);
+    expect(getCurrencyExponent('jpy')).toBe(0);
+    expect(getCurrencyExponent('KWD')).toBe(3);
+    expect(getCurrencyExponent('XYZ')).toBe(2);
+  });
+
+  it('rejects invalid codes instead of substituting the default currency', () => {
+    expect(normalizeCurrencyCode(' usd ')).toBe('USD');
+    expect(normalizeCurrencyCode('pounds')).toBeNull();
+    expect(normalizeCurrencyCode(null)).toBeNull();
+    expect(formatCurrencyMinor(1250, 'pounds')).toBe('12.50 POUNDS');
+  });
+
+  it('formats plain decimal amounts with the currency precision', () => {
+    expect(formatMinorAsMajor(1250, 'GBP')).toBe('12.50');
+    expect(formatMinorAsMajor(1500, 'JPY')).toBe('1500');
+    expect(formatMinorAsMajor(1250, 'KWD')).toBe('1.250');
+    expect(majorToMinor(12.5, 'GBP')).toBe(1250);
+    expect(majorToMinor(1500, 'JPY')).toBe(1500);
+  });
+
+  it('formats amounts with their currency symbol', () => {
+    expect(formatCurrencyMinor(1250, 'GBP')).toBe('£12.50');
+    expect(formatCurrencyMinor(150000, 'JPY')).toBe('JP¥150,000');
+    expect(formatCurrencyMinor(1250, 'KWD')).toMatch(/^KWD\s1\.250$/);
+  });
+
+  it('parses staff-entered amounts per currency', () => {
+    expect(parseMajorToMinor('2.50', 'GBP')).toBe(250);
+    expect(parseMajorToMinor('2.5', 'GBP')).toBe(250);
+    expect(parseMajorToMinor('1,500', 'JPY')).toBe(1500);
+    expect(parseMajorToMinor('1.5', 'KWD')).toBe(1500);
+    expect(parseMajorToMinor('2.505', 'GBP')).toBeNull();
+    expect(parseMajorToMinor('1.5', 'JPY')).toBeNull();
+    expect(parseMajorToMinor('-1', 'GBP')).toBeNull();
+    expect(parseMajorToMinor('abc', 'GBP')).toBeNull();
+  });
+
+  it('describes example amounts for prompts', () => {
+    expect(describeAmountExample('GBP')).toBe('2.50');
+    expect(describeAmountExample('JPY')).toBe('250');
+    expect(describeAmountExample('KWD')).toBe('2.500');
+  });
+});
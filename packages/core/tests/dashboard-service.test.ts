@@ -22,6 +22,7 @@ function makeGuildConfig(overrides: Partial<GuildConfigRecord> = {}): GuildConfi
     tenantId: 'tenant-1',
     guildId: 'guild-1',
     paidLogChannelId: null,
+    lowStockAlertChannelId: null,
     staffRoleIds: [],
     defaultCurrency: 'GBP',
     couponsEnabled: true,
@@ -29,6 +30,13 @@ function makeGuildConfig(overrides: Partial<GuildConfigRecord> = {}): GuildConfi
     referralsEnabled: true,
     telegramEnabled: true,
     tipEnabled: false,
+    checkoutExpiryMinutes: 30,
+    subscriptionReminderDays: 3,
+    subscriptionGraceDays: 3,
+    invoiceStoreName: '',
+    invoiceStoreDetails: '',
+    invoiceTaxRateBps: 0,
+    selfServiceEnabled: false,
     pointsEarnCategoryKeys: [],
     pointsRedeemCategoryKeys: [],
     pointValueMinor: 100,
@@ -75,6 +83,16 @@ function makePaidOrder(overrides: Partial<PaidOrderRecord> = {}): PaidOrderRecor
     fulfillmentStatus: 'needs_action',
     fulfilledAt: null,
     fulfilledByDiscordUserId: null,
+    refundStatus: 'none',
+    refundReason: null,
+    refundedMinor: 0,
+    refundedAt: null,
+    amountCheck: 'not_checked',
+    paymentCoin: null,
+    paymentCoinAmount: null,
+    expectedCoinAmount: null,
+    receivedMinor: null,
+    invoiceNumber: 1,
     paidAt: new Date('2026-03-25T00:30:00.000Z'),
     createdAt: new Date('2026-03-25T00:35:00.000Z'),
     updatedAt: new Date('2026-03-25T00:35:00.000Z'),
@@ -106,6 +124,7 @@ function makePaidOrderWithSession(
         currency: 'GBP',
       },
     ],
+    automaticDiscounts: [],
     ...overrides,
   };
 }
@@ -142,6 +161,7 @@ describe('dashboard service', () => {
       checkoutDomain: 'checkout.voodoo-pay.uk',
       cryptoGatewayEnabled: true,
       cryptoAddFees: false,
+      cryptoUnderpaymentTolerancePercent: 1,
       cryptoWallets: {
         evm: '0xabc',
         btc: '',
@@ -196,7 +216,10 @@ describe('dashboard service', () => {
       customerDiscordId: 'customer-1',
       productId: 'product-1',
       variantId: 'variant-1',
+      source: 'self_service',
       basketItems: [],
+      automaticDiscountMinor: 0,
+      automaticDiscounts: [],
       couponCode: null,
       couponDiscountMinor: 0,
       customerEmailNormalized: 'customer@example.com',
@@ -247,6 +270,7 @@ describe('dashboard service', () => {
     expect(result.value.recentSales[0]).toMatchObject({
       customerEmail: 'customer@example.com',
       ticketChannelId: 'ticket-1',
+      source: 'self_service',
       productId: 'product-1',
       variantId: 'variant-1',
       priceMinor: 1200,
@@ -317,6 +341,7 @@ describe('dashboard service', () => {
         currency: 'USD',
         paymentReference: 'tx-123',
         paidAt: new Date('2026-03-26T09:15:00.000Z'),
+        automaticDiscounts: [{ label: 'Spend $10, save 10%', amountMinor: 120 }],
       }),
       makePaidOrderWithSession({
         id: 'paid-order-2',
@@ -351,6 +376,7 @@ describe('dashboard service', () => {
       productName: 'Starter Package',
       variantLabel: 'Gold Plan',
       paidDateKey: '2026-03-26',
+      automaticDiscounts: [{ label: 'Spend $10, save 10%', amountMinor: 120 }],
     });
 
     const emailResult = await service.listGuildSales(makeSession(), {
@@ -386,6 +412,63 @@ describe('dashboard service', () => {
     expect(dateResult.value.sales[0]?.paidDateKey).toBe('2026-03-26');
   });
 
+  it('reports refunded sales and net revenue', async () => {
+    const service = new DashboardService();
+
+    vi.spyOn((service as any).authorizationService, 'ensureTenantRole').mockResolvedValue(ok(undefined));
+    vi.spyOn((service as any).authorizationService, 'ensureGuildBoundToTenant').mockResolvedValue(ok(undefined));
+    vi.spyOn((service as any).tenantRepository, 'getGuildConfig').mockResolvedValue(makeGuildConfig());
+    vi.spyOn((service as any).orderRepository, 'listPaidOrdersWithSessionsByGuild').mockResolvedValue([
+      makePaidOrderWithSession({
+        id: 'paid-order-1',
+        orderSessionId: 'session-1',
+        refundStatus: 'partially_refunded',
+        refundReason: 'refund',
+        refundedMinor: 200,
+        refundedAt: new Date('2026-03-26T09:15:00.000Z'),
+      }),
+      makePaidOrderWithSession({
+        id: 'paid-order-2',
+        orderSessionId: 'session-2',
+        priceMinor: 1800,
+      }),
+    ]);
+
+    const result = await service.listGuildSales(makeSession(), {
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      range: 'all',
+    });
+
+    expect(result.isOk()).toBe(true);
+    if (result.isErr()) {
+      return;
+    }
+
+    expect(result.value.totalSalesMinor).toBe(3000);
+    expect(result.value.refundedSalesMinor).toBe(200);
+    expect(result.value.netSalesMinor).toBe(2800);
+    expect(result.value.refundedSalesCount).toBe(1);
+    expect(result.value.sales[0]).toMatchObject({
+      refundStatus: 'partially_refunded',
+      netMinor: 1000,
+    });
+
+    const searchResult = await service.listGuildSales(makeSession(), {
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      range: 'all',
+      search: 'partially refunded',
+    });
+
+    expect(searchResult.isOk()).toBe(true);
+    if (searchResult.isErr()) {
+      return;
+    }
+
+    expect(searchResult.value.sales.map((sale) => sale.orderSessionId)).toEqual(['session-1']);
+  });
+
   it('rejects invalid custom sales ranges', async () => {
     const service = new DashboardService();
 
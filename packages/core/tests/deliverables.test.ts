@@ -0,0 +1,325 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { getEnv } from '../src/config/env.js';
+import type { DeliverableRecord } from '../src/repositories/deliverable-repository.js';
+import type { OrderSessionRecord, PaidOrderRecord } from '../src/repositories/order-repository.js';
+import { encryptSecret } from '../src/security/encryption.js';
+import { DeliverableService } from '../src/services/deliverable-service.js';
+import { buildDeliveryMessages, maskDeliverable, parseDeliverableCsv } from '../src/services/deliverables.js';
+
+function makeOrderSession(overrides: Partial<OrderSessionRecord> = {}): OrderSessionRecord {
+  return {
+    id: 'order-session-1',
+    tenantId: 'tenant-1',
+    guildId: 'guild-1',
+    ticketChannelId: 'ticket-1',
+    staffUserId: 'staff-1',
+    customerDiscordId: 'customer-1',
+    productId: 'product-1',
+    variantId: 'variant-1',
+    basketItems: [
+      {
+        productId: 'product-1',
+        productName: 'Game Key',
+        category: 'Keys',
+        variantId: 'variant-1',
+        variantLabel: 'Steam',
+        priceMinor: 1000,
+        currency: 'GBP',
+      },
+      {
+        productId: 'product-1',
+        productName: 'Game Key',
+        category: 'Keys',
+        variantId: 'variant-1',
+        variantLabel: 'Steam',
+        priceMinor: 1000,
+        currency: 'GBP',
+      },
+    ],
+    automaticDiscountMinor: 0,
+    automaticDiscounts: [],
+    couponCode: null,
+    couponDiscountMinor: 0,
+    customerEmailNormalized: 'customer@example.com',
+    pointsReserved: 0,
+    pointsDiscountMinor: 0,
+    pointsReservationState: 'none',
+    pointsConfigSnapshot: {
+      pointValueMinor: 1,
+      earnCategoryKeys: [],
+      redeemCategoryKeys: [],
+    },
+    stockReservations: [],
+    stockReservationState: 'none',
+    fxRatesSnapshot: [],
+    formSnapshot: null,
+    subscriptionId: null,
+    source: 'staff',
+    referralRewardMinorSnapshot: 0,
+    tipMinor: 0,
+    subtotalMinor: 2000,
+    totalMinor: 2000,
+    status: 'paid',
+    answers: {},
+    checkoutUrl: null,
+    checkoutUrlCrypto: null,
+    checkoutTokenExpiresAt: new Date('2026-05-01T12:00:00.000Z'),
+    checkoutMessageChannelId: null,
+    checkoutMessageId: null,
+    ...overrides,
+  };
+}
+
+function makePaidOrder(overrides: Partial<PaidOrderRecord> = {}): PaidOrderRecord {
+  return {
+    id: 'paid-order-1',
+    tenantId: 'tenant-1',
+    guildId: 'guild-1',
+    orderSessionId: 'order-session-1',
+    wooOrderId: 'woo-1',
+    status: 'paid',
+    priceMinor: 2000,
+    currency: 'GBP',
+    paymentReference: null,
+    fulfillmentStatus: 'needs_action',
+    fulfilledAt: null,
+    fulfilledByDiscordUserId: null,
+    refundStatus: 'none',
+    refundReason: null,
+    refundedMinor: 0,
+    refundedAt: null,
+    amountCheck: 'not_checked',
+    paymentCoin: null,
+    paymentCoinAmount: null,
+    expectedCoinAmount: null,
+    receivedMinor: null,
+    invoiceNumber: 1,
+    paidAt: new Date('2026-05-01T12:00:00.000Z'),
+    createdAt: new Date('2026-05-01T12:00:00.000Z'),
+    updatedAt: new Date('2026-05-01T12:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+function makeClaimed(secret: string, id: string, status: DeliverableRecord['status'] = 'claimed'): DeliverableRecord {
+  return {
+    id,
+    tenantId: 'tenant-1',
+    guildId: 'guild-1',
+    productId: 'product-1',
+    variantId: 'variant-1',
+    secretEncrypted: encryptSecret(secret, getEnv().ENCRYPTION_KEY),
+    status,
+    orderSessionId: 'order-session-1',
+    paidOrderId: 'paid-order-1',
+    deliveredAt: status === 'delivered' ? new Date('2026-05-01T12:00:00.000Z') : null,
+    createdAt: new Date('2026-04-01T12:00:00.000Z'),
+  };
+}
+
+describe('deliverable helpers', () => {
+  it('parses CSV rows with quotes, headers and duplicates', () => {
+    const csv = ['key', 'AAAA-1111', '"BBBB,2222"', '"say ""hi""",', 'user@example.com, hunter2', 'AAAA-1111', ''].join(
+      '\r\n',
+    );
+
+    expect(parseDeliverableCsv(csv)).toEqual([
+      'AAAA-1111',
+      'BBBB,2222',
+      'say "hi"',
+      'user@example.com | hunter2',
+    ]);
+  });
+
+  it('masks keys for the dashboard', () => {
+    expect(maskDeliverable('ABCD-EFGH-IJKL-MNOP')).toBe('ABCD********MNOP');
+    expect(maskDeliverable('abc')).toBe('****');
+  });
+
+  it('splits long deliveries without breaking a key across messages', () => {
+    const messages = buildDeliveryMessages({
+      orderSessionId: 'order-session-1',
+      groups: [{ productName: 'Game Key', variantLabel: 'Steam', secrets: ['A'.repeat(40), 'B'.repeat(40)] }],
+      maxLength: 120,
+    });
+
+    expect(messages).toEqual([
+      `Your order is ready (Order Session: order-session-1)\n\nGame Key / Steam:\n${'A'.repeat(40)}`,
+      `Game Key / Steam: (continued)\n${'B'.repeat(40)}`,
+    ]);
+  });
+});
+
+describe('DeliverableService.fulfillPaidOrder', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('claims one key per basket line, delivers them and marks the order fulfilled', async () => {
+    const service = new DeliverableService();
+    const repository = (service as any).deliverableRepository;
+
+    vi.spyOn((service as any).orderRepository, 'getPaidOrderById').mockResolvedValue(makePaidOrder());
+    vi.spyOn(repository, 'countByVariants').mockResolvedValue([
+      { variantId: 'variant-1', available: 5, delivered: 0 },
+    ]);
+    vi.spyOn(repository, 'listClaimedByPaidOrder')
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([makeClaimed('KEY-ONE', 'd1'), makeClaimed('KEY-TWO', 'd2')]);
+    const claim = vi.spyOn(repository, 'claimForPaidOrder').mockResolvedValue(2);
+    const markDelivered = vi.spyOn(repository, 'markClaimsDelivered').mockResolvedValue(2);
+    const deliver = vi
+      .spyOn((service as any).paidOrderService, 'deliverOrderContentToCustomer')
+      .mockResolvedValue({ attempted: true, delivered: true, target: 'discord_dm', errorMessage: null });
+    const markFulfilled = vi
+      .spyOn((service as any).orderRepository, 'markPaidOrderFulfilled')
+      .mockResolvedValue(undefined);
+
+    const result = await service.fulfillPaidOrder({ orderSession: makeOrderSession(), paidOrderId: 'paid-order-1' });
+
+    expect(claim).toHaveBeenCalledWith(expect.objectContaining({ variantId: 'variant-1', quantity: 2 }));
+    expect(deliver).toHaveBeenCalledWith(
+      expect.objectContaining({ content: expect.stringContaining('KEY-ONE\nKEY-TWO') }),
+    );
+    expect(markDelivered).toHaveBeenCalledWith(
+      expect.objectContaining({ paidOrderId: 'paid-order-1', deliverableIds: ['d1', 'd2'] }),
+    );
+    expect(markFulfilled).toHaveBeenCalledWith({ paidOrderId: 'paid-order-1', actorDiscordUserId: null });
+    expect(result.isOk() && result.value).toEqual({
+      status: 'delivered',
+      fulfilled: true,
+      summaryLines: ['- Game Key / Steam: 2 delivered from pool', '- Sent via DM'],
+    });
+    expect(JSON.stringify(result.isOk() && result.value)).not.toContain('KEY-ONE');
+  });
+
+  it('leaves the order for staff when the pool runs short', async () => {
+    const service = new DeliverableService();
+    const repository = (service as any).deliverableRepository;
+
+    vi.spyOn((service as any).orderRepository, 'getPaidOrderById').mockResolvedValue(makePaidOrder());
+    vi.spyOn(repository, 'countByVariants').mockResolvedValue([
+      { variantId: 'variant-1', available: 1, delivered: 3 },
+    ]);
+    vi.spyOn(repository, 'listClaimedByPaidOrder')
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([makeClaimed('KEY-ONE', 'd1')]);
+    vi.spyOn(repository, 'claimForPaidOrder').mockResolvedValue(1);
+    vi.spyOn(repository, 'markClaimsDelivered').mockResolvedValue(1);
+    vi.spyOn((service as any).paidOrderService, 'deliverOrderContentToCustomer').mockResolvedValue({
+      attempted: true,
+      delivered: true,
+      target: 'discord_channel',
+      errorMessage: null,
+    });
+    const markFulfilled = vi.spyOn((service as any).orderRepository, 'markPaidOrderFulfilled');
+
+    const result = await service.fulfillPaidOrder({ orderSession: makeOrderSession(), paidOrderId: 'paid-order-1' });
+
+    expect(markFulfilled).not.toHaveBeenCalled();
+    expect(result.isOk() && result.value).toEqual({
+      status: 'partial',
+      fulfilled: false,
+      summaryLines: [
+        '- Game Key / Steam: 1/2 delivered, pool empty - deliver 1 manually',
+        '- Sent via ticket channel',
+      ],
+    });
+  });
+
+  it('returns claimed keys to the pool when the customer cannot be reached', async () => {
+    const service = new DeliverableService();
+    const repository = (service as any).deliverableRepository;
+
+    vi.spyOn((service as any).orderRepository, 'getPaidOrderById').mockResolvedValue(makePaidOrder());
+    vi.spyOn(repository, 'countByVariants').mockResolvedValue([
+      { variantId: 'variant-1', available: 5, delivered: 0 },
+    ]);
+    vi.spyOn(repository, 'listClaimedByPaidOrder')
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([makeClaimed('KEY-ONE', 'd1'), makeClaimed('KEY-TWO', 'd2')]);
+    vi.spyOn(repository, 'claimForPaidOrder').mockResolvedValue(2);
+    vi.spyOn((service as any).paidOrderService, 'deliverOrderContentToCustomer').mockResolvedValue({
+      attempted: true,
+      delivered: false,
+      target: 'discord_channel',
+      errorMessage: 'Missing Access',
+    });
+    const release = vi.spyOn(repository, 'releaseClaimsForPaidOrder').mockResolvedValue(2);
+
+    const result = await service.fulfillPaidOrder({ orderSession: makeOrderSession(), paidOrderId: 'paid-order-1' });
+
+    expect(release).toHaveBeenCalledWith({
+      tenantId: 'tenant-1',
+      paidOrderId: 'paid-order-1',
+      deliverableIds: ['d1', 'd2'],
+    });
+    expect(result.isOk() && result.value.status).toBe('failed');
+    expect(result.isOk() && result.value.fulfilled).toBe(false);
+  });
+
+  it('never resends or releases keys an earlier attempt already delivered', async () => {
+    const service = new DeliverableService();
+    const repository = (service as any).deliverableRepository;
+    const earlier = makeClaimed('KEY-ONE', 'd1', 'delivered');
+
+    vi.spyOn((service as any).orderRepository, 'getPaidOrderById').mockResolvedValue(makePaidOrder());
+    vi.spyOn(repository, 'countByVariants').mockResolvedValue([
+      { variantId: 'variant-1', available: 5, delivered: 1 },
+    ]);
+    vi.spyOn(repository, 'listClaimedByPaidOrder')
+      .mockResolvedValueOnce([earlier])
+      .mockResolvedValueOnce([earlier, makeClaimed('KEY-TWO', 'd2')]);
+    const claim = vi.spyOn(repository, 'claimForPaidOrder').mockResolvedValue(1);
+    const deliver = vi
+      .spyOn((service as any).paidOrderService, 'deliverOrderContentToCustomer')
+      .mockResolvedValue({ attempted: true, delivered: false, target: 'discord_dm', errorMessage: 'Cannot DM' });
+    const release = vi.spyOn(repository, 'releaseClaimsForPaidOrder').mockResolvedValue(1);
+
+    const result = await service.fulfillPaidOrder({ orderSession: makeOrderSession(), paidOrderId: 'paid-order-1' });
+
+    expect(claim).toHaveBeenCalledWith(expect.objectContaining({ quantity: 1 }));
+    expect(deliver).toHaveBeenCalledWith(expect.objectContaining({ content: expect.stringContaining('KEY-TWO') }));
+    expect(deliver).not.toHaveBeenCalledWith(expect.objectContaining({ content: expect.stringContaining('KEY-ONE') }));
+    expect(release).toHaveBeenCalledWith({ tenantId: 'tenant-1', paidOrderId: 'paid-order-1', deliverableIds: ['d2'] });
+    expect(result.isOk() && result.value.status).toBe('failed');
+  });
+
+  it('marks the order fulfilled without resending when every key was already delivered', async () => {
+    const service = new DeliverableService();
+    const repository = (service as any).deliverableRepository;
+    const delivered = [makeClaimed('KEY-ONE', 'd1', 'delivered'), makeClaimed('KEY-TWO', 'd2', 'delivered')];
+
+    vi.spyOn((service as any).orderRepository, 'getPaidOrderById').mockResolvedValue(makePaidOrder());
+    vi.spyOn(repository, 'countByVariants').mockResolvedValue([
+      { variantId: 'variant-1', available: 0, delivered: 2 },
+    ]);
+    vi.spyOn(repository, 'listClaimedByPaidOrder').mockResolvedValue(delivered);
+    vi.spyOn(repository, 'claimForPaidOrder').mockResolvedValue(0);
+    const deliver = vi.spyOn((service as any).paidOrderService, 'deliverOrderContentToCustomer');
+    const markFulfilled = vi
+      .spyOn((service as any).orderRepository, 'markPaidOrderFulfilled')
+      .mockResolvedValue(undefined);
+
+    const result = await service.fulfillPaidOrder({ orderSession: makeOrderSession(), paidOrderId: 'paid-order-1' });
+
+    expect(deliver).not.toHaveBeenCalled();
+    expect(markFulfilled).toHaveBeenCalledWith({ paidOrderId: 'paid-order-1', actorDiscordUserId: null });
+    expect(result.isOk() && result.value.status).toBe('delivered');
+  });
+
+  it('skips orders whose variants have no pool', async () => {
+    const service = new DeliverableService();
+    const repository = (service as any).deliverableRepository;
+
+    vi.spyOn((service as any).orderRepository, 'getPaidOrderById').mockResolvedValue(makePaidOrder());
+    vi.spyOn(repository, 'countByVariants').mockResolvedValue([]);
+    const claim = vi.spyOn(repository, 'claimForPaidOrder');
+
+    const result = await service.fulfillPaidOrder({ orderSession: makeOrderSession(), paidOrderId: 'paid-order-1' });
+
+    expect(claim).not.toHaveBeenCalled();
+    expect(result.isOk() && result.value).toEqual({ status: 'not_applicable', fulfilled: false, summaryLines: [] });
+  });
+});
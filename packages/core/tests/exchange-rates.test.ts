@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { ExchangeRateService } from '../src/services/exchange-rate-service.js';
+import { convertMinorAmount, findExchangeRate, type ExchangeRateQuote } from '../src/services/exchange-rates.js';
+
+const updatedAt = new Date('2026-04-20T09:00:00.000Z');
+
+function makeQuote(overrides: Partial<ExchangeRateQuote> = {}): ExchangeRateQuote {
+  return {
+    fromCurrency: 'USD',
+    toCurrency: 'GBP',
+    rate: 0.8,
+    source: 'manual',
+    updatedAt,
+    ...overrides,
+  };
+}
+
+describe('exchange rates', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('prefers a direct rate and inverts the opposite pair otherwise', () => {
+    const quotes = [makeQuote(), makeQuote({ fromCurrency: 'GBP', toCurrency: 'EUR', rate: 1.25 })];
+
+    expect(findExchangeRate(quotes, 'USD', 'GBP')?.rate).toBe(0.8);
+    expect(findExchangeRate(quotes, 'EUR', 'GBP')).toMatchObject({
+      fromCurrency: 'EUR',
+      toCurrency: 'GBP',
+      rate: 0.8,
+    });
+    expect(findExchangeRate(quotes, 'USD', 'EUR')).toBeNull();
+  });
+
+  it('rounds converted amounts to whole minor units', () => {
+    expect(convertMinorAmount(1999, 0.8)).toBe(1599);
+    expect(convertMinorAmount(0, 1.3)).toBe(0);
+  });
+
+  it('converts mixed-currency items and snapshots each rate once', async () => {
+    const service = new ExchangeRateService(null);
+    vi.spyOn((service as any).exchangeRateRepository, 'listByGuild').mockResolvedValue([
+      { id: 'rate-1', tenantId: 'tenant-1', guildId: 'guild-1', createdAt: updatedAt, ...makeQuote() },
+    ]);
+
+    const result = await service.convertPrices({
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      targetCurrency: 'GBP',
+      items: [
+        { priceMinor: 1000, currency: 'USD' },
+        { priceMinor: 500, currency: 'GBP' },
+        { priceMinor: 250, currency: 'usd' },
+      ],
+    });
+
+    expect(result.isOk()).toBe(true);
+    if (result.isErr()) {
+      return;
+    }
+    expect(result.value.items).toEqual([
+      { priceMinor: 800, currency: 'GBP' },
+      { priceMinor: 500, currency: 'GBP' },
+      { priceMinor: 200, currency: 'GBP' },
+    ]);
+    expect(result.value.rates).toEqual([
+      { fromCurrency: 'USD', toCurrency: 'GBP', rate: 0.8, source: 'manual', updatedAt: updatedAt.toISOString() },
+    ]);
+  });
+
+  it('rejects items whose currency has no configured rate', async () => {
+    const service = new ExchangeRateService(null);
+    vi.spyOn((service as any).exchangeRateRepository, 'listByGuild').mockResolvedValue([]);
+
+    const result = await service.convertPrices({
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      targetCurrency: 'GBP',
+      items: [{ priceMinor: 1000, currency: 'EUR' }],
+    });
+
+    expect(result.isErr()).toBe(true);
+    if (result.isOk()) {
+      return;
+    }
+    expect(result.error.code).toBe('EXCHANGE_RATE_MISSING');
+  });
+
+  it('skips the rate lookup when every item is already in the target currency', async () => {
+    const service = new ExchangeRateService(null);
+    const listSpy = vi.spyOn((service as any).exchangeRateRepository, 'listByGuild');
+
+    const result = await service.convertPrices({
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      targetCurrency: 'GBP',
+      items: [{ priceMinor: 1000, currency: 'GBP' }],
+    });
+
+    expect(result.isOk() && result.value.rates).toEqual([]);
+    expect(listSpy).not.toHaveBeenCalled();
+  });
+});
@@ -25,6 +25,7 @@ function makeGuildConfig(overrides: Partial<GuildConfigRecord> = {}): GuildConfi
     tenantId: 'tenant-1',
     guildId: 'guild-1',
     paidLogChannelId: null,
+    lowStockAlertChannelId: null,
     staffRoleIds: [],
     defaultCurrency: 'GBP',
     couponsEnabled: true,
@@ -32,6 +33,13 @@ function makeGuildConfig(overrides: Partial<GuildConfigRecord> = {}): GuildConfi
     referralsEnabled: true,
     telegramEnabled: false,
     tipEnabled: false,
+    checkoutExpiryMinutes: 30,
+    subscriptionReminderDays: 3,
+    subscriptionGraceDays: 3,
+    invoiceStoreName: '',
+    invoiceStoreDetails: '',
+    invoiceTaxRateBps: 0,
+    selfServiceEnabled: false,
     pointsEarnCategoryKeys: [],
     pointsRedeemCategoryKeys: [],
     pointValueMinor: 1,
@@ -172,6 +180,8 @@ describe('feature gate enforcement', () => {
         productId: 'product-1',
         variantId: 'variant-1',
         basketItems: [],
+        automaticDiscountMinor: 0,
+        automaticDiscounts: [],
         couponCode: null,
         couponDiscountMinor: 0,
         customerEmailNormalized: 'customer@example.com',
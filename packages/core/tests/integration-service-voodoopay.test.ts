@@ -30,6 +30,7 @@ function makeIntegrationRecord(
     merchantWalletAddress: '0x1234567890123456789012345678901234567890',
     cryptoGatewayEnabled: false,
     cryptoAddFees: false,
+    cryptoUnderpaymentTolerancePercent: 1,
     cryptoWallets: {
       evm: null,
       btc: null,
@@ -80,6 +81,7 @@ describe('voodoo pay integration service', () => {
     expect(upsertSpy).toHaveBeenCalledWith(
       expect.objectContaining({
         checkoutDomain: DEFAULT_VOODOO_PAY_CHECKOUT_DOMAIN,
+        cryptoUnderpaymentTolerancePercent: 1,
       }),
     );
   });
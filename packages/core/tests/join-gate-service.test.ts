@@ -7,6 +7,7 @@ import {
   normalizeJoinGateEmail,
   validateJoinGateConfig,
   type JoinGateMessageLike,
+  type JoinGateOutboundWebhooksLike,
   type JoinGateRepositoryLike,
 } from '../src/services/join-gate-service.js';
 import { AppError } from '../src/domain/errors.js';
@@ -384,6 +385,14 @@ class InMemoryJoinGateRepository implements JoinGateRepositoryLike {
   }
 }
 
+class RecordingOutboundWebhooks implements JoinGateOutboundWebhooksLike {
+  public readonly events: Array<Parameters<JoinGateOutboundWebhooksLike['emitEvent']>[0]> = [];
+
+  public async emitEvent(input: Parameters<JoinGateOutboundWebhooksLike['emitEvent']>[0]): Promise<void> {
+    this.events.push(input);
+  }
+}
+
 describe('join gate service', () => {
   it('validates enabled join-gate config before persistence', () => {
     const result = validateJoinGateConfig({
@@ -612,7 +621,8 @@ describe('join gate service', () => {
       makeLookupEntry(),
     );
 
-    const service = new JoinGateService(repository);
+    const outboundWebhooks = new RecordingOutboundWebhooks();
+    const service = new JoinGateService(repository, outboundWebhooks);
     const member = await service.registerJoin({
       tenantId: '01J0TENANT0000000000000001',
       guildId: '123456789012345678',
@@ -659,6 +669,16 @@ describe('join gate service', () => {
 
     expect(completed.value.status).toBe('verified');
     expect(completed.value.ticketChannelId).toBe('555456789012345678');
+    expect(outboundWebhooks.events).toEqual([
+      expect.objectContaining({
+        type: 'join_gate.verified',
+        data: expect.objectContaining({
+          discordUserId: '223456789012345678',
+          email: 'customer@example.com',
+          selectedPath: 'current_customer',
+        }),
+      }),
+    ]);
   });
 
   it('matches new-customer lookup entries and exposes terminal verification states', async () => {
@@ -672,7 +692,7 @@ describe('join gate service', () => {
       }),
     );
 
-    const service = new JoinGateService(repository);
+    const service = new JoinGateService(repository, new RecordingOutboundWebhooks());
     await service.registerJoin({
       tenantId: '01J0TENANT0000000000000001',
       guildId: '123456789012345678',
@@ -879,7 +899,7 @@ describe('join gate service', () => {
 
   it('records dm status and handles already verified/already kicked terminal states', async () => {
     const repository = new InMemoryJoinGateRepository();
-    const service = new JoinGateService(repository);
+    const service = new JoinGateService(repository, new RecordingOutboundWebhooks());
 
     await service.registerJoin({
       tenantId: '01J0TENANT0000000000000001',
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  buildManualPaymentApproveCustomId,
+  ManualPaymentProvider,
+  parseManualPaymentApproveCustomId,
+} from '../src/services/manual-payment-provider.js';
+
+describe('manual payment provider', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('is configured only when the guild has payment instructions', async () => {
+    const provider = new ManualPaymentProvider();
+    const getGuildConfig = vi.spyOn((provider as any).tenantRepository, 'getGuildConfig');
+
+    getGuildConfig.mockResolvedValueOnce({ manualPaymentInstructions: '  Sort code 00-00-00\n' });
+    expect((await provider.getInstructions({ tenantId: 'tenant-1', guildId: 'guild-1' }))._unsafeUnwrap()).toBe(
+      'Sort code 00-00-00',
+    );
+
+    getGuildConfig.mockResolvedValueOnce({ manualPaymentInstructions: '   ' });
+    expect((await provider.isConfigured({ tenantId: 'tenant-1', guildId: 'guild-1' }))._unsafeUnwrap()).toBe(false);
+
+    getGuildConfig.mockResolvedValueOnce(null);
+    expect((await provider.isConfigured({ tenantId: 'tenant-1', guildId: 'guild-1' }))._unsafeUnwrap()).toBe(false);
+  });
+
+  it('creates a checkout without links and leaves refunds to staff', async () => {
+    const provider = new ManualPaymentProvider();
+
+    const checkout = await provider.createCheckout({
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      orderSessionId: 'order-session-1',
+      customerDiscordUserId: 'customer-1',
+      primaryItem: { productId: 'product-1', variantId: 'variant-1', productName: 'Match', variantLabel: 'Standard' },
+      totalMinor: 1500,
+      currency: 'GBP',
+      customerEmail: null,
+      checkoutToken: 'checkout-token',
+      expiresAt: new Date(),
+    });
+    const refund = await provider.refund();
+
+    expect(checkout._unsafeUnwrap()).toEqual({
+      checkoutUrl: null,
+      checkoutUrlCrypto: null,
+      checkoutOptions: [],
+      warnings: [],
+    });
+    expect(refund._unsafeUnwrapErr().code).toBe('MANUAL_PAYMENT_REFUND_UNSUPPORTED');
+  });
+
+  it('round-trips the approval button custom id', () => {
+    const customId = buildManualPaymentApproveCustomId('01HKTESORDERSESSION0000000001');
+
+    expect(customId).toBe('manual-payment:approve:01HKTESORDERSESSION0000000001');
+    expect(parseManualPaymentApproveCustomId(customId)).toBe('01HKTESORDERSESSION0000000001');
+    expect(parseManualPaymentApproveCustomId('manual-payment:approve:')).toBeNull();
+    expect(parseManualPaymentApproveCustomId('paid-order:fulfillment:abc')).toBeNull();
+  });
+});
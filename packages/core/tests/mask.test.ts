@@ -1,6 +1,6 @@
 ﻿import { describe, expect, it } from 'vitest';
 
-import { maskAnswers, maskSensitiveValue } from '../src/utils/mask.js';
+import { maskAnswers, maskSensitiveValue, redactSecretFields } from '../src/utils/mask.js';
 
 describe('mask utility', () => {
   it('masks sensitive values and leaves non-sensitive unchanged', () => {
@@ -21,4 +21,17 @@ describe('mask utility', () => {
     expect(maskSensitiveValue('ab')).toBe('**');
     expect(maskSensitiveValue('a')).toBe('*');
   });
+  it('redacts secret-looking fields at any depth', () => {
+    expect(
+      redactSecretFields({
+        id: 'evt_1',
+        api_key: 'ck_live',
+        data: { client_secret: 'cs_123', items: [{ accessToken: 'tok', name: 'Widget' }] },
+      }),
+    ).toEqual({
+      id: 'evt_1',
+      api_key: '[redacted]',
+      data: { client_secret: '[redacted]', items: [{ accessToken: '[redacted]', name: 'Widget' }] },
+    });
+  });
 });
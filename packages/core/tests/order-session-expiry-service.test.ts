@@ -0,0 +1,193 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ok } from 'neverthrow';
+
+import * as discordRest from '../src/integrations/discord-rest.js';
+import * as telegramRest from '../src/integrations/telegram-rest.js';
+import type { OrderSessionRecord } from '../src/repositories/order-repository.js';
+import { OrderSessionExpiryService } from '../src/services/order-session-expiry-service.js';
+
+function makeOrderSession(overrides: Partial<OrderSessionRecord> = {}): OrderSessionRecord {
+  return {
+    id: 'order-session-1',
+    tenantId: 'tenant-1',
+    guildId: 'guild-1',
+    ticketChannelId: 'ticket-1',
+    staffUserId: 'staff-1',
+    customerDiscordId: 'customer-1',
+    productId: 'product-1',
+    variantId: 'variant-1',
+    basketItems: [],
+    automaticDiscountMinor: 0,
+    automaticDiscounts: [],
+    couponCode: null,
+    couponDiscountMinor: 0,
+    customerEmailNormalized: 'customer@example.com',
+    pointsReserved: 25,
+    pointsDiscountMinor: 25,
+    pointsReservationState: 'reserved',
+    pointsConfigSnapshot: {
+      pointValueMinor: 1,
+      earnCategoryKeys: [],
+      redeemCategoryKeys: [],
+    },
+    stockReservations: [],
+    stockReservationState: 'none',
+    fxRatesSnapshot: [],
+    formSnapshot: null,
+    subscriptionId: null,
+    source: 'staff',
+    referralRewardMinorSnapshot: 0,
+    tipMinor: 0,
+    subtotalMinor: 1000,
+    totalMinor: 975,
+    status: 'pending_payment',
+    answers: {},
+    checkoutUrl: 'https://checkout.example.com/pay',
+    checkoutUrlCrypto: null,
+    checkoutTokenExpiresAt: new Date('2026-04-20T11:00:00.000Z'),
+    checkoutMessageChannelId: 'ticket-1',
+    checkoutMessageId: 'message-1',
+    ...overrides,
+  };
+}
+
+describe('OrderSessionExpiryService', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('cancels expired sessions, releases reserved points, and edits the checkout message', async () => {
+    const service = new OrderSessionExpiryService();
+    const orderSession = makeOrderSession();
+
+    vi.spyOn((service as any).orderRepository, 'listExpiredPendingSessions').mockResolvedValue([orderSession]);
+    const expire = vi
+      .spyOn((service as any).orderRepository, 'expirePendingOrderSession')
+      .mockResolvedValue(true);
+    const release = vi
+      .spyOn((service as any).pointsService, 'releaseReservationForOrderSession')
+      .mockResolvedValue(ok(undefined));
+    vi.spyOn(service as any, 'getBotTokenCandidates').mockResolvedValue(['bot-token']);
+    const editMessage = vi.spyOn(discordRest, 'editDiscordChannelMessage').mockResolvedValue(undefined);
+    const postMessage = vi.spyOn(discordRest, 'postMessageToDiscordChannel').mockResolvedValue(undefined);
+
+    const result = await service.runExpirySweep();
+
+    expect(result.isOk() && result.value).toEqual({ expiredCount: 1, failedCount: 0 });
+    expect(expire).toHaveBeenCalledWith(
+      expect.objectContaining({ tenantId: 'tenant-1', orderSessionId: 'order-session-1' }),
+    );
+    expect(release).toHaveBeenCalledWith({ orderSession, reason: 'expired' });
+    expect(editMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        botToken: 'bot-token',
+        channelId: 'ticket-1',
+        messageId: 'message-1',
+        content: expect.stringContaining('Checkout expired for <@customer-1>.'),
+      }),
+    );
+    expect(postMessage).not.toHaveBeenCalled();
+  });
+
+  it('releases stock held by the expired checkout', async () => {
+    const service = new OrderSessionExpiryService();
+    const orderSession = makeOrderSession({
+      stockReservations: [{ variantId: 'variant-1', quantity: 2 }],
+      stockReservationState: 'reserved',
+    });
+
+    vi.spyOn((service as any).orderRepository, 'listExpiredPendingSessions').mockResolvedValue([orderSession]);
+    vi.spyOn((service as any).orderRepository, 'expirePendingOrderSession').mockResolvedValue(true);
+    vi.spyOn((service as any).pointsService, 'releaseReservationForOrderSession').mockResolvedValue(
+      ok(undefined),
+    );
+    const settleStock = vi
+      .spyOn((service as any).inventoryService.variantStockRepository, 'settleOrderSession')
+      .mockResolvedValue(true);
+    vi.spyOn(service as any, 'getBotTokenCandidates').mockResolvedValue(['bot-token']);
+    vi.spyOn(discordRest, 'editDiscordChannelMessage').mockResolvedValue(undefined);
+
+    const result = await service.runExpirySweep();
+
+    expect(result.isOk() && result.value).toEqual({ expiredCount: 1, failedCount: 0 });
+    expect(settleStock).toHaveBeenCalledWith({
+      tenantId: 'tenant-1',
+      orderSessionId: 'order-session-1',
+      fromStates: ['reserved'],
+      toState: 'released_expired',
+      settlement: 'release',
+      demand: [{ variantId: 'variant-1', quantity: 2 }],
+    });
+  });
+
+  it('skips sessions that were paid or cancelled after being listed', async () => {
+    const service = new OrderSessionExpiryService();
+
+    vi.spyOn((service as any).orderRepository, 'listExpiredPendingSessions').mockResolvedValue([
+      makeOrderSession(),
+    ]);
+    vi.spyOn((service as any).orderRepository, 'expirePendingOrderSession').mockResolvedValue(false);
+    const release = vi.spyOn((service as any).pointsService, 'releaseReservationForOrderSession');
+    const editMessage = vi.spyOn(discordRest, 'editDiscordChannelMessage').mockResolvedValue(undefined);
+
+    const result = await service.runExpirySweep();
+
+    expect(result.isOk() && result.value).toEqual({ expiredCount: 0, failedCount: 0 });
+    expect(release).not.toHaveBeenCalled();
+    expect(editMessage).not.toHaveBeenCalled();
+  });
+
+  it('posts a note in the Telegram group when no checkout message was recorded', async () => {
+    const service = new OrderSessionExpiryService();
+    const orderSession = makeOrderSession({
+      ticketChannelId: 'tg:-100123',
+      customerDiscordId: 'tg:99887766',
+      pointsReserved: 0,
+      pointsReservationState: 'none',
+      checkoutMessageChannelId: null,
+      checkoutMessageId: null,
+    });
+
+    vi.spyOn((service as any).orderRepository, 'listExpiredPendingSessions').mockResolvedValue([orderSession]);
+    vi.spyOn((service as any).orderRepository, 'expirePendingOrderSession').mockResolvedValue(true);
+    vi.spyOn((service as any).pointsService, 'releaseReservationForOrderSession').mockResolvedValue(
+      ok(undefined),
+    );
+    vi.spyOn(service as any, 'getTelegramBotToken').mockReturnValue('telegram-token');
+    const postMessage = vi
+      .spyOn(telegramRest, 'postMessageToTelegramChat')
+      .mockResolvedValue({ messageId: 12 });
+
+    const result = await service.runExpirySweep();
+
+    expect(result.isOk() && result.value).toEqual({ expiredCount: 1, failedCount: 0 });
+    expect(postMessage).toHaveBeenCalledWith({
+      botToken: 'telegram-token',
+      chatId: '-100123',
+      content: [
+        'Checkout expired for this customer.',
+        'Order Session: order-session-1',
+        'These payment links are no longer valid. Do NOT pay with them.',
+        'Ask staff to start a new sale if you still want to buy.',
+      ].join('\n'),
+    });
+  });
+
+  it('still counts the session as expired when the checkout message cannot be edited', async () => {
+    const service = new OrderSessionExpiryService();
+
+    vi.spyOn((service as any).orderRepository, 'listExpiredPendingSessions').mockResolvedValue([
+      makeOrderSession(),
+    ]);
+    vi.spyOn((service as any).orderRepository, 'expirePendingOrderSession').mockResolvedValue(true);
+    vi.spyOn((service as any).pointsService, 'releaseReservationForOrderSession').mockResolvedValue(
+      ok(undefined),
+    );
+    vi.spyOn(service as any, 'getBotTokenCandidates').mockResolvedValue(['bot-token']);
+    vi.spyOn(discordRest, 'editDiscordChannelMessage').mockRejectedValue(new Error('Unknown Message'));
+
+    const result = await service.runExpirySweep();
+
+    expect(result.isOk() && result.value).toEqual({ expiredCount: 1, failedCount: 0 });
+  });
+});
@@ -10,4 +10,9 @@ describe('getOrderSourceLabel', () => {
   it('labels discord ticket channels as Discord Order', () => {
     expect(getOrderSourceLabel('123456789012345678')).toBe('Discord Order');
   });
+
+  it('labels customer-started discord checkouts as self-service', () => {
+    expect(getOrderSourceLabel('123456789012345678', 'self_service')).toBe('Discord Self-Service Order');
+    expect(getOrderSourceLabel('123456789012345678', 'staff')).toBe('Discord Order');
+  });
 });
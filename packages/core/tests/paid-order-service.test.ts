@@ -1,9 +1,11 @@
-import { afterEach, describe, expect, it, vi } from 'vitest';
-import { ok } from 'neverthrow';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { err, ok } from 'neverthrow';
 
+import { AppError } from '../src/domain/errors.js';
 import * as discordRest from '../src/integrations/discord-rest.js';
 import * as telegramRest from '../src/integrations/telegram-rest.js';
-import type { OrderSessionRecord } from '../src/repositories/order-repository.js';
+import type { OrderSessionRecord, PaidOrderRecord } from '../src/repositories/order-repository.js';
+import { OutboundWebhookService } from '../src/services/outbound-webhook-service.js';
 import {
   buildPaidOrderFulfillmentComponents,
   buildPaidOrderFulfillmentCustomId,
@@ -23,6 +25,8 @@ function makeOrderSession(overrides: Partial<OrderSessionRecord> = {}): OrderSes
     productId: '01HKPRODUCT000000000000001',
     variantId: '01HKVARIANT000000000000001',
     basketItems: [],
+    automaticDiscountMinor: 0,
+    automaticDiscounts: [],
     couponCode: null,
     couponDiscountMinor: 0,
     customerEmailNormalized: 'customer@example.com',
@@ -47,7 +51,42 @@ function makeOrderSession(overrides: Partial<OrderSessionRecord> = {}): OrderSes
   };
 }
 
+function makePaidOrder(overrides: Partial<PaidOrderRecord> = {}): PaidOrderRecord {
+  return {
+    id: 'paid-order-1',
+    tenantId: '01HKTENANT0000000000000001',
+    guildId: '123456789012345678',
+    orderSessionId: '01HKTESORDERSESSION0000000001',
+    wooOrderId: 'woo-1',
+    status: 'paid',
+    priceMinor: 1500,
+    currency: 'GBP',
+    paymentReference: null,
+    fulfillmentStatus: 'needs_action',
+    fulfilledAt: null,
+    fulfilledByDiscordUserId: null,
+    refundStatus: 'none',
+    refundReason: null,
+    refundedMinor: 0,
+    refundedAt: null,
+    amountCheck: 'not_checked',
+    paymentCoin: null,
+    paymentCoinAmount: null,
+    expectedCoinAmount: null,
+    receivedMinor: null,
+    invoiceNumber: 1,
+    paidAt: new Date('2026-05-01T12:00:00.000Z'),
+    createdAt: new Date('2026-05-01T12:00:00.000Z'),
+    updatedAt: new Date('2026-05-01T12:00:00.000Z'),
+    ...overrides,
+  };
+}
+
 describe('paid order fulfillment helpers', () => {
+  beforeEach(() => {
+    vi.spyOn(OutboundWebhookService.prototype, 'emitEvent').mockResolvedValue(undefined);
+  });
+
   afterEach(() => {
     vi.restoreAllMocks();
   });
@@ -202,4 +241,81 @@ describe('paid order fulfillment helpers', () => {
       },
     });
   });
+
+  it('grants the held roles and subscriptions when staff fulfil an underpaid order', async () => {
+    const service = new PaidOrderService();
+    const orderSession = makeOrderSession();
+    const underpaid = makePaidOrder({ amountCheck: 'underpaid' });
+
+    vi.spyOn((service as any).orderRepository, 'getPaidOrderById')
+      .mockResolvedValueOnce(underpaid)
+      .mockResolvedValueOnce({ ...underpaid, fulfillmentStatus: 'fulfilled', fulfilledByDiscordUserId: 'staff-1' });
+    vi.spyOn((service as any).orderRepository, 'getOrderSession').mockResolvedValue(orderSession);
+    const markFulfilled = vi
+      .spyOn((service as any).orderRepository, 'markPaidOrderFulfilled')
+      .mockResolvedValue(undefined);
+    vi.spyOn(service as any, 'getBotTokenCandidates').mockResolvedValue(ok(['bot-token']));
+    const grantRoles = vi
+      .spyOn((service as any).roleGrantService, 'grantRolesForPaidOrder')
+      .mockResolvedValue(ok({ summaryLines: [] }));
+    const recordSubscription = vi
+      .spyOn((service as any).subscriptionService, 'recordPaidOrder')
+      .mockResolvedValue(ok({ summaryLines: [] }));
+
+    const result = await service.markPaidOrderFulfilled({
+      paidOrderId: 'paid-order-1',
+      guildId: '123456789012345678',
+      actorDiscordUserId: 'staff-1',
+    });
+
+    expect(result._unsafeUnwrap().fulfillmentStatus).toBe('fulfilled');
+    expect(grantRoles).toHaveBeenCalledWith({ orderSession, paidOrderId: 'paid-order-1', botTokens: ['bot-token'] });
+    expect(recordSubscription).toHaveBeenCalledWith({ orderSession });
+    expect(markFulfilled).toHaveBeenCalledWith({ paidOrderId: 'paid-order-1', actorDiscordUserId: 'staff-1' });
+  });
+
+  it('leaves the order open when the held roles cannot be granted', async () => {
+    const service = new PaidOrderService();
+
+    vi.spyOn((service as any).orderRepository, 'getPaidOrderById').mockResolvedValue(
+      makePaidOrder({ amountCheck: 'underpaid' }),
+    );
+    vi.spyOn((service as any).orderRepository, 'getOrderSession').mockResolvedValue(makeOrderSession());
+    const markFulfilled = vi.spyOn((service as any).orderRepository, 'markPaidOrderFulfilled');
+    vi.spyOn(service as any, 'getBotTokenCandidates').mockResolvedValue(ok(['bot-token']));
+    vi.spyOn((service as any).roleGrantService, 'grantRolesForPaidOrder').mockResolvedValue(
+      err(new AppError('DISCORD_API_ERROR', 'Missing Permissions', 502)),
+    );
+
+    const result = await service.markPaidOrderFulfilled({
+      paidOrderId: 'paid-order-1',
+      guildId: '123456789012345678',
+      actorDiscordUserId: 'staff-1',
+    });
+
+    expect(result._unsafeUnwrapErr().code).toBe('DISCORD_API_ERROR');
+    expect(markFulfilled).not.toHaveBeenCalled();
+  });
+
+  it('does not grant anything extra when fulfilling an order that was paid in full', async () => {
+    const service = new PaidOrderService();
+    const paidOrder = makePaidOrder({ amountCheck: 'matched' });
+
+    vi.spyOn((service as any).orderRepository, 'getPaidOrderById')
+      .mockResolvedValueOnce(paidOrder)
+      .mockResolvedValueOnce({ ...paidOrder, fulfillmentStatus: 'fulfilled' });
+    vi.spyOn((service as any).orderRepository, 'markPaidOrderFulfilled').mockResolvedValue(undefined);
+    const grantRoles = vi.spyOn((service as any).roleGrantService, 'grantRolesForPaidOrder');
+    const recordSubscription = vi.spyOn((service as any).subscriptionService, 'recordPaidOrder');
+
+    const result = await service.markPaidOrderFulfilled({
+      paidOrderId: 'paid-order-1',
+      guildId: '123456789012345678',
+      actorDiscordUserId: 'staff-1',
+    });
+
+    expect(result.isOk()).toBe(true);
+    expect(grantRoles).not.toHaveBeenCalled();
+    expect(recordSubscription).not.toHaveBeenCalled();
+  });
 });
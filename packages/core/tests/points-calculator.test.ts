@@ -21,11 +21,56 @@ describe('points calculator', () => {
       redeemCategoryKeys: [],
       availablePoints: 0,
       usePoints: false,
+      currency: 'GBP',
     });
 
     expect(result.lineBreakdown.map((line) => line.couponAllocatedMinor)).toEqual([34, 33, 33]);
   });
 
+  it('allocates discounts by line total when lines carry quantities', () => {
+    const result = calculatePointsOrderTotals({
+      lines: [
+        { category: 'A', priceMinor: 100, quantity: 3 },
+        { category: 'B', priceMinor: 100 },
+      ],
+      couponDiscountMinor: 100,
+      tipMinor: 0,
+      pointValueMinor: 100,
+      earnCategoryKeys: [],
+      redeemCategoryKeys: [],
+      availablePoints: 0,
+      usePoints: false,
+      currency: 'GBP',
+    });
+
+    expect(result.subtotalMinor).toBe(400);
+    expect(result.lineBreakdown.map((line) => line.lineTotalMinor)).toEqual([300, 100]);
+    expect(result.lineBreakdown.map((line) => line.couponAllocatedMinor)).toEqual([75, 25]);
+    expect(result.totalMinor).toBe(300);
+  });
+
+  it('applies the coupon to what is left after automatic discounts', () => {
+    const result = calculatePointsOrderTotals({
+      lines: [
+        { category: 'A', priceMinor: 100, quantity: 3, automaticDiscountMinor: 100 },
+        { category: 'B', priceMinor: 100 },
+      ],
+      couponDiscountMinor: 500,
+      tipMinor: 0,
+      pointValueMinor: 100,
+      earnCategoryKeys: [],
+      redeemCategoryKeys: [],
+      availablePoints: 0,
+      usePoints: false,
+      currency: 'GBP',
+    });
+
+    expect(result.subtotalMinor).toBe(400);
+    expect(result.automaticDiscountMinor).toBe(100);
+    expect(result.lineBreakdown.map((line) => line.couponAllocatedMinor)).toEqual([200, 100]);
+    expect(result.totalMinor).toBe(0);
+  });
+
   it('caps redemption using redeemable categories only', () => {
     const result = calculatePointsOrderTotals({
       lines: [
@@ -39,6 +84,7 @@ describe('points calculator', () => {
       redeemCategoryKeys: ['redeemable'],
       availablePoints: 9,
       usePoints: true,
+      currency: 'GBP',
     });
 
     expect(result.redeemablePoolMinor).toBe(500);
@@ -62,6 +108,7 @@ describe('points calculator', () => {
       redeemCategoryKeys: [],
       availablePoints: 0,
       usePoints: false,
+      currency: 'GBP',
     });
 
     expect(result.lineBreakdown.map((line) => line.couponAllocatedMinor)).toEqual([50, 50]);
@@ -84,6 +131,7 @@ describe('points calculator', () => {
       redeemCategoryKeys: ['A', 'C'],
       availablePoints: 4,
       usePoints: true,
+      currency: 'GBP',
     });
 
     expect(result.pointsReserved).toBe(4);
@@ -104,6 +152,7 @@ describe('points calculator', () => {
       redeemCategoryKeys: ['earn'],
       availablePoints: 0,
       usePoints: false,
+      currency: 'GBP',
     });
 
     expect(result.earnPoolMinor).toBe(10_500);
@@ -125,10 +174,25 @@ describe('points calculator', () => {
       pointsDiscountMinor: 50,
       earnCategoryKeys: ['earn'],
       redeemCategoryKeys: ['earn'],
+      currency: 'GBP',
     });
 
     expect(result.earnPoolMinor).toBe(400);
     expect(result.pointsEarned).toBe(4);
     expect(result.lineBreakdown.map((line) => line.pointsAllocatedMinor)).toEqual([50, 0]);
   });
+
+  it('earns points per whole unit of currencies without two decimal places', () => {
+    const lines = [{ category: 'earn', priceMinor: 1500 }];
+    const input = {
+      lines,
+      couponDiscountMinor: 0,
+      pointsDiscountMinor: 0,
+      earnCategoryKeys: ['earn'],
+      redeemCategoryKeys: [],
+    };
+
+    expect(calculateEarnFromAppliedDiscounts({ ...input, currency: 'JPY' }).pointsEarned).toBe(1500);
+    expect(calculateEarnFromAppliedDiscounts({ ...input, currency: 'KWD' }).pointsEarned).toBe(1);
+  });
 });
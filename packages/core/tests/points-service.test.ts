@@ -1,7 +1,8 @@
-import { afterEach, describe, expect, it, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 import type { OrderSessionRecord } from '../src/repositories/order-repository.js';
 import { ok } from 'neverthrow';
+import { OutboundWebhookService } from '../src/services/outbound-webhook-service.js';
 import { PointsService } from '../src/services/points-service.js';
 
 function makeOrderSession(overrides: Partial<OrderSessionRecord> = {}): OrderSessionRecord {
@@ -15,6 +16,8 @@ function makeOrderSession(overrides: Partial<OrderSessionRecord> = {}): OrderSes
     productId: '01HKPRODUCT000000000000001',
     variantId: '01HKVARIANT000000000000001',
     basketItems: [],
+    automaticDiscountMinor: 0,
+    automaticDiscounts: [],
     couponCode: null,
     couponDiscountMinor: 0,
     customerEmailNormalized: 'customer@example.com',
@@ -40,6 +43,10 @@ function makeOrderSession(overrides: Partial<OrderSessionRecord> = {}): OrderSes
 }
 
 describe('points service', () => {
+  beforeEach(() => {
+    vi.spyOn(OutboundWebhookService.prototype, 'emitEvent').mockResolvedValue(undefined);
+  });
+
   afterEach(() => {
     vi.restoreAllMocks();
   });
@@ -286,4 +293,50 @@ describe('points service', () => {
     }
     expect(result.value.balancePoints).toBe(0);
   });
+
+  it('claws back earned points in proportion to the refunded amount', async () => {
+    const service = new PointsService();
+    const orderSession = makeOrderSession();
+
+    vi.spyOn((service as any).pointsRepository, 'findLedgerEventByOrderSessionAndType').mockResolvedValue({
+      id: 'ledger-1',
+      tenantId: orderSession.tenantId,
+      guildId: orderSession.guildId,
+      emailNormalized: 'customer@example.com',
+      deltaPoints: 10,
+      eventType: 'earned_from_paid_order',
+      orderSessionId: orderSession.id,
+      actorUserId: null,
+      metadata: { points: 10 },
+      createdAt: new Date(),
+    });
+    vi.spyOn((service as any).pointsRepository, 'sumLedgerDeltaByOrderSessionAndType').mockResolvedValue(-2);
+    vi.spyOn((service as any).pointsRepository, 'getAccount').mockResolvedValue(null);
+    const removePoints = vi
+      .spyOn((service as any).pointsRepository, 'removePointsClampToZero')
+      .mockResolvedValue({ account: {}, removedPoints: 5 });
+    const insertLedgerEvent = vi
+      .spyOn((service as any).pointsRepository, 'insertLedgerEvent')
+      .mockResolvedValue(undefined);
+
+    const result = await service.clawBackEarnedPointsForRefund({
+      orderSession,
+      refundedMinor: 750,
+      totalMinor: 1000,
+    });
+
+    expect(result.isOk()).toBe(true);
+    if (result.isErr()) {
+      return;
+    }
+    expect(result.value).toBe(5);
+    expect(removePoints).toHaveBeenCalledWith(expect.objectContaining({ points: 5 }));
+    expect(insertLedgerEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        deltaPoints: -5,
+        eventType: 'earned_points_refunded',
+        orderSessionId: orderSession.id,
+      }),
+    );
+  });
 });
@@ -0,0 +1,220 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import type { OrderSessionRecord, PaidOrderRecord } from '../src/repositories/order-repository.js';
+import { signReceiptToken, verifyReceiptToken } from '../src/security/receipt-token.js';
+import { ReceiptService } from '../src/services/receipt-service.js';
+import {
+  buildReceiptDocument,
+  calculateIncludedTaxMinor,
+  formatInvoiceNumber,
+  renderReceiptHtml,
+  renderReceiptPdf,
+} from '../src/services/receipts.js';
+
+function makeOrderSession(overrides: Partial<OrderSessionRecord> = {}): OrderSessionRecord {
+  return {
+    id: 'order-session-1',
+    tenantId: 'tenant-1',
+    guildId: 'guild-1',
+    ticketChannelId: 'ticket-1',
+    staffUserId: 'staff-1',
+    customerDiscordId: 'customer-1',
+    productId: 'product-1',
+    variantId: 'variant-1',
+    basketItems: [
+      {
+        productId: 'product-1',
+        productName: 'Membership',
+        category: 'Access',
+        variantId: 'variant-1',
+        variantLabel: 'Monthly',
+        priceMinor: 1000,
+        currency: 'GBP',
+      },
+      {
+        productId: 'product-2',
+        productName: 'Coaching <1:1>',
+        category: 'Services',
+        variantId: 'variant-2',
+        variantLabel: 'Hour',
+        priceMinor: 1200,
+        currency: 'EUR',
+      },
+    ],
+    automaticDiscountMinor: 0,
+    automaticDiscounts: [],
+    couponCode: 'SAVE2',
+    couponDiscountMinor: 200,
+    customerEmailNormalized: 'customer@example.com',
+    pointsReserved: 100,
+    pointsDiscountMinor: 100,
+    pointsReservationState: 'consumed',
+    pointsConfigSnapshot: {
+      pointValueMinor: 1,
+      earnCategoryKeys: [],
+      redeemCategoryKeys: [],
+    },
+    stockReservations: [],
+    stockReservationState: 'none',
+    fxRatesSnapshot: [
+      { fromCurrency: 'EUR', toCurrency: 'GBP', rate: 0.85, source: 'manual', updatedAt: '2026-04-01T00:00:00.000Z' },
+    ],
+    formSnapshot: null,
+    subscriptionId: null,
+    source: 'staff',
+    referralRewardMinorSnapshot: 0,
+    tipMinor: 150,
+    subtotalMinor: 2020,
+    totalMinor: 1870,
+    status: 'paid',
+    answers: {},
+    checkoutUrl: null,
+    checkoutUrlCrypto: null,
+    checkoutTokenExpiresAt: new Date('2026-04-01T10:00:00.000Z'),
+    checkoutMessageChannelId: null,
+    checkoutMessageId: null,
+    ...overrides,
+  };
+}
+
+function makePaidOrder(overrides: Partial<PaidOrderRecord> = {}): PaidOrderRecord {
+  return {
+    id: 'paid-order-1',
+    tenantId: 'tenant-1',
+    guildId: 'guild-1',
+    orderSessionId: 'order-session-1',
+    wooOrderId: 'woo-1',
+    status: 'paid',
+    priceMinor: 1870,
+    currency: 'GBP',
+    paymentReference: 'pay_123',
+    fulfillmentStatus: 'needs_action',
+    fulfilledAt: null,
+    fulfilledByDiscordUserId: null,
+    refundStatus: 'none',
+    refundReason: null,
+    refundedMinor: 0,
+    refundedAt: null,
+    amountCheck: 'not_checked',
+    paymentCoin: null,
+    paymentCoinAmount: null,
+    expectedCoinAmount: null,
+    receivedMinor: null,
+    invoiceNumber: 42,
+    paidAt: new Date('2026-04-01T09:30:00.000Z'),
+    createdAt: new Date('2026-04-01T09:30:00.000Z'),
+    updatedAt: new Date('2026-04-01T09:30:00.000Z'),
+    ...overrides,
+  };
+}
+
+describe('receipts', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('signs receipt links per order session', () => {
+    const secret = 'test-secret-key-with-minimum-entropy';
+    const token = signReceiptToken({ tenantId: 'tenant-1', orderSessionId: 'order-session-1' }, secret);
+
+    expect(
+      verifyReceiptToken({
+        payload: { tenantId: 'tenant-1', orderSessionId: 'order-session-1' },
+        secret,
+        providedToken: token,
+      }),
+    ).toBe(true);
+    expect(
+      verifyReceiptToken({
+        payload: { tenantId: 'tenant-1', orderSessionId: 'order-session-2' },
+        secret,
+        providedToken: token,
+      }),
+    ).toBe(false);
+    expect(
+      verifyReceiptToken({
+        payload: { tenantId: 'tenant-1', orderSessionId: 'order-session-1' },
+        secret,
+        providedToken: null,
+      }),
+    ).toBe(false);
+  });
+
+  it('builds line items, discounts, tip and the included tax from the paid order', () => {
+    expect(formatInvoiceNumber(42)).toBe('INV-000042');
+    expect(calculateIncludedTaxMinor(1200, 2000)).toBe(200);
+    expect(calculateIncludedTaxMinor(1200, 0)).toBe(0);
+
+    const receipt = buildReceiptDocument({
+      orderSession: makeOrderSession(),
+      paidOrder: makePaidOrder({ refundedMinor: 500, refundReason: 'refund' }),
+      store: { storeName: '', storeDetails: '1 High Street\n\nVAT GB123', taxRateBps: 2000 },
+      fallbackStoreName: 'Voodoo Store',
+    });
+
+    expect(receipt).toMatchObject({
+      invoiceNumber: 'INV-000042',
+      storeName: 'Voodoo Store',
+      storeDetails: ['1 High Street', 'VAT GB123'],
+      customerEmail: 'customer@example.com',
+      paymentReference: 'pay_123',
+    });
+    expect(receipt.lineItems).toEqual([
+      { label: 'Membership - Monthly', amount: '£10.00', note: null },
+      { label: 'Coaching <1:1> - Hour', amount: '£10.20', note: '€12.00 at 0.85' },
+    ]);
+    expect(receipt.totals).toEqual([
+      { label: 'Subtotal', amount: '£20.20', note: null },
+      { label: 'Coupon (SAVE2)', amount: '-£2.00', note: null },
+      { label: 'Points (100)', amount: '-£1.00', note: null },
+      { label: 'Tip', amount: '£1.50', note: null },
+      { label: 'Total paid', amount: '£18.70', note: null },
+      { label: 'Includes tax (20%)', amount: '£3.12', note: null },
+      { label: 'Refunded', amount: '-£5.00', note: null },
+    ]);
+  });
+
+  it('renders escaped HTML and a well-formed PDF', () => {
+    const receipt = buildReceiptDocument({
+      orderSession: makeOrderSession(),
+      paidOrder: makePaidOrder(),
+      store: { storeName: 'Voodoo (UK)', storeDetails: '', taxRateBps: 0 },
+      fallbackStoreName: 'Voodoo Store',
+    });
+
+    const html = renderReceiptHtml(receipt, { pdfUrl: '/receipt/order-session-1?token=abc&format=pdf' });
+    expect(html).toContain('Coaching &lt;1:1&gt; - Hour');
+    expect(html).toContain('href="/receipt/order-session-1?token=abc&amp;format=pdf"');
+
+    const pdf = renderReceiptPdf(receipt).toString('latin1');
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('(Voodoo \\(UK\\)) Tj');
+    expect(pdf).toContain('(\\24318.70) Tj');
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)?.[1]);
+    expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+  });
+
+  it('hides receipts behind a valid token', async () => {
+    const service = new ReceiptService();
+    vi.spyOn((service as any).orderRepository, 'getOrderSessionById').mockResolvedValue(makeOrderSession());
+    vi.spyOn((service as any).orderRepository, 'getPaidOrderByOrderSessionId').mockResolvedValue(makePaidOrder());
+    vi.spyOn((service as any).tenantRepository, 'getGuildConfig').mockResolvedValue(null);
+    vi.spyOn((service as any).tenantRepository, 'getTenantGuild').mockResolvedValue({
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      guildName: 'Voodoo Store',
+    });
+
+    const url = new URL(service.buildReceiptUrl({ tenantId: 'tenant-1', orderSessionId: 'order-session-1' }));
+    expect(url.pathname).toBe('/receipt/order-session-1');
+
+    const forged = await service.getReceipt({ orderSessionId: 'order-session-1', token: 'forged' });
+    expect(forged.isErr() && forged.error.code).toBe('RECEIPT_NOT_FOUND');
+
+    const receipt = await service.getReceipt({
+      orderSessionId: 'order-session-1',
+      token: url.searchParams.get('token'),
+    });
+    expect(receipt.isOk() && receipt.value.storeName).toBe('Voodoo Store');
+  });
+});
@@ -1,7 +1,8 @@
-import { afterEach, describe, expect, it, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { ok } from 'neverthrow';
 
 import type { OrderSessionRecord } from '../src/repositories/order-repository.js';
+import { OutboundWebhookService } from '../src/services/outbound-webhook-service.js';
 import { ReferralService } from '../src/services/referral-service.js';
 
 function makeOrderSession(overrides: Partial<OrderSessionRecord> = {}): OrderSessionRecord {
@@ -15,6 +16,8 @@ function makeOrderSession(overrides: Partial<OrderSessionRecord> = {}): OrderSes
     productId: '01HKPRODUCT000000000000001',
     variantId: '01HKVARIANT000000000000001',
     basketItems: [],
+    automaticDiscountMinor: 0,
+    automaticDiscounts: [],
     couponCode: null,
     couponDiscountMinor: 0,
     customerEmailNormalized: null,
@@ -39,6 +42,10 @@ function makeOrderSession(overrides: Partial<OrderSessionRecord> = {}): OrderSes
 }
 
 describe('referral service', () => {
+  beforeEach(() => {
+    vi.spyOn(OutboundWebhookService.prototype, 'emitEvent').mockResolvedValue(undefined);
+  });
+
   afterEach(() => {
     vi.restoreAllMocks();
   });
@@ -49,6 +56,7 @@ describe('referral service', () => {
       ok({
         pointsEnabled: true,
         referralsEnabled: true,
+        defaultCurrency: 'GBP',
       }),
     );
   }
@@ -58,9 +66,10 @@ describe('referral service', () => {
 
     const rendered = service.renderThankYouTemplate({
       template:
-        'Congrats {referrer_mention} {referrer_email}! +{points} points ({amount_gbp} GBP) for {referred_email} on {order_session_id}.',
+        'Congrats {referrer_mention} {referrer_email}! +{points} points ({amount} {currency}) for {referred_email} on {order_session_id}.',
       rewardPoints: 10,
       rewardMinor: 1000,
+      currency: 'GBP',
       referredEmail: 'new@example.com',
       referrerEmail: 'ref@example.com',
       referrerDiscordUserId: '523456789012345678',
@@ -75,6 +84,40 @@ describe('referral service', () => {
     expect(rendered).toContain('01HKTESORDERSESSION0000000001');
   });
 
+  it('renders reward amounts in the currency minor unit and labels legacy amounts in other currencies', () => {
+    const service = new ReferralService();
+
+    const rendered = service.renderThankYouTemplate({
+      template: '{referrer_mention} earned {amount} {currency} / {amount_gbp}',
+      rewardPoints: 5,
+      rewardMinor: 500,
+      currency: 'jpy',
+      referredEmail: 'new@example.com',
+      referrerEmail: 'ref@example.com',
+      referrerDiscordUserId: '523456789012345678',
+      orderSessionId: '01HKTESORDERSESSION0000000001',
+    });
+
+    expect(rendered).toBe('<@523456789012345678> earned 500 JPY / 500 JPY');
+  });
+
+  it('keeps the legacy amount placeholder as a bare amount for GBP rewards', () => {
+    const service = new ReferralService();
+
+    const rendered = service.renderThankYouTemplate({
+      template: '{referrer_mention} earned {amount_gbp} GBP',
+      rewardPoints: 5,
+      rewardMinor: 500,
+      currency: 'gbp',
+      referredEmail: 'new@example.com',
+      referrerEmail: 'ref@example.com',
+      referrerDiscordUserId: '523456789012345678',
+      orderSessionId: '01HKTESORDERSESSION0000000001',
+    });
+
+    expect(rendered).toBe('<@523456789012345678> earned 5.00 GBP');
+  });
+
   it('blocks self-referral when creating claim', async () => {
     const service = new ReferralService();
     mockFeatureFlagsEnabled(service);
@@ -209,4 +252,55 @@ describe('referral service', () => {
     expect(result.value.rewardPoints).toBe(5);
     expect(result.value.referredEmailNormalized).toBe('new@example.com');
   });
+
+  it('claws back a referral reward only once per refunded order', async () => {
+    const service = new ReferralService();
+    const orderSession = makeOrderSession({ customerEmailNormalized: 'new@example.com' });
+    const rewardEvent = {
+      id: 'ledger-1',
+      tenantId: orderSession.tenantId,
+      guildId: orderSession.guildId,
+      emailNormalized: 'ref@example.com',
+      deltaPoints: 5,
+      eventType: 'referral_reward_first_paid_order',
+      orderSessionId: orderSession.id,
+      actorUserId: null,
+      metadata: { claimId: 'claim-1', rewardPoints: 5 },
+      createdAt: new Date(),
+    };
+    const findLedgerEvent = vi
+      .spyOn((service as any).pointsRepository, 'findLedgerEventByOrderSessionAndType')
+      .mockImplementation(async (input: any) =>
+        input.eventType === 'referral_reward_first_paid_order' ? rewardEvent : null,
+      );
+    vi.spyOn((service as any).pointsRepository, 'getAccount').mockResolvedValue(null);
+    const removePoints = vi
+      .spyOn((service as any).pointsRepository, 'removePointsClampToZero')
+      .mockResolvedValue({ account: {}, removedPoints: 3 });
+    const insertLedgerEvent = vi
+      .spyOn((service as any).pointsRepository, 'insertLedgerEvent')
+      .mockResolvedValue(undefined);
+
+    const first = await service.clawBackReferralRewardForRefund({ orderSession });
+
+    expect(first.isOk()).toBe(true);
+    if (first.isErr()) {
+      return;
+    }
+    expect(first.value).toBe(3);
+    expect(removePoints).toHaveBeenCalledWith(
+      expect.objectContaining({ emailNormalized: 'ref@example.com', points: 5 }),
+    );
+    expect(insertLedgerEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ deltaPoints: -5, eventType: 'referral_reward_refunded' }),
+    );
+
+    findLedgerEvent.mockResolvedValue(rewardEvent);
+    removePoints.mockClear();
+
+    const second = await service.clawBackReferralRewardForRefund({ orderSession });
+
+    expect(second.isOk()).toBe(true);
+    expect(removePoints).not.toHaveBeenCalled();
+  });
 });
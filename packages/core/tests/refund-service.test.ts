@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ok } from 'neverthrow';
+
+import type { OrderSessionRecord, PaidOrderRecord } from '../src/repositories/order-repository.js';
+import { OutboundWebhookService } from '../src/services/outbound-webhook-service.js';
+import { RefundService, resolveRefundedMinor } from '../src/services/refund-service.js';
+
+function makePaidOrder(overrides: Partial<PaidOrderRecord> = {}): PaidOrderRecord {
+  return {
+    id: 'paid-order-1',
+    tenantId: 'tenant-1',
+    guildId: 'guild-1',
+    orderSessionId: 'session-1',
+    wooOrderId: '1001',
+    status: 'completed',
+    priceMinor: 2000,
+    currency: 'GBP',
+    paymentReference: null,
+    fulfillmentStatus: 'fulfilled',
+    fulfilledAt: null,
+    fulfilledByDiscordUserId: null,
+    refundStatus: 'none',
+    refundReason: null,
+    refundedMinor: 0,
+    refundedAt: null,
+    amountCheck: 'not_checked',
+    paymentCoin: null,
+    paymentCoinAmount: null,
+    expectedCoinAmount: null,
+    receivedMinor: null,
+    invoiceNumber: 1,
+    paidAt: new Date('2026-05-01T12:00:00.000Z'),
+    createdAt: new Date('2026-05-01T12:00:00.000Z'),
+    updatedAt: new Date('2026-05-01T12:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+function makeOrderSession(): OrderSessionRecord {
+  return {
+    id: 'session-1',
+    tenantId: 'tenant-1',
+    guildId: 'guild-1',
+    ticketChannelId: 'channel-1',
+    staffUserId: 'staff-1',
+    customerDiscordId: 'customer-1',
+    productId: 'product-1',
+    variantId: 'variant-1',
+    basketItems: [],
+    automaticDiscountMinor: 0,
+    automaticDiscounts: [],
+    couponCode: null,
+    couponDiscountMinor: 0,
+    customerEmailNormalized: 'customer@example.com',
+    pointsReserved: 0,
+    pointsDiscountMinor: 0,
+    pointsReservationState: 'none',
+    pointsConfigSnapshot: {
+      pointValueMinor: 100,
+      earnCategoryKeys: [],
+      redeemCategoryKeys: [],
+    },
+    referralRewardMinorSnapshot: 0,
+    tipMinor: 0,
+    subtotalMinor: 2000,
+    totalMinor: 2000,
+    status: 'paid',
+    answers: {},
+    checkoutUrl: null,
+    checkoutTokenExpiresAt: new Date(),
+  } as OrderSessionRecord;
+}
+
+function mockRefundDependencies(service: RefundService, paidOrder: PaidOrderRecord) {
+  vi.spyOn((service as any).orderRepository, 'getPaidOrderByOrderSessionId').mockResolvedValue(paidOrder);
+  vi.spyOn((service as any).orderRepository, 'getOrderSession').mockResolvedValue(makeOrderSession());
+  return {
+    clawBackPoints: vi
+      .spyOn((service as any).pointsService, 'clawBackEarnedPointsForRefund')
+      .mockResolvedValue(ok(4)),
+    clawBackReferral: vi
+      .spyOn((service as any).referralService, 'clawBackReferralRewardForRefund')
+      .mockResolvedValue(ok(5)),
+    recordRefund: vi.spyOn((service as any).orderRepository, 'recordPaidOrderRefund').mockResolvedValue(true),
+  };
+}
+
+describe('refund service', () => {
+  beforeEach(() => {
+    vi.spyOn(OutboundWebhookService.prototype, 'emitEvent').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('resolves refunded amounts against the order total', () => {
+    expect(resolveRefundedMinor({ priceMinor: 2000, reason: 'refund', refundedMinor: 500 })).toBe(500);
+    expect(resolveRefundedMinor({ priceMinor: 2000, reason: 'refund', refundedMinor: 2500 })).toBe(2000);
+    expect(resolveRefundedMinor({ priceMinor: 2000, reason: 'refund', refundedMinor: null })).toBe(2000);
+    expect(resolveRefundedMinor({ priceMinor: 2000, reason: 'chargeback', refundedMinor: 100 })).toBe(2000);
+  });
+
+  it('records a partial refund without touching the referral reward', async () => {
+    const service = new RefundService();
+    const mocks = mockRefundDependencies(service, makePaidOrder());
+
+    const result = await service.recordProviderRefund({
+      tenantId: 'tenant-1',
+      orderSessionId: 'session-1',
+      reason: 'refund',
+      refundedMinor: 500,
+    });
+
+    expect(result.isOk()).toBe(true);
+    if (result.isErr()) {
+      return;
+    }
+    expect(result.value).toMatchObject({
+      changed: true,
+      refundStatus: 'partially_refunded',
+      refundedMinor: 500,
+      netMinor: 1500,
+      pointsClawedBack: 4,
+      referralPointsClawedBack: 0,
+    });
+    expect(mocks.clawBackPoints).toHaveBeenCalledWith(
+      expect.objectContaining({ refundedMinor: 500, totalMinor: 2000 }),
+    );
+    expect(mocks.clawBackReferral).not.toHaveBeenCalled();
+    expect(mocks.recordRefund).toHaveBeenCalledWith(
+      expect.objectContaining({ paidOrderId: 'paid-order-1', refundStatus: 'partially_refunded' }),
+    );
+    expect(OutboundWebhookService.prototype.emitEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tenantId: 'tenant-1',
+        guildId: 'guild-1',
+        type: 'order.refunded',
+        eventKey: 'paid-order-1:500',
+        data: expect.objectContaining({ refundStatus: 'partially_refunded', refundedMinor: 500, netMinor: 1500 }),
+      }),
+    );
+  });
+
+  it('treats a chargeback as a full refund and reverses the referral reward', async () => {
+    const service = new RefundService();
+    const mocks = mockRefundDependencies(service, makePaidOrder({ refundStatus: 'partially_refunded', refundedMinor: 500 }));
+
+    const result = await service.recordProviderRefund({
+      tenantId: 'tenant-1',
+      orderSessionId: 'session-1',
+      reason: 'chargeback',
+      refundedMinor: null,
+    });
+
+    expect(result.isOk()).toBe(true);
+    if (result.isErr()) {
+      return;
+    }
+    expect(result.value).toMatchObject({
+      changed: true,
+      refundStatus: 'refunded',
+      refundReason: 'chargeback',
+      refundedMinor: 2000,
+      netMinor: 0,
+      referralPointsClawedBack: 5,
+    });
+    expect(mocks.clawBackReferral).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores refund events that do not move the refunded amount forward', async () => {
+    const service = new RefundService();
+    const mocks = mockRefundDependencies(service, makePaidOrder({ refundStatus: 'partially_refunded', refundedMinor: 500 }));
+
+    const result = await service.recordProviderRefund({
+      tenantId: 'tenant-1',
+      orderSessionId: 'session-1',
+      reason: 'refund',
+      refundedMinor: 500,
+    });
+
+    expect(result.isOk()).toBe(true);
+    if (result.isErr()) {
+      return;
+    }
+    expect(result.value?.changed).toBe(false);
+    expect(mocks.clawBackPoints).not.toHaveBeenCalled();
+    expect(mocks.recordRefund).not.toHaveBeenCalled();
+    expect(OutboundWebhookService.prototype.emitEvent).not.toHaveBeenCalled();
+  });
+
+  it('returns null when the order was never paid', async () => {
+    const service = new RefundService();
+    vi.spyOn((service as any).orderRepository, 'getPaidOrderByOrderSessionId').mockResolvedValue(null);
+
+    const result = await service.recordProviderRefund({
+      tenantId: 'tenant-1',
+      orderSessionId: 'session-1',
+      reason: 'refund',
+      refundedMinor: null,
+    });
+
+    expect(result.isOk()).toBe(true);
+    expect(result.isOk() && result.value).toBeNull();
+  });
+});
@@ -0,0 +1,201 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { AppError } from '../src/domain/errors.js';
+import * as discordRest from '../src/integrations/discord-rest.js';
+import type { OrderSessionRecord } from '../src/repositories/order-repository.js';
+import type { RoleGrantRecord } from '../src/repositories/role-grant-repository.js';
+import { RoleGrantService } from '../src/services/role-grant-service.js';
+import { mergeRoleRewards, resolveRoleGrantExpiry } from '../src/services/role-rewards.js';
+
+function makeOrderSession(overrides: Partial<OrderSessionRecord> = {}): OrderSessionRecord {
+  return {
+    id: 'order-session-1',
+    tenantId: 'tenant-1',
+    guildId: 'guild-1',
+    ticketChannelId: 'ticket-1',
+    staffUserId: 'staff-1',
+    customerDiscordId: 'customer-1',
+    productId: 'product-1',
+    variantId: 'variant-1',
+    basketItems: [
+      {
+        productId: 'product-1',
+        productName: 'Membership',
+        category: 'Access',
+        variantId: 'variant-1',
+        variantLabel: '30 days',
+        priceMinor: 1000,
+        currency: 'GBP',
+        roleRewards: [
+          { roleId: 'role-vip', durationDays: 30 },
+          { roleId: 'role-buyer', durationDays: null },
+        ],
+      },
+    ],
+    automaticDiscountMinor: 0,
+    automaticDiscounts: [],
+    couponCode: null,
+    couponDiscountMinor: 0,
+    customerEmailNormalized: 'customer@example.com',
+    pointsReserved: 0,
+    pointsDiscountMinor: 0,
+    pointsReservationState: 'none',
+    pointsConfigSnapshot: {
+      pointValueMinor: 1,
+      earnCategoryKeys: [],
+      redeemCategoryKeys: [],
+    },
+    stockReservations: [],
+    stockReservationState: 'none',
+    fxRatesSnapshot: [],
+    formSnapshot: null,
+    subscriptionId: null,
+    source: 'staff',
+    referralRewardMinorSnapshot: 0,
+    tipMinor: 0,
+    subtotalMinor: 1000,
+    totalMinor: 1000,
+    status: 'paid',
+    answers: {},
+    checkoutUrl: null,
+    checkoutUrlCrypto: null,
+    checkoutTokenExpiresAt: null,
+    checkoutMessageChannelId: null,
+    checkoutMessageId: null,
+    ...overrides,
+  };
+}
+
+function makeGrant(overrides: Partial<RoleGrantRecord> = {}): RoleGrantRecord {
+  return {
+    id: 'grant-1',
+    tenantId: 'tenant-1',
+    guildId: 'guild-1',
+    orderSessionId: 'order-session-1',
+    paidOrderId: 'paid-order-1',
+    discordUserId: 'customer-1',
+    roleId: 'role-vip',
+    status: 'active',
+    grantedAt: new Date('2026-04-01T09:00:00.000Z'),
+    expiresAt: new Date('2026-05-01T09:00:00.000Z'),
+    revokedAt: null,
+    lastError: null,
+    createdAt: new Date('2026-04-01T09:00:00.000Z'),
+    updatedAt: new Date('2026-04-01T09:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+describe('role grants', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('merges rewards per role, preferring permanent and then the longest duration', () => {
+    expect(
+      mergeRoleRewards(
+        [
+          { roleId: 'role-a', durationDays: 7 },
+          { roleId: 'role-b', durationDays: 30 },
+        ],
+        [
+          { roleId: 'role-a', durationDays: 14 },
+          { roleId: 'role-b', durationDays: null },
+        ],
+        undefined,
+        [{ roleId: 'role-b', durationDays: 90 }],
+      ),
+    ).toEqual([
+      { roleId: 'role-a', durationDays: 14 },
+      { roleId: 'role-b', durationDays: null },
+    ]);
+    expect(resolveRoleGrantExpiry(new Date('2026-04-01T00:00:00.000Z'), 2)).toEqual(
+      new Date('2026-04-03T00:00:00.000Z'),
+    );
+    expect(resolveRoleGrantExpiry(new Date('2026-04-01T00:00:00.000Z'), null)).toBeNull();
+  });
+
+  it('grants configured roles on a paid order and records failures without aborting', async () => {
+    const service = new RoleGrantService();
+    vi.spyOn((service as any).roleGrantRepository, 'getByOrderSessionRole').mockResolvedValue(null);
+    const recordGrant = vi.spyOn((service as any).roleGrantRepository, 'recordGrant').mockResolvedValue(undefined);
+    vi.spyOn(discordRest, 'addDiscordGuildMemberRole').mockImplementation(async (input) => {
+      if (input.roleId === 'role-buyer') {
+        throw new AppError('DISCORD_ROLE_ADD_FAILED', 'Missing Permissions', 502, { discordStatus: 403 });
+      }
+    });
+
+    const result = await service.grantRolesForPaidOrder({
+      orderSession: makeOrderSession(),
+      paidOrderId: 'paid-order-1',
+      botTokens: ['bot-token'],
+    });
+
+    expect(result.isOk() && result.value.summaryLines).toEqual([
+      '- <@&role-vip>: granted (30 days)',
+      '- <@&role-buyer>: failed (Missing Permissions)',
+    ]);
+    expect(recordGrant).toHaveBeenCalledWith(
+      expect.objectContaining({ roleId: 'role-vip', status: 'active', expiresAt: expect.any(Date) }),
+    );
+    expect(recordGrant).toHaveBeenCalledWith(
+      expect.objectContaining({ roleId: 'role-buyer', status: 'failed', lastError: 'Missing Permissions' }),
+    );
+  });
+
+  it('does not grant a role twice when the webhook is retried', async () => {
+    const service = new RoleGrantService();
+    vi.spyOn((service as any).roleGrantRepository, 'getByOrderSessionRole').mockResolvedValue(makeGrant());
+    const addRole = vi.spyOn(discordRest, 'addDiscordGuildMemberRole').mockResolvedValue(undefined);
+
+    const result = await service.grantRolesForPaidOrder({
+      orderSession: makeOrderSession({
+        basketItems: [
+          {
+            productId: 'product-1',
+            productName: 'Membership',
+            category: 'Access',
+            variantId: 'variant-1',
+            variantLabel: '30 days',
+            priceMinor: 1000,
+            currency: 'GBP',
+            roleRewards: [{ roleId: 'role-vip', durationDays: 30 }],
+          },
+        ],
+      }),
+      paidOrderId: 'paid-order-1',
+      botTokens: ['bot-token'],
+    });
+
+    expect(result.isOk() && result.value.summaryLines).toEqual(['- <@&role-vip>: already granted']);
+    expect(addRole).not.toHaveBeenCalled();
+  });
+
+  it('expires due grants and treats a missing member as already removed', async () => {
+    const service = new RoleGrantService();
+    vi.spyOn((service as any).roleGrantRepository, 'listDueExpirations').mockResolvedValue([
+      makeGrant(),
+      makeGrant({ id: 'grant-2', discordUserId: 'customer-left' }),
+      makeGrant({ id: 'grant-3', roleId: 'role-locked' }),
+    ]);
+    const markExpired = vi.spyOn((service as any).roleGrantRepository, 'markExpired').mockResolvedValue(undefined);
+    const recordError = vi
+      .spyOn((service as any).roleGrantRepository, 'recordRevocationError')
+      .mockResolvedValue(undefined);
+    vi.spyOn(service as any, 'getBotTokenCandidates').mockResolvedValue(['bot-token']);
+    vi.spyOn(discordRest, 'removeDiscordGuildMemberRole').mockImplementation(async (input) => {
+      if (input.userId === 'customer-left') {
+        throw new AppError('DISCORD_ROLE_REMOVE_FAILED', 'Unknown Member', 502, { discordStatus: 404 });
+      }
+      if (input.roleId === 'role-locked') {
+        throw new AppError('DISCORD_ROLE_REMOVE_FAILED', 'Missing Permissions', 502, { discordStatus: 403 });
+      }
+    });
+
+    const result = await service.runExpirySweep();
+
+    expect(result.isOk() && result.value).toEqual({ expiredCount: 2, failedCount: 1 });
+    expect(markExpired).toHaveBeenCalledTimes(2);
+    expect(recordError).toHaveBeenCalledWith({ roleGrantId: 'grant-3', lastError: 'Missing Permissions' });
+  });
+});
@@ -0,0 +1,188 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { SaleDraftRepository } from '../src/repositories/sale-draft-repository.js';
+
+type MockDb = {
+  query: {
+    saleDrafts: {
+      findFirst: ReturnType<typeof vi.fn>;
+    };
+  };
+  insert: ReturnType<typeof vi.fn>;
+  update: ReturnType<typeof vi.fn>;
+  delete: ReturnType<typeof vi.fn>;
+};
+
+function createUpdateChain(result: unknown = [{ affectedRows: 1 }]) {
+  const where = vi.fn().mockResolvedValue(result);
+  const set = vi.fn(() => ({ where }));
+  const update = vi.fn(() => ({ set }));
+
+  return { update, set, where };
+}
+
+function createDeleteChain() {
+  const where = vi.fn().mockResolvedValue([{ affectedRows: 0 }]);
+  const deleteFn = vi.fn(() => ({ where }));
+
+  return { deleteFn, where };
+}
+
+function createRepositoryWithMockDb(mockDb: MockDb): SaleDraftRepository {
+  const repository = new SaleDraftRepository();
+  Object.defineProperty(repository, 'db', {
+    value: mockDb,
+    configurable: true,
+    writable: true,
+  });
+  return repository;
+}
+
+function buildRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'row-1',
+    kind: 'discord_sale',
+    draftKey: 'draft-1',
+    tenantId: 'tenant-1',
+    guildId: 'guild-1',
+    ticketChannelId: 'channel-1',
+    controlChatId: null,
+    state: { category: 'Accounts' },
+    version: 3,
+    expiresAt: new Date('2026-04-20T13:00:00.000Z'),
+    createdAt: new Date('2026-04-20T11:00:00.000Z'),
+    updatedAt: new Date('2026-04-20T11:30:00.000Z'),
+    ...overrides,
+  };
+}
+
+describe('SaleDraftRepository', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-04-20T12:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('refreshes the expiry of a live draft without bumping its version', async () => {
+    const { update, set } = createUpdateChain();
+    const { deleteFn } = createDeleteChain();
+    const repository = createRepositoryWithMockDb({
+      query: { saleDrafts: { findFirst: vi.fn().mockResolvedValue(buildRow()) } },
+      insert: vi.fn(),
+      update,
+      delete: deleteFn,
+    });
+    const refreshExpiresAt = new Date('2026-04-20T13:30:00.000Z');
+
+    const draft = await repository.getDraft({
+      kind: 'discord_sale',
+      draftKey: 'draft-1',
+      refreshExpiresAt,
+    });
+
+    expect(draft).toMatchObject({ draftKey: 'draft-1', version: 3, expiresAt: refreshExpiresAt });
+    expect(set).toHaveBeenCalledWith({ expiresAt: refreshExpiresAt });
+    expect(deleteFn).not.toHaveBeenCalled();
+  });
+
+  it('deletes and hides drafts whose ttl has elapsed', async () => {
+    const { update } = createUpdateChain();
+    const { deleteFn } = createDeleteChain();
+    const repository = createRepositoryWithMockDb({
+      query: {
+        saleDrafts: {
+          findFirst: vi
+            .fn()
+            .mockResolvedValue(buildRow({ expiresAt: new Date('2026-04-20T11:59:59.000Z') })),
+        },
+      },
+      insert: vi.fn(),
+      update,
+      delete: deleteFn,
+    });
+
+    const draft = await repository.getDraft({
+      kind: 'discord_sale',
+      draftKey: 'draft-1',
+      refreshExpiresAt: new Date('2026-04-20T13:00:00.000Z'),
+    });
+
+    expect(draft).toBeNull();
+    expect(deleteFn).toHaveBeenCalledTimes(1);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('returns the next version when the optimistic update matches', async () => {
+    const { update } = createUpdateChain([{ affectedRows: 1 }]);
+    const repository = createRepositoryWithMockDb({
+      query: { saleDrafts: { findFirst: vi.fn() } },
+      insert: vi.fn(),
+      update,
+      delete: vi.fn(),
+    });
+
+    const version = await repository.updateDraft({
+      kind: 'discord_sale',
+      draftKey: 'draft-1',
+      expectedVersion: 3,
+      ticketChannelId: 'channel-1',
+      state: { category: 'Boosts' },
+      expiresAt: new Date('2026-04-20T13:00:00.000Z'),
+    });
+
+    expect(version).toBe(4);
+  });
+
+  it('reports a conflict when another writer already bumped the version', async () => {
+    const { update } = createUpdateChain([{ affectedRows: 0 }]);
+    const repository = createRepositoryWithMockDb({
+      query: { saleDrafts: { findFirst: vi.fn() } },
+      insert: vi.fn(),
+      update,
+      delete: vi.fn(),
+    });
+
+    const version = await repository.updateDraft({
+      kind: 'discord_sale',
+      draftKey: 'draft-1',
+      expectedVersion: 3,
+      state: { category: 'Boosts' },
+      expiresAt: new Date('2026-04-20T13:00:00.000Z'),
+    });
+
+    expect(version).toBeNull();
+  });
+
+  it('purges expired drafts before inserting a new one', async () => {
+    const values = vi.fn().mockResolvedValue(undefined);
+    const insert = vi.fn(() => ({ values }));
+    const { deleteFn } = createDeleteChain();
+    const repository = createRepositoryWithMockDb({
+      query: { saleDrafts: { findFirst: vi.fn() } },
+      insert,
+      update: vi.fn(),
+      delete: deleteFn,
+    });
+
+    const record = await repository.createDraft({
+      kind: 'telegram_sale',
+      draftKey: 'abc123',
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      ticketChannelId: 'tg:-100123',
+      state: { basketItems: [] },
+      expiresAt: new Date('2026-04-20T18:00:00.000Z'),
+    });
+
+    expect(deleteFn).toHaveBeenCalledTimes(1);
+    expect(deleteFn.mock.invocationCallOrder[0]).toBeLessThan(insert.mock.invocationCallOrder[0] ?? 0);
+    expect(values).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: 'telegram_sale', draftKey: 'abc123', version: 1, controlChatId: null }),
+    );
+    expect(record.version).toBe(1);
+  });
+});
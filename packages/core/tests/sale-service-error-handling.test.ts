@@ -1,7 +1,6 @@
-import { err, ok } from 'neverthrow';
+import { ok } from 'neverthrow';
 import { describe, expect, it, vi } from 'vitest';
 
-import { AppError } from '../src/domain/errors.js';
 import { SaleService } from '../src/services/sale-service.js';
 
 describe('SaleService error handling', () => {
@@ -29,7 +28,7 @@ describe('SaleService error handling', () => {
     }
   });
 
-  it('uses the draft default currency when building a checkout session', async () => {
+  it('converts basket prices into the draft default currency when building a checkout session', async () => {
     const service = new SaleService();
 
     vi.spyOn(service as any, 'resolveSaleItems').mockResolvedValue(
@@ -43,10 +42,29 @@ describe('SaleService error handling', () => {
           referralRewardMinor: 0,
           priceMinor: 1500,
           currency: 'GBP',
+          priceTiers: [{ minQuantity: 2, priceMinor: 1000 }],
+          formFields: [
+            { fieldKey: 'email', label: 'What is your email?', sensitive: false },
+            { fieldKey: 'password', label: 'Account password', sensitive: true },
+          ],
         },
       ]),
     );
-    vi.spyOn(service as any, 'resolveCouponDiscountMinor').mockResolvedValue(ok(0));
+    vi.spyOn((service as any).exchangeRateService.exchangeRateRepository, 'listByGuild').mockResolvedValue([
+      {
+        id: 'rate-1',
+        tenantId: 'tenant-1',
+        guildId: 'guild-1',
+        fromCurrency: 'GBP',
+        toCurrency: 'EUR',
+        rate: 1.2,
+        source: 'manual',
+        createdAt: new Date('2026-03-26T00:00:00.000Z'),
+        updatedAt: new Date('2026-03-26T00:00:00.000Z'),
+      },
+    ]);
+    vi.spyOn((service as any).automaticDiscountService, 'listActiveRules').mockResolvedValue(ok([]));
+    vi.spyOn(service as any, 'resolveCoupon').mockResolvedValue(ok(null));
     vi.spyOn(service as any, 'resolvePointsConfig').mockResolvedValue(
       ok({
         pointValueMinor: 1,
@@ -56,62 +74,60 @@ describe('SaleService error handling', () => {
         referralRewardCategoryKeys: [],
       }),
     );
-    vi.spyOn((service as any).integrationService, 'getResolvedVoodooPayIntegrationByGuild').mockResolvedValue(
-      ok({
-        tenantWebhookKey: 'tenant-webhook',
-        callbackSecret: 'callback-secret-12345678901234567890',
-        checkoutDomain: 'checkout.voodoo-pay.uk',
-        cryptoGatewayEnabled: false,
-        cryptoAddFees: false,
-        cryptoWallets: {
-          evm: null,
-          btc: null,
-          bitcoincash: null,
-          ltc: null,
-          doge: null,
-          trc20: null,
-          solana: null,
-        },
-      }),
-    );
-    vi.spyOn((service as any).integrationService, 'getResolvedWooIntegrationByGuild').mockResolvedValue(
-      err(new AppError('WOO_NOT_CONFIGURED', 'Woo not configured', 404)),
-    );
+    vi.spyOn(service as any, 'resolveCheckoutExpiryMinutes').mockResolvedValue(30);
+    vi.spyOn((service as any).inventoryService, 'reserveStockForBasket').mockResolvedValue(ok([]));
+    const voodooPayProvider = (service as any).paymentProviders[0];
+    vi.spyOn(voodooPayProvider, 'isConfigured').mockResolvedValue(ok(true));
+    vi.spyOn((service as any).manualPaymentProvider, 'getInstructions').mockResolvedValue(ok(null));
     vi.spyOn((service as any).orderRepository, 'createOrderSession').mockResolvedValue({
-      id: 'order-session-1',
-      tenantId: 'tenant-1',
-      guildId: 'guild-1',
-      ticketChannelId: 'ticket-1',
-      staffUserId: 'staff-1',
-      customerDiscordId: 'customer-1',
-      productId: 'product-1',
-      variantId: 'variant-1',
-      basketItems: [],
-      couponCode: null,
-      couponDiscountMinor: 0,
-      customerEmailNormalized: null,
-      pointsReserved: 0,
-      pointsDiscountMinor: 0,
-      pointsReservationState: 'none',
-      pointsConfigSnapshot: {
-        pointValueMinor: 1,
-        earnCategoryKeys: [],
-        redeemCategoryKeys: [],
+      ok: true,
+      orderSession: {
+        id: 'order-session-1',
+        tenantId: 'tenant-1',
+        guildId: 'guild-1',
+        ticketChannelId: 'ticket-1',
+        staffUserId: 'staff-1',
+        customerDiscordId: 'customer-1',
+        productId: 'product-1',
+        variantId: 'variant-1',
+        basketItems: [],
+        fxRatesSnapshot: [],
+        formSnapshot: null,
+        subscriptionId: null,
+        source: 'staff',
+        automaticDiscountMinor: 0,
+        automaticDiscounts: [],
+        couponCode: null,
+        couponDiscountMinor: 0,
+        customerEmailNormalized: null,
+        pointsReserved: 0,
+        pointsDiscountMinor: 0,
+        pointsReservationState: 'none',
+        pointsConfigSnapshot: {
+          pointValueMinor: 1,
+          earnCategoryKeys: [],
+          redeemCategoryKeys: [],
+        },
+        referralRewardMinorSnapshot: 0,
+        tipMinor: 0,
+        subtotalMinor: 1500,
+        totalMinor: 1500,
+        status: 'pending_payment',
+        answers: {},
+        checkoutUrl: null,
+        checkoutUrlCrypto: null,
+        checkoutTokenExpiresAt: new Date('2026-03-27T00:00:00.000Z'),
       },
-      referralRewardMinorSnapshot: 0,
-      tipMinor: 0,
-      subtotalMinor: 1500,
-      totalMinor: 1500,
-      status: 'pending_payment',
-      answers: {},
-      checkoutUrl: null,
-      checkoutUrlCrypto: null,
-      checkoutTokenExpiresAt: new Date('2026-03-27T00:00:00.000Z'),
     });
     vi.spyOn((service as any).orderRepository, 'setCheckoutUrl').mockResolvedValue(undefined);
-    const checkoutSpy = vi
-      .spyOn(service as any, 'buildVoodooPayCheckoutUrl')
-      .mockResolvedValue(ok('https://checkout.voodoo-pay.uk/pay.php?currency=EUR'));
+    const checkoutSpy = vi.spyOn(voodooPayProvider, 'createCheckout').mockResolvedValue(
+      ok({
+        checkoutUrl: 'https://checkout.voodoo-pay.uk/pay.php?currency=EUR',
+        checkoutUrlCrypto: null,
+        checkoutOptions: [],
+        warnings: [],
+      }),
+    );
 
     const result = await (service as any).createSaleSessionInternal({
       tenantId: 'tenant-1',
@@ -131,10 +147,105 @@ describe('SaleService error handling', () => {
       expect.objectContaining({
         basketItems: [
           expect.objectContaining({
+            priceMinor: 1800,
             currency: 'EUR',
           }),
         ],
+        subtotalMinor: 1800,
+        fxRatesSnapshot: [
+          {
+            fromCurrency: 'GBP',
+            toCurrency: 'EUR',
+            rate: 1.2,
+            source: 'manual',
+            updatedAt: '2026-03-26T00:00:00.000Z',
+          },
+        ],
+        formSnapshot: {
+          sensitiveFieldKeys: ['password'],
+          fieldLabels: { email: 'What is your email?', password: 'Account password' },
+        },
+      }),
+    );
+  });
+  it('gives the held stock back when a concurrent checkout used up the coupon first', async () => {
+    const service = new SaleService();
+    const coupon = {
+      id: 'coupon-1',
+      code: 'LAUNCH',
+      maxRedemptions: 1,
+      maxRedemptionsPerCustomer: null,
+    };
+
+    vi.spyOn(service as any, 'resolveSaleItems').mockResolvedValue(
+      ok([
+        {
+          productId: 'product-1',
+          productName: 'Starter',
+          category: 'Boosting',
+          variantId: 'variant-1',
+          variantLabel: 'Standard',
+          referralRewardMinor: 0,
+          priceMinor: 1500,
+          currency: 'GBP',
+          priceTiers: [],
+          formFields: [],
+        },
+      ]),
+    );
+    vi.spyOn((service as any).automaticDiscountService, 'listActiveRules').mockResolvedValue(ok([]));
+    vi.spyOn(service as any, 'resolveCoupon').mockResolvedValue(ok({ coupon, discountMinor: 500 }));
+    vi.spyOn(service as any, 'resolvePointsConfig').mockResolvedValue(
+      ok({
+        pointValueMinor: 1,
+        earnCategoryKeys: [],
+        redeemCategoryKeys: [],
+        referralRewardMinor: 0,
+        referralRewardCategoryKeys: [],
+      }),
+    );
+    vi.spyOn(service as any, 'resolveCheckoutExpiryMinutes').mockResolvedValue(30);
+    const stockReservations = [{ variantId: 'variant-1', quantity: 1 }];
+    vi.spyOn((service as any).inventoryService, 'reserveStockForBasket').mockResolvedValue(ok(stockReservations));
+    const releaseReservedStock = vi
+      .spyOn((service as any).inventoryService, 'releaseReservedStock')
+      .mockResolvedValue(ok(undefined));
+    const voodooPayProvider = (service as any).paymentProviders[0];
+    vi.spyOn(voodooPayProvider, 'isConfigured').mockResolvedValue(ok(true));
+    const createOrderSession = vi.spyOn((service as any).orderRepository, 'createOrderSession').mockResolvedValue({
+      ok: false,
+      couponLimit: { ...coupon, couponId: coupon.id, customerEmailNormalized: null, customerDiscordId: 'customer-1' },
+      limitReached: 'total',
+    });
+    const checkoutSpy = vi.spyOn(voodooPayProvider, 'createCheckout');
+
+    const result = await (service as any).createSaleSessionInternal({
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      ticketChannelId: 'ticket-1',
+      staffDiscordUserId: 'staff-1',
+      customerDiscordUserId: 'customer-1',
+      productId: 'product-1',
+      variantId: 'variant-1',
+      couponCode: 'launch',
+      answers: {},
+    });
+
+    expect(result.isErr() && result.error.code).toBe('COUPON_REDEMPTION_LIMIT_REACHED');
+    expect(createOrderSession).toHaveBeenCalledWith(
+      expect.objectContaining({
+        couponCode: 'LAUNCH',
+        couponLimit: {
+          couponId: 'coupon-1',
+          code: 'LAUNCH',
+          maxRedemptions: 1,
+          maxRedemptionsPerCustomer: null,
+          customerEmailNormalized: null,
+          customerDiscordId: 'customer-1',
+        },
       }),
     );
+    expect(releaseReservedStock).toHaveBeenCalledWith({ tenantId: 'tenant-1', reservations: stockReservations });
+    expect(checkoutSpy).not.toHaveBeenCalled();
   });
 });
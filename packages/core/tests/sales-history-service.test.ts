@@ -21,6 +21,7 @@ function makeGuildConfig(overrides: Partial<GuildConfigRecord> = {}): GuildConfi
     tenantId: 'tenant-1',
     guildId: 'guild-1',
     paidLogChannelId: null,
+    lowStockAlertChannelId: null,
     staffRoleIds: [],
     defaultCurrency: 'GBP',
     couponsEnabled: true,
@@ -28,6 +29,13 @@ function makeGuildConfig(overrides: Partial<GuildConfigRecord> = {}): GuildConfi
     referralsEnabled: true,
     telegramEnabled: false,
     tipEnabled: false,
+    checkoutExpiryMinutes: 30,
+    subscriptionReminderDays: 3,
+    subscriptionGraceDays: 3,
+    invoiceStoreName: '',
+    invoiceStoreDetails: '',
+    invoiceTaxRateBps: 0,
+    selfServiceEnabled: false,
     pointsEarnCategoryKeys: [],
     pointsRedeemCategoryKeys: [],
     pointValueMinor: 1,
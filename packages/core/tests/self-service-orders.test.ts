@@ -0,0 +1,87 @@
+import { ok } from 'neverthrow';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { SaleService } from '../src/services/sale-service.js';
+
+const saleInput = {
+  tenantId: 'tenant-1',
+  guildId: 'guild-1',
+  ticketChannelId: 'channel-1',
+  staffDiscordUserId: 'customer-1',
+  customerDiscordUserId: 'customer-1',
+  productId: 'product-1',
+  variantId: 'variant-1',
+  answers: {},
+  source: 'self_service' as const,
+};
+
+function mockService(input: { selfServiceEnabled: boolean; recentCount: number }) {
+  const service = new SaleService();
+  vi.spyOn((service as any).authorizationService, 'ensureTenantIsActive').mockResolvedValue(ok(undefined));
+  vi.spyOn((service as any).tenantRepository, 'getGuildConfig').mockResolvedValue({
+    selfServiceEnabled: input.selfServiceEnabled,
+  });
+  const countSpy = vi
+    .spyOn((service as any).orderRepository, 'countCustomerSessionsSince')
+    .mockResolvedValue(input.recentCount);
+  const internalSpy = vi
+    .spyOn(service as any, 'createSaleSessionInternal')
+    .mockResolvedValue(ok({ orderSessionId: 'session-1' }));
+
+  return { service, countSpy, internalSpy };
+}
+
+describe('self-service orders', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('refuses self-service checkouts when the guild has not enabled them', async () => {
+    const { service, countSpy, internalSpy } = mockService({ selfServiceEnabled: false, recentCount: 0 });
+
+    const result = await service.createSaleSessionFromBot(saleInput);
+
+    expect(result.isErr() && result.error.code).toBe('SELF_SERVICE_DISABLED');
+    expect(countSpy).not.toHaveBeenCalled();
+    expect(internalSpy).not.toHaveBeenCalled();
+  });
+
+  it('rate limits customers who started three checkouts in the last hour', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-01T12:00:00.000Z'));
+    const { service, countSpy, internalSpy } = mockService({ selfServiceEnabled: true, recentCount: 3 });
+
+    const result = await service.createSaleSessionFromBot(saleInput);
+
+    expect(result.isErr() && result.error.code).toBe('SELF_SERVICE_RATE_LIMITED');
+    expect(result.isErr() && result.error.statusCode).toBe(429);
+    expect(countSpy).toHaveBeenCalledWith({
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      customerDiscordId: 'customer-1',
+      source: 'self_service',
+      since: new Date('2026-10-01T11:00:00.000Z'),
+    });
+    expect(internalSpy).not.toHaveBeenCalled();
+  });
+
+  it('creates the checkout when the customer is under the limit', async () => {
+    const { service, internalSpy } = mockService({ selfServiceEnabled: true, recentCount: 2 });
+
+    const result = await service.createSaleSessionFromBot(saleInput);
+
+    expect(result.isOk()).toBe(true);
+    expect(internalSpy).toHaveBeenCalledWith(saleInput);
+  });
+
+  it('does not gate staff-started checkouts', async () => {
+    const { service, countSpy, internalSpy } = mockService({ selfServiceEnabled: false, recentCount: 10 });
+
+    const result = await service.createSaleSessionFromBot({ ...saleInput, source: 'staff' });
+
+    expect(result.isOk()).toBe(true);
+    expect(countSpy).not.toHaveBeenCalled();
+    expect(internalSpy).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,239 @@
+import { err, ok } from 'neverthrow';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { AppError } from '../src/domain/errors.js';
+import * as discordRest from '../src/integrations/discord-rest.js';
+import type { ProductAggregate } from '../src/repositories/product-repository.js';
+import type { StorefrontPanelRecord } from '../src/repositories/storefront-panel-repository.js';
+import { ProductService } from '../src/services/product-service.js';
+import { buildStorefrontPanelMessage, STOREFRONT_PRODUCT_SELECT_CUSTOM_ID } from '../src/services/storefront.js';
+import { StorefrontService } from '../src/services/storefront-service.js';
+
+type Variant = ProductAggregate['variants'][number];
+
+function makeVariant(overrides: Partial<Variant> = {}): Variant {
+  return {
+    id: 'variant-1',
+    label: '1 Month',
+    priceMinor: 1000,
+    referralRewardMinor: 0,
+    currency: 'GBP',
+    wooProductId: null,
+    wooCheckoutPath: null,
+    stockQuantity: null,
+    stockReserved: 0,
+    lowStockThreshold: null,
+    roleRewards: [],
+    billingIntervalDays: null,
+    ...overrides,
+  };
+}
+
+function makeProduct(overrides: Partial<ProductAggregate> = {}): ProductAggregate {
+  return {
+    id: 'product-1',
+    tenantId: 'tenant-1',
+    guildId: 'guild-1',
+    category: 'Accounts',
+    name: 'Premium',
+    description: '',
+    active: true,
+    roleRewards: [],
+    variants: [makeVariant()],
+    formFields: [],
+    ...overrides,
+  };
+}
+
+function makePanel(overrides: Partial<StorefrontPanelRecord> = {}): StorefrontPanelRecord {
+  return {
+    id: 'panel-1',
+    tenantId: 'tenant-1',
+    guildId: 'guild-1',
+    channelId: 'channel-1',
+    messageId: 'message-1',
+    ticketCategoryId: null,
+    createdAt: new Date('2026-10-01T00:00:00.000Z'),
+    updatedAt: new Date('2026-10-01T00:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+const updatedAt = new Date('2026-10-18T12:00:00.000Z');
+
+describe('buildStorefrontPanelMessage', () => {
+  it('groups active products by category with prices and sold-out markers', () => {
+    const message = buildStorefrontPanelMessage({
+      storeName: 'Voodoo Store',
+      updatedAt,
+      products: [
+        makeProduct({
+          id: 'product-2',
+          name: 'Basic',
+          variants: [
+            makeVariant({ id: 'v-a', label: 'Week', priceMinor: 500 }),
+            makeVariant({ id: 'v-b', label: 'Month', priceMinor: 1500, stockQuantity: 2, stockReserved: 2 }),
+          ],
+        }),
+        makeProduct({
+          id: 'product-3',
+          category: 'Boosts',
+          name: 'Server Boost',
+          variants: [makeVariant({ id: 'v-c', stockQuantity: 0 })],
+        }),
+        makeProduct({ id: 'product-4', name: 'Hidden', active: false }),
+        makeProduct({ id: 'product-5', name: 'No Prices', variants: [] }),
+      ],
+    });
+
+    const embed = message.embeds[0] as { title: string; fields: Array<{ name: string; value: string }> };
+    expect(embed.title).toBe('Voodoo Store');
+    expect(embed.fields).toEqual([
+      { name: 'Accounts', value: '**Basic** - Week £5.00 | ~~Month £15.00~~ (sold out)', inline: false },
+      { name: 'Boosts', value: '**Server Boost** - sold out', inline: false },
+    ]);
+
+    const select = (message.components[0] as { components: Array<Record<string, unknown>> }).components[0];
+    expect(select?.custom_id).toBe(STOREFRONT_PRODUCT_SELECT_CUSTOM_ID);
+    expect(select?.options).toEqual([
+      { label: 'Basic', description: 'Accounts - from £5.00', value: 'product-2' },
+      { label: 'Server Boost (Sold out)', description: 'Boosts - sold out', value: 'product-3' },
+    ]);
+  });
+
+  it('drops the product picker when nothing is for sale', () => {
+    const message = buildStorefrontPanelMessage({ storeName: '', updatedAt, products: [] });
+
+    expect(message.components).toEqual([]);
+    expect(message.embeds[0]).toMatchObject({
+      title: 'Store',
+      description: 'No products are available right now. Check back soon.',
+    });
+  });
+
+  it('stays within Discord field and select limits for large catalogs', () => {
+    const products = Array.from({ length: 40 }, (_, index) =>
+      makeProduct({
+        id: `product-${index}`,
+        category: `Category ${String(index).padStart(2, '0')}`,
+        name: `Item ${index}`,
+      }),
+    );
+
+    const message = buildStorefrontPanelMessage({ storeName: 'Store', updatedAt, products });
+
+    const embed = message.embeds[0] as { fields: Array<{ name: string; value: string }> };
+    expect(embed.fields).toHaveLength(25);
+    expect(embed.fields[24]).toMatchObject({
+      name: 'More products',
+      value: expect.stringContaining('16 more categories'),
+    });
+    const select = (message.components[0] as { components: Array<{ options: unknown[] }> }).components[0];
+    expect(select?.options).toHaveLength(25);
+  });
+});
+
+describe('StorefrontService.refreshGuildPanels', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function mockService(panels: StorefrontPanelRecord[]) {
+    const service = new StorefrontService();
+    vi.spyOn((service as any).storefrontPanelRepository, 'listByGuild').mockResolvedValue(panels);
+    const touchSpy = vi.spyOn((service as any).storefrontPanelRepository, 'touch').mockResolvedValue(undefined);
+    const deleteSpy = vi.spyOn((service as any).storefrontPanelRepository, 'delete').mockResolvedValue(undefined);
+    vi.spyOn((service as any).productRepository, 'listByGuild').mockResolvedValue([makeProduct()]);
+    vi.spyOn((service as any).tenantRepository, 'getGuildConfig').mockResolvedValue({ invoiceStoreName: 'Shop' });
+    vi.spyOn((service as any).adminService, 'getResolvedBotToken').mockResolvedValue(ok('bot-token'));
+
+    return { service, touchSpy, deleteSpy };
+  }
+
+  it('edits every panel message with the current catalog', async () => {
+    const { service, touchSpy } = mockService([
+      makePanel(),
+      makePanel({ id: 'panel-2', channelId: 'channel-2', messageId: 'message-2' }),
+    ]);
+    const editSpy = vi.spyOn(discordRest, 'editDiscordChannelMessage').mockResolvedValue(undefined);
+
+    const result = await service.refreshGuildPanels({ tenantId: 'tenant-1', guildId: 'guild-1' });
+
+    expect(result._unsafeUnwrap()).toEqual({ refreshedCount: 2, removedCount: 0, failedCount: 0 });
+    expect(editSpy).toHaveBeenCalledTimes(2);
+    expect(editSpy.mock.calls[1]?.[0]).toMatchObject({
+      botToken: 'bot-token',
+      channelId: 'channel-2',
+      messageId: 'message-2',
+      embeds: [expect.objectContaining({ title: 'Shop' })],
+    });
+    expect(touchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('forgets panels whose Discord message was deleted and keeps others on failure', async () => {
+    const { service, deleteSpy } = mockService([makePanel(), makePanel({ id: 'panel-2', messageId: 'message-2' })]);
+    vi.spyOn(discordRest, 'editDiscordChannelMessage')
+      .mockRejectedValueOnce(new AppError('DISCORD_MESSAGE_EDIT_FAILED', 'gone', 502, { discordStatus: 404 }))
+      .mockRejectedValueOnce(new AppError('DISCORD_MESSAGE_EDIT_FAILED', 'busy', 502, { discordStatus: 500 }));
+
+    const result = await service.refreshGuildPanels({ tenantId: 'tenant-1', guildId: 'guild-1' });
+
+    expect(result._unsafeUnwrap()).toEqual({ refreshedCount: 0, removedCount: 1, failedCount: 1 });
+    expect(deleteSpy).toHaveBeenCalledWith({ tenantId: 'tenant-1', panelId: 'panel-1' });
+  });
+
+  it('does nothing when the guild has no panels', async () => {
+    const { service } = mockService([]);
+    const editSpy = vi.spyOn(discordRest, 'editDiscordChannelMessage');
+
+    const result = await service.refreshGuildPanels({ tenantId: 'tenant-1', guildId: 'guild-1' });
+
+    expect(result._unsafeUnwrap()).toEqual({ refreshedCount: 0, removedCount: 0, failedCount: 0 });
+    expect(editSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe('ProductService storefront refresh', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('refreshes panels after catalog changes without failing the change', async () => {
+    const service = new ProductService();
+    vi.spyOn((service as any).authorizationService, 'ensureTenantRole').mockResolvedValue(ok(undefined));
+    vi.spyOn((service as any).productRepository, 'delete').mockResolvedValue('deleted');
+    const refreshSpy = vi
+      .spyOn((service as any).storefrontService, 'refreshGuildPanels')
+      .mockResolvedValue(err(new AppError('DB_DOWN', 'Database unavailable', 500)));
+
+    const result = await service.deleteProduct({} as any, {
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      productId: 'product-1',
+    });
+
+    expect(result._unsafeUnwrap()).toEqual({ archived: false });
+    expect(refreshSpy).toHaveBeenCalledWith({ tenantId: 'tenant-1', guildId: 'guild-1' });
+  });
+
+  it('reports deleted and archived products separately when a category is removed', async () => {
+    const service = new ProductService();
+    vi.spyOn((service as any).authorizationService, 'ensureTenantRole').mockResolvedValue(ok(undefined));
+    vi.spyOn((service as any).authorizationService, 'ensureGuildBoundToTenant').mockResolvedValue(ok(undefined));
+    vi.spyOn((service as any).productRepository, 'listByGuild').mockResolvedValue([{ category: 'Accounts' }]);
+    const deleteCategory = vi
+      .spyOn((service as any).productRepository, 'deleteCategory')
+      .mockResolvedValue({ deleted: 2, archived: 1 });
+    vi.spyOn((service as any).tenantRepository, 'getGuildConfig').mockResolvedValue(null);
+    vi.spyOn((service as any).storefrontService, 'refreshGuildPanels').mockResolvedValue(ok(undefined));
+
+    const result = await service.deleteCategory({} as any, {
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      category: 'accounts',
+    });
+
+    expect(deleteCategory).toHaveBeenCalledWith({ tenantId: 'tenant-1', guildId: 'guild-1', category: 'Accounts' });
+    expect(result._unsafeUnwrap()).toEqual({ deletedProducts: 2, archivedProducts: 1, category: 'Accounts' });
+  });
+});
@@ -0,0 +1,292 @@
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { err, ok } from 'neverthrow';
+
+import { resetEnvForTests } from '../src/config/env.js';
+import { AppError } from '../src/domain/errors.js';
+import { createStripeWebhookSignature } from '../src/security/stripe-webhook-signature.js';
+import {
+  clampStripeCheckoutExpiry,
+  resolveStripePaymentState,
+  StripePaymentProvider,
+} from '../src/services/stripe-payment-provider.js';
+
+type StubRequest = {
+  path: string;
+  headers: IncomingMessage['headers'];
+  form: URLSearchParams;
+};
+
+const ORIGINAL_STRIPE_API_BASE_URL = process.env.STRIPE_API_BASE_URL;
+const stubRequests: StubRequest[] = [];
+let stubServer: Server;
+
+const integration = {
+  tenantId: 'tenant-1',
+  guildId: 'guild-1',
+  tenantWebhookKey: 'stripe-webhook-key',
+  secretKey: 'sk_test_abc123',
+  webhookSecret: 'whsec_abc123',
+};
+
+function makeProvider(): StripePaymentProvider {
+  const provider = new StripePaymentProvider();
+  vi.spyOn((provider as any).integrationService, 'getResolvedStripeIntegrationByGuild').mockResolvedValue(
+    ok(integration),
+  );
+  vi.spyOn((provider as any).integrationService, 'getResolvedStripeIntegrationByWebhookKey').mockResolvedValue(
+    ok(integration),
+  );
+  return provider;
+}
+
+function checkoutSessionEvent(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id: 'evt_1',
+    type: 'checkout.session.completed',
+    data: {
+      object: {
+        id: 'cs_test_1',
+        client_reference_id: 'order-session-1',
+        payment_intent: 'pi_1',
+        payment_status: 'paid',
+        amount_total: 1500,
+        currency: 'gbp',
+        metadata: { vd_order_session_id: 'order-session-1' },
+        ...overrides,
+      },
+    },
+  };
+}
+
+describe('stripe payment provider', () => {
+  beforeAll(async () => {
+    stubServer = createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk: Buffer) => {
+        body += chunk.toString();
+      });
+      request.on('end', () => {
+        const path = request.url ?? '';
+        const form = new URLSearchParams(body);
+        stubRequests.push({ path, headers: request.headers, form });
+
+        response.setHeader('Content-Type', 'application/json');
+        if (path === '/v1/checkout/sessions') {
+          response.end(JSON.stringify({ id: 'cs_test_1', url: 'https://checkout.stripe.test/c/pay/cs_test_1' }));
+          return;
+        }
+        if (path === '/v1/refunds' && form.get('payment_intent') === 'pi_declined') {
+          response.statusCode = 400;
+          response.end(
+            JSON.stringify({ error: { message: 'Charge already refunded', code: 'charge_already_refunded' } }),
+          );
+          return;
+        }
+        if (path === '/v1/refunds') {
+          response.end(JSON.stringify({ id: 're_1', status: 'succeeded' }));
+          return;
+        }
+
+        response.statusCode = 404;
+        response.end(JSON.stringify({ error: { message: 'Unknown route' } }));
+      });
+    });
+    await new Promise<void>((resolve) => stubServer.listen(0, '127.0.0.1', resolve));
+    const { port } = stubServer.address() as AddressInfo;
+    process.env.STRIPE_API_BASE_URL = `http://127.0.0.1:${port}`;
+    resetEnvForTests();
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => stubServer.close(() => resolve()));
+    if (ORIGINAL_STRIPE_API_BASE_URL === undefined) {
+      delete process.env.STRIPE_API_BASE_URL;
+    } else {
+      process.env.STRIPE_API_BASE_URL = ORIGINAL_STRIPE_API_BASE_URL;
+    }
+    resetEnvForTests();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    stubRequests.length = 0;
+  });
+
+  it('creates a Checkout Session tagged with the order session', async () => {
+    const provider = makeProvider();
+    const expiresAt = new Date(Date.now() + 2 * 60 * 60 * 1000);
+
+    const result = await provider.createCheckout({
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      orderSessionId: 'order-session-1',
+      customerDiscordUserId: 'customer-1',
+      primaryItem: {
+        productId: 'product-1',
+        variantId: 'variant-1',
+        productName: 'Match Package',
+        variantLabel: 'Standard',
+      },
+      totalMinor: 1500,
+      currency: 'GBP',
+      customerEmail: 'customer@example.com',
+      checkoutToken: 'checkout-token',
+      expiresAt,
+    });
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.checkoutUrl).toBe('https://checkout.stripe.test/c/pay/cs_test_1');
+      expect(result.value.checkoutOptions).toEqual([
+        { method: 'pay', label: 'Pay', url: 'https://checkout.stripe.test/c/pay/cs_test_1' },
+      ]);
+    }
+
+    expect(stubRequests).toHaveLength(1);
+    const [request] = stubRequests;
+    expect(request?.headers.authorization).toBe('Bearer sk_test_abc123');
+    expect(request?.headers['idempotency-key']).toBe('checkout-order-session-1');
+    expect(request?.form.get('mode')).toBe('payment');
+    expect(request?.form.get('client_reference_id')).toBe('order-session-1');
+    expect(request?.form.get('customer_email')).toBe('customer@example.com');
+    expect(request?.form.get('line_items[0][price_data][currency]')).toBe('gbp');
+    expect(request?.form.get('line_items[0][price_data][unit_amount]')).toBe('1500');
+    expect(request?.form.get('line_items[0][price_data][product_data][name]')).toBe('Match Package - Standard');
+    expect(request?.form.get('metadata[vd_order_session_id]')).toBe('order-session-1');
+    expect(request?.form.get('payment_intent_data[metadata][vd_order_session_id]')).toBe('order-session-1');
+    expect(request?.form.get('expires_at')).toBe(String(Math.floor(expiresAt.getTime() / 1000)));
+    expect(request?.form.get('success_url')).toContain('/receipt/order-session-1?token=');
+  });
+
+  it('reports itself unconfigured when the guild has not connected Stripe', async () => {
+    const provider = new StripePaymentProvider();
+    vi.spyOn((provider as any).integrationService, 'getResolvedStripeIntegrationByGuild').mockResolvedValue(
+      err(new AppError('STRIPE_INTEGRATION_NOT_CONFIGURED', 'Stripe integration is not configured', 404)),
+    );
+
+    const configured = await provider.isConfigured({ tenantId: 'tenant-1', guildId: 'guild-1' });
+
+    expect(configured._unsafeUnwrap()).toBe(false);
+    expect(stubRequests).toHaveLength(0);
+  });
+
+  it('verifies signed webhooks and reports bad signatures', async () => {
+    const provider = makeProvider();
+    const rawBody = JSON.stringify(checkoutSessionEvent());
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    const verified = await provider.verifyWebhook({
+      tenantWebhookKey: 'stripe-webhook-key',
+      rawBody,
+      headers: {
+        'stripe-signature': createStripeWebhookSignature({ rawBody, secret: 'whsec_abc123', timestamp }),
+      },
+      query: {},
+    });
+    const forged = await provider.verifyWebhook({
+      tenantWebhookKey: 'stripe-webhook-key',
+      rawBody,
+      headers: {
+        'stripe-signature': createStripeWebhookSignature({ rawBody, secret: 'whsec_forged', timestamp }),
+      },
+      query: {},
+    });
+
+    expect(verified._unsafeUnwrap()).toMatchObject({
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      signatureValid: true,
+      deliveryId: 'evt_1',
+      topic: 'checkout.session.completed',
+    });
+    expect(forged._unsafeUnwrap().signatureValid).toBe(false);
+  });
+
+  it('maps Checkout Session and refund events onto the payment state', () => {
+    expect(resolveStripePaymentState(checkoutSessionEvent())).toEqual({
+      paid: true,
+      status: 'paid',
+      orderSessionId: 'order-session-1',
+      providerOrderId: 'cs_test_1',
+      paymentReference: 'pi_1',
+      amountMinor: 1500,
+      currency: 'GBP',
+      refundReason: null,
+      refundedMinor: 0,
+    });
+    expect(resolveStripePaymentState(checkoutSessionEvent({ payment_status: 'unpaid' })).paid).toBe(false);
+    expect(
+      resolveStripePaymentState({
+        ...checkoutSessionEvent(),
+        type: 'checkout.session.expired',
+      }),
+    ).toMatchObject({ paid: false, status: 'expired' });
+
+    const charge = {
+      id: 'ch_1',
+      payment_intent: 'pi_1',
+      amount: 1500,
+      currency: 'gbp',
+      metadata: { vd_order_session_id: 'order-session-1' },
+    };
+    expect(
+      resolveStripePaymentState({
+        type: 'charge.refunded',
+        data: { object: { ...charge, refunded: false, amount_refunded: 500 } },
+      }),
+    ).toMatchObject({
+      paid: false,
+      status: 'partially_refunded',
+      orderSessionId: 'order-session-1',
+      refundReason: 'refund',
+      refundedMinor: 500,
+    });
+    expect(
+      resolveStripePaymentState({
+        type: 'charge.refunded',
+        data: { object: { ...charge, refunded: true, amount_refunded: 1500 } },
+      }),
+    ).toMatchObject({ paid: false, status: 'refunded', refundReason: 'refund' });
+  });
+
+  it('refunds the payment intent and surfaces Stripe errors', async () => {
+    const provider = makeProvider();
+    const refundInput = {
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      providerOrderId: 'cs_test_1',
+      paymentReference: 'pi_1',
+      amountMinor: 500,
+      currency: 'GBP',
+      reason: null,
+    };
+
+    const refunded = await provider.refund(refundInput);
+    const declined = await provider.refund({ ...refundInput, paymentReference: 'pi_declined' });
+    const missing = await provider.refund({ ...refundInput, paymentReference: null });
+
+    expect(refunded._unsafeUnwrap()).toEqual({ refundId: 're_1', status: 'succeeded' });
+    expect(stubRequests[0]?.form.get('payment_intent')).toBe('pi_1');
+    expect(stubRequests[0]?.form.get('amount')).toBe('500');
+    expect(declined._unsafeUnwrapErr()).toMatchObject({
+      code: 'STRIPE_API_ERROR',
+      message: 'Charge already refunded',
+      statusCode: 502,
+    });
+    expect(missing._unsafeUnwrapErr().code).toBe('STRIPE_PAYMENT_INTENT_MISSING');
+  });
+
+  it('keeps checkout expiries inside the window Stripe accepts', () => {
+    const now = new Date('2026-05-01T12:00:00.000Z');
+
+    expect(clampStripeCheckoutExpiry(new Date('2026-05-01T12:10:00.000Z'), now).toISOString()).toBe(
+      '2026-05-01T12:31:00.000Z',
+    );
+    expect(clampStripeCheckoutExpiry(new Date('2026-05-03T12:00:00.000Z'), now).toISOString()).toBe(
+      '2026-05-02T11:59:00.000Z',
+    );
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  createStripeWebhookSignature,
+  verifyStripeWebhookSignature,
+} from '../src/security/stripe-webhook-signature.js';
+
+const secret = 'whsec_testsecret';
+const rawBody = JSON.stringify({ id: 'evt_1', type: 'checkout.session.completed' });
+const now = new Date('2026-05-01T12:00:00.000Z');
+const timestamp = Math.floor(now.getTime() / 1000);
+
+describe('stripe webhook signature', () => {
+  it('verifies a signature created with the endpoint secret', () => {
+    const signatureHeader = createStripeWebhookSignature({ rawBody, secret, timestamp });
+
+    expect(verifyStripeWebhookSignature({ rawBody, secret, signatureHeader, now })).toBe(true);
+  });
+
+  it('accepts any v1 entry so rolled secrets keep working', () => {
+    const signed = createStripeWebhookSignature({ rawBody, secret, timestamp });
+    const signatureHeader = `t=${timestamp},v1=${'0'.repeat(64)},${signed.split(',')[1]}`;
+
+    expect(verifyStripeWebhookSignature({ rawBody, secret, signatureHeader, now })).toBe(true);
+  });
+
+  it('rejects a tampered body, a wrong secret and a missing header', () => {
+    const signatureHeader = createStripeWebhookSignature({ rawBody, secret, timestamp });
+
+    expect(verifyStripeWebhookSignature({ rawBody: `${rawBody} `, secret, signatureHeader, now })).toBe(false);
+    expect(verifyStripeWebhookSignature({ rawBody, secret: 'whsec_other', signatureHeader, now })).toBe(false);
+    expect(verifyStripeWebhookSignature({ rawBody, secret, signatureHeader: null, now })).toBe(false);
+    expect(verifyStripeWebhookSignature({ rawBody, secret, signatureHeader: 'garbage', now })).toBe(false);
+  });
+
+  it('rejects timestamps outside the tolerance window', () => {
+    const signatureHeader = createStripeWebhookSignature({ rawBody, secret, timestamp: timestamp - 301 });
+
+    expect(verifyStripeWebhookSignature({ rawBody, secret, signatureHeader, now })).toBe(false);
+    expect(
+      verifyStripeWebhookSignature({ rawBody, secret, signatureHeader, now, toleranceSeconds: 600 }),
+    ).toBe(true);
+  });
+});
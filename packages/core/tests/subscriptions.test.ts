@@ -0,0 +1,242 @@
+import { err, ok } from 'neverthrow';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { AppError } from '../src/domain/errors.js';
+import * as discordRest from '../src/integrations/discord-rest.js';
+import type { OrderSessionRecord } from '../src/repositories/order-repository.js';
+import type { SubscriptionRecord } from '../src/repositories/subscription-repository.js';
+import { SubscriptionService } from '../src/services/subscription-service.js';
+import { resolveRenewalPeriodStart, resolveSubscriptionPeriod } from '../src/services/subscriptions.js';
+
+function makeOrderSession(overrides: Partial<OrderSessionRecord> = {}): OrderSessionRecord {
+  return {
+    id: 'order-session-1',
+    tenantId: 'tenant-1',
+    guildId: 'guild-1',
+    ticketChannelId: 'ticket-1',
+    staffUserId: 'staff-1',
+    customerDiscordId: 'customer-1',
+    productId: 'product-1',
+    variantId: 'variant-1',
+    basketItems: [
+      {
+        productId: 'product-1',
+        productName: 'Membership',
+        category: 'Access',
+        variantId: 'variant-1',
+        variantLabel: 'Monthly',
+        priceMinor: 1000,
+        currency: 'GBP',
+        billingIntervalDays: 30,
+        roleRewards: [{ roleId: 'role-vip', durationDays: null }],
+      },
+    ],
+    automaticDiscountMinor: 0,
+    automaticDiscounts: [],
+    couponCode: null,
+    couponDiscountMinor: 0,
+    customerEmailNormalized: 'customer@example.com',
+    pointsReserved: 0,
+    pointsDiscountMinor: 0,
+    pointsReservationState: 'none',
+    pointsConfigSnapshot: {
+      pointValueMinor: 1,
+      earnCategoryKeys: [],
+      redeemCategoryKeys: [],
+    },
+    stockReservations: [],
+    stockReservationState: 'none',
+    fxRatesSnapshot: [],
+    formSnapshot: null,
+    subscriptionId: null,
+    source: 'staff',
+    referralRewardMinorSnapshot: 0,
+    tipMinor: 0,
+    subtotalMinor: 1000,
+    totalMinor: 1000,
+    status: 'paid',
+    answers: { email: 'customer@example.com' },
+    checkoutUrl: null,
+    checkoutUrlCrypto: null,
+    checkoutTokenExpiresAt: null,
+    checkoutMessageChannelId: null,
+    checkoutMessageId: null,
+    ...overrides,
+  };
+}
+
+function makeSubscription(overrides: Partial<SubscriptionRecord> = {}): SubscriptionRecord {
+  return {
+    id: 'subscription-1',
+    tenantId: 'tenant-1',
+    guildId: 'guild-1',
+    customerDiscordId: 'customer-1',
+    productId: 'product-1',
+    variantId: 'variant-1',
+    productName: 'Membership',
+    variantLabel: 'Monthly',
+    billingIntervalDays: 30,
+    roleIds: ['role-vip'],
+    status: 'active',
+    sourceOrderSessionId: 'order-session-1',
+    lastPaidOrderSessionId: 'order-session-1',
+    currentPeriodEnd: new Date('2026-05-01T09:00:00.000Z'),
+    reminderDueAt: new Date('2026-04-28T09:00:00.000Z'),
+    graceEndsAt: new Date('2026-05-04T09:00:00.000Z'),
+    reminderSentAt: null,
+    renewalOrderSessionId: null,
+    lapsedAt: null,
+    lastError: null,
+    createdAt: new Date('2026-04-01T09:00:00.000Z'),
+    updatedAt: new Date('2026-04-01T09:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+function stubRepository(service: SubscriptionService) {
+  const repository = (service as any).subscriptionRepository;
+  vi.spyOn((service as any).tenantRepository, 'getGuildConfig').mockResolvedValue(null);
+  vi.spyOn(repository, 'listDueLapses').mockResolvedValue([]);
+  vi.spyOn(repository, 'listDueReminders').mockResolvedValue([]);
+  vi.spyOn(repository, 'listEndedPeriods').mockResolvedValue([]);
+  return repository;
+}
+
+describe('subscriptions', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('resolves renewal periods and clamps the reminder to the period start', () => {
+    expect(
+      resolveSubscriptionPeriod({
+        periodStart: new Date('2026-04-01T00:00:00.000Z'),
+        billingIntervalDays: 30,
+        reminderDays: 3,
+        graceDays: 2,
+      }),
+    ).toEqual({
+      currentPeriodEnd: new Date('2026-05-01T00:00:00.000Z'),
+      reminderDueAt: new Date('2026-04-28T00:00:00.000Z'),
+      graceEndsAt: new Date('2026-05-03T00:00:00.000Z'),
+    });
+    expect(
+      resolveSubscriptionPeriod({
+        periodStart: new Date('2026-04-01T00:00:00.000Z'),
+        billingIntervalDays: 1,
+        reminderDays: 3,
+        graceDays: 0,
+      }).reminderDueAt,
+    ).toEqual(new Date('2026-04-01T00:00:00.000Z'));
+
+    const now = new Date('2026-06-01T00:00:00.000Z');
+    const currentPeriodEnd = new Date('2026-05-01T00:00:00.000Z');
+    expect(resolveRenewalPeriodStart({ status: 'grace', currentPeriodEnd, now })).toEqual(currentPeriodEnd);
+    expect(resolveRenewalPeriodStart({ status: 'lapsed', currentPeriodEnd, now })).toEqual(now);
+  });
+
+  it('starts a subscription on the first paid order', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-04-01T09:00:00.000Z'));
+    const service = new SubscriptionService();
+    const repository = stubRepository(service);
+    vi.spyOn(repository, 'getCurrentByCustomerVariant').mockResolvedValue(null);
+    const create = vi.spyOn(repository, 'create').mockResolvedValue(makeSubscription());
+
+    const result = await service.recordPaidOrder({ orderSession: makeOrderSession() });
+
+    expect(result.isOk() && result.value.summaryLines).toEqual([
+      '- Membership / Monthly: renews every 30 days, next payment due 2026-05-01 09:00 UTC',
+    ]);
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        variantId: 'variant-1',
+        roleIds: ['role-vip'],
+        sourceOrderSessionId: 'order-session-1',
+        currentPeriodEnd: new Date('2026-05-01T09:00:00.000Z'),
+        reminderDueAt: new Date('2026-04-28T09:00:00.000Z'),
+        graceEndsAt: new Date('2026-05-04T09:00:00.000Z'),
+      }),
+    );
+  });
+
+  it('extends the subscription from the end of the paid period when the renewal is paid', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-05-02T09:00:00.000Z'));
+    const service = new SubscriptionService();
+    const repository = stubRepository(service);
+    vi.spyOn(repository, 'getById').mockResolvedValue(makeSubscription({ status: 'grace' }));
+    const recordRenewal = vi.spyOn(repository, 'recordRenewal').mockResolvedValue(undefined);
+    const create = vi.spyOn(repository, 'create');
+
+    const result = await service.recordPaidOrder({
+      orderSession: makeOrderSession({ id: 'order-session-2', subscriptionId: 'subscription-1' }),
+    });
+
+    expect(result.isOk() && result.value.summaryLines).toEqual([
+      '- Membership / Monthly: renewed until 2026-05-31 09:00 UTC',
+    ]);
+    expect(recordRenewal).toHaveBeenCalledWith(
+      expect.objectContaining({
+        subscriptionId: 'subscription-1',
+        paidOrderSessionId: 'order-session-2',
+        currentPeriodEnd: new Date('2026-05-31T09:00:00.000Z'),
+      }),
+    );
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('removes access after the grace period and sends renewal checkouts before the period ends', async () => {
+    const service = new SubscriptionService();
+    const repository = stubRepository(service);
+    repository.listDueLapses.mockResolvedValue([
+      makeSubscription({ id: 'subscription-lapsed', status: 'grace' }),
+      makeSubscription({ id: 'subscription-locked', status: 'grace' }),
+    ]);
+    repository.listDueReminders.mockResolvedValue([makeSubscription()]);
+    repository.listEndedPeriods.mockResolvedValue([makeSubscription({ id: 'subscription-ended' })]);
+    const markLapsed = vi.spyOn(repository, 'markLapsed').mockResolvedValue(undefined);
+    const recordError = vi.spyOn(repository, 'recordError').mockResolvedValue(undefined);
+    const markReminderSent = vi.spyOn(repository, 'markReminderSent').mockResolvedValue(undefined);
+    const markGrace = vi.spyOn(repository, 'markGrace').mockResolvedValue(undefined);
+    const revokeRoles = vi
+      .spyOn((service as any).roleGrantService, 'revokeRoles')
+      .mockImplementation(async (input: any) =>
+        input.reason.includes('subscription-locked')
+          ? err(new AppError('DISCORD_ROLE_REMOVE_FAILED', 'Missing Permissions', 502))
+          : ok(undefined),
+      );
+    vi.spyOn((service as any).orderRepository, 'getOrderSessionById').mockResolvedValue(makeOrderSession());
+    const createSale = vi.spyOn((service as any).saleService, 'createSaleSessionFromBot').mockResolvedValue(
+      ok({
+        orderSessionId: 'order-session-renewal',
+        checkoutUrl: 'https://pay.example/renew',
+        checkoutOptions: [{ method: 'pay', label: 'Pay', url: 'https://pay.example/renew' }],
+      }),
+    );
+    vi.spyOn(service as any, 'getBotTokenCandidates').mockResolvedValue(['bot-token']);
+    const sendDm = vi.spyOn(discordRest, 'sendDirectMessageToDiscordUser').mockResolvedValue(undefined as never);
+
+    const result = await service.runRenewalSweep();
+
+    expect(result.isOk() && result.value).toEqual({ remindedCount: 1, lapsedCount: 1, failedCount: 1 });
+    expect(revokeRoles).toHaveBeenCalledWith(expect.objectContaining({ roleIds: ['role-vip'] }));
+    expect(markLapsed).toHaveBeenCalledWith({ subscriptionId: 'subscription-lapsed', lapsedAt: expect.any(Date) });
+    expect(recordError).toHaveBeenCalledWith({ subscriptionId: 'subscription-locked', lastError: 'Missing Permissions' });
+    expect(createSale).toHaveBeenCalledWith(
+      expect.objectContaining({
+        variantId: 'variant-1',
+        subscriptionId: 'subscription-1',
+        checkoutExpiresAt: new Date('2026-05-04T09:00:00.000Z'),
+      }),
+    );
+    expect(sendDm).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'customer-1', content: expect.stringContaining('https://pay.example/renew') }),
+    );
+    expect(markReminderSent).toHaveBeenCalledWith(
+      expect.objectContaining({ subscriptionId: 'subscription-1', renewalOrderSessionId: 'order-session-renewal' }),
+    );
+    expect(markGrace).toHaveBeenCalledWith('subscription-ended');
+  });
+});
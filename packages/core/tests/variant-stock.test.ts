@@ -0,0 +1,227 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import type { OrderSessionRecord } from '../src/repositories/order-repository.js';
+import { InventoryService } from '../src/services/inventory-service.js';
+import {
+  formatLowStockAlert,
+  isLowStock,
+  isVariantSoldOut,
+  resolveAvailableStock,
+  summarizeStockDemand,
+} from '../src/services/variant-stock.js';
+
+function makeOrderSession(overrides: Partial<OrderSessionRecord> = {}): OrderSessionRecord {
+  return {
+    id: 'order-session-1',
+    tenantId: 'tenant-1',
+    guildId: 'guild-1',
+    ticketChannelId: 'ticket-1',
+    staffUserId: 'staff-1',
+    customerDiscordId: 'customer-1',
+    productId: 'product-1',
+    variantId: 'variant-1',
+    basketItems: [
+      {
+        productId: 'product-1',
+        productName: 'Match Package',
+        category: 'Football',
+        variantId: 'variant-1',
+        variantLabel: 'Standard',
+        priceMinor: 1000,
+        currency: 'GBP',
+      },
+    ],
+    automaticDiscountMinor: 0,
+    automaticDiscounts: [],
+    couponCode: null,
+    couponDiscountMinor: 0,
+    customerEmailNormalized: 'customer@example.com',
+    pointsReserved: 0,
+    pointsDiscountMinor: 0,
+    pointsReservationState: 'none',
+    pointsConfigSnapshot: {
+      pointValueMinor: 1,
+      earnCategoryKeys: [],
+      redeemCategoryKeys: [],
+    },
+    stockReservations: [{ variantId: 'variant-1', quantity: 1 }],
+    stockReservationState: 'reserved',
+    fxRatesSnapshot: [],
+    formSnapshot: null,
+    subscriptionId: null,
+    source: 'staff',
+    referralRewardMinorSnapshot: 0,
+    tipMinor: 0,
+    subtotalMinor: 1000,
+    totalMinor: 1000,
+    status: 'pending_payment',
+    answers: {},
+    checkoutUrl: null,
+    checkoutUrlCrypto: null,
+    checkoutTokenExpiresAt: new Date('2026-04-20T11:00:00.000Z'),
+    checkoutMessageChannelId: null,
+    checkoutMessageId: null,
+    ...overrides,
+  };
+}
+
+describe('variant stock helpers', () => {
+  it('subtracts open reservations from on-hand stock', () => {
+    expect(resolveAvailableStock({ stockQuantity: null, stockReserved: 0 })).toBeNull();
+    expect(resolveAvailableStock({ stockQuantity: 5, stockReserved: 2 })).toBe(3);
+    expect(resolveAvailableStock({ stockQuantity: 2, stockReserved: 4 })).toBe(0);
+
+    expect(isVariantSoldOut({ stockQuantity: null, stockReserved: 0 })).toBe(false);
+    expect(isVariantSoldOut({ stockQuantity: 3, stockReserved: 3 })).toBe(true);
+  });
+
+  it('only flags low stock when both a count and a threshold are set', () => {
+    expect(isLowStock({ stockQuantity: 3, lowStockThreshold: null })).toBe(false);
+    expect(isLowStock({ stockQuantity: null, lowStockThreshold: 3 })).toBe(false);
+    expect(isLowStock({ stockQuantity: 3, lowStockThreshold: 3 })).toBe(true);
+    expect(isLowStock({ stockQuantity: 4, lowStockThreshold: 3 })).toBe(false);
+  });
+
+  it('counts one unit per basket line', () => {
+    expect(
+      summarizeStockDemand([{ variantId: 'v2' }, { variantId: 'v1' }, { variantId: 'v2' }]),
+    ).toEqual([
+      { variantId: 'v2', quantity: 2 },
+      { variantId: 'v1', quantity: 1 },
+    ]);
+  });
+
+  it('counts line quantities when summarizing stock demand', () => {
+    expect(summarizeStockDemand([{ variantId: 'v1', quantity: 3 }, { variantId: 'v1' }])).toEqual([
+      { variantId: 'v1', quantity: 4 },
+    ]);
+  });
+
+  it('formats low-stock and sold-out alerts', () => {
+    const alert = { productName: 'Match Package', variantLabel: 'Standard', lowStockThreshold: 3 };
+
+    expect(formatLowStockAlert({ ...alert, stockQuantity: 2 })).toBe(
+      'Low stock: **Match Package / Standard** - 2 left (alert at 3)',
+    );
+    expect(formatLowStockAlert({ ...alert, stockQuantity: 0 })).toBe(
+      'Sold out: **Match Package / Standard** - 0 left (alert at 3)',
+    );
+  });
+});
+
+describe('InventoryService', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('refuses a basket when a tracked variant has run out', async () => {
+    const service = new InventoryService();
+
+    vi.spyOn((service as any).variantStockRepository, 'reserve').mockResolvedValue({
+      ok: false,
+      variantId: 'variant-1',
+    });
+    vi.spyOn((service as any).variantStockRepository, 'listByIds').mockResolvedValue([
+      {
+        variantId: 'variant-1',
+        productId: 'product-1',
+        label: 'Standard',
+        stockQuantity: 1,
+        stockReserved: 1,
+        lowStockThreshold: null,
+        lowStockAlertedAt: null,
+      },
+    ]);
+
+    const result = await service.reserveStockForBasket({
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      items: [{ variantId: 'variant-1', productName: 'Match Package', variantLabel: 'Standard' }],
+    });
+
+    expect(result.isErr() && result.error.code).toBe('VARIANT_SOLD_OUT');
+    expect(result.isErr() && result.error.message).toBe('Match Package / Standard is sold out.');
+  });
+
+  it('consumes reserved stock on payment and reports a newly low variant once', async () => {
+    const service = new InventoryService();
+    const settle = vi.spyOn((service as any).variantStockRepository, 'settleOrderSession').mockResolvedValue(true);
+    vi.spyOn((service as any).variantStockRepository, 'listByIds').mockResolvedValue([
+      {
+        variantId: 'variant-1',
+        productId: 'product-1',
+        label: 'Standard',
+        stockQuantity: 2,
+        stockReserved: 0,
+        lowStockThreshold: 2,
+        lowStockAlertedAt: null,
+      },
+    ]);
+    vi.spyOn((service as any).variantStockRepository, 'claimLowStockAlert').mockResolvedValue(true);
+
+    const result = await service.consumeStockForPaidOrder({ orderSession: makeOrderSession() });
+
+    expect(settle).toHaveBeenCalledTimes(1);
+    expect(settle).toHaveBeenCalledWith({
+      tenantId: 'tenant-1',
+      orderSessionId: 'order-session-1',
+      fromStates: ['reserved'],
+      toState: 'consumed',
+      settlement: 'consume',
+      demand: [{ variantId: 'variant-1', quantity: 1 }],
+    });
+    expect(result.isOk() && result.value).toEqual([
+      {
+        variantId: 'variant-1',
+        productName: 'Match Package',
+        variantLabel: 'Standard',
+        stockQuantity: 2,
+        lowStockThreshold: 2,
+      },
+    ]);
+  });
+
+  it('still deducts stock when payment lands after the reservation was released', async () => {
+    const service = new InventoryService();
+    const settle = vi.spyOn((service as any).variantStockRepository, 'settleOrderSession').mockResolvedValue(true);
+    vi.spyOn((service as any).variantStockRepository, 'listByIds').mockResolvedValue([]);
+
+    const result = await service.consumeStockForPaidOrder({
+      orderSession: makeOrderSession({ stockReservationState: 'released_expired' }),
+    });
+
+    expect(result.isOk() && result.value).toEqual([]);
+    expect(settle).toHaveBeenCalledTimes(1);
+    expect(settle).toHaveBeenCalledWith(
+      expect.objectContaining({ fromStates: ['released_expired', 'released_cancelled'], settlement: 'deduct' }),
+    );
+  });
+
+  it('deducts instead of consuming when the reservation is released while the payment settles', async () => {
+    const service = new InventoryService();
+    const settle = vi
+      .spyOn((service as any).variantStockRepository, 'settleOrderSession')
+      .mockResolvedValueOnce(false)
+      .mockResolvedValueOnce(true);
+    vi.spyOn((service as any).variantStockRepository, 'listByIds').mockResolvedValue([]);
+
+    const result = await service.consumeStockForPaidOrder({ orderSession: makeOrderSession() });
+
+    expect(result.isOk()).toBe(true);
+    expect(settle.mock.calls.map(([call]) => (call as { settlement: string }).settlement)).toEqual([
+      'consume',
+      'deduct',
+    ]);
+  });
+
+  it('leaves stock alone when another worker already settled the order session', async () => {
+    const service = new InventoryService();
+    vi.spyOn((service as any).variantStockRepository, 'settleOrderSession').mockResolvedValue(false);
+    const listByIds = vi.spyOn((service as any).variantStockRepository, 'listByIds');
+
+    const result = await service.consumeStockForPaidOrder({ orderSession: makeOrderSession() });
+
+    expect(result.isOk() && result.value).toEqual([]);
+    expect(listByIds).not.toHaveBeenCalled();
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
-import { buildVoodooPayHostedCryptoCheckoutUrl } from '../src/services/sale-service.js';
+import { buildVoodooPayHostedCryptoCheckoutUrl } from '../src/services/voodoopay-payment-provider.js';
 
 describe('buildVoodooPayHostedCryptoCheckoutUrl', () => {
   it('preserves provider-issued percent encoding inside payment tokens', () => {
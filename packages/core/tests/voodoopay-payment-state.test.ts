@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
-import { buildVoodooDeliveryId, resolveVoodooPaymentState } from '../src/services/webhook-service.js';
+import { buildVoodooDeliveryId, resolveVoodooPaymentState } from '../src/services/voodoopay-payment-provider.js';
 
 describe('voodoo payment state', () => {
   it('treats positive value_coin as paid signal', () => {
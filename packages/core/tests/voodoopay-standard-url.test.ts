@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
-import { buildVoodooPayHostedCheckoutUrl } from '../src/services/sale-service.js';
+import { buildVoodooPayHostedCheckoutUrl } from '../src/services/voodoopay-payment-provider.js';
 
 describe('buildVoodooPayHostedCheckoutUrl', () => {
   it('preserves provider-issued percent encoding for standard checkout values', () => {
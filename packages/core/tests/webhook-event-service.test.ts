@@ -0,0 +1,137 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { err, ok } from 'neverthrow';
+
+import { AppError } from '../src/domain/errors.js';
+import type { WebhookEventDetailRecord } from '../src/repositories/order-repository.js';
+import type { SessionPayload } from '../src/security/session-token.js';
+import { WebhookEventService } from '../src/services/webhook-event-service.js';
+
+function makeSession(): SessionPayload {
+  return {
+    userId: 'user-1',
+    discordUserId: 'discord-user-1',
+    isSuperAdmin: false,
+    tenantIds: ['tenant-1'],
+    exp: Math.floor(Date.now() / 1000) + 3600,
+  };
+}
+
+function makeEvent(overrides: Partial<WebhookEventDetailRecord> = {}): WebhookEventDetailRecord {
+  return {
+    id: 'webhook-1',
+    provider: 'stripe',
+    topic: 'checkout.session.completed',
+    providerDeliveryId: 'evt_1',
+    status: 'dead_letter',
+    signatureValid: true,
+    orderSessionId: '01HKORDERSESSION0000000001',
+    attemptCount: 10,
+    failureReason: 'Order session not found for webhook',
+    nextRetryAt: null,
+    processedAt: null,
+    createdAt: new Date('2026-05-01T12:00:00.000Z'),
+    payload: { id: 'evt_1', data: { object: { client_secret: 'cs_123', amount_total: 1000 } } },
+    attemptHistory: [],
+    leaseExpiresAt: null,
+    ...overrides,
+  };
+}
+
+const input = { tenantId: 'tenant-1', guildId: 'guild-1', webhookEventId: 'webhook-1' };
+
+describe('WebhookEventService', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns event payloads with secret fields redacted', async () => {
+    const service = new WebhookEventService();
+    vi.spyOn((service as any).authorizationService, 'ensureTenantRole').mockResolvedValue(ok(undefined));
+    vi.spyOn((service as any).authorizationService, 'ensureGuildBoundToTenant').mockResolvedValue(ok(undefined));
+    vi.spyOn((service as any).orderRepository, 'getWebhookEventDetail').mockResolvedValue(makeEvent());
+
+    const result = await service.getEvent(makeSession(), input);
+
+    expect(result.isOk() && result.value.payload).toEqual({
+      id: 'evt_1',
+      data: { object: { client_secret: '[redacted]', amount_total: 1000 } },
+    });
+  });
+
+  it('rejects invalid list filters before touching the database', async () => {
+    const service = new WebhookEventService();
+    const listWebhookEvents = vi.spyOn((service as any).orderRepository, 'listWebhookEvents');
+
+    const result = await service.listEvents(makeSession(), {
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      filters: { provider: 'paypal', status: null, orderSessionId: null },
+    });
+
+    expect(result.isErr() && result.error.code).toBe('WEBHOOK_EVENT_FILTER_INVALID');
+    expect(listWebhookEvents).not.toHaveBeenCalled();
+  });
+
+  it('only lets admins replay an event', async () => {
+    const service = new WebhookEventService();
+    const ensureTenantRole = vi
+      .spyOn((service as any).authorizationService, 'ensureTenantRole')
+      .mockResolvedValue(err(new AppError('FORBIDDEN', 'Insufficient role', 403)));
+    const runWebhookEvent = vi.spyOn((service as any).webhookService, 'runWebhookEvent');
+
+    const result = await service.replayEvent(makeSession(), input);
+
+    expect(result.isErr() && result.error.statusCode).toBe(403);
+    expect(ensureTenantRole).toHaveBeenCalledWith(expect.anything(), { tenantId: 'tenant-1', minimumRole: 'admin' });
+    expect(runWebhookEvent).not.toHaveBeenCalled();
+  });
+
+  it('audits a replay and runs the event again', async () => {
+    const service = new WebhookEventService();
+    vi.spyOn((service as any).authorizationService, 'ensureTenantRole').mockResolvedValue(ok(undefined));
+    vi.spyOn((service as any).authorizationService, 'ensureGuildBoundToTenant').mockResolvedValue(ok(undefined));
+    vi.spyOn((service as any).orderRepository, 'getWebhookEventDetail').mockResolvedValue(makeEvent());
+    const appendAuditLog = vi.spyOn((service as any).adminRepository, 'appendAuditLog').mockResolvedValue(undefined);
+    const resetWebhookForRetry = vi
+      .spyOn((service as any).orderRepository, 'resetWebhookForRetry')
+      .mockResolvedValue(undefined);
+    const runWebhookEvent = vi
+      .spyOn((service as any).webhookService, 'runWebhookEvent')
+      .mockResolvedValue(ok({ status: 'processed' }));
+
+    const result = await service.replayEvent(makeSession(), input);
+
+    expect(result.isOk() && result.value).toEqual({ status: 'processed' });
+    expect(appendAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tenantId: 'tenant-1',
+        action: 'webhook_event.replay',
+        resourceType: 'webhook_event',
+        resourceId: 'webhook-1',
+        metadata: {
+          guildId: 'guild-1',
+          provider: 'stripe',
+          previousStatus: 'dead_letter',
+          orderSessionId: '01HKORDERSESSION0000000001',
+        },
+      }),
+    );
+    expect(resetWebhookForRetry).toHaveBeenCalledWith('webhook-1');
+    expect(runWebhookEvent).toHaveBeenCalledWith('webhook-1', 'replay');
+  });
+
+  it('refuses to replay an event another instance is processing', async () => {
+    const service = new WebhookEventService();
+    vi.spyOn((service as any).authorizationService, 'ensureTenantRole').mockResolvedValue(ok(undefined));
+    vi.spyOn((service as any).authorizationService, 'ensureGuildBoundToTenant').mockResolvedValue(ok(undefined));
+    vi.spyOn((service as any).orderRepository, 'getWebhookEventDetail').mockResolvedValue(
+      makeEvent({ status: 'received', leaseExpiresAt: new Date(Date.now() + 60_000) }),
+    );
+    const runWebhookEvent = vi.spyOn((service as any).webhookService, 'runWebhookEvent');
+
+    const result = await service.replayEvent(makeSession(), input);
+
+    expect(result.isErr() && result.error.code).toBe('WEBHOOK_EVENT_IN_PROGRESS');
+    expect(runWebhookEvent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ok } from 'neverthrow';
+
+import {
+  getWebhookRetryDelayMs,
+  resolveWebhookFailureOutcome,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_RETRY_MAX_DELAY_MS,
+} from '../src/services/webhook-retry-policy.js';
+import { WebhookRetryService } from '../src/services/webhook-retry-service.js';
+
+describe('webhook retry policy', () => {
+  it('doubles the delay after each failed attempt up to the cap', () => {
+    expect(getWebhookRetryDelayMs(1)).toBe(60_000);
+    expect(getWebhookRetryDelayMs(2)).toBe(120_000);
+    expect(getWebhookRetryDelayMs(6)).toBe(32 * 60_000);
+    expect(getWebhookRetryDelayMs(9)).toBe(WEBHOOK_RETRY_MAX_DELAY_MS);
+  });
+
+  it('spreads the retries over several hours before dead-lettering', () => {
+    let totalDelayMs = 0;
+    for (let attempt = 1; attempt < WEBHOOK_MAX_ATTEMPTS; attempt += 1) {
+      totalDelayMs += getWebhookRetryDelayMs(attempt);
+    }
+
+    expect(totalDelayMs).toBeGreaterThan(6 * 60 * 60 * 1000);
+  });
+
+  it('schedules the next retry until the last attempt fails', () => {
+    const now = new Date('2026-05-01T12:00:00.000Z');
+
+    expect(resolveWebhookFailureOutcome({ attemptCount: 1, now })).toEqual({
+      status: 'failed',
+      nextRetryAt: new Date('2026-05-01T12:01:00.000Z'),
+    });
+    expect(resolveWebhookFailureOutcome({ attemptCount: WEBHOOK_MAX_ATTEMPTS, now })).toEqual({
+      status: 'dead_letter',
+      nextRetryAt: null,
+    });
+  });
+});
+
+describe('webhook retry service', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('runs due and abandoned events and counts the outcomes', async () => {
+    const service = new WebhookRetryService();
+    const listDueWebhookEventIds = vi
+      .spyOn((service as any).orderRepository, 'listDueWebhookEventIds')
+      .mockResolvedValue(['event-1', 'event-2', 'event-3', 'event-4']);
+    const outcomes: Record<string, 'processed' | 'failed' | 'dead_letter' | 'skipped'> = {
+      'event-1': 'processed',
+      'event-2': 'failed',
+      'event-3': 'skipped',
+      'event-4': 'dead_letter',
+    };
+    const runWebhookEvent = vi
+      .spyOn((service as any).webhookService, 'runWebhookEvent')
+      .mockImplementation(async (webhookEventId: unknown) => ok({ status: outcomes[webhookEventId as string] }));
+
+    const result = await service.runRetrySweep();
+
+    expect(result.isOk() && result.value).toEqual({
+      claimedCount: 3,
+      processedCount: 1,
+      failedCount: 1,
+      deadLetteredCount: 1,
+    });
+    const listInput = listDueWebhookEventIds.mock.calls[0]![0] as { now: Date; receivedBefore: Date };
+    expect(listInput.now.getTime() - listInput.receivedBefore.getTime()).toBe(2 * 60_000);
+    expect(runWebhookEvent).toHaveBeenCalledTimes(4);
+    expect(runWebhookEvent).toHaveBeenCalledWith('event-1', 'retry');
+  });
+});
@@ -1,8 +1,10 @@
-import { afterEach, describe, expect, it, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { ok } from 'neverthrow';
 
 import * as telegramRest from '../src/integrations/telegram-rest.js';
 import type { OrderSessionRecord } from '../src/repositories/order-repository.js';
+import { OutboundWebhookService } from '../src/services/outbound-webhook-service.js';
+import { buildPaidOrderFulfillmentComponents } from '../src/services/paid-order-service.js';
 import type { ReferralRewardResult } from '../src/services/referral-service.js';
 import { WebhookService } from '../src/services/webhook-service.js';
 
@@ -17,6 +19,8 @@ function makeOrderSession(overrides: Partial<OrderSessionRecord> = {}): OrderSes
     productId: '01HKPRODUCT000000000000001',
     variantId: '01HKVARIANT000000000000001',
     basketItems: [],
+    automaticDiscountMinor: 0,
+    automaticDiscounts: [],
     couponCode: null,
     couponDiscountMinor: 0,
     customerEmailNormalized: 'customer@example.com',
@@ -28,6 +32,12 @@ function makeOrderSession(overrides: Partial<OrderSessionRecord> = {}): OrderSes
       earnCategoryKeys: [],
       redeemCategoryKeys: [],
     },
+    stockReservations: [],
+    stockReservationState: 'none',
+    fxRatesSnapshot: [],
+    formSnapshot: null,
+    subscriptionId: null,
+    source: 'staff',
     referralRewardMinorSnapshot: 0,
     tipMinor: 0,
     subtotalMinor: 1000,
@@ -44,6 +54,10 @@ function makeOrderSession(overrides: Partial<OrderSessionRecord> = {}): OrderSes
 }
 
 describe('webhook service', () => {
+  beforeEach(() => {
+    vi.spyOn(OutboundWebhookService.prototype, 'emitEvent').mockResolvedValue(undefined);
+  });
+
   afterEach(() => {
     vi.restoreAllMocks();
   });
@@ -91,6 +105,13 @@ describe('webhook service', () => {
         updatedPointsBalance: 42,
         referralResult,
       });
+    vi.spyOn((service as any).deliverableService, 'fulfillPaidOrder').mockResolvedValue(
+      ok({
+        status: 'delivered',
+        fulfilled: true,
+        summaryLines: ['- Match Package / Standard: 1 delivered from pool', '- Sent via DM'],
+      }),
+    );
     vi.spyOn(service as any, 'fetchWooNotes').mockResolvedValue({
       latestInternal: null,
       latestCustomer: null,
@@ -136,12 +157,142 @@ describe('webhook service', () => {
 
     expect(finalizePointsForPaidOrder).toHaveBeenCalledOnce();
     expect(postPaidLogMessage).toHaveBeenCalledOnce();
+    expect(postPaidLogMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        content: expect.stringContaining('**Delivery**\n- Match Package / Standard: 1 delivered from pool'),
+        components: buildPaidOrderFulfillmentComponents({
+          paidOrderId: 'paid-order-1',
+          fulfillmentStatus: 'fulfilled',
+        }),
+      }),
+    );
     expect(postTicketPaidConfirmation).toHaveBeenCalledOnce();
     expect(postReferralOutcome).toHaveBeenCalledOnce();
     expect(markWebhookProcessed).toHaveBeenCalledWith('webhook-1');
     expect(markWebhookDuplicate).not.toHaveBeenCalled();
   });
 
+  it('completes a paid order from the basket snapshot after the product was deleted', async () => {
+    const service = new WebhookService();
+    const orderSession = makeOrderSession({
+      basketItems: [
+        {
+          productId: '01HKPRODUCT000000000000001',
+          productName: 'Match Package',
+          category: 'Football',
+          variantId: '01HKVARIANT000000000000001',
+          variantLabel: 'Standard',
+          priceMinor: 1000,
+          currency: 'GBP',
+        },
+        {
+          productId: '01HKPRODUCT000000000000001',
+          productName: 'Match Package',
+          category: 'Football',
+          variantId: '01HKVARIANT000000000000001',
+          variantLabel: 'Standard',
+          priceMinor: 1000,
+          quantity: 2,
+          currency: 'GBP',
+        },
+      ],
+      formSnapshot: {
+        sensitiveFieldKeys: ['password'],
+        fieldLabels: { email: 'What is your email?', password: 'Account password' },
+      },
+      answers: {
+        email: 'customer@example.com',
+        password: 'hunter22',
+      },
+    });
+    const referralResult: ReferralRewardResult = {
+      status: 'not_applicable',
+      reason: 'no_claim',
+      referredEmailNormalized: orderSession.customerEmailNormalized,
+      claim: null,
+      rewardMinor: 0,
+      pointValueMinor: 100,
+      rewardPoints: 0,
+    };
+
+    vi.spyOn((service as any).orderRepository, 'getOrderSession').mockResolvedValue(orderSession);
+    const getById = vi.spyOn((service as any).productRepository, 'getById').mockResolvedValue(null);
+    const getSensitiveFieldKeys = vi.spyOn((service as any).productRepository, 'getSensitiveFieldKeys');
+    vi.spyOn((service as any).orderRepository, 'createPaidOrder').mockResolvedValue({
+      paidOrderId: 'paid-order-1',
+      created: true,
+    });
+    vi.spyOn((service as any).orderRepository, 'markOrderSessionPaid').mockResolvedValue(undefined);
+    vi.spyOn((service as any).couponService, 'recordRedemptionForPaidOrder').mockResolvedValue(ok(null));
+    vi.spyOn((service as any).inventoryService, 'consumeStockForPaidOrder').mockResolvedValue(ok([]));
+    vi.spyOn((service as any).tenantRepository, 'getGuildConfig').mockResolvedValue({
+      paidLogChannelId: 'paid-log-channel',
+      referralLogChannelId: null,
+      referralThankYouTemplate: null,
+    });
+    const finalizePointsForPaidOrder = vi
+      .spyOn(service as any, 'finalizePointsForPaidOrder')
+      .mockResolvedValue({
+        updatedPointsBalance: 10,
+        referralResult,
+      });
+    vi.spyOn((service as any).deliverableService, 'fulfillPaidOrder').mockResolvedValue(
+      ok({ status: 'not_applicable', fulfilled: false, summaryLines: [] }),
+    );
+    vi.spyOn(service as any, 'fetchWooNotes').mockResolvedValue({
+      latestInternal: null,
+      latestCustomer: null,
+    });
+    vi.spyOn((service as any).orderRepository, 'cacheOrderNotes').mockResolvedValue(undefined);
+    vi.spyOn(service as any, 'getBotTokenCandidates').mockResolvedValue(ok(['bot-token']));
+    const postPaidLogMessage = vi.spyOn(service as any, 'postPaidLogMessage').mockResolvedValue(undefined);
+    const postTicketPaidConfirmation = vi
+      .spyOn(service as any, 'postTicketPaidConfirmation')
+      .mockResolvedValue(undefined);
+    vi.spyOn(service as any, 'postReferralOutcome').mockResolvedValue(undefined);
+    vi.spyOn(service as any, 'postLowStockAlerts').mockResolvedValue(undefined);
+    const markWebhookProcessed = vi
+      .spyOn((service as any).orderRepository, 'markWebhookProcessed')
+      .mockResolvedValue(undefined);
+
+    await (service as any).processWooPaidEvent({
+      integration: {
+        tenantId: orderSession.tenantId,
+        guildId: orderSession.guildId,
+        wpBaseUrl: 'https://shop.example.com',
+        consumerKey: 'ck_test',
+        consumerSecret: 'cs_test',
+      },
+      payload: {
+        id: 124,
+        status: 'processing',
+        number: '1002',
+        total: '30.00',
+        currency: 'GBP',
+        meta_data: [
+          {
+            key: 'vd_order_session_id',
+            value: orderSession.id,
+          },
+        ],
+      },
+      webhookEventId: 'webhook-2',
+    });
+
+    expect(getById).not.toHaveBeenCalled();
+    expect(getSensitiveFieldKeys).not.toHaveBeenCalled();
+    expect(finalizePointsForPaidOrder).toHaveBeenCalledWith(expect.objectContaining({ currency: 'GBP' }));
+    const content = postPaidLogMessage.mock.calls[0]?.[0] as { content: string };
+    expect(content.content).toContain('1. `Football / Match Package / Standard` x3 - `£30.00` (£10.00 each)');
+    expect(content.content).not.toContain('2. `Football');
+    expect(content.content).toContain('- Account password: `hu****22`');
+    expect(content.content).not.toContain('hunter22');
+    expect(postTicketPaidConfirmation).toHaveBeenCalledWith(
+      expect.objectContaining({ productName: 'Match Package', variantLabel: 'Standard' }),
+    );
+    expect(markWebhookProcessed).toHaveBeenCalledWith('webhook-2');
+  });
+
   it('keeps Telegram paid logs out of the linked Telegram group when a Discord paid-log channel is configured', async () => {
     const service = new WebhookService();
     const orderSession = makeOrderSession({
@@ -186,6 +337,9 @@ describe('webhook service', () => {
       updatedPointsBalance: 42,
       referralResult,
     });
+    vi.spyOn((service as any).deliverableService, 'fulfillPaidOrder').mockResolvedValue(
+      ok({ status: 'not_applicable', fulfilled: false, summaryLines: [] }),
+    );
     vi.spyOn((service as any).productRepository, 'getSensitiveFieldKeys').mockResolvedValue(new Set<string>());
     vi.spyOn(service as any, 'getBotTokenCandidates').mockResolvedValue(ok(['bot-token']));
     const postPaidLogMessage = vi.spyOn(service as any, 'postPaidLogMessage').mockResolvedValue(undefined);
@@ -215,6 +369,113 @@ describe('webhook service', () => {
     );
   });
 
+  it('holds delivery and alerts staff when a crypto payment is underpaid', async () => {
+    const service = new WebhookService();
+    const orderSession = makeOrderSession();
+
+    vi.spyOn((service as any).orderRepository, 'getOrderSession').mockResolvedValue(orderSession);
+    vi.spyOn((service as any).productRepository, 'getById').mockResolvedValue({
+      id: orderSession.productId,
+      category: 'Football',
+      name: 'Match Package',
+      variants: [
+        {
+          id: orderSession.variantId,
+          label: 'Standard',
+          priceMinor: 1000,
+          currency: 'GBP',
+        },
+      ],
+    });
+    vi.spyOn((service as any).orderRepository, 'createPaidOrder').mockResolvedValue({
+      paidOrderId: 'paid-order-1',
+      created: true,
+    });
+    vi.spyOn((service as any).integrationService, 'getResolvedVoodooPayIntegrationByGuild').mockResolvedValue(
+      ok({ cryptoAddFees: false, cryptoUnderpaymentTolerancePercent: 1 }),
+    );
+    const fetchSpy = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValue(new Response(JSON.stringify({ value_coin: '12.5' }), { status: 200 }));
+    const recordAmountCheck = vi
+      .spyOn((service as any).orderRepository, 'recordPaidOrderAmountCheck')
+      .mockResolvedValue(undefined);
+    vi.spyOn((service as any).orderRepository, 'markOrderSessionPaid').mockResolvedValue(undefined);
+    vi.spyOn((service as any).tenantRepository, 'getGuildConfig').mockResolvedValue({
+      paidLogChannelId: 'paid-log-channel',
+      referralLogChannelId: null,
+      referralThankYouTemplate: null,
+      staffRoleIds: ['523456789012345678'],
+    });
+    vi.spyOn(service as any, 'finalizePointsForPaidOrder').mockResolvedValue({
+      updatedPointsBalance: 42,
+      referralResult: null,
+    });
+    vi.spyOn(service as any, 'describeReferralOutcome').mockReturnValue('(none)');
+    const fulfillPaidOrder = vi.spyOn((service as any).deliverableService, 'fulfillPaidOrder');
+    vi.spyOn((service as any).productRepository, 'getSensitiveFieldKeys').mockResolvedValue(new Set<string>());
+    vi.spyOn(service as any, 'getBotTokenCandidates').mockResolvedValue(ok(['bot-token']));
+    const postPaidLogMessage = vi.spyOn(service as any, 'postPaidLogMessage').mockResolvedValue(undefined);
+    const postTicketPaidConfirmation = vi.spyOn(service as any, 'postTicketPaidConfirmation');
+    const postTicketNotice = vi.spyOn(service as any, 'postTicketNotice').mockResolvedValue(undefined);
+    vi.spyOn(service as any, 'postReferralOutcome').mockResolvedValue(undefined);
+    vi.spyOn((service as any).orderRepository, 'markWebhookProcessed').mockResolvedValue(undefined);
+
+    await (service as any).processVoodooPayPaidEvent({
+      tenantId: orderSession.tenantId,
+      guildId: orderSession.guildId,
+      orderSessionId: orderSession.id,
+      query: {
+        order_session_id: orderSession.id,
+        checkout: 'crypto',
+        status: 'paid',
+        coin: 'trc20_usdt',
+        value_coin: '7.5',
+        txid_in: 'txid-hash-1',
+      },
+      webhookEventId: 'webhook-underpaid-1',
+    });
+
+    expect(String(fetchSpy.mock.calls[0]?.[0])).toBe(
+      'https://api.voodoo-pay.uk/crypto/trc20/usdt/convert.php?value=10.00&from=gbp',
+    );
+    expect(recordAmountCheck).toHaveBeenCalledWith({
+      paidOrderId: 'paid-order-1',
+      amountCheck: 'underpaid',
+      paymentCoin: 'trc20_usdt',
+      paymentCoinAmount: '7.5',
+      expectedCoinAmount: '12.5',
+      receivedMinor: 600,
+    });
+    expect(fulfillPaidOrder).not.toHaveBeenCalled();
+    expect(postPaidLogMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        content: expect.stringMatching(
+          /^\*\*Order Underpaid\*\*[\s\S]*\*\*Payment Amount\*\*\nCheck: underpaid\nExpected: 12\.5 TRC20_USDT\nReceived: 7\.5 TRC20_USDT \(~£6\.00\)\nDifference: -£4\.00[\s\S]*\*\*Delivery\*\*\n- Held until the underpayment is resolved; mark the order fulfilled once settled/,
+        ),
+        components: buildPaidOrderFulfillmentComponents({
+          paidOrderId: 'paid-order-1',
+          fulfillmentStatus: 'needs_action',
+        }),
+      }),
+    );
+    expect(postTicketPaidConfirmation).not.toHaveBeenCalled();
+    expect(postTicketNotice).toHaveBeenCalledWith(
+      expect.objectContaining({
+        ticketChannelId: orderSession.ticketChannelId,
+        content: expect.stringMatching(/^<@&523456789012345678> Payment from <@423456789012345678>[\s\S]*Shortfall: £4\.00/),
+      }),
+    );
+    expect(OutboundWebhookService.prototype.emitEvent).toHaveBeenCalledTimes(1);
+    expect(OutboundWebhookService.prototype.emitEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'order.paid',
+        eventKey: 'paid-order-1',
+        data: expect.objectContaining({ paidOrderId: 'paid-order-1', underpaid: true, fulfillmentStatus: 'needs_action' }),
+      }),
+    );
+  });
+
   it('DMs Telegram payment confirmations to the customer without posting in the linked group', async () => {
     const service = new WebhookService();
 
@@ -236,6 +497,7 @@ describe('webhook service', () => {
       currency: 'GBP',
       priceMinor: 1500,
       updatedPointsBalance: 12,
+      receiptUrl: 'https://voodoopaybot.online/receipt/order-session-1?token=signed',
     });
 
     expect(postMessageToTelegramChat).not.toHaveBeenCalled();
@@ -247,9 +509,656 @@ describe('webhook service', () => {
         'Order Session: order-session-1',
         'Product: Renew Subscription',
         'Variant: 1 Month',
-        'Amount: 15.00 GBP',
+        'Amount: £15.00',
         'Updated Points Balance: 12 point(s)',
+        'Receipt: https://voodoopaybot.online/receipt/order-session-1?token=signed',
+      ].join('\n'),
+    });
+  });
+
+  it('posts low-stock alerts to the configured channel', async () => {
+    const service = new WebhookService();
+    const postPaidLogMessage = vi.spyOn(service as any, 'postPaidLogMessage').mockResolvedValue(undefined);
+
+    await (service as any).postLowStockAlerts({
+      provider: 'voodoopay',
+      botTokens: ['bot-token'],
+      lowStockAlertChannelId: 'stock-channel',
+      alerts: [
+        {
+          variantId: 'variant-1',
+          productName: 'Match Package',
+          variantLabel: 'Standard',
+          stockQuantity: 2,
+          lowStockThreshold: 3,
+        },
+      ],
+      orderSessionId: 'order-session-1',
+    });
+    await (service as any).postLowStockAlerts({
+      provider: 'voodoopay',
+      botTokens: ['bot-token'],
+      lowStockAlertChannelId: null,
+      alerts: [
+        {
+          variantId: 'variant-1',
+          productName: 'Match Package',
+          variantLabel: 'Standard',
+          stockQuantity: 0,
+          lowStockThreshold: 3,
+        },
+      ],
+      orderSessionId: 'order-session-2',
+    });
+
+    expect(postPaidLogMessage).toHaveBeenCalledOnce();
+    expect(postPaidLogMessage).toHaveBeenCalledWith({
+      botTokens: ['bot-token'],
+      preferredChannelId: 'stock-channel',
+      fallbackChannelId: 'stock-channel',
+      content: [
+        '**Low Stock**',
+        'Order Session: `order-session-1`',
+        '- Low stock: **Match Package / Standard** - 2 left (alert at 3)',
+      ].join('\n'),
+    });
+  });
+
+  it('reverses the coupon redemption when a Woo order is refunded', async () => {
+    const service = new WebhookService();
+    const reverse = vi
+      .spyOn((service as any).couponService, 'reverseRedemptionForOrderSession')
+      .mockResolvedValue(ok(true));
+    const recordProviderRefund = vi
+      .spyOn((service as any).refundService, 'recordProviderRefund')
+      .mockResolvedValue(ok(null));
+    const markWebhookProcessed = vi
+      .spyOn((service as any).orderRepository, 'markWebhookProcessed')
+      .mockResolvedValue(undefined);
+
+    await (service as any).processWooPaidEvent({
+      integration: {
+        tenantId: '01HKTENANT0000000000000001',
+        guildId: '123456789012345678',
+        wpBaseUrl: 'https://shop.example.com',
+        consumerKey: 'ck_test',
+        consumerSecret: 'cs_test',
+      },
+      payload: {
+        id: 123,
+        status: 'refunded',
+        number: '1001',
+        total: '10.00',
+        currency: 'GBP',
+        meta_data: [
+          {
+            key: 'vd_order_session_id',
+            value: '01HKTESORDERSESSION0000000001',
+          },
+        ],
+      },
+      webhookEventId: 'webhook-refund-1',
+    });
+
+    expect(reverse).toHaveBeenCalledWith({
+      tenantId: '01HKTENANT0000000000000001',
+      orderSessionId: '01HKTESORDERSESSION0000000001',
+      reason: 'refunded',
+    });
+    expect(recordProviderRefund).toHaveBeenCalledWith({
+      tenantId: '01HKTENANT0000000000000001',
+      orderSessionId: '01HKTESORDERSESSION0000000001',
+      reason: 'refund',
+      refundedMinor: null,
+    });
+    expect(markWebhookProcessed).toHaveBeenCalledWith('webhook-refund-1');
+  });
+
+  it('records a full Stripe refund against the order session from the charge metadata', async () => {
+    const service = new WebhookService();
+    const reverse = vi
+      .spyOn((service as any).couponService, 'reverseRedemptionForOrderSession')
+      .mockResolvedValue(ok(false));
+    const recordProviderRefund = vi
+      .spyOn((service as any).refundService, 'recordProviderRefund')
+      .mockResolvedValue(ok(null));
+    const markWebhookProcessed = vi
+      .spyOn((service as any).orderRepository, 'markWebhookProcessed')
+      .mockResolvedValue(undefined);
+
+    await (service as any).processStripeEvent({
+      tenantId: '01HKTENANT0000000000000001',
+      guildId: '123456789012345678',
+      payload: {
+        id: 'evt_refund_1',
+        type: 'charge.refunded',
+        data: {
+          object: {
+            id: 'ch_1',
+            payment_intent: 'pi_1',
+            amount: 1000,
+            amount_refunded: 1000,
+            refunded: true,
+            currency: 'gbp',
+            metadata: { vd_order_session_id: '01HKTESORDERSESSION0000000001' },
+          },
+        },
+      },
+      webhookEventId: 'webhook-stripe-refund-1',
+    });
+
+    expect(recordProviderRefund).toHaveBeenCalledWith({
+      tenantId: '01HKTENANT0000000000000001',
+      orderSessionId: '01HKTESORDERSESSION0000000001',
+      reason: 'refund',
+      refundedMinor: null,
+    });
+    expect(reverse).toHaveBeenCalledWith({
+      tenantId: '01HKTENANT0000000000000001',
+      orderSessionId: '01HKTESORDERSESSION0000000001',
+      reason: 'refunded',
+    });
+    expect(markWebhookProcessed).toHaveBeenCalledWith('webhook-stripe-refund-1');
+  });
+
+  it('records a partial Stripe refund without ever completing the order', async () => {
+    const service = new WebhookService();
+    const recordProviderRefund = vi
+      .spyOn((service as any).refundService, 'recordProviderRefund')
+      .mockResolvedValue(ok(null));
+    const completePaidOrder = vi.spyOn(service as any, 'completePaidOrder');
+    const markWebhookProcessed = vi
+      .spyOn((service as any).orderRepository, 'markWebhookProcessed')
+      .mockResolvedValue(undefined);
+
+    await (service as any).processStripeEvent({
+      tenantId: '01HKTENANT0000000000000001',
+      guildId: '123456789012345678',
+      payload: {
+        id: 'evt_refund_2',
+        type: 'charge.refunded',
+        data: {
+          object: {
+            id: 'ch_1',
+            payment_intent: 'pi_1',
+            amount: 1000,
+            amount_refunded: 400,
+            refunded: false,
+            currency: 'gbp',
+            metadata: { vd_order_session_id: '01HKTESORDERSESSION0000000001' },
+          },
+        },
+      },
+      webhookEventId: 'webhook-stripe-refund-2',
+    });
+
+    expect(recordProviderRefund).toHaveBeenCalledWith({
+      tenantId: '01HKTENANT0000000000000001',
+      orderSessionId: '01HKTESORDERSESSION0000000001',
+      reason: 'refund',
+      refundedMinor: 400,
+    });
+    expect(completePaidOrder).not.toHaveBeenCalled();
+    expect(markWebhookProcessed).toHaveBeenCalledWith('webhook-stripe-refund-2');
+  });
+
+  it('rejects Stripe webhooks with a bad signature and stores them as failed', async () => {
+    const service = new WebhookService();
+    vi.spyOn((service as any).stripeProvider, 'verifyWebhook').mockResolvedValue(
+      ok({
+        tenantId: '01HKTENANT0000000000000001',
+        guildId: '123456789012345678',
+        signatureValid: false,
+        deliveryId: 'evt_1',
+        topic: 'checkout.session.completed',
+        payload: { id: 'evt_1' },
+      }),
+    );
+    const createWebhookEvent = vi
+      .spyOn((service as any).orderRepository, 'createWebhookEvent')
+      .mockResolvedValue({ created: true, webhookEventId: 'webhook-stripe-1' });
+    const markWebhookFailed = vi
+      .spyOn((service as any).orderRepository, 'markWebhookFailed')
+      .mockResolvedValue(undefined);
+
+    const result = await service.handleStripeWebhook({
+      tenantWebhookKey: 'stripe-webhook-key',
+      rawBody: '{"id":"evt_1"}',
+      signatureHeader: 't=1,v1=bad',
+    });
+
+    expect(result.isErr() && result.error.code).toBe('INVALID_WEBHOOK_SIGNATURE');
+    expect(createWebhookEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ provider: 'stripe', deliveryId: 'evt_1' }),
+    );
+    expect(markWebhookFailed).toHaveBeenCalledWith({
+      webhookEventId: 'webhook-stripe-1',
+      failureReason: 'Invalid webhook signature',
+      attemptCount: 1,
+      nextRetryAt: null,
+    });
+  });
+
+  it('rejects an unsigned repeat delivery without touching the stored event', async () => {
+    const service = new WebhookService();
+    vi.spyOn((service as any).stripeProvider, 'verifyWebhook').mockResolvedValue(
+      ok({
+        tenantId: '01HKTENANT0000000000000001',
+        guildId: '123456789012345678',
+        signatureValid: false,
+        deliveryId: 'evt_1',
+        topic: 'checkout.session.completed',
+        payload: { id: 'evt_1' },
+      }),
+    );
+    vi.spyOn((service as any).orderRepository, 'createWebhookEvent').mockResolvedValue({
+      created: false,
+      webhookEventId: 'webhook-stripe-1',
+    });
+    vi.spyOn((service as any).orderRepository, 'getWebhookEventState').mockResolvedValue({
+      status: 'failed',
+      signatureValid: true,
+    });
+    const resetWebhookForRetry = vi.spyOn((service as any).orderRepository, 'resetWebhookForRetry');
+    const replaceUnsignedWebhookEvent = vi.spyOn((service as any).orderRepository, 'replaceUnsignedWebhookEvent');
+    const enqueueWebhookEvent = vi.spyOn(service as any, 'enqueueWebhookEvent').mockImplementation(() => undefined);
+
+    const result = await service.handleStripeWebhook({
+      tenantWebhookKey: 'stripe-webhook-key',
+      rawBody: '{"id":"evt_1"}',
+      signatureHeader: 't=1,v1=bad',
+    });
+
+    expect(result.isErr() && result.error.code).toBe('INVALID_WEBHOOK_SIGNATURE');
+    expect(resetWebhookForRetry).not.toHaveBeenCalled();
+    expect(replaceUnsignedWebhookEvent).not.toHaveBeenCalled();
+    expect(enqueueWebhookEvent).not.toHaveBeenCalled();
+  });
+
+  it('pays the order when the signed delivery arrives after a forged one took its delivery id', async () => {
+    const service = new WebhookService();
+    const forged = { id: 'evt_1', type: 'checkout.session.completed', forged: true };
+    const genuine = {
+      id: 'evt_1',
+      type: 'checkout.session.completed',
+      data: {
+        object: {
+          id: 'cs_1',
+          client_reference_id: '01HKTESORDERSESSION0000000001',
+          payment_intent: 'pi_1',
+          payment_status: 'paid',
+          amount_total: 1000,
+          currency: 'gbp',
+        },
+      },
+    };
+    const stored = { payload: forged as Record<string, unknown>, signatureValid: false, status: 'received' };
+    const verifyWebhook = vi.spyOn((service as any).stripeProvider, 'verifyWebhook').mockResolvedValue(
+      ok({
+        tenantId: '01HKTENANT0000000000000001',
+        guildId: '123456789012345678',
+        signatureValid: false,
+        deliveryId: 'evt_1',
+        topic: 'checkout.session.completed',
+        payload: forged,
+        orderSessionId: '01HKTESORDERSESSION0000000001',
+      }),
+    );
+    const createWebhookEvent = vi
+      .spyOn((service as any).orderRepository, 'createWebhookEvent')
+      .mockResolvedValueOnce({ created: true, webhookEventId: 'webhook-stripe-1' })
+      .mockResolvedValue({ created: false, webhookEventId: 'webhook-stripe-1' });
+    vi.spyOn((service as any).orderRepository, 'markWebhookFailed').mockImplementation(async () => {
+      stored.status = 'failed';
+    });
+    vi.spyOn((service as any).orderRepository, 'getWebhookEventState').mockImplementation(async () => ({
+      status: stored.status,
+      signatureValid: stored.signatureValid,
+    }));
+    vi.spyOn((service as any).orderRepository, 'replaceUnsignedWebhookEvent').mockImplementation(
+      async (input: any) => {
+        Object.assign(stored, { payload: input.payload, signatureValid: true, status: 'received' });
+        return true;
+      },
+    );
+    vi.spyOn((service as any).orderRepository, 'claimWebhookEvent').mockImplementation(async () => ({
+      id: 'webhook-stripe-1',
+      tenantId: '01HKTENANT0000000000000001',
+      guildId: '123456789012345678',
+      provider: 'stripe',
+      topic: 'checkout.session.completed',
+      payload: stored.payload,
+      signatureValid: stored.signatureValid,
+      status: stored.status,
+      attemptCount: 1,
+    }));
+    vi.spyOn((service as any).orderRepository, 'markWebhookProcessed').mockResolvedValue(undefined);
+    vi.spyOn((service as any).orderRepository, 'appendWebhookAttempt').mockResolvedValue(undefined);
+    vi.spyOn((service as any).orderRepository, 'getOrderSession').mockResolvedValue(makeOrderSession());
+    const completePaidOrder = vi.spyOn(service as any, 'completePaidOrder').mockResolvedValue(undefined);
+    const runs: Promise<unknown>[] = [];
+    vi.spyOn(service as any, 'enqueueWebhookEvent').mockImplementation((webhookEventId) => {
+      runs.push(service.runWebhookEvent(webhookEventId as string, 'delivery'));
+    });
+    const request = { tenantWebhookKey: 'stripe-webhook-key', rawBody: '{"id":"evt_1"}', signatureHeader: 't=1,v1=x' };
+
+    const forgedResult = await service.handleStripeWebhook(request);
+    verifyWebhook.mockResolvedValue(
+      ok({
+        tenantId: '01HKTENANT0000000000000001',
+        guildId: '123456789012345678',
+        signatureValid: true,
+        deliveryId: 'evt_1',
+        topic: 'checkout.session.completed',
+        payload: genuine,
+        orderSessionId: '01HKTESORDERSESSION0000000001',
+      }),
+    );
+    const genuineResult = await service.handleStripeWebhook(request);
+    await Promise.all(runs);
+
+    expect(forgedResult.isErr() && forgedResult.error.code).toBe('INVALID_WEBHOOK_SIGNATURE');
+    expect(genuineResult._unsafeUnwrap()).toEqual({ status: 'accepted' });
+    expect(createWebhookEvent).toHaveBeenCalledTimes(2);
+    expect(stored).toMatchObject({ payload: genuine, signatureValid: true });
+    expect(completePaidOrder).toHaveBeenCalledTimes(1);
+    expect(completePaidOrder).toHaveBeenCalledWith(
+      expect.objectContaining({
+        provider: 'stripe',
+        webhookEventId: 'webhook-stripe-1',
+        providerOrderId: 'cs_1',
+        paymentReference: 'pi_1',
+      }),
+    );
+  });
+
+  it('runs the paid pipeline for an approved manual payment and audits the approver', async () => {
+    const service = new WebhookService();
+    const orderSession = makeOrderSession();
+    vi.spyOn((service as any).manualPaymentProvider, 'isConfigured').mockResolvedValue(ok(true));
+    vi.spyOn((service as any).orderRepository, 'getOrderSession').mockResolvedValue(orderSession);
+    vi.spyOn((service as any).tenantRepository, 'getGuildConfig').mockResolvedValue(null);
+    const appendAuditLog = vi.spyOn((service as any).adminRepository, 'appendAuditLog').mockResolvedValue(undefined);
+    const completePaidOrder = vi.spyOn(service as any, 'completePaidOrder').mockResolvedValue(undefined);
+
+    const result = await service.approveManualPayment({
+      tenantId: orderSession.tenantId,
+      guildId: orderSession.guildId,
+      orderSessionId: orderSession.id,
+      approvedByDiscordUserId: '523456789012345678',
+      reference: '  BACS ref 4471  ',
+    });
+
+    expect(result.isOk()).toBe(true);
+    expect(appendAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tenantId: orderSession.tenantId,
+        actorDiscordUserId: '523456789012345678',
+        action: 'order.manual_payment.approve',
+        resourceType: 'order_session',
+        resourceId: orderSession.id,
+        metadata: { guildId: orderSession.guildId, reference: 'BACS ref 4471', totalMinor: 1000 },
+      }),
+    );
+    expect(completePaidOrder).toHaveBeenCalledWith(
+      expect.objectContaining({
+        provider: 'manual',
+        webhookEventId: null,
+        orderSession,
+        fallbackCurrency: 'GBP',
+        providerOrderId: orderSession.id,
+        paymentReference: 'BACS ref 4471',
+        paymentLines: ['Approved By: <@523456789012345678>', 'Reference: `BACS ref 4471`'],
+      }),
+    );
+    expect(appendAuditLog.mock.invocationCallOrder[0]).toBeLessThan(completePaidOrder.mock.invocationCallOrder[0]!);
+  });
+
+  it('falls back to the server default currency when approving an order without basket lines', async () => {
+    const service = new WebhookService();
+    const orderSession = makeOrderSession({ basketItems: [] });
+    vi.spyOn((service as any).manualPaymentProvider, 'isConfigured').mockResolvedValue(ok(true));
+    vi.spyOn((service as any).orderRepository, 'getOrderSession').mockResolvedValue(orderSession);
+    const getGuildConfig = vi
+      .spyOn((service as any).tenantRepository, 'getGuildConfig')
+      .mockResolvedValue({ defaultCurrency: 'EUR' });
+    vi.spyOn((service as any).adminRepository, 'appendAuditLog').mockResolvedValue(undefined);
+    const completePaidOrder = vi.spyOn(service as any, 'completePaidOrder').mockResolvedValue(undefined);
+    const input = {
+      tenantId: orderSession.tenantId,
+      guildId: orderSession.guildId,
+      orderSessionId: orderSession.id,
+      approvedByDiscordUserId: '523456789012345678',
+      reference: 'BACS ref 4471',
+    };
+
+    await service.approveManualPayment(input);
+    getGuildConfig.mockResolvedValue(null);
+    await service.approveManualPayment(input);
+
+    const currencies = completePaidOrder.mock.calls.map(([call]) => (call as { fallbackCurrency: string }).fallbackCurrency);
+    expect(currencies).toEqual(['EUR', 'GBP']);
+  });
+
+  it('refuses manual approval without a reference or once the order is no longer pending', async () => {
+    const service = new WebhookService();
+    vi.spyOn((service as any).manualPaymentProvider, 'isConfigured').mockResolvedValue(ok(true));
+    vi.spyOn((service as any).orderRepository, 'getOrderSession').mockResolvedValue(
+      makeOrderSession({ status: 'paid' }),
+    );
+    const appendAuditLog = vi.spyOn((service as any).adminRepository, 'appendAuditLog').mockResolvedValue(undefined);
+    const completePaidOrder = vi.spyOn(service as any, 'completePaidOrder').mockResolvedValue(undefined);
+    const input = {
+      tenantId: '01HKTENANT0000000000000001',
+      guildId: '123456789012345678',
+      orderSessionId: '01HKTESORDERSESSION0000000001',
+      approvedByDiscordUserId: '523456789012345678',
+    };
+
+    const missingReference = await service.approveManualPayment({ ...input, reference: '   ' });
+    const alreadyPaid = await service.approveManualPayment({ ...input, reference: 'BACS ref 4471' });
+
+    expect(missingReference.isErr() && missingReference.error.code).toBe('MANUAL_PAYMENT_REFERENCE_INVALID');
+    expect(alreadyPaid.isErr() && alreadyPaid.error.code).toBe('ORDER_SESSION_NOT_PENDING');
+    expect(appendAuditLog).not.toHaveBeenCalled();
+    expect(completePaidOrder).not.toHaveBeenCalled();
+  });
+
+  it('records a Woo partial refund and posts a refund notice instead of re-running the paid flow', async () => {
+    const service = new WebhookService();
+    const orderSession = makeOrderSession({ status: 'paid' });
+    const recordProviderRefund = vi
+      .spyOn((service as any).refundService, 'recordProviderRefund')
+      .mockResolvedValue(
+        ok({
+          changed: true,
+          paidOrder: {
+            id: 'paid-order-1',
+            tenantId: orderSession.tenantId,
+            guildId: orderSession.guildId,
+            orderSessionId: orderSession.id,
+            priceMinor: 1000,
+            currency: 'GBP',
+          },
+          orderSession,
+          refundStatus: 'partially_refunded',
+          refundReason: 'refund',
+          refundedMinor: 250,
+          netMinor: 750,
+          pointsClawedBack: 2,
+          referralPointsClawedBack: 0,
+        }),
+      );
+    const getOrderSession = vi.spyOn((service as any).orderRepository, 'getOrderSession');
+    vi.spyOn((service as any).tenantRepository, 'getGuildConfig').mockResolvedValue({
+      paidLogChannelId: '623456789012345678',
+    });
+    vi.spyOn(service as any, 'getBotTokenCandidates').mockResolvedValue(ok(['bot-token']));
+    const postPaidLogMessage = vi.spyOn(service as any, 'postPaidLogMessage').mockResolvedValue(undefined);
+    const markWebhookProcessed = vi
+      .spyOn((service as any).orderRepository, 'markWebhookProcessed')
+      .mockResolvedValue(undefined);
+
+    await (service as any).processWooPaidEvent({
+      integration: {
+        tenantId: orderSession.tenantId,
+        guildId: orderSession.guildId,
+        wpBaseUrl: 'https://shop.example.com',
+        consumerKey: 'ck_test',
+        consumerSecret: 'cs_test',
+      },
+      payload: {
+        id: 123,
+        status: 'completed',
+        total: '10.00',
+        currency: 'GBP',
+        refunds: [{ id: 9, reason: 'Damaged', total: '-2.50' }],
+        meta_data: [{ key: 'vd_order_session_id', value: orderSession.id }],
+      },
+      webhookEventId: 'webhook-partial-refund-1',
+    });
+
+    expect(recordProviderRefund).toHaveBeenCalledWith({
+      tenantId: orderSession.tenantId,
+      orderSessionId: orderSession.id,
+      reason: 'refund',
+      refundedMinor: 250,
+    });
+    expect(getOrderSession).not.toHaveBeenCalled();
+    expect(postPaidLogMessage).toHaveBeenCalledWith({
+      botTokens: ['bot-token'],
+      preferredChannelId: '623456789012345678',
+      fallbackChannelId: orderSession.ticketChannelId,
+      content: [
+        '**Order Partially Refunded**',
+        'Provider: WooCommerce',
+        `Order Session: \`${orderSession.id}\``,
+        'Refunded: £2.50 of £10.00',
+        'Net: £7.50',
+        'Points Clawed Back: 2',
       ].join('\n'),
     });
+    expect(markWebhookProcessed).toHaveBeenCalledWith('webhook-partial-refund-1');
+  });
+
+  it('re-runs a stored Voodoo callback from its payload and schedules a backoff retry when it fails', async () => {
+    const service = new WebhookService();
+    const claimWebhookEvent = vi.spyOn((service as any).orderRepository, 'claimWebhookEvent').mockResolvedValue({
+      id: 'webhook-voodoo-retry-1',
+      tenantId: '01HKTENANT0000000000000001',
+      guildId: '123456789012345678',
+      provider: 'voodoopay',
+      topic: 'callback',
+      payload: { order_session_id: '01HKTESORDERSESSION0000000001', status: 'paid' },
+      signatureValid: true,
+      status: 'received',
+      attemptCount: 3,
+    });
+    const processVoodooPayPaidEvent = vi
+      .spyOn(service as any, 'processVoodooPayPaidEvent')
+      .mockRejectedValue(new Error('Discord is unavailable'));
+    const markWebhookFailed = vi
+      .spyOn((service as any).orderRepository, 'markWebhookFailed')
+      .mockResolvedValue(undefined);
+    const appendWebhookAttempt = vi
+      .spyOn((service as any).orderRepository, 'appendWebhookAttempt')
+      .mockResolvedValue(undefined);
+    const before = Date.now();
+
+    const result = await service.runWebhookEvent('webhook-voodoo-retry-1', 'retry');
+
+    expect(result.isOk() && result.value.status).toBe('failed');
+    expect(claimWebhookEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ webhookEventId: 'webhook-voodoo-retry-1', leaseOwner: expect.any(String) }),
+    );
+    expect(processVoodooPayPaidEvent).toHaveBeenCalledWith({
+      tenantId: '01HKTENANT0000000000000001',
+      guildId: '123456789012345678',
+      orderSessionId: '01HKTESORDERSESSION0000000001',
+      query: { order_session_id: '01HKTESORDERSESSION0000000001', status: 'paid' },
+      webhookEventId: 'webhook-voodoo-retry-1',
+    });
+    const failedInput = markWebhookFailed.mock.calls[0]![0] as { nextRetryAt: Date; attemptCount: number };
+    expect(failedInput).toMatchObject({ failureReason: 'Discord is unavailable', attemptCount: 3 });
+    expect(failedInput.nextRetryAt.getTime()).toBeGreaterThanOrEqual(before + 4 * 60_000);
+    expect(appendWebhookAttempt).toHaveBeenCalledWith({
+      webhookEventId: 'webhook-voodoo-retry-1',
+      entry: {
+        attempt: 3,
+        trigger: 'retry',
+        outcome: 'failed',
+        failureReason: 'Discord is unavailable',
+        at: expect.any(String),
+      },
+    });
+  });
+
+  it('moves an event to dead letter once it runs out of attempts', async () => {
+    const service = new WebhookService();
+    vi.spyOn((service as any).orderRepository, 'claimWebhookEvent').mockResolvedValue({
+      id: 'webhook-stripe-retry-1',
+      tenantId: '01HKTENANT0000000000000001',
+      guildId: '123456789012345678',
+      provider: 'stripe',
+      topic: 'checkout.session.completed',
+      payload: { id: 'evt_1' },
+      signatureValid: true,
+      status: 'failed',
+      attemptCount: 10,
+    });
+    vi.spyOn(service as any, 'processStripeEvent').mockRejectedValue(new Error('Order session not found for webhook'));
+    const markWebhookFailed = vi
+      .spyOn((service as any).orderRepository, 'markWebhookFailed')
+      .mockResolvedValue(undefined);
+    const markWebhookDeadLetter = vi
+      .spyOn((service as any).orderRepository, 'markWebhookDeadLetter')
+      .mockResolvedValue(undefined);
+    vi.spyOn((service as any).orderRepository, 'appendWebhookAttempt').mockResolvedValue(undefined);
+
+    const result = await service.runWebhookEvent('webhook-stripe-retry-1', 'retry');
+
+    expect(result.isOk() && result.value.status).toBe('dead_letter');
+    expect(markWebhookDeadLetter).toHaveBeenCalledWith({
+      webhookEventId: 'webhook-stripe-retry-1',
+      failureReason: 'Order session not found for webhook',
+      attemptCount: 10,
+    });
+    expect(markWebhookFailed).not.toHaveBeenCalled();
+  });
+
+  it('never processes a stored event with an invalid signature', async () => {
+    const service = new WebhookService();
+    vi.spyOn((service as any).orderRepository, 'claimWebhookEvent').mockResolvedValue({
+      id: 'webhook-forged-1',
+      tenantId: '01HKTENANT0000000000000001',
+      guildId: '123456789012345678',
+      provider: 'stripe',
+      topic: 'checkout.session.completed',
+      payload: { id: 'evt_forged' },
+      signatureValid: false,
+      status: 'failed',
+      attemptCount: 2,
+    });
+    const processStripeEvent = vi.spyOn(service as any, 'processStripeEvent').mockResolvedValue(undefined);
+    const markWebhookProcessed = vi.spyOn((service as any).orderRepository, 'markWebhookProcessed');
+    vi.spyOn((service as any).orderRepository, 'markWebhookFailed').mockResolvedValue(undefined);
+    vi.spyOn((service as any).orderRepository, 'appendWebhookAttempt').mockResolvedValue(undefined);
+
+    const result = await service.runWebhookEvent('webhook-forged-1', 'retry');
+
+    expect(result.isOk() && result.value.status).toBe('failed');
+    expect(processStripeEvent).not.toHaveBeenCalled();
+    expect(markWebhookProcessed).not.toHaveBeenCalled();
+  });
+
+  it('skips an event another instance holds the lease on', async () => {
+    const service = new WebhookService();
+    vi.spyOn((service as any).orderRepository, 'claimWebhookEvent').mockResolvedValue(null);
+    const processStripeEvent = vi.spyOn(service as any, 'processStripeEvent').mockResolvedValue(undefined);
+
+    const result = await service.runWebhookEvent('webhook-leased-1', 'retry');
+
+    expect(result.isOk() && result.value.status).toBe('skipped');
+    expect(processStripeEvent).not.toHaveBeenCalled();
   });
 });
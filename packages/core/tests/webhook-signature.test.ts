@@ -1,8 +1,10 @@
 ﻿import { describe, expect, it } from 'vitest';
 
 import {
+  createOutboundWebhookSignature,
   createWooWebhookSignature,
   isPaidWooStatus,
+  verifyOutboundWebhookSignature,
   verifyWooWebhookSignature,
 } from '../src/security/webhook-signature.js';
 
@@ -31,6 +33,28 @@ describe('webhook signature', () => {
     expect(valid).toBe(false);
   });
 
+  it('binds outbound signatures to the delivery timestamp', () => {
+    const body = JSON.stringify({ type: 'order.paid' });
+    const signature = createOutboundWebhookSignature({ rawBody: body, secret: 'whsec_test', timestamp: 1778356800 });
+
+    expect(
+      verifyOutboundWebhookSignature({
+        rawBody: body,
+        secret: 'whsec_test',
+        timestamp: 1778356800,
+        providedSignature: signature,
+      }),
+    ).toBe(true);
+    expect(
+      verifyOutboundWebhookSignature({
+        rawBody: body,
+        secret: 'whsec_test',
+        timestamp: 1778356801,
+        providedSignature: signature,
+      }),
+    ).toBe(false);
+  });
+
   it('accepts only processing/completed as paid', () => {
     expect(isPaidWooStatus('processing')).toBe(true);
     expect(isPaidWooStatus('completed')).toBe(true);
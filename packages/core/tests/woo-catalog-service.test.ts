@@ -0,0 +1,314 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ok } from 'neverthrow';
+
+import type { ProductAggregate } from '../src/repositories/product-repository.js';
+import type { SessionPayload } from '../src/security/session-token.js';
+import { planWooCatalogSync, WooCatalogService, type WooCatalogEntry } from '../src/services/woo-catalog-service.js';
+
+function makeSession(): SessionPayload {
+  return {
+    userId: 'user-1',
+    discordUserId: 'discord-user-1',
+    isSuperAdmin: false,
+    tenantIds: ['tenant-1'],
+    exp: Math.floor(Date.now() / 1000) + 3600,
+  };
+}
+
+function makeVariant(
+  overrides: Partial<ProductAggregate['variants'][number]> = {},
+): ProductAggregate['variants'][number] {
+  return {
+    id: 'variant-1',
+    label: 'Monthly',
+    priceMinor: 1000,
+    referralRewardMinor: 0,
+    currency: 'GBP',
+    wooProductId: '11',
+    wooCheckoutPath: '/custom-checkout/?add-to-cart=11',
+    stockQuantity: 5,
+    stockReserved: 0,
+    lowStockThreshold: null,
+    roleRewards: [],
+    billingIntervalDays: null,
+    minQuantity: 1,
+    maxQuantity: null,
+    priceTiers: [],
+    ...overrides,
+  };
+}
+
+function makeProduct(overrides: Partial<ProductAggregate> = {}): ProductAggregate {
+  return {
+    id: 'product-1',
+    tenantId: 'tenant-1',
+    guildId: 'guild-1',
+    category: 'Boosts',
+    name: 'Server Boost (renamed)',
+    description: 'Edited in the dashboard',
+    active: true,
+    roleRewards: [],
+    variants: [makeVariant()],
+    formFields: [],
+    ...overrides,
+  };
+}
+
+const catalog: WooCatalogEntry[] = [
+  {
+    product: {
+      id: 10,
+      name: 'Server Boost',
+      type: 'variable',
+      status: 'publish',
+      price: '10.00',
+      categories: [{ id: 1, name: 'Boosts' }],
+    },
+    variations: [
+      { id: 11, status: 'publish', price: '12.50', attributes: [{ name: 'Plan', option: 'Monthly' }] },
+      { id: 12, status: 'publish', price: '100.00', attributes: [{ name: 'Plan', option: 'Yearly' }] },
+      { id: 13, status: 'private', price: '1.00', attributes: [{ name: 'Plan', option: 'Staff' }] },
+    ],
+  },
+  {
+    product: {
+      id: 20,
+      name: 'Tom &amp; Jerry Pack',
+      type: 'simple',
+      status: 'publish',
+      price: '5',
+      short_description: '<p>Two &quot;classic&quot; emotes</p>',
+      categories: [],
+    },
+    variations: [],
+  },
+  {
+    product: { id: 30, name: 'Bundle', type: 'grouped', status: 'publish', price: '' },
+    variations: [],
+  },
+  {
+    product: { id: 40, name: 'Free Sample', type: 'simple', status: 'publish', price: '' },
+    variations: [],
+  },
+];
+
+describe('woo catalog sync plan', () => {
+  it('maps new Woo products and variations and skips what cannot be sold', () => {
+    const plan = planWooCatalogSync({ currency: 'gbp', catalog, existingProducts: [] });
+
+    expect(plan.currency).toBe('GBP');
+    expect(plan.summary).toEqual({ create: 2, update: 0, unchanged: 0, skipped: 2 });
+    expect(plan.products[0]).toMatchObject({
+      action: 'create',
+      wooProductId: '10',
+      productId: null,
+      name: 'Server Boost',
+      category: 'Boosts',
+      variants: [
+        { action: 'create', wooProductId: '11', label: 'Monthly', priceMinor: 1250, currency: 'GBP' },
+        { action: 'create', wooProductId: '12', label: 'Yearly', priceMinor: 10000, currency: 'GBP' },
+      ],
+    });
+    expect(plan.products[1]).toMatchObject({
+      name: 'Tom & Jerry Pack',
+      category: 'Uncategorized',
+      description: 'Two "classic" emotes',
+      variants: [{ wooProductId: '20', label: 'Standard', priceMinor: 500 }],
+    });
+    expect(plan.skipped.map((item) => item.wooProductId)).toEqual(['30', '40']);
+  });
+
+  it('matches existing price options by Woo id and only reports price changes', () => {
+    const plan = planWooCatalogSync({
+      currency: 'GBP',
+      catalog: catalog.slice(0, 2),
+      existingProducts: [
+        makeProduct(),
+        makeProduct({
+          id: 'product-2',
+          name: 'Emotes',
+          variants: [makeVariant({ id: 'variant-2', label: 'Standard', priceMinor: 500, wooProductId: '20' })],
+        }),
+      ],
+    });
+
+    expect(plan.summary).toEqual({ create: 0, update: 1, unchanged: 1, skipped: 0 });
+    expect(plan.products[0]).toMatchObject({
+      action: 'update',
+      productId: 'product-1',
+      name: 'Server Boost (renamed)',
+      variants: [
+        { action: 'update', variantId: 'variant-1', priceMinor: 1250, previousPriceMinor: 1000 },
+        { action: 'create', variantId: null, wooProductId: '12', priceMinor: 10000 },
+      ],
+    });
+    expect(plan.products[1]).toMatchObject({ action: 'unchanged', productId: 'product-2' });
+  });
+
+  it('fingerprints the planned changes so a stale preview can be detected', () => {
+    const input = { currency: 'GBP', catalog, existingProducts: [makeProduct()] };
+    const plan = planWooCatalogSync(input);
+
+    expect(plan.fingerprint).toMatch(/^[0-9a-f]{64}$/);
+    expect(planWooCatalogSync(input).fingerprint).toBe(plan.fingerprint);
+    expect(
+      planWooCatalogSync({ ...input, existingProducts: [makeProduct({ variants: [makeVariant({ priceMinor: 1250 })] })] })
+        .fingerprint,
+    ).not.toBe(plan.fingerprint);
+  });
+});
+
+describe('woo catalog service', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function stubWooStore() {
+    return vi.spyOn(globalThis, 'fetch').mockImplementation(async (input) => {
+      const url = new URL(String(input));
+      if (url.pathname.endsWith('/data/currencies/current')) {
+        return Response.json({ code: 'GBP' });
+      }
+      if (url.pathname.endsWith('/products/10/variations')) {
+        return Response.json(catalog[0]?.variations);
+      }
+      if (url.pathname.endsWith('/products')) {
+        return Response.json(catalog.map((entry) => entry.product));
+      }
+
+      return new Response('not found', { status: 404 });
+    });
+  }
+
+  function makeService() {
+    const service = new WooCatalogService();
+    vi.spyOn((service as any).authorizationService, 'ensureTenantRole').mockResolvedValue(ok(undefined));
+    vi.spyOn((service as any).authorizationService, 'ensureGuildBoundToTenant').mockResolvedValue(ok(undefined));
+    vi.spyOn((service as any).integrationService, 'getResolvedWooIntegrationByGuild').mockResolvedValue(
+      ok({
+        tenantId: 'tenant-1',
+        guildId: 'guild-1',
+        wpBaseUrl: 'https://shop.example.com',
+        tenantWebhookKey: 'webhook-key',
+        webhookSecret: 'webhook-secret',
+        consumerKey: 'ck_test',
+        consumerSecret: 'cs_test',
+      }),
+    );
+    return service;
+  }
+
+  it('previews the sync without saving products', async () => {
+    const fetchSpy = stubWooStore();
+    const service = makeService();
+    vi.spyOn((service as any).productRepository, 'listByGuild').mockResolvedValue([]);
+    const createProduct = vi.spyOn((service as any).productService, 'createProduct');
+
+    const result = await service.previewSync(makeSession(), { tenantId: 'tenant-1', guildId: 'guild-1' });
+
+    expect(result._unsafeUnwrap().summary).toEqual({ create: 2, update: 0, unchanged: 0, skipped: 2 });
+    expect(createProduct).not.toHaveBeenCalled();
+    const [productsUrl, init] = fetchSpy.mock.calls.find(([url]) => String(url).includes('/products?')) ?? [];
+    expect(String(productsUrl)).toBe('https://shop.example.com/wp-json/wc/v3/products?status=publish&per_page=100&page=1');
+    expect((init?.headers as Record<string, string>).Authorization).toBe(
+      `Basic ${Buffer.from('ck_test:cs_test').toString('base64')}`,
+    );
+  });
+
+  it('creates new products and refreshes prices of linked price options', async () => {
+    stubWooStore();
+    const service = makeService();
+    const existing = makeProduct({
+      variants: [
+        makeVariant({ priceTiers: [{ minQuantity: 5, priceMinor: 1100 }, { minQuantity: 10, priceMinor: 1300 }] }),
+        makeVariant({ id: 'variant-manual', label: 'Lifetime', wooProductId: null, wooCheckoutPath: null }),
+      ],
+    });
+    vi.spyOn((service as any).productRepository, 'listByGuild').mockResolvedValue([existing]);
+    vi.spyOn((service as any).productRepository, 'getById').mockResolvedValue(existing);
+    const createProduct = vi
+      .spyOn((service as any).productService, 'createProduct')
+      .mockResolvedValue(ok(makeProduct({ id: 'product-2' })));
+    const updateProduct = vi.spyOn((service as any).productService, 'updateProduct').mockResolvedValue(ok(undefined));
+    const appendAuditLog = vi.spyOn((service as any).adminRepository, 'appendAuditLog').mockResolvedValue(undefined);
+
+    const preview = await service.previewSync(makeSession(), { tenantId: 'tenant-1', guildId: 'guild-1' });
+    const result = await service.applySync(makeSession(), {
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      planFingerprint: preview._unsafeUnwrap().fingerprint,
+    });
+
+    expect(result.isOk()).toBe(true);
+    expect(createProduct).toHaveBeenCalledTimes(1);
+    expect(createProduct).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user-1' }), {
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      formFields: [],
+      product: {
+        category: 'Uncategorized',
+        name: 'Tom & Jerry Pack',
+        description: 'Two "classic" emotes',
+        active: true,
+        variants: [
+          {
+            label: 'Standard',
+            priceMinor: 500,
+            currency: 'GBP',
+            wooProductId: '20',
+            wooCheckoutPath: '/checkout/?add-to-cart=20',
+          },
+        ],
+      },
+    });
+
+    const updated = (updateProduct.mock.calls[0]?.[1] as any).product;
+    expect(updated).toMatchObject({ name: 'Server Boost (renamed)', description: 'Edited in the dashboard' });
+    expect(updated.variants).toMatchObject([
+      {
+        id: 'variant-1',
+        priceMinor: 1250,
+        stockQuantity: 5,
+        wooCheckoutPath: '/custom-checkout/?add-to-cart=11',
+        priceTiers: [{ minQuantity: 5, priceMinor: 1100 }],
+      },
+      { id: 'variant-manual', priceMinor: 1000 },
+      { label: 'Yearly', priceMinor: 10000, wooProductId: '12', wooCheckoutPath: '/checkout/?add-to-cart=12' },
+    ]);
+    expect(appendAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'woo_catalog.sync',
+        metadata: { currency: 'GBP', create: 1, update: 1, unchanged: 0, skipped: 2 },
+      }),
+    );
+  });
+
+  it('refuses to apply when the catalog changed since the preview', async () => {
+    stubWooStore();
+    const service = makeService();
+    const listByGuild = vi.spyOn((service as any).productRepository, 'listByGuild').mockResolvedValue([]);
+    const createProduct = vi.spyOn((service as any).productService, 'createProduct');
+    const appendAuditLog = vi.spyOn((service as any).adminRepository, 'appendAuditLog');
+
+    const preview = await service.previewSync(makeSession(), { tenantId: 'tenant-1', guildId: 'guild-1' });
+    listByGuild.mockResolvedValue([makeProduct()]);
+    const result = await service.applySync(makeSession(), {
+      tenantId: 'tenant-1',
+      guildId: 'guild-1',
+      planFingerprint: preview._unsafeUnwrap().fingerprint,
+    });
+
+    expect(result._unsafeUnwrapErr()).toMatchObject({ code: 'WOO_CATALOG_CHANGED', statusCode: 409 });
+    expect(createProduct).not.toHaveBeenCalled();
+    expect(appendAuditLog).not.toHaveBeenCalled();
+  });
+
+  it('reports Woo API failures', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('forbidden', { status: 401 }));
+    const service = makeService();
+
+    const result = await service.previewSync(makeSession(), { tenantId: 'tenant-1', guildId: 'guild-1' });
+
+    expect(result._unsafeUnwrapErr()).toMatchObject({ code: 'WOO_CATALOG_FETCH_FAILED', statusCode: 502 });
+  });
+});
@@ -5,6 +5,7 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': fileURLToPath(new URL('./apps/web-app', import.meta.url)),
+      '@voodoo/core/currency': fileURLToPath(new URL('./packages/core/src/utils/currency.ts', import.meta.url)),
       '@voodoo/core': fileURLToPath(new URL('./packages/core/src/index.ts', import.meta.url)),
     },
   },